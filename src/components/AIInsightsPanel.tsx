@@ -8,6 +8,7 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -41,8 +42,10 @@ import {
   TrendResult, 
   AnomalyResult, 
   PatternResult,
+  detectColumnAnomalies,
   getQuickInsights
 } from '@/lib/aiInsightEngine';
+import { OUTLIER_DETECTORS, OutlierMethod } from '@/lib/outlierDetection';
 import { 
   executeAutoCleaning,
   executeAutoCleaningAsync,
@@ -50,11 +53,13 @@ import {
   quickFixRecommendation 
 } from '@/lib/autoDataCleaning';
 import { updateDatasetStats } from '@/lib/dataUtils';
+import { readCleaningHistory, withCleaningHistory } from '@/lib/dataCleaningUtils';
 import {
   fixSingleAnomaly,
   fixAnomaliesInColumn,
   fixAllAnomalies,
   AnomalyFixAction,
+  canApplyFix,
   getFixDescription
 } from '@/lib/anomalyFixUtils';
 import DataProcessingOverlay from './DataProcessingOverlay';
@@ -62,12 +67,21 @@ import { toast } from 'sonner';
 
 interface AIInsightsPanelProps {
   dataset: Dataset | null;
+  datasets?: Dataset[]; // all loaded datasets, for validation rules that reference another one
   onInsightsGenerated?: (insights: AIInsightSummary) => void;
   onDatasetUpdate?: (dataset: Dataset) => void;
 }
 
+// Stable default, so effects depending on the datasets don't rerun every render
+const NO_DATASETS: Dataset[] = [];
+
+// Select value for the built-in Z-score + IQR check (Radix selects can't hold an empty value)
+const DEFAULT_DETECTOR = '__default__';
+const MAX_COLUMN_ANOMALIES = 50;
+
 const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({ 
   dataset, 
+  datasets = NO_DATASETS,
   onInsightsGenerated,
   onDatasetUpdate
 }) => {
@@ -76,6 +90,8 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
   const [isCleaning, setIsCleaning] = useState(false);
   const [activeTab, setActiveTab] = useState('summary');
   const [cleaningPlan, setCleaningPlan] = useState<any>(null);
+  // Detector chosen per column; full analyses use the default Z-score + IQR check
+  const [columnMethods, setColumnMethods] = useState<Record<string, OutlierMethod>>({});
   // Loading overlay states
   const [showOverlay, setShowOverlay] = useState(false);
   const [overlayStage, setOverlayStage] = useState<'uploading' | 'parsing' | 'analyzing' | 'processing' | 'complete'>('analyzing');
@@ -87,6 +103,10 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
     return new Promise(resolve => setTimeout(resolve, 0));
   };
 
+  // The loaded datasets with a cleaned copy in place of its original
+  const withUpdated = (updated: Dataset): Dataset[] =>
+    datasets.map(ds => (ds.id === updated.id ? updated : ds));
+
   const runAnalysis = async () => {
     if (!dataset) {
       toast.error('Please select a dataset first');
@@ -105,6 +125,7 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
       // Run analysis with progress callbacks
       const result = await runAIAnalysisAsync(
         dataset,
+        datasets,
         (progress, message) => {
           setOverlayProgress(progress);
           setOverlayMessage(message);
@@ -118,6 +139,7 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
       await new Promise(resolve => setTimeout(resolve, 500));
       
       setInsights(result);
+      setColumnMethods({});
       onInsightsGenerated?.(result);
       toast.success(`Analysis complete! Found ${result.totalInsights} insights.`);
     } catch (error) {
@@ -143,10 +165,10 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
     
     // Create cleaning plan when dataset or insights change
     if (dataset && insights) {
-      const plan = createCleaningPlan(dataset, insights);
+      const plan = createCleaningPlan(dataset, insights, datasets);
       setCleaningPlan(plan);
     }
-  }, [dataset, insights]);
+  }, [dataset, insights, datasets]);
   
   const handleQuickFix = async (recommendation: string) => {
     if (!dataset) return;
@@ -178,11 +200,12 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
         await yieldToBrowser();
         
         // Re-run analysis to update insights
-        const newInsights = await runAIAnalysisAsync(updatedDataset, (progress, msg) => {
+        const newInsights = await runAIAnalysisAsync(updatedDataset, withUpdated(updatedDataset), (progress, msg) => {
           setOverlayProgress(80 + (progress * 0.15)); // 80-95% range
           setOverlayMessage(msg);
         });
         setInsights(newInsights);
+        setColumnMethods({});
         
         setOverlayProgress(100);
         setOverlayStage('complete');
@@ -247,6 +270,7 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
         dataset, 
         cleaningPlan, 
         insights,
+        datasets,
         (progress, message) => {
           setOverlayProgress(10 + (progress * 0.8)); // 10-90% range
           setOverlayMessage(message);
@@ -257,7 +281,13 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
       setOverlayMessage('Finalizing cleaned dataset...');
       await yieldToBrowser();
       
-      const updatedDataset = updateDatasetStats(result.cleanedDataset);
+      // The run's steps join the dataset's cleaning recipe and undo history, as if applied by hand
+      const recorded = readCleaningHistory(dataset);
+      const updatedDataset = withCleaningHistory(
+        recorded.original,
+        [...recorded.steps, ...result.steps],
+        result.cleanedDataset
+      );
       onDatasetUpdate?.(updatedDataset);
       
       setOverlayProgress(90);
@@ -265,11 +295,12 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
       await yieldToBrowser();
       
       // Re-run analysis with progress
-      const newInsights = await runAIAnalysisAsync(updatedDataset, (progress, msg) => {
+      const newInsights = await runAIAnalysisAsync(updatedDataset, withUpdated(updatedDataset), (progress, msg) => {
         setOverlayProgress(90 + (progress * 0.08)); // 90-98% range
         setOverlayMessage(msg);
       });
       setInsights(newInsights);
+      setColumnMethods({});
       
       setOverlayProgress(100);
       setOverlayStage('complete');
@@ -305,16 +336,43 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
     columnName?: string;
   } | null>(null);
 
-  // Group anomalies by column for organized rendering
+  // Group anomalies by column for organized rendering. A column stays listed after switching
+  // its detector, even when the new one flags nothing, so the choice can be changed back.
   const anomalyGroups = useMemo(() => {
-    if (!insights?.anomalies?.length) return {};
     const groups: Record<string, AnomalyResult[]> = {};
-    for (const a of insights.anomalies) {
+    Object.keys(columnMethods).forEach(column => { groups[column] = []; });
+    for (const a of insights?.anomalies || []) {
       if (!groups[a.column]) groups[a.column] = [];
       groups[a.column].push(a);
     }
     return groups;
-  }, [insights?.anomalies]);
+  }, [insights?.anomalies, columnMethods]);
+
+  const handleColumnMethodChange = (columnName: string, value: string) => {
+    if (!dataset || !insights) return;
+    const method = value === DEFAULT_DETECTOR ? undefined : value as OutlierMethod;
+    setColumnMethods(prev => {
+      const next = { ...prev };
+      if (method) next[columnName] = method;
+      else delete next[columnName];
+      return next;
+    });
+
+    const redetected = detectColumnAnomalies(dataset, columnName, method && { method }).slice(0, MAX_COLUMN_ANOMALIES);
+    const others = insights.anomalies.filter(a => a.column !== columnName);
+    const isCritical = (a: AnomalyResult) => a.severity === 'critical' || a.severity === 'high';
+    const previous = insights.anomalies.length - others.length;
+    setInsights({
+      ...insights,
+      anomalies: [...others, ...redetected],
+      totalInsights: insights.totalInsights - previous + redetected.length,
+      criticalFindings: insights.criticalFindings
+        - insights.anomalies.filter(a => a.column === columnName && isCritical(a)).length
+        + redetected.filter(isCritical).length
+    });
+    const label = method ? OUTLIER_DETECTORS[method].label : 'Z-score + IQR';
+    toast.info(`${label} flags ${redetected.length} value${redetected.length === 1 ? '' : 's'} in ${columnName}`);
+  };
 
   const handleAnomalyFix = async () => {
     if (!dataset || !pendingFix) return;
@@ -392,7 +450,9 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
           totalInsights: insights.totalInsights - fixedKeys.size,
           criticalFindings: Math.max(0, insights.criticalFindings - removedCritical),
           // Bump quality score proportionally
-          dataQualityScore: Math.min(100, insights.dataQualityScore + Math.round((fixedKeys.size / Math.max(1, insights.anomalies.length)) * 10))
+          dataQualityScore: Math.min(100, insights.dataQualityScore + Math.round((fixedKeys.size / Math.max(1, insights.anomalies.length)) * 10)),
+          // The itemized deductions no longer add up to the bumped score
+          dataQualityReport: undefined
         });
       }
 
@@ -429,7 +489,8 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
 
   const FixDropdownItems: React.FC<{
     onSelect: (action: AnomalyFixAction) => void;
-  }> = ({ onSelect }) => (
+    anomalies: AnomalyResult[];
+  }> = ({ onSelect, anomalies }) => (
     <>
       <DropdownMenuItem onClick={() => onSelect('removeRow')}>
         <Trash2 className="h-4 w-4 mr-2 text-red-500" />
@@ -447,6 +508,12 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
         <Calculator className="h-4 w-4 mr-2 text-purple-500" />
         Replace with Median
       </DropdownMenuItem>
+      {anomalies.some(a => canApplyFix(a, 'replaceWithExpected')) && (
+        <DropdownMenuItem onClick={() => onSelect('replaceWithExpected')}>
+          <TrendingUp className="h-4 w-4 mr-2 text-teal-500" />
+          Replace with Expected Value
+        </DropdownMenuItem>
+      )}
     </>
   );
 
@@ -750,6 +817,33 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
                     </Button>
                   )}
                 </div>
+                {insights.dataQualityReport && (
+                  <div className="mt-3 space-y-2">
+                    {insights.dataQualityReport.deductions.map(deduction => (
+                      <div key={deduction.factor}>
+                        <div className="flex justify-between text-xs">
+                          <span className="text-gray-700">{deduction.label}</span>
+                          <span className={deduction.points > 0 ? 'text-red-600' : 'text-gray-400'}>
+                            -{deduction.points.toFixed(1)} of {deduction.maxPoints}
+                          </span>
+                        </div>
+                        <p className="text-xs text-gray-400">{deduction.detail}</p>
+                      </div>
+                    ))}
+                    {insights.dataQualityReport.validation.results
+                      .filter(result => result.status !== 'passed')
+                      .map(result => (
+                        <div key={result.rule.id} className="flex justify-between text-xs pl-3">
+                          <span className="text-gray-600">{result.label}</span>
+                          <span className={result.status === 'failed' ? 'text-red-600' : 'text-yellow-600'}>
+                            {result.status === 'failed'
+                              ? `${result.violations.toLocaleString()} of ${result.checked.toLocaleString()} rows fail`
+                              : result.message}
+                          </span>
+                        </div>
+                      ))}
+                  </div>
+                )}
               </div>
             </TabsContent>
 
@@ -842,7 +936,7 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
             {/* Anomalies Tab */}
             <TabsContent value="anomalies" className="p-6">
               <ScrollArea className="h-[500px]">
-                {insights.anomalies.length === 0 ? (
+                {Object.keys(anomalyGroups).length === 0 ? (
                   <div className="text-center py-8 text-gray-500">
                     <CheckCircle className="h-12 w-12 mx-auto mb-3 text-green-300" />
                     <p>No anomalies detected</p>
@@ -876,6 +970,7 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
                           <DropdownMenuLabel>Fix all {insights.anomalies.length} anomalies</DropdownMenuLabel>
                           <DropdownMenuSeparator />
                           <FixDropdownItems
+                            anomalies={insights.anomalies}
                             onSelect={(action) => requestFix(action, 'all', undefined, insights.anomalies)}
                           />
                         </DropdownMenuContent>
@@ -893,21 +988,38 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
                               {columnAnomalies.length} anomal{columnAnomalies.length === 1 ? 'y' : 'ies'}
                             </Badge>
                           </div>
-                          <DropdownMenu>
-                            <DropdownMenuTrigger asChild>
-                              <Button variant="outline" size="sm" disabled={isCleaning}>
-                                <Wrench className="h-3.5 w-3.5 mr-1.5" />
-                                Fix All in Column
-                              </Button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent align="end">
-                              <DropdownMenuLabel>Fix {columnAnomalies.length} in &quot;{columnName}&quot;</DropdownMenuLabel>
-                              <DropdownMenuSeparator />
-                              <FixDropdownItems
-                                onSelect={(action) => requestFix(action, 'column', undefined, columnAnomalies, columnName)}
-                              />
-                            </DropdownMenuContent>
-                          </DropdownMenu>
+                          <div className="flex items-center gap-2">
+                            <Select
+                              value={columnMethods[columnName] ?? DEFAULT_DETECTOR}
+                              onValueChange={(value) => handleColumnMethodChange(columnName, value)}
+                            >
+                              <SelectTrigger className="h-8 w-44 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={DEFAULT_DETECTOR}>Z-score + IQR</SelectItem>
+                                {Object.entries(OUTLIER_DETECTORS).map(([value, detector]) => (
+                                  <SelectItem key={value} value={value}>{detector.label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="outline" size="sm" disabled={isCleaning || columnAnomalies.length === 0}>
+                                  <Wrench className="h-3.5 w-3.5 mr-1.5" />
+                                  Fix All in Column
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuLabel>Fix {columnAnomalies.length} in &quot;{columnName}&quot;</DropdownMenuLabel>
+                                <DropdownMenuSeparator />
+                                <FixDropdownItems
+                                  anomalies={columnAnomalies}
+                                  onSelect={(action) => requestFix(action, 'column', undefined, columnAnomalies, columnName)}
+                                />
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </div>
                         </div>
 
                         {/* Individual Anomaly Cards */}
@@ -927,6 +1039,11 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
                                 <Badge variant="outline" className="text-xs">
                                   Row {anomaly.rowIndex + 1}
                                 </Badge>
+                                {anomaly.method && (
+                                  <Badge variant="secondary" className="text-xs">
+                                    {OUTLIER_DETECTORS[anomaly.method].label}
+                                  </Badge>
+                                )}
                               </div>
                               <div className="flex items-center gap-2">
                                 <Badge className={
@@ -952,6 +1069,7 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
                                     <DropdownMenuLabel>Fix this anomaly</DropdownMenuLabel>
                                     <DropdownMenuSeparator />
                                     <FixDropdownItems
+                                      anomalies={[anomaly]}
                                       onSelect={(action) => requestFix(action, 'single', anomaly)}
                                     />
                                   </DropdownMenuContent>
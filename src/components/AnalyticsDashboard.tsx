@@ -16,6 +16,8 @@ import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/componen
 import ResizableVisualization from './ResizableVisualization';
 import StatisticalDescription from './StatisticalDescription';
 import DynamicKPIGenerator from './DynamicKPIGenerator';
+import { KPIDefinition } from '@/lib/kpiFormulaEngine';
+import { Glossary } from '@/lib/glossary';
 import { toast } from 'sonner';
 
 
@@ -28,6 +30,8 @@ interface AnalyticsDashboardProps {
   onAnalyze?: () => void;
   isProcessing?: boolean;
   schemaInfo?: SchemaDetectionResult | null;
+  kpiDefinitions?: Record<string, KPIDefinition[]>;
+  glossary?: Glossary;
 }
 
 const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
@@ -38,7 +42,9 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
   activeDatasetId,
   onAnalyze,
   isProcessing = false,
-  schemaInfo
+  schemaInfo,
+  kpiDefinitions,
+  glossary
 }) => {
   const activeDataset = datasets.find(d => d.id === activeDatasetId);
 
@@ -215,7 +221,11 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
         )}
 
         {/* Dynamic KPI Cards - Power BI-like (6 cards) */}
-        <DynamicKPIGenerator dataset={activeDataset || null} />
+        <DynamicKPIGenerator
+          dataset={activeDataset || null}
+          definitions={activeDataset ? kpiDefinitions?.[activeDataset.id] : undefined}
+          glossary={glossary}
+        />
 
         {/* Data Visualizations - Resizable Grid */}
         <div className="space-y-4">
@@ -1,5 +1,5 @@
 // Custom DAX Calculation Component
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,6 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from '@/components/ui/dialog';
 import { Dataset, DAXCalculation } from '@/lib/types';
+import { parseDAXFormula, SUPPORTED_DAX_FUNCTIONS } from '@/lib/daxEngine';
 import { Plus, Calculator, Zap, Play, AlertCircle, CheckCircle } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -37,12 +38,23 @@ const CustomDAXCalculator: React.FC<CustomDAXCalculatorProps> = ({
     confidence: 1.0
   });
 
+  // Live syntax check while typing
+  const formulaCheck = useMemo(
+    () => (newCalculation.formula ? parseDAXFormula(newCalculation.formula) : null),
+    [newCalculation.formula]
+  );
+
   const handleCreateCalculation = () => {
     if (!newCalculation.name || !newCalculation.formula) {
       toast.error('Please provide a name and formula');
       return;
     }
 
+    if (formulaCheck && !formulaCheck.success) {
+      toast.error(`Syntax error: ${formulaCheck.error}`);
+      return;
+    }
+
     onAddCalculation({
       name: newCalculation.name!,
       formula: newCalculation.formula!,
@@ -80,12 +92,12 @@ const CustomDAXCalculator: React.FC<CustomDAXCalculatorProps> = ({
   };
 
   const daxExamples = [
-    { name: 'Total Sum', formula: 'SUM(ColumnName)', description: 'Sum of all values in a column' },
-    { name: 'Average', formula: 'AVERAGE(ColumnName)', description: 'Average value of a column' },
+    { name: 'Total Sum', formula: 'SUM(Table[Column])', description: 'Sum of all values in a column' },
+    { name: 'Average', formula: 'AVERAGE([Column])', description: 'Average value of a column' },
     { name: 'Count Rows', formula: 'COUNTROWS(Table)', description: 'Total number of rows' },
-    { name: 'Max Value', formula: 'MAX(ColumnName)', description: 'Maximum value in a column' },
-    { name: 'Min Value', formula: 'MIN(ColumnName)', description: 'Minimum value in a column' },
-    { name: 'Year Extract', formula: 'YEAR(DateColumn)', description: 'Extract year from date' }
+    { name: 'Average per Order', formula: 'DIVIDE(SUM(Sales[Amount]), COUNTROWS(Orders))', description: 'Nested calculation across tables' },
+    { name: 'Filtered Total', formula: 'CALCULATE(SUM(Sales[Amount]), Sales[Region] = "West")', description: 'Sum with a filter context' },
+    { name: 'Year to Date', formula: 'TOTALYTD(SUM(Sales[Amount]), Sales[Date])', description: 'Year-to-date total' }
   ];
 
   return (
@@ -125,9 +137,25 @@ const CustomDAXCalculator: React.FC<CustomDAXCalculatorProps> = ({
                     rows={3}
                     className="font-mono text-sm"
                   />
-                  <p className="text-xs text-gray-500">
-                    Enter a valid DAX expression. Use column names from your datasets.
-                  </p>
+                  {formulaCheck && !formulaCheck.success ? (
+                    <div className="text-xs text-red-600 space-y-1">
+                      <p className="flex items-center gap-1">
+                        <AlertCircle className="h-3 w-3" />
+                        {formulaCheck.error}
+                      </p>
+                      {formulaCheck.position !== undefined && (
+                        <pre className="font-mono bg-red-50 p-2 rounded overflow-x-auto">
+                          {newCalculation.formula}
+                          {'\n'}
+                          {' '.repeat(formulaCheck.position)}^
+                        </pre>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-500">
+                      Enter a valid DAX expression. Reference columns as Table[Column] or [Column].
+                    </p>
+                  )}
                 </div>
                 <div className="space-y-2">
                   <Label>Description</Label>
@@ -171,6 +199,9 @@ const CustomDAXCalculator: React.FC<CustomDAXCalculatorProps> = ({
                     />
                   </div>
                 </div>
+                <p className="text-xs text-gray-400">
+                  Supported functions: {SUPPORTED_DAX_FUNCTIONS.join(', ')}
+                </p>
                 <div className="space-y-2">
                   <Label className="text-sm font-medium">DAX Examples</Label>
                   <div className="grid grid-cols-2 gap-2">
@@ -194,7 +225,7 @@ const CustomDAXCalculator: React.FC<CustomDAXCalculatorProps> = ({
                 <Button variant="outline" onClick={() => setShowDialog(false)}>
                   Cancel
                 </Button>
-                <Button onClick={handleCreateCalculation}>
+                <Button onClick={handleCreateCalculation} disabled={formulaCheck?.success === false}>
                   Create Calculation
                 </Button>
               </DialogFooter>
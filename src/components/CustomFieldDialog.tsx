@@ -1,5 +1,5 @@
 // Component for creating custom fields/columns
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,7 +8,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Checkbox } from '@/components/ui/checkbox';
 import { Textarea } from '@/components/ui/textarea';
 import { ColumnInfo, DataType } from '@/lib/types';
-import { AlertCircle } from 'lucide-react';
+import { analyzeColumn } from '@/lib/dataUtils';
+import { DAXEvaluationContext, evaluateCalculatedColumn, parseDAXFormula } from '@/lib/daxEngine';
+import { AlertCircle, Calculator } from 'lucide-react';
 import { toast } from 'sonner';
 
 interface CustomFieldDialogProps {
@@ -16,14 +18,20 @@ interface CustomFieldDialogProps {
   onOpenChange: (open: boolean) => void;
   onSave: (column: ColumnInfo) => void;
   existingColumns?: string[];
+  daxContext?: DAXEvaluationContext; // enables calculated (DAX) fields
 }
 
+const PREVIEW_ROWS = 5;
+
 const CustomFieldDialog: React.FC<CustomFieldDialogProps> = ({
   open,
   onOpenChange,
   onSave,
-  existingColumns = []
+  existingColumns = [],
+  daxContext
 }) => {
+  const [fieldKind, setFieldKind] = useState<'static' | 'calculated'>('static');
+  const [expression, setExpression] = useState('');
   const [fieldName, setFieldName] = useState('');
   const [fieldType, setFieldType] = useState<DataType>('string');
   const [isRequired, setIsRequired] = useState(false);
@@ -55,7 +63,58 @@ const CustomFieldDialog: React.FC<CustomFieldDialogProps> = ({
     return true;
   };
 
+  // Evaluate the formula against the whole table as the user types, so aggregates such as
+  // SUM([Revenue]) see every row; only the first PREVIEW_ROWS results are shown
+  const formulaPreview = useMemo(() => {
+    if (fieldKind !== 'calculated' || !expression.trim() || !daxContext) return null;
+    const parsed = parseDAXFormula(expression, daxContext.dataset);
+    if (!parsed.success) {
+      return { error: parsed.error, values: [] as unknown[], name: undefined };
+    }
+    const result = evaluateCalculatedColumn(parsed.ast!, daxContext);
+    return { error: result.error, values: result.values, name: parsed.name };
+  }, [fieldKind, expression, daxContext]);
+
+  const resetForm = () => {
+    setFieldKind('static');
+    setExpression('');
+    setFieldName('');
+    setFieldType('string');
+    setIsRequired(false);
+    setDefaultValue('');
+    setMinValue('');
+    setMaxValue('');
+    setPattern('');
+    setError('');
+  };
+
+  const handleSaveCalculated = () => {
+    // "Margin = [Revenue] - [Cost]" supplies the name when the field is left empty
+    const name = fieldName || formulaPreview?.name || '';
+    if (!validateFieldName(name)) {
+      return;
+    }
+    if (!formulaPreview || formulaPreview.error) {
+      setError(formulaPreview?.error || 'Enter a DAX expression');
+      return;
+    }
+
+    const column: ColumnInfo = {
+      ...analyzeColumn(name, formulaPreview.values),
+      isCustom: true,
+      expression: expression.trim()
+    };
+
+    onSave(column);
+    resetForm();
+    onOpenChange(false);
+  };
+
   const handleSave = () => {
+    if (fieldKind === 'calculated') {
+      handleSaveCalculated();
+      return;
+    }
     if (!validateFieldName(fieldName)) {
       return;
     }
@@ -79,16 +138,7 @@ const CustomFieldDialog: React.FC<CustomFieldDialogProps> = ({
     };
 
     onSave(column);
-    
-    // Reset form
-    setFieldName('');
-    setFieldType('string');
-    setIsRequired(false);
-    setDefaultValue('');
-    setMinValue('');
-    setMaxValue('');
-    setPattern('');
-    setError('');
+    resetForm();
     onOpenChange(false);
     
     toast.success(`Custom field "${fieldName}" created successfully`);
@@ -109,9 +159,27 @@ const CustomFieldDialog: React.FC<CustomFieldDialogProps> = ({
         </DialogHeader>
 
         <div className="space-y-4 py-4">
+          {daxContext && (
+            <div className="space-y-2">
+              <Label htmlFor="fieldKind">Field Kind</Label>
+              <Select value={fieldKind} onValueChange={(value: 'static' | 'calculated') => {
+                setFieldKind(value);
+                setError('');
+              }}>
+                <SelectTrigger id="fieldKind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="static">Static value (manual entry)</SelectItem>
+                  <SelectItem value="calculated">Calculated (DAX expression per row)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="fieldName">
-              Field Name <span className="text-red-500">*</span>
+              Field Name {fieldKind === 'static' && <span className="text-red-500">*</span>}
             </Label>
             <Input
               id="fieldName"
@@ -131,6 +199,47 @@ const CustomFieldDialog: React.FC<CustomFieldDialogProps> = ({
             </p>
           </div>
 
+          {fieldKind === 'calculated' ? (
+            <div className="space-y-2">
+              <Label htmlFor="expression" className="flex items-center gap-1">
+                <Calculator className="h-3 w-3" />
+                DAX Expression <span className="text-red-500">*</span>
+              </Label>
+              <Textarea
+                id="expression"
+                value={expression}
+                onChange={(e) => {
+                  setExpression(e.target.value);
+                  setError('');
+                }}
+                placeholder={'e.g., Margin = [Revenue] - [Cost]\nor IF([Age] > 40, "Senior", "Junior")'}
+                className="font-mono text-sm"
+                rows={3}
+              />
+              <p className="text-xs text-gray-500">
+                Evaluated once per row. Columns of the current row are referenced as [Column];
+                aggregates such as SUM([Revenue]) use the whole table.
+              </p>
+              {formulaPreview?.error ? (
+                <p className="text-sm text-red-500 flex items-center gap-1">
+                  <AlertCircle className="h-3 w-3" />
+                  {formulaPreview.error}
+                </p>
+              ) : formulaPreview && (
+                <div className="rounded border bg-gray-50 p-2 text-xs">
+                  <p className="font-medium text-gray-700 mb-1">
+                    Preview (first {Math.min(PREVIEW_ROWS, formulaPreview.values.length)} of {formulaPreview.values.length} rows)
+                  </p>
+                  {formulaPreview.values.slice(0, PREVIEW_ROWS).map((value, i) => (
+                    <div key={i} className="font-mono text-gray-600">
+                      {i + 1}: {value === null || value === undefined ? '(blank)' : String(value)}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : (
+          <>
           <div className="space-y-2">
             <Label htmlFor="fieldType">
               Data Type <span className="text-red-500">*</span>
@@ -242,13 +351,20 @@ const CustomFieldDialog: React.FC<CustomFieldDialogProps> = ({
               </p>
             </div>
           )}
+          </>
+          )}
         </div>
 
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
           </Button>
-          <Button onClick={handleSave} disabled={!fieldName || !!error}>
+          <Button
+            onClick={handleSave}
+            disabled={fieldKind === 'calculated'
+              ? !expression.trim() || !!formulaPreview?.error || (!fieldName && !formulaPreview?.name)
+              : !fieldName || !!error}
+          >
             Create Field
           </Button>
         </DialogFooter>
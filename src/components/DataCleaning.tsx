@@ -1,5 +1,5 @@
 // Data Cleaning Component
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -7,6 +7,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { 
   Sparkles, 
   Trash2, 
@@ -18,40 +19,80 @@ import {
   RotateCcw,
   Database,
   Filter,
-  Scissors
+  Scissors,
+  ListOrdered,
+  Save,
+  Download,
+  Upload,
+  Play
 } from 'lucide-react';
-import { Dataset } from '@/lib/types';
+import { Dataset, ValidationRule } from '@/lib/types';
+import { SEMANTIC_TYPE_LABELS } from '@/lib/semanticTypes';
+import FuzzyDuplicateReview from './FuzzyDuplicateReview';
+import ValidationRulesPanel from './ValidationRulesPanel';
+import { CleaningResult, CleaningStep, readCleaningHistory, withCleaningHistory } from '@/lib/dataCleaningUtils';
 import {
-  removeDuplicates,
-  removeMissingRows,
-  fillMissingWithDefault,
-  fillMissingWithMean,
-  fillMissingWithMedian,
-  trimWhitespace,
-  removeOutliers,
-  convertToLowerCase,
-  convertToUpperCase,
-  removeSpecialCharacters,
-  CleaningResult
-} from '@/lib/dataCleaningUtils';
+  CleaningRecipe,
+  RecipePreview,
+  applyCleaningStep,
+  createCleaningRecipe,
+  deleteSavedRecipe,
+  describeCleaningStep,
+  downloadCleaningRecipe,
+  listSavedRecipes,
+  parseCleaningRecipe,
+  previewCleaningRecipe,
+  rebuildCleanedDataset,
+  saveRecipe
+} from '@/lib/cleaningRecipe';
+import { IMPUTATION_METHOD_LABELS, ImputationMethod, ImputationOptions } from '@/lib/imputation';
+import { OUTLIER_DETECTORS, OutlierMethod, OutlierOptions } from '@/lib/outlierDetection';
 import { toast } from 'sonner';
 
+// Select value standing for "no column" (Radix selects don't allow an empty value)
+const NO_COLUMN = '__none__';
+
+const isSeriesImputation = (method: ImputationMethod) =>
+  method === 'forward_fill' || method === 'backward_fill' || method === 'linear_interpolation';
+
 interface DataCleaningProps {
   dataset: Dataset;
+  datasets?: Dataset[]; // all loaded datasets, for referential validation rules
   onDatasetUpdate: (dataset: Dataset) => void;
 }
 
-const DataCleaning: React.FC<DataCleaningProps> = ({ dataset, onDatasetUpdate }) => {
-  const [history, setHistory] = useState<Dataset[]>([dataset]);
-  const [historyIndex, setHistoryIndex] = useState(0);
+const DataCleaning: React.FC<DataCleaningProps> = ({ dataset, datasets = [], onDatasetUpdate }) => {
+  // Only the dataset before any recipe step is kept; the dataset after the first i steps is
+  // rebuilt by replaying them. Steps beyond historyIndex are undone. Steps recorded on the
+  // dataset (an auto-cleaning run, an earlier visit to this tab) carry on.
+  const [original] = useState<Dataset>(() => readCleaningHistory(dataset).original);
+  const [steps, setSteps] = useState<CleaningStep[]>(() => readCleaningHistory(dataset).steps);
+  const [historyIndex, setHistoryIndex] = useState(() => readCleaningHistory(dataset).steps.length);
+  const [currentDataset, setCurrentDataset] = useState<Dataset>(() => {
+    const { cleaningHistory: _history, ...current } = dataset;
+    return current;
+  });
   const [selectedColumn, setSelectedColumn] = useState<string>('');
   const [fillValue, setFillValue] = useState<string>('');
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [imputationMethod, setImputationMethod] = useState<ImputationMethod>('forward_fill');
+  const [imputationOrderBy, setImputationOrderBy] = useState('');
+  const [imputationGroupBy, setImputationGroupBy] = useState('');
+  const [outlierMethod, setOutlierMethod] = useState<OutlierMethod>('iqr');
+  const [outlierThreshold, setOutlierThreshold] = useState('');
+  const [outlierDateColumn, setOutlierDateColumn] = useState('');
   const [lastResult, setLastResult] = useState<CleaningResult | null>(null);
-
-  const currentDataset = history[historyIndex];
+  const [savedRecipes, setSavedRecipes] = useState<CleaningRecipe[]>(() => listSavedRecipes());
+  const [replayRecipe, setReplayRecipe] = useState<CleaningRecipe | null>(null);
+  const [replayPreview, setReplayPreview] = useState<RecipePreview | null>(null);
+  const recipeInputRef = useRef<HTMLInputElement>(null);
+  // Validation rules describe the data rather than change it, so they sit outside the undo history
+  const [validationRules, setValidationRules] = useState(dataset.validationRules || []);
+
+  const validatedDataset = useMemo(() => ({ ...currentDataset, validationRules }), [currentDataset, validationRules]);
   const canUndo = historyIndex > 0;
-  const canRedo = historyIndex < history.length - 1;
+  const canRedo = historyIndex < steps.length;
+  const appliedSteps = steps.slice(0, historyIndex);
 
   const stringColumns = useMemo(() => 
     currentDataset.columns.filter(col => col.type === 'string').map(col => col.name),
@@ -63,13 +104,34 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ dataset, onDatasetUpdate })
     [currentDataset]
   );
 
-  const applyCleaning = (result: CleaningResult) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(result.dataset);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
+  const orderableColumns = useMemo(() => 
+    currentDataset.columns.filter(col => col.type === 'date' || col.type === 'number').map(col => col.name),
+    [currentDataset]
+  );
+
+  // The dataset carries the applied steps, so they outlive this component
+  const publish = (index: number, current: Dataset, newSteps = steps, rules = validationRules) =>
+    onDatasetUpdate({
+      ...withCleaningHistory(original, newSteps.slice(0, index), current),
+      validationRules: rules
+    });
+
+  const applyStep = (step: CleaningStep, errorLabel: string) => {
+    let result: CleaningResult;
+    try {
+      result = applyCleaningStep(currentDataset, step);
+    } catch (error) {
+      toast.error(`Error ${errorLabel}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return;
+    }
+
+    // A new step discards anything that was undone
+    const newSteps = [...steps.slice(0, historyIndex), step];
+    setSteps(newSteps);
+    setHistoryIndex(historyIndex + 1);
+    setCurrentDataset(result.dataset);
     setLastResult(result);
-    onDatasetUpdate(result.dataset);
+    publish(historyIndex + 1, result.dataset, newSteps);
     
     toast.success(
       `Cleaning applied: ${result.operationsPerformed.join(', ')}. ` +
@@ -79,21 +141,11 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ dataset, onDatasetUpdate })
   };
 
   const handleRemoveDuplicates = () => {
-    try {
-      const result = removeDuplicates(currentDataset);
-      applyCleaning(result);
-    } catch (error) {
-      toast.error(`Error removing duplicates: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    applyStep({ op: 'removeDuplicates' }, 'removing duplicates');
   };
 
   const handleRemoveMissingRows = () => {
-    try {
-      const result = removeMissingRows(currentDataset);
-      applyCleaning(result);
-    } catch (error) {
-      toast.error(`Error removing missing rows: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    applyStep({ op: 'removeMissingRows' }, 'removing missing rows');
   };
 
   const handleFillMissingDefault = () => {
@@ -106,13 +158,8 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ dataset, onDatasetUpdate })
       return;
     }
 
-    try {
-      const result = fillMissingWithDefault(currentDataset, selectedColumn, fillValue);
-      applyCleaning(result);
-      setFillValue('');
-    } catch (error) {
-      toast.error(`Error filling missing values: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    applyStep({ op: 'fillMissingWithDefault', column: selectedColumn, value: fillValue }, 'filling missing values');
+    setFillValue('');
   };
 
   const handleFillMissingMean = () => {
@@ -121,12 +168,7 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ dataset, onDatasetUpdate })
       return;
     }
 
-    try {
-      const result = fillMissingWithMean(currentDataset, selectedColumn);
-      applyCleaning(result);
-    } catch (error) {
-      toast.error(`Error filling with mean: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    applyStep({ op: 'fillMissingWithMean', column: selectedColumn }, 'filling with mean');
   };
 
   const handleFillMissingMedian = () => {
@@ -135,22 +177,36 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ dataset, onDatasetUpdate })
       return;
     }
 
-    try {
-      const result = fillMissingWithMedian(currentDataset, selectedColumn);
-      applyCleaning(result);
-    } catch (error) {
-      toast.error(`Error filling with median: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    applyStep({ op: 'fillMissingWithMedian', column: selectedColumn }, 'filling with median');
+  };
+
+  const handleImpute = () => {
+    if (!selectedColumn) {
+      toast.error('Please select a column');
+      return;
+    }
+
+    const options: ImputationOptions = {};
+    if (isSeriesImputation(imputationMethod)) {
+      if (imputationOrderBy) options.orderBy = imputationOrderBy;
+      if (imputationGroupBy) options.groupBy = imputationGroupBy;
     }
+    applyStep(
+      { op: 'imputeMissing', column: selectedColumn, method: imputationMethod, options },
+      'imputing missing values'
+    );
   };
 
   const handleTrimWhitespace = () => {
-    try {
-      const columns = selectedColumn ? [selectedColumn] : undefined;
-      const result = trimWhitespace(currentDataset, columns);
-      applyCleaning(result);
-    } catch (error) {
-      toast.error(`Error trimming whitespace: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    const columns = selectedColumn ? [selectedColumn] : undefined;
+    applyStep({ op: 'trimWhitespace', columns }, 'trimming whitespace');
+  };
+
+  const getOutlierOptions = (): OutlierOptions | undefined => {
+    const options: OutlierOptions = {};
+    if (outlierThreshold.trim() !== '' && !isNaN(Number(outlierThreshold))) options.threshold = Number(outlierThreshold);
+    if (outlierMethod === 'seasonal' && outlierDateColumn) options.dateColumn = outlierDateColumn;
+    return Object.keys(options).length > 0 ? options : undefined;
   };
 
   const handleRemoveOutliers = () => {
@@ -159,12 +215,22 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ dataset, onDatasetUpdate })
       return;
     }
 
-    try {
-      const result = removeOutliers(currentDataset, selectedColumn);
-      applyCleaning(result);
-    } catch (error) {
-      toast.error(`Error removing outliers: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    applyStep(
+      { op: 'removeOutliers', column: selectedColumn, method: outlierMethod, options: getOutlierOptions() },
+      'removing outliers'
+    );
+  };
+
+  const handleCapOutliers = () => {
+    if (!selectedColumn || !numericColumns.includes(selectedColumn)) {
+      toast.error('Please select a numeric column');
+      return;
     }
+
+    applyStep(
+      { op: 'capOutliersToBounds', column: selectedColumn, method: outlierMethod, options: getOutlierOptions() },
+      'capping outliers'
+    );
   };
 
   const handleConvertCase = (caseType: 'lowercase' | 'uppercase') => {
@@ -173,14 +239,7 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ dataset, onDatasetUpdate })
       return;
     }
 
-    try {
-      const result = caseType === 'lowercase' 
-        ? convertToLowerCase(currentDataset, selectedColumn)
-        : convertToUpperCase(currentDataset, selectedColumn);
-      applyCleaning(result);
-    } catch (error) {
-      toast.error(`Error converting case: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    applyStep({ op: 'standardizeText', column: selectedColumn, caseType }, 'converting case');
   };
 
   const handleRemoveSpecialChars = () => {
@@ -189,36 +248,114 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ dataset, onDatasetUpdate })
       return;
     }
 
+    applyStep({ op: 'removeSpecialCharacters', column: selectedColumn }, 'removing special characters');
+  };
+
+  const moveTo = (index: number, rebuild: () => Dataset) => {
+    let current: Dataset;
     try {
-      const result = removeSpecialCharacters(currentDataset, selectedColumn);
-      applyCleaning(result);
+      current = rebuild();
     } catch (error) {
-      toast.error(`Error removing special characters: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      toast.error(`Could not rebuild the dataset: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return;
     }
+    setHistoryIndex(index);
+    setCurrentDataset(current);
+    publish(index, current);
   };
 
   const handleUndo = () => {
     if (canUndo) {
-      setHistoryIndex(historyIndex - 1);
-      onDatasetUpdate(history[historyIndex - 1]);
+      moveTo(historyIndex - 1, () => rebuildCleanedDataset(original, steps.slice(0, historyIndex - 1)));
     }
   };
 
   const handleRedo = () => {
     if (canRedo) {
-      setHistoryIndex(historyIndex + 1);
-      onDatasetUpdate(history[historyIndex + 1]);
+      moveTo(historyIndex + 1, () => applyCleaningStep(currentDataset, steps[historyIndex]).dataset);
     }
   };
 
   const handleReset = () => {
-    setHistory([dataset]);
+    setSteps([]);
     setHistoryIndex(0);
+    setCurrentDataset(original);
     setLastResult(null);
-    onDatasetUpdate(dataset);
+    publish(0, original, []);
     toast.info('Dataset reset to original');
   };
 
+  const handleRulesChange = (rules: ValidationRule[]) => {
+    setValidationRules(rules);
+    publish(historyIndex, currentDataset, steps, rules);
+  };
+
+  // ---- Recipes ----
+
+  const handleSaveRecipe = () => {
+    if (appliedSteps.length === 0) return;
+    const name = window.prompt('Recipe name', `${dataset.name} cleaning`);
+    if (!name?.trim()) return;
+    try {
+      setSavedRecipes(saveRecipe(createCleaningRecipe(name.trim(), appliedSteps, dataset.name)));
+      toast.success(`Saved recipe "${name.trim()}" with ${appliedSteps.length} steps`);
+    } catch (error) {
+      toast.error(`Could not save recipe: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleExportRecipe = () => {
+    if (appliedSteps.length === 0) return;
+    downloadCleaningRecipe(createCleaningRecipe(`${dataset.name} cleaning`, appliedSteps, dataset.name));
+  };
+
+  const openReplayPreview = (recipe: CleaningRecipe) => {
+    setReplayRecipe(recipe);
+    setReplayPreview(previewCleaningRecipe(currentDataset, recipe.steps));
+  };
+
+  const handleImportRecipe = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      openReplayPreview(parseCleaningRecipe(await file.text()));
+    } catch (error) {
+      toast.error(`Could not read recipe: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleDeleteRecipe = (recipe: CleaningRecipe) => {
+    if (!window.confirm(`Delete saved recipe "${recipe.name}"?`)) return;
+    setSavedRecipes(deleteSavedRecipe(recipe.id));
+  };
+
+  const closeReplayPreview = () => {
+    setReplayRecipe(null);
+    setReplayPreview(null);
+  };
+
+  // Applied steps join the undo history one by one, so a replay can be undone step by step
+  const handleApplyReplay = () => {
+    if (!replayRecipe || !replayPreview) return;
+    const newSteps = steps.slice(0, historyIndex);
+    let current = currentDataset;
+    replayPreview.outcomes
+      .filter(outcome => outcome.status === 'applied')
+      .forEach(({ step }) => {
+        current = applyCleaningStep(current, step).dataset;
+        newSteps.push(step);
+      });
+
+    setSteps(newSteps);
+    setHistoryIndex(newSteps.length);
+    setCurrentDataset(current);
+    setLastResult(null);
+    publish(newSteps.length, current, newSteps);
+    toast.success(`Applied recipe "${replayRecipe.name}": ${newSteps.length - historyIndex} steps`);
+    closeReplayPreview();
+  };
+
   const totalNulls = currentDataset.columns.reduce((sum, col) => sum + col.nullCount, 0);
   const totalCells = currentDataset.rowCount * currentDataset.columns.length;
   const dataQuality = totalCells > 0 ? ((totalCells - totalNulls) / totalCells * 100).toFixed(1) : '0';
@@ -312,7 +449,9 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ dataset, onDatasetUpdate })
             <SelectContent>
               {currentDataset.columns.map(col => (
                 <SelectItem key={col.name} value={col.name}>
-                  {col.name} ({col.type}) - {col.nullCount} nulls
+                  {col.name} ({col.semantic
+                    ? `${SEMANTIC_TYPE_LABELS[col.semantic.type]}${col.semantic.currencyCode ? ` ${col.semantic.currencyCode}` : ''}`
+                    : col.type}) - {col.nullCount} nulls
                 </SelectItem>
               ))}
             </SelectContent>
@@ -322,11 +461,13 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ dataset, onDatasetUpdate })
 
       {/* Cleaning Operations */}
       <Tabs defaultValue="duplicates" className="space-y-4">
-        <TabsList className="grid grid-cols-4 w-full">
+        <TabsList className="grid grid-cols-6 w-full">
           <TabsTrigger value="duplicates">Duplicates</TabsTrigger>
+          <TabsTrigger value="fuzzy">Fuzzy Duplicates</TabsTrigger>
           <TabsTrigger value="missing">Missing Values</TabsTrigger>
           <TabsTrigger value="text">Text Cleaning</TabsTrigger>
           <TabsTrigger value="numeric">Numeric</TabsTrigger>
+          <TabsTrigger value="validation">Validation</TabsTrigger>
         </TabsList>
 
         {/* Remove Duplicates */}
@@ -349,6 +490,14 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ dataset, onDatasetUpdate })
           </Card>
         </TabsContent>
 
+        {/* Fuzzy Duplicates */}
+        <TabsContent value="fuzzy" className="space-y-4">
+          <FuzzyDuplicateReview
+            dataset={currentDataset}
+            onMerge={(step) => applyStep(step, 'merging duplicates')}
+          />
+        </TabsContent>
+
         {/* Missing Values */}
         <TabsContent value="missing" className="space-y-4">
           <Card>
@@ -410,6 +559,59 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ dataset, onDatasetUpdate })
                   </div>
                 )}
               </div>
+
+              <div className="border-t pt-4 space-y-3">
+                <Label>Impute from Surrounding Data</Label>
+                <Select value={imputationMethod} onValueChange={(value) => setImputationMethod(value as ImputationMethod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(IMPUTATION_METHOD_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {isSeriesImputation(imputationMethod) ? (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Select
+                      value={imputationOrderBy || NO_COLUMN}
+                      onValueChange={(value) => setImputationOrderBy(value === NO_COLUMN ? '' : value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Order by" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_COLUMN}>Row order</SelectItem>
+                        {orderableColumns.map(name => (
+                          <SelectItem key={name} value={name}>Order by {name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={imputationGroupBy || NO_COLUMN}
+                      onValueChange={(value) => setImputationGroupBy(value === NO_COLUMN ? '' : value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Group by" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_COLUMN}>One series</SelectItem>
+                        {stringColumns.map(name => (
+                          <SelectItem key={name} value={name}>Per {name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500">
+                    Predicts each missing value from the other numeric columns of the row
+                  </p>
+                )}
+                <Button onClick={handleImpute} variant="outline" className="w-full" disabled={!selectedColumn}>
+                  Impute {selectedColumn || 'Column'}
+                </Button>
+              </div>
             </CardContent>
           </Card>
         </TabsContent>
@@ -482,19 +684,269 @@ const DataCleaning: React.FC<DataCleaningProps> = ({ dataset, onDatasetUpdate })
                   Please select a numeric column
                 </div>
               ) : (
-                <Button 
-                  onClick={handleRemoveOutliers} 
-                  variant="outline" 
-                  className="w-full"
-                >
-                  <Filter className="h-4 w-4 mr-2" />
-                  Remove Outliers (IQR Method)
-                </Button>
+                <div className="space-y-3">
+                  <Label>Outlier Detection</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Select
+                      value={outlierMethod}
+                      onValueChange={(value) => {
+                        setOutlierMethod(value as OutlierMethod);
+                        setOutlierThreshold(''); // thresholds mean different things per method
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(OUTLIER_DETECTORS).map(([value, detector]) => (
+                          <SelectItem key={value} value={value}>{detector.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      step="0.1"
+                      placeholder={`${OUTLIER_DETECTORS[outlierMethod].thresholdLabel}: ${OUTLIER_DETECTORS[outlierMethod].defaultThreshold}`}
+                      value={outlierThreshold}
+                      onChange={(e) => setOutlierThreshold(e.target.value)}
+                    />
+                  </div>
+                  {outlierMethod === 'seasonal' && (
+                    <Select
+                      value={outlierDateColumn || NO_COLUMN}
+                      onValueChange={(value) => setOutlierDateColumn(value === NO_COLUMN ? '' : value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Order by" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_COLUMN}>Row order</SelectItem>
+                        {orderableColumns.filter(name => name !== selectedColumn).map(name => (
+                          <SelectItem key={name} value={name}>Order by {name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <p className="text-xs text-gray-500">{OUTLIER_DETECTORS[outlierMethod].description}</p>
+                  <div className="flex gap-2">
+                    <Button 
+                      onClick={handleRemoveOutliers} 
+                      variant="outline" 
+                      className="flex-1"
+                    >
+                      <Filter className="h-4 w-4 mr-2" />
+                      Remove Outliers
+                    </Button>
+                    <Button 
+                      onClick={handleCapOutliers} 
+                      variant="outline" 
+                      className="flex-1"
+                    >
+                      Cap to Expected Range
+                    </Button>
+                  </div>
+                </div>
               )}
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Validation Rules */}
+        <TabsContent value="validation" className="space-y-4">
+          <ValidationRulesPanel
+            dataset={validatedDataset}
+            datasets={datasets}
+            onRulesChange={handleRulesChange}
+          />
+        </TabsContent>
       </Tabs>
+
+      {/* Cleaning Recipe */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ListOrdered className="h-4 w-4" />
+                Cleaning Recipe
+              </CardTitle>
+              <CardDescription>
+                Every step is recorded so it can be undone, saved and replayed on a new file
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={handleSaveRecipe} disabled={appliedSteps.length === 0}>
+                <Save className="h-4 w-4 mr-2" />
+                Save
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleExportRecipe} disabled={appliedSteps.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => recipeInputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+              <input
+                ref={recipeInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={handleImportRecipe}
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {steps.length === 0 ? (
+            <div className="text-center py-4 text-sm text-gray-500">
+              No cleaning steps yet
+            </div>
+          ) : (
+            <ol className="space-y-1">
+              {steps.map((step, index) => (
+                <li
+                  key={index}
+                  className={`flex items-center gap-2 text-sm ${index < historyIndex ? 'text-gray-800' : 'text-gray-400 line-through'}`}
+                >
+                  <Badge variant="outline">{index + 1}</Badge>
+                  {describeCleaningStep(step)}
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {savedRecipes.length > 0 && (
+            <div className="border-t pt-4 space-y-2">
+              <Label>Saved Recipes</Label>
+              {savedRecipes.map(recipe => (
+                <div key={recipe.id} className="flex items-center justify-between gap-2 text-sm">
+                  <div>
+                    <span className="font-medium">{recipe.name}</span>
+                    <span className="text-gray-500 ml-2">
+                      {recipe.steps.length} steps{recipe.sourceDataset ? ` - from ${recipe.sourceDataset}` : ''}
+                    </span>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="outline" size="sm" onClick={() => openReplayPreview(recipe)}>
+                      <Play className="h-4 w-4 mr-1" />
+                      Replay
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteRecipe(recipe)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Replay Preview */}
+      <Dialog open={replayRecipe !== null} onOpenChange={(open) => { if (!open) closeReplayPreview(); }}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Replay "{replayRecipe?.name}"</DialogTitle>
+            <DialogDescription>
+              Preview of the recipe on {currentDataset.name}. Nothing changes until you apply it.
+            </DialogDescription>
+          </DialogHeader>
+
+          {replayPreview && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-4 gap-2">
+                <div className="text-center p-3 bg-yellow-50 rounded-lg">
+                  <div className="text-xl font-bold text-yellow-700">{replayPreview.diff.changed}</div>
+                  <div className="text-xs text-gray-600">Rows Changed</div>
+                </div>
+                <div className="text-center p-3 bg-red-50 rounded-lg">
+                  <div className="text-xl font-bold text-red-600">{replayPreview.diff.removed}</div>
+                  <div className="text-xs text-gray-600">Rows Removed</div>
+                </div>
+                <div className="text-center p-3 bg-green-50 rounded-lg">
+                  <div className="text-xl font-bold text-green-600">{replayPreview.diff.added}</div>
+                  <div className="text-xs text-gray-600">Rows Added</div>
+                </div>
+                <div className="text-center p-3 bg-gray-50 rounded-lg">
+                  <div className="text-xl font-bold text-gray-700">{replayPreview.diff.unchanged}</div>
+                  <div className="text-xs text-gray-600">Unchanged</div>
+                </div>
+              </div>
+
+              {(replayPreview.diff.columnsRemoved.length > 0 || replayPreview.diff.columnsAdded.length > 0) && (
+                <div className="text-sm text-gray-600">
+                  {replayPreview.diff.columnsRemoved.length > 0 && (
+                    <div>Columns removed: {replayPreview.diff.columnsRemoved.join(', ')}</div>
+                  )}
+                  {replayPreview.diff.columnsAdded.length > 0 && (
+                    <div>Columns added: {replayPreview.diff.columnsAdded.join(', ')}</div>
+                  )}
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <Label>Steps</Label>
+                {replayPreview.outcomes.map((outcome, index) => (
+                  <div key={index} className="flex items-start gap-2 text-sm">
+                    <Badge
+                      variant={outcome.status === 'applied' ? 'default' : outcome.status === 'skipped' ? 'secondary' : 'destructive'}
+                    >
+                      {outcome.status}
+                    </Badge>
+                    <div>
+                      <div>{describeCleaningStep(outcome.step)}</div>
+                      {outcome.status !== 'applied' && (
+                        <div className="text-xs text-gray-500">{outcome.message}</div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {replayPreview.diff.samples.changed.length > 0 && (
+                <div className="space-y-1">
+                  <Label>Changed Rows (sample)</Label>
+                  {replayPreview.diff.samples.changed.map(change => (
+                    <div key={change.rowIndex} className="text-xs font-mono bg-gray-50 rounded p-2">
+                      <span className="text-gray-500">Row {change.rowIndex + 1}: </span>
+                      {change.columns.map(name => (
+                        <span key={name} className="mr-3">
+                          {name}: <span className="text-red-600">{String(change.before[name] ?? 'null')}</span>
+                          {' → '}
+                          <span className="text-green-700">{String(change.after[name] ?? 'null')}</span>
+                        </span>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {replayPreview.diff.samples.removed.length > 0 && (
+                <div className="space-y-1">
+                  <Label>Removed Rows (sample)</Label>
+                  {replayPreview.diff.samples.removed.map(({ rowIndex, row }) => (
+                    <div key={rowIndex} className="text-xs font-mono bg-red-50 rounded p-2 truncate">
+                      <span className="text-gray-500">Row {rowIndex + 1}: </span>
+                      {JSON.stringify(row)}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeReplayPreview}>Cancel</Button>
+            <Button
+              onClick={handleApplyReplay}
+              disabled={!replayPreview?.outcomes.some(outcome => outcome.status === 'applied')}
+            >
+              Apply Recipe
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -62,7 +62,7 @@ const DataEntryForm: React.FC<DataEntryFormProps> = ({
   const validateForm = (): boolean => {
     const newErrors: { [key: string]: string } = {};
     
-    dataset.columns.forEach(column => {
+    dataset.columns.filter(column => !column.expression).forEach(column => {
       const value = formData[column.name];
       const validation = validateValue(value, column);
       
@@ -185,7 +185,8 @@ const DataEntryForm: React.FC<DataEntryFormProps> = ({
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        {dataset.columns.map(column => (
+        {/* Calculated columns are derived from the other fields */}
+        {dataset.columns.filter(column => !column.expression).map(column => (
           <div key={column.name}>
             {renderField(column)}
           </div>
@@ -30,6 +30,11 @@ const DataExplorer: React.FC<DataExplorerProps> = ({ dataset, onUpdate, onDelete
   }, [dataset]);
 
   const handleCellClick = (rowIndex: number, columnName: string, currentValue: any) => {
+    const column = dataset.columns.find(col => col.name === columnName);
+    if (column?.expression) {
+      toast.info(`"${columnName}" is calculated from ${column.expression}`);
+      return;
+    }
     setEditingCell({ rowIndex, columnName });
     setEditValue(currentValue);
   };
@@ -224,7 +229,9 @@ const DataExplorer: React.FC<DataExplorerProps> = ({ dataset, onUpdate, onDelete
                       <TableHead key={column.name} className="min-w-[150px]">
                         <div className="flex items-center gap-2">
                           {column.name}
-                          {column.isCustom && (
+                          {column.expression ? (
+                            <Badge variant="outline" className="text-xs" title={column.expression}>Calculated</Badge>
+                          ) : column.isCustom && (
                             <Badge variant="outline" className="text-xs">Custom</Badge>
                           )}
                           {column.isRequired && (
@@ -4,6 +4,7 @@
 import React, { useEffect, useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
 import { Loader2, Database, FileText, BarChart3, Sparkles, CheckCircle } from 'lucide-react';
 
 interface DataProcessingOverlayProps {
@@ -13,6 +14,7 @@ interface DataProcessingOverlayProps {
   message?: string;
   fileSize?: number;
   rowCount?: number;
+  onCancel?: () => void; // shows a Cancel button while a cancellable operation runs
 }
 
 const DataProcessingOverlay: React.FC<DataProcessingOverlayProps> = ({
@@ -21,7 +23,8 @@ const DataProcessingOverlay: React.FC<DataProcessingOverlayProps> = ({
   progress = 0,
   message,
   fileSize,
-  rowCount
+  rowCount,
+  onCancel
 }) => {
   const [dots, setDots] = useState('');
 
@@ -155,6 +158,11 @@ const DataProcessingOverlay: React.FC<DataProcessingOverlayProps> = ({
                   💡 The page is working - this message confirms it's responsive!
                 </p>
               )}
+              {onCancel && stage !== 'complete' && (
+                <Button variant="outline" size="sm" className="mt-4" onClick={onCancel}>
+                  Cancel
+                </Button>
+              )}
             </div>
           </div>
         </CardContent>
@@ -0,0 +1,490 @@
+// Dataset Transforms - Group by, pivot, unpivot, split and merge columns into a new dataset
+import React, { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Shuffle, Table2, Plus, X } from 'lucide-react';
+import { ComparisonOperator, Dataset } from '@/lib/types';
+import {
+  GROUP_AGGREGATION_LABELS,
+  GroupAggregation,
+  GroupAggregationSpec,
+  HavingFilter,
+  PIVOT_AGGREGATION_LABELS,
+  PivotAggregation,
+  aggregationAlias,
+  detectWideColumns,
+  groupByDataset,
+  mergeColumns,
+  pivotDataset,
+  splitColumn,
+  unpivotDataset
+} from '@/lib/datasetTransforms';
+import { toast } from 'sonner';
+
+interface DatasetTransformsProps {
+  dataset: Dataset;
+  onCreateDataset: (dataset: Dataset) => void;
+}
+
+interface ColumnChecklistProps {
+  columns: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+const ColumnChecklist: React.FC<ColumnChecklistProps> = ({ columns, selected, onChange }) => (
+  <div className="border rounded-md p-3 max-h-48 overflow-y-auto grid grid-cols-2 gap-2">
+    {columns.map(name => (
+      <label key={name} className="flex items-center gap-2 cursor-pointer min-w-0">
+        <Checkbox
+          checked={selected.includes(name)}
+          onCheckedChange={checked => onChange(checked ? [...selected, name] : selected.filter(s => s !== name))}
+        />
+        <span className="text-sm truncate">{name}</span>
+      </label>
+    ))}
+  </div>
+);
+
+const HAVING_OPERATORS: ComparisonOperator[] = ['>', '>=', '=', '!=', '<=', '<'];
+
+// Radix selects can't hold an empty value; stands for "count rows"
+const ALL_ROWS = '__rows__';
+
+const DatasetTransforms: React.FC<DatasetTransformsProps> = ({ dataset, onCreateDataset }) => {
+  const columnNames = dataset.columns.map(col => col.name);
+  const wideColumns = useMemo(() => detectWideColumns(dataset), [dataset]);
+
+  // Group by
+  const [groupKeys, setGroupKeys] = useState<string[]>([]);
+  const [aggregations, setAggregations] = useState<GroupAggregationSpec[]>([]);
+  const [aggColumn, setAggColumn] = useState(ALL_ROWS);
+  const [aggFunction, setAggFunction] = useState<GroupAggregation>('count');
+  const [aggPercentile, setAggPercentile] = useState('90');
+  const [having, setHaving] = useState<HavingFilter[]>([]);
+  const [havingColumn, setHavingColumn] = useState('');
+  const [havingOperator, setHavingOperator] = useState<ComparisonOperator>('>');
+  const [havingValue, setHavingValue] = useState('');
+  const [groupName, setGroupName] = useState('');
+
+  // Pivot
+  const [pivotIndex, setPivotIndex] = useState<string[]>([]);
+  const [pivotColumn, setPivotColumn] = useState('');
+  const [pivotValues, setPivotValues] = useState('');
+  const [aggregation, setAggregation] = useState<PivotAggregation>('sum');
+
+  // Unpivot
+  const [valueColumns, setValueColumns] = useState<string[]>(wideColumns);
+  const [variableName, setVariableName] = useState('period');
+  const [valueName, setValueName] = useState('value');
+  const [dropMissing, setDropMissing] = useState(true);
+
+  // Split
+  const [splitSource, setSplitSource] = useState('');
+  const [splitMode, setSplitMode] = useState<'delimiter' | 'pattern'>('delimiter');
+  const [separator, setSeparator] = useState(',');
+  const [partNames, setPartNames] = useState('');
+  const [keepOriginal, setKeepOriginal] = useState(false);
+
+  // Merge
+  const [mergeSources, setMergeSources] = useState<string[]>([]);
+  const [mergeSeparator, setMergeSeparator] = useState(' ');
+  const [mergedName, setMergedName] = useState('');
+  const [keepOriginals, setKeepOriginals] = useState(false);
+  const [skipMissing, setSkipMissing] = useState(true);
+
+  const run = (transform: () => Dataset) => {
+    try {
+      const created = transform();
+      onCreateDataset(created);
+      toast.success(`Created ${created.name}: ${created.rowCount.toLocaleString()} rows, ${created.columns.length} columns`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Transform failed');
+    }
+  };
+
+  const handleAddAggregation = () => {
+    if (aggColumn === ALL_ROWS && aggFunction !== 'count') {
+      toast.error('Choose the column to aggregate');
+      return;
+    }
+    const spec: GroupAggregationSpec = {
+      column: aggColumn === ALL_ROWS ? '' : aggColumn,
+      aggregation: aggFunction,
+      ...(aggFunction === 'percentile' ? { percentile: Number(aggPercentile) } : {})
+    };
+    if (aggregations.some(existing => aggregationAlias(existing) === aggregationAlias(spec))) {
+      toast.info(`${aggregationAlias(spec)} is already in the list`);
+      return;
+    }
+    setAggregations(prev => [...prev, spec]);
+  };
+
+  const handleRemoveAggregation = (index: number) => {
+    const alias = aggregationAlias(aggregations[index]);
+    setAggregations(prev => prev.filter((_, i) => i !== index));
+    setHaving(prev => prev.filter(filter => filter.column !== alias));
+  };
+
+  const handleAddHaving = () => {
+    if (!havingColumn || havingValue.trim() === '') {
+      toast.error('Choose a column and enter a value');
+      return;
+    }
+    const value = isNaN(Number(havingValue)) ? havingValue.trim() : Number(havingValue);
+    setHaving(prev => [...prev, { column: havingColumn, operator: havingOperator, value }]);
+    setHavingValue('');
+  };
+
+  const handleGroupBy = () => run(() => groupByDataset(dataset, {
+    keys: groupKeys, aggregations, having, name: groupName
+  }));
+
+  const handlePivot = () => run(() => pivotDataset(dataset, {
+    index: pivotIndex, columns: pivotColumn, values: pivotValues, aggregation
+  }));
+
+  const handleUnpivot = () => run(() => unpivotDataset(dataset, {
+    idColumns: columnNames.filter(name => !valueColumns.includes(name)),
+    valueColumns,
+    variableName,
+    valueName,
+    dropMissing
+  }));
+
+  const handleSplit = () => run(() => splitColumn(dataset, {
+    column: splitSource,
+    ...(splitMode === 'delimiter' ? { delimiter: separator } : { pattern: separator }),
+    newColumns: partNames.split(',').map(name => name.trim()).filter(Boolean),
+    keepOriginal
+  }));
+
+  const handleMerge = () => run(() => mergeColumns(dataset, {
+    columns: mergeSources, separator: mergeSeparator, newColumn: mergedName, keepOriginals, skipMissing
+  }));
+
+  const columnSelect = (value: string, onChange: (value: string) => void, placeholder: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {columnNames.map(name => (
+          <SelectItem key={name} value={name}>{name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shuffle className="h-4 w-4" />
+          Transform Data
+        </CardTitle>
+        <CardDescription>
+          Each transform creates a new dataset from {dataset.name}; the original is kept as is
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="group">
+          <TabsList className="grid grid-cols-5 w-full">
+            <TabsTrigger value="group">Group By</TabsTrigger>
+            <TabsTrigger value="pivot">Pivot</TabsTrigger>
+            <TabsTrigger value="unpivot">Unpivot</TabsTrigger>
+            <TabsTrigger value="split">Split Column</TabsTrigger>
+            <TabsTrigger value="merge">Merge Columns</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="group" className="space-y-4 pt-2">
+            <div>
+              <Label className="mb-1 block">Group By</Label>
+              <ColumnChecklist columns={columnNames} selected={groupKeys} onChange={setGroupKeys} />
+              {groupKeys.length === 0 && (
+                <p className="text-xs text-gray-500 mt-1">No keys: one summary row for the whole dataset</p>
+              )}
+            </div>
+
+            <div>
+              <Label className="mb-1 block">Aggregations</Label>
+              <div className="flex gap-2">
+                <Select value={aggColumn} onValueChange={setAggColumn}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_ROWS}>All rows</SelectItem>
+                    {columnNames.map(name => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={aggFunction} onValueChange={value => setAggFunction(value as GroupAggregation)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(GROUP_AGGREGATION_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {aggFunction === 'percentile' && (
+                  <Input
+                    className="w-20"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={aggPercentile}
+                    onChange={(e) => setAggPercentile(e.target.value)}
+                  />
+                )}
+                <Button variant="outline" onClick={handleAddAggregation}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-2 mt-2">
+                {aggregations.map((spec, i) => (
+                  <Badge key={aggregationAlias(spec)} variant="secondary" className="flex items-center gap-1">
+                    {aggregationAlias(spec)}
+                    <button type="button" onClick={() => handleRemoveAggregation(i)}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label className="mb-1 block">Having (optional)</Label>
+              <div className="flex gap-2">
+                <Select value={havingColumn} onValueChange={setHavingColumn}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Column" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[...groupKeys, ...aggregations.map(aggregationAlias)].map(name => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={havingOperator} onValueChange={value => setHavingOperator(value as ComparisonOperator)}>
+                  <SelectTrigger className="w-20">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HAVING_OPERATORS.map(operator => (
+                      <SelectItem key={operator} value={operator}>{operator}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input placeholder="Value" value={havingValue} onChange={(e) => setHavingValue(e.target.value)} />
+                <Button variant="outline" onClick={handleAddHaving}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-2 mt-2">
+                {having.map((filter, i) => (
+                  <Badge key={i} variant="outline" className="flex items-center gap-1">
+                    {filter.column} {filter.operator} {String(filter.value)}
+                    <button type="button" onClick={() => setHaving(prev => prev.filter((_, j) => j !== i))}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label className="mb-1 block">Dataset Name (optional)</Label>
+              <Input
+                value={groupName}
+                placeholder={`${dataset.name} (${groupKeys.length > 0 ? `by ${groupKeys.join(', ')}` : 'summary'})`}
+                onChange={(e) => setGroupName(e.target.value)}
+              />
+            </div>
+
+            <Button onClick={handleGroupBy} className="w-full" disabled={aggregations.length === 0}>
+              <Table2 className="h-4 w-4 mr-2" />
+              Create Grouped Dataset
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="pivot" className="space-y-4 pt-2">
+            <p className="text-sm text-gray-600">
+              One row per combination of the row columns, one column per value of the pivot column
+            </p>
+            <div>
+              <Label className="mb-1 block">Rows</Label>
+              <ColumnChecklist
+                columns={columnNames.filter(name => name !== pivotColumn)}
+                selected={pivotIndex}
+                onChange={setPivotIndex}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <Label className="mb-1 block">Columns From</Label>
+                {columnSelect(pivotColumn, (value) => {
+                  setPivotColumn(value);
+                  setPivotIndex(prev => prev.filter(name => name !== value));
+                }, 'Pivot column')}
+              </div>
+              <div>
+                <Label className="mb-1 block">Values</Label>
+                {columnSelect(pivotValues, setPivotValues, 'Value column')}
+              </div>
+              <div>
+                <Label className="mb-1 block">Aggregation</Label>
+                <Select value={aggregation} onValueChange={value => setAggregation(value as PivotAggregation)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PIVOT_AGGREGATION_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <Button
+              onClick={handlePivot}
+              className="w-full"
+              disabled={pivotIndex.length === 0 || !pivotColumn || !pivotValues}
+            >
+              <Table2 className="h-4 w-4 mr-2" />
+              Create Pivot
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="unpivot" className="space-y-4 pt-2">
+            <p className="text-sm text-gray-600">
+              Turn wide columns (e.g. one per month) into rows; the other columns repeat on every row
+              {wideColumns.length > 0 && `. Detected period columns: ${wideColumns.join(', ')}`}
+            </p>
+            <div>
+              <Label className="mb-1 block">Columns to Unpivot</Label>
+              <ColumnChecklist columns={columnNames} selected={valueColumns} onChange={setValueColumns} />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label className="mb-1 block">Name Column</Label>
+                <Input value={variableName} onChange={(e) => setVariableName(e.target.value)} />
+              </div>
+              <div>
+                <Label className="mb-1 block">Value Column</Label>
+                <Input value={valueName} onChange={(e) => setValueName(e.target.value)} />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <Checkbox checked={dropMissing} onCheckedChange={checked => setDropMissing(!!checked)} />
+              <span className="text-sm">Skip empty cells</span>
+            </label>
+            <Button onClick={handleUnpivot} className="w-full" disabled={valueColumns.length === 0}>
+              <Table2 className="h-4 w-4 mr-2" />
+              Unpivot {valueColumns.length} Columns
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="split" className="space-y-4 pt-2">
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <Label className="mb-1 block">Column</Label>
+                {columnSelect(splitSource, setSplitSource, 'Column to split')}
+              </div>
+              <div>
+                <Label className="mb-1 block">Split On</Label>
+                <Select value={splitMode} onValueChange={value => setSplitMode(value as 'delimiter' | 'pattern')}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="delimiter">Delimiter</SelectItem>
+                    <SelectItem value="pattern">Regular expression</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="mb-1 block">{splitMode === 'delimiter' ? 'Delimiter' : 'Pattern'}</Label>
+                <Input
+                  value={separator}
+                  placeholder={splitMode === 'delimiter' ? ',' : '^(\\w+)\\s+(.*)$'}
+                  onChange={(e) => setSeparator(e.target.value)}
+                />
+              </div>
+            </div>
+            {splitMode === 'pattern' && (
+              <p className="text-xs text-gray-500">
+                Capture groups become the new columns; a pattern without groups is used as the separator
+              </p>
+            )}
+            <div>
+              <Label className="mb-1 block">New Column Names (optional)</Label>
+              <Input
+                value={partNames}
+                placeholder="first_name, last_name"
+                onChange={(e) => setPartNames(e.target.value)}
+              />
+            </div>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <Checkbox checked={keepOriginal} onCheckedChange={checked => setKeepOriginal(!!checked)} />
+              <span className="text-sm">Keep the original column</span>
+            </label>
+            <Button onClick={handleSplit} className="w-full" disabled={!splitSource || !separator}>
+              <Table2 className="h-4 w-4 mr-2" />
+              Split Column
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="merge" className="space-y-4 pt-2">
+            <div>
+              <Label className="mb-1 block">Columns to Merge (in order)</Label>
+              <ColumnChecklist columns={columnNames} selected={mergeSources} onChange={setMergeSources} />
+              {mergeSources.length > 0 && (
+                <p className="text-xs text-gray-500 mt-1">{mergeSources.join(' + ')}</p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label className="mb-1 block">Separator</Label>
+                <Input value={mergeSeparator} onChange={(e) => setMergeSeparator(e.target.value)} />
+              </div>
+              <div>
+                <Label className="mb-1 block">New Column</Label>
+                <Input
+                  value={mergedName}
+                  placeholder={mergeSources.join('_') || 'merged'}
+                  onChange={(e) => setMergedName(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="flex gap-4">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <Checkbox checked={skipMissing} onCheckedChange={checked => setSkipMissing(!!checked)} />
+                <span className="text-sm">Leave out empty values</span>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <Checkbox checked={keepOriginals} onCheckedChange={checked => setKeepOriginals(!!checked)} />
+                <span className="text-sm">Keep the original columns</span>
+              </label>
+            </div>
+            <Button onClick={handleMerge} className="w-full" disabled={mergeSources.length < 2}>
+              <Table2 className="h-4 w-4 mr-2" />
+              Merge Columns
+            </Button>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DatasetTransforms;
@@ -8,12 +8,15 @@ import {
 } from 'lucide-react';
 import { Dataset } from '@/lib/types';
 import { generateKPIs, renderKPICard, KPIDefinition, KPICard } from '@/lib/kpiFormulaEngine';
+import { Glossary } from '@/lib/glossary';
 
 interface DynamicKPIGeneratorProps {
   dataset: Dataset | null;
+  definitions?: KPIDefinition[]; // pinned KPIs (e.g. from an imported bundle) instead of generated ones
+  glossary?: Glossary; // business names for the generated KPI titles
 }
 
-const DynamicKPIGenerator: React.FC<DynamicKPIGeneratorProps> = ({ dataset }) => {
+const DynamicKPIGenerator: React.FC<DynamicKPIGeneratorProps> = ({ dataset, definitions, glossary }) => {
   // Icon mapping
   const iconMap = useMemo(() => ({
     'database': <Database className="h-5 w-5" />,
@@ -33,8 +36,8 @@ const DynamicKPIGenerator: React.FC<DynamicKPIGeneratorProps> = ({ dataset }) =>
 
   // Generate KPIs dynamically
   const kpiDefinitions = useMemo(() => {
-    return generateKPIs(dataset);
-  }, [dataset]);
+    return definitions && definitions.length > 0 ? definitions : generateKPIs(dataset, glossary);
+  }, [dataset, definitions, glossary]);
 
   // Render KPI cards
   const kpiCards = useMemo(() => {
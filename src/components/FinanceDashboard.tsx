@@ -78,6 +78,7 @@ import {
   parseTransactions,
 } from '@/lib/financeEngine';
 import { generateOnePageFinancialNarrative } from '@/lib/financeNarrative';
+import { polishNarrative } from '@/lib/languageModel';
 import { generateFinanceOnePagePDF, generateOffsetEntriesAppendixPDF } from '@/lib/financePdfReport';
 import {
   CanonicalTransaction,
@@ -376,7 +377,16 @@ const FinanceDashboard: React.FC = () => {
       return;
     }
 
-    setWrittenReport(generateOnePageFinancialNarrative(report));
+    const draft = generateOnePageFinancialNarrative(report);
+    setWrittenReport(draft);
+    // A configured language model may reword the report; it keeps every figure
+    let stale = false;
+    polishNarrative(draft, 'one-page financial report').then(text => {
+      if (!stale) setWrittenReport(text);
+    });
+    return () => {
+      stale = true;
+    };
   }, [report]);
 
   useEffect(() => {
@@ -2186,7 +2196,12 @@ const FinanceDashboard: React.FC = () => {
 
   const regenerateWrittenReport = () => {
     if (!report) return;
-    setWrittenReport(generateOnePageFinancialNarrative(report));
+    const draft = generateOnePageFinancialNarrative(report);
+    setWrittenReport(draft);
+    // Only if nothing newer has replaced this draft meanwhile
+    polishNarrative(draft, 'one-page financial report').then(text => {
+      setWrittenReport(current => (current === draft ? text : current));
+    });
     toast.success('One-page written report refreshed.');
   };
 
@@ -1,9 +1,10 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
@@ -13,12 +14,11 @@ import {
   AlertCircle, Loader2, FileSpreadsheet, FileCode, Edit, Columns, Eye
 } from 'lucide-react';
 import { toast } from 'sonner';
-import * as XLSX from 'xlsx';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, PieChart, Pie, Cell, ResponsiveContainer, LineChart, Line, AreaChart, Area } from 'recharts';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 // Import shared types and utilities
 import { Dataset, ColumnInfo, DataType, Relationship } from '@/lib/types';
-import { analyzeColumn, updateDatasetStats, createEmptyObservation } from '@/lib/dataUtils';
+import { analyzeColumn, applySemanticTypes, updateDatasetStats, createEmptyObservation } from '@/lib/dataUtils';
 // Import new components
 import DataEntryForm from './DataEntryForm';
 import CustomFieldDialog from './CustomFieldDialog';
@@ -28,6 +28,8 @@ import RelationshipBuilder from './RelationshipBuilder';
 import CustomDAXCalculator from './CustomDAXCalculator';
 import AnalysisInterpretation from './AnalysisInterpretation';
 import DataCleaning from './DataCleaning';
+import DatasetTransforms from './DatasetTransforms';
+import ModelSlicers from './ModelSlicers';
 import ZoomableVisualization from './ZoomableVisualization';
 import { generatePDF } from '@/lib/pdfGenerator';
 import { generateEnhancedPDF } from '@/lib/pdfGeneratorEnhanced';
@@ -40,17 +42,35 @@ import { isSupabaseConfigured, supabase } from '@/lib/supabase';
 // New AI-powered components
 import AIInsightsPanel from './AIInsightsPanel';
 import NaturalLanguageQuery from './NaturalLanguageQuery';
+import GlossaryEditor from './GlossaryEditor';
 import SmartDataConnector from './SmartDataConnector';
 import CorrelationMatrix from './CorrelationMatrix';
 import DataProcessingOverlay from './DataProcessingOverlay';
 import ErrorBoundary from './ErrorBoundary';
-import { runAIAnalysis, runEnhancedAIAnalysis, AIInsightSummary } from '@/lib/aiInsightEngine';
-import { detectSchema, detectDateTables } from '@/lib/smartDataConnector';
+import WorkspaceManager from './WorkspaceManager';
+import { runAIAnalysis, AIInsightSummary } from '@/lib/aiInsightEngine';
+import { polishNarrative } from '@/lib/languageModel';
+import { ModelFilters, Slicer, applyModelFilters, slicersToFilters } from '@/lib/crossFilter';
+import {
+  detectDateTables,
+  autoDetectRelationships,
+  buildKeyValue,
+  formatJoinKey,
+  getRelationshipColumns,
+  isSameRelationship
+} from '@/lib/smartDataConnector';
+import { importExcelWorkbook } from '@/lib/excelImport';
 import { SchemaDetectionResult, TimeSeriesResult, DateTableInfo } from '@/lib/types';
-import { autoDetectTimeSeries, detectDateColumns } from '@/lib/timeSeriesEngine';
-import { autoAdvancedAnalysis } from '@/lib/advancedStatistics';
-import { generateEnhancedKPIs } from '@/lib/kpiFormulaEngine';
-import { assertExcelBufferIsSafe, assertWorkbookHasNoMacros } from '@/lib/excelSecurity';
+import { detectDateColumns } from '@/lib/timeSeriesEngine';
+import { generateEnhancedKPIs, KPIDefinition } from '@/lib/kpiFormulaEngine';
+import { runAnalyticsTask, isCancellationError, createCancellationError } from '@/lib/analyticsRunner';
+import { evaluateDAXFormula, formatDAXColumn, addCalculatedColumn, recalculateCalculatedColumns } from '@/lib/daxEngine';
+import { readCSVFile, describeCSVDialect } from '@/lib/csvReader';
+import { UploadFileFormat, UPLOAD_ACCEPT, detectUploadFormat, parseJSONDocument, parseTabularFile } from '@/lib/fileParsers';
+import { JSONArrayMode, flattenedTablesToDatasets } from '@/lib/jsonFlatten';
+import { isMeasureColumn, isCategoryColumn } from '@/lib/semanticTypes';
+import { WorkspaceState } from '@/lib/workspaceStore';
+import { Glossary, emptyGlossary } from '@/lib/glossary';
 import {
   isDatasetTooLarge,
   getPerformanceWarning,
@@ -132,9 +152,34 @@ const FunctionalDataUpload: React.FC = () => {
   const [uploadProgress, setUploadProgress] = useState(0);
   const [uploadStage, setUploadStage] = useState<'uploading' | 'parsing' | 'analyzing' | 'processing' | 'complete'>('uploading');
   const [uploadMessage, setUploadMessage] = useState<string>('');
+  // Nested JSON arrays: keep as JSON text or split into related datasets
+  const [jsonArrayMode, setJsonArrayMode] = useState<JSONArrayMode>('stringify');
   // Auto schema detection state
   const [autoDetectedSchema, setAutoDetectedSchema] = useState<SchemaDetectionResult | null>(null);
+  // KPI cards pinned per dataset by an imported bundle (otherwise generated from the data)
+  const [kpiDefinitions, setKpiDefinitions] = useState<Record<string, KPIDefinition[]>>({});
+  // Business terms and value aliases used by Ask Your Data and the KPI titles
+  const [glossary, setGlossary] = useState<Glossary>(emptyGlossary());
+  // Model-driven slicers; their filters propagate through the relationships
+  const [slicers, setSlicers] = useState<Slicer[]>([]);
+  const modelRelationships = useMemo(
+    () => relationships.filter(rel => schemaType === 'none' || rel.schemaType === schemaType),
+    [relationships, schemaType]
+  );
+  // Keyed by content, so adding a slicer with nothing selected isn't a filter change
+  const modelFiltersKey = JSON.stringify(slicersToFilters(slicers));
+  const modelFilters = useMemo(() => JSON.parse(modelFiltersKey) as ModelFilters, [modelFiltersKey]);
+  const filteredDatasets = useMemo(
+    () => applyModelFilters(datasets, modelRelationships, modelFilters),
+    [datasets, modelRelationships, modelFilters]
+  );
   const prevDatasetCount = useRef(0);
+  // Cancels the running auto-analysis pipeline (and terminates its worker tasks)
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  // Id of the latest runAnalysis; an older run stops without writing its results. The
+  // progress overlay belongs to the latest non-silent run, which closes it even when superseded.
+  const analysisRunRef = useRef(0);
+  const analysisOverlayRunRef = useRef(0);
 
   const colorSchemes = CHART_COLOR_SCHEMES;
 
@@ -396,227 +441,7 @@ const FunctionalDataUpload: React.FC = () => {
   }, [user, session]);
 
   // File Format Detection
-  const getFileFormat = (fileName: string): 'csv' | 'excel' | 'json' => {
-    const extension = fileName.toLowerCase().split('.').pop();
-    if (['xlsx', 'xls'].includes(extension || '')) return 'excel';
-    if (extension === 'json') return 'json';
-    return 'csv';
-  };
-
-  // CSV Parser Function
-  const parseCSV = (csvText: string): any[] => {
-    if (!csvText || csvText.trim().length === 0) {
-      throw new Error('CSV file is empty');
-    }
-
-    // Remove UTF-8 BOM if present
-    if (csvText.charCodeAt(0) === 0xFEFF) {
-      csvText = csvText.slice(1);
-    }
-
-    const records: any[] = [];
-    let inQuote = false;
-    let currentField = '';
-    let currentRow: string[] = [];
-
-    for (let i = 0; i < csvText.length; i++) {
-      const char = csvText[i];
-      const nextChar = csvText[i + 1];
-
-      if (char === '"') {
-        if (inQuote && nextChar === '"') {
-          // Escaped quote
-          currentField += '"';
-          i++; // Skip next quote
-        } else {
-          inQuote = !inQuote;
-        }
-      } else if (char === ',' && !inQuote) {
-        currentRow.push(currentField.trim());
-        currentField = '';
-      } else if ((char === '\n' || (char === '\r' && nextChar !== '\n')) && !inQuote) {
-        currentRow.push(currentField.trim());
-        if (currentRow.length > 0 && currentRow.some(field => field.length > 0)) {
-          records.push(currentRow);
-        }
-        currentRow = [];
-        currentField = '';
-        if (char === '\r' && nextChar === '\n') {
-          i++; // Skip LF after CR
-        }
-      } else if (char !== '\r') {
-        currentField += char;
-      }
-    }
-
-    // Add the last field and row if any
-    if (currentField.length > 0 || currentRow.length > 0) {
-      currentRow.push(currentField.trim());
-      if (currentRow.length > 0 && currentRow.some(field => field.length > 0)) {
-        records.push(currentRow);
-      }
-    }
-
-    if (records.length === 0) {
-      throw new Error('CSV file contains no data rows');
-    }
-
-    // Extract headers from first row
-    const headers = records[0].map((h: string) => h.replace(/^"|"$/g, '').trim());
-    
-    if (headers.length === 0) {
-      throw new Error('CSV file has no column headers');
-    }
-
-    // Check for duplicate headers
-    const uniqueHeaders = new Set(headers);
-    if (uniqueHeaders.size !== headers.length) {
-      console.warn('CSV has duplicate column headers. Some columns may be overwritten.');
-    }
-
-    // Process data rows
-    const data: any[] = [];
-    for (let i = 1; i < records.length; i++) {
-      const values = records[i].map((v: string) => v.replace(/^"|"$/g, '').trim());
-      
-      // Only add rows that have at least one non-empty value
-      if (values.some(v => v.length > 0)) {
-        const row: any = {};
-        headers.forEach((header: string, index: number) => {
-          // Handle rows with fewer columns than headers
-          row[header] = values[index] !== undefined ? values[index] : '';
-        });
-        data.push(row);
-      }
-    }
-
-    if (data.length === 0) {
-      throw new Error('CSV file has headers but no data rows');
-    }
-
-    return data;
-  };
-
-  // Excel Parser Function - Returns data from first sheet (for backward compatibility)
-  const parseExcel = async (file: File): Promise<any[]> => {
-    const buffer = await file.arrayBuffer();
-    assertExcelBufferIsSafe(file.name, buffer);
-    const workbook = XLSX.read(buffer, { type: 'array', bookVBA: true });
-    assertWorkbookHasNoMacros(file.name, workbook);
-
-    // Get the first worksheet
-    const firstSheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[firstSheetName];
-
-    // Convert to JSON
-    const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-
-    if (jsonData.length === 0) {
-      return [];
-    }
-
-    // Convert to object format
-    const headers = jsonData[0] as string[];
-    const rows = jsonData.slice(1) as any[][];
-
-    return rows.map(row => {
-      const obj: any = {};
-      headers.forEach((header, index) => {
-        obj[header] = row[index] || '';
-      });
-      return obj;
-    });
-  };
-
-  // Excel Parser Function - Returns all sheets as separate datasets
-  const parseExcelAllSheets = async (file: File): Promise<Array<{ sheetName: string; data: any[] }>> => {
-    const buffer = await file.arrayBuffer();
-    assertExcelBufferIsSafe(file.name, buffer);
-    const workbook = XLSX.read(buffer, { type: 'array', bookVBA: true });
-    assertWorkbookHasNoMacros(file.name, workbook);
-
-    const allSheets: Array<{ sheetName: string; data: any[] }> = [];
-
-    // Process each sheet
-    workbook.SheetNames.forEach(sheetName => {
-      const worksheet = workbook.Sheets[sheetName];
-
-      // Convert to JSON
-      const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-
-      if (jsonData.length === 0) {
-        // Empty sheet - skip it
-        return;
-      }
-
-      // Convert to object format
-      const headers = jsonData[0] as string[];
-      const rows = jsonData.slice(1) as any[][];
-
-      const result = rows.map(row => {
-        const obj: any = {};
-        headers.forEach((header, index) => {
-          obj[header] = row[index] || '';
-        });
-        return obj;
-      });
-
-      if (result.length > 0) {
-        allSheets.push({
-          sheetName: sheetName,
-          data: result
-        });
-      }
-    });
-
-    if (allSheets.length === 0) {
-      throw new Error('Excel file contains no data in any sheet');
-    }
-
-    return allSheets;
-  };
-
-  // JSON Parser Function
-  const parseJSON = (jsonText: string): any[] => {
-    if (!jsonText || jsonText.trim().length === 0) {
-      throw new Error('JSON file is empty');
-    }
-
-    try {
-      const parsed = JSON.parse(jsonText);
-      
-      // Handle different JSON structures
-      if (Array.isArray(parsed)) {
-        if (parsed.length === 0) {
-          throw new Error('JSON array is empty');
-        }
-        // Validate that array contains objects
-        if (parsed.length > 0 && typeof parsed[0] !== 'object') {
-          throw new Error('JSON array must contain objects, not primitive values');
-        }
-        return parsed;
-      } else if (typeof parsed === 'object' && parsed !== null) {
-        // If it's an object, try to find an array property
-        const arrayKeys = Object.keys(parsed).filter(key => Array.isArray(parsed[key]));
-        if (arrayKeys.length > 0) {
-          const firstArray = parsed[arrayKeys[0]];
-          if (firstArray.length === 0) {
-            throw new Error(`JSON array property "${arrayKeys[0]}" is empty`);
-          }
-          return firstArray;
-        }
-        // If no array found, wrap the object in an array
-        return [parsed];
-      }
-      
-      throw new Error('JSON must be an object or array');
-    } catch (error) {
-      if (error instanceof SyntaxError) {
-        throw new Error(`Invalid JSON syntax: ${error.message}`);
-      }
-      throw error instanceof Error ? error : new Error('Invalid JSON format');
-    }
-  };
+  const getFileFormat = (fileName: string): UploadFileFormat => detectUploadFormat(fileName) || 'csv';
 
   // Detect Data Type
   const detectDataType = (values: any[]): 'string' | 'number' | 'date' | 'boolean' => {
@@ -680,10 +505,9 @@ const FunctionalDataUpload: React.FC = () => {
     if (!file) return;
 
     const fileFormat = getFileFormat(file.name);
-    const supportedFormats = ['csv', 'xlsx', 'xls', 'json'];
     
-    if (!supportedFormats.includes(file.name.toLowerCase().split('.').pop() || '')) {
-      toast.error('Please upload a CSV, Excel (.xlsx, .xls), or JSON file');
+    if (!detectUploadFormat(file.name)) {
+      toast.error('Please upload a CSV, TSV, Excel (.xlsx, .xls), JSON, NDJSON, XML or Parquet file');
       return;
     }
 
@@ -722,18 +546,17 @@ const FunctionalDataUpload: React.FC = () => {
         setUploadProgress(20);
         setUploadMessage('Parsing CSV data...');
         
-        const text = await file.text();
-        if (!text || text.trim().length === 0) {
-          setIsUploading(false);
-          toast.error('CSV file is empty. Please upload a file with data.');
-          return;
-        }
-        
-        await yieldToBrowser();
-        
         try {
-          setUploadProgress(40);
-          data = parseCSV(text);
+          // Chunked read: sniffs encoding, delimiter, quoting and header row from the first chunk
+          const result = await readCSVFile(file, {
+            onProgress: ({ percent, rowsParsed }) => {
+              setUploadProgress(20 + percent * 0.25);
+              setUploadMessage(`Parsing CSV data... ${rowsParsed.toLocaleString()} rows read`);
+            }
+          });
+          data = result.data;
+          setUploadMessage(`Read ${data.length.toLocaleString()} rows (${describeCSVDialect(result.dialect, result.encoding)})`);
+          result.warnings.forEach(warning => toast.warning(warning));
         } catch (parseError) {
           setIsUploading(false);
           const errorMessage = parseError instanceof Error ? parseError.message : 'Unknown parsing error';
@@ -750,14 +573,11 @@ const FunctionalDataUpload: React.FC = () => {
         
         try {
           setUploadProgress(30);
-          // Parse all sheets from Excel file
-          const allSheets = await parseExcelAllSheets(file);
-          
-          if (allSheets.length === 0) {
-            setIsUploading(false);
-            toast.error('Excel file contains no data in any sheet');
-            return;
-          }
+          // Parse all sheets from Excel file (header rows found per sheet, totals-only sheets skipped)
+          const { sheets: allSheets, skippedSheets } = await importExcelWorkbook(file);
+          skippedSheets
+            .filter(sheet => sheet.reason !== 'no data rows')
+            .forEach(sheet => toast.info(`Skipped sheet "${sheet.sheetName}": ${sheet.reason}`));
           
           // Process each sheet as a separate dataset
           const newDatasets: Dataset[] = [];
@@ -793,6 +613,8 @@ const FunctionalDataUpload: React.FC = () => {
               });
               await yieldToBrowser();
             }
+            // Currency amounts, percentages and locale-formatted numbers become number columns
+            const typed = applySemanticTypes(sheetData, columns);
             
             // Create dataset for this sheet
             const sheetDataset: Dataset = {
@@ -800,10 +622,10 @@ const FunctionalDataUpload: React.FC = () => {
               name: `${file.name} - ${sheet.sheetName}`,
               file: file,
               description: `Sheet: ${sheet.sheetName}`,
-              columns: columns,
+              columns: typed.columns,
               rowCount: sheetData.length,
-              dataTypes: Object.fromEntries(columns.map(col => [col.name, col.type])),
-              data: sheetData,
+              dataTypes: Object.fromEntries(typed.columns.map(col => [col.name, col.type])),
+              data: typed.data,
               createdAt: new Date(),
               updatedAt: new Date()
             };
@@ -824,6 +646,29 @@ const FunctionalDataUpload: React.FC = () => {
           
           setDatasets(prev => [...prev, ...newDatasets]);
           setActiveDataset(newDatasets[0].id);
+
+          // Link the sheets to each other (lookup sheets, fact/dimension tabs)
+          if (newDatasets.length > 1) {
+            setUploadMessage('Detecting relationships between sheets...');
+            await yieldToBrowser();
+            const sheetRelationships: Relationship[] = autoDetectRelationships(newDatasets)
+              .filter(r => r.autoJoinRecommended || r.matchScore > 0.5)
+              .map((r, i) => ({
+                id: `sheet-rel-${Date.now()}-${i}`,
+                fromDataset: r.fromDataset,
+                toDataset: r.toDataset,
+                fromColumn: r.fromColumn,
+                toColumn: r.toColumn,
+                fromColumns: r.fromColumns,
+                toColumns: r.toColumns,
+                type: r.type,
+                confidence: r.confidence
+              }));
+            if (sheetRelationships.length > 0) {
+              setRelationships(prev => [...prev, ...sheetRelationships]);
+              toast.info(`Detected ${sheetRelationships.length} relationship(s) between sheets`);
+            }
+          }
           
           // Stage 4: Complete
           setUploadStage('complete');
@@ -862,15 +707,70 @@ const FunctionalDataUpload: React.FC = () => {
         
         await yieldToBrowser();
         
+        let jsonDocument;
         try {
           setUploadProgress(40);
-          data = parseJSON(text);
+          jsonDocument = parseJSONDocument(text, { arrayMode: jsonArrayMode });
+          data = jsonDocument.tables[0].rows;
         } catch (parseError) {
           setIsUploading(false);
           toast.error(`JSON parsing error: ${parseError instanceof Error ? parseError.message : 'Invalid JSON format'}`);
           console.error('JSON parsing details:', parseError);
           return;
         }
+
+        if (jsonDocument.tables.length > 1) {
+          // Exploded child arrays become separate datasets linked to their parent rows
+          setUploadStage('analyzing');
+          setUploadProgress(60);
+          setUploadMessage(`Analyzing ${jsonDocument.tables.length} nested tables...`);
+          await yieldToBrowser();
+
+          const { datasets: tableDatasets, relationships: tableRelationships } =
+            flattenedTablesToDatasets(jsonDocument, file.name, file);
+
+          setUploadProgress(85);
+          setUploadMessage(`Adding ${tableDatasets.length} dataset(s)...`);
+          await yieldToBrowser();
+
+          setDatasets(prev => [...prev, ...tableDatasets]);
+          setRelationships(prev => [...prev, ...tableRelationships]);
+          setActiveDataset(tableDatasets[0].id);
+
+          setUploadStage('complete');
+          setUploadProgress(100);
+          setUploadMessage('Upload complete!');
+
+          await new Promise(resolve => setTimeout(resolve, 500));
+
+          setIsUploading(false);
+          toast.success(
+            `Successfully uploaded ${file.name} as ${tableDatasets.length} linked tables: ` +
+            `${tableDatasets.map(d => d.name).join(', ')}`
+          );
+          return;
+        }
+      } else {
+        // TSV, NDJSON, XML and Parquet share the tabular parsers in fileParsers
+        const formatLabel = fileFormat.toUpperCase();
+        setUploadStage('parsing');
+        setUploadProgress(20);
+        setUploadMessage(`Parsing ${formatLabel} data...`);
+        await yieldToBrowser();
+
+        try {
+          data = await parseTabularFile(file, fileFormat, {
+            onProgress: (percent, message) => {
+              setUploadProgress(20 + percent * 0.25);
+              setUploadMessage(message);
+            }
+          });
+        } catch (parseError) {
+          setIsUploading(false);
+          toast.error(`${formatLabel} parsing error: ${parseError instanceof Error ? parseError.message : 'Unknown parsing error'}`);
+          console.error(`${formatLabel} parsing details:`, parseError);
+          return;
+        }
       }
       
       if (!data || data.length === 0) {
@@ -918,16 +818,18 @@ const FunctionalDataUpload: React.FC = () => {
       setUploadProgress(85);
       setUploadMessage('Finalizing dataset...');
       await yieldToBrowser();
+      // Currency amounts, percentages and locale-formatted numbers become number columns
+      const typed = applySemanticTypes(data, columns);
 
       const newDataset: Dataset = {
         id: `dataset-${Date.now()}`,
         name: file.name,
         file: file,
         description: '',
-        columns: columns,
+        columns: typed.columns,
         rowCount: data.length,
-        dataTypes: Object.fromEntries(columns.map(col => [col.name, col.type])),
-        data: data,
+        dataTypes: Object.fromEntries(typed.columns.map(col => [col.name, col.type])),
+        data: typed.data,
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -974,7 +876,7 @@ const FunctionalDataUpload: React.FC = () => {
         calculations.push({
           id: `sum-${col.name}`,
           name: `Sum of ${col.name}`,
-          formula: `SUM(${col.name})`,
+          formula: `SUM(${formatDAXColumn(col.name)})`,
           description: `Total sum of ${col.name}`,
           category: 'aggregation',
           applicable: true,
@@ -984,7 +886,7 @@ const FunctionalDataUpload: React.FC = () => {
         calculations.push({
           id: `avg-${col.name}`,
           name: `Average of ${col.name}`,
-          formula: `AVERAGE(${col.name})`,
+          formula: `AVERAGE(${formatDAXColumn(col.name)})`,
           description: `Average value of ${col.name}`,
           category: 'aggregation',
           applicable: true,
@@ -994,7 +896,7 @@ const FunctionalDataUpload: React.FC = () => {
         calculations.push({
           id: `max-${col.name}`,
           name: `Maximum ${col.name}`,
-          formula: `MAX(${col.name})`,
+          formula: `MAX(${formatDAXColumn(col.name)})`,
           description: `Maximum value of ${col.name}`,
           category: 'aggregation',
           applicable: true,
@@ -1020,7 +922,7 @@ const FunctionalDataUpload: React.FC = () => {
         calculations.push({
           id: `year-${col.name}`,
           name: `Year from ${col.name}`,
-          formula: `YEAR(${col.name})`,
+          formula: `VALUES(YEAR(${formatDAXColumn(col.name)}))`,
           description: `Extract year from ${col.name}`,
           category: 'time',
           applicable: true,
@@ -1032,58 +934,25 @@ const FunctionalDataUpload: React.FC = () => {
     return calculations;
   };
 
-  // Execute DAX Calculation
-  const executeDAXCalculation = (calculation: DAXCalculation, dataset: Dataset): any => {
-    const { formula, name } = calculation;
-    
+  // Execute DAX Calculation - parsed and evaluated by the DAX engine against every loaded table.
+  // Throws with the engine's message (including the character position) when the formula is invalid.
+  const executeDAXCalculation = (calculation: DAXCalculation, dataset: Dataset): unknown => {
+    const evaluation = evaluateDAXFormula(calculation.formula, {
+      dataset,
+      datasets,
+      relationships: modelRelationships,
+      modelFilters
+    });
+    if (!evaluation.success) {
+      throw new Error(evaluation.error || `Could not evaluate ${calculation.name}`);
+    }
+    return evaluation.value;
+  };
+
+  // Pipeline variant: a failing calculation yields no result instead of aborting the analysis
+  const tryExecuteDAXCalculation = (calculation: DAXCalculation, dataset: Dataset): unknown => {
     try {
-      if (formula.includes('SUM(')) {
-        const columnName = formula.match(/SUM\(([^)]+)\)/)?.[1];
-        if (columnName && dataset.dataTypes[columnName] === 'number') {
-          const values = dataset.data.map(row => Number(row[columnName])).filter(v => !isNaN(v));
-          return values.reduce((a, b) => a + b, 0);
-        }
-      }
-      
-      if (formula.includes('AVERAGE(')) {
-        const columnName = formula.match(/AVERAGE\(([^)]+)\)/)?.[1];
-        if (columnName && dataset.dataTypes[columnName] === 'number') {
-          const values = dataset.data.map(row => Number(row[columnName])).filter(v => !isNaN(v));
-          return values.reduce((a, b) => a + b, 0) / values.length;
-        }
-      }
-      
-      if (formula.includes('MAX(')) {
-        const columnName = formula.match(/MAX\(([^)]+)\)/)?.[1];
-        if (columnName && dataset.dataTypes[columnName] === 'number') {
-          const values = dataset.data.map(row => Number(row[columnName])).filter(v => !isNaN(v));
-          if (values.length === 0) return null;
-          return values.reduce((max, val) => val > max ? val : max, values[0]);
-        }
-      }
-      
-      if (formula.includes('MIN(')) {
-        const columnName = formula.match(/MIN\(([^)]+)\)/)?.[1];
-        if (columnName && dataset.dataTypes[columnName] === 'number') {
-          const values = dataset.data.map(row => Number(row[columnName])).filter(v => !isNaN(v));
-          if (values.length === 0) return null;
-          return values.reduce((min, val) => val < min ? val : min, values[0]);
-        }
-      }
-      
-      if (formula.includes('COUNTROWS')) {
-        return dataset.rowCount;
-      }
-      
-      if (formula.includes('YEAR(')) {
-        const columnName = formula.match(/YEAR\(([^)]+)\)/)?.[1];
-        if (columnName && dataset.dataTypes[columnName] === 'date') {
-          const years = dataset.data.map(row => new Date(row[columnName]).getFullYear()).filter(y => !isNaN(y));
-          return [...new Set(years)].sort();
-        }
-      }
-      
-      return null;
+      return executeDAXCalculation(calculation, dataset);
     } catch (error) {
       console.error('Error executing DAX calculation:', error);
       return null;
@@ -1094,8 +963,10 @@ const FunctionalDataUpload: React.FC = () => {
   const generateVisualizations = (dataset: Dataset): Visualization[] => {
     const visualizations: Visualization[] = [];
     const currentScheme = colorSchemes.find(s => s.name === selectedColorScheme) || colorSchemes[0];
-    const numericColumns = dataset.columns.filter(col => col.type === 'number');
-    const categoricalColumns = dataset.columns.filter(col => col.type === 'string');
+    // Semantic types keep IDs, phone numbers and coordinates off value axes, and emails,
+    // URLs and free text out of category slices
+    const numericColumns = dataset.columns.filter(isMeasureColumn);
+    const categoricalColumns = dataset.columns.filter(isCategoryColumn);
     const dateColumns = dataset.columns.filter(col => col.type === 'date');
 
     // Check if dataset is too large
@@ -1143,7 +1014,7 @@ const FunctionalDataUpload: React.FC = () => {
     };
 
     // Score categorical columns: prefer low cardinality, non-ID columns
-    const scoreCategoricalColumn = (col: { name: string; type: string }) => {
+    const scoreCategoricalColumn = (col: Pick<ColumnInfo, 'name' | 'type' | 'semantic'>) => {
       const uniqueCount = getUniqueCount(col.name);
       const isId = isLikelyIdColumn(col.name);
       const ratio = dataToUse.length > 0 ? uniqueCount / Math.min(dataToUse.length, 2000) : 1;
@@ -1156,6 +1027,7 @@ const FunctionalDataUpload: React.FC = () => {
       else if (uniqueCount <= 10) score += 20; // Sweet spot for pie/bar
       if (ratio > 0.5) score -= 30; // Too many unique values
       if (ratio > 0.8) score -= 30; // Almost all unique = likely ID
+      if (col.semantic?.type === 'category') score += 20;
       // Bonus for common meaningful names
       const lower = col.name.toLowerCase();
       if (['category', 'region', 'segment', 'type', 'status', 'department', 'country', 'state', 'city', 'gender', 'class', 'group', 'tier', 'level', 'priority', 'ship mode', 'sub-category', 'sub_category'].some(n => lower.includes(n))) {
@@ -1427,7 +1299,7 @@ const FunctionalDataUpload: React.FC = () => {
   };
 
   // Join datasets using relationships
-  const joinDatasets = (baseDataset: Dataset, relationships: Relationship[]): any[] => {
+  const joinDatasets = (baseDataset: Dataset, relationships: Relationship[], pool: Dataset[] = datasets): any[] => {
     let joinedData = [...baseDataset.data];
     
     // Filter relationships by schema type to prevent mixing star and snowflake
@@ -1438,11 +1310,12 @@ const FunctionalDataUpload: React.FC = () => {
     
     filteredRelationships.forEach(rel => {
       if (rel.fromDataset === baseDataset.id) {
-        const relatedDataset = datasets.find(d => d.id === rel.toDataset);
+        const relatedDataset = pool.find(d => d.id === rel.toDataset);
         if (relatedDataset) {
+          const { fromColumns, toColumns } = getRelationshipColumns(rel);
           const lookup = new Map();
           relatedDataset.data.forEach(row => {
-            const key = String(row[rel.toColumn]).toLowerCase();
+            const key = buildKeyValue(row, toColumns);
             if (!lookup.has(key)) {
               lookup.set(key, []);
             }
@@ -1450,7 +1323,7 @@ const FunctionalDataUpload: React.FC = () => {
           });
 
           joinedData = joinedData.map(baseRow => {
-            const key = String(baseRow[rel.fromColumn]).toLowerCase();
+            const key = buildKeyValue(baseRow, fromColumns);
             const relatedRows = lookup.get(key) || [];
             
             if (relatedRows.length === 1) {
@@ -1468,6 +1341,19 @@ const FunctionalDataUpload: React.FC = () => {
     return joinedData;
   };
 
+  // The template summary shows at once; a configured language model may reword it afterwards
+  const showInsights = useCallback((insights: AIInsightSummary) => {
+    setAiInsights(insights);
+    const summary = insights.executiveSummary;
+    if (!summary) return;
+    setInterpretation(summary);
+    polishNarrative(summary, 'executive summary of a dataset analysis').then(polished => {
+      if (polished === summary) return;
+      setAiInsights(prev => (prev === insights ? { ...insights, executiveSummary: polished } : prev));
+      setInterpretation(prev => (prev === summary ? polished : prev));
+    });
+  }, []);
+
   // Auto-analysis pipeline: runs automatically when new datasets are added
   const runAutoAnalysisPipeline = useCallback(async (allDatasets: Dataset[]) => {
     if (allDatasets.length === 0 || isProcessing) return;
@@ -1478,6 +1364,13 @@ const FunctionalDataUpload: React.FC = () => {
     setUploadProgress(0);
     setUploadMessage('Starting auto-analysis...');
 
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    const { signal } = controller;
+    const checkCancelled = () => {
+      if (shouldCancelOperation(allDatasets[0], 'analysis', signal)) throw createCancellationError();
+    };
+
     try {
       await yieldToBrowser();
 
@@ -1489,7 +1382,7 @@ const FunctionalDataUpload: React.FC = () => {
       let detectedSchema: SchemaDetectionResult | null = null;
 
       if (allDatasets.length >= 2) {
-        detectedSchema = detectSchema(allDatasets);
+        detectedSchema = await runAnalyticsTask('detectSchema', [allDatasets], { signal });
         setAutoDetectedSchema(detectedSchema);
 
         // Auto-set schema type
@@ -1508,6 +1401,8 @@ const FunctionalDataUpload: React.FC = () => {
               toDataset: r.toDataset,
               fromColumn: r.fromColumn,
               toColumn: r.toColumn,
+              fromColumns: r.fromColumns,
+              toColumns: r.toColumns,
               type: r.type,
               confidence: r.confidence,
               schemaType: newSchemaType === 'none' ? undefined : newSchemaType as 'star' | 'snowflake',
@@ -1518,7 +1413,9 @@ const FunctionalDataUpload: React.FC = () => {
           if (autoRelationships.length > 0) {
             setRelationships(prev => {
               const manualRels = prev.filter(r => !r.id.startsWith('auto-rel-'));
-              return [...manualRels, ...autoRelationships];
+              // Sheet/JSON imports may already have linked the same columns
+              const isKnown = (r: Relationship) => manualRels.some(m => isSameRelationship(m, r));
+              return [...manualRels, ...autoRelationships.filter(r => !isKnown(r))];
             });
           }
         }
@@ -1536,13 +1433,14 @@ const FunctionalDataUpload: React.FC = () => {
       setUploadProgress(20);
       setUploadMessage('Generating DAX calculations...');
       await yieldToBrowser();
+      checkCancelled();
 
       const allCalculations: DAXCalculation[] = [];
       for (const dataset of allDatasets) {
         const calculations = generateDAXCalculations(dataset);
         const executedCalculations = calculations.map(calc => ({
           ...calc,
-          result: executeDAXCalculation(calc, dataset)
+          result: tryExecuteDAXCalculation(calc, dataset)
         }));
         allCalculations.push(...executedCalculations);
       }
@@ -1553,6 +1451,7 @@ const FunctionalDataUpload: React.FC = () => {
       setUploadProgress(45);
       setUploadMessage('Creating visualizations...');
       await yieldToBrowser();
+      checkCancelled();
 
       const allVisualizations: Visualization[] = [];
       for (const dataset of allDatasets) {
@@ -1573,10 +1472,11 @@ const FunctionalDataUpload: React.FC = () => {
 
         const primaryDataset = allDatasets.find(d => d.id === activeDataset) || allDatasets[0];
         if (primaryDataset) {
-          const tsResults = autoDetectTimeSeries(primaryDataset);
+          const tsResults = await runAnalyticsTask('autoDetectTimeSeries', [primaryDataset], { signal });
           setTimeSeriesResults(tsResults);
         }
       } catch (err) {
+        if (isCancellationError(err)) throw err;
         console.warn('Time series analysis failed:', err);
       }
       await yieldToBrowser();
@@ -1589,10 +1489,11 @@ const FunctionalDataUpload: React.FC = () => {
       try {
         const primaryDataset = allDatasets.find(d => d.id === activeDataset) || allDatasets[0];
         if (primaryDataset) {
-          const advStats = autoAdvancedAnalysis(primaryDataset);
+          const advStats = await runAnalyticsTask('autoAdvancedAnalysis', [primaryDataset], { signal });
           setAdvancedStatsResults(advStats);
         }
       } catch (err) {
+        if (isCancellationError(err)) throw err;
         console.warn('Advanced statistics failed:', err);
       }
       await yieldToBrowser();
@@ -1605,27 +1506,23 @@ const FunctionalDataUpload: React.FC = () => {
       const primaryDataset = allDatasets.find(d => d.id === activeDataset) || allDatasets[0];
       if (primaryDataset) {
         try {
-          const insights = await runEnhancedAIAnalysis(
-            primaryDataset,
-            allDatasets,
-            relationships,
-            (progress, message) => {
-              setUploadProgress(80 + Math.round(progress * 0.15));
-              setUploadMessage(message);
+          const insights = await runAnalyticsTask(
+            'runEnhancedAIAnalysis',
+            [primaryDataset, allDatasets, relationships],
+            {
+              signal,
+              onProgress: (progress, message) => {
+                setUploadProgress(80 + Math.round(progress * 0.15));
+                setUploadMessage(message);
+              }
             }
           );
-          setAiInsights(insights);
-          if (insights.executiveSummary) {
-            setInterpretation(insights.executiveSummary);
-          }
+          showInsights(insights);
         } catch (err) {
+          if (isCancellationError(err)) throw err;
           console.warn('Enhanced AI analysis failed, falling back to basic:', err);
           try {
-            const basicInsights = runAIAnalysis(primaryDataset);
-            setAiInsights(basicInsights);
-            if (basicInsights.executiveSummary) {
-              setInterpretation(basicInsights.executiveSummary);
-            }
+            showInsights(runAIAnalysis(primaryDataset, allDatasets));
           } catch (err2) {
             console.warn('Basic AI analysis also failed:', err2);
           }
@@ -1642,10 +1539,15 @@ const FunctionalDataUpload: React.FC = () => {
       setIsUploading(false);
       toast.success('Auto-analysis completed: visualizations, insights, and schema ready!');
     } catch (error) {
-      console.error('Auto-analysis pipeline error:', error);
+      if (isCancellationError(error)) {
+        toast.info('Auto-analysis cancelled. Results finished before cancelling are kept.');
+      } else {
+        console.error('Auto-analysis pipeline error:', error);
+      }
       setIsUploading(false);
       // Non-fatal: user can still interact manually
     } finally {
+      analysisAbortRef.current = null;
       setIsProcessing(false);
       setTimeout(() => {
         setUploadProgress(0);
@@ -1653,12 +1555,60 @@ const FunctionalDataUpload: React.FC = () => {
         setUploadMessage('');
       }, 1000);
     }
-  }, [isProcessing, activeDataset, selectedColorScheme]);
+  }, [isProcessing, activeDataset, selectedColorScheme, showInsights]);
 
   // Use a ref to always have the latest datasets available for the pipeline
   const datasetsRef = useRef(datasets);
   datasetsRef.current = datasets;
 
+  // Everything a saved workspace restores (see WorkspaceManager)
+  const workspaceState = useMemo<WorkspaceState>(() => ({
+    datasets,
+    activeDatasetId: activeDataset,
+    visualizations,
+    relationships,
+    daxCalculations,
+    customDAXCalculations,
+    selectedColorScheme,
+    schemaType,
+    interpretation,
+    aiInsights,
+    autoDetectedSchema,
+    timeSeriesResults,
+    advancedStatsResults,
+    dateTableInfos,
+    kpiDefinitions,
+    glossary
+  }), [
+    datasets, activeDataset, visualizations, relationships, daxCalculations, customDAXCalculations,
+    selectedColorScheme, schemaType, interpretation, aiInsights, autoDetectedSchema,
+    timeSeriesResults, advancedStatsResults, dateTableInfos, kpiDefinitions, glossary
+  ]);
+
+  const loadWorkspaceState = (state: WorkspaceState) => {
+    // Restored datasets were already analyzed; don't let the auto pipeline rerun
+    prevDatasetCount.current = state.datasets.length;
+    setDatasets(state.datasets);
+    setActiveDataset(state.activeDatasetId ?? state.datasets[0]?.id ?? null);
+    setVisualizations(state.visualizations);
+    setRelationships(state.relationships);
+    setDaxCalculations(state.daxCalculations);
+    setCustomDAXCalculations(state.customDAXCalculations);
+    setSelectedColorScheme(state.selectedColorScheme);
+    setSchemaType(state.schemaType);
+    setInterpretation(state.interpretation);
+    setAiInsights(state.aiInsights);
+    setAutoDetectedSchema(state.autoDetectedSchema);
+    setTimeSeriesResults(state.timeSeriesResults);
+    setAdvancedStatsResults(state.advancedStatsResults);
+    setDateTableInfos(state.dateTableInfos);
+    setKpiDefinitions(state.kpiDefinitions);
+    setGlossary(state.glossary);
+    setCompositeData(null);
+    setCompositeColumns(null);
+    setSlicers([]);
+  };
+
   // Auto-trigger pipeline when new datasets are added
   useEffect(() => {
     if (datasets.length > prevDatasetCount.current && datasets.length > 0) {
@@ -1674,34 +1624,45 @@ const FunctionalDataUpload: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [datasets.length]);
 
-  // Process Data with proper loading states
-  const processData = async () => {
+  // Process Data with proper loading states. Silent runs (slicer changes) skip the progress
+  // overlay and toasts and only refresh calculations and charts.
+  const runAnalysis = async (silent: boolean) => {
     if (datasets.length === 0) {
-      toast.error('Please upload at least one dataset');
+      if (!silent) toast.error('Please upload at least one dataset');
       return;
     }
+    const run = ++analysisRunRef.current;
+    const superseded = () => run !== analysisRunRef.current;
+
+    const report = (progress: number, message: string) => {
+      if (silent) return;
+      setUploadProgress(progress);
+      setUploadMessage(message);
+    };
     
     setIsProcessing(true);
-    setIsUploading(true);
-    setUploadStage('processing');
-    setUploadProgress(0);
-    setUploadMessage('Preparing data analysis...');
+    if (!silent) {
+      analysisOverlayRunRef.current = run;
+      setIsUploading(true);
+      setUploadStage('processing');
+    }
+    report(0, 'Preparing data analysis...');
     
     try {
       await yieldToBrowser();
+      if (superseded()) return;
       
       // Stage 1: Generate DAX calculations
-      setUploadProgress(10);
-      setUploadMessage('Generating DAX calculations...');
+      report(10, 'Generating DAX calculations...');
       
       const allCalculations: DAXCalculation[] = [];
       const totalDatasets = datasets.length;
       
       for (let i = 0; i < datasets.length; i++) {
         const dataset = datasets[i];
-        setUploadProgress(10 + (i / totalDatasets) * 30);
-        setUploadMessage(`Processing dataset ${i + 1}/${totalDatasets}: ${dataset.name}...`);
+        report(10 + (i / totalDatasets) * 30, `Processing dataset ${i + 1}/${totalDatasets}: ${dataset.name}...`);
         await yieldToBrowser();
+        if (superseded()) return;
         
         // If relationships exist, join data
         const datasetRelationships = relationships.filter(r => 
@@ -1717,17 +1678,17 @@ const FunctionalDataUpload: React.FC = () => {
         const calculations = generateDAXCalculations(workingDataset);
         const executedCalculations = calculations.map(calc => ({
           ...calc,
-          result: executeDAXCalculation(calc, workingDataset)
+          result: tryExecuteDAXCalculation(calc, workingDataset)
         }));
         allCalculations.push(...executedCalculations);
       }
       
       setDaxCalculations(allCalculations);
       await yieldToBrowser();
+      if (superseded()) return;
 
       // Stage 2: Execute custom DAX calculations
-      setUploadProgress(45);
-      setUploadMessage('Executing custom calculations...');
+      report(45, 'Executing custom calculations...');
       
       const executedCustomCalculations = customDAXCalculations.map(calc => {
         const dataset = datasets.find(d => d.id === activeDataset) || datasets[0];
@@ -1746,25 +1707,25 @@ const FunctionalDataUpload: React.FC = () => {
           const workingDataset = { ...dataset, data: workingData };
           return {
             ...calc,
-            result: executeDAXCalculation(calc, workingDataset)
+            result: tryExecuteDAXCalculation(calc, workingDataset)
           };
         }
         return calc;
       });
       setCustomDAXCalculations(executedCustomCalculations);
       await yieldToBrowser();
+      if (superseded()) return;
       
-      // Stage 3: Generate visualizations
-      setUploadProgress(60);
-      setUploadMessage('Generating visualizations...');
+      // Stage 3: Generate visualizations from the slicer-filtered tables
+      report(60, 'Generating visualizations...');
       
       const allVisualizations: Visualization[] = [];
       
-      for (let i = 0; i < datasets.length; i++) {
-        const dataset = datasets[i];
-        setUploadProgress(60 + (i / totalDatasets) * 30);
-        setUploadMessage(`Creating visualizations for ${dataset.name}...`);
+      for (let i = 0; i < filteredDatasets.length; i++) {
+        const dataset = filteredDatasets[i];
+        report(60 + (i / totalDatasets) * 30, `Creating visualizations for ${dataset.name}...`);
         await yieldToBrowser();
+        if (superseded()) return;
         
         const datasetRelationships = relationships.filter(r => {
           const matchesDataset = r.fromDataset === dataset.id || r.toDataset === dataset.id;
@@ -1774,7 +1735,7 @@ const FunctionalDataUpload: React.FC = () => {
         
         let workingData = dataset.data;
         if (datasetRelationships.length > 0 && schemaType !== 'none') {
-          workingData = joinDatasets(dataset, datasetRelationships.filter(r => r.fromDataset === dataset.id));
+          workingData = joinDatasets(dataset, datasetRelationships.filter(r => r.fromDataset === dataset.id), filteredDatasets);
         }
         
         const workingDataset = { ...dataset, data: workingData };
@@ -1784,6 +1745,8 @@ const FunctionalDataUpload: React.FC = () => {
       
       setVisualizations(allVisualizations);
       
+      if (silent) return;
+
       // Stage 4: Complete
       setUploadProgress(100);
       setUploadStage('complete');
@@ -1791,22 +1754,33 @@ const FunctionalDataUpload: React.FC = () => {
       
       await new Promise(resolve => setTimeout(resolve, 500));
       
-      setIsUploading(false);
       toast.success('Data analysis completed successfully!');
     } catch (error) {
-      setIsUploading(false);
       console.error('Error processing data:', error);
-      toast.error('Error processing data');
+      if (!superseded()) toast.error('Error processing data');
     } finally {
-      setIsProcessing(false);
-      setTimeout(() => {
-        setUploadProgress(0);
-        setUploadStage('uploading');
-        setUploadMessage('');
-      }, 1000);
+      if (!superseded()) setIsProcessing(false);
+      if (analysisOverlayRunRef.current === run) {
+        setIsUploading(false);
+        setTimeout(() => {
+          setUploadProgress(0);
+          setUploadStage('uploading');
+          setUploadMessage('');
+        }, 1000);
+      }
     }
   };
 
+  const processData = () => runAnalysis(false);
+
+  // Slicer changes recompute calculations and charts once an analysis has run
+  useEffect(() => {
+    if (visualizations.length > 0 || daxCalculations.length > 0) {
+      runAnalysis(true);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [modelFilters]);
+
   const getVisualizationIcon = (type: string) => {
     switch (type) {
       case 'bar': return <BarChart3 className="h-6 w-6" />;
@@ -1837,6 +1811,7 @@ const FunctionalDataUpload: React.FC = () => {
           message={uploadMessage}
           fileSize={activeDs?.file?.size}
           rowCount={activeDs?.rowCount}
+          onCancel={isProcessing ? () => analysisAbortRef.current?.abort() : undefined}
         />
         
         {/* Performance Warning */}
@@ -1881,9 +1856,27 @@ const FunctionalDataUpload: React.FC = () => {
           </div>
         </div>
 
+        {/* Saved workspaces: autosave, picker and versions */}
+        <WorkspaceManager
+          state={workspaceState}
+          onLoadState={loadWorkspaceState}
+          paused={isUploading || isProcessing}
+        />
+
+        {/* Slicers on related tables filter every table they reach */}
+        {datasets.length > 1 && modelRelationships.length > 0 && (
+          <ModelSlicers
+            datasets={datasets}
+            filteredDatasets={filteredDatasets}
+            relationships={modelRelationships}
+            slicers={slicers}
+            onSlicersChange={setSlicers}
+          />
+        )}
+
         {/* Analytics Dashboard Layout - Matching Wireframe */}
         <AnalyticsDashboard
-          datasets={datasets}
+          datasets={filteredDatasets}
           visualizations={visualizations}
           onFileUpload={handleFileUpload}
           onDatasetSelect={setActiveDataset}
@@ -1891,6 +1884,8 @@ const FunctionalDataUpload: React.FC = () => {
           onAnalyze={processData}
           isProcessing={isProcessing}
           schemaInfo={autoDetectedSchema}
+          kpiDefinitions={kpiDefinitions}
+          glossary={glossary}
         />
 
         {/* Keep tabs for advanced features */}
@@ -1918,6 +1913,7 @@ const FunctionalDataUpload: React.FC = () => {
                 Connections
               </TabsTrigger>
               <TabsTrigger value="clean" className="text-xs">Data Cleaning</TabsTrigger>
+              <TabsTrigger value="reshape" className="text-xs">Transform</TabsTrigger>
               <TabsTrigger value="explore" className="text-xs">Explore Data</TabsTrigger>
               <TabsTrigger value="analysis" className="text-xs">DAX Analysis</TabsTrigger>
               <TabsTrigger value="visualizations" className="text-xs">Visualizations</TabsTrigger>
@@ -2008,9 +2004,10 @@ const FunctionalDataUpload: React.FC = () => {
                       relationships: relationships.map(r => {
                         const fromDs = datasets.find(d => d.id === r.fromDataset);
                         const toDs = datasets.find(d => d.id === r.toDataset);
+                        const { fromColumns, toColumns } = getRelationshipColumns(r);
                         return {
-                          from: `${fromDs?.name || r.fromDataset}.${r.fromColumn}`,
-                          to: `${toDs?.name || r.toDataset}.${r.toColumn}`,
+                          from: `${fromDs?.name || r.fromDataset}.${formatJoinKey(fromColumns)}`,
+                          to: `${toDs?.name || r.toDataset}.${formatJoinKey(toColumns)}`,
                           type: r.type,
                           role: r.isFactTable ? 'Fact → Dimension' : '',
                           confidence: r.confidence
@@ -2063,12 +2060,8 @@ const FunctionalDataUpload: React.FC = () => {
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               <AIInsightsPanel
                 dataset={datasets.find(d => d.id === activeDataset) || datasets[0] || null}
-                onInsightsGenerated={(insights) => {
-                  setAiInsights(insights);
-                  if (insights.executiveSummary) {
-                    setInterpretation(insights.executiveSummary);
-                  }
-                }}
+                datasets={datasets}
+                onInsightsGenerated={showInsights}
                 onDatasetUpdate={(cleanedDataset) => {
                   const activeDs = datasets.find(d => d.id === activeDataset) || datasets[0];
                   if (activeDs) {
@@ -2430,11 +2423,15 @@ const FunctionalDataUpload: React.FC = () => {
           <TabsContent value="ask-data" className="space-y-6">
             <NaturalLanguageQuery
               dataset={datasets.find(d => d.id === activeDataset) || datasets[0] || null}
+              datasets={datasets}
+              relationships={relationships}
+              glossary={glossary}
               onVisualizationRequest={(viz) => {
                 // Could add the visualization to the dashboard
                 console.log('Visualization requested:', viz);
               }}
             />
+            <GlossaryEditor glossary={glossary} datasets={datasets} onChange={setGlossary} />
           </TabsContent>
 
           {/* Smart Connections Tab - NEW */}
@@ -2515,7 +2512,7 @@ const FunctionalDataUpload: React.FC = () => {
                 <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
                   <input
                     type="file"
-                    accept=".csv,.xlsx,.xls,.json"
+                    accept={UPLOAD_ACCEPT}
                     onChange={handleFileUpload}
                     className="hidden"
                     id="file-upload"
@@ -2534,12 +2531,27 @@ const FunctionalDataUpload: React.FC = () => {
                     </div>
                     <div>
                       <p className="text-lg font-medium text-gray-900">Upload Data Files</p>
-                      <p className="text-sm text-gray-500">CSV, Excel (.xlsx, .xls), or JSON files</p>
+                      <p className="text-sm text-gray-500">CSV, TSV, Excel (.xlsx, .xls), JSON, NDJSON, XML or Parquet files</p>
                       <p className="text-xs text-gray-400 mt-1">Click to browse or drag and drop</p>
                     </div>
                   </label>
                 </div>
 
+                <div className="flex items-center justify-between gap-4 text-sm">
+                  <Label htmlFor="json-array-mode" className="text-gray-600">
+                    Nested arrays in JSON files
+                  </Label>
+                  <Select value={jsonArrayMode} onValueChange={(value: JSONArrayMode) => setJsonArrayMode(value)}>
+                    <SelectTrigger id="json-array-mode" className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="stringify">Keep as JSON text in one table</SelectItem>
+                      <SelectItem value="explode">Split into related tables</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 {datasets.length > 0 && (
                   <div className="space-y-4">
                     <h3 className="text-lg font-medium">Uploaded Datasets</h3>
@@ -2548,7 +2560,10 @@ const FunctionalDataUpload: React.FC = () => {
                       const getFileIcon = () => {
                         switch (fileFormat) {
                           case 'excel': return <FileSpreadsheet className="h-4 w-4 text-green-500" />;
-                          case 'json': return <FileCode className="h-4 w-4 text-purple-500" />;
+                          case 'json':
+                          case 'ndjson':
+                          case 'xml': return <FileCode className="h-4 w-4 text-purple-500" />;
+                          case 'parquet': return <Database className="h-4 w-4 text-orange-500" />;
                           default: return <FileText className="h-4 w-4 text-blue-500" />;
                         }
                       };
@@ -2608,6 +2623,7 @@ const FunctionalDataUpload: React.FC = () => {
                 return (
                   <DataCleaning
                     dataset={dataset}
+                    datasets={datasets}
                     onDatasetUpdate={(cleanedDataset) => {
                       setDatasets(prev => prev.map(d => 
                         d.id === activeDataset ? cleanedDataset : d
@@ -2627,6 +2643,33 @@ const FunctionalDataUpload: React.FC = () => {
             )}
           </TabsContent>
 
+          <TabsContent value="reshape" className="space-y-6">
+            {activeDataset ? (
+              (() => {
+                const dataset = datasets.find(d => d.id === activeDataset);
+                if (!dataset) return null;
+
+                return (
+                  <DatasetTransforms
+                    key={dataset.id}
+                    dataset={dataset}
+                    onCreateDataset={(newDataset) => {
+                      setDatasets(prev => [...prev, newDataset]);
+                      setActiveDataset(newDataset.id);
+                    }}
+                  />
+                );
+              })()
+            ) : (
+              <Card>
+                <CardContent className="py-12 text-center">
+                  <Database className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                  <p className="text-gray-600">Please select a dataset to transform</p>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
           <TabsContent value="explore" className="space-y-6">
             {activeDataset ? (
               (() => {
@@ -2654,6 +2697,20 @@ const FunctionalDataUpload: React.FC = () => {
                                 open={showCustomFieldDialog}
                                 onOpenChange={setShowCustomFieldDialog}
                                 onSave={(column) => {
+                                  if (column.expression) {
+                                    const result = addCalculatedColumn(column.name, column.expression, {
+                                      dataset,
+                                      datasets,
+                                      relationships
+                                    });
+                                    if (!result.success || !result.dataset) {
+                                      toast.error(`Could not add "${column.name}": ${result.error}`);
+                                      return;
+                                    }
+                                    setDatasets(prev => prev.map(d => d.id === dataset.id ? result.dataset! : d));
+                                    toast.success(`Calculated column "${column.name}" added`);
+                                    return;
+                                  }
                                   const updatedDataset = {
                                     ...dataset,
                                     columns: [...dataset.columns, column],
@@ -2667,6 +2724,7 @@ const FunctionalDataUpload: React.FC = () => {
                                   toast.success(`Custom field "${column.name}" added`);
                                 }}
                                 existingColumns={dataset.columns.map(col => col.name)}
+                                daxContext={{ dataset, datasets, relationships }}
                               />
                             </Dialog>
                             <Dialog open={showDataEntryDialog} onOpenChange={setShowDataEntryDialog}>
@@ -2687,7 +2745,9 @@ const FunctionalDataUpload: React.FC = () => {
                                       ...dataset,
                                       data: [...dataset.data, observation]
                                     };
-                                    const finalDataset = updateDatasetStats(updatedDataset);
+                                    const finalDataset = updateDatasetStats(
+                                      recalculateCalculatedColumns({ dataset: updatedDataset, datasets, relationships })
+                                    );
                                     setDatasets(prev => prev.map(d => d.id === dataset.id ? finalDataset : d));
                                     setShowDataEntryDialog(false);
                                     toast.success('Observation added successfully');
@@ -2704,14 +2764,17 @@ const FunctionalDataUpload: React.FC = () => {
                     <DataExplorer
                       dataset={dataset}
                       onUpdate={(updatedDataset) => {
-                        setDatasets(prev => prev.map(d => d.id === dataset.id ? updatedDataset : d));
+                        // Edited cells may feed calculated columns
+                        const finalDataset = updateDatasetStats(
+                          recalculateCalculatedColumns({ dataset: updatedDataset, datasets, relationships })
+                        );
+                        setDatasets(prev => prev.map(d => d.id === dataset.id ? finalDataset : d));
                       }}
                       onDeleteRow={(rowIndex) => {
                         const updatedData = dataset.data.filter((_, index) => index !== rowIndex);
-                        const updatedDataset = updateDatasetStats({
-                          ...dataset,
-                          data: updatedData
-                        });
+                        const updatedDataset = updateDatasetStats(
+                          recalculateCalculatedColumns({ dataset: { ...dataset, data: updatedData }, datasets, relationships })
+                        );
                         setDatasets(prev => prev.map(d => d.id === dataset.id ? updatedDataset : d));
                       }}
                     />
@@ -2757,6 +2820,7 @@ const FunctionalDataUpload: React.FC = () => {
                     ));
                   } catch (error) {
                     console.error('Error executing custom calculation:', error);
+                    toast.error(`Error executing calculation: ${error instanceof Error ? error.message : 'Unknown error'}`);
                   }
                 }
               }}
@@ -2903,6 +2967,9 @@ const FunctionalDataUpload: React.FC = () => {
               onDeleteRelationship={(id) => {
                 setRelationships(prev => prev.filter(r => r.id !== id));
               }}
+              onUpdateRelationship={(id, updates) => {
+                setRelationships(prev => prev.map(r => (r.id === id ? { ...r, ...updates } : r)));
+              }}
               onApplyRelationships={() => {
                 if (schemaType !== 'none' && relationships.length > 0) {
                   processData();
@@ -2940,7 +3007,8 @@ const FunctionalDataUpload: React.FC = () => {
                     // Remove duplicates (same datasets)
                     const unique = new Map<string, Relationship>();
                     updated.forEach(rel => {
-                      const key = `${rel.fromDataset}-${rel.toDataset}-${rel.fromColumn}-${rel.toColumn}`;
+                      const { fromColumns, toColumns } = getRelationshipColumns(rel);
+                      const key = `${rel.fromDataset}-${rel.toDataset}-${fromColumns.join(',')}-${toColumns.join(',')}`;
                       if (!unique.has(key)) {
                         unique.set(key, rel);
                       }
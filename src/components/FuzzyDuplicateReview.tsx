@@ -0,0 +1,270 @@
+// Fuzzy Duplicate Review - Configure fuzzy matching, review candidate clusters and merge them
+import React, { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Users, Search, Merge } from 'lucide-react';
+import { Dataset } from '@/lib/types';
+import { CleaningStep } from '@/lib/dataCleaningUtils';
+import {
+  DuplicateCluster,
+  FuzzyKeyColumn,
+  KeyNormalization,
+  SimilarityMethod,
+  SurvivorRule,
+  findDuplicateClusters,
+  recordFingerprint,
+  suggestNormalization
+} from '@/lib/fuzzyDuplicates';
+import { toast } from 'sonner';
+
+interface FuzzyDuplicateReviewProps {
+  dataset: Dataset;
+  onMerge: (step: CleaningStep) => void;
+}
+
+interface ClusterReview extends DuplicateCluster {
+  merge: boolean;
+}
+
+const NORMALIZATION_LABELS: Record<KeyNormalization, string> = {
+  name: 'Name (any word order)',
+  text: 'Text',
+  phone: 'Phone number',
+  email: 'Email',
+  none: 'As is'
+};
+
+const METHOD_LABELS: Record<SimilarityMethod, string> = {
+  jaroWinkler: 'Jaro-Winkler',
+  levenshtein: 'Levenshtein',
+  exact: 'Exact'
+};
+
+const SURVIVOR_RULE_LABELS: Record<SurvivorRule, string> = {
+  mostComplete: 'Most complete record',
+  first: 'First record',
+  last: 'Last record'
+};
+
+// Clusters shown at once; merging still covers every cluster
+const MAX_VISIBLE_CLUSTERS = 50;
+
+const FuzzyDuplicateReview: React.FC<FuzzyDuplicateReviewProps> = ({ dataset, onMerge }) => {
+  const [keyColumns, setKeyColumns] = useState<FuzzyKeyColumn[]>([]);
+  const [threshold, setThreshold] = useState(0.9);
+  const [survivorRule, setSurvivorRule] = useState<SurvivorRule>('mostComplete');
+  const [fillMissing, setFillMissing] = useState(true);
+  // Clusters are row positions, so a review only holds for the dataset it was run on
+  const [review, setReview] = useState<{ dataset: Dataset; clusters: ClusterReview[] } | null>(null);
+
+  const clusters = review?.dataset === dataset ? review.clusters : null;
+  const mergeCount = useMemo(() => clusters?.filter(c => c.merge).length ?? 0, [clusters]);
+
+  const toggleKeyColumn = (name: string, checked: boolean) => {
+    const column = dataset.columns.find(col => col.name === name);
+    if (!column) return;
+    setKeyColumns(prev => checked
+      ? [...prev, { column: name, normalization: suggestNormalization(column), method: 'jaroWinkler' }]
+      : prev.filter(key => key.column !== name));
+  };
+
+  const updateKeyColumn = (name: string, changes: Partial<FuzzyKeyColumn>) => {
+    setKeyColumns(prev => prev.map(key => (key.column === name ? { ...key, ...changes } : key)));
+  };
+
+  const handleFindClusters = () => {
+    if (keyColumns.length === 0) {
+      toast.error('Please select at least one key column');
+      return;
+    }
+    const found = findDuplicateClusters(dataset.data, { keyColumns, threshold }, survivorRule);
+    setReview({ dataset, clusters: found.map(cluster => ({ ...cluster, merge: true })) });
+    if (found.length === 0) {
+      toast.info('No fuzzy duplicates found at this threshold');
+    }
+  };
+
+  const updateCluster = (id: string, changes: Partial<ClusterReview>) => {
+    setReview(prev => prev && {
+      ...prev,
+      clusters: prev.clusters.map(cluster => (cluster.id === id ? { ...cluster, ...changes } : cluster))
+    });
+  };
+
+  const handleMerge = () => {
+    if (!clusters || mergeCount === 0) return;
+    onMerge({
+      op: 'mergeFuzzyDuplicates',
+      match: { keyColumns, threshold },
+      survivorRule,
+      fillMissing,
+      reviewed: clusters.map(cluster => ({
+        clusterId: cluster.id,
+        survivor: cluster.merge ? recordFingerprint(dataset.data[cluster.survivor]) : null
+      }))
+    });
+    setReview(null);
+  };
+
+  const displayColumns = dataset.columns.slice(0, 6).map(col => col.name);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-4 w-4" />
+          Fuzzy Duplicates
+        </CardTitle>
+        <CardDescription>
+          Find records that refer to the same entity despite different spelling or formatting
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label className="mb-1 block">Key Columns</Label>
+          <div className="border rounded-md p-3 max-h-56 overflow-y-auto space-y-2">
+            {dataset.columns.map(col => {
+              const key = keyColumns.find(k => k.column === col.name);
+              return (
+                <div key={col.name} className="flex items-center gap-2">
+                  <label className="flex items-center gap-2 cursor-pointer flex-1 min-w-0">
+                    <Checkbox
+                      checked={!!key}
+                      onCheckedChange={checked => toggleKeyColumn(col.name, !!checked)}
+                    />
+                    <span className="text-sm truncate">{col.name}</span>
+                  </label>
+                  {key && (
+                    <>
+                      <Select
+                        value={key.normalization}
+                        onValueChange={value => updateKeyColumn(col.name, { normalization: value as KeyNormalization })}
+                      >
+                        <SelectTrigger className="w-44 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(NORMALIZATION_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={key.method}
+                        onValueChange={value => updateKeyColumn(col.name, { method: value as SimilarityMethod })}
+                      >
+                        <SelectTrigger className="w-36 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(METHOD_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label className="mb-1 block">Similarity Threshold: {Math.round(threshold * 100)}%</Label>
+            <Slider
+              min={0.6} max={1} step={0.01}
+              value={[threshold]}
+              onValueChange={([v]) => setThreshold(v)}
+              className="mt-3"
+            />
+          </div>
+          <div>
+            <Label className="mb-1 block">Suggested Survivor</Label>
+            <Select value={survivorRule} onValueChange={value => setSurvivorRule(value as SurvivorRule)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SURVIVOR_RULE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 cursor-pointer">
+          <Checkbox checked={fillMissing} onCheckedChange={checked => setFillMissing(!!checked)} />
+          <span className="text-sm">Fill the survivor's empty fields from the merged records</span>
+        </label>
+
+        <Button onClick={handleFindClusters} className="w-full" disabled={keyColumns.length === 0}>
+          <Search className="h-4 w-4 mr-2" />
+          Find Duplicate Clusters
+        </Button>
+
+        {clusters && clusters.length > 0 && (
+          <div className="border-t pt-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-gray-600">
+                {clusters.length} clusters, {clusters.reduce((sum, c) => sum + c.rows.length, 0)} rows.
+                Click a row to keep it as the survivor.
+              </div>
+              <Button onClick={handleMerge} disabled={mergeCount === 0}>
+                <Merge className="h-4 w-4 mr-2" />
+                Merge {mergeCount} Clusters
+              </Button>
+            </div>
+
+            {clusters.slice(0, MAX_VISIBLE_CLUSTERS).map(cluster => (
+              <div key={cluster.id} className={`border rounded-md p-2 ${cluster.merge ? '' : 'opacity-60'}`}>
+                <div className="flex items-center gap-2 mb-2">
+                  <Checkbox
+                    checked={cluster.merge}
+                    onCheckedChange={checked => updateCluster(cluster.id, { merge: !!checked })}
+                  />
+                  <span className="text-sm font-medium">{cluster.merge ? 'Merge' : 'Keep separate'}</span>
+                  <Badge variant="outline" className="ml-auto">{Math.round(cluster.score * 100)}% similar</Badge>
+                </div>
+                <table className="w-full text-xs">
+                  <tbody>
+                    {cluster.rows.map(index => (
+                      <tr
+                        key={index}
+                        onClick={() => updateCluster(cluster.id, { survivor: index })}
+                        className={`cursor-pointer ${index === cluster.survivor ? 'bg-green-50 font-medium' : 'hover:bg-gray-50'}`}
+                      >
+                        <td className="px-1 py-0.5 text-gray-500 whitespace-nowrap">
+                          {index === cluster.survivor ? 'Keep' : ''} #{index + 1}
+                        </td>
+                        {displayColumns.map(name => (
+                          <td key={name} className="px-1 py-0.5 truncate max-w-[10rem]">
+                            {String(dataset.data[index][name] ?? '')}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+            {clusters.length > MAX_VISIBLE_CLUSTERS && (
+              <div className="text-xs text-gray-500 text-center">
+                Showing {MAX_VISIBLE_CLUSTERS} of {clusters.length} clusters; the rest merge with the suggested survivor
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FuzzyDuplicateReview;
@@ -0,0 +1,199 @@
+// Glossary Editor - Business terms and value aliases that Ask Your Data understands
+import React, { useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BookOpen, Download, Plus, Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dataset } from '@/lib/types';
+import {
+  Glossary,
+  GlossaryTerm,
+  ValueAlias,
+  createGlossaryId,
+  downloadGlossary,
+  mergeGlossaries,
+  parseGlossary
+} from '@/lib/glossary';
+
+interface GlossaryEditorProps {
+  glossary: Glossary;
+  datasets: Dataset[];
+  onChange: (glossary: Glossary) => void;
+}
+
+// Radix selects can't hold an empty value
+const ANY = '__any__';
+
+const GlossaryEditor: React.FC<GlossaryEditorProps> = ({ glossary, datasets, onChange }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const columnNames = [...new Set(datasets.flatMap(ds => ds.columns.map(col => col.name)))];
+  const isEmpty = glossary.terms.length === 0 && glossary.valueAliases.length === 0;
+
+  const setTerm = (id: string, changes: Partial<GlossaryTerm>) => onChange({
+    ...glossary,
+    terms: glossary.terms.map(term => (term.id === id ? { ...term, ...changes } : term))
+  });
+
+  const setAlias = (id: string, changes: Partial<ValueAlias>) => onChange({
+    ...glossary,
+    valueAliases: glossary.valueAliases.map(alias => (alias.id === id ? { ...alias, ...changes } : alias))
+  });
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseGlossary(await file.text());
+      onChange(mergeGlossaries(glossary, imported));
+      toast.success(`Imported ${imported.terms.length} term(s) and ${imported.valueAliases.length} value alias(es)`);
+    } catch (error) {
+      toast.error(`Could not read glossary: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const columnSelect = (value: string, onValueChange: (value: string) => void, anyColumn = false) => (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger className="h-8 w-44 text-xs">
+        <SelectValue placeholder="Column" />
+      </SelectTrigger>
+      <SelectContent>
+        {anyColumn && <SelectItem value={ANY}>Any column</SelectItem>}
+        {/* Keep a column that isn't loaded right now selectable */}
+        {[...columnNames, ...(value && value !== ANY && !columnNames.includes(value) ? [value] : [])].map(name => (
+          <SelectItem key={name} value={name}>{name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const removeButton = (onClick: () => void) => (
+    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onClick}>
+      <X className="h-3 w-3" />
+    </Button>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BookOpen className="h-5 w-5 text-purple-600" />
+              Business Glossary
+            </CardTitle>
+            <CardDescription>
+              Name columns and values the way your team talks about them, e.g. "revenue" for amt_ghs or "GH" for Ghana
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => downloadGlossary(glossary)} disabled={isEmpty}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+            <input
+              ref={inputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleImport}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium uppercase tracking-wide text-gray-500">Terms</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 text-xs"
+              disabled={columnNames.length === 0}
+              onClick={() => onChange({
+                ...glossary,
+                terms: [...glossary.terms, { id: createGlossaryId('term'), term: '', synonyms: [], column: columnNames[0] }]
+              })}
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Term
+            </Button>
+          </div>
+          {glossary.terms.length === 0 && (
+            <p className="text-xs text-gray-400">No terms yet. A term also names its column in suggestions and KPI titles.</p>
+          )}
+          {glossary.terms.map(term => (
+            <div key={term.id} className="flex items-center gap-2">
+              <Input
+                className="h-8 w-40 text-xs"
+                placeholder="Term, e.g. Revenue"
+                value={term.term}
+                onChange={e => setTerm(term.id, { term: e.target.value })}
+              />
+              <Input
+                className="h-8 flex-1 text-xs"
+                placeholder="Synonyms, comma-separated"
+                value={term.synonyms.join(',')}
+                onChange={e => setTerm(term.id, { synonyms: e.target.value.split(',') })}
+                onBlur={() => setTerm(term.id, {
+                  synonyms: term.synonyms.map(synonym => synonym.trim()).filter(Boolean)
+                })}
+              />
+              {columnSelect(term.column, value => setTerm(term.id, { column: value }))}
+              {removeButton(() => onChange({ ...glossary, terms: glossary.terms.filter(t => t.id !== term.id) }))}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium uppercase tracking-wide text-gray-500">Value aliases</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 text-xs"
+              onClick={() => onChange({
+                ...glossary,
+                valueAliases: [...glossary.valueAliases, { id: createGlossaryId('alias'), alias: '', value: '' }]
+              })}
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Alias
+            </Button>
+          </div>
+          {glossary.valueAliases.length === 0 && <p className="text-xs text-gray-400">No value aliases yet</p>}
+          {glossary.valueAliases.map(alias => (
+            <div key={alias.id} className="flex items-center gap-2">
+              <Input
+                className="h-8 w-32 text-xs"
+                placeholder="Alias, e.g. GH"
+                value={alias.alias}
+                onChange={e => setAlias(alias.id, { alias: e.target.value })}
+              />
+              <span className="text-xs text-gray-400">means</span>
+              <Input
+                className="h-8 flex-1 text-xs"
+                placeholder="Value, e.g. Ghana"
+                value={alias.value}
+                onChange={e => setAlias(alias.id, { value: e.target.value })}
+              />
+              {columnSelect(alias.column ?? ANY, value => setAlias(alias.id, { column: value === ANY ? undefined : value }), true)}
+              {removeButton(() => onChange({
+                ...glossary,
+                valueAliases: glossary.valueAliases.filter(a => a.id !== alias.id)
+              }))}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GlossaryEditor;
@@ -21,7 +21,7 @@ import {
 } from 'lucide-react';
 import type { Dataset, ColumnInfo } from '@/lib/types';
 import {
-  detectMLProblem, preprocessDataset, analyzeFeatures, trainAllModels,
+  detectMLProblem, preprocessDataset, analyzeFeatures,
   makePrediction, generateDeploymentGuidance,
 } from '@/lib/mlEngine';
 import type {
@@ -30,7 +30,11 @@ import type {
   ModelComparisonResult, ModelResult, PredictionResult,
   PreprocessingStrategy, ScalingMethod,
 } from '@/lib/mlEngine';
+import { detectUploadFormat, parseJSONText, parseTabularFile, UPLOAD_ACCEPT } from '@/lib/fileParsers';
 import { assertExcelBufferIsSafe, assertWorkbookHasNoMacros } from '@/lib/excelSecurity';
+import { BUNDLE_EXTENSION, createWorkspaceBundle, readWorkspaceBundle, downloadBundle } from '@/lib/workspaceBundle';
+import { emptyWorkspaceState } from '@/lib/workspaceStore';
+import { runAnalyticsTask, isCancellationError } from '@/lib/analyticsRunner';
 import { toast } from 'sonner';
 
 // ============================================================
@@ -79,29 +83,12 @@ const correlationColor = (r: number): string => {
 // Utility: Parse uploaded file to Dataset
 // ============================================================
 
-const readFileAsText = (file: File): Promise<string> =>
-  new Promise((resolve, reject) => {
-    const r = new FileReader();
-    r.onload = e => resolve(e.target?.result as string);
-    r.onerror = reject;
-    r.readAsText(file);
-  });
-
 const parseFileToDataset = async (file: File): Promise<Dataset> => {
   let rows: Record<string, unknown>[] = [];
+  const format = detectUploadFormat(file.name);
+  if (!format) throw new Error('Unsupported file type.');
 
-  if (file.name.endsWith('.csv') || file.name.endsWith('.txt')) {
-    const text = await readFileAsText(file);
-    const lines = text.split('\n').filter(l => l.trim());
-    if (lines.length < 2) throw new Error('CSV must have at least a header and one data row.');
-    const headers = lines[0].split(',').map(h => h.trim().replace(/^"|"$/g, ''));
-    rows = lines.slice(1).map(line => {
-      const vals = line.split(',').map(v => v.trim().replace(/^"|"$/g, ''));
-      const row: Record<string, unknown> = {};
-      headers.forEach((h, i) => { row[h] = vals[i] ?? ''; });
-      return row;
-    });
-  } else {
+  if (format === 'excel') {
     // Lazy-load the heavy XLSX library only when an Excel file is uploaded
     const [buffer, XLSX] = await Promise.all([
       file.arrayBuffer(),
@@ -112,6 +99,11 @@ const parseFileToDataset = async (file: File): Promise<Dataset> => {
     assertWorkbookHasNoMacros(file.name, wb);
     const ws = wb.Sheets[wb.SheetNames[0]];
     rows = XLSX.utils.sheet_to_json(ws) as Record<string, unknown>[];
+  } else if (format === 'json') {
+    rows = parseJSONText(await file.text());
+  } else {
+    // CSV, TSV, NDJSON, XML and Parquet share the Analyze page's parsers
+    rows = await parseTabularFile(file, format);
   }
 
   if (rows.length === 0) throw new Error('No data rows found.');
@@ -411,6 +403,8 @@ const MLEngineDashboard: React.FC = () => {
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+  const trainingAbortRef = useRef<AbortController | null>(null);
 
   const [pipelineState, setPipelineState] = useState<MLPipelineState>({
     currentStep: 'problem_definition',
@@ -431,6 +425,7 @@ const MLEngineDashboard: React.FC = () => {
     selectedFeatures: [] as string[],
     trainTestSplit: 0.8,
     imputeStrategy: 'mean_imputation' as PreprocessingStrategy,
+    imputeOrderBy: '',
     scalingMethod: 'z_score' as ScalingMethod,
   });
 
@@ -459,6 +454,64 @@ const MLEngineDashboard: React.FC = () => {
     }
   }, []);
 
+  // ============================================================
+  // Bundles (.dataafrik)
+  // ============================================================
+
+  const exportBundle = async () => {
+    if (!dataset) return;
+    try {
+      const { isRunning: _isRunning, progress: _progress, progressMessage: _message, ...pipeline } = pipelineState;
+      const blob = await createWorkspaceBundle(
+        dataset.name,
+        { ...emptyWorkspaceState(), datasets: [dataset], activeDatasetId: dataset.id },
+        { ml: { datasetId: dataset.id, userConfig, pipeline } }
+      );
+      downloadBundle(blob, dataset.name.replace(/\.[^.]+$/, ''));
+      toast.success(pipelineState.modelComparison
+        ? `Exported dataset and ${pipelineState.modelComparison.results.length} trained models`
+        : 'Exported dataset bundle');
+    } catch (err) {
+      toast.error(`Export failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const importBundle = async (file: File) => {
+    setIsUploading(true);
+    try {
+      const bundle = await readWorkspaceBundle(file);
+      const { datasets, activeDatasetId } = bundle.workspace;
+      const ml = bundle.ml;
+      const ds = datasets.find(d => d.id === (ml?.datasetId ?? activeDatasetId)) || datasets[0];
+      if (!ds) throw new Error('Bundle contains no datasets');
+      setDataset(ds);
+      setPredictionResult(null);
+      if (ml) {
+        setUserConfig({ imputeOrderBy: '', ...ml.userConfig });
+        setPipelineState({
+          ...ml.pipeline,
+          isRunning: false,
+          progress: ml.pipeline.modelComparison ? 100 : 0,
+          progressMessage: ''
+        });
+        setSelectedEvalModel(ml.pipeline.selectedModel?.algorithm || '');
+        setActiveTab(ml.pipeline.modelComparison ? 'evaluation' : ml.pipeline.currentStep);
+      } else {
+        const numericCols = ds.columns.filter(c => c.type === 'number').map(c => c.name);
+        setUserConfig(prev => ({ ...prev, selectedFeatures: numericCols }));
+        setPipelineState(prev => ({ ...prev, problemDetection: null, preprocessingReport: null, featureEngineering: null, modelComparison: null, selectedModel: null, deploymentGuidance: null, cleanedDataset: null }));
+        setActiveTab('problem_definition');
+      }
+      toast.success(ml?.pipeline.modelComparison
+        ? `Loaded "${ds.name}" with ${ml.pipeline.modelComparison.results.length} trained models`
+        : `Loaded "${ds.name}" from bundle`);
+    } catch (err) {
+      toast.error(`Failed to import bundle: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
@@ -491,6 +544,7 @@ const MLEngineDashboard: React.FC = () => {
         imputeStrategy: userConfig.imputeStrategy,
         scalingMethod: userConfig.scalingMethod,
         trainTestSplit: userConfig.trainTestSplit,
+        orderBy: userConfig.imputeOrderBy || undefined,
       }
     );
     setPipelineState(prev => ({ ...prev, preprocessingReport: report, cleanedDataset: processedDataset }));
@@ -518,14 +572,18 @@ const MLEngineDashboard: React.FC = () => {
       return;
     }
     setPipelineState(prev => ({ ...prev, isRunning: true, progress: 0, progressMessage: 'Starting...' }));
+    const controller = new AbortController();
+    trainingAbortRef.current = controller;
 
     try {
-      const comparison = await trainAllModels(
-        pipelineState.cleanedDataset,
-        pipelineState.problemDetection.problemType,
-        userConfig.trainTestSplit,
-        (progress, message) => {
-          setPipelineState(prev => ({ ...prev, progress, progressMessage: message }));
+      const comparison = await runAnalyticsTask(
+        'trainAllModels',
+        [pipelineState.cleanedDataset, pipelineState.problemDetection.problemType, userConfig.trainTestSplit],
+        {
+          signal: controller.signal,
+          onProgress: (progress, message) => {
+            setPipelineState(prev => ({ ...prev, progress, progressMessage: message }));
+          }
         }
       );
       setPipelineState(prev => ({
@@ -539,8 +597,11 @@ const MLEngineDashboard: React.FC = () => {
       setSelectedEvalModel(comparison.bestModel.algorithm);
       toast.success(`Training complete! Best model: ${comparison.bestModel.algorithmLabel}`);
     } catch (err) {
-      setPipelineState(prev => ({ ...prev, isRunning: false }));
-      toast.error('Training failed: ' + (err instanceof Error ? err.message : 'Unknown error'));
+      setPipelineState(prev => ({ ...prev, isRunning: false, progress: 0, progressMessage: '' }));
+      if (isCancellationError(err)) toast.info('Training cancelled.');
+      else toast.error('Training failed: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      trainingAbortRef.current = null;
     }
   };
 
@@ -650,7 +711,7 @@ const MLEngineDashboard: React.FC = () => {
       <input
         ref={fileInputRef}
         type="file"
-        accept=".csv,.xlsx,.xls,.txt"
+        accept={UPLOAD_ACCEPT}
         className="hidden"
         onChange={e => { const f = e.target.files?.[0]; if (f) handleFileUpload(f); }}
       />
@@ -663,7 +724,7 @@ const MLEngineDashboard: React.FC = () => {
         <>
           <Upload className="h-12 w-12 text-gray-400 mx-auto mb-3" />
           <p className="text-lg font-medium text-gray-700">Drop your dataset here</p>
-          <p className="text-sm text-gray-500 mt-1">CSV, Excel (.xlsx, .xls), or TXT — up to 10,000 rows sampled for training</p>
+          <p className="text-sm text-gray-500 mt-1">CSV, TSV, Excel, JSON, NDJSON, XML or Parquet — up to 10,000 rows sampled for training</p>
           <Button variant="outline" size="sm" className="mt-4">Browse Files</Button>
         </>
       )}
@@ -815,7 +876,7 @@ const MLEngineDashboard: React.FC = () => {
               <Button variant="ghost" size="sm" onClick={() => { fileInputRef.current?.click(); }} className="text-gray-500">
                 <Upload className="h-3 w-3 mr-1" /> Upload different file
               </Button>
-              <input ref={fileInputRef} type="file" accept=".csv,.xlsx,.xls,.txt" className="hidden"
+              <input ref={fileInputRef} type="file" accept={UPLOAD_ACCEPT} className="hidden"
                 onChange={e => { const f = e.target.files?.[0]; if (f) handleFileUpload(f); }} />
             </div>
           </>
@@ -844,9 +905,28 @@ const MLEngineDashboard: React.FC = () => {
                     <SelectItem value="mean_imputation">Mean (numeric)</SelectItem>
                     <SelectItem value="median_imputation">Median (numeric)</SelectItem>
                     <SelectItem value="mode_imputation">Mode (categorical)</SelectItem>
+                    <SelectItem value="forward_fill">Forward fill (time series)</SelectItem>
+                    <SelectItem value="backward_fill">Backward fill (time series)</SelectItem>
+                    <SelectItem value="linear_interpolation">Linear interpolation (time series)</SelectItem>
+                    <SelectItem value="knn_imputation">KNN (from other features)</SelectItem>
+                    <SelectItem value="regression_imputation">Regression (from other features)</SelectItem>
                     <SelectItem value="drop_rows">Drop missing rows</SelectItem>
                   </SelectContent>
                 </Select>
+                {['forward_fill', 'backward_fill', 'linear_interpolation'].includes(userConfig.imputeStrategy) && (
+                  <Select
+                    value={userConfig.imputeOrderBy || '__none__'}
+                    onValueChange={v => setUserConfig(prev => ({ ...prev, imputeOrderBy: v === '__none__' ? '' : v }))}
+                  >
+                    <SelectTrigger className="mt-2"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="__none__">Row order</SelectItem>
+                      {dataset.columns.filter(c => c.type === 'date' || c.type === 'number').map(c => (
+                        <SelectItem key={c.name} value={c.name}>Order by {c.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
               </div>
               <div>
                 <Label className="mb-1 block">Feature Scaling</Label>
@@ -908,6 +988,7 @@ const MLEngineDashboard: React.FC = () => {
                         <th className="text-right p-2 border">Missing Before</th>
                         <th className="text-right p-2 border">Missing After</th>
                         <th className="text-left p-2 border">Strategy</th>
+                        <th className="text-right p-2 border">Confidence</th>
                       </tr>
                     </thead>
                     <tbody>
@@ -918,6 +999,12 @@ const MLEngineDashboard: React.FC = () => {
                           <td className="p-2 border text-right">{stat.missingAfter}</td>
                           <td className="p-2 border">
                             <Badge variant="outline" className="text-xs">{stat.strategy}</Badge>
+                            {!!stat.fallbackCells && (
+                              <span className="text-xs text-gray-500 ml-2">{stat.fallbackCells} by mean/mode</span>
+                            )}
+                          </td>
+                          <td className="p-2 border text-right">
+                            {stat.confidence !== undefined ? `${Math.round(stat.confidence * 100)}%` : '-'}
                           </td>
                         </tr>
                       ))}
@@ -1147,6 +1234,11 @@ const MLEngineDashboard: React.FC = () => {
                 <><Cpu className="mr-2 h-4 w-4" /> Train All Models</>
               )}
             </Button>
+            {pipelineState.isRunning && (
+              <Button variant="outline" className="ml-2" onClick={() => trainingAbortRef.current?.abort()}>
+                Cancel
+              </Button>
+            )}
 
             {comparison && (
               <>
@@ -2174,6 +2266,16 @@ const MLEngineDashboard: React.FC = () => {
           <Badge variant="outline" className="text-xs">Deployment Guidance</Badge>
           <Badge variant="outline" className="text-xs">Live Predictions</Badge>
         </div>
+        <div className="flex gap-2 mt-3">
+          <Button variant="outline" size="sm" onClick={exportBundle} disabled={!dataset}>
+            <Download className="h-3 w-3 mr-1" /> Export Bundle
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => bundleInputRef.current?.click()} disabled={isUploading}>
+            <Upload className="h-3 w-3 mr-1" /> Import Bundle
+          </Button>
+          <input ref={bundleInputRef} type="file" accept={BUNDLE_EXTENSION} className="hidden"
+            onChange={e => { const f = e.target.files?.[0]; e.target.value = ''; if (f) importBundle(f); }} />
+        </div>
       </div>
 
       {/* Stepper */}
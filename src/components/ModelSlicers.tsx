@@ -0,0 +1,173 @@
+// Model Slicers - Value pickers on related tables whose filters flow through the relationships
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Filter, X } from 'lucide-react';
+import { Dataset, Relationship } from '@/lib/types';
+import { Slicer, getSlicerCandidates, getSlicerValues } from '@/lib/crossFilter';
+
+interface ModelSlicersProps {
+  datasets: Dataset[];
+  filteredDatasets: Dataset[];
+  relationships: Relationship[];
+  slicers: Slicer[];
+  onSlicersChange: (slicers: Slicer[]) => void;
+}
+
+const candidateKey = (datasetId: string, column: string) => `${datasetId}::${column}`;
+
+interface SlicerCardProps {
+  slicer: Slicer;
+  dataset: Dataset;
+  onChange: (values: string[]) => void;
+  onRemove: () => void;
+}
+
+const SlicerCard: React.FC<SlicerCardProps> = ({ slicer, dataset, onChange, onRemove }) => {
+  const { values, distinctCount } = useMemo(() => getSlicerValues(dataset, slicer.column), [dataset, slicer.column]);
+
+  return (
+    <div className="border rounded-md p-3 w-56 space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium truncate">{slicer.column}</p>
+          <p className="text-xs text-gray-500 truncate">{dataset.name}</p>
+        </div>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onRemove}>
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+      <div className="max-h-40 overflow-y-auto space-y-1">
+        {values.map(value => (
+          <label key={value} className="flex items-center gap-2 cursor-pointer min-w-0">
+            <Checkbox
+              checked={slicer.values.includes(value)}
+              onCheckedChange={checked => onChange(
+                checked ? [...slicer.values, value] : slicer.values.filter(v => v !== value)
+              )}
+            />
+            <span className="text-sm truncate">{value}</span>
+          </label>
+        ))}
+      </div>
+      {distinctCount > values.length && (
+        <p className="text-xs text-gray-500">
+          Showing the first {values.length} of {distinctCount.toLocaleString()} values
+        </p>
+      )}
+      {slicer.values.length > 0 && (
+        <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => onChange([])}>
+          Clear selection
+        </Button>
+      )}
+    </div>
+  );
+};
+
+const ModelSlicers: React.FC<ModelSlicersProps> = ({
+  datasets,
+  filteredDatasets,
+  relationships,
+  slicers,
+  onSlicersChange
+}) => {
+  const [pendingSlicer, setPendingSlicer] = useState('');
+  const candidates = useMemo(() => getSlicerCandidates(datasets, relationships), [datasets, relationships]);
+  const activeSlicers = slicers.filter(slicer => datasets.some(ds => ds.id === slicer.datasetId));
+  const available = candidates.filter(c =>
+    !slicers.some(slicer => slicer.datasetId === c.datasetId && slicer.column === c.column)
+  );
+
+  // Tables whose rows are reduced by the current selections
+  const affected = filteredDatasets.filter(ds => {
+    const original = datasets.find(d => d.id === ds.id);
+    return original && ds.data !== original.data;
+  });
+
+  const addSlicer = (key: string) => {
+    const candidate = candidates.find(c => candidateKey(c.datasetId, c.column) === key);
+    if (!candidate) return;
+    onSlicersChange([
+      ...slicers,
+      { id: `slicer-${Date.now()}`, datasetId: candidate.datasetId, column: candidate.column, values: [] }
+    ]);
+    setPendingSlicer('');
+  };
+
+  const updateSlicer = (id: string, values: string[]) => {
+    onSlicersChange(slicers.map(slicer => (slicer.id === id ? { ...slicer, values } : slicer)));
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Filter className="h-4 w-4" />
+              Slicers
+            </CardTitle>
+            <CardDescription>
+              Selections filter related tables through the relationships, updating KPIs, charts and DAX results
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={pendingSlicer} onValueChange={addSlicer} disabled={available.length === 0}>
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="Add slicer..." />
+              </SelectTrigger>
+              <SelectContent>
+                {available.map(c => (
+                  <SelectItem key={candidateKey(c.datasetId, c.column)} value={candidateKey(c.datasetId, c.column)}>
+                    {c.datasetName} · {c.column}
+                    {c.role === 'dimension' && <span className="text-xs text-gray-400"> (dimension)</span>}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {slicers.some(slicer => slicer.values.length > 0) && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onSlicersChange(slicers.map(slicer => ({ ...slicer, values: [] })))}
+              >
+                Clear All
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      {activeSlicers.length > 0 && (
+        <CardContent className="space-y-3">
+          <div className="flex flex-wrap gap-3">
+            {activeSlicers.map(slicer => (
+              <SlicerCard
+                key={slicer.id}
+                slicer={slicer}
+                dataset={datasets.find(ds => ds.id === slicer.datasetId)!}
+                onChange={values => updateSlicer(slicer.id, values)}
+                onRemove={() => onSlicersChange(slicers.filter(s => s.id !== slicer.id))}
+              />
+            ))}
+          </div>
+          {affected.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+              <span>Filtered:</span>
+              {affected.map(ds => (
+                <Badge key={ds.id} variant="secondary">
+                  {ds.name}: {ds.rowCount.toLocaleString()} of{' '}
+                  {(datasets.find(d => d.id === ds.id)?.rowCount ?? 0).toLocaleString()} rows
+                </Badge>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default ModelSlicers;
@@ -1,7 +1,7 @@
 // Natural Language Query Interface - Ask questions in plain English
 // Designed for users averse to technology and statistics
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,45 +10,79 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { 
   MessageSquare, Send, Sparkles, BarChart3, PieChart, Table, 
   Hash, HelpCircle, Lightbulb, ChevronRight, X, History,
-  TrendingUp, Filter, Link2, Calculator
+  TrendingUp, Filter, Link2, Calculator, ListTree, RotateCcw, CornerDownRight
 } from 'lucide-react';
-import { Dataset } from '@/lib/types';
-import { executeQuery, generateSuggestions, QueryResult, QuerySuggestion } from '@/lib/naturalLanguageQuery';
+import { Dataset, Relationship } from '@/lib/types';
+import {
+  generateSuggestions, runQueryPlan, withJoinPath, QueryResult, QuerySuggestion
+} from '@/lib/naturalLanguageQuery';
+import {
+  ConversationTurn, REFINEMENT_LABELS, RefinementKind, askQuestionWithLanguageModel, createTurn, replayTurn
+} from '@/lib/queryConversation';
+import { Clarification, ParsedQuestion, QueryPlan, applyClarification } from '@/lib/queryPlan';
+import { applyJoinPath } from '@/lib/queryJoin';
+import { Glossary } from '@/lib/glossary';
+import QueryPlanEditor from './QueryPlanEditor';
 import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, PieChart as RePieChart, Pie, Cell } from 'recharts';
 import { toast } from 'sonner';
 
 interface NaturalLanguageQueryProps {
   dataset: Dataset | null;
+  // Other loaded datasets and their relationships, for questions spanning several datasets
+  datasets?: Dataset[];
+  relationships?: Relationship[];
+  glossary?: Glossary; // business terms and value aliases the questions may use
   onVisualizationRequest?: (viz: any) => void;
 }
 
-interface QueryHistoryItem {
-  query: string;
-  result: QueryResult;
-  timestamp: Date;
-}
+const MAX_TURNS = 50;
 
 const CHART_COLORS = ['#8B5CF6', '#EC4899', '#10B981', '#F59E0B', '#3B82F6', '#EF4444', '#6366F1', '#14B8A6'];
 
 const NaturalLanguageQuery: React.FC<NaturalLanguageQueryProps> = ({ 
   dataset,
+  datasets = [],
+  relationships = [],
+  glossary,
   onVisualizationRequest 
 }) => {
   const [query, setQuery] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [currentResult, setCurrentResult] = useState<QueryResult | null>(null);
   const [suggestions, setSuggestions] = useState<QuerySuggestion[]>([]);
-  const [queryHistory, setQueryHistory] = useState<QueryHistoryItem[]>([]);
+  // The conversation, newest first; follow-ups refine the current turn
+  const [turns, setTurns] = useState<ConversationTurn[]>([]);
+  const [currentTurnId, setCurrentTurnId] = useState<string | null>(null);
   const [showHistory, setShowHistory] = useState(false);
+  // Editable copy of the plan behind the current result
+  const [planDraft, setPlanDraft] = useState<QueryPlan | null>(null);
+  const [showPlan, setShowPlan] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
   // Generate suggestions when dataset changes
   useEffect(() => {
     if (dataset) {
-      const newSuggestions = generateSuggestions(dataset);
+      const newSuggestions = generateSuggestions(dataset, glossary);
       setSuggestions(newSuggestions);
     }
-  }, [dataset]);
+  }, [dataset, glossary]);
+
+  // A conversation is about one dataset
+  useEffect(() => {
+    setTurns([]);
+    setCurrentTurnId(null);
+    setCurrentResult(null);
+  }, [dataset?.id]);
+
+  const model = { datasets, relationships, glossary };
+  const currentTurn = turns.find(turn => turn.id === currentTurnId) ?? null;
+  const parentTurn = currentTurn?.parentId ? turns.find(turn => turn.id === currentTurn.parentId) : undefined;
+
+  const addTurn = (turn: ConversationTurn) => {
+    setTurns(prev => [turn, ...prev].slice(0, MAX_TURNS));
+    setCurrentTurnId(turn.id);
+    setCurrentResult(turn.result);
+  };
 
   const handleSubmit = async (e?: React.FormEvent) => {
     e?.preventDefault();
@@ -68,18 +102,12 @@ const NaturalLanguageQuery: React.FC<NaturalLanguageQueryProps> = ({
       // Small delay for UX
       await new Promise(resolve => setTimeout(resolve, 300));
       
-      const result = executeQuery(query, dataset);
-      setCurrentResult(result);
+      const turn = await askQuestionWithLanguageModel(query, turns, currentTurn, dataset, model);
+      addTurn(turn);
+      setQuery('');
       
-      // Add to history
-      setQueryHistory(prev => [{
-        query: query.trim(),
-        result,
-        timestamp: new Date()
-      }, ...prev.slice(0, 19)]); // Keep last 20 queries
-      
-      if (!result.success) {
-        toast.error(result.explanation);
+      if (!turn.result.success) {
+        toast.error(turn.result.explanation);
       }
     } catch (error) {
       console.error('Query error:', error);
@@ -89,17 +117,78 @@ const NaturalLanguageQuery: React.FC<NaturalLanguageQueryProps> = ({
     }
   };
 
+  useEffect(() => {
+    setPlanDraft(currentResult?.plan ?? null);
+  }, [currentResult]);
+
+  // The rows the current result was computed on: the dataset, or its join with related datasets
+  const queryDataset = useMemo(() => {
+    if (!dataset || !currentResult?.joinPath) return dataset;
+    try {
+      return applyJoinPath(dataset, datasets, currentResult.joinPath);
+    } catch {
+      return dataset;
+    }
+  }, [dataset, datasets, currentResult?.joinPath]);
+
+  const runPlan = (plan: QueryPlan, parsed?: Pick<ParsedQuestion, 'confidence' | 'notes'>) => {
+    const result = runQueryPlan(plan, queryDataset, currentResult.query, parsed);
+    return currentResult.joinPath ? withJoinPath(result, currentResult.joinPath, datasets) : result;
+  };
+
+  // An edited plan refines the current turn; a clarified one takes the unresolved turn's place
+  const showPlanResult = (result: QueryResult, parent?: ConversationTurn, refinement?: RefinementKind[]) => {
+    addTurn(createTurn(result, dataset, model, parent, refinement));
+    if (!result.success) toast.error(result.explanation);
+  };
+
+  const handleRunPlan = () => {
+    if (!dataset || !planDraft || !currentResult) return;
+    showPlanResult(runPlan(planDraft), currentTurn ?? undefined, ['edit']);
+  };
+
+  const handleClarify = (clarification: Clarification, column: string) => {
+    if (!dataset || !currentResult?.plan) return;
+    const plan = applyClarification(currentResult.plan, clarification, column);
+    const remaining = (currentResult.clarifications || []).filter(c => c !== clarification);
+    if (remaining.length > 0) {
+      setCurrentResult({ ...currentResult, plan, clarifications: remaining });
+      return;
+    }
+    showPlanResult(runPlan(plan, {
+      confidence: currentResult.confidence,
+      notes: currentResult.notes || []
+    }), parentTurn, currentTurn?.refinement);
+  };
+
   const handleSuggestionClick = (suggestion: QuerySuggestion) => {
     setQuery(suggestion.text);
     inputRef.current?.focus();
   };
 
-  const handleHistoryClick = (item: QueryHistoryItem) => {
-    setQuery(item.query);
-    setCurrentResult(item.result);
+  // Going back to a turn makes it the one follow-ups refine
+  const handleHistoryClick = (turn: ConversationTurn) => {
+    setCurrentTurnId(turn.id);
+    setCurrentResult(turn.result);
     setShowHistory(false);
   };
 
+  // Recompute a turn from its plan, e.g. after the data changed
+  const handleReplay = (turn: ConversationTurn) => {
+    if (!dataset) return;
+    const result = replayTurn(turn, dataset, model);
+    setTurns(prev => prev.map(t => (t.id === turn.id ? { ...t, result } : t)));
+    setCurrentTurnId(turn.id);
+    setCurrentResult(result);
+    setShowHistory(false);
+  };
+
+  const startOver = () => {
+    setQuery('');
+    setCurrentResult(null);
+    setCurrentTurnId(null);
+  };
+
   const getCategoryIcon = (category: QuerySuggestion['category']) => {
     switch (category) {
       case 'aggregation': return <Calculator className="h-3 w-3" />;
@@ -253,7 +342,7 @@ const NaturalLanguageQuery: React.FC<NaturalLanguageQueryProps> = ({
             className="text-gray-500"
           >
             <History className="h-4 w-4 mr-1" />
-            History ({queryHistory.length})
+            History ({turns.length})
           </Button>
         </div>
       </CardHeader>
@@ -274,7 +363,7 @@ const NaturalLanguageQuery: React.FC<NaturalLanguageQueryProps> = ({
               {query && (
                 <button
                   type="button"
-                  onClick={() => { setQuery(''); setCurrentResult(null); }}
+                  onClick={startOver}
                   className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
                 >
                   <X className="h-4 w-4" />
@@ -321,35 +410,61 @@ const NaturalLanguageQuery: React.FC<NaturalLanguageQueryProps> = ({
         )}
 
         {/* Query History */}
-        {showHistory && queryHistory.length > 0 && (
+        {showHistory && turns.length > 0 && (
           <div className="border rounded-lg p-3 bg-gray-50">
-            <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
-              <History className="h-4 w-4" />
-              Recent Queries
-            </h4>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-medium text-gray-700 flex items-center gap-2">
+                <History className="h-4 w-4" />
+                Conversation
+              </h4>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 text-xs"
+                onClick={() => { setTurns([]); startOver(); setShowHistory(false); }}
+              >
+                Start over
+              </Button>
+            </div>
             <ScrollArea className="h-48">
               <div className="space-y-2">
-                {queryHistory.map((item, index) => (
-                  <button
-                    key={index}
-                    onClick={() => handleHistoryClick(item)}
-                    className="w-full text-left p-2 rounded hover:bg-white transition-colors"
+                {turns.map(turn => (
+                  <div
+                    key={turn.id}
+                    className={`flex items-start gap-1 p-2 rounded hover:bg-white transition-colors ${turn.id === currentTurnId ? 'bg-white' : ''}`}
                   >
-                    <div className="flex items-center justify-between">
-                      <span className="text-sm text-gray-700 truncate flex-1">{item.query}</span>
-                      <span className="text-xs text-gray-400 ml-2">
-                        {item.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                      </span>
-                    </div>
-                    <div className="flex items-center gap-2 mt-1">
-                      <Badge variant={item.result.success ? 'default' : 'secondary'} className="text-xs">
-                        {item.result.resultType}
-                      </Badge>
-                      <span className="text-xs text-gray-500">
-                        {(item.result.confidence * 100).toFixed(0)}% confidence
-                      </span>
-                    </div>
-                  </button>
+                    <button onClick={() => handleHistoryClick(turn)} className="flex-1 min-w-0 text-left">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-gray-700 truncate flex-1 flex items-center gap-1">
+                          {turn.parentId && <CornerDownRight className="h-3 w-3 text-gray-400 shrink-0" />}
+                          {turn.question}
+                        </span>
+                        <span className="text-xs text-gray-400 ml-2">
+                          {turn.askedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2 mt-1">
+                        <Badge variant={turn.result.success ? 'default' : 'secondary'} className="text-xs">
+                          {turn.result.resultType}
+                        </Badge>
+                        {turn.refinement?.map(kind => (
+                          <Badge key={kind} variant="outline" className="text-xs">{REFINEMENT_LABELS[kind]}</Badge>
+                        ))}
+                        <span className="text-xs text-gray-500">
+                          {(turn.result.confidence * 100).toFixed(0)}% confidence
+                        </span>
+                      </div>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0 text-gray-400"
+                      title="Run again"
+                      onClick={() => handleReplay(turn)}
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                    </Button>
+                  </div>
                 ))}
               </div>
             </ScrollArea>
@@ -370,14 +485,74 @@ const NaturalLanguageQuery: React.FC<NaturalLanguageQueryProps> = ({
                     {currentResult.interpretation}
                   </span>
                 </div>
-                <Badge variant={currentResult.success ? 'default' : 'secondary'}>
-                  {(currentResult.confidence * 100).toFixed(0)}% confidence
-                </Badge>
+                <div className="flex items-center gap-2">
+                  {currentResult.plan && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setShowPlan(!showPlan)}
+                      className="h-7 text-xs text-gray-600"
+                    >
+                      <ListTree className="h-3 w-3 mr-1" />
+                      {showPlan ? 'Hide Plan' : 'Edit Plan'}
+                    </Button>
+                  )}
+                  {currentResult.readByModel && (
+                    <Badge variant="outline" className="gap-1">
+                      <Sparkles className="h-3 w-3" />
+                      Read by language model
+                    </Badge>
+                  )}
+                  <Badge variant={currentResult.success ? 'default' : 'secondary'}>
+                    {(currentResult.confidence * 100).toFixed(0)}% confidence
+                  </Badge>
+                </div>
               </div>
+              {parentTurn && currentResult === currentTurn?.result && (
+                <p className="text-xs text-gray-500 mt-1 flex items-center gap-1">
+                  <CornerDownRight className="h-3 w-3" />
+                  Follow-up to "{parentTurn.question}"
+                </p>
+              )}
+              {currentResult.notes && currentResult.notes.length > 0 && (
+                <p className="text-xs text-gray-500 mt-1">{currentResult.notes.join(' · ')}</p>
+              )}
             </div>
             
             {/* Result Content */}
             <div className="p-4 bg-white">
+              {/* Ambiguous terms: the question is not answered until each one is resolved */}
+              {currentResult.clarifications && currentResult.clarifications.length > 0 && (
+                <div className="mb-4 space-y-3 rounded-lg border border-yellow-200 bg-yellow-50 p-3">
+                  {currentResult.clarifications.map(clarification => (
+                    <div key={`${clarification.slot}-${clarification.index}`}>
+                      <p className="text-sm text-gray-700 mb-2">
+                        Which column did you mean by <span className="font-medium">"{clarification.term}"</span>?
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        {clarification.options.map(option => (
+                          <Button
+                            key={option}
+                            variant="outline"
+                            size="sm"
+                            className="h-7 text-xs"
+                            onClick={() => handleClarify(clarification, option)}
+                          >
+                            {option}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {showPlan && planDraft && (
+                <div className="mb-4">
+                  <QueryPlanEditor plan={planDraft} dataset={queryDataset} onChange={setPlanDraft} onRun={handleRunPlan} />
+                </div>
+              )}
+
               {renderResultVisualization()}
               
               {/* Explanation */}
@@ -388,7 +563,9 @@ const NaturalLanguageQuery: React.FC<NaturalLanguageQueryProps> = ({
               {/* Alternative Queries */}
               {currentResult.alternativeQueries && currentResult.alternativeQueries.length > 0 && (
                 <div className="mt-4 pt-4 border-t">
-                  <p className="text-xs text-gray-500 mb-2">You might also want to ask:</p>
+                  <p className="text-xs text-gray-500 mb-2">
+                    {currentTurn?.result.plan ? 'Follow up with:' : 'You might also want to ask:'}
+                  </p>
                   <div className="flex flex-wrap gap-2">
                     {currentResult.alternativeQueries.map((altQuery, index) => (
                       <Button
@@ -414,7 +591,7 @@ const NaturalLanguageQuery: React.FC<NaturalLanguageQueryProps> = ({
 
         {/* Help Text */}
         <div className="text-center text-xs text-gray-400 pt-2">
-          <p>💡 Tip: Ask about totals, averages, counts, distributions, or comparisons</p>
+          <p>💡 Tip: Ask about totals, averages, counts, distributions, or comparisons, then follow up with "now only for …" or "break that down by month"</p>
         </div>
       </CardContent>
     </Card>
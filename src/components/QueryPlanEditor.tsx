@@ -0,0 +1,273 @@
+// Query Plan Editor - Inspect and adjust the plan a question was read into, then run it again
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Play, Plus, X } from 'lucide-react';
+import { Dataset } from '@/lib/types';
+import {
+  PLAN_AGGREGATIONS,
+  PLAN_AGGREGATION_LABELS,
+  PLAN_OPERATOR_LABELS,
+  PlanAggregation,
+  PlanOperator,
+  QueryPlan,
+  describeTimeWindow,
+  formatFilterValue,
+  getPlanOutputColumns,
+  groupLabel,
+  parseFilterValue
+} from '@/lib/queryPlan';
+
+interface QueryPlanEditorProps {
+  plan: QueryPlan;
+  dataset: Dataset;
+  onChange: (plan: QueryPlan) => void;
+  onRun: () => void;
+}
+
+// Radix selects can't hold an empty value
+const ROWS = '__rows__';
+const NONE = '__none__';
+
+const QueryPlanEditor: React.FC<QueryPlanEditorProps> = ({ plan, dataset, onChange, onRun }) => {
+  const columnNames = dataset.columns.map(col => col.name);
+  const numericColumns = dataset.columns.filter(col => col.type === 'number').map(col => col.name);
+
+  // Changing measures can drop the column the plan was sorted by
+  const update = (changes: Partial<QueryPlan>) => {
+    const next = { ...plan, ...changes };
+    if (next.sort && !getPlanOutputColumns(next, dataset).includes(next.sort.by)) next.sort = undefined;
+    onChange(next);
+  };
+
+  const section = (title: string, children: React.ReactNode, action?: React.ReactNode) => (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium uppercase tracking-wide text-gray-500">{title}</span>
+        {action}
+      </div>
+      {children}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4 rounded-lg border bg-gray-50 p-3">
+      {section(
+        'Measures',
+        plan.measures.length === 0 ? (
+          <p className="text-xs text-gray-400">None: matching records are listed</p>
+        ) : (
+          plan.measures.map((measure, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Select
+                value={measure.aggregation}
+                onValueChange={(value: PlanAggregation) => update({
+                  measures: plan.measures.map((m, i) => (i === index ? { ...m, aggregation: value } : m))
+                })}
+              >
+                <SelectTrigger className="h-8 w-44 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PLAN_AGGREGATIONS.map(aggregation => (
+                    <SelectItem key={aggregation} value={aggregation}>{PLAN_AGGREGATION_LABELS[aggregation]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={measure.column || (measure.aggregation === 'count' ? ROWS : '')}
+                onValueChange={value => update({
+                  measures: plan.measures.map((m, i) => (i === index ? { ...m, column: value === ROWS ? '' : value } : m))
+                })}
+              >
+                <SelectTrigger className="h-8 flex-1 text-xs">
+                  <SelectValue placeholder="Choose a column" />
+                </SelectTrigger>
+                <SelectContent>
+                  {measure.aggregation === 'count' && <SelectItem value={ROWS}>Rows</SelectItem>}
+                  {columnNames.map(name => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => update({ measures: plan.measures.filter((_, i) => i !== index) })}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))
+        ),
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 text-xs"
+          onClick={() => update({
+            measures: [...plan.measures, numericColumns[0]
+              ? { aggregation: 'sum', column: numericColumns[0] }
+              : { aggregation: 'count', column: '' }]
+          })}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Measure
+        </Button>
+      )}
+
+      {section(
+        'Group by',
+        <div className="flex flex-wrap items-center gap-2">
+          {plan.groupBy.map((name, index) => (
+            <Badge key={`${name}-${index}`} variant="secondary" className="gap-1">
+              {groupLabel(plan, name)}
+              <button
+                type="button"
+                onClick={() => update({
+                  groupBy: plan.groupBy.filter((_, i) => i !== index),
+                  groupPeriods: Object.fromEntries(Object.entries(plan.groupPeriods ?? {}).filter(([column]) => column !== name))
+                })}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          <Select value="" onValueChange={value => update({ groupBy: [...plan.groupBy, value] })}>
+            <SelectTrigger className="h-8 w-40 text-xs">
+              <SelectValue placeholder="Add grouping..." />
+            </SelectTrigger>
+            <SelectContent>
+              {columnNames.filter(name => !plan.groupBy.includes(name)).map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {section(
+        'Filters',
+        <div className="space-y-2">
+          {plan.filters.length === 0 && !plan.timeWindow && <p className="text-xs text-gray-400">No filters</p>}
+          {plan.filters.map((filter, index) => {
+            const setFilter = (changes: Partial<typeof filter>) => update({
+              filters: plan.filters.map((f, i) => (i === index ? { ...f, ...changes } : f))
+            });
+            return (
+              <div key={index} className="flex items-center gap-2">
+                <Select value={filter.column} onValueChange={value => setFilter({ column: value })}>
+                  <SelectTrigger className="h-8 w-36 text-xs">
+                    <SelectValue placeholder="Column" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {columnNames.map(name => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={filter.operator}
+                  onValueChange={(value: PlanOperator) => setFilter({
+                    operator: value,
+                    value: parseFilterValue(formatFilterValue(filter.value), value)
+                  })}
+                >
+                  <SelectTrigger className="h-8 w-32 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PLAN_OPERATOR_LABELS) as PlanOperator[]).map(operator => (
+                      <SelectItem key={operator} value={operator}>{PLAN_OPERATOR_LABELS[operator]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="h-8 flex-1 text-xs"
+                  value={formatFilterValue(filter.value)}
+                  placeholder={filter.operator === 'between' || filter.operator === 'in' ? 'Comma-separated values' : 'Value'}
+                  onChange={e => setFilter({ value: parseFilterValue(e.target.value, filter.operator) })}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => update({ filters: plan.filters.filter((_, i) => i !== index) })}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            );
+          })}
+          {plan.timeWindow && (
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">{describeTimeWindow(plan.timeWindow)}</Badge>
+              <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => update({ timeWindow: undefined })}>
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+        </div>,
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 text-xs"
+          onClick={() => update({ filters: [...plan.filters, { column: columnNames[0], operator: '=', value: '' }] })}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Filter
+        </Button>
+      )}
+
+      {section(
+        'Order and limit',
+        <div className="flex items-center gap-2">
+          <Select
+            value={plan.sort?.by || NONE}
+            onValueChange={value => update({
+              sort: value === NONE ? undefined : { by: value, direction: plan.sort?.direction ?? 'desc' }
+            })}
+          >
+            <SelectTrigger className="h-8 flex-1 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>No sorting</SelectItem>
+              {getPlanOutputColumns(plan, dataset).filter(Boolean).map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={plan.sort?.direction ?? 'desc'}
+            disabled={!plan.sort}
+            onValueChange={(value: 'asc' | 'desc') => plan.sort && update({ sort: { ...plan.sort, direction: value } })}
+          >
+            <SelectTrigger className="h-8 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="desc">Highest first</SelectItem>
+              <SelectItem value="asc">Lowest first</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={1}
+            className="h-8 w-24 text-xs"
+            placeholder="No limit"
+            value={plan.limit ?? ''}
+            onChange={e => update({ limit: e.target.value ? Math.max(1, Math.floor(Number(e.target.value))) : undefined })}
+          />
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button size="sm" onClick={onRun}>
+          <Play className="h-3 w-3 mr-1" />
+          Run Plan
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default QueryPlanEditor;
@@ -1,22 +1,31 @@
 // Relationship Builder Component for Star and Snowflake Schemas
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from '@/components/ui/dialog';
-import { Dataset, Relationship } from '@/lib/types';
-import { Plus, Star, Snowflake, Link, Trash2, Database, List, Network, Zap, CheckCircle } from 'lucide-react';
+import { CrossFilterDirection, Dataset, Relationship } from '@/lib/types';
+import { Plus, Star, Snowflake, Link, Trash2, Database, List, Network, Zap, CheckCircle, X, AlertTriangle } from 'lucide-react';
 import { toast } from 'sonner';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import RelationshipModelView from './RelationshipModelView';
+import { formatJoinKey, getRelationshipColumns, validateReferentialIntegrity } from '@/lib/smartDataConnector';
+
+interface KeyPair {
+  fromColumn: string;
+  toColumn: string;
+}
+
+const EMPTY_KEY_PAIRS: KeyPair[] = [{ fromColumn: '', toColumn: '' }];
 
 interface RelationshipBuilderProps {
   datasets: Dataset[];
   relationships: Relationship[];
   onAddRelationship: (relationship: Omit<Relationship, 'id'>) => void;
   onDeleteRelationship: (relationshipId: string) => void;
+  onUpdateRelationship?: (relationshipId: string, updates: Partial<Relationship>) => void;
   onApplyRelationships?: () => void;
   schemaType: 'star' | 'snowflake' | 'none';
   onSchemaTypeChange: (type: 'star' | 'snowflake' | 'none') => void;
@@ -27,6 +36,7 @@ const RelationshipBuilder: React.FC<RelationshipBuilderProps> = ({
   relationships,
   onAddRelationship,
   onDeleteRelationship,
+  onUpdateRelationship,
   onApplyRelationships,
   schemaType,
   onSchemaTypeChange
@@ -36,19 +46,30 @@ const RelationshipBuilder: React.FC<RelationshipBuilderProps> = ({
   const [newRelationship, setNewRelationship] = useState<Partial<Omit<Relationship, 'id'>>>({
     fromDataset: '',
     toDataset: '',
-    fromColumn: '',
-    toColumn: '',
     type: 'one-to-many',
     schemaType: 'star',
-    confidence: 1.0
+    confidence: 1.0,
+    crossFilterDirection: 'single'
   });
+  // Key column pairs; more than one pair makes a composite key
+  const [keyPairs, setKeyPairs] = useState<KeyPair[]>(EMPTY_KEY_PAIRS);
+  const keysComplete = keyPairs.every(pair => pair.fromColumn && pair.toColumn);
+
+  const updateKeyPair = (index: number, update: Partial<KeyPair>) => {
+    setKeyPairs(prev => prev.map((pair, i) => (i === index ? { ...pair, ...update } : pair)));
+  };
 
   const handleCreateRelationship = () => {
-    if (!newRelationship.fromDataset || !newRelationship.toDataset || 
-        !newRelationship.fromColumn || !newRelationship.toColumn) {
+    if (!newRelationship.fromDataset || !newRelationship.toDataset || !keysComplete) {
       toast.error('Please fill in all relationship fields');
       return;
     }
+    const fromColumns = keyPairs.map(pair => pair.fromColumn);
+    const toColumns = keyPairs.map(pair => pair.toColumn);
+    if (new Set(fromColumns).size !== fromColumns.length || new Set(toColumns).size !== toColumns.length) {
+      toast.error('Each key column can only be used once');
+      return;
+    }
 
     // Ensure relationship uses the current schema type to prevent mixing
     const currentSchemaType = schemaType !== 'none' ? schemaType : 'star';
@@ -56,24 +77,26 @@ const RelationshipBuilder: React.FC<RelationshipBuilderProps> = ({
     onAddRelationship({
       fromDataset: newRelationship.fromDataset!,
       toDataset: newRelationship.toDataset!,
-      fromColumn: newRelationship.fromColumn!,
-      toColumn: newRelationship.toColumn!,
+      fromColumn: fromColumns[0],
+      toColumn: toColumns[0],
+      ...(keyPairs.length > 1 ? { fromColumns, toColumns } : {}),
       type: newRelationship.type || 'one-to-many',
       confidence: newRelationship.confidence || 1.0,
       schemaType: currentSchemaType as 'star' | 'snowflake', // Always use current schema type
       isFactTable: newRelationship.isFactTable,
-      isDimensionTable: newRelationship.isDimensionTable
+      isDimensionTable: newRelationship.isDimensionTable,
+      crossFilterDirection: newRelationship.crossFilterDirection || 'single'
     });
 
     setNewRelationship({
       fromDataset: '',
       toDataset: '',
-      fromColumn: '',
-      toColumn: '',
       type: 'one-to-many',
       schemaType: 'star',
-      confidence: 1.0
+      confidence: 1.0,
+      crossFilterDirection: 'single'
     });
+    setKeyPairs(EMPTY_KEY_PAIRS);
     setShowDialog(false);
     toast.success('Relationship created successfully!');
   };
@@ -81,6 +104,17 @@ const RelationshipBuilder: React.FC<RelationshipBuilderProps> = ({
   const fromDataset = datasets.find(d => d.id === newRelationship.fromDataset);
   const toDataset = datasets.find(d => d.id === newRelationship.toDataset);
 
+  // Preview how well the key matches: the dimension side is the parent
+  const integrity = useMemo(() => {
+    if (!fromDataset || !toDataset || !keysComplete) return null;
+    return validateReferentialIntegrity(
+      toDataset,
+      fromDataset,
+      keyPairs.map(pair => pair.toColumn),
+      keyPairs.map(pair => pair.fromColumn)
+    );
+  }, [fromDataset, toDataset, keyPairs, keysComplete]);
+
   return (
     <Card>
       <CardHeader>
@@ -127,7 +161,10 @@ const RelationshipBuilder: React.FC<RelationshipBuilderProps> = ({
                       <Label>From Dataset (Fact Table)</Label>
                       <Select
                         value={newRelationship.fromDataset}
-                        onValueChange={(value) => setNewRelationship({ ...newRelationship, fromDataset: value, fromColumn: '', isFactTable: true })}
+                        onValueChange={(value) => {
+                          setNewRelationship({ ...newRelationship, fromDataset: value, isFactTable: true });
+                          setKeyPairs(prev => prev.map(pair => ({ ...pair, fromColumn: '' })));
+                        }}
                       >
                         <SelectTrigger>
                           <SelectValue placeholder="Select dataset" />
@@ -139,28 +176,14 @@ const RelationshipBuilder: React.FC<RelationshipBuilderProps> = ({
                         </SelectContent>
                       </Select>
                     </div>
-                    <div className="space-y-2">
-                      <Label>From Column</Label>
-                      <Select
-                        value={newRelationship.fromColumn}
-                        onValueChange={(value) => setNewRelationship({ ...newRelationship, fromColumn: value })}
-                        disabled={!newRelationship.fromDataset}
-                      >
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select column" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {fromDataset?.columns.map(col => (
-                            <SelectItem key={col.name} value={col.name}>{col.name}</SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    </div>
                     <div className="space-y-2">
                       <Label>To Dataset (Dimension Table)</Label>
                       <Select
                         value={newRelationship.toDataset}
-                        onValueChange={(value) => setNewRelationship({ ...newRelationship, toDataset: value, toColumn: '', isDimensionTable: true })}
+                        onValueChange={(value) => {
+                          setNewRelationship({ ...newRelationship, toDataset: value, isDimensionTable: true });
+                          setKeyPairs(prev => prev.map(pair => ({ ...pair, toColumn: '' })));
+                        }}
                       >
                         <SelectTrigger>
                           <SelectValue placeholder="Select dataset" />
@@ -172,23 +195,77 @@ const RelationshipBuilder: React.FC<RelationshipBuilderProps> = ({
                         </SelectContent>
                       </Select>
                     </div>
-                    <div className="space-y-2">
-                      <Label>To Column</Label>
-                      <Select
-                        value={newRelationship.toColumn}
-                        onValueChange={(value) => setNewRelationship({ ...newRelationship, toColumn: value })}
-                        disabled={!newRelationship.toDataset}
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Key Columns</Label>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setKeyPairs(prev => [...prev, { fromColumn: '', toColumn: '' }])}
+                        disabled={!fromDataset || !toDataset}
                       >
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select column" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {toDataset?.columns.map(col => (
-                            <SelectItem key={col.name} value={col.name}>{col.name}</SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
+                        <Plus className="h-3 w-3 mr-1" />
+                        Add Key Column
+                      </Button>
                     </div>
+                    {keyPairs.map((pair, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <Select
+                          value={pair.fromColumn}
+                          onValueChange={(value) => updateKeyPair(index, { fromColumn: value })}
+                          disabled={!newRelationship.fromDataset}
+                        >
+                          <SelectTrigger className="flex-1">
+                            <SelectValue placeholder="From column" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {fromDataset?.columns.map(col => (
+                              <SelectItem key={col.name} value={col.name}>{col.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Link className="h-4 w-4 text-gray-400 shrink-0" />
+                        <Select
+                          value={pair.toColumn}
+                          onValueChange={(value) => updateKeyPair(index, { toColumn: value })}
+                          disabled={!newRelationship.toDataset}
+                        >
+                          <SelectTrigger className="flex-1">
+                            <SelectValue placeholder="To column" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {toDataset?.columns.map(col => (
+                              <SelectItem key={col.name} value={col.name}>{col.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setKeyPairs(prev => prev.filter((_, i) => i !== index))}
+                          disabled={keyPairs.length === 1}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    {keyPairs.length > 1 && (
+                      <p className="text-xs text-gray-500">
+                        Rows match only when all {keyPairs.length} key columns match.
+                      </p>
+                    )}
+                    {integrity && (
+                      <div className={`p-2 rounded text-xs ${integrity.issues.length > 0 ? 'bg-yellow-50 text-yellow-800' : 'bg-green-50 text-green-800'}`}>
+                        <div className="flex items-center gap-1 font-medium">
+                          {integrity.issues.length > 0 ? <AlertTriangle className="h-3 w-3" /> : <CheckCircle className="h-3 w-3" />}
+                          {integrity.matchRate}% of fact rows match · integrity score {integrity.integrityScore}
+                        </div>
+                        {integrity.issues.map(issue => (
+                          <p key={issue} className="mt-1">{issue}</p>
+                        ))}
+                      </div>
+                    )}
                   </div>
                   <div className="grid grid-cols-2 gap-4">
                     <div className="space-y-2">
@@ -237,6 +314,23 @@ const RelationshipBuilder: React.FC<RelationshipBuilderProps> = ({
                       </Select>
                     </div>
                   </div>
+                  <div className="space-y-2">
+                    <Label>Cross-filter Direction</Label>
+                    <Select
+                      value={newRelationship.crossFilterDirection || 'single'}
+                      onValueChange={(value: CrossFilterDirection) =>
+                        setNewRelationship({ ...newRelationship, crossFilterDirection: value })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="single">Single (dimension filters fact)</SelectItem>
+                        <SelectItem value="both">Both directions</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
                 <DialogFooter>
                   <Button variant="outline" onClick={() => setShowDialog(false)}>
@@ -309,6 +403,7 @@ const RelationshipBuilder: React.FC<RelationshipBuilderProps> = ({
               {relationships.map(rel => {
                 const fromDs = datasets.find(d => d.id === rel.fromDataset);
                 const toDs = datasets.find(d => d.id === rel.toDataset);
+                const { fromColumns, toColumns } = getRelationshipColumns(rel);
                 return (
                   <Card key={rel.id} className="p-3">
                     <div className="flex items-start justify-between">
@@ -318,12 +413,13 @@ const RelationshipBuilder: React.FC<RelationshipBuilderProps> = ({
                             {rel.isFactTable ? 'Fact' : 'Dimension'}
                           </Badge>
                           <span className="font-medium text-sm">
-                            {fromDs?.name || rel.fromDataset}.{rel.fromColumn}
+                            {fromDs?.name || rel.fromDataset}.{formatJoinKey(fromColumns)}
                           </span>
                           <Link className="h-3 w-3 text-gray-400" />
                           <span className="font-medium text-sm">
-                            {toDs?.name || rel.toDataset}.{rel.toColumn}
+                            {toDs?.name || rel.toDataset}.{formatJoinKey(toColumns)}
                           </span>
+                          {fromColumns.length > 1 && <Badge variant="outline">Composite key</Badge>}
                         </div>
                         <div className="flex items-center gap-2 text-xs text-gray-500">
                           <Badge variant="outline">{rel.type}</Badge>
@@ -334,6 +430,24 @@ const RelationshipBuilder: React.FC<RelationshipBuilderProps> = ({
                             </Badge>
                           )}
                           <span>Confidence: {(rel.confidence * 100).toFixed(0)}%</span>
+                          {onUpdateRelationship ? (
+                            <Select
+                              value={rel.crossFilterDirection || 'single'}
+                              onValueChange={(value: CrossFilterDirection) =>
+                                onUpdateRelationship(rel.id, { crossFilterDirection: value })
+                              }
+                            >
+                              <SelectTrigger className="h-6 w-[150px] text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="single">Single filter</SelectItem>
+                                <SelectItem value="both">Bidirectional filter</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          ) : rel.crossFilterDirection === 'both' && (
+                            <Badge variant="outline">Bidirectional filter</Badge>
+                          )}
                         </div>
                       </div>
                       <Button
@@ -5,6 +5,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Dataset, Relationship } from '@/lib/types';
 import { Database, Star, Snowflake, ZoomIn, ZoomOut, RotateCcw, Maximize2, Hand } from 'lucide-react';
+import { formatJoinKey, getRelationshipColumns } from '@/lib/smartDataConnector';
 
 interface RelationshipModelViewProps {
   datasets: Dataset[];
@@ -28,6 +29,8 @@ interface Connection {
   relationship: Relationship;
   fromNode: Node;
   toNode: Node;
+  fromColumns: string[];
+  toColumns: string[];
 }
 
 const RelationshipModelView: React.FC<RelationshipModelViewProps> = ({
@@ -179,7 +182,8 @@ const RelationshipModelView: React.FC<RelationshipModelViewProps> = ({
             id: rel.id,
             relationship: rel,
             fromNode,
-            toNode
+            toNode,
+            ...getRelationshipColumns(rel)
           };
         }
         return null;
@@ -189,6 +193,20 @@ const RelationshipModelView: React.FC<RelationshipModelViewProps> = ({
     return { nodes: nodeList, connections: connectionList };
   }, [datasets, relationships, nodePositions, schemaType]);
 
+  // Key columns per dataset, highlighted in the expanded column lists
+  const keyColumnsByDataset = useMemo(() => {
+    const keys = new Map<string, Set<string>>();
+    const addKeys = (datasetId: string, columns: string[]) => {
+      if (!keys.has(datasetId)) keys.set(datasetId, new Set());
+      columns.forEach(column => keys.get(datasetId)!.add(column));
+    };
+    connections.forEach(conn => {
+      addKeys(conn.fromNode.id, conn.fromColumns);
+      addKeys(conn.toNode.id, conn.toColumns);
+    });
+    return keys;
+  }, [connections]);
+
   // Zoom handlers
   const handleZoomIn = () => {
     setZoom(prev => Math.min(prev + zoomStep, maxZoom));
@@ -559,7 +577,8 @@ const RelationshipModelView: React.FC<RelationshipModelViewProps> = ({
             >
               {/* Draw connections */}
               {connections.map(conn => {
-                const { fromNode, toNode, relationship } = conn;
+                const { fromNode, toNode, relationship, fromColumns, toColumns } = conn;
+                const keyLabel = `${formatJoinKey(fromColumns)} and ${formatJoinKey(toColumns)}`;
                 const dx = toNode.x - fromNode.x;
                 const dy = toNode.y - fromNode.y;
                 const distance = Math.sqrt(dx * dx + dy * dy);
@@ -593,7 +612,7 @@ const RelationshipModelView: React.FC<RelationshipModelViewProps> = ({
                       style={{ cursor: onDeleteRelationship ? 'pointer' : 'default' }}
                       onClick={(e) => {
                         e.stopPropagation();
-                        if (onDeleteRelationship && window.confirm(`Delete relationship between ${relationship.fromColumn} and ${relationship.toColumn}?`)) {
+                        if (onDeleteRelationship && window.confirm(`Delete relationship between ${keyLabel}?`)) {
                           onDeleteRelationship(relationship.id);
                         }
                       }}
@@ -608,6 +627,7 @@ const RelationshipModelView: React.FC<RelationshipModelViewProps> = ({
                       strokeWidth={isHovered ? '3' : '2'}
                       strokeDasharray={relationship.type === 'one-to-one' ? '5,5' : 'none'}
                       markerEnd="url(#arrowhead)"
+                      markerStart={relationship.crossFilterDirection === 'both' ? 'url(#arrowhead-start)' : undefined}
                       style={{ cursor: onDeleteRelationship ? 'pointer' : 'default' }}
                     />
                     <g transform={`translate(${midX}, ${midY})`}>
@@ -633,27 +653,31 @@ const RelationshipModelView: React.FC<RelationshipModelViewProps> = ({
                          relationship.type === 'one-to-many' ? '1:N' : 'N:N'}
                       </text>
                     </g>
+                    {/* Key columns, one line per pair for composite keys */}
                     <g transform={`translate(${midX}, ${midY + 18})`}>
                       <rect
-                        x="-45"
+                        x={fromColumns.length > 1 ? -60 : -45}
                         y="-7"
-                        width="90"
-                        height="14"
+                        width={fromColumns.length > 1 ? 120 : 90}
+                        height={12 * fromColumns.length + 2}
                         fill="#f0f0f0"
-                        stroke="#ccc"
+                        stroke={fromColumns.length > 1 ? '#3B82F6' : '#ccc'}
                         strokeWidth="1"
                         rx="3"
                         opacity="0.9"
                       />
-                      <text
-                        x="0"
-                        y="4"
-                        textAnchor="middle"
-                        fontSize="8"
-                        fill="#666"
-                      >
-                        {relationship.fromColumn} → {relationship.toColumn}
-                      </text>
+                      {fromColumns.map((column, index) => (
+                        <text
+                          key={column}
+                          x="0"
+                          y={4 + index * 12}
+                          textAnchor="middle"
+                          fontSize="8"
+                          fill="#666"
+                        >
+                          {column} → {toColumns[index]}
+                        </text>
+                      ))}
                     </g>
                     {/* Delete button on hover */}
                     {isHovered && onDeleteRelationship && (
@@ -666,7 +690,7 @@ const RelationshipModelView: React.FC<RelationshipModelViewProps> = ({
                           style={{ cursor: 'pointer' }}
                           onClick={(e) => {
                             e.stopPropagation();
-                            if (window.confirm(`Delete relationship between ${relationship.fromColumn} and ${relationship.toColumn}?`)) {
+                            if (window.confirm(`Delete relationship between ${keyLabel}?`)) {
                               onDeleteRelationship(relationship.id);
                             }
                           }}
@@ -700,6 +724,17 @@ const RelationshipModelView: React.FC<RelationshipModelViewProps> = ({
                 >
                   <polygon points="0 0, 10 3, 0 6" fill="#666" />
                 </marker>
+                {/* Bidirectional cross-filtering: same arrow, reversed at the line start */}
+                <marker
+                  id="arrowhead-start"
+                  markerWidth="10"
+                  markerHeight="10"
+                  refX="9"
+                  refY="3"
+                  orient="auto-start-reverse"
+                >
+                  <polygon points="0 0, 10 3, 0 6" fill="#666" />
+                </marker>
               </defs>
 
               {/* Draw nodes */}
@@ -808,6 +843,7 @@ const RelationshipModelView: React.FC<RelationshipModelViewProps> = ({
                         {/* Column items */}
                         {node.dataset.columns.slice(0, 8).map((col, index) => {
                           const isColumnDragging = draggedColumn?.nodeId === node.id && draggedColumn?.columnName === col.name;
+                          const isKeyColumn = keyColumnsByDataset.get(node.id)?.has(col.name) ?? false;
                           const yPos = 50 + index * 18;
                           
                           return (
@@ -836,7 +872,8 @@ const RelationshipModelView: React.FC<RelationshipModelViewProps> = ({
                                 x="-80"
                                 y={yPos - 2}
                                 fontSize="9"
-                                fill="#374151"
+                                fill={isKeyColumn ? '#1D4ED8' : '#374151'}
+                                fontWeight={isKeyColumn ? 'bold' : 'normal'}
                                 className="pointer-events-none"
                               >
                                 {col.name.length > 18 ? col.name.substring(0, 15) + '...' : col.name}
@@ -21,7 +21,9 @@ import {
   createCompositeView,
   findCommonDimensions,
   generateJoinSuggestions,
-  detectSchema
+  detectSchema,
+  formatJoinKey,
+  getRelationshipColumns
 } from '@/lib/smartDataConnector';
 import { SchemaDetectionResult } from '@/lib/types';
 import { toast } from 'sonner';
@@ -87,7 +89,8 @@ const SmartDataConnector: React.FC<SmartDataConnectorProps> = ({
     const ds2 = datasets.find(d => d.id === rel.toDataset);
     
     if (ds1 && ds2) {
-      const validation = validateRelationship(ds1, ds2, rel.fromColumn, rel.toColumn);
+      const { fromColumns, toColumns } = getRelationshipColumns(rel);
+      const validation = validateRelationship(ds1, ds2, fromColumns, toColumns);
       setValidationResult(validation);
     }
   };
@@ -106,6 +109,8 @@ const SmartDataConnector: React.FC<SmartDataConnectorProps> = ({
       toDataset: selectedRelationship.toDataset,
       fromColumn: selectedRelationship.fromColumn,
       toColumn: selectedRelationship.toColumn,
+      fromColumns: selectedRelationship.fromColumns,
+      toColumns: selectedRelationship.toColumns,
       type: selectedRelationship.type,
       confidence: selectedRelationship.confidence,
       schemaType: resolvedSchemaType,
@@ -125,13 +130,8 @@ const SmartDataConnector: React.FC<SmartDataConnectorProps> = ({
     
     if (ds1 && ds2) {
       try {
-        const { data, columns } = mergeDatasets(
-          ds1, 
-          ds2, 
-          selectedRelationship.fromColumn, 
-          selectedRelationship.toColumn,
-          joinType
-        );
+        const { fromColumns, toColumns } = getRelationshipColumns(selectedRelationship);
+        const { data, columns } = mergeDatasets(ds1, ds2, fromColumns, toColumns, joinType);
         
         onCompositeViewCreated?.(data, columns);
         toast.success(`Composite view created with ${data.length} rows!`);
@@ -284,12 +284,12 @@ const SmartDataConnector: React.FC<SmartDataConnectorProps> = ({
                       <div className="flex items-center gap-2 flex-1">
                         <div className="text-sm">
                           <span className="font-medium">{getDatasetName(rel.fromDataset)}</span>
-                          <span className="text-gray-400">.{rel.fromColumn}</span>
+                          <span className="text-gray-400">.{formatJoinKey(getRelationshipColumns(rel).fromColumns)}</span>
                         </div>
                         <ArrowRight className="h-4 w-4 text-gray-400" />
                         <div className="text-sm">
                           <span className="font-medium">{getDatasetName(rel.toDataset)}</span>
-                          <span className="text-gray-400">.{rel.toColumn}</span>
+                          <span className="text-gray-400">.{formatJoinKey(getRelationshipColumns(rel).toColumns)}</span>
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
@@ -0,0 +1,279 @@
+// Validation Rules Panel - Define dataset validation rules and explain the data quality score
+import React, { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ShieldCheck, Plus, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import { Dataset, ValidationRule } from '@/lib/types';
+import { explainDataQualityScore } from '@/lib/aiInsightEngine';
+import { parseComparisonRule } from '@/lib/dataValidation';
+import { toast } from 'sonner';
+
+interface ValidationRulesPanelProps {
+  dataset: Dataset;
+  datasets: Dataset[]; // targets for referential rules
+  onRulesChange: (rules: ValidationRule[]) => void;
+}
+
+type RuleKind = ValidationRule['kind'];
+
+const RULE_KIND_LABELS: Record<RuleKind, string> = {
+  not_null: 'Not null',
+  unique: 'Unique',
+  allowed_values: 'Allowed values',
+  regex: 'Matches pattern',
+  range: 'Range',
+  compare: 'Cross-column',
+  reference: 'Exists in another dataset'
+};
+
+const ValidationRulesPanel: React.FC<ValidationRulesPanelProps> = ({ dataset, datasets, onRulesChange }) => {
+  const [kind, setKind] = useState<RuleKind>('not_null');
+  const [column, setColumn] = useState('');
+  const [parameter, setParameter] = useState('');
+  const [rangeMax, setRangeMax] = useState('');
+  const [referenceDatasetId, setReferenceDatasetId] = useState('');
+  const [referenceColumn, setReferenceColumn] = useState('');
+  const [expandedRule, setExpandedRule] = useState<string | null>(null);
+
+  const report = useMemo(() => explainDataQualityScore(dataset, datasets), [dataset, datasets]);
+  const rules = dataset.validationRules || [];
+  const columnNames = dataset.columns.map(col => col.name);
+  const otherDatasets = datasets.filter(ds => ds.id !== dataset.id);
+  const referenceDataset = otherDatasets.find(ds => ds.id === referenceDatasetId);
+
+  const buildRule = (): ValidationRule => {
+    const id = `rule-${Date.now()}`;
+    if (kind === 'compare') return parseComparisonRule(parameter, columnNames);
+    if (!column) throw new Error('Please select a column');
+    switch (kind) {
+      case 'not_null':
+        return { id, kind, column };
+      case 'unique':
+        return { id, kind, columns: [column] };
+      case 'allowed_values': {
+        const values = parameter.split(',').map(value => value.trim()).filter(Boolean);
+        if (values.length === 0) throw new Error('Enter the allowed values, separated by commas');
+        return { id, kind, column, values };
+      }
+      case 'regex':
+        if (!parameter) throw new Error('Enter a pattern');
+        new RegExp(parameter); // throws on an invalid pattern
+        return { id, kind, column, pattern: parameter };
+      case 'range': {
+        const toBound = (text: string) => (text.trim() === '' ? undefined : isNaN(Number(text)) ? text.trim() : Number(text));
+        const min = toBound(parameter);
+        const max = toBound(rangeMax);
+        if (min === undefined && max === undefined) throw new Error('Enter a minimum, a maximum or both');
+        return { id, kind, column, min, max };
+      }
+      case 'reference':
+        if (!referenceDataset || !referenceColumn) throw new Error('Please select the dataset and column to look up');
+        return { id, kind, column, datasetId: referenceDataset.id, referenceColumn };
+    }
+  };
+
+  const handleAddRule = () => {
+    try {
+      onRulesChange([...rules, buildRule()]);
+      setParameter('');
+      setRangeMax('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Invalid rule');
+    }
+  };
+
+  const handleDeleteRule = (id: string) => {
+    onRulesChange(rules.filter(rule => rule.id !== id));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4" />
+          Validation Rules
+        </CardTitle>
+        <CardDescription>
+          Rules every row should satisfy; failures count against the data quality score
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Score breakdown */}
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-sm font-medium">Data Quality Score</span>
+            <span className="text-sm font-bold">{report.score}%</span>
+          </div>
+          <Progress value={report.score} className="h-2" />
+          <div className="mt-2 space-y-1">
+            {report.deductions.map(deduction => (
+              <div key={deduction.factor} className="flex justify-between text-xs">
+                <span className="text-gray-600">{deduction.label}: {deduction.detail}</span>
+                <span className={deduction.points > 0 ? 'text-red-600' : 'text-gray-400'}>
+                  -{deduction.points.toFixed(1)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Rule results */}
+        <div className="border-t pt-4 space-y-2">
+          {report.validation.results.length === 0 ? (
+            <div className="text-center py-4 text-sm text-gray-500">
+              No rules yet. Add one below, or mark columns as required.
+            </div>
+          ) : (
+            report.validation.results.map(result => (
+              <div key={result.rule.id} className="border rounded-md p-2">
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    className="text-gray-500"
+                    onClick={() => setExpandedRule(expandedRule === result.rule.id ? null : result.rule.id)}
+                    disabled={result.samples.length === 0}
+                  >
+                    {expandedRule === result.rule.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                  </button>
+                  <Badge
+                    variant={result.status === 'passed' ? 'default' : result.status === 'failed' ? 'destructive' : 'secondary'}
+                  >
+                    {result.status}
+                  </Badge>
+                  <span className="text-sm flex-1">{result.label}</span>
+                  <span className="text-xs text-gray-500">
+                    {result.status === 'error'
+                      ? result.message
+                      : `${result.violations.toLocaleString()} of ${result.checked.toLocaleString()} rows fail`}
+                  </span>
+                  {result.source === 'dataset' ? (
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteRule(result.rule.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Badge variant="outline" className="text-xs">column setting</Badge>
+                  )}
+                </div>
+                {expandedRule === result.rule.id && (
+                  <div className="mt-2 space-y-1">
+                    {result.samples.map(sample => (
+                      <div key={sample.rowIndex} className="text-xs font-mono bg-red-50 rounded px-2 py-1">
+                        Row {sample.rowIndex + 1}: {Object.entries(sample.values)
+                          .map(([name, value]) => `${name} = ${value === null || value === undefined ? 'null' : String(value)}`)
+                          .join(', ')}
+                      </div>
+                    ))}
+                    {result.violations > result.samples.length && (
+                      <div className="text-xs text-gray-500">
+                        and {(result.violations - result.samples.length).toLocaleString()} more rows
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* New rule */}
+        <div className="border-t pt-4 space-y-3">
+          <Label>Add Rule</Label>
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={kind} onValueChange={value => setKind(value as RuleKind)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(RULE_KIND_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {kind !== 'compare' && (
+              <Select value={column} onValueChange={setColumn}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Column" />
+                </SelectTrigger>
+                <SelectContent>
+                  {columnNames.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          {kind === 'compare' && (
+            <Input
+              placeholder="e.g. end_date >= start_date"
+              value={parameter}
+              onChange={(e) => setParameter(e.target.value)}
+            />
+          )}
+          {kind === 'allowed_values' && (
+            <Input
+              placeholder="Allowed values, separated by commas"
+              value={parameter}
+              onChange={(e) => setParameter(e.target.value)}
+            />
+          )}
+          {kind === 'regex' && (
+            <Input
+              placeholder="Regular expression, e.g. ^[A-Z]{3}-\d{4}$"
+              value={parameter}
+              onChange={(e) => setParameter(e.target.value)}
+            />
+          )}
+          {kind === 'range' && (
+            <div className="flex gap-2">
+              <Input placeholder="Minimum" value={parameter} onChange={(e) => setParameter(e.target.value)} />
+              <Input placeholder="Maximum" value={rangeMax} onChange={(e) => setRangeMax(e.target.value)} />
+            </div>
+          )}
+          {kind === 'reference' && (
+            <div className="grid grid-cols-2 gap-2">
+              <Select
+                value={referenceDatasetId}
+                onValueChange={(value) => {
+                  setReferenceDatasetId(value);
+                  setReferenceColumn('');
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={otherDatasets.length > 0 ? 'Dataset' : 'No other datasets'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {otherDatasets.map(ds => (
+                    <SelectItem key={ds.id} value={ds.id}>{ds.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={referenceColumn} onValueChange={setReferenceColumn} disabled={!referenceDataset}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Key column" />
+                </SelectTrigger>
+                <SelectContent>
+                  {referenceDataset?.columns.map(col => (
+                    <SelectItem key={col.name} value={col.name}>{col.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <Button onClick={handleAddRule} variant="outline" className="w-full">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ValidationRulesPanel;
@@ -0,0 +1,477 @@
+// Workspace Manager - Save, reopen, version and share Analyze-page workspaces (stored in IndexedDB)
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { FolderOpen, Plus, Save, History, Camera, Trash2, RotateCcw, Loader2, CheckCircle, Download, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  WorkspaceMeta,
+  WorkspaceSnapshotMeta,
+  WorkspaceState,
+  isWorkspaceStorageAvailable,
+  listWorkspaces,
+  createWorkspace,
+  saveWorkspace,
+  loadWorkspace,
+  renameWorkspace,
+  deleteWorkspace,
+  emptyWorkspaceState,
+  listSnapshots,
+  createSnapshot,
+  restoreSnapshot,
+  deleteSnapshot,
+  getLastWorkspaceId,
+  setLastWorkspaceId,
+  MAX_SNAPSHOTS_PER_WORKSPACE
+} from '@/lib/workspaceStore';
+import { BUNDLE_EXTENSION, createWorkspaceBundle, readWorkspaceBundle, downloadBundle } from '@/lib/workspaceBundle';
+
+interface WorkspaceManagerProps {
+  state: WorkspaceState;
+  onLoadState: (state: WorkspaceState) => void;
+  paused?: boolean; // hold autosave while uploads/analysis are still changing state
+}
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const WorkspaceManager: React.FC<WorkspaceManagerProps> = ({ state, onLoadState, paused = false }) => {
+  const [workspaces, setWorkspaces] = useState<WorkspaceMeta[]>([]);
+  const [current, setCurrent] = useState<WorkspaceMeta | null>(null);
+  const [autosave, setAutosave] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  const [showNewDialog, setShowNewDialog] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [showSnapshotsDialog, setShowSnapshotsDialog] = useState(false);
+  const [snapshots, setSnapshots] = useState<WorkspaceSnapshotMeta[]>([]);
+  const [snapshotLabel, setSnapshotLabel] = useState('');
+  const [isBundling, setIsBundling] = useState(false);
+
+  const available = isWorkspaceStorageAvailable();
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const currentRef = useRef(current);
+  currentRef.current = current;
+  // The state object last written (or loaded); anything else is unsaved
+  const savedStateRef = useRef<WorkspaceState | null>(null);
+  const savingRef = useRef<Promise<WorkspaceMeta | null> | null>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+
+  const refreshList = useCallback(async () => {
+    try {
+      setWorkspaces(await listWorkspaces());
+    } catch (error) {
+      console.warn('Could not list workspaces:', error);
+    }
+  }, []);
+
+  const applyLoaded = (meta: WorkspaceMeta, loaded: WorkspaceState) => {
+    savedStateRef.current = null;
+    setCurrent(meta);
+    setLastSavedAt(meta.updatedAt);
+    setLastWorkspaceId(meta.id);
+    onLoadState(loaded);
+  };
+
+  /**
+   * Write the latest state to the open workspace (creating one named after the first
+   * dataset when none is open yet). Concurrent calls wait for the running save.
+   */
+  const persist = useCallback(async (): Promise<WorkspaceMeta | null> => {
+    if (savingRef.current) await savingRef.current;
+    const snapshot = stateRef.current;
+    if (snapshot === savedStateRef.current) return currentRef.current;
+
+    const run = (async () => {
+      setIsSaving(true);
+      try {
+        let target = currentRef.current;
+        if (!target) {
+          if (snapshot.datasets.length === 0) return null;
+          target = await createWorkspace(snapshot.datasets[0].name.replace(/\.[^.]+$/, ''));
+          setLastWorkspaceId(target.id);
+        }
+        const meta = await saveWorkspace(target.id, snapshot);
+        savedStateRef.current = snapshot;
+        currentRef.current = meta;
+        setCurrent(meta);
+        setLastSavedAt(meta.updatedAt);
+        return meta;
+      } finally {
+        setIsSaving(false);
+      }
+    })();
+    savingRef.current = run;
+    try {
+      return await run;
+    } finally {
+      savingRef.current = null;
+      refreshList();
+    }
+  }, [refreshList]);
+
+  // Reopen the workspace that was open before the page was refreshed
+  useEffect(() => {
+    if (!available) return;
+    refreshList();
+    const lastId = getLastWorkspaceId();
+    if (!lastId) return;
+    loadWorkspace(lastId)
+      .then(({ meta, state: loaded }) => {
+        // Don't replace data the user started uploading while this was loading
+        if (stateRef.current.datasets.length > 0) return;
+        applyLoaded(meta, loaded);
+        if (loaded.datasets.length > 0) toast.info(`Reopened workspace "${meta.name}"`);
+      })
+      .catch(() => setLastWorkspaceId(null));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // After a load, the first state the page renders is what was stored
+  useEffect(() => {
+    if (savedStateRef.current === null && current && !paused) {
+      savedStateRef.current = state;
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [current]);
+
+  // Debounced autosave
+  useEffect(() => {
+    if (!available || !autosave || paused) return;
+    if (state === savedStateRef.current) return;
+    if (!current && state.datasets.length === 0) return;
+    const timer = setTimeout(() => {
+      persist().catch(error => {
+        toast.error(`Autosave failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+      });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [state, autosave, paused, current, available, persist]);
+
+  const handleSave = async () => {
+    try {
+      const meta = await persist();
+      if (meta) toast.success(`Saved workspace "${meta.name}"`);
+      else toast.info('Upload data before saving a workspace');
+    } catch (error) {
+      toast.error(`Save failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  };
+
+  const handleSwitch = async (workspaceId: string) => {
+    if (workspaceId === current?.id) return;
+    try {
+      if (current) await persist();
+      const { meta, state: loaded } = await loadWorkspace(workspaceId);
+      applyLoaded(meta, loaded);
+      toast.success(`Opened workspace "${meta.name}"`);
+    } catch (error) {
+      toast.error(`Could not open workspace: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      if (current) await persist();
+      const meta = await createWorkspace(newName);
+      applyLoaded(meta, emptyWorkspaceState());
+      setShowNewDialog(false);
+      setNewName('');
+      refreshList();
+      toast.success(`Created workspace "${meta.name}"`);
+    } catch (error) {
+      toast.error(`Could not create workspace: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  };
+
+  const handleRename = async () => {
+    if (!current) return;
+    const name = window.prompt('Rename workspace', current.name);
+    if (!name || name.trim() === current.name) return;
+    try {
+      setCurrent(await renameWorkspace(current.id, name));
+      refreshList();
+    } catch (error) {
+      toast.error(`Rename failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!current) return;
+    if (!window.confirm(`Delete workspace "${current.name}" and all of its snapshots? This cannot be undone.`)) {
+      return;
+    }
+    try {
+      await deleteWorkspace(current.id);
+      savedStateRef.current = stateRef.current;
+      setCurrent(null);
+      setLastSavedAt(null);
+      refreshList();
+      toast.success('Workspace deleted. The data stays open until you refresh or switch.');
+    } catch (error) {
+      toast.error(`Delete failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  };
+
+  const openSnapshots = async () => {
+    if (!current) return;
+    setShowSnapshotsDialog(true);
+    try {
+      setSnapshots(await listSnapshots(current.id));
+    } catch (error) {
+      toast.error(`Could not load snapshots: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  };
+
+  const handleSnapshot = async () => {
+    try {
+      const meta = current || (await persist());
+      if (!meta) {
+        toast.info('Upload data before taking a snapshot');
+        return;
+      }
+      const snapshot = await createSnapshot(meta.id, stateRef.current, snapshotLabel);
+      setSnapshotLabel('');
+      setSnapshots(await listSnapshots(meta.id));
+      refreshList();
+      toast.success(`Snapshot v${snapshot.version} saved`);
+    } catch (error) {
+      toast.error(`Snapshot failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  };
+
+  const handleRestore = async (snapshot: WorkspaceSnapshotMeta) => {
+    if (!current) return;
+    if (!window.confirm(`Restore "${snapshot.label}" (v${snapshot.version})? Unsnapshotted changes will be replaced.`)) {
+      return;
+    }
+    try {
+      const restored = await restoreSnapshot(current.id, snapshot.id);
+      const { meta } = await loadWorkspace(current.id);
+      applyLoaded(meta, restored);
+      setShowSnapshotsDialog(false);
+      toast.success(`Restored v${snapshot.version}`);
+    } catch (error) {
+      toast.error(`Restore failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  };
+
+  const handleDeleteSnapshot = async (snapshot: WorkspaceSnapshotMeta) => {
+    if (!current) return;
+    try {
+      await deleteSnapshot(current.id, snapshot.id);
+      setSnapshots(prev => prev.filter(s => s.id !== snapshot.id));
+      refreshList();
+    } catch (error) {
+      toast.error(`Could not delete snapshot: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  };
+
+  const handleExport = async () => {
+    const snapshot = stateRef.current;
+    if (snapshot.datasets.length === 0) {
+      toast.info('Upload data before exporting a workspace');
+      return;
+    }
+    setIsBundling(true);
+    try {
+      const name = current?.name || snapshot.datasets[0].name.replace(/\.[^.]+$/, '');
+      const blob = await createWorkspaceBundle(name, snapshot);
+      downloadBundle(blob, name);
+      toast.success(`Exported "${name}" (${(blob.size / 1024 / 1024).toFixed(2)} MB)`);
+    } catch (error) {
+      toast.error(`Export failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+    } finally {
+      setIsBundling(false);
+    }
+  };
+
+  /**
+   * Open a .dataafrik bundle as a new workspace (the current one is saved first)
+   */
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setIsBundling(true);
+    try {
+      const bundle = await readWorkspaceBundle(file);
+      if (current) await persist();
+      const created = await createWorkspace(bundle.name);
+      const meta = await saveWorkspace(created.id, bundle.workspace);
+      applyLoaded(meta, bundle.workspace);
+      refreshList();
+      toast.success(`Imported "${bundle.name}" with ${bundle.workspace.datasets.length} dataset(s)`);
+      if (bundle.ml) {
+        toast.info('This bundle also contains trained models. Import it in the ML Engine to use them.');
+      }
+    } catch (error) {
+      toast.error(`Import failed: ${error instanceof Error ? error.message : 'unknown error'}`);
+    } finally {
+      setIsBundling(false);
+    }
+  };
+
+  if (!available) return null;
+
+  const unsaved = state !== savedStateRef.current && (current !== null || state.datasets.length > 0);
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="py-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex items-center gap-2">
+            <FolderOpen className="h-5 w-5 text-violet-600" />
+            <Label className="text-sm font-medium">Workspace</Label>
+          </div>
+          <Select value={current?.id ?? ''} onValueChange={handleSwitch}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder={workspaces.length ? 'Open a workspace...' : 'No saved workspaces'} />
+            </SelectTrigger>
+            <SelectContent>
+              {workspaces.map(ws => (
+                <SelectItem key={ws.id} value={ws.id}>
+                  {ws.name} ({ws.datasetCount} dataset{ws.datasetCount === 1 ? '' : 's'})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Button variant="outline" size="sm" onClick={() => setShowNewDialog(true)}>
+            <Plus className="h-4 w-4 mr-1" /> New
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+            Save
+          </Button>
+          <Button variant="outline" size="sm" onClick={openSnapshots} disabled={!current}>
+            <History className="h-4 w-4 mr-1" /> Versions
+            {current && current.snapshotCount > 0 && (
+              <Badge variant="secondary" className="ml-1">{current.snapshotCount}</Badge>
+            )}
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={isBundling || state.datasets.length === 0}>
+            <Download className="h-4 w-4 mr-1" /> Export
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => bundleInputRef.current?.click()} disabled={isBundling}>
+            {isBundling ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Upload className="h-4 w-4 mr-1" />}
+            Import
+          </Button>
+          <input
+            ref={bundleInputRef}
+            type="file"
+            accept={BUNDLE_EXTENSION}
+            className="hidden"
+            onChange={handleImport}
+          />
+          {current && (
+            <>
+              <Button variant="ghost" size="sm" onClick={handleRename}>Rename</Button>
+              <Button variant="ghost" size="sm" onClick={handleDelete} className="text-red-600 hover:text-red-700">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+
+          <div className="flex items-center gap-2 ml-auto text-xs text-gray-500">
+            {isSaving ? (
+              <span className="flex items-center gap-1"><Loader2 className="h-3 w-3 animate-spin" /> Saving...</span>
+            ) : unsaved ? (
+              <span>Unsaved changes</span>
+            ) : lastSavedAt ? (
+              <span className="flex items-center gap-1">
+                <CheckCircle className="h-3 w-3 text-green-600" /> Saved {formatTime(lastSavedAt)}
+              </span>
+            ) : null}
+            <Switch id="workspace-autosave" checked={autosave} onCheckedChange={setAutosave} />
+            <Label htmlFor="workspace-autosave" className="text-xs">Autosave</Label>
+          </div>
+        </div>
+      </CardContent>
+
+      <Dialog open={showNewDialog} onOpenChange={setShowNewDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Workspace</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="workspace-name">Name</Label>
+            <Input
+              id="workspace-name"
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              placeholder="e.g. Q3 Sales Review"
+              onKeyDown={e => e.key === 'Enter' && handleCreate()}
+            />
+            <p className="text-xs text-gray-500">
+              The current workspace is saved first; the new one starts empty.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowNewDialog(false)}>Cancel</Button>
+            <Button onClick={handleCreate}>Create</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showSnapshotsDialog} onOpenChange={setShowSnapshotsDialog}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Versions of "{current?.name}"</DialogTitle>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input
+              value={snapshotLabel}
+              onChange={e => setSnapshotLabel(e.target.value)}
+              placeholder="Snapshot label (optional)"
+            />
+            <Button onClick={handleSnapshot}>
+              <Camera className="h-4 w-4 mr-1" /> Snapshot
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Keeps the latest {MAX_SNAPSHOTS_PER_WORKSPACE} versions; older ones are removed automatically.
+          </p>
+          <div className="max-h-80 overflow-y-auto space-y-2">
+            {snapshots.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-4">No snapshots yet</p>
+            ) : (
+              snapshots.map(snapshot => (
+                <div key={snapshot.id} className="flex items-center justify-between border rounded-md p-2">
+                  <div>
+                    <div className="text-sm font-medium">
+                      <Badge variant="outline" className="mr-2">v{snapshot.version}</Badge>
+                      {snapshot.label}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {formatTime(snapshot.createdAt)} · {snapshot.datasetCount} datasets · {snapshot.rowCount.toLocaleString()} rows
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="outline" size="sm" onClick={() => handleRestore(snapshot)}>
+                      <RotateCcw className="h-4 w-4 mr-1" /> Restore
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteSnapshot(snapshot)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default WorkspaceManager;
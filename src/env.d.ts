@@ -15,6 +15,8 @@ interface ImportMetaEnv {
   readonly VITE_FINANCE_ASSET_MODULE_ENABLED?: string;
   readonly VITE_FINANCE_ASSET_MODULE_FLOWS_TO_BALANCE_SHEET?: string;
   readonly VITE_FINANCE_ASSET_MODULE_SUPPORTS_INGESTION?: string;
+  readonly VITE_LLM_ENDPOINT?: string;
+  readonly VITE_LLM_MODEL?: string;
 }
 
 interface ImportMeta {
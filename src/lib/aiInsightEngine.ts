@@ -4,6 +4,10 @@
 import { Dataset, ColumnInfo, DataInsight, Relationship, SpearmanCorrelationResult, LagCorrelationResult, CohortResult } from './types';
 import { spearmanCorrelation } from './advancedStatistics';
 import { detectDateColumns } from './timeSeriesEngine';
+import { getNumberColumn } from './columnarStore';
+import { validateDataset, ValidationReport } from './dataValidation';
+import { OutlierMethod, OutlierOptions, describeOutlierFlag, detectOutliers, outlierSeverity } from './outlierDetection';
+import { buildKeyValue, formatJoinKey, getRelationshipColumns } from './smartDataConnector';
 
 export interface CorrelationResult {
   column1: string;
@@ -30,6 +34,16 @@ export interface AnomalyResult {
   expectedRange: { min: number; max: number };
   severity: 'critical' | 'high' | 'medium' | 'low';
   description: string;
+  method?: OutlierMethod; // the detector that flagged the value
+  expectedValue?: number; // seasonal detection: the value the pattern predicted
+}
+
+/**
+ * Outlier detector chosen for a column (see outlierDetection.ts)
+ */
+export interface ColumnOutlierConfig {
+  method: OutlierMethod;
+  options?: OutlierOptions;
 }
 
 export interface PatternResult {
@@ -50,9 +64,27 @@ export interface AIInsightSummary {
   executiveSummary: string;
   recommendations: string[];
   dataQualityScore: number;
+  dataQualityReport?: DataQualityReport; // how dataQualityScore was arrived at
   analysisTimestamp: Date;
 }
 
+/**
+ * One contribution to the data quality score
+ */
+export interface QualityDeduction {
+  factor: 'missing_values' | 'duplicate_rows' | 'constant_columns' | 'rule_violations';
+  label: string;
+  points: number; // deducted from 100
+  maxPoints: number;
+  detail: string;
+}
+
+export interface DataQualityReport {
+  score: number;
+  deductions: QualityDeduction[];
+  validation: ValidationReport;
+}
+
 /**
  * Calculate Pearson correlation coefficient between two numeric arrays
  */
@@ -122,31 +154,31 @@ const linearRegression = (values: number[]): { slope: number; intercept: number;
 export const detectCorrelations = (dataset: Dataset): CorrelationResult[] => {
   const results: CorrelationResult[] = [];
   const numericColumns = dataset.columns.filter(col => col.type === 'number');
+  // Each column is read into a typed array once and shared by all of its pairs
+  const columnValues = numericColumns.map(col => getNumberColumn(dataset.data, col.name).values);
   
   for (let i = 0; i < numericColumns.length; i++) {
     for (let j = i + 1; j < numericColumns.length; j++) {
       const col1 = numericColumns[i];
       const col2 = numericColumns[j];
       
-      const values1 = dataset.data.map(row => Number(row[col1.name])).filter(v => !isNaN(v));
-      const values2 = dataset.data.map(row => Number(row[col2.name])).filter(v => !isNaN(v));
-      
       // Align arrays
-      const alignedPairs: { v1: number; v2: number }[] = [];
-      dataset.data.forEach(row => {
-        const v1 = Number(row[col1.name]);
-        const v2 = Number(row[col2.name]);
+      const aligned1: number[] = [];
+      const aligned2: number[] = [];
+      const source1 = columnValues[i];
+      const source2 = columnValues[j];
+      for (let r = 0; r < source1.length; r++) {
+        const v1 = source1[r];
+        const v2 = source2[r];
         if (!isNaN(v1) && !isNaN(v2)) {
-          alignedPairs.push({ v1, v2 });
+          aligned1.push(v1);
+          aligned2.push(v2);
         }
-      });
+      }
       
-      if (alignedPairs.length < 3) continue;
+      if (aligned1.length < 3) continue;
       
-      const correlation = calculateCorrelation(
-        alignedPairs.map(p => p.v1),
-        alignedPairs.map(p => p.v2)
-      );
+      const correlation = calculateCorrelation(aligned1, aligned2);
       
       const absCorr = Math.abs(correlation);
       let strength: CorrelationResult['strength'] = 'none';
@@ -245,67 +277,104 @@ export const detectTrends = (dataset: Dataset): TrendResult[] => {
   return results.sort((a, b) => Math.abs(b.slope) - Math.abs(a.slope));
 };
 
+const SEVERITY_ORDER: Record<AnomalyResult['severity'], number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
 /**
- * Detect anomalies using statistical methods (Z-score and IQR)
+ * Anomalies in one numeric column. With a configured detector its flags are reported;
+ * otherwise values outside the IQR fences or more than 2 standard deviations from the
+ * mean are flagged.
  */
-export const detectAnomalies = (dataset: Dataset): AnomalyResult[] => {
+export const detectColumnAnomalies = (
+  dataset: Dataset,
+  columnName: string,
+  config?: ColumnOutlierConfig
+): AnomalyResult[] => {
+  if (config) {
+    const detection = detectOutliers(dataset.data, columnName, config.method, config.options);
+    return detection.flags
+      .map(flag => ({
+        column: columnName,
+        rowIndex: flag.rowIndex,
+        value: flag.value,
+        expectedRange: {
+          min: Math.round(flag.expectedRange.min * 100) / 100,
+          max: Math.round(flag.expectedRange.max * 100) / 100
+        },
+        severity: outlierSeverity(flag),
+        description: describeOutlierFlag(detection, flag),
+        method: config.method,
+        expectedValue: flag.expectedValue
+      }))
+      .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+  }
+
   const results: AnomalyResult[] = [];
-  const numericColumns = dataset.columns.filter(col => col.type === 'number');
+  const values = dataset.data.map((row, idx) => ({
+    value: Number(row[columnName]),
+    index: idx
+  })).filter(v => !isNaN(v.value));
   
-  numericColumns.forEach(col => {
-    const values = dataset.data.map((row, idx) => ({
-      value: Number(row[col.name]),
-      index: idx
-    })).filter(v => !isNaN(v.value));
-    
-    if (values.length < 10) return;
-    
-    const numericValues = values.map(v => v.value);
-    const mean = numericValues.reduce((a, b) => a + b, 0) / numericValues.length;
-    const stdDev = calculateStdDev(numericValues);
+  if (values.length < 10) return results;
+  
+  const numericValues = values.map(v => v.value);
+  const mean = numericValues.reduce((a, b) => a + b, 0) / numericValues.length;
+  const stdDev = calculateStdDev(numericValues);
+  
+  // IQR method
+  const sorted = [...numericValues].sort((a, b) => a - b);
+  const q1 = sorted[Math.floor(sorted.length * 0.25)];
+  const q3 = sorted[Math.floor(sorted.length * 0.75)];
+  const iqr = q3 - q1;
+  const lowerBound = q1 - 1.5 * iqr;
+  const upperBound = q3 + 1.5 * iqr;
+  
+  values.forEach(({ value, index }) => {
+    const zScore = calculateZScore(value, mean, stdDev);
+    const absZScore = Math.abs(zScore);
     
-    // IQR method
-    const sorted = [...numericValues].sort((a, b) => a - b);
-    const q1 = sorted[Math.floor(sorted.length * 0.25)];
-    const q3 = sorted[Math.floor(sorted.length * 0.75)];
-    const iqr = q3 - q1;
-    const lowerBound = q1 - 1.5 * iqr;
-    const upperBound = q3 + 1.5 * iqr;
+    // Check both Z-score and IQR methods
+    const isZScoreAnomaly = absZScore > 2;
+    const isIQRAnomaly = value < lowerBound || value > upperBound;
     
-    values.forEach(({ value, index }) => {
-      const zScore = calculateZScore(value, mean, stdDev);
-      const absZScore = Math.abs(zScore);
-      
-      // Check both Z-score and IQR methods
-      const isZScoreAnomaly = absZScore > 2;
-      const isIQRAnomaly = value < lowerBound || value > upperBound;
-      
-      if (isZScoreAnomaly || isIQRAnomaly) {
-        let severity: AnomalyResult['severity'] = 'low';
-        if (absZScore > 4 || (value < q1 - 3 * iqr || value > q3 + 3 * iqr)) {
-          severity = 'critical';
-        } else if (absZScore > 3) {
-          severity = 'high';
-        } else if (absZScore > 2.5) {
-          severity = 'medium';
-        }
-        
-        results.push({
-          column: col.name,
-          rowIndex: index,
-          value,
-          expectedRange: { min: Math.round(lowerBound * 100) / 100, max: Math.round(upperBound * 100) / 100 },
-          severity,
-          description: `Value ${value} in ${col.name} (row ${index + 1}) is ${absZScore.toFixed(1)} standard deviations from mean. Expected range: ${lowerBound.toFixed(2)} to ${upperBound.toFixed(2)}`
-        });
+    if (isZScoreAnomaly || isIQRAnomaly) {
+      let severity: AnomalyResult['severity'] = 'low';
+      if (absZScore > 4 || (value < q1 - 3 * iqr || value > q3 + 3 * iqr)) {
+        severity = 'critical';
+      } else if (absZScore > 3) {
+        severity = 'high';
+      } else if (absZScore > 2.5) {
+        severity = 'medium';
       }
-    });
+      
+      results.push({
+        column: columnName,
+        rowIndex: index,
+        value,
+        expectedRange: { min: Math.round(lowerBound * 100) / 100, max: Math.round(upperBound * 100) / 100 },
+        severity,
+        description: `Value ${value} in ${columnName} (row ${index + 1}) is ${absZScore.toFixed(1)} standard deviations from mean. Expected range: ${lowerBound.toFixed(2)} to ${upperBound.toFixed(2)}`,
+        method: isIQRAnomaly ? 'iqr' : 'zscore'
+      });
+    }
   });
-  
-  return results.sort((a, b) => {
-    const severityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
-    return severityOrder[a.severity] - severityOrder[b.severity];
-  }).slice(0, 50); // Limit to top 50 anomalies
+
+  return results;
+};
+
+/**
+ * Detect anomalies in every numeric column, using the detector configured for a column
+ * where there is one (Z-score and IQR otherwise)
+ */
+export const detectAnomalies = (
+  dataset: Dataset,
+  columnMethods: Record<string, ColumnOutlierConfig> = {}
+): AnomalyResult[] => {
+  const numericColumns = dataset.columns.filter(col => col.type === 'number');
+  const results = numericColumns.flatMap(col => detectColumnAnomalies(dataset, col.name, columnMethods[col.name]));
+
+  return results
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])
+    .slice(0, 50); // Limit to top 50 anomalies
 };
 
 /**
@@ -398,10 +467,11 @@ export const detectPatterns = (dataset: Dataset): PatternResult[] => {
 };
 
 /**
- * Calculate data quality score
+ * Calculate data quality score, itemized: every deduction from 100 says what it's for,
+ * and validation rule results (see dataValidation.ts) are part of the score
  */
-export const calculateDataQualityScore = (dataset: Dataset): number => {
-  let score = 100;
+export const explainDataQualityScore = (dataset: Dataset, allDatasets: Dataset[] = []): DataQualityReport => {
+  const deductions: QualityDeduction[] = [];
   
   // Deduct for missing values
   const totalCells = dataset.rowCount * dataset.columns.length;
@@ -409,24 +479,69 @@ export const calculateDataQualityScore = (dataset: Dataset): number => {
   dataset.columns.forEach(col => {
     missingCount += col.nullCount;
   });
-  const missingRatio = missingCount / totalCells;
-  score -= missingRatio * 30; // Up to 30 points deduction
+  const missingRatio = totalCells > 0 ? missingCount / totalCells : 0;
+  deductions.push({
+    factor: 'missing_values',
+    label: 'Missing values',
+    points: missingRatio * 30, // Up to 30 points deduction
+    maxPoints: 30,
+    detail: `${missingCount.toLocaleString()} of ${totalCells.toLocaleString()} cells are empty (${(missingRatio * 100).toFixed(1)}%)`
+  });
   
   // Deduct for duplicate rows
   const uniqueRows = new Set(dataset.data.map(row => JSON.stringify(row))).size;
-  const duplicateRatio = 1 - uniqueRows / dataset.rowCount;
-  score -= duplicateRatio * 20; // Up to 20 points deduction
+  const duplicateRatio = dataset.rowCount > 0 ? 1 - uniqueRows / dataset.rowCount : 0;
+  deductions.push({
+    factor: 'duplicate_rows',
+    label: 'Duplicate rows',
+    points: duplicateRatio * 20, // Up to 20 points deduction
+    maxPoints: 20,
+    detail: `${(dataset.rowCount - uniqueRows).toLocaleString()} rows repeat an earlier row exactly`
+  });
   
   // Deduct for low cardinality issues
-  dataset.columns.forEach(col => {
-    if (col.type === 'string' && col.uniqueCount === 1) {
-      score -= 2; // Deduct for constant columns
-    }
+  const constantColumns = dataset.columns.filter(col => col.type === 'string' && col.uniqueCount === 1);
+  deductions.push({
+    factor: 'constant_columns',
+    label: 'Constant columns',
+    points: constantColumns.length * 2, // Deduct for constant columns
+    maxPoints: dataset.columns.length * 2,
+    detail: constantColumns.length > 0
+      ? `${constantColumns.map(col => col.name).join(', ')} hold a single value`
+      : 'No text column holds a single value'
   });
   
-  return Math.max(0, Math.min(100, Math.round(score)));
+  // Deduct for validation rule violations, by the share of checked rows each failing rule rejects
+  const validation = validateDataset(dataset, allDatasets);
+  const checkedRules = validation.results.filter(result => result.status !== 'error');
+  if (checkedRules.length > 0) {
+    const violationRatio = checkedRules.reduce(
+      (sum, result) => sum + (result.checked > 0 ? result.violations / result.checked : 0), 0
+    ) / checkedRules.length;
+    deductions.push({
+      factor: 'rule_violations',
+      label: 'Validation rules',
+      points: violationRatio * 30, // Up to 30 points deduction
+      maxPoints: 30,
+      detail: `${validation.failed} of ${checkedRules.length} rules failed; ` +
+        `${validation.rowsWithViolations.toLocaleString()} rows break at least one rule`
+    });
+  }
+  
+  const total = deductions.reduce((sum, deduction) => sum + deduction.points, 0);
+  return {
+    score: Math.max(0, Math.min(100, Math.round(100 - total))),
+    deductions,
+    validation
+  };
 };
 
+/**
+ * Calculate data quality score
+ */
+export const calculateDataQualityScore = (dataset: Dataset, allDatasets: Dataset[] = []): number =>
+  explainDataQualityScore(dataset, allDatasets).score;
+
 /**
  * Generate executive summary from all insights
  */
@@ -529,6 +644,7 @@ const yieldToBrowser = (): Promise<void> => {
  */
 export const runAIAnalysisAsync = async (
   dataset: Dataset,
+  allDatasets: Dataset[] = [], // for validation rules that look up values in another dataset
   onProgress?: (progress: number, message: string) => void
 ): Promise<AIInsightSummary> => {
   if (onProgress) {
@@ -564,7 +680,8 @@ export const runAIAnalysisAsync = async (
   }
   await yieldToBrowser();
   
-  const dataQualityScore = calculateDataQualityScore(dataset);
+  const dataQualityReport = explainDataQualityScore(dataset, allDatasets);
+  const dataQualityScore = dataQualityReport.score;
   
   if (onProgress) {
     onProgress(90, 'Generating insights...');
@@ -593,6 +710,7 @@ export const runAIAnalysisAsync = async (
     executiveSummary,
     recommendations,
     dataQualityScore,
+    dataQualityReport,
     analysisTimestamp: new Date()
   };
 };
@@ -600,12 +718,13 @@ export const runAIAnalysisAsync = async (
 /**
  * Main function: Run full AI-powered analysis (synchronous version for backward compatibility)
  */
-export const runAIAnalysis = (dataset: Dataset): AIInsightSummary => {
+export const runAIAnalysis = (dataset: Dataset, allDatasets: Dataset[] = []): AIInsightSummary => {
   const correlations = detectCorrelations(dataset);
   const trends = detectTrends(dataset);
   const anomalies = detectAnomalies(dataset);
   const patterns = detectPatterns(dataset);
-  const dataQualityScore = calculateDataQualityScore(dataset);
+  const dataQualityReport = explainDataQualityScore(dataset, allDatasets);
+  const dataQualityScore = dataQualityReport.score;
   const executiveSummary = generateExecutiveSummary(dataset, correlations, trends, anomalies, patterns);
   const recommendations = generateRecommendations(dataset, correlations, trends, anomalies, patterns);
   
@@ -624,6 +743,7 @@ export const runAIAnalysis = (dataset: Dataset): AIInsightSummary => {
     executiveSummary,
     recommendations,
     dataQualityScore,
+    dataQualityReport,
     analysisTimestamp: new Date()
   };
 };
@@ -1030,6 +1150,7 @@ export const generateCrossDatasetInsights = (
     const fromDataset = datasets.find(d => d.id === rel.fromDataset);
     const toDataset = datasets.find(d => d.id === rel.toDataset);
     if (!fromDataset || !toDataset) return;
+    const { fromColumns, toColumns } = getRelationshipColumns(rel);
 
     // Find numeric columns in both datasets for cross-dataset aggregation
     const fromNumeric = fromDataset.columns.filter(c => c.type === 'number');
@@ -1042,7 +1163,7 @@ export const generateCrossDatasetInsights = (
         // Build lookup from toDataset
         const dimLookup: Record<string, string> = {};
         toDataset.data.forEach(row => {
-          const key = String(row[rel.toColumn] || '');
+          const key = buildKeyValue(row, toColumns);
           const category = String(row[catCol.name] || '');
           if (key && category) dimLookup[key] = category;
         });
@@ -1050,7 +1171,7 @@ export const generateCrossDatasetInsights = (
         // Aggregate fromDataset values by dimension categories
         const categoryTotals: Record<string, { sum: number; count: number }> = {};
         fromDataset.data.forEach(row => {
-          const key = String(row[rel.fromColumn] || '');
+          const key = buildKeyValue(row, fromColumns);
           const val = Number(row[numCol.name]);
           if (isNaN(val)) return;
 
@@ -1098,9 +1219,9 @@ export const generateCrossDatasetInsights = (
         id: `cross-rel-${rel.id}`,
         type: 'recommendation',
         title: `Cross-Table Analysis Available`,
-        description: `${fromDataset.name} and ${toDataset.name} are linked via ${rel.fromColumn} → ${rel.toColumn} (${rel.type}). ${fromNumeric.length} numeric measures from ${fromDataset.name} can be analyzed by ${toDataset.name} dimensions.`,
+        description: `${fromDataset.name} and ${toDataset.name} are linked via ${formatJoinKey(fromColumns)} → ${formatJoinKey(toColumns)} (${rel.type}). ${fromNumeric.length} numeric measures from ${fromDataset.name} can be analyzed by ${toDataset.name} dimensions.`,
         datasetId: fromDataset.id,
-        relatedColumns: [rel.fromColumn, rel.toColumn]
+        relatedColumns: [...fromColumns, ...toColumns]
       });
     }
   });
@@ -1329,7 +1450,8 @@ export const runEnhancedAIAnalysis = async (
 
   if (onProgress) onProgress(75, 'Calculating data quality...');
   await yieldToBrowser();
-  const dataQualityScore = calculateDataQualityScore(dataset);
+  const dataQualityReport = explainDataQualityScore(dataset, allDatasets);
+  const dataQualityScore = dataQualityReport.score;
 
   if (onProgress) onProgress(80, 'Generating cross-dataset insights...');
   await yieldToBrowser();
@@ -1374,6 +1496,7 @@ export const runEnhancedAIAnalysis = async (
     executiveSummary,
     recommendations,
     dataQualityScore,
+    dataQualityReport,
     analysisTimestamp: new Date(),
     nonLinearCorrelations,
     lagCorrelations,
@@ -0,0 +1,158 @@
+// Analytics Runner - Runs heavy analytics tasks in Web Workers
+// Typed task calls with progress events and AbortSignal cancellation (which terminates
+// the worker mid-computation). Falls back to the main thread where workers aren't available.
+
+import {
+  ANALYTICS_TASKS,
+  AnalyticsTaskArgs,
+  AnalyticsTaskName,
+  AnalyticsTaskResult,
+  TaskProgressHandler,
+  WorkerResponse,
+  WorkerRunRequest,
+  packTaskArgs
+} from './workerTasks';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface AnalyticsRunOptions {
+  onProgress?: TaskProgressHandler;
+  signal?: AbortSignal;
+}
+
+// ============================================================
+// Cancellation
+// ============================================================
+
+export const createCancellationError = (): Error =>
+  new DOMException('Operation cancelled', 'AbortError');
+
+/**
+ * True for errors raised because the caller cancelled the operation
+ */
+export const isCancellationError = (error: unknown): boolean =>
+  error instanceof DOMException ? error.name === 'AbortError' : error instanceof Error && error.name === 'AbortError';
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createCancellationError();
+};
+
+// ============================================================
+// Worker pool
+// ============================================================
+
+// Finished workers are kept for the next task; a cancelled one is terminated instead
+const MAX_IDLE_WORKERS = 2;
+const idleWorkers: Worker[] = [];
+let nextTaskId = 1;
+let workersUnavailable = false;
+
+export const areWorkersAvailable = (): boolean => !workersUnavailable && typeof Worker !== 'undefined';
+
+const acquireWorker = (): Worker | null => {
+  const idle = idleWorkers.pop();
+  if (idle) return idle;
+  if (!areWorkersAvailable()) return null;
+  try {
+    return new Worker(new URL('./analyticsWorker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    workersUnavailable = true;
+    return null;
+  }
+};
+
+const releaseWorker = (worker: Worker) => {
+  if (idleWorkers.length < MAX_IDLE_WORKERS) idleWorkers.push(worker);
+  else worker.terminate();
+};
+
+// ============================================================
+// Running tasks
+// ============================================================
+
+const runOnMainThread = async <K extends AnalyticsTaskName>(
+  task: K,
+  args: AnalyticsTaskArgs<K>,
+  { onProgress, signal }: AnalyticsRunOptions
+): Promise<AnalyticsTaskResult<K>> => {
+  throwIfCancelled(signal);
+  const run = ANALYTICS_TASKS[task] as (a: AnalyticsTaskArgs<K>, p: TaskProgressHandler) =>
+    AnalyticsTaskResult<K> | Promise<AnalyticsTaskResult<K>>;
+  const result = await run(args, (progress, message) => onProgress?.(progress, message));
+  // The computation can't be interrupted here; discard its result instead
+  throwIfCancelled(signal);
+  return result;
+};
+
+/**
+ * Run an analytics task in a worker. Dataset rows are packed into transferable columns;
+ * aborting the signal terminates the worker and rejects with a cancellation error.
+ */
+export const runAnalyticsTask = <K extends AnalyticsTaskName>(
+  task: K,
+  args: AnalyticsTaskArgs<K>,
+  options: AnalyticsRunOptions = {}
+): Promise<AnalyticsTaskResult<K>> => {
+  const { onProgress, signal } = options;
+  if (signal?.aborted) return Promise.reject(createCancellationError());
+
+  const worker = acquireWorker();
+  if (!worker) return runOnMainThread(task, args, options);
+
+  return new Promise<AnalyticsTaskResult<K>>((resolve, reject) => {
+    const id = nextTaskId++;
+
+    const cleanup = () => {
+      worker.removeEventListener('message', handleMessage);
+      worker.removeEventListener('error', handleError);
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleMessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      if (message.id !== id) return;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress, message.message);
+        return;
+      }
+      cleanup();
+      releaseWorker(worker);
+      if (message.type === 'result') resolve(message.result as AnalyticsTaskResult<K>);
+      else reject(new Error(message.error));
+    };
+
+    // The worker script itself failed (e.g. module workers unsupported): run here instead
+    const handleError = (event: ErrorEvent) => {
+      event.preventDefault();
+      cleanup();
+      worker.terminate();
+      workersUnavailable = true;
+      console.warn('Analytics worker failed, running on the main thread:', event.message);
+      runOnMainThread(task, args, options).then(resolve, reject);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      worker.terminate();
+      reject(createCancellationError());
+    };
+
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleError);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    try {
+      const packed = packTaskArgs(args as unknown[]);
+      const request: WorkerRunRequest = { type: 'run', id, task, args: packed.args };
+      worker.postMessage(request, packed.transfer);
+    } catch (error) {
+      // Arguments that can't be cloned: compute on the main thread
+      cleanup();
+      releaseWorker(worker);
+      console.warn('Could not send task to analytics worker:', error);
+      runOnMainThread(task, args, options).then(resolve, reject);
+    }
+  });
+};
@@ -0,0 +1,32 @@
+// Analytics Worker - Web Worker entry that runs the heavy engines off the main thread
+// Receives packed task arguments, reports progress and posts back the result or error.
+// Cancellation terminates the worker from the main thread (see analyticsRunner.ts).
+
+import { ANALYTICS_TASKS, AnalyticsTaskName, WorkerResponse, WorkerRunRequest, unpackTaskArgs } from './workerTasks';
+
+// The app is type-checked against the DOM lib; only postMessage/onmessage are needed here
+const ctx = self as unknown as {
+  postMessage: (message: WorkerResponse) => void;
+  onmessage: ((event: MessageEvent<WorkerRunRequest>) => void) | null;
+};
+
+const runTask = async <K extends AnalyticsTaskName>(id: number, task: K, packedArgs: unknown[]) => {
+  const args = unpackTaskArgs(packedArgs) as Parameters<typeof ANALYTICS_TASKS[K]>[0];
+  const onProgress = (progress: number, message: string) => ctx.postMessage({ type: 'progress', id, progress, message });
+  const run = ANALYTICS_TASKS[task] as (a: typeof args, p: typeof onProgress) => unknown;
+  return run(args, onProgress);
+};
+
+ctx.onmessage = async (event: MessageEvent<WorkerRunRequest>) => {
+  const { id, task, args } = event.data;
+  if (!(task in ANALYTICS_TASKS)) {
+    ctx.postMessage({ type: 'error', id, error: `Unknown analytics task: ${task}` });
+    return;
+  }
+  try {
+    const result = await runTask(id, task, args);
+    ctx.postMessage({ type: 'result', id, result });
+  } catch (error) {
+    ctx.postMessage({ type: 'error', id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
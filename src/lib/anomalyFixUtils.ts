@@ -2,7 +2,7 @@
 import { Dataset } from './types';
 import { AnomalyResult } from './aiInsightEngine';
 
-export type AnomalyFixAction = 'removeRow' | 'capToBounds' | 'replaceWithMean' | 'replaceWithMedian';
+export type AnomalyFixAction = 'removeRow' | 'capToBounds' | 'replaceWithMean' | 'replaceWithMedian' | 'replaceWithExpected';
 
 export interface AnomalyFixResult {
   dataset: Dataset;
@@ -49,9 +49,19 @@ const actionLabel = (action: AnomalyFixAction): string => {
     case 'capToBounds': return 'Capped to bounds';
     case 'replaceWithMean': return 'Replaced with mean';
     case 'replaceWithMedian': return 'Replaced with median';
+    case 'replaceWithExpected': return 'Replaced with expected value';
   }
 };
 
+/**
+ * Whether a fix can be applied to an anomaly: only some detectors (seasonal) predict the
+ * value a row should have held
+ */
+export const canApplyFix = (anomaly: AnomalyResult, action: AnomalyFixAction): boolean =>
+  action !== 'replaceWithExpected' || anomaly.expectedValue !== undefined;
+
+const roundValue = (value: number): number => Math.round(value * 100) / 100;
+
 // --- Single Anomaly Fix ---
 
 export const fixSingleAnomaly = (
@@ -120,6 +130,23 @@ export const fixSingleAnomaly = (
         description: `Replaced ${column} row ${rowIndex + 1}: ${anomaly.value} → ${median.toFixed(2)} (median)`
       };
     }
+
+    case 'replaceWithExpected': {
+      if (anomaly.expectedValue === undefined) {
+        return { dataset, fixedCount: 0, action, description: `No expected value for ${column} row ${rowIndex + 1}` };
+      }
+      const expected = roundValue(anomaly.expectedValue);
+      const newData = dataset.data.map((row, idx) =>
+        idx === rowIndex ? { ...row, [column]: expected } : row
+      );
+      const result: Dataset = { ...dataset, data: newData, updatedAt: new Date() };
+      return {
+        dataset: updateColumnStats(result, [column]),
+        fixedCount: 1,
+        action,
+        description: `Replaced ${column} row ${rowIndex + 1}: ${anomaly.value} → ${expected.toFixed(2)} (expected)`
+      };
+    }
   }
 };
 
@@ -206,6 +233,22 @@ export const fixAnomaliesInColumn = (
         description: `Replaced ${rowIndices.size} anomalies in ${column} with median (${median.toFixed(2)})`
       };
     }
+
+    case 'replaceWithExpected': {
+      const expected = new Map(anomalies
+        .filter(a => a.expectedValue !== undefined)
+        .map(a => [a.rowIndex, roundValue(a.expectedValue as number)]));
+      const newData = dataset.data.map((row, idx) =>
+        expected.has(idx) ? { ...row, [column]: expected.get(idx) } : row
+      );
+      const result: Dataset = { ...dataset, data: newData, updatedAt: new Date() };
+      return {
+        dataset: updateColumnStats(result, [column]),
+        fixedCount: expected.size,
+        action,
+        description: `Replaced ${expected.size} anomalies in ${column} with their expected values`
+      };
+    }
   }
 };
 
@@ -279,6 +322,14 @@ export const fixAllAnomalies = (
         }
       }
       totalFixed += rowIndices.size;
+    } else if (action === 'replaceWithExpected') {
+      for (const anomaly of colAnomalies) {
+        const idx = anomaly.rowIndex;
+        if (anomaly.expectedValue !== undefined && idx >= 0 && idx < newData.length) {
+          newData[idx][col] = roundValue(anomaly.expectedValue);
+          totalFixed++;
+        }
+      }
     } else if (action === 'replaceWithMedian') {
       const median = computeColumnMedian(dataset.data, col);
       const rounded = Math.round(median * 100) / 100;
@@ -346,5 +397,13 @@ export const getFixDescription = (
         return `The value ${anomaly.value} in "${anomaly.column}" (row ${anomaly.rowIndex + 1}) will be replaced with the column median (${median.toFixed(2)}).`;
       }
       return `${count} anomalous value${count > 1 ? 's' : ''} ${scope === 'column' ? `in "${columnName}"` : 'across all columns'} will be replaced with their respective column medians.`;
+
+    case 'replaceWithExpected': {
+      if (scope === 'single' && anomaly) {
+        return `The value ${anomaly.value} in "${anomaly.column}" (row ${anomaly.rowIndex + 1}) will be replaced with the value its trend and season predict (${anomaly.expectedValue?.toFixed(2)}).`;
+      }
+      const predicted = anomalies?.filter(a => a.expectedValue !== undefined).length ?? 0;
+      return `${predicted} anomalous value${predicted === 1 ? '' : 's'} ${scope === 'column' ? `in "${columnName}"` : 'across all columns'} will be replaced with the values their trend and season predict. Anomalies without a prediction are left as they are.`;
+    }
   }
 };
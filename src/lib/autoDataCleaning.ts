@@ -8,9 +8,12 @@ import {
   fillMissingWithMean,
   fillMissingWithMedian,
   fillMissingWithDefault,
+  fillMissingWithMode,
   trimWhitespace,
   removeOutliers,
-  CleaningResult
+  removeColumns,
+  CleaningResult,
+  CleaningStep
 } from './dataCleaningUtils';
 import { updateDatasetStats } from './dataUtils';
 import { calculateDataQualityScore } from './aiInsightEngine';
@@ -36,14 +39,21 @@ export interface AutoCleaningResult {
     operation: string;
     impact: string;
   }>;
+  steps: CleaningStep[]; // what was done, as a replayable cleaning recipe
 }
 
+// Quality as the quality panel scores it: reference rules look values up in the other
+// loaded datasets, with this (possibly cleaned) copy standing in for its original
+const scoreQuality = (dataset: Dataset, allDatasets: Dataset[]): number =>
+  calculateDataQualityScore(dataset, allDatasets.map(ds => (ds.id === dataset.id ? dataset : ds)));
+
 /**
  * Analyze dataset and create an automated cleaning plan
  */
 export const createCleaningPlan = (
   dataset: Dataset,
-  aiInsights?: AIInsightSummary | null
+  aiInsights?: AIInsightSummary | null,
+  allDatasets: Dataset[] = []
 ): AutoCleaningPlan => {
   const operations: AutoCleaningPlan['operations'] = [];
   let estimatedRowsRemoved = 0;
@@ -154,7 +164,7 @@ export const createCleaningPlan = (
   }
   
   // Calculate estimated quality improvement
-  const currentQuality = calculateDataQualityScore(dataset);
+  const currentQuality = scoreQuality(dataset, allDatasets);
   const totalCells = dataset.rowCount * dataset.columns.length;
   const currentMissing = dataset.columns.reduce((sum, col) => sum + col.nullCount, 0);
   const estimatedMissingAfter = Math.max(0, currentMissing - (estimatedRowsRemoved * dataset.columns.length));
@@ -184,16 +194,24 @@ export const executeAutoCleaningAsync = async (
   dataset: Dataset,
   plan?: AutoCleaningPlan,
   aiInsights?: AIInsightSummary | null,
+  allDatasets: Dataset[] = [],
   onProgress?: (progress: number, message: string) => void
 ): Promise<AutoCleaningResult> => {
-  const qualityBefore = calculateDataQualityScore(dataset);
+  const qualityBefore = scoreQuality(dataset, allDatasets);
   let currentDataset = { ...dataset };
   const operationsPerformed: string[] = [];
   const details: AutoCleaningResult['details'] = [];
+  const steps: CleaningStep[] = [];
   let totalRowsRemoved = 0;
+
+  // Each step joins the recipe, so the run can be undone step by step
+  const record = (step: CleaningStep, result: CleaningResult) => {
+    currentDataset = updateDatasetStats(result.dataset);
+    steps.push(step);
+  };
   
   // Use provided plan or create one
-  const cleaningPlan = plan || createCleaningPlan(dataset, aiInsights);
+  const cleaningPlan = plan || createCleaningPlan(dataset, aiInsights, allDatasets);
   const totalOperations = cleaningPlan.operations.length;
   
   if (totalOperations === 0) {
@@ -203,7 +221,8 @@ export const executeAutoCleaningAsync = async (
       qualityBefore,
       qualityAfter: qualityBefore,
       rowsRemoved: 0,
-      details: []
+      details: [],
+      steps: []
     };
   }
   
@@ -223,7 +242,7 @@ export const executeAutoCleaningAsync = async (
       switch (operation.type) {
         case 'removeDuplicates':
           result = removeDuplicates(currentDataset);
-          currentDataset = result.dataset;
+          record({ op: 'removeDuplicates' }, result);
           operationsPerformed.push('Removed duplicates');
           details.push({
             operation: 'Remove Duplicates',
@@ -234,7 +253,7 @@ export const executeAutoCleaningAsync = async (
           
         case 'removeEmptyRows':
           result = removeMissingRows(currentDataset);
-          currentDataset = result.dataset;
+          record({ op: 'removeMissingRows' }, result);
           operationsPerformed.push('Removed empty rows');
           details.push({
             operation: 'Remove Empty Rows',
@@ -249,7 +268,7 @@ export const executeAutoCleaningAsync = async (
               const col = currentDataset.columns.find(c => c.name === colName);
               if (col && col.type === 'number') {
                 result = fillMissingWithMedian(currentDataset, colName);
-                currentDataset = result.dataset;
+                record({ op: 'fillMissingWithMedian', column: colName }, result);
                 operationsPerformed.push(`Filled missing values in ${colName} with median`);
                 details.push({
                   operation: `Fill Missing: ${colName}`,
@@ -267,7 +286,7 @@ export const executeAutoCleaningAsync = async (
               const col = currentDataset.columns.find(c => c.name === colName);
               if (col && col.type === 'string') {
                 result = fillMissingWithDefault(currentDataset, colName, 'Unknown');
-                currentDataset = result.dataset;
+                record({ op: 'fillMissingWithDefault', column: colName, value: 'Unknown' }, result);
                 operationsPerformed.push(`Filled missing values in ${colName} with "Unknown"`);
                 details.push({
                   operation: `Fill Missing: ${colName}`,
@@ -284,22 +303,12 @@ export const executeAutoCleaningAsync = async (
             for (const colName of operation.columns) {
               const col = currentDataset.columns.find(c => c.name === colName);
               if (col && col.type === 'date') {
-                const dates = currentDataset.data
-                  .map(row => row[colName])
-                  .filter(d => d !== null && d !== undefined && d !== '');
+                const hasDates = currentDataset.data
+                  .some(row => row[colName] !== null && row[colName] !== undefined && row[colName] !== '');
                 
-                if (dates.length > 0) {
-                  const dateCounts: Record<string, number> = {};
-                  dates.forEach(d => {
-                    const dateStr = String(d);
-                    dateCounts[dateStr] = (dateCounts[dateStr] || 0) + 1;
-                  });
-                  
-                  const modeDate = Object.entries(dateCounts)
-                    .sort((a, b) => b[1] - a[1])[0]?.[0] || dates[0];
-                  
-                  result = fillMissingWithDefault(currentDataset, colName, modeDate);
-                  currentDataset = result.dataset;
+                if (hasDates) {
+                  result = fillMissingWithMode(currentDataset, colName);
+                  record({ op: 'fillMissingWithMode', column: colName }, result);
                   operationsPerformed.push(`Filled missing dates in ${colName} with mode value`);
                   details.push({
                     operation: `Fill Missing: ${colName}`,
@@ -318,7 +327,7 @@ export const executeAutoCleaningAsync = async (
               const col = currentDataset.columns.find(c => c.name === colName);
               if (col && col.type === 'boolean') {
                 result = fillMissingWithDefault(currentDataset, colName, false);
-                currentDataset = result.dataset;
+                record({ op: 'fillMissingWithDefault', column: colName, value: false }, result);
                 operationsPerformed.push(`Filled missing booleans in ${colName} with false`);
                 details.push({
                   operation: `Fill Missing: ${colName}`,
@@ -333,7 +342,7 @@ export const executeAutoCleaningAsync = async (
         case 'trimWhitespace':
           if (operation.columns && operation.columns.length > 0) {
             result = trimWhitespace(currentDataset, operation.columns);
-            currentDataset = result.dataset;
+            record({ op: 'trimWhitespace', columns: operation.columns }, result);
             operationsPerformed.push(`Trimmed whitespace from ${operation.columns.length} columns`);
             details.push({
               operation: 'Trim Whitespace',
@@ -344,25 +353,8 @@ export const executeAutoCleaningAsync = async (
           
         case 'removeColumn':
           if (operation.columns && operation.columns.length > 0) {
-            const columnsToKeep = currentDataset.columns.filter(
-              col => !operation.columns!.includes(col.name)
-            );
-            const cleanedData = currentDataset.data.map(row => {
-              const newRow: any = {};
-              columnsToKeep.forEach(col => {
-                newRow[col.name] = row[col.name];
-              });
-              return newRow;
-            });
-            
-            currentDataset = {
-              ...currentDataset,
-              columns: columnsToKeep,
-              data: cleanedData,
-              rowCount: cleanedData.length,
-              dataTypes: Object.fromEntries(columnsToKeep.map(col => [col.name, col.type])),
-              updatedAt: new Date()
-            };
+            result = removeColumns(currentDataset, operation.columns);
+            record({ op: 'removeColumns', columns: operation.columns }, result);
             
             operationsPerformed.push(`Removed ${operation.columns.length} columns with >50% missing data`);
             details.push({
@@ -373,11 +365,7 @@ export const executeAutoCleaningAsync = async (
           break;
       }
       
-      // Update dataset stats after each operation
-      if (result) {
-        currentDataset = updateDatasetStats(currentDataset);
-        await yieldToBrowser();
-      }
+      if (result) await yieldToBrowser();
     } catch (error) {
       console.warn(`Failed to execute operation ${operation.type}:`, error);
       // Continue with next operation
@@ -389,9 +377,7 @@ export const executeAutoCleaningAsync = async (
   }
   await yieldToBrowser();
   
-  // Final stats update
-  currentDataset = updateDatasetStats(currentDataset);
-  const qualityAfter = calculateDataQualityScore(currentDataset);
+  const qualityAfter = scoreQuality(currentDataset, allDatasets);
   
   if (onProgress) {
     onProgress(100, 'Cleaning complete!');
@@ -403,7 +389,8 @@ export const executeAutoCleaningAsync = async (
     qualityBefore,
     qualityAfter,
     rowsRemoved: totalRowsRemoved,
-    details
+    details,
+    steps
   };
 };
 
@@ -413,16 +400,24 @@ export const executeAutoCleaningAsync = async (
 export const executeAutoCleaning = (
   dataset: Dataset,
   plan?: AutoCleaningPlan,
-  aiInsights?: AIInsightSummary | null
+  aiInsights?: AIInsightSummary | null,
+  allDatasets: Dataset[] = []
 ): AutoCleaningResult => {
-  const qualityBefore = calculateDataQualityScore(dataset);
+  const qualityBefore = scoreQuality(dataset, allDatasets);
   let currentDataset = { ...dataset };
   const operationsPerformed: string[] = [];
   const details: AutoCleaningResult['details'] = [];
+  const steps: CleaningStep[] = [];
   let totalRowsRemoved = 0;
+
+  // Each step joins the recipe, so the run can be undone step by step
+  const record = (step: CleaningStep, result: CleaningResult) => {
+    currentDataset = updateDatasetStats(result.dataset);
+    steps.push(step);
+  };
   
   // Use provided plan or create one
-  const cleaningPlan = plan || createCleaningPlan(dataset, aiInsights);
+  const cleaningPlan = plan || createCleaningPlan(dataset, aiInsights, allDatasets);
   
   // Execute operations in priority order
   for (const operation of cleaningPlan.operations) {
@@ -432,7 +427,7 @@ export const executeAutoCleaning = (
       switch (operation.type) {
         case 'removeDuplicates':
           result = removeDuplicates(currentDataset);
-          currentDataset = result.dataset;
+          record({ op: 'removeDuplicates' }, result);
           operationsPerformed.push('Removed duplicates');
           details.push({
             operation: 'Remove Duplicates',
@@ -443,7 +438,7 @@ export const executeAutoCleaning = (
           
         case 'removeEmptyRows':
           result = removeMissingRows(currentDataset);
-          currentDataset = result.dataset;
+          record({ op: 'removeMissingRows' }, result);
           operationsPerformed.push('Removed empty rows');
           details.push({
             operation: 'Remove Empty Rows',
@@ -458,7 +453,7 @@ export const executeAutoCleaning = (
               const col = currentDataset.columns.find(c => c.name === colName);
               if (col && col.type === 'number') {
                 result = fillMissingWithMedian(currentDataset, colName);
-                currentDataset = result.dataset;
+                record({ op: 'fillMissingWithMedian', column: colName }, result);
                 operationsPerformed.push(`Filled missing values in ${colName} with median`);
                 details.push({
                   operation: `Fill Missing: ${colName}`,
@@ -475,7 +470,7 @@ export const executeAutoCleaning = (
               const col = currentDataset.columns.find(c => c.name === colName);
               if (col && col.type === 'string') {
                 result = fillMissingWithDefault(currentDataset, colName, 'Unknown');
-                currentDataset = result.dataset;
+                record({ op: 'fillMissingWithDefault', column: colName, value: 'Unknown' }, result);
                 operationsPerformed.push(`Filled missing values in ${colName} with "Unknown"`);
                 details.push({
                   operation: `Fill Missing: ${colName}`,
@@ -491,22 +486,12 @@ export const executeAutoCleaning = (
             for (const colName of operation.columns) {
               const col = currentDataset.columns.find(c => c.name === colName);
               if (col && col.type === 'date') {
-                const dates = currentDataset.data
-                  .map(row => row[colName])
-                  .filter(d => d !== null && d !== undefined && d !== '');
+                const hasDates = currentDataset.data
+                  .some(row => row[colName] !== null && row[colName] !== undefined && row[colName] !== '');
                 
-                if (dates.length > 0) {
-                  const dateCounts: Record<string, number> = {};
-                  dates.forEach(d => {
-                    const dateStr = String(d);
-                    dateCounts[dateStr] = (dateCounts[dateStr] || 0) + 1;
-                  });
-                  
-                  const modeDate = Object.entries(dateCounts)
-                    .sort((a, b) => b[1] - a[1])[0]?.[0] || dates[0];
-                  
-                  result = fillMissingWithDefault(currentDataset, colName, modeDate);
-                  currentDataset = result.dataset;
+                if (hasDates) {
+                  result = fillMissingWithMode(currentDataset, colName);
+                  record({ op: 'fillMissingWithMode', column: colName }, result);
                   operationsPerformed.push(`Filled missing dates in ${colName} with mode value`);
                   details.push({
                     operation: `Fill Missing: ${colName}`,
@@ -524,7 +509,7 @@ export const executeAutoCleaning = (
               const col = currentDataset.columns.find(c => c.name === colName);
               if (col && col.type === 'boolean') {
                 result = fillMissingWithDefault(currentDataset, colName, false);
-                currentDataset = result.dataset;
+                record({ op: 'fillMissingWithDefault', column: colName, value: false }, result);
                 operationsPerformed.push(`Filled missing booleans in ${colName} with false`);
                 details.push({
                   operation: `Fill Missing: ${colName}`,
@@ -538,7 +523,7 @@ export const executeAutoCleaning = (
         case 'trimWhitespace':
           if (operation.columns && operation.columns.length > 0) {
             result = trimWhitespace(currentDataset, operation.columns);
-            currentDataset = result.dataset;
+            record({ op: 'trimWhitespace', columns: operation.columns }, result);
             operationsPerformed.push(`Trimmed whitespace from ${operation.columns.length} columns`);
             details.push({
               operation: 'Trim Whitespace',
@@ -549,25 +534,8 @@ export const executeAutoCleaning = (
           
         case 'removeColumn':
           if (operation.columns && operation.columns.length > 0) {
-            const columnsToKeep = currentDataset.columns.filter(
-              col => !operation.columns!.includes(col.name)
-            );
-            const cleanedData = currentDataset.data.map(row => {
-              const newRow: any = {};
-              columnsToKeep.forEach(col => {
-                newRow[col.name] = row[col.name];
-              });
-              return newRow;
-            });
-            
-            currentDataset = {
-              ...currentDataset,
-              columns: columnsToKeep,
-              data: cleanedData,
-              rowCount: cleanedData.length,
-              dataTypes: Object.fromEntries(columnsToKeep.map(col => [col.name, col.type])),
-              updatedAt: new Date()
-            };
+            result = removeColumns(currentDataset, operation.columns);
+            record({ op: 'removeColumns', columns: operation.columns }, result);
             
             operationsPerformed.push(`Removed ${operation.columns.length} columns with >50% missing data`);
             details.push({
@@ -578,19 +546,13 @@ export const executeAutoCleaning = (
           break;
       }
       
-      // Update dataset stats after each operation
-      if (result) {
-        currentDataset = updateDatasetStats(currentDataset);
-      }
     } catch (error) {
       console.warn(`Failed to execute operation ${operation.type}:`, error);
       // Continue with next operation
     }
   }
   
-  // Final stats update
-  currentDataset = updateDatasetStats(currentDataset);
-  const qualityAfter = calculateDataQualityScore(currentDataset);
+  const qualityAfter = scoreQuality(currentDataset, allDatasets);
   
   return {
     cleanedDataset: currentDataset,
@@ -598,7 +560,8 @@ export const executeAutoCleaning = (
     qualityBefore,
     qualityAfter,
     rowsRemoved: totalRowsRemoved,
-    details
+    details,
+    steps
   };
 };
 
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeColumn } from './dataUtils';
+import {
+  createCleaningRecipe,
+  describeCleaningStep,
+  parseCleaningRecipe,
+  previewCleaningRecipe,
+  rebuildCleanedDataset,
+  replayCleaningSteps
+} from './cleaningRecipe';
+import { CleaningStep } from './dataCleaningUtils';
+import { Dataset } from './types';
+
+const data = [
+  { name: '  Ama ', city: 'accra', amount: 10 },
+  { name: 'Kofi', city: 'kumasi', amount: null },
+  { name: 'Kofi', city: 'kumasi', amount: null },
+  { name: 'Esi', city: 'tamale', amount: 30 }
+];
+
+const people: Dataset = {
+  id: 'people',
+  name: 'People',
+  description: '',
+  columns: Object.keys(data[0]).map(column => analyzeColumn(column, data.map(row => row[column as keyof typeof row]))),
+  rowCount: data.length,
+  dataTypes: {},
+  data
+};
+
+const steps: CleaningStep[] = [
+  { op: 'removeDuplicates' },
+  { op: 'trimWhitespace', columns: ['name'] },
+  { op: 'standardizeText', column: 'city', caseType: 'titlecase' },
+  { op: 'fillMissingWithDefault', column: 'amount', value: 0 }
+];
+
+describe('replayCleaningSteps', () => {
+  it('applies steps in order and reports each outcome', () => {
+    const { dataset, outcomes } = replayCleaningSteps(people, steps);
+    expect(outcomes.map(outcome => outcome.status)).toEqual(['applied', 'applied', 'applied', 'applied']);
+    expect(outcomes[0].rowsRemoved).toBe(1);
+    expect(dataset.data).toEqual([
+      { name: 'Ama', city: 'Accra', amount: 10 },
+      { name: 'Kofi', city: 'Kumasi', amount: 0 },
+      { name: 'Esi', city: 'Tamale', amount: 30 }
+    ]);
+  });
+
+  it('skips a step whose column is missing and runs the rest', () => {
+    const { dataset, outcomes } = replayCleaningSteps(people, [
+      { op: 'fillMissingWithDefault', column: 'price', value: 0 },
+      { op: 'removeColumns', columns: ['city'] }
+    ]);
+    expect(outcomes[0]).toMatchObject({ status: 'skipped', message: 'Column price not found' });
+    expect(outcomes[1].status).toBe('applied');
+    expect(dataset.columns.map(col => col.name)).toEqual(['name', 'amount']);
+  });
+});
+
+describe('rebuildCleanedDataset', () => {
+  it('recomputes an earlier state from the original and fewer steps', () => {
+    const undone = rebuildCleanedDataset(people, steps.slice(0, 2));
+    expect(undone.data.map(row => row.city)).toEqual(['accra', 'kumasi', 'tamale']);
+    expect(undone.data.map(row => row.name)).toEqual(['Ama', 'Kofi', 'Esi']);
+    expect(rebuildCleanedDataset(people, [])).toBe(people);
+  });
+});
+
+describe('previewCleaningRecipe', () => {
+  it('counts changed, removed and unchanged rows against the original positions', () => {
+    const { diff, dataset } = previewCleaningRecipe(people, steps);
+    expect(diff).toMatchObject({ rowsBefore: 4, rowsAfter: 3, changed: 3, removed: 1, added: 0, unchanged: 0 });
+    expect(diff.samples.removed).toEqual([{ rowIndex: 2, row: data[2] }]);
+    expect(diff.samples.changed[0]).toMatchObject({ rowIndex: 0, columns: ['name', 'city'] });
+    expect(Object.getOwnPropertySymbols(dataset.data[0])).toEqual([]);
+  });
+
+  it('lists removed columns', () => {
+    const { diff } = previewCleaningRecipe(people, [{ op: 'removeColumns', columns: ['amount'] }]);
+    expect(diff.columnsRemoved).toEqual(['amount']);
+    expect(diff.unchanged).toBe(4);
+  });
+});
+
+describe('recipes', () => {
+  it('round-trips through JSON', () => {
+    const recipe = createCleaningRecipe('Tidy people', steps, 'People');
+    const parsed = parseCleaningRecipe(JSON.stringify(recipe));
+    expect(parsed).toEqual(recipe);
+    expect(parsed.steps.map(describeCleaningStep)).toEqual([
+      'Remove duplicate rows',
+      'Trim whitespace in name',
+      'Convert city to Title Case',
+      'Fill missing amount with "0"'
+    ]);
+  });
+
+  it('rejects files that are not recipes or hold unknown steps', () => {
+    const recipe = createCleaningRecipe('Tidy people', steps);
+    expect(() => parseCleaningRecipe('{')).toThrow('Recipe file is not valid JSON');
+    expect(() => parseCleaningRecipe('{"steps": []}')).toThrow('Not a DataAfrik cleaning recipe');
+    expect(() => parseCleaningRecipe(JSON.stringify({ ...recipe, version: 99 }))).toThrow('newer than this app supports');
+    expect(() => parseCleaningRecipe(JSON.stringify({ ...recipe, steps: [{ op: 'shred' }] })))
+      .toThrow('Step 1 has an unknown operation');
+  });
+});
@@ -0,0 +1,460 @@
+// Cleaning Recipe - Ordered, serializable list of cleaning steps
+// Drives undo/redo in the Data Cleaning panel and replays the same cleaning on a new file
+// (e.g. next month's export), with a preview of the rows it would change, remove and add
+
+import { Dataset } from './types';
+import {
+  CleaningResult,
+  CleaningStep,
+  removeDuplicates,
+  removeMissingRows,
+  fillMissingWithDefault,
+  fillMissingWithMean,
+  fillMissingWithMedian,
+  fillMissingWithMode,
+  trimWhitespace,
+  removeOutliers,
+  capOutliersToBounds,
+  standardizeText,
+  removeSpecialCharacters,
+  removeColumns
+} from './dataCleaningUtils';
+import { mergeFuzzyDuplicates } from './fuzzyDuplicates';
+import { imputeMissingValues, IMPUTATION_METHOD_LABELS } from './imputation';
+import { OUTLIER_DETECTORS } from './outlierDetection';
+import { updateDatasetStats } from './dataUtils';
+
+// ============================================================
+// Types
+// ============================================================
+
+export const RECIPE_FORMAT = 'dataafrik-cleaning-recipe';
+export const RECIPE_VERSION = 1;
+
+export interface CleaningRecipe {
+  format: typeof RECIPE_FORMAT;
+  version: number;
+  id: string;
+  name: string;
+  createdAt: string;
+  sourceDataset?: string; // name of the dataset the recipe was recorded on
+  steps: CleaningStep[];
+}
+
+export interface StepOutcome {
+  step: CleaningStep;
+  status: 'applied' | 'skipped' | 'failed';
+  message: string;
+  rowsRemoved: number;
+}
+
+export interface ReplayResult {
+  dataset: Dataset;
+  outcomes: StepOutcome[];
+}
+
+export interface RowChange {
+  rowIndex: number; // position in the dataset before cleaning
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+  columns: string[]; // columns whose value changed
+}
+
+export interface RecipeDiff {
+  rowsBefore: number;
+  rowsAfter: number;
+  changed: number;
+  removed: number;
+  added: number;
+  unchanged: number;
+  columnsRemoved: string[];
+  columnsAdded: string[];
+  samples: {
+    changed: RowChange[];
+    removed: { rowIndex: number; row: Record<string, unknown> }[];
+    added: Record<string, unknown>[];
+  };
+}
+
+export interface RecipePreview extends ReplayResult {
+  diff: RecipeDiff;
+}
+
+const SAVED_RECIPES_KEY = 'dataafrik_cleaning_recipes_v1';
+const MAX_DIFF_SAMPLES = 20;
+
+// ============================================================
+// Steps
+// ============================================================
+
+/**
+ * Columns a step needs to exist in the dataset
+ */
+export const getStepColumns = (step: CleaningStep): string[] => {
+  if (step.op === 'mergeFuzzyDuplicates') return step.match.keyColumns.map(key => key.column);
+  if (step.op === 'imputeMissing') {
+    const { orderBy, groupBy, predictors = [] } = step.options || {};
+    return [step.column, ...predictors, ...[orderBy, groupBy].filter((name): name is string => !!name)];
+  }
+  if (step.op === 'removeOutliers' || step.op === 'capOutliersToBounds') {
+    const { dateColumn, features = [] } = step.options || {};
+    return [...new Set([step.column, ...features, ...(dateColumn ? [dateColumn] : [])])];
+  }
+  if ('column' in step) return [step.column];
+  if ('columns' in step && step.columns) return step.columns;
+  return [];
+};
+
+const CASE_LABELS = { lowercase: 'lowercase', uppercase: 'UPPERCASE', titlecase: 'Title Case' };
+
+/**
+ * Human-readable label of a step
+ */
+export const describeCleaningStep = (step: CleaningStep): string => {
+  switch (step.op) {
+    case 'removeDuplicates':
+      return 'Remove duplicate rows';
+    case 'removeMissingRows':
+      return step.columns ? `Remove rows missing ${step.columns.join(', ')}` : 'Remove rows with missing values';
+    case 'fillMissingWithDefault':
+      return `Fill missing ${step.column} with "${step.value}"`;
+    case 'fillMissingWithMean':
+      return `Fill missing ${step.column} with mean`;
+    case 'fillMissingWithMedian':
+      return `Fill missing ${step.column} with median`;
+    case 'fillMissingWithMode':
+      return `Fill missing ${step.column} with most frequent value`;
+    case 'trimWhitespace':
+      return step.columns ? `Trim whitespace in ${step.columns.join(', ')}` : 'Trim whitespace in text columns';
+    case 'removeOutliers':
+      return `Remove outliers in ${step.column} (${OUTLIER_DETECTORS[step.method ?? 'iqr'].label})`;
+    case 'capOutliersToBounds':
+      return step.bounds
+        ? `Cap ${step.column} to ${step.bounds.min} - ${step.bounds.max}`
+        : `Cap outliers in ${step.column} (${OUTLIER_DETECTORS[step.method ?? 'iqr'].label})`;
+    case 'standardizeText':
+      return `Convert ${step.column} to ${CASE_LABELS[step.caseType]}`;
+    case 'removeSpecialCharacters':
+      return `Remove special characters from ${step.column}`;
+    case 'removeColumns':
+      return `Remove column${step.columns.length === 1 ? '' : 's'} ${step.columns.join(', ')}`;
+    case 'mergeFuzzyDuplicates':
+      return `Merge fuzzy duplicates on ${step.match.keyColumns.map(key => key.column).join(', ')} ` +
+        `(${Math.round(step.match.threshold * 100)}% similar)`;
+    case 'imputeMissing':
+      return `Impute missing ${step.column} (${IMPUTATION_METHOD_LABELS[step.method]}` +
+        `${step.options?.orderBy ? ` by ${step.options.orderBy}` : ''})`;
+  }
+};
+
+const runStep = (dataset: Dataset, step: CleaningStep): CleaningResult => {
+  switch (step.op) {
+    case 'removeDuplicates':
+      return removeDuplicates(dataset);
+    case 'removeMissingRows':
+      return removeMissingRows(dataset, step.columns);
+    case 'fillMissingWithDefault':
+      return fillMissingWithDefault(dataset, step.column, step.value);
+    case 'fillMissingWithMean':
+      return fillMissingWithMean(dataset, step.column);
+    case 'fillMissingWithMedian':
+      return fillMissingWithMedian(dataset, step.column);
+    case 'fillMissingWithMode':
+      return fillMissingWithMode(dataset, step.column);
+    case 'trimWhitespace':
+      return trimWhitespace(dataset, step.columns);
+    case 'removeOutliers':
+      return removeOutliers(dataset, step.column, step.method, step.options);
+    case 'capOutliersToBounds':
+      return capOutliersToBounds(dataset, step.column, step.bounds, step.method, step.options);
+    case 'standardizeText':
+      return standardizeText(dataset, step.column, step.caseType);
+    case 'removeSpecialCharacters':
+      return removeSpecialCharacters(dataset, step.column, step.pattern);
+    case 'removeColumns':
+      return removeColumns(dataset, step.columns);
+    case 'mergeFuzzyDuplicates':
+      return mergeFuzzyDuplicates(dataset, step);
+    case 'imputeMissing':
+      return imputeMissingValues(dataset, step.column, step.method, step.options);
+  }
+};
+
+/**
+ * Apply one step. Column statistics are refreshed afterwards so the next step sees
+ * accurate types and null counts.
+ */
+export const applyCleaningStep = (dataset: Dataset, step: CleaningStep): CleaningResult => {
+  const result = runStep(dataset, step);
+  return { ...result, dataset: updateDatasetStats(result.dataset), steps: [step] };
+};
+
+// ============================================================
+// Replay
+// ============================================================
+
+/**
+ * Rebuild the dataset after the given steps from the dataset before them. Undo keeps only
+ * the steps, so earlier states are recomputed rather than stored.
+ */
+export const rebuildCleanedDataset = (original: Dataset, steps: CleaningStep[]): Dataset =>
+  steps.reduce((current, step) => applyCleaningStep(current, step).dataset, original);
+
+/**
+ * Run steps in order. A step whose columns are missing from this dataset is skipped and a
+ * step that fails is reported; the remaining steps still run.
+ */
+export const replayCleaningSteps = (dataset: Dataset, steps: CleaningStep[]): ReplayResult => {
+  let current = dataset;
+  const outcomes = steps.map((step): StepOutcome => {
+    const missing = getStepColumns(step).filter(name => !current.columns.some(col => col.name === name));
+    if (missing.length > 0) {
+      return { step, status: 'skipped', message: `Column ${missing.join(', ')} not found`, rowsRemoved: 0 };
+    }
+    try {
+      const result = applyCleaningStep(current, step);
+      current = result.dataset;
+      return { step, status: 'applied', message: result.operationsPerformed.join(', '), rowsRemoved: result.rowsRemoved };
+    } catch (error) {
+      return { step, status: 'failed', message: error instanceof Error ? error.message : String(error), rowsRemoved: 0 };
+    }
+  });
+  return { dataset: current, outcomes };
+};
+
+// Tags each row with its position before cleaning. Steps copy rows with object spread,
+// which carries symbol keys along, so every cleaned row still knows where it came from.
+const ROW_ORIGIN = Symbol('rowOrigin');
+
+type TaggedRow = Record<string, unknown> & { [ROW_ORIGIN]?: number };
+
+const sameValue = (a: unknown, b: unknown) =>
+  a === b || (typeof a === 'number' && typeof b === 'number' && isNaN(a) && isNaN(b));
+
+/**
+ * Replay a recipe on a copy of the dataset and compare the outcome row by row
+ */
+export const previewCleaningRecipe = (dataset: Dataset, steps: CleaningStep[]): RecipePreview => {
+  const tagged = dataset.data.map((row, index): TaggedRow => ({ ...row, [ROW_ORIGIN]: index }));
+  const replay = replayCleaningSteps({ ...dataset, data: tagged }, steps);
+  const after = replay.dataset;
+
+  const columnsBefore = dataset.columns.map(col => col.name);
+  const columnsAfter = after.columns.map(col => col.name);
+  const shared = columnsBefore.filter(name => columnsAfter.includes(name));
+
+  const diff: RecipeDiff = {
+    rowsBefore: dataset.data.length,
+    rowsAfter: after.data.length,
+    changed: 0,
+    removed: 0,
+    added: 0,
+    unchanged: 0,
+    columnsRemoved: columnsBefore.filter(name => !columnsAfter.includes(name)),
+    columnsAdded: columnsAfter.filter(name => !columnsBefore.includes(name)),
+    samples: { changed: [], removed: [], added: [] }
+  };
+
+  const kept = new Set<number>();
+  (after.data as TaggedRow[]).forEach(row => {
+    const origin = row[ROW_ORIGIN];
+    // Rows without an origin (or a second row from the same origin) are new
+    if (origin === undefined || kept.has(origin)) {
+      diff.added++;
+      if (diff.samples.added.length < MAX_DIFF_SAMPLES) diff.samples.added.push({ ...row });
+      return;
+    }
+    kept.add(origin);
+    const before = dataset.data[origin];
+    const columns = shared.filter(name => !sameValue(before[name], row[name]));
+    if (columns.length === 0) {
+      diff.unchanged++;
+      return;
+    }
+    diff.changed++;
+    if (diff.samples.changed.length < MAX_DIFF_SAMPLES) {
+      diff.samples.changed.push({ rowIndex: origin, before, after: { ...row }, columns });
+    }
+  });
+
+  dataset.data.forEach((row, index) => {
+    if (kept.has(index)) return;
+    diff.removed++;
+    if (diff.samples.removed.length < MAX_DIFF_SAMPLES) diff.samples.removed.push({ rowIndex: index, row });
+  });
+
+  // The origin tags were only for the comparison
+  const data = (after.data as TaggedRow[]).map(row => {
+    const { [ROW_ORIGIN]: _origin, ...rest } = row;
+    return rest;
+  });
+  return { dataset: { ...after, data }, outcomes: replay.outcomes, diff };
+};
+
+// ============================================================
+// Recipes
+// ============================================================
+
+export const createCleaningRecipe = (name: string, steps: CleaningStep[], sourceDataset?: string): CleaningRecipe => ({
+  format: RECIPE_FORMAT,
+  version: RECIPE_VERSION,
+  id: `recipe-${Date.now()}`,
+  name,
+  createdAt: new Date().toISOString(),
+  ...(sourceDataset ? { sourceDataset } : {}),
+  steps
+});
+
+const KNOWN_OPS = new Set<CleaningStep['op']>([
+  'removeDuplicates', 'removeMissingRows', 'fillMissingWithDefault', 'fillMissingWithMean',
+  'fillMissingWithMedian', 'fillMissingWithMode', 'trimWhitespace', 'removeOutliers',
+  'capOutliersToBounds', 'standardizeText', 'removeSpecialCharacters', 'removeColumns',
+  'mergeFuzzyDuplicates', 'imputeMissing'
+]);
+
+const SURVIVOR_RULES = ['first', 'last', 'mostComplete'];
+
+const isName = (value: unknown): value is string => typeof value === 'string' && value !== '';
+const isNameList = (value: unknown): boolean => Array.isArray(value) && value.every(isName);
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+const isOptional = (value: unknown, check: (value: unknown) => boolean): boolean => value === undefined || check(value);
+const isKeyOf = (value: unknown, options: object): boolean =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(options, value);
+
+/**
+ * What is wrong with a step's parameters, or null when they are usable
+ */
+const stepProblem = (step: Record<string, unknown>): string | null => {
+  const needsColumn = ![
+    'removeDuplicates', 'removeMissingRows', 'trimWhitespace', 'removeColumns', 'mergeFuzzyDuplicates'
+  ].includes(step.op as string);
+  if (needsColumn && !isName(step.column)) return 'has no column';
+
+  switch (step.op as CleaningStep['op']) {
+    case 'removeMissingRows':
+    case 'trimWhitespace':
+      return isOptional(step.columns, isNameList) ? null : 'has invalid column names';
+    case 'removeColumns':
+      return isNameList(step.columns) ? null : 'has no list of columns';
+    case 'fillMissingWithDefault':
+      return ['string', 'number', 'boolean'].includes(typeof step.value) ? null : 'has no fill value';
+    case 'removeOutliers':
+    case 'capOutliersToBounds': {
+      if (!isOptional(step.method, method => isKeyOf(method, OUTLIER_DETECTORS))) return 'has an unknown outlier method';
+      const bounds = step.bounds;
+      if (bounds !== undefined && !(isObject(bounds) && Number.isFinite(bounds.min) && Number.isFinite(bounds.max))) {
+        return 'has invalid bounds';
+      }
+      const options = step.options;
+      if (options === undefined) return null;
+      return isObject(options) && isOptional(options.features, isNameList) && isOptional(options.dateColumn, isName)
+        ? null
+        : 'has invalid outlier options';
+    }
+    case 'standardizeText':
+      return isKeyOf(step.caseType, CASE_LABELS) ? null : 'has an unknown case type';
+    case 'removeSpecialCharacters':
+      return isOptional(step.pattern, pattern => typeof pattern === 'string') ? null : 'has an invalid pattern';
+    case 'mergeFuzzyDuplicates': {
+      const match = step.match;
+      if (!isObject(match) || !Array.isArray(match.keyColumns) || match.keyColumns.length === 0) {
+        return 'has no match settings';
+      }
+      if (!match.keyColumns.every(key => isObject(key) && isName(key.column)) || typeof match.threshold !== 'number') {
+        return 'has invalid match settings';
+      }
+      if (!SURVIVOR_RULES.includes(step.survivorRule as string)) return 'has an unknown survivor rule';
+      return null;
+    }
+    case 'imputeMissing': {
+      if (!isKeyOf(step.method, IMPUTATION_METHOD_LABELS)) return 'has an unknown imputation method';
+      const options = step.options;
+      if (options === undefined) return null;
+      return isObject(options) &&
+        isOptional(options.orderBy, isName) &&
+        isOptional(options.groupBy, isName) &&
+        isOptional(options.predictors, isNameList)
+        ? null
+        : 'has invalid imputation options';
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Read a recipe from JSON text, checking its format and every step
+ */
+export const parseCleaningRecipe = (text: string): CleaningRecipe => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error('Recipe file is not valid JSON');
+  }
+  const recipe = value as Partial<CleaningRecipe> | null;
+  if (!recipe || recipe.format !== RECIPE_FORMAT || !Array.isArray(recipe.steps)) {
+    throw new Error('Not a DataAfrik cleaning recipe');
+  }
+  if (typeof recipe.version !== 'number' || recipe.version > RECIPE_VERSION) {
+    throw new Error(`Recipe version ${recipe.version} is newer than this app supports (${RECIPE_VERSION})`);
+  }
+  recipe.steps.forEach((step, index) => {
+    if (!isObject(step) || !KNOWN_OPS.has(step.op)) {
+      throw new Error(`Step ${index + 1} has an unknown operation`);
+    }
+    const problem = stepProblem(step);
+    if (problem) throw new Error(`Step ${index + 1} ${problem}`);
+    if (getStepColumns(step).some(name => typeof name !== 'string')) {
+      throw new Error(`Step ${index + 1} has invalid column names`);
+    }
+  });
+  return {
+    format: RECIPE_FORMAT,
+    version: recipe.version,
+    id: recipe.id || `recipe-${Date.now()}`,
+    name: recipe.name || 'Imported recipe',
+    createdAt: recipe.createdAt || new Date().toISOString(),
+    ...(recipe.sourceDataset ? { sourceDataset: recipe.sourceDataset } : {}),
+    steps: recipe.steps
+  };
+};
+
+/**
+ * Trigger a browser download of a recipe as JSON
+ */
+export const downloadCleaningRecipe = (recipe: CleaningRecipe) => {
+  const blob = new Blob([JSON.stringify(recipe, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${recipe.name.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'cleaning-recipe'}.recipe.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Recipes saved in this browser, newest first
+ */
+export const listSavedRecipes = (): CleaningRecipe[] => {
+  try {
+    const raw = localStorage.getItem(SAVED_RECIPES_KEY);
+    const recipes = raw ? JSON.parse(raw) : [];
+    return Array.isArray(recipes) ? recipes : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveRecipe = (recipe: CleaningRecipe): CleaningRecipe[] => {
+  const recipes = [recipe, ...listSavedRecipes().filter(r => r.id !== recipe.id)];
+  localStorage.setItem(SAVED_RECIPES_KEY, JSON.stringify(recipes));
+  return recipes;
+};
+
+export const deleteSavedRecipe = (id: string): CleaningRecipe[] => {
+  const recipes = listSavedRecipes().filter(r => r.id !== id);
+  localStorage.setItem(SAVED_RECIPES_KEY, JSON.stringify(recipes));
+  return recipes;
+};
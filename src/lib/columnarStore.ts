@@ -0,0 +1,242 @@
+// Columnar Store - Optional column-by-column backing store for dataset rows
+// Numeric columns become Float64Arrays with a missing mask, text columns are dictionary-encoded.
+// Columns are built lazily from the row objects and cached per rows array, so existing
+// row-based code keeps working unchanged while hot paths read whole columns directly.
+
+// ============================================================
+// Types
+// ============================================================
+
+type RowObject = Record<string, unknown>;
+
+/**
+ * A column read as numbers. values[i] is Number(raw) - the same coercion row-based code
+ * applies - and missing[i] is 1 where the raw value is null, undefined or ''
+ */
+export interface NumberColumn {
+  kind: 'number';
+  name: string;
+  length: number;
+  values: Float64Array;
+  missing: Uint8Array;
+  missingCount: number;
+}
+
+/**
+ * A column stored as codes into its distinct raw values (in first-seen order).
+ * Missing values (null, undefined, '') are dictionary entries like any other.
+ */
+export interface DictionaryColumn {
+  kind: 'dictionary';
+  name: string;
+  length: number;
+  codes: Uint32Array;
+  dictionary: unknown[];
+  counts: Uint32Array; // occurrences of each dictionary entry
+}
+
+export interface ColumnarTable {
+  rowCount: number;
+  numberColumns: Map<string, NumberColumn>;
+  dictionaryColumns: Map<string, DictionaryColumn>;
+}
+
+// Built tables, keyed by the rows array they were read from. Rows are never edited in
+// place (edits produce a new array), so a cached table can't go stale.
+const tables = new WeakMap<RowObject[], ColumnarTable>();
+
+// ============================================================
+// Building columns
+// ============================================================
+
+export const isMissingValue = (value: unknown): boolean =>
+  value === null || value === undefined || value === '';
+
+const getTable = (rows: RowObject[]): ColumnarTable => {
+  let table = tables.get(rows);
+  if (!table) {
+    table = { rowCount: rows.length, numberColumns: new Map(), dictionaryColumns: new Map() };
+    tables.set(rows, table);
+  }
+  return table;
+};
+
+/**
+ * Read a column as numbers (built once per rows array, then served from cache)
+ */
+export const getNumberColumn = (rows: RowObject[], name: string): NumberColumn => {
+  const table = getTable(rows);
+  const cached = table.numberColumns.get(name);
+  if (cached) return cached;
+
+  const length = rows.length;
+  const values = new Float64Array(length);
+  const missing = new Uint8Array(length);
+  let missingCount = 0;
+  for (let i = 0; i < length; i++) {
+    const raw = rows[i][name];
+    values[i] = Number(raw);
+    if (isMissingValue(raw)) {
+      missing[i] = 1;
+      missingCount++;
+    }
+  }
+
+  const column: NumberColumn = { kind: 'number', name, length, values, missing, missingCount };
+  table.numberColumns.set(name, column);
+  return column;
+};
+
+/**
+ * Read a column dictionary-encoded (built once per rows array, then served from cache)
+ */
+export const getDictionaryColumn = (rows: RowObject[], name: string): DictionaryColumn => {
+  const table = getTable(rows);
+  const cached = table.dictionaryColumns.get(name);
+  if (cached) return cached;
+
+  const length = rows.length;
+  const codes = new Uint32Array(length);
+  const dictionary: unknown[] = [];
+  const lookup = new Map<unknown, number>();
+  const counts: number[] = [];
+  for (let i = 0; i < length; i++) {
+    const raw = rows[i][name];
+    let code = lookup.get(raw);
+    if (code === undefined) {
+      code = dictionary.length;
+      lookup.set(raw, code);
+      dictionary.push(raw);
+      counts.push(0);
+    }
+    codes[i] = code;
+    counts[code]++;
+  }
+
+  const column: DictionaryColumn = {
+    kind: 'dictionary', name, length, codes, dictionary, counts: Uint32Array.from(counts)
+  };
+  table.dictionaryColumns.set(name, column);
+  return column;
+};
+
+// ============================================================
+// Column accessors
+// ============================================================
+
+/**
+ * Non-missing values of a column that are valid numbers, in row order
+ */
+export const getNumericValues = (rows: RowObject[], name: string): Float64Array => {
+  const { values, missing, length } = getNumberColumn(rows, name);
+  const result = new Float64Array(length);
+  let size = 0;
+  for (let i = 0; i < length; i++) {
+    if (!missing[i] && !isNaN(values[i])) result[size++] = values[i];
+  }
+  return result.slice(0, size);
+};
+
+/**
+ * Decode a dictionary column back to its raw values
+ */
+export const decodeDictionaryColumn = (column: DictionaryColumn): unknown[] => {
+  const values = new Array(column.length);
+  for (let i = 0; i < column.length; i++) values[i] = column.dictionary[column.codes[i]];
+  return values;
+};
+
+/**
+ * Occurrences of each non-missing value, keyed by its text form (so 1 and '1' count
+ * together), in first-seen order
+ */
+export const getValueFrequencies = (rows: RowObject[], name: string): Map<string, number> => {
+  const { dictionary, counts } = getDictionaryColumn(rows, name);
+  const frequencies = new Map<string, number>();
+  dictionary.forEach((value, code) => {
+    if (isMissingValue(value)) return;
+    const key = String(value);
+    frequencies.set(key, (frequencies.get(key) || 0) + counts[code]);
+  });
+  return frequencies;
+};
+
+/**
+ * Adapter back to the row representation: rebuild row objects from a set of columns
+ */
+export const columnsToRows = (columns: (NumberColumn | DictionaryColumn)[]): RowObject[] => {
+  const length = columns.length > 0 ? columns[0].length : 0;
+  const rows: RowObject[] = new Array(length);
+  for (let i = 0; i < length; i++) rows[i] = {};
+  columns.forEach(column => {
+    for (let i = 0; i < length; i++) {
+      rows[i][column.name] = column.kind === 'number'
+        ? (column.missing[i] ? null : column.values[i])
+        : column.dictionary[column.codes[i]];
+    }
+  });
+  return rows;
+};
+
+// ============================================================
+// Memory measurement
+// ============================================================
+
+// Approximate JS engine costs of the row-object representation
+const ROW_OBJECT_BYTES = 24;
+const PROPERTY_SLOT_BYTES = 8;
+const HEAP_NUMBER_BYTES = 16; // non-integer numbers are boxed
+const STRING_HEADER_BYTES = 16;
+const MEASURE_SAMPLE_ROWS = 5000;
+
+const measureValue = (value: unknown): number => {
+  if (typeof value === 'string') {
+    // Strings outside Latin-1 are stored two bytes per character
+    return STRING_HEADER_BYTES + value.length * (/[\u0100-\uffff]/.test(value) ? 2 : 1);
+  }
+  if (typeof value === 'number') return Number.isInteger(value) ? 0 : HEAP_NUMBER_BYTES;
+  if (value instanceof Date) return ROW_OBJECT_BYTES + HEAP_NUMBER_BYTES;
+  if (value !== null && typeof value === 'object') return ROW_OBJECT_BYTES + JSON.stringify(value).length;
+  return 0;
+};
+
+const rowBytes = new WeakMap<RowObject[], number>();
+
+/**
+ * Bytes held by the rows as plain objects, measured from their actual values
+ * (large arrays are measured on an evenly spaced sample and scaled up)
+ */
+export const measureRowBytes = (rows: RowObject[]): number => {
+  const cached = rowBytes.get(rows);
+  if (cached !== undefined) return cached;
+
+  const step = Math.max(1, Math.floor(rows.length / MEASURE_SAMPLE_ROWS));
+  let sampled = 0;
+  let bytes = 0;
+  for (let i = 0; i < rows.length; i += step) {
+    const row = rows[i];
+    bytes += ROW_OBJECT_BYTES + PROPERTY_SLOT_BYTES;
+    for (const key in row) bytes += PROPERTY_SLOT_BYTES + measureValue(row[key]);
+    sampled++;
+  }
+  const total = sampled === 0 ? 0 : Math.round((bytes / sampled) * rows.length);
+  rowBytes.set(rows, total);
+  return total;
+};
+
+/**
+ * Bytes held by the columns built so far for these rows
+ */
+export const measureColumnarBytes = (rows: RowObject[]): number => {
+  const table = tables.get(rows);
+  if (!table) return 0;
+  let bytes = 0;
+  table.numberColumns.forEach(column => {
+    bytes += column.values.byteLength + column.missing.byteLength;
+  });
+  table.dictionaryColumns.forEach(column => {
+    bytes += column.codes.byteLength + column.counts.byteLength;
+    column.dictionary.forEach(value => { bytes += PROPERTY_SLOT_BYTES + measureValue(value); });
+  });
+  return bytes;
+};
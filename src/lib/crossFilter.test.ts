@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeColumn } from './dataUtils';
+import {
+  applyModelFilters,
+  getFilterEdges,
+  getFilteringTables,
+  getSlicerValues,
+  propagateFilters,
+  slicersToFilters
+} from './crossFilter';
+import { Dataset, Relationship } from './types';
+
+const table = (id: string, data: Record<string, unknown>[]): Dataset => ({
+  id,
+  name: id,
+  description: '',
+  columns: Object.keys(data[0]).map(column => analyzeColumn(column, data.map(row => row[column]))),
+  rowCount: data.length,
+  dataTypes: {},
+  data
+});
+
+const categories = table('categories', [
+  { category_id: 'c1', department: 'Hardware' },
+  { category_id: 'c2', department: 'Leisure' }
+]);
+
+const products = table('products', [
+  { product_id: 'p1', category_id: 'c1' },
+  { product_id: 'p2', category_id: 'c1' },
+  { product_id: 'p3', category_id: 'c2' }
+]);
+
+const sales = table('sales', [
+  { product_id: 'p1', amount: 10 },
+  { product_id: 'p1', amount: 15 },
+  { product_id: 'p2', amount: 20 },
+  { product_id: 'p3', amount: 30 }
+]);
+
+const relationship = (id: string, from: string, to: string, column: string, extra: Partial<Relationship> = {}): Relationship => ({
+  id,
+  fromDataset: from,
+  toDataset: to,
+  fromColumn: column,
+  toColumn: column,
+  type: 'one-to-many',
+  confidence: 1,
+  ...extra
+});
+
+const datasets = [categories, products, sales];
+const relationships = [
+  relationship('sales-products', 'sales', 'products', 'product_id'),
+  relationship('products-categories', 'products', 'categories', 'category_id')
+];
+
+describe('getFilterEdges', () => {
+  it('points single-direction edges from the unique side to the many side', () => {
+    const edges = getFilterEdges(datasets, relationships);
+    expect(edges.map(edge => [edge.source, edge.target])).toEqual([
+      ['products', 'sales'],
+      ['categories', 'products']
+    ]);
+    expect(getFilteringTables('sales', edges).sort()).toEqual(['categories', 'products']);
+    expect(getFilteringTables('categories', edges)).toEqual([]);
+  });
+
+  it('adds the reverse edge for a bidirectional relationship', () => {
+    const both = [relationship('sales-products', 'sales', 'products', 'product_id', { crossFilterDirection: 'both' })];
+    expect(getFilterEdges(datasets, both).map(edge => [edge.source, edge.target])).toEqual([
+      ['products', 'sales'],
+      ['sales', 'products']
+    ]);
+  });
+});
+
+describe('propagateFilters', () => {
+  it('carries a dimension filter down a snowflake chain', () => {
+    const edges = getFilterEdges(datasets, relationships);
+    const { rows, filteredBy } = propagateFilters(datasets, edges, {
+      categories: [{ column: 'department', operator: '=', value: 'Hardware' }]
+    });
+    expect(rows.get('products')!.map(row => row.product_id)).toEqual(['p1', 'p2']);
+    expect(rows.get('sales')!.map(row => row.amount)).toEqual([10, 15, 20]);
+    expect(filteredBy.sales.sort()).toEqual(['categories']);
+  });
+
+  it('does not filter the one side from the many side unless the relationship goes both ways', () => {
+    const filters = { sales: [{ column: 'amount', operator: '>=' as const, value: 30 }] };
+    const single = propagateFilters(datasets, getFilterEdges(datasets, relationships), filters);
+    expect(single.rows.has('products')).toBe(false);
+
+    const both = relationships.map(rel => ({ ...rel, crossFilterDirection: 'both' as const }));
+    const twoWay = propagateFilters(datasets, getFilterEdges(datasets, both), filters);
+    expect(twoWay.rows.get('products')!.map(row => row.product_id)).toEqual(['p3']);
+    expect(twoWay.rows.get('categories')!.map(row => row.category_id)).toEqual(['c2']);
+  });
+});
+
+describe('applyModelFilters', () => {
+  it('returns the datasets untouched without filters', () => {
+    expect(applyModelFilters(datasets, relationships, {})).toBe(datasets);
+  });
+
+  it('narrows related tables from slicer selections', () => {
+    const filters = slicersToFilters([
+      { id: 's1', datasetId: 'categories', column: 'department', values: ['Leisure'] },
+      { id: 's2', datasetId: 'products', column: 'product_id', values: [] }
+    ]);
+    expect(filters).toEqual({ categories: [{ column: 'department', operator: 'IN', value: ['Leisure'] }] });
+    const filtered = applyModelFilters(datasets, relationships, filters);
+    expect(filtered.find(ds => ds.id === 'sales')).toMatchObject({ rowCount: 1, data: [{ product_id: 'p3', amount: 30 }] });
+  });
+});
+
+describe('getSlicerValues', () => {
+  it('sorts every distinct value before cutting the list', () => {
+    const many = table('many', Array.from({ length: 250 }, (_, i) => ({ code: `item ${250 - i}` })));
+    const { values, distinctCount } = getSlicerValues(many, 'code');
+    expect(distinctCount).toBe(250);
+    expect(values).toHaveLength(200);
+    expect(values.slice(0, 3)).toEqual(['item 1', 'item 2', 'item 3']);
+    expect(values[199]).toBe('item 200');
+  });
+
+  it('leaves out blank cells', () => {
+    const blanks = table('blanks', [{ region: 'West' }, { region: '' }, { region: null }, { region: 'East' }]);
+    expect(getSlicerValues(blanks, 'region')).toEqual({ values: ['East', 'West'], distinctCount: 2 });
+  });
+});
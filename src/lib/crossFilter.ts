@@ -0,0 +1,250 @@
+// Cross Filter - Model-driven filtering through the relationship graph
+// Slicer selections on one table (typically a dimension) restrict the rows of related tables
+// along each relationship's cross-filter direction, so fact tables follow dimension filters
+
+import { Dataset, DAXFilterContext, Relationship, TableClassification } from './types';
+import { applyFilterContext } from './kpiFormulaEngine';
+import { buildKeyValue, classifyTable, getRelationshipColumns, isUniqueKey } from './smartDataConnector';
+
+type RowObject = Record<string, unknown>;
+
+// ============================================================
+// Types
+// ============================================================
+
+/** Filter context for the whole model, keyed by dataset id */
+export type ModelFilters = Record<string, DAXFilterContext[]>;
+
+/** A slicer: selected values of one column (no values = no filter) */
+export interface Slicer {
+  id: string;
+  datasetId: string;
+  column: string;
+  values: string[];
+}
+
+/** A directed edge filters flow along: rows of `target` must match a key of `source` */
+export interface FilterEdge {
+  relationshipId: string;
+  source: string;
+  target: string;
+  sourceColumns: string[];
+  targetColumns: string[];
+}
+
+export interface CrossFilterResult {
+  // Rows left in each restricted dataset; datasets missing here are unfiltered
+  rows: Map<string, RowObject[]>;
+  // Tables with direct filters that reached each restricted dataset
+  filteredBy: Record<string, string[]>;
+}
+
+export interface SlicerCandidate {
+  datasetId: string;
+  datasetName: string;
+  column: string;
+  role: TableClassification['role'];
+  distinctValues: number;
+}
+
+/** The values a slicer offers: the first MAX_SLICER_VALUES in sort order */
+export interface SlicerValues {
+  values: string[];
+  distinctCount: number; // all distinct values, so a cut list can say so
+}
+
+const MAX_SLICER_VALUES = 200;
+
+// ============================================================
+// Filter graph
+// ============================================================
+
+/**
+ * Directed filter edges for a set of relationships. Single-direction relationships filter
+ * from the "one" side to the "many" side; the one side is the `to` table unless the data
+ * shows the keys are unique on the `from` side only. Bidirectional ones filter both ways.
+ */
+export const getFilterEdges = (datasets: Dataset[], relationships: Relationship[]): FilterEdge[] => {
+  const edges: FilterEdge[] = [];
+
+  for (const rel of relationships) {
+    const from = datasets.find(ds => ds.id === rel.fromDataset);
+    const to = datasets.find(ds => ds.id === rel.toDataset);
+    if (!from || !to) continue;
+
+    const { fromColumns, toColumns } = getRelationshipColumns(rel);
+    const oneSideIsFrom = rel.type === 'one-to-many' &&
+      isUniqueKey(from, fromColumns) && !isUniqueKey(to, toColumns);
+    const forward: FilterEdge = oneSideIsFrom
+      ? { relationshipId: rel.id, source: from.id, target: to.id, sourceColumns: fromColumns, targetColumns: toColumns }
+      : { relationshipId: rel.id, source: to.id, target: from.id, sourceColumns: toColumns, targetColumns: fromColumns };
+
+    edges.push(forward);
+    if (rel.crossFilterDirection === 'both') {
+      edges.push({
+        relationshipId: rel.id,
+        source: forward.target,
+        target: forward.source,
+        sourceColumns: forward.targetColumns,
+        targetColumns: forward.sourceColumns
+      });
+    }
+  }
+
+  return edges;
+};
+
+/**
+ * Tables whose filters can reach `datasetId` (directly or through other tables)
+ */
+export const getFilteringTables = (datasetId: string, edges: FilterEdge[]): string[] => {
+  const reached = new Set<string>([datasetId]);
+  const queue = [datasetId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of edges) {
+      if (edge.target === current && !reached.has(edge.source)) {
+        reached.add(edge.source);
+        queue.push(edge.source);
+      }
+    }
+  }
+  reached.delete(datasetId);
+  return Array.from(reached);
+};
+
+// ============================================================
+// Propagation
+// ============================================================
+
+/**
+ * Apply each table's own filters, then propagate them along the filter edges until no
+ * table changes (snowflake chains and bidirectional cycles settle after a few passes)
+ */
+export const propagateFilters = (
+  datasets: Dataset[],
+  edges: FilterEdge[],
+  filters: ModelFilters
+): CrossFilterResult => {
+  const rows = new Map<string, RowObject[]>();
+  const filteredBy = new Map<string, Set<string>>();
+
+  for (const dataset of datasets) {
+    const own = filters[dataset.id];
+    if (own && own.length > 0) {
+      rows.set(dataset.id, applyFilterContext(dataset.data, own));
+      filteredBy.set(dataset.id, new Set([dataset.id]));
+    }
+  }
+
+  const byId = new Map(datasets.map(ds => [ds.id, ds]));
+  let changed = rows.size > 0;
+  while (changed) {
+    changed = false;
+    for (const edge of edges) {
+      const sourceRows = rows.get(edge.source);
+      const target = byId.get(edge.target);
+      if (!sourceRows || !target) continue;
+
+      const allowed = new Set(sourceRows.map(row => buildKeyValue(row, edge.sourceColumns)));
+      const current = rows.get(edge.target) ?? target.data;
+      const next = current.filter(row => allowed.has(buildKeyValue(row, edge.targetColumns)));
+      if (next.length < current.length) {
+        rows.set(edge.target, next);
+        changed = true;
+      }
+
+      // Record which filtered tables reach the target, even when no row was removed this pass
+      if (rows.has(edge.target)) {
+        const reached = filteredBy.get(edge.target) ?? new Set<string>();
+        const before = reached.size;
+        filteredBy.get(edge.source)?.forEach(id => reached.add(id));
+        filteredBy.set(edge.target, reached);
+        if (reached.size > before) changed = true;
+      }
+    }
+  }
+
+  return {
+    rows,
+    filteredBy: Object.fromEntries(Array.from(filteredBy, ([id, sources]) => [id, Array.from(sources)]))
+  };
+};
+
+/**
+ * Filter every dataset under the model filters, returning the original object when untouched
+ */
+export const applyModelFilters = (
+  datasets: Dataset[],
+  relationships: Relationship[],
+  filters: ModelFilters
+): Dataset[] => {
+  if (!Object.values(filters).some(f => f.length > 0)) return datasets;
+  const { rows } = propagateFilters(datasets, getFilterEdges(datasets, relationships), filters);
+  return datasets.map(ds => {
+    const filtered = rows.get(ds.id);
+    return filtered ? { ...ds, data: filtered, rowCount: filtered.length } : ds;
+  });
+};
+
+// ============================================================
+// Slicers
+// ============================================================
+
+/**
+ * Convert slicer selections into model filters (IN filters, one per column)
+ */
+export const slicersToFilters = (slicers: Slicer[]): ModelFilters => {
+  const filters: ModelFilters = {};
+  for (const slicer of slicers) {
+    if (slicer.values.length === 0) continue;
+    filters[slicer.datasetId] = [
+      ...(filters[slicer.datasetId] || []).filter(f => f.column !== slicer.column),
+      { column: slicer.column, operator: 'IN', value: slicer.values }
+    ];
+  }
+  return filters;
+};
+
+/**
+ * Distinct, sorted values a slicer can offer (blank cells excluded). All values are sorted
+ * before the list is cut, so it never skips values in the middle.
+ */
+export const getSlicerValues = (dataset: Dataset, column: string): SlicerValues => {
+  const values = new Set<string>();
+  for (const row of dataset.data) {
+    const value = row[column];
+    if (value === null || value === undefined || value === '') continue;
+    values.add(String(value));
+  }
+  const sorted = Array.from(values).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  return { values: sorted.slice(0, MAX_SLICER_VALUES), distinctCount: sorted.length };
+};
+
+/**
+ * Columns worth slicing by: low-cardinality text columns of tables taking part in a
+ * relationship, dimension tables first
+ */
+export const getSlicerCandidates = (datasets: Dataset[], relationships: Relationship[]): SlicerCandidate[] => {
+  const related = new Set(relationships.flatMap(rel => [rel.fromDataset, rel.toDataset]));
+  const rolePriority: Record<TableClassification['role'], number> = {
+    dimension: 0, date_dimension: 1, bridge: 2, unknown: 3, fact: 4
+  };
+
+  return datasets
+    .filter(ds => related.has(ds.id))
+    .flatMap(ds => {
+      const { role } = classifyTable(ds, datasets);
+      return ds.columns
+        .filter(col => (col.type === 'string' || col.type === 'boolean') &&
+          col.uniqueCount > 1 && col.uniqueCount <= MAX_SLICER_VALUES)
+        .map(col => ({
+          datasetId: ds.id,
+          datasetName: ds.name,
+          column: col.name,
+          role,
+          distinctValues: col.uniqueCount
+        }));
+    })
+    .sort((a, b) => rolePriority[a.role] - rolePriority[b.role] || a.distinctValues - b.distinctValues);
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { detectEncoding, parseCSVText, readCSVFile, sniffCSVDialect } from './csvReader';
+
+const ascii = (text: string): number[] => Array.from(text, char => char.charCodeAt(0));
+
+describe('detectEncoding', () => {
+  it('reads byte order marks', () => {
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61]))).toEqual({ encoding: 'utf-8', bomLength: 3 });
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x61, 0x00]))).toEqual({ encoding: 'utf-16le', bomLength: 2 });
+    expect(detectEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x61]))).toEqual({ encoding: 'utf-16be', bomLength: 2 });
+  });
+
+  it('recognises UTF-16 without a BOM', () => {
+    const le = new Uint8Array(ascii('a,b\n1,2\n').flatMap(code => [code, 0]));
+    const be = new Uint8Array(ascii('a,b\n1,2\n').flatMap(code => [0, code]));
+    expect(detectEncoding(le).encoding).toBe('utf-16le');
+    expect(detectEncoding(be).encoding).toBe('utf-16be');
+  });
+
+  it('accepts valid UTF-8', () => {
+    const bytes = new TextEncoder().encode('name\nCafé\n');
+    expect(detectEncoding(bytes)).toEqual({ encoding: 'utf-8', bomLength: 0 });
+  });
+
+  it('falls back to Windows-1252 for a small file ending in an accented byte', () => {
+    // "name\nCafé\n" saved as Windows-1252: é is the single byte 0xe9
+    const bytes = new Uint8Array([...ascii('name\nCaf'), 0xe9, 0x0a]);
+    expect(detectEncoding(bytes).encoding).toBe('windows-1252');
+    expect(detectEncoding(new Uint8Array([...ascii('name\nCaf'), 0xe9])).encoding).toBe('windows-1252');
+  });
+
+  it('tolerates a UTF-8 character cut at the end of a truncated sample', () => {
+    const full = new TextEncoder().encode('name\nCafé');
+    const head = full.subarray(0, full.length - 1);
+    expect(detectEncoding(head, true).encoding).toBe('utf-8');
+    expect(detectEncoding(head).encoding).toBe('windows-1252');
+  });
+});
+
+describe('sniffCSVDialect', () => {
+  it('picks the delimiter that splits rows consistently', () => {
+    expect(sniffCSVDialect('a,b,c\n1,2,3\n4,5,6\n').delimiter).toBe(',');
+    expect(sniffCSVDialect('a;b;c\n1,5;2;3\n4,5;5;6\n').delimiter).toBe(';');
+    expect(sniffCSVDialect('a\tb\tc\n1\t2\t3\n').delimiter).toBe('\t');
+    expect(sniffCSVDialect('a|b\n1|2\n3|4\n').delimiter).toBe('|');
+  });
+
+  it('ignores delimiters inside quoted fields', () => {
+    const dialect = sniffCSVDialect('name;note\n"Smith, J";"a, b, c"\n"Doe, A";"x, y"\n');
+    expect(dialect.delimiter).toBe(';');
+    expect(dialect.quoteChar).toBe('"');
+  });
+
+  it('detects single-quote quoting', () => {
+    expect(sniffCSVDialect("name,city\n'Smith, J','Accra'\n'Doe, A','Lagos'\n").quoteChar).toBe("'");
+  });
+
+  it('finds the header row below a title preamble', () => {
+    const dialect = sniffCSVDialect('Sales export\nGenerated 2024-01-01\nRegion,Amount,Units\nNorth,10,1\nSouth,20,2\n');
+    expect(dialect.headerRowIndex).toBe(2);
+    expect(dialect.hasHeader).toBe(true);
+  });
+
+  it('finds the header row with a given delimiter', () => {
+    const sample = 'Exported by a, b\nFilter: North, South\nRegion\tAmount\nNorth\t10\n';
+    expect(sniffCSVDialect(sample).delimiter).toBe(',');
+    expect(sniffCSVDialect(sample, '\t')).toMatchObject({ delimiter: '\t', headerRowIndex: 2, hasHeader: true });
+  });
+
+  it('reports no header when the first row looks like data', () => {
+    expect(sniffCSVDialect('1,2,3\n4,5,6\n7,8,9\n').hasHeader).toBe(false);
+  });
+});
+
+describe('parseCSVText', () => {
+  it('parses rows with the sniffed dialect and skips the preamble', () => {
+    const result = parseCSVText('Report\nRegion;Amount\nNorth;"1,5"\nSouth;2\n');
+    expect(result.headers).toEqual(['Region', 'Amount']);
+    expect(result.data).toEqual([
+      { Region: 'North', Amount: '1,5' },
+      { Region: 'South', Amount: '2' }
+    ]);
+    expect(result.dialect.delimiter).toBe(';');
+  });
+});
+
+describe('readCSVFile', () => {
+  it('decodes a small Windows-1252 file without replacement characters', async () => {
+    const file = new Blob([new Uint8Array([...ascii('name\nCaf'), 0xe9, 0x0a])]);
+    const result = await readCSVFile(file);
+    expect(result.encoding).toBe('windows-1252');
+    expect(result.data).toEqual([{ name: 'Café' }]);
+  });
+
+  it('keeps multi-byte characters split across chunks', async () => {
+    const file = new Blob([new TextEncoder().encode('city,count\nSão Paulo,1\nAccra,2\n')]);
+    const result = await readCSVFile(file, { chunkSize: 13 });
+    expect(result.encoding).toBe('utf-8');
+    expect(result.data[0]).toEqual({ city: 'São Paulo', count: '1' });
+  });
+});
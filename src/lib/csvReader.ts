@@ -0,0 +1,506 @@
+// CSV Reader - Chunked, dialect-sniffing CSV parser
+// Detects encoding, delimiter, quote character and header row, then parses incrementally
+
+// ============================================================
+// Types
+// ============================================================
+
+export type CSVDelimiter = ',' | ';' | '\t' | '|';
+
+export interface CSVDialect {
+  delimiter: CSVDelimiter;
+  quoteChar: '"' | "'";
+  hasHeader: boolean;
+  headerRowIndex: number; // rows before the header (titles, export notes) are skipped
+}
+
+export interface CSVEncoding {
+  encoding: string; // TextDecoder label
+  bomLength: number;
+}
+
+export interface CSVReadProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rowsParsed: number;
+  percent: number; // 0-100
+}
+
+export interface CSVReadOptions {
+  chunkSize?: number; // bytes per chunk
+  dialect?: Partial<CSVDialect>; // overrides for sniffed values
+  encoding?: string;
+  onProgress?: (progress: CSVReadProgress) => void;
+  shouldCancel?: () => boolean;
+}
+
+export interface CSVReadResult {
+  data: Record<string, string>[];
+  headers: string[];
+  dialect: CSVDialect;
+  encoding: string;
+  rowCount: number;
+  skippedRows: number; // blank and preamble rows
+  warnings: string[];
+}
+
+/**
+ * Incremental parser: feed text with push(), collect records, then call finish()
+ */
+export interface CSVStreamParser {
+  push: (text: string) => string[][];
+  finish: () => string[][];
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+export const CSV_DELIMITERS: CSVDelimiter[] = [',', ';', '\t', '|'];
+
+const DEFAULT_CHUNK_SIZE = 1024 * 1024; // 1 MB
+const SNIFF_SAMPLE_BYTES = 64 * 1024;
+const SNIFF_MAX_ROWS = 50;
+
+// ============================================================
+// Encoding detection
+// ============================================================
+
+/**
+ * Detect text encoding from a byte sample: BOMs first, then a strict UTF-8 check,
+ * falling back to Windows-1252 (common for Excel exports with accented characters).
+ * Pass truncated when the bytes are only the head of a longer file.
+ */
+export const detectEncoding = (
+  bytes: Uint8Array,
+  truncated = bytes.length > SNIFF_SAMPLE_BYTES
+): CSVEncoding => {
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: 'utf-8', bomLength: 3 };
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { encoding: 'utf-16le', bomLength: 2 };
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { encoding: 'utf-16be', bomLength: 2 };
+  }
+
+  // UTF-16 without BOM: every other byte of ASCII text is zero
+  const sample = bytes.subarray(0, Math.min(bytes.length, 1024));
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  if (sample.length >= 4 && oddZeros > sample.length * 0.3 && evenZeros === 0) {
+    return { encoding: 'utf-16le', bomLength: 0 };
+  }
+  if (sample.length >= 4 && evenZeros > sample.length * 0.3 && oddZeros === 0) {
+    return { encoding: 'utf-16be', bomLength: 0 };
+  }
+
+  // When the sample stops short of the file end, a multi-byte character may be cut there;
+  // only then ignore up to 3 trailing bytes
+  const utf8Sample = bytes.subarray(0, Math.min(bytes.length, SNIFF_SAMPLE_BYTES));
+  const maxTrim = truncated ? Math.min(3, utf8Sample.length) : 0;
+  for (let trim = 0; trim <= maxTrim; trim++) {
+    try {
+      new TextDecoder('utf-8', { fatal: true }).decode(utf8Sample.subarray(0, utf8Sample.length - trim));
+      return { encoding: 'utf-8', bomLength: 0 };
+    } catch {
+      // try a shorter sample
+    }
+  }
+  return { encoding: 'windows-1252', bomLength: 0 };
+};
+
+// ============================================================
+// Dialect sniffing
+// ============================================================
+
+/**
+ * Split sample text into records for a given delimiter/quote (quote-aware, so
+ * delimiters and newlines inside quoted fields are not counted)
+ */
+const splitSample = (text: string, delimiter: string, quoteChar: string): string[][] => {
+  const parser = createCSVStreamParser({ delimiter: delimiter as CSVDelimiter, quoteChar: quoteChar as '"' | "'" });
+  const rows = parser.push(text);
+  // The sample may end mid-record; drop the incomplete tail instead of finishing it
+  return rows.filter(row => row.some(field => field.trim() !== '')).slice(0, SNIFF_MAX_ROWS);
+};
+
+const modeOf = (values: number[]): number => {
+  const counts = new Map<number, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  let best = 0;
+  let bestCount = 0;
+  counts.forEach((count, value) => {
+    if (count > bestCount || (count === bestCount && value > best)) {
+      best = value;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+const isNumericField = (value: string): boolean => {
+  const trimmed = value.trim();
+  if (!trimmed) return false;
+  // Accept 1,234.56 / 1.234,56 / 12% / currency prefixes
+  return /^[-+]?[$€£₦]?\s*\d[\d\s.,]*%?$/.test(trimmed);
+};
+
+const isDateField = (value: string): boolean =>
+  /^\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}/.test(value.trim());
+
+/**
+ * Decide whether the first row is a header by comparing it with the rows below:
+ * a header cell is text where the column below is numeric/date, or is unique where
+ * the column repeats values
+ */
+const looksLikeHeader = (header: string[], rows: string[][]): boolean => {
+  if (rows.length === 0) return true;
+  let votes = 0;
+  header.forEach((cell, index) => {
+    const column = rows.map(row => row[index] ?? '').filter(value => value.trim() !== '');
+    if (column.length === 0) return;
+    const numericBelow = column.filter(isNumericField).length / column.length;
+    const datesBelow = column.filter(isDateField).length / column.length;
+    const headerIsValue = isNumericField(cell) || isDateField(cell);
+
+    if ((numericBelow > 0.8 || datesBelow > 0.8) && !headerIsValue) votes++;
+    else if ((numericBelow > 0.8 || datesBelow > 0.8) && headerIsValue) votes--;
+    else if (column.includes(cell)) votes--; // header labels don't repeat in their own column
+    else {
+      const avgLength = column.reduce((sum, value) => sum + value.length, 0) / column.length;
+      if (Math.abs(cell.length - avgLength) > avgLength * 0.5) votes++;
+    }
+  });
+  // Unique, non-empty labels with no type signal still make a header
+  const unique = new Set(header.map(cell => cell.trim())).size === header.length;
+  return votes > 0 || (votes === 0 && unique);
+};
+
+/**
+ * Sniff the CSV dialect from a text sample (the first few kilobytes of the file).
+ * A known delimiter (e.g. tab for .tsv) skips delimiter detection so the header row
+ * is found with the delimiter the file is actually parsed with.
+ */
+export const sniffCSVDialect = (sample: string, delimiter?: CSVDelimiter): CSVDialect => {
+  const text = sample.charCodeAt(0) === 0xfeff ? sample.slice(1) : sample;
+
+  // Quote character: whichever quote appears right after a line start or delimiter most often
+  const countQuotes = (quote: string) =>
+    (text.match(new RegExp(`(^|[,;\\t|\\n])${quote}`, 'g')) || []).length;
+  const quoteChar: '"' | "'" = countQuotes("'") > countQuotes('"') ? "'" : '"';
+
+  // Delimiter: the candidate giving the most rows with the same (>1) field count
+  let best: { delimiter: CSVDelimiter; score: number; rows: string[][]; width: number } = {
+    delimiter: ',',
+    score: -1,
+    rows: [],
+    width: 1
+  };
+  (delimiter ? [delimiter] : CSV_DELIMITERS).forEach(candidate => {
+    const rows = splitSample(text, candidate, quoteChar);
+    if (rows.length === 0) return;
+    const width = modeOf(rows.map(row => row.length));
+    if (width < 2 && !delimiter) return;
+    const consistent = rows.filter(row => row.length === width).length;
+    const score = consistent / rows.length + width / 1000; // prefer wider splits on ties
+    if (score > best.score) {
+      best = { delimiter: candidate, score, rows, width };
+    }
+  });
+
+  // Header row: the first row that has the full field count (skips titles/preamble lines)
+  const headerRowIndex = Math.max(0, best.rows.findIndex(row => row.length >= best.width));
+  const headerRow = best.rows[headerRowIndex] || [];
+  const hasHeader = looksLikeHeader(headerRow, best.rows.slice(headerRowIndex + 1));
+
+  return { delimiter: best.delimiter, quoteChar, hasHeader, headerRowIndex };
+};
+
+// ============================================================
+// Incremental parser
+// ============================================================
+
+/**
+ * Create a quote-aware CSV state machine. Quoted fields may contain delimiters,
+ * escaped quotes ("") and newlines, and may span push() calls.
+ */
+export const createCSVStreamParser = (
+  dialect: Pick<CSVDialect, 'delimiter' | 'quoteChar'>
+): CSVStreamParser => {
+  const { delimiter, quoteChar } = dialect;
+  let field = '';
+  let row: string[] = [];
+  let inQuote = false;
+  let pendingQuote = false; // saw a quote inside a quoted field; next char decides
+  let pendingCR = false;
+
+  const endRow = (records: string[][]) => {
+    row.push(field);
+    records.push(row);
+    row = [];
+    field = '';
+  };
+
+  const push = (text: string): string[][] => {
+    const records: string[][] = [];
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (pendingCR) {
+        pendingCR = false;
+        if (char === '\n') continue; // CRLF already ended the row
+      }
+
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === quoteChar) {
+          field += quoteChar; // escaped quote
+          continue;
+        }
+        inQuote = false; // closing quote; fall through to handle this char unquoted
+      }
+
+      if (inQuote) {
+        if (char === quoteChar) pendingQuote = true;
+        else field += char;
+        continue;
+      }
+
+      if (char === quoteChar && field.trim() === '') {
+        field = '';
+        inQuote = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n') {
+        endRow(records);
+      } else if (char === '\r') {
+        endRow(records);
+        pendingCR = true;
+      } else {
+        field += char;
+      }
+    }
+    return records;
+  };
+
+  const finish = (): string[][] => {
+    const records: string[][] = [];
+    if (field.length > 0 || row.length > 0 || inQuote) {
+      endRow(records);
+    }
+    inQuote = false;
+    pendingQuote = false;
+    return records;
+  };
+
+  return { push, finish };
+};
+
+// ============================================================
+// Record assembly
+// ============================================================
+
+/**
+ * Make header names unique and non-empty ("Amount", "Amount_2", "Column 3")
+ */
+export const normalizeCSVHeaders = (raw: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return raw.map((value, index) => {
+    const base = value.trim() || `Column ${index + 1}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base}_${count}`;
+  });
+};
+
+const isBlankRecord = (record: string[]): boolean => record.every(field => field.trim() === '');
+
+/**
+ * Turns raw records into row objects, consuming preamble and header rows first
+ */
+const createRecordAssembler = (dialect: CSVDialect) => {
+  let headers: string[] | null = null;
+  let recordIndex = 0;
+  let contentIndex = 0; // non-blank records seen, matching the sniffer's row numbering
+  let skipped = 0;
+  let widthWarning = false;
+  const warnings: string[] = [];
+  const data: Record<string, string>[] = [];
+
+  const add = (records: string[][]) => {
+    for (const record of records) {
+      const index = recordIndex++;
+      if (isBlankRecord(record)) {
+        skipped++;
+        continue;
+      }
+      if (headers === null) {
+        if (contentIndex++ < dialect.headerRowIndex) {
+          skipped++;
+          continue;
+        }
+        if (dialect.hasHeader) {
+          headers = normalizeCSVHeaders(record);
+          if (new Set(record.map(h => h.trim())).size !== record.length) {
+            warnings.push('Duplicate or empty column headers were renamed.');
+          }
+          continue;
+        }
+        headers = record.map((_, i) => `Column ${i + 1}`);
+      }
+
+      if (record.length > headers.length) {
+        // Extra trailing fields get generated names rather than being dropped
+        for (let i = headers.length; i < record.length; i++) headers.push(`Column ${i + 1}`);
+        if (!widthWarning) {
+          warnings.push(`Row ${index + 1} has more fields than the header; extra columns were added.`);
+          widthWarning = true;
+        }
+      }
+
+      const row: Record<string, string> = {};
+      headers.forEach((header, i) => {
+        row[header] = record[i] !== undefined ? record[i].trim() : '';
+      });
+      data.push(row);
+    }
+  };
+
+  return {
+    add,
+    result: () => ({ data, headers: headers || [], skipped, warnings })
+  };
+};
+
+// ============================================================
+// Public API
+// ============================================================
+
+/**
+ * Parse CSV text in one go (sniffing the dialect unless given)
+ */
+export const parseCSVText = (text: string, dialectOverrides: Partial<CSVDialect> = {}): CSVReadResult => {
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  if (source.trim().length === 0) {
+    throw new Error('CSV file is empty');
+  }
+
+  const dialect: CSVDialect = {
+    ...sniffCSVDialect(source.slice(0, SNIFF_SAMPLE_BYTES), dialectOverrides.delimiter),
+    ...dialectOverrides
+  };
+  const parser = createCSVStreamParser(dialect);
+  const assembler = createRecordAssembler(dialect);
+  assembler.add(parser.push(source));
+  assembler.add(parser.finish());
+
+  return buildResult(assembler.result(), dialect, 'utf-8');
+};
+
+const buildResult = (
+  assembled: { data: Record<string, string>[]; headers: string[]; skipped: number; warnings: string[] },
+  dialect: CSVDialect,
+  encoding: string
+): CSVReadResult => {
+  if (assembled.headers.length === 0) {
+    throw new Error('CSV file contains no data rows');
+  }
+  if (assembled.data.length === 0) {
+    throw new Error('CSV file has headers but no data rows');
+  }
+  return {
+    data: assembled.data,
+    headers: assembled.headers,
+    dialect,
+    encoding,
+    rowCount: assembled.data.length,
+    skippedRows: assembled.skipped,
+    warnings: assembled.warnings
+  };
+};
+
+const yieldToEventLoop = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Read a CSV File/Blob in chunks: detects encoding and dialect from the first chunk,
+ * decodes with a streaming TextDecoder and reports progress after each chunk
+ */
+export const readCSVFile = async (file: Blob, options: CSVReadOptions = {}): Promise<CSVReadResult> => {
+  const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
+  const totalBytes = file.size;
+  if (totalBytes === 0) {
+    throw new Error('CSV file is empty');
+  }
+
+  const head = new Uint8Array(await file.slice(0, Math.min(totalBytes, SNIFF_SAMPLE_BYTES)).arrayBuffer());
+  const detected = detectEncoding(head, totalBytes > head.length);
+  const encoding = options.encoding || detected.encoding;
+  const bomLength = options.encoding ? 0 : detected.bomLength;
+
+  const sniffText = new TextDecoder(encoding).decode(head.subarray(bomLength));
+  if (sniffText.trim().length === 0 && totalBytes <= SNIFF_SAMPLE_BYTES) {
+    throw new Error('CSV file is empty');
+  }
+  const dialect: CSVDialect = {
+    ...sniffCSVDialect(sniffText, options.dialect?.delimiter),
+    ...options.dialect
+  };
+
+  const decoder = new TextDecoder(encoding);
+  const parser = createCSVStreamParser(dialect);
+  const assembler = createRecordAssembler(dialect);
+  let offset = bomLength;
+  let firstText = true;
+
+  while (offset < totalBytes) {
+    if (options.shouldCancel?.()) {
+      throw new Error('CSV import was cancelled');
+    }
+    const end = Math.min(offset + chunkSize, totalBytes);
+    const bytes = new Uint8Array(await file.slice(offset, end).arrayBuffer());
+    let text = decoder.decode(bytes, { stream: end < totalBytes });
+    if (firstText && text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    firstText = false;
+
+    assembler.add(parser.push(text));
+    offset = end;
+
+    options.onProgress?.({
+      bytesRead: offset,
+      totalBytes,
+      rowsParsed: assembler.result().data.length,
+      percent: (offset / totalBytes) * 100
+    });
+    await yieldToEventLoop();
+  }
+
+  assembler.add(parser.push(decoder.decode()));
+  assembler.add(parser.finish());
+  return buildResult(assembler.result(), dialect, encoding);
+};
+
+/**
+ * Human-readable dialect summary, e.g. "semicolon-separated, windows-1252"
+ */
+export const describeCSVDialect = (dialect: CSVDialect, encoding?: string): string => {
+  const names: Record<CSVDelimiter, string> = {
+    ',': 'comma',
+    ';': 'semicolon',
+    '\t': 'tab',
+    '|': 'pipe'
+  };
+  const parts = [`${names[dialect.delimiter]}-separated`];
+  if (!dialect.hasHeader) parts.push('no header row');
+  if (dialect.headerRowIndex > 0) parts.push(`header on row ${dialect.headerRowIndex + 1}`);
+  if (encoding && encoding !== 'utf-8') parts.push(encoding);
+  return parts.join(', ');
+};
@@ -1,5 +1,8 @@
 // Data Cleaning Utilities
-import { Dataset, ColumnInfo } from './types';
+import { Dataset, ColumnInfo, CleaningHistory } from './types';
+import { FuzzyMergeOptions } from './fuzzyDuplicates';
+import { ImputationMethod, ImputationOptions, ImputationReport } from './imputation';
+import { OUTLIER_DETECTORS, OutlierMethod, OutlierOptions, detectOutliers } from './outlierDetection';
 
 export type CleaningOperation =
   | 'removeDuplicates'
@@ -7,6 +10,7 @@ export type CleaningOperation =
   | 'fillMissingWithDefault'
   | 'fillMissingWithMean'
   | 'fillMissingWithMedian'
+  | 'fillMissingWithMode'
   | 'trimWhitespace'
   | 'removeOutliers'
   | 'capOutliersToBounds'
@@ -15,11 +19,42 @@ export type CleaningOperation =
   | 'convertToUpperCase'
   | 'removeSpecialCharacters'
   | 'removeEmptyRows'
-  | 'removeEmptyColumns';
+  | 'removeEmptyColumns'
+  | 'removeColumns'
+  | 'mergeFuzzyDuplicates'
+  | 'imputeMissing';
+
+/**
+ * One cleaning operation with its parameters: the serializable unit of a cleaning recipe
+ * (see cleaningRecipe.ts). Statistics such as means are recomputed when a step is replayed.
+ */
+export type CleaningStep =
+  | { op: 'removeDuplicates' }
+  | { op: 'removeMissingRows'; columns?: string[] }
+  | { op: 'fillMissingWithDefault'; column: string; value: string | number | boolean }
+  | { op: 'fillMissingWithMean'; column: string }
+  | { op: 'fillMissingWithMedian'; column: string }
+  | { op: 'fillMissingWithMode'; column: string }
+  | { op: 'trimWhitespace'; columns?: string[] }
+  | { op: 'removeOutliers'; column: string; method?: OutlierMethod; options?: OutlierOptions }
+  | {
+      op: 'capOutliersToBounds';
+      column: string;
+      bounds?: { min: number; max: number };
+      method?: OutlierMethod;
+      options?: OutlierOptions;
+    }
+  | { op: 'standardizeText'; column: string; caseType: 'lowercase' | 'uppercase' | 'titlecase' }
+  | { op: 'removeSpecialCharacters'; column: string; pattern?: string }
+  | { op: 'removeColumns'; columns: string[] }
+  | ({ op: 'mergeFuzzyDuplicates' } & FuzzyMergeOptions)
+  | { op: 'imputeMissing'; column: string; method: ImputationMethod; options?: ImputationOptions };
 
 export interface CleaningResult {
   dataset: Dataset;
   operationsPerformed: string[];
+  steps?: CleaningStep[]; // the typed steps behind operationsPerformed, when run from a recipe
+  imputation?: ImputationReport; // cells filled and confidence, for imputation operations
   rowsRemoved: number;
   rowsAdded: number;
   statistics: {
@@ -36,6 +71,28 @@ export interface CleaningResult {
   };
 }
 
+/**
+ * Attach the undo history of a cleaning session to its latest dataset: the dataset before
+ * the steps and the steps themselves, never the intermediate rows
+ */
+export const withCleaningHistory = (original: Dataset, steps: CleaningStep[], latest: Dataset): Dataset => {
+  const { cleaningHistory: _original, ...start } = original;
+  const { cleaningHistory: _latest, ...current } = latest;
+  return { ...current, cleaningHistory: { original: start, steps, data: current.data } };
+};
+
+/**
+ * The cleaning history recorded on a dataset, or a fresh one when none was recorded or its
+ * rows have been replaced since (by a transform, a reload, ...)
+ */
+export const readCleaningHistory = (dataset: Dataset): CleaningHistory => {
+  const { cleaningHistory: recorded, ...current } = dataset;
+  if (!recorded || recorded.data !== dataset.data) {
+    return { original: current, steps: [], data: dataset.data };
+  }
+  return recorded;
+};
+
 /**
  * Remove duplicate rows from dataset
  */
@@ -239,6 +296,38 @@ export const fillMissingWithMedian = (dataset: Dataset, columnName: string): Cle
   return fillMissingWithDefault(dataset, columnName, median);
 };
 
+/**
+ * Fill missing values with the most frequent value (ties go to the value seen first)
+ */
+export const fillMissingWithMode = (dataset: Dataset, columnName: string): CleaningResult => {
+  const column = dataset.columns.find(col => col.name === columnName);
+  if (!column) {
+    throw new Error(`Column ${columnName} not found`);
+  }
+
+  const values = dataset.data
+    .map(row => row[columnName])
+    .filter(v => v !== null && v !== undefined && v !== '');
+  if (values.length === 0) {
+    throw new Error(`Column ${columnName} has no values to take the mode from`);
+  }
+
+  // Count by text so 5 and "5" agree, but fill with an original value so numbers stay numbers
+  const counts = new Map<string, { value: unknown; count: number }>();
+  values.forEach(v => {
+    const key = String(v);
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { value: v, count: 1 });
+  });
+  let mode = { value: values[0] as unknown, count: 0 };
+  counts.forEach(entry => {
+    if (entry.count > mode.count) mode = entry;
+  });
+
+  return fillMissingWithDefault(dataset, columnName, mode.value);
+};
+
 /**
  * Trim whitespace from string columns
  */
@@ -298,53 +387,21 @@ export const trimWhitespace = (dataset: Dataset, columns?: string[]): CleaningRe
 };
 
 /**
- * Remove outliers using IQR method
+ * Remove rows whose value is an outlier, by default by the IQR method
  */
-export const removeOutliers = (dataset: Dataset, columnName: string): CleaningResult => {
+export const removeOutliers = (
+  dataset: Dataset,
+  columnName: string,
+  method: OutlierMethod = 'iqr',
+  options?: OutlierOptions
+): CleaningResult => {
   const column = dataset.columns.find(col => col.name === columnName);
   if (!column || column.type !== 'number') {
     throw new Error(`Column ${columnName} not found or is not numeric`);
   }
 
-  const numericValues = dataset.data
-    .map((row, index) => ({ value: Number(row[columnName]), index, row }))
-    .filter(item => !isNaN(item.value) && item.value !== null && item.value !== undefined)
-    .sort((a, b) => a.value - b.value);
-
-  if (numericValues.length === 0) {
-    return {
-      dataset,
-      operationsPerformed: [`Remove Outliers: ${columnName} (no valid values)`],
-      rowsRemoved: 0,
-      rowsAdded: 0,
-      statistics: {
-        before: {
-          rowCount: dataset.rowCount,
-          nullCount: 0,
-          duplicateCount: 0
-        },
-        after: {
-          rowCount: dataset.rowCount,
-          nullCount: 0,
-          duplicateCount: 0
-        }
-      }
-    };
-  }
-
-  const q1Index = Math.floor(numericValues.length * 0.25);
-  const q3Index = Math.floor(numericValues.length * 0.75);
-  const q1 = numericValues[q1Index].value;
-  const q3 = numericValues[q3Index].value;
-  const iqr = q3 - q1;
-  const lowerBound = q1 - 1.5 * iqr;
-  const upperBound = q3 + 1.5 * iqr;
-
-  const outlierIndices = new Set(
-    numericValues
-      .filter(item => item.value < lowerBound || item.value > upperBound)
-      .map(item => item.index)
-  );
+  const detection = detectOutliers(dataset.data, columnName, method, options);
+  const outlierIndices = new Set(detection.flags.map(flag => flag.rowIndex));
 
   const originalRowCount = dataset.rowCount;
   const cleanedData = dataset.data.filter((_, index) => !outlierIndices.has(index));
@@ -374,7 +431,7 @@ export const removeOutliers = (dataset: Dataset, columnName: string): CleaningRe
       columns: updatedColumns,
       updatedAt: new Date()
     },
-    operationsPerformed: [`Remove Outliers: ${columnName} (IQR method)`],
+    operationsPerformed: [`Remove Outliers: ${columnName} (${OUTLIER_DETECTORS[method].label})`],
     rowsRemoved,
     rowsAdded: 0,
     statistics: {
@@ -393,64 +450,47 @@ export const removeOutliers = (dataset: Dataset, columnName: string): CleaningRe
 };
 
 /**
- * Cap outliers to boundary values using IQR method (clamp instead of remove)
+ * Cap outliers to boundary values (clamp instead of remove): to the given bounds, or to the
+ * range each flagged value was expected in, by default by the IQR method
  */
 export const capOutliersToBounds = (
   dataset: Dataset,
   columnName: string,
-  bounds?: { min: number; max: number }
+  bounds?: { min: number; max: number },
+  method: OutlierMethod = 'iqr',
+  options?: OutlierOptions
 ): CleaningResult => {
   const column = dataset.columns.find(col => col.name === columnName);
   if (!column || column.type !== 'number') {
     throw new Error(`Column ${columnName} not found or is not numeric`);
   }
 
-  const numericValues = dataset.data
-    .map(row => Number(row[columnName]))
-    .filter(v => !isNaN(v) && v !== null && v !== undefined)
-    .sort((a, b) => a - b);
-
-  if (numericValues.length === 0) {
-    return {
-      dataset,
-      operationsPerformed: [`Cap Outliers: ${columnName} (no valid values)`],
-      rowsRemoved: 0,
-      rowsAdded: 0,
-      statistics: {
-        before: { rowCount: dataset.rowCount, nullCount: 0, duplicateCount: 0 },
-        after: { rowCount: dataset.rowCount, nullCount: 0, duplicateCount: 0 }
-      }
-    };
-  }
-
-  // Use provided bounds or compute IQR bounds
-  let lowerBound: number;
-  let upperBound: number;
+  // Per-row ranges: seasonal detection expects a different value at every point
+  const rowBounds = new Map<number, { min: number; max: number }>();
   if (bounds) {
-    lowerBound = bounds.min;
-    upperBound = bounds.max;
+    dataset.data.forEach((row, index) => {
+      const val = Number(row[columnName]);
+      if (row[columnName] !== null && row[columnName] !== '' && !isNaN(val) && (val < bounds.min || val > bounds.max)) {
+        rowBounds.set(index, bounds);
+      }
+    });
   } else {
-    const q1Index = Math.floor(numericValues.length * 0.25);
-    const q3Index = Math.floor(numericValues.length * 0.75);
-    const q1 = numericValues[q1Index];
-    const q3 = numericValues[q3Index];
-    const iqr = q3 - q1;
-    lowerBound = q1 - 1.5 * iqr;
-    upperBound = q3 + 1.5 * iqr;
+    detectOutliers(dataset.data, columnName, method, options).flags
+      .forEach(flag => rowBounds.set(flag.rowIndex, flag.expectedRange));
   }
 
   let cappedCount = 0;
-  const cappedData = dataset.data.map(row => {
+  const cappedData = dataset.data.map((row, index) => {
+    const range = rowBounds.get(index);
+    if (!range) return row;
     const val = Number(row[columnName]);
-    if (!isNaN(val)) {
-      if (val < lowerBound) {
-        cappedCount++;
-        return { ...row, [columnName]: lowerBound };
-      }
-      if (val > upperBound) {
-        cappedCount++;
-        return { ...row, [columnName]: upperBound };
-      }
+    if (val < range.min) {
+      cappedCount++;
+      return { ...row, [columnName]: range.min };
+    }
+    if (val > range.max) {
+      cappedCount++;
+      return { ...row, [columnName]: range.max };
     }
     return row;
   });
@@ -479,7 +519,9 @@ export const capOutliersToBounds = (
       columns: updatedColumns,
       updatedAt: new Date()
     },
-    operationsPerformed: [`Cap Outliers: ${columnName} (clamped ${cappedCount} values to ${lowerBound.toFixed(2)} - ${upperBound.toFixed(2)})`],
+    operationsPerformed: [bounds
+      ? `Cap Outliers: ${columnName} (clamped ${cappedCount} values to ${bounds.min.toFixed(2)} - ${bounds.max.toFixed(2)})`
+      : `Cap Outliers: ${columnName} (clamped ${cappedCount} values flagged by ${OUTLIER_DETECTORS[method].label})`],
     rowsRemoved: 0,
     rowsAdded: 0,
     statistics: {
@@ -642,3 +684,38 @@ export const removeSpecialCharacters = (
   };
 };
 
+/**
+ * Drop columns from the dataset
+ */
+export const removeColumns = (dataset: Dataset, columnNames: string[]): CleaningResult => {
+  const missing = columnNames.filter(name => !dataset.columns.some(col => col.name === name));
+  if (missing.length > 0) {
+    throw new Error(`Column ${missing.join(', ')} not found`);
+  }
+
+  const columnsToKeep = dataset.columns.filter(col => !columnNames.includes(col.name));
+  const cleanedData = dataset.data.map(row => {
+    const newRow = { ...row };
+    columnNames.forEach(name => delete newRow[name]);
+    return newRow;
+  });
+  const nullCount = (columns: ColumnInfo[]) => columns.reduce((sum, col) => sum + col.nullCount, 0);
+
+  return {
+    dataset: {
+      ...dataset,
+      columns: columnsToKeep,
+      data: cleanedData,
+      rowCount: cleanedData.length,
+      dataTypes: Object.fromEntries(columnsToKeep.map(col => [col.name, col.type])),
+      updatedAt: new Date()
+    },
+    operationsPerformed: [`Remove Columns: ${columnNames.join(', ')}`],
+    rowsRemoved: 0,
+    rowsAdded: 0,
+    statistics: {
+      before: { rowCount: dataset.rowCount, nullCount: nullCount(dataset.columns), duplicateCount: 0 },
+      after: { rowCount: cleanedData.length, nullCount: nullCount(columnsToKeep), duplicateCount: 0 }
+    }
+  };
+};
@@ -2,6 +2,7 @@
 // Implements sampling, pagination, and memory management
 
 import { Dataset } from './types';
+import { measureRowBytes } from './columnarStore';
 
 // Maximum safe limits for rendering
 export const RENDERING_LIMITS = {
@@ -14,11 +15,12 @@ export const RENDERING_LIMITS = {
 };
 
 /**
- * Calculate approximate memory size of dataset in MB
+ * Memory held by the dataset's rows in MB, measured from their actual values. Columnar
+ * copies are left out: they exist only after some engine ran, and size limits must not
+ * depend on that.
  */
 export const estimateDatasetSize = (dataset: Dataset): number => {
-  const rowSize = dataset.columns.length * 50; // Approximate bytes per cell
-  const totalBytes = dataset.rowCount * rowSize;
+  const totalBytes = measureRowBytes(dataset.data);
   return totalBytes / (1024 * 1024); // Convert to MB
 };
 
@@ -200,9 +202,14 @@ export const optimizeVisualizationData = (
 };
 
 /**
- * Check if operation should be cancelled due to size
+ * Check if an operation should stop: the user cancelled it (the signal was aborted)
+ * or the dataset is too large for it
  */
-export const shouldCancelOperation = (dataset: Dataset, operation: string): boolean => {
+export const shouldCancelOperation = (dataset: Dataset, operation: string, signal?: AbortSignal): boolean => {
+  if (signal?.aborted) {
+    return true;
+  }
+
   const sizeMB = estimateDatasetSize(dataset);
   
   // Cancel PDF generation for very large datasets
@@ -1,5 +1,6 @@
 // Shared data utilities for parsing, analyzing, and manipulating data
 import { ColumnInfo, DataType, Dataset } from './types';
+import { detectSemanticType, detectNumericText, parseLocaleNumber, isIdentifierColumn } from './semanticTypes';
 
 /**
  * Detect data type from a value
@@ -41,6 +42,9 @@ export const analyzeColumn = (columnName: string, values: any[]): ColumnInfo =>
     uniqueCount: new Set(nonNullValues.map(v => String(v))).size
   };
 
+  const semantic = detectSemanticType(columnName, nonNullValues, dataType);
+  if (semantic) columnInfo.semantic = semantic;
+
   // Add statistical info for numeric columns
   if (dataType === 'number') {
     const numericValues = nonNullValues.map(v => Number(v)).filter(v => !isNaN(v));
@@ -54,6 +58,14 @@ export const analyzeColumn = (columnName: string, values: any[]): ColumnInfo =>
   return columnInfo;
 };
 
+// Day/month/year in some order, year-month, or a month name next to a number. Only real month
+// names count, so amounts such as "USD 12" or labels such as "Ward 12" stay text.
+const MONTH_NAME = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const DATE_SHAPE = new RegExp(
+  `\\d{1,4}[-/.]\\d{1,2}[-/.]\\d{1,4}|^\\d{4}[-/]\\d{1,2}$|\\b${MONTH_NAME}\\.?\\s+\\d{1,4}|\\d{1,2}\\s+${MONTH_NAME}\\b`,
+  'i'
+);
+
 /**
  * Detect data type from an array of values
  */
@@ -65,10 +77,10 @@ export const detectDataTypeFromValues = (values: any[]): DataType => {
   const numericValues = nonNullValues.filter(v => !isNaN(Number(v)) && v !== '');
   if (numericValues.length / nonNullValues.length > 0.8) return 'number';
   
-  // Check for dates
+  // Check for dates (the shape check stops codes like "SKU-1001" or "1001,5" passing as dates)
   const dateValues = nonNullValues.filter(v => {
     const date = new Date(v);
-    return !isNaN(date.getTime());
+    return !isNaN(date.getTime()) && (v instanceof Date || DATE_SHAPE.test(String(v)));
   });
   if (dateValues.length / nonNullValues.length > 0.8) return 'date';
   
@@ -129,6 +141,13 @@ export const validateValue = (value: any, column: ColumnInfo): { valid: boolean;
     }
   }
 
+  // Allowed values
+  if (column.validation?.allowedValues && column.validation.allowedValues.length > 0) {
+    if (!column.validation.allowedValues.some(allowed => String(allowed) === String(value))) {
+      return { valid: false, error: `${column.name} must be one of ${column.validation.allowedValues.join(', ')}` };
+    }
+  }
+
   // Custom validation
   if (column.validation?.custom) {
     if (!column.validation.custom(value)) {
@@ -166,13 +185,55 @@ export const createEmptyObservation = (columns: ColumnInfo[]): any => {
   return observation;
 };
 
+/**
+ * Turn text columns holding formatted numbers (currency amounts, percentages, "1.234,56")
+ * into number columns. The currency code or percent meaning stays on the column's semantic type.
+ */
+export const applySemanticTypes = (
+  data: Record<string, unknown>[],
+  columns: ColumnInfo[]
+): { data: Record<string, unknown>[]; columns: ColumnInfo[] } => {
+  const conversions = columns
+    .filter(col => col.type !== 'number' && col.type !== 'date' && col.type !== 'boolean')
+    .filter(col => !isIdentifierColumn(col))
+    .map(col => ({ col, numeric: detectNumericText(data.map(row => row[col.name])) }))
+    .filter((entry): entry is { col: ColumnInfo; numeric: NonNullable<typeof entry.numeric> } => entry.numeric !== null);
+  if (conversions.length === 0) return { data, columns };
+
+  const convertedData = data.map(row => {
+    const converted = { ...row };
+    conversions.forEach(({ col, numeric }) => {
+      const value = row[col.name];
+      if (value === null || value === undefined || value === '') return;
+      converted[col.name] = parseLocaleNumber(value, numeric.decimalSeparator);
+    });
+    return converted;
+  });
+
+  const convertedColumns = columns.map(col => {
+    const conversion = conversions.find(entry => entry.col === col);
+    if (!conversion) return col;
+    const analyzed = analyzeColumn(col.name, convertedData.map(row => row[col.name]));
+    const carried = col.semantic?.type === 'currency' || col.semantic?.type === 'percent';
+    return { ...analyzed, semantic: carried ? col.semantic : analyzed.semantic };
+  });
+  return { data: convertedData, columns: convertedColumns };
+};
+
 /**
  * Update dataset statistics after data changes
  */
 export const updateDatasetStats = (dataset: Dataset): Dataset => {
   const updatedColumns = dataset.columns.map(col => {
     const values = dataset.data.map(row => row[col.name]);
-    return analyzeColumn(col.name, values);
+    // Keep user-defined metadata (custom fields, calculated expressions) across re-analysis
+    const { isCustom, isRequired, defaultValue, validation, expression } = col;
+    const analyzed = analyzeColumn(col.name, values);
+    // Converted amounts no longer show their currency or % sign; keep what import detected
+    const keepSemantic = analyzed.type === 'number' && !analyzed.semantic &&
+      (col.semantic?.type === 'currency' || col.semantic?.type === 'percent');
+    const semantic = keepSemantic ? col.semantic : analyzed.semantic;
+    return { ...analyzed, semantic, isCustom, isRequired, defaultValue, validation, expression };
   });
 
   return {
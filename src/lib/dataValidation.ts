@@ -0,0 +1,297 @@
+// Data Validation - Declarative rule engine for whole datasets
+// Checks not-null, unique, allowed-value, regex, range, cross-column and referential rules
+// and reports each rule's pass/fail with samples of the offending rows
+
+import { ColumnInfo, ComparisonOperator, Dataset, ValidationRule } from './types';
+import { isMissingValue } from './columnarStore';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface RuleViolation {
+  rowIndex: number;
+  values: Record<string, unknown>; // the values the rule looked at
+}
+
+export interface RuleResult {
+  rule: ValidationRule;
+  label: string;
+  source: 'column' | 'dataset'; // implied by column settings, or defined on the dataset
+  status: 'passed' | 'failed' | 'error';
+  checked: number; // rows the rule applied to
+  violations: number;
+  samples: RuleViolation[];
+  message?: string; // why the rule couldn't be checked
+}
+
+export interface ValidationReport {
+  results: RuleResult[];
+  passed: number;
+  failed: number;
+  errors: number;
+  rowsWithViolations: number;
+}
+
+const MAX_VIOLATION_SAMPLES = 10;
+
+// ============================================================
+// Rules
+// ============================================================
+
+const OPERATOR_LABELS: Record<ComparisonOperator, string> = {
+  '<': '<', '<=': '≤', '=': '=', '!=': '≠', '>=': '≥', '>': '>'
+};
+
+/**
+ * Human-readable label of a rule
+ */
+export const describeValidationRule = (rule: ValidationRule, datasets: Dataset[] = []): string => {
+  if (rule.description) return rule.description;
+  switch (rule.kind) {
+    case 'not_null':
+      return `${rule.column} is required`;
+    case 'unique':
+      return rule.columns.length === 1
+        ? `${rule.columns[0]} is unique`
+        : `${rule.columns.join(' + ')} is unique`;
+    case 'allowed_values':
+      return `${rule.column} is one of ${rule.values.slice(0, 5).join(', ')}${rule.values.length > 5 ? ', ...' : ''}`;
+    case 'regex':
+      return `${rule.column} matches /${rule.pattern}/${rule.flags || ''}`;
+    case 'range':
+      if (rule.min !== undefined && rule.max !== undefined) return `${rule.column} is between ${rule.min} and ${rule.max}`;
+      return rule.min !== undefined ? `${rule.column} ≥ ${rule.min}` : `${rule.column} ≤ ${rule.max}`;
+    case 'compare':
+      return `${rule.left} ${OPERATOR_LABELS[rule.operator]} ${rule.right}`;
+    case 'reference':
+      return `${rule.column} exists in ${datasets.find(ds => ds.id === rule.datasetId)?.name ?? 'another dataset'}.${rule.referenceColumn}`;
+  }
+};
+
+/**
+ * Rules implied by a column's settings (required flag and validation options)
+ */
+export const getColumnRules = (column: ColumnInfo): ValidationRule[] => {
+  const rules: ValidationRule[] = [];
+  const { validation } = column;
+  if (column.isRequired) {
+    rules.push({ id: `${column.name}:not_null`, kind: 'not_null', column: column.name });
+  }
+  if (validation?.unique) {
+    rules.push({ id: `${column.name}:unique`, kind: 'unique', columns: [column.name] });
+  }
+  if (validation?.allowedValues && validation.allowedValues.length > 0) {
+    rules.push({ id: `${column.name}:allowed`, kind: 'allowed_values', column: column.name, values: validation.allowedValues });
+  }
+  if (validation?.pattern) {
+    rules.push({ id: `${column.name}:pattern`, kind: 'regex', column: column.name, pattern: validation.pattern });
+  }
+  if (validation?.min !== undefined || validation?.max !== undefined) {
+    rules.push({ id: `${column.name}:range`, kind: 'range', column: column.name, min: validation.min, max: validation.max });
+  }
+  return rules;
+};
+
+const COMPARISON_PATTERN = /^\s*(.+?)\s*(<=|>=|!=|==|=|<|>)\s*(.+?)\s*$/;
+
+/**
+ * Read a cross-column rule written as text, e.g. "end_date >= start_date"
+ */
+export const parseComparisonRule = (text: string, columns: string[]): ValidationRule => {
+  const match = text.match(COMPARISON_PATTERN);
+  if (!match) {
+    throw new Error('Write the rule as "column operator column", e.g. end_date >= start_date');
+  }
+  const [, left, rawOperator, right] = match;
+  const unknown = [left, right].filter(name => !columns.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Column ${unknown.join(', ')} not found`);
+  }
+  const operator = (rawOperator === '==' ? '=' : rawOperator) as ComparisonOperator;
+  return { id: `rule-${Date.now()}`, kind: 'compare', left, operator, right };
+};
+
+// ============================================================
+// Checking
+// ============================================================
+
+const ruleColumns = (rule: ValidationRule): string[] => {
+  switch (rule.kind) {
+    case 'unique':
+      return rule.columns;
+    case 'compare':
+      return [rule.left, rule.right];
+    default:
+      return [rule.column];
+  }
+};
+
+/**
+ * Comparable form of a value: numbers as numbers, dates as timestamps, anything else as text
+ */
+const toComparable = (value: unknown, type?: ColumnInfo['type']): number | string => {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  const text = String(value).trim();
+  if (type === 'date') {
+    const time = new Date(text).getTime();
+    if (!isNaN(time)) return time;
+  }
+  const number = Number(text);
+  return text !== '' && !isNaN(number) ? number : text;
+};
+
+const compareValues = (a: number | string, operator: ComparisonOperator, b: number | string): boolean => {
+  switch (operator) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '=': return a === b;
+    case '!=': return a !== b;
+    case '>=': return a >= b;
+    case '>': return a > b;
+  }
+};
+
+type RowCheck = (row: Record<string, unknown>) => boolean | null; // null: rule doesn't apply to the row
+
+const buildRowCheck = (rule: ValidationRule, dataset: Dataset, datasets: Dataset[]): RowCheck => {
+  const typeOf = (name: string) => dataset.columns.find(col => col.name === name)?.type;
+  switch (rule.kind) {
+    case 'not_null':
+      return row => !isMissingValue(row[rule.column]);
+
+    case 'unique': {
+      const seen = new Set<string>();
+      return row => {
+        const values = rule.columns.map(name => row[name]);
+        if (values.every(isMissingValue)) return null;
+        const key = JSON.stringify(values.map(value => (isMissingValue(value) ? null : String(value))));
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      };
+    }
+
+    case 'allowed_values': {
+      const normalize = (value: unknown) => (rule.caseSensitive === false ? String(value).toLowerCase() : String(value));
+      const allowed = new Set(rule.values.map(normalize));
+      return row => (isMissingValue(row[rule.column]) ? null : allowed.has(normalize(row[rule.column])));
+    }
+
+    case 'regex': {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(rule.pattern, rule.flags?.replace('g', '')); // a global regex would keep state between rows
+      } catch {
+        throw new Error(`Invalid pattern /${rule.pattern}/`);
+      }
+      return row => (isMissingValue(row[rule.column]) ? null : regex.test(String(row[rule.column])));
+    }
+
+    case 'range': {
+      const type = typeOf(rule.column);
+      const min = rule.min === undefined ? undefined : toComparable(rule.min, type);
+      const max = rule.max === undefined ? undefined : toComparable(rule.max, type);
+      return row => {
+        if (isMissingValue(row[rule.column])) return null;
+        const value = toComparable(row[rule.column], type);
+        return (min === undefined || value >= min) && (max === undefined || value <= max);
+      };
+    }
+
+    case 'compare': {
+      const leftType = typeOf(rule.left);
+      const rightType = typeOf(rule.right);
+      return row => {
+        if (isMissingValue(row[rule.left]) || isMissingValue(row[rule.right])) return null;
+        return compareValues(toComparable(row[rule.left], leftType), rule.operator, toComparable(row[rule.right], rightType));
+      };
+    }
+
+    case 'reference': {
+      const target = datasets.find(ds => ds.id === rule.datasetId);
+      if (!target) throw new Error('Reference dataset not found');
+      if (!target.columns.some(col => col.name === rule.referenceColumn)) {
+        throw new Error(`Column ${rule.referenceColumn} not found in ${target.name}`);
+      }
+      const keys = new Set(target.data.map(row => String(row[rule.referenceColumn]).trim()));
+      return row => (isMissingValue(row[rule.column]) ? null : keys.has(String(row[rule.column]).trim()));
+    }
+  }
+};
+
+const evaluateRule = (
+  rule: ValidationRule,
+  dataset: Dataset,
+  datasets: Dataset[],
+  source: RuleResult['source'],
+  offendingRows: Set<number>
+): RuleResult => {
+  const result: RuleResult = {
+    rule, label: describeValidationRule(rule, datasets), source, status: 'passed', checked: 0, violations: 0, samples: []
+  };
+
+  const columns = ruleColumns(rule);
+  const missing = columns.filter(name => !dataset.columns.some(col => col.name === name));
+  if (missing.length > 0) {
+    return { ...result, status: 'error', message: `Column ${missing.join(', ')} not found` };
+  }
+
+  let check: RowCheck;
+  try {
+    check = buildRowCheck(rule, dataset, datasets);
+  } catch (error) {
+    return { ...result, status: 'error', message: error instanceof Error ? error.message : String(error) };
+  }
+
+  dataset.data.forEach((row, rowIndex) => {
+    const outcome = check(row);
+    if (outcome === null) return;
+    result.checked++;
+    if (outcome) return;
+    result.violations++;
+    offendingRows.add(rowIndex);
+    if (result.samples.length < MAX_VIOLATION_SAMPLES) {
+      result.samples.push({ rowIndex, values: Object.fromEntries(columns.map(name => [name, row[name]])) });
+    }
+  });
+
+  if (result.violations > 0) result.status = 'failed';
+  return result;
+};
+
+/**
+ * Check one rule against every row
+ */
+export const checkRule = (
+  rule: ValidationRule,
+  dataset: Dataset,
+  datasets: Dataset[] = [],
+  source: RuleResult['source'] = 'dataset'
+): RuleResult => evaluateRule(rule, dataset, datasets, source, new Set());
+
+/**
+ * All rules that apply to a dataset: those implied by its columns, then its own rules
+ */
+export const getDatasetRules = (dataset: Dataset): { rule: ValidationRule; source: RuleResult['source'] }[] => [
+  ...dataset.columns.flatMap(getColumnRules).map(rule => ({ rule, source: 'column' as const })),
+  ...(dataset.validationRules || []).map(rule => ({ rule, source: 'dataset' as const }))
+];
+
+/**
+ * Check every rule of a dataset. Referential rules look up their target in datasets.
+ */
+export const validateDataset = (dataset: Dataset, datasets: Dataset[] = []): ValidationReport => {
+  const offendingRows = new Set<number>();
+  const results = getDatasetRules(dataset).map(({ rule, source }) =>
+    evaluateRule(rule, dataset, datasets, source, offendingRows));
+
+  return {
+    results,
+    passed: results.filter(r => r.status === 'passed').length,
+    failed: results.filter(r => r.status === 'failed').length,
+    errors: results.filter(r => r.status === 'error').length,
+    rowsWithViolations: offendingRows.size
+  };
+};
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeColumn } from './dataUtils';
+import {
+  aggregationAlias,
+  detectWideColumns,
+  groupByDataset,
+  mergeColumns,
+  pivotDataset,
+  splitColumn,
+  unpivotDataset
+} from './datasetTransforms';
+import { Dataset } from './types';
+
+const table = (data: Record<string, unknown>[]): Dataset => ({
+  id: 'sales',
+  name: 'Sales',
+  description: '',
+  columns: Object.keys(data[0]).map(column => analyzeColumn(column, data.map(row => row[column]))),
+  rowCount: data.length,
+  dataTypes: {},
+  data
+});
+
+const sales = table([
+  { region: 'North', quarter: 'Q1', amount: 10 },
+  { region: 'North', quarter: 'Q2', amount: 20 },
+  { region: 'North', quarter: 'Q2', amount: 5 },
+  { region: 'South', quarter: 'Q1', amount: 40 },
+  { region: 'South', quarter: null, amount: 1 }
+]);
+
+describe('groupByDataset', () => {
+  it('aggregates per group and filters groups with having', () => {
+    const grouped = groupByDataset(sales, {
+      keys: ['region'],
+      aggregations: [{ column: 'amount', aggregation: 'sum' }, { column: '', aggregation: 'count' }]
+    });
+    expect(grouped.data).toEqual([
+      { region: 'North', sum_amount: 35, count: 3 },
+      { region: 'South', sum_amount: 41, count: 2 }
+    ]);
+
+    const having = groupByDataset(sales, {
+      keys: ['region'],
+      aggregations: [{ column: 'amount', aggregation: 'avg', alias: 'average' }],
+      having: [{ column: 'average', operator: '>', value: 15 }]
+    });
+    expect(having.data).toEqual([{ region: 'South', average: 20.5 }]);
+  });
+
+  it('summarizes everything into one row without keys', () => {
+    const summary = groupByDataset(sales, {
+      keys: [],
+      aggregations: [{ column: 'amount', aggregation: 'percentile', percentile: 50 }, { column: 'amount', aggregation: 'max' }]
+    });
+    expect(summary.data).toEqual([{ p50_amount: 10, max_amount: 40 }]);
+  });
+
+  it('names aggregations and rejects incomplete ones', () => {
+    expect(aggregationAlias({ column: 'amount', aggregation: 'percentile', percentile: 90 })).toBe('p90_amount');
+    expect(aggregationAlias({ column: 'amount', aggregation: 'sum', alias: ' total ' })).toBe('total');
+    expect(() => groupByDataset(sales, { keys: ['region'], aggregations: [] })).toThrow('Add at least one aggregation');
+    expect(() => groupByDataset(sales, { keys: ['region'], aggregations: [{ column: '', aggregation: 'sum' }] }))
+      .toThrow('Choose the column to aggregate');
+    expect(() => groupByDataset(sales, {
+      keys: [],
+      aggregations: [{ column: 'amount', aggregation: 'percentile', percentile: 120 }]
+    })).toThrow('Percentiles must be between 0 and 100');
+  });
+});
+
+describe('pivotDataset and unpivotDataset', () => {
+  it('spreads values into one column per pivot value, blanks included', () => {
+    const pivoted = pivotDataset(sales, { index: ['region'], columns: 'quarter', values: 'amount', aggregation: 'sum' });
+    expect(pivoted.columns.map(col => col.name)).toEqual(['region', 'Q1', 'Q2', '(blank)']);
+    expect(pivoted.data).toEqual([
+      { region: 'North', Q1: 10, Q2: 25, '(blank)': null },
+      { region: 'South', Q1: 40, Q2: null, '(blank)': 1 }
+    ]);
+    expect(() => pivotDataset(sales, { index: ['quarter'], columns: 'quarter', values: 'amount', aggregation: 'sum' }))
+      .toThrow('The pivot column cannot also be an index column');
+  });
+
+  it('melts wide period columns back into rows', () => {
+    const wide = table([
+      { region: 'North', Jan: 1, Feb: 2 },
+      { region: 'South', Jan: 3, Feb: null }
+    ]);
+    expect(detectWideColumns(wide)).toEqual(['Jan', 'Feb']);
+    const long = unpivotDataset(wide, {
+      idColumns: ['region'],
+      valueColumns: ['Jan', 'Feb'],
+      variableName: 'month',
+      valueName: 'amount',
+      dropMissing: true
+    });
+    expect(long.data).toEqual([
+      { region: 'North', month: 'Jan', amount: 1 },
+      { region: 'North', month: 'Feb', amount: 2 },
+      { region: 'South', month: 'Jan', amount: 3 }
+    ]);
+  });
+});
+
+describe('splitColumn and mergeColumns', () => {
+  const people = table([
+    { id: 1, name: 'Ama Owusu', city: 'Accra' },
+    { id: 2, name: 'Kofi', city: null }
+  ]);
+
+  it('splits on a delimiter into parts that take the column\'s place', () => {
+    const split = splitColumn(people, { column: 'name', delimiter: ' ', newColumns: ['first', 'last'] });
+    expect(split.columns.map(col => col.name)).toEqual(['id', 'first', 'last', 'city']);
+    expect(split.data).toEqual([
+      { id: 1, first: 'Ama', last: 'Owusu', city: 'Accra' },
+      { id: 2, first: 'Kofi', last: null, city: null }
+    ]);
+    expect(() => splitColumn(people, { column: 'city', delimiter: ',' })).toThrow('Nothing to split');
+    expect(() => splitColumn(people, { column: 'name', pattern: '(' })).toThrow('Invalid pattern /(/');
+  });
+
+  it('merges columns, leaving out missing values when asked', () => {
+    const merged = mergeColumns(people, { columns: ['name', 'city'], separator: ', ', newColumn: 'label', skipMissing: true });
+    expect(merged.columns.map(col => col.name)).toEqual(['id', 'label']);
+    expect(merged.data.map(row => row.label)).toEqual(['Ama Owusu, Accra', 'Kofi']);
+    expect(() => mergeColumns(people, { columns: ['name'], separator: ' ', newColumn: 'x' }))
+      .toThrow('Choose at least two columns to merge');
+  });
+});
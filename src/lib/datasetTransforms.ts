@@ -0,0 +1,536 @@
+// Dataset Transforms - Reshape and summarize operations that derive a new dataset
+// Group-by with aggregations and HAVING filters, pivot (rows to columns with an aggregation),
+// unpivot/melt (wide columns to long rows), split a column into several and merge several
+// columns into one. The source dataset is left untouched; column statistics of the result
+// are recomputed with updateDatasetStats.
+
+import { ColumnInfo, ComparisonOperator, Dataset } from './types';
+import { updateDatasetStats } from './dataUtils';
+import { isMissingValue } from './columnarStore';
+
+// ============================================================
+// Types
+// ============================================================
+
+type RowObject = Record<string, unknown>;
+
+export type GroupAggregation =
+  | 'count' | 'count_distinct' | 'sum' | 'avg' | 'min' | 'max'
+  | 'median' | 'percentile' | 'std' | 'first' | 'last';
+
+export interface GroupAggregationSpec {
+  column: string; // ignored by count when empty: counts rows
+  aggregation: GroupAggregation;
+  percentile?: number; // 0-100, for percentile
+  alias?: string; // output column name; e.g. sum_amount by default
+}
+
+export interface HavingFilter {
+  column: string; // an output column (key or aggregate alias)
+  operator: ComparisonOperator;
+  value: number | string;
+}
+
+export interface GroupByOptions {
+  keys: string[]; // no keys: a single summary row
+  aggregations: GroupAggregationSpec[];
+  having?: HavingFilter[];
+  name?: string; // name of the new dataset
+}
+
+export type PivotAggregation = 'sum' | 'avg' | 'count' | 'min' | 'max' | 'first';
+
+export interface PivotOptions {
+  index: string[]; // columns that identify an output row
+  columns: string; // column whose distinct values become output columns
+  values: string; // column aggregated into the cells
+  aggregation: PivotAggregation;
+}
+
+export interface UnpivotOptions {
+  idColumns: string[]; // kept on every output row
+  valueColumns: string[]; // wide columns turned into rows
+  variableName: string; // output column holding the former column name
+  valueName: string; // output column holding the value
+  dropMissing?: boolean; // skip cells that are empty
+}
+
+export interface SplitColumnOptions {
+  column: string;
+  delimiter?: string; // literal separator
+  pattern?: string; // regex: capture groups become the parts, otherwise it's the separator
+  maxParts?: number; // the last part keeps any remainder
+  newColumns?: string[]; // names of the parts; column_1, column_2, ... by default
+  keepOriginal?: boolean;
+}
+
+export interface MergeColumnsOptions {
+  columns: string[];
+  separator: string;
+  newColumn: string;
+  keepOriginals?: boolean;
+  skipMissing?: boolean; // leave empty values out instead of joining them as ''
+}
+
+export const GROUP_AGGREGATION_LABELS: Record<GroupAggregation, string> = {
+  count: 'Count',
+  count_distinct: 'Count distinct',
+  sum: 'Sum',
+  avg: 'Average',
+  min: 'Minimum',
+  max: 'Maximum',
+  median: 'Median',
+  percentile: 'Percentile',
+  std: 'Standard deviation',
+  first: 'First value',
+  last: 'Last value'
+};
+
+export const PIVOT_AGGREGATION_LABELS: Record<PivotAggregation, string> = {
+  sum: 'Sum',
+  avg: 'Average',
+  count: 'Count',
+  min: 'Minimum',
+  max: 'Maximum',
+  first: 'First value'
+};
+
+const MAX_PIVOT_COLUMNS = 500;
+const MAX_SPLIT_PARTS = 50;
+
+// ============================================================
+// Helpers
+// ============================================================
+
+const assertColumns = (dataset: Dataset, names: string[]) => {
+  const missing = names.filter(name => !dataset.columns.some(col => col.name === name));
+  if (missing.length > 0) {
+    throw new Error(`Column ${missing.join(', ')} not found`);
+  }
+};
+
+// A carried-over column keeps all its metadata; a new column only inherits what its values mean
+const sourceColumn = (dataset: Dataset, name: string): ColumnInfo =>
+  dataset.columns.find(col => col.name === name) as ColumnInfo;
+
+const newColumn = (name: string, semantic?: ColumnInfo['semantic']): ColumnInfo =>
+  ({ name, type: 'string', sampleValues: [], nullCount: 0, uniqueCount: 0, semantic });
+
+/**
+ * Build the derived dataset. Columns carried over from the source keep their metadata
+ * (currency, validation, ...); all statistics are recomputed from the new rows.
+ */
+const deriveDataset = (source: Dataset, label: string, data: RowObject[], columns: ColumnInfo[], name?: string): Dataset =>
+  updateDatasetStats({
+    id: `dataset-${Date.now()}`,
+    name: name?.trim() || `${source.name} (${label})`,
+    description: `${label} of ${source.name}`,
+    columns,
+    rowCount: data.length,
+    dataTypes: {},
+    data,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+const uniqueName = (name: string, taken: Set<string>): string => {
+  let candidate = name;
+  for (let n = 2; taken.has(candidate); n++) candidate = `${name}_${n}`;
+  taken.add(candidate);
+  return candidate;
+};
+
+// Rows whose key values read the same as text (1 and "1") share a group; missing values
+// group together as null, apart from any text
+const groupKeyOf = (row: RowObject, keys: string[]): string =>
+  JSON.stringify(keys.map(name => (isMissingValue(row[name]) ? null : String(row[name]))));
+
+// ============================================================
+// Group by
+// ============================================================
+
+const quantile = (sorted: number[], fraction: number): number => {
+  const rank = Math.min(Math.max(fraction, 0), 1) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+const aggregateValues = (rowCount: number, values: unknown[], spec: GroupAggregationSpec): unknown => {
+  const present = values.filter(value => !isMissingValue(value));
+  if (spec.aggregation === 'count') return spec.column ? present.length : rowCount;
+  if (spec.aggregation === 'count_distinct') return new Set(present.map(value => String(value))).size;
+  if (spec.aggregation === 'first') return present[0] ?? null;
+  if (spec.aggregation === 'last') return present[present.length - 1] ?? null;
+
+  const numbers = present.map(value => Number(value)).filter(number => !isNaN(number));
+  if (numbers.length === 0) return null;
+  const sum = numbers.reduce((total, number) => total + number, 0);
+  switch (spec.aggregation) {
+    case 'sum':
+      return sum;
+    case 'avg':
+      return sum / numbers.length;
+    case 'min':
+      return numbers.reduce((min, number) => Math.min(min, number), Infinity);
+    case 'max':
+      return numbers.reduce((max, number) => Math.max(max, number), -Infinity);
+    case 'median':
+      return quantile(numbers.sort((a, b) => a - b), 0.5);
+    case 'percentile':
+      return quantile(numbers.sort((a, b) => a - b), (spec.percentile ?? 50) / 100);
+    case 'std': {
+      if (numbers.length < 2) return null;
+      const mean = sum / numbers.length;
+      return Math.sqrt(numbers.reduce((total, number) => total + (number - mean) ** 2, 0) / (numbers.length - 1));
+    }
+  }
+};
+
+/**
+ * Default output name of an aggregation, e.g. sum_amount, p90_amount, count
+ */
+export const aggregationAlias = (spec: GroupAggregationSpec): string => {
+  if (spec.alias?.trim()) return spec.alias.trim();
+  if (spec.aggregation === 'count' && !spec.column) return 'count';
+  const prefix = spec.aggregation === 'percentile' ? `p${spec.percentile ?? 50}` : spec.aggregation;
+  return `${prefix}_${spec.column}`;
+};
+
+const matchesHaving = (row: RowObject, filter: HavingFilter): boolean => {
+  const value = row[filter.column];
+  if (isMissingValue(value)) return false;
+  const bothNumbers = typeof value === 'number' && !isNaN(Number(filter.value)) && String(filter.value).trim() !== '';
+  const left = bothNumbers ? value as number : String(value);
+  const right = bothNumbers ? Number(filter.value) : String(filter.value);
+  switch (filter.operator) {
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '=': return left === right;
+    case '!=': return left !== right;
+    case '>=': return left >= right;
+    case '>': return left > right;
+  }
+};
+
+/**
+ * Group rows by key columns and compute aggregations per group, optionally keeping only
+ * the groups that pass HAVING filters on the aggregated values
+ */
+export const groupByDataset = (dataset: Dataset, options: GroupByOptions): Dataset => {
+  const { keys, aggregations, having = [] } = options;
+  if (aggregations.length === 0) throw new Error('Add at least one aggregation');
+  assertColumns(dataset, [...keys, ...aggregations.map(spec => spec.column).filter(Boolean)]);
+  if (aggregations.some(spec => !spec.column && spec.aggregation !== 'count')) {
+    throw new Error('Choose the column to aggregate');
+  }
+  if (aggregations.some(spec => spec.aggregation === 'percentile' &&
+    (spec.percentile === undefined || spec.percentile < 0 || spec.percentile > 100))) {
+    throw new Error('Percentiles must be between 0 and 100');
+  }
+
+  const taken = new Set(keys);
+  const aliases = aggregations.map(spec => uniqueName(aggregationAlias(spec), taken));
+  const unknownHaving = having.filter(filter => !taken.has(filter.column));
+  if (unknownHaving.length > 0) {
+    throw new Error(`HAVING column ${unknownHaving.map(filter => filter.column).join(', ')} is not a key or an aggregation`);
+  }
+
+  const groups = new Map<string, RowObject[]>();
+  dataset.data.forEach(row => {
+    const groupKey = groupKeyOf(row, keys);
+    const members = groups.get(groupKey);
+    if (members) members.push(row);
+    else groups.set(groupKey, [row]);
+  });
+
+  const data = [...groups.values()]
+    .map(members => {
+      const row: RowObject = Object.fromEntries(keys.map(name => [name, members[0][name]]));
+      aggregations.forEach((spec, i) => {
+        row[aliases[i]] = aggregateValues(members.length, spec.column ? members.map(member => member[spec.column]) : [], spec);
+      });
+      return row;
+    })
+    .filter(row => having.every(filter => matchesHaving(row, filter)));
+
+  // Aggregates measured in the source's units keep their meaning (e.g. a currency)
+  const keepsUnits: GroupAggregation[] = ['sum', 'avg', 'min', 'max', 'median', 'percentile', 'std', 'first', 'last'];
+  const columns = [
+    ...keys.map(name => sourceColumn(dataset, name)),
+    ...aggregations.map((spec, i) => newColumn(
+      aliases[i],
+      keepsUnits.includes(spec.aggregation) ? sourceColumn(dataset, spec.column).semantic : undefined
+    ))
+  ];
+  const label = keys.length > 0 ? `by ${keys.join(', ')}` : 'summary';
+  return deriveDataset(dataset, label, data, columns, options.name);
+};
+
+// ============================================================
+// Pivot
+// ============================================================
+
+interface Accumulator {
+  sum: number;
+  count: number; // non-missing values
+  numbers: number; // numeric values
+  min: number;
+  max: number;
+  first: unknown;
+}
+
+const aggregate = (acc: Accumulator, aggregation: PivotAggregation): unknown => {
+  switch (aggregation) {
+    case 'sum':
+      return acc.numbers > 0 ? acc.sum : null;
+    case 'avg':
+      return acc.numbers > 0 ? acc.sum / acc.numbers : null;
+    case 'count':
+      return acc.count;
+    case 'min':
+      return acc.numbers > 0 ? acc.min : null;
+    case 'max':
+      return acc.numbers > 0 ? acc.max : null;
+    case 'first':
+      return acc.first ?? null;
+  }
+};
+
+/**
+ * Pivot: one row per combination of index values, one column per distinct value of the
+ * pivot column, cells aggregated from the value column
+ */
+export const pivotDataset = (dataset: Dataset, options: PivotOptions): Dataset => {
+  const { index, columns: pivotColumn, values: valueColumn, aggregation } = options;
+  if (index.length === 0) throw new Error('Choose at least one index column');
+  assertColumns(dataset, [...index, pivotColumn, valueColumn]);
+  if (index.includes(pivotColumn)) throw new Error('The pivot column cannot also be an index column');
+
+  // Output column for each distinct pivot value, in first-seen order. Blanks are keyed by null,
+  // so an actual "(blank)" value gets a column of its own.
+  const pivotKey = (row: RowObject): string | null =>
+    (isMissingValue(row[pivotColumn]) ? null : String(row[pivotColumn]));
+  const taken = new Set(index);
+  const outputColumns = new Map<string | null, string>();
+  dataset.data.forEach(row => {
+    const key = pivotKey(row);
+    if (!outputColumns.has(key)) outputColumns.set(key, uniqueName(key ?? '(blank)', taken));
+  });
+  if (outputColumns.size > MAX_PIVOT_COLUMNS) {
+    throw new Error(`${pivotColumn} has ${outputColumns.size} distinct values; pivoting supports up to ${MAX_PIVOT_COLUMNS}`);
+  }
+
+  const groups = new Map<string, { keyRow: RowObject; cells: Map<string | null, Accumulator> }>();
+  dataset.data.forEach(row => {
+    const groupKey = groupKeyOf(row, index);
+    let group = groups.get(groupKey);
+    if (!group) {
+      group = { keyRow: Object.fromEntries(index.map(name => [name, row[name]])), cells: new Map() };
+      groups.set(groupKey, group);
+    }
+    const cellKey = pivotKey(row);
+    let acc = group.cells.get(cellKey);
+    if (!acc) {
+      acc = { sum: 0, count: 0, numbers: 0, min: Infinity, max: -Infinity, first: undefined };
+      group.cells.set(cellKey, acc);
+    }
+    const value = row[valueColumn];
+    if (isMissingValue(value)) return;
+    acc.count++;
+    if (acc.first === undefined) acc.first = value;
+    const number = Number(value);
+    if (!isNaN(number)) {
+      acc.numbers++;
+      acc.sum += number;
+      acc.min = Math.min(acc.min, number);
+      acc.max = Math.max(acc.max, number);
+    }
+  });
+
+  const data = [...groups.values()].map(({ keyRow, cells }) => {
+    const row: RowObject = { ...keyRow };
+    outputColumns.forEach((name, key) => {
+      const acc = cells.get(key);
+      row[name] = acc ? aggregate(acc, aggregation) : aggregation === 'count' ? 0 : null;
+    });
+    return row;
+  });
+
+  // Sums, averages and extremes keep the value column's meaning (e.g. its currency)
+  const semantic = aggregation === 'count' ? undefined : sourceColumn(dataset, valueColumn).semantic;
+  const columns = [
+    ...index.map(name => sourceColumn(dataset, name)),
+    ...[...outputColumns.values()].map(name => newColumn(name, semantic))
+  ];
+  return deriveDataset(dataset, `pivot of ${valueColumn} by ${pivotColumn}`, data, columns);
+};
+
+// ============================================================
+// Unpivot
+// ============================================================
+
+const MONTH_NAME = /\b(jan(uary)?|feb(ruary)?|mar(ch)?|apr(il)?|may|june?|july?|aug(ust)?|sep(t(ember)?)?|oct(ober)?|nov(ember)?|dec(ember)?)\b/i;
+const PERIOD_NAME = /^(\d{4}[-/.]\d{1,2}|\d{1,2}[-/.]\d{4}|(19|20)\d{2}|q[1-4]\b.*|.*\bq[1-4]|fy\s?\d{2,4}|h[12]\s?\d{2,4}|(week|wk|month|period)\s?\d+)$/i;
+
+/**
+ * Columns that look like one measure spread over periods (Jan, Feb, ... / 2023, 2024 /
+ * Q1 2024 ...), the usual candidates for unpivoting. Empty unless there are at least two.
+ */
+export const detectWideColumns = (dataset: Dataset): string[] => {
+  const periodColumns = dataset.columns
+    .filter(col => col.type === 'number' && (MONTH_NAME.test(col.name) || PERIOD_NAME.test(col.name.trim())))
+    .map(col => col.name);
+  return periodColumns.length >= 2 ? periodColumns : [];
+};
+
+/**
+ * Unpivot (melt): each value column of a row becomes its own row of
+ * id columns + variable (the former column name) + value
+ */
+export const unpivotDataset = (dataset: Dataset, options: UnpivotOptions): Dataset => {
+  const { idColumns, valueColumns, dropMissing } = options;
+  if (valueColumns.length === 0) throw new Error('Choose the columns to unpivot');
+  assertColumns(dataset, [...idColumns, ...valueColumns]);
+  if (valueColumns.some(name => idColumns.includes(name))) {
+    throw new Error('A column cannot be both an id column and a value column');
+  }
+  const taken = new Set(idColumns);
+  const variableName = uniqueName(options.variableName.trim() || 'variable', taken);
+  const valueName = uniqueName(options.valueName.trim() || 'value', taken);
+
+  const data: RowObject[] = [];
+  dataset.data.forEach(row => {
+    valueColumns.forEach(name => {
+      if (dropMissing && isMissingValue(row[name])) return;
+      const melted: RowObject = {};
+      idColumns.forEach(id => { melted[id] = row[id]; });
+      melted[variableName] = name;
+      melted[valueName] = row[name];
+      data.push(melted);
+    });
+  });
+
+  // The value column keeps the wide columns' meaning when they all share it
+  const semantics = valueColumns.map(name => sourceColumn(dataset, name).semantic);
+  const shared = semantics.every(semantic => semantic?.type === semantics[0]?.type) ? semantics[0] : undefined;
+  const columns = [
+    ...idColumns.map(name => sourceColumn(dataset, name)),
+    newColumn(variableName),
+    newColumn(valueName, shared)
+  ];
+  return deriveDataset(dataset, 'unpivoted', data, columns);
+};
+
+// ============================================================
+// Split and merge columns
+// ============================================================
+
+const splitValue = (text: string, options: SplitColumnOptions, regex: RegExp | null): string[] => {
+  const maxParts = Math.min(options.maxParts || MAX_SPLIT_PARTS, MAX_SPLIT_PARTS);
+  let parts: string[];
+  if (regex) {
+    const match = text.match(regex);
+    // Capture groups are the parts themselves; a pattern without groups is a separator
+    parts = match && match.length > 1 ? match.slice(1).map(part => part ?? '') : text.split(regex);
+  } else {
+    parts = text.split(options.delimiter as string);
+  }
+  if (parts.length > maxParts) {
+    const separator = regex ? ' ' : options.delimiter as string;
+    parts = [...parts.slice(0, maxParts - 1), parts.slice(maxParts - 1).join(separator)];
+  }
+  return parts.map(part => part.trim());
+};
+
+/**
+ * Split a column into several on a delimiter or regular expression
+ */
+export const splitColumn = (dataset: Dataset, options: SplitColumnOptions): Dataset => {
+  const { column } = options;
+  assertColumns(dataset, [column]);
+  if (!options.delimiter && !options.pattern) throw new Error('Enter a delimiter or a pattern');
+
+  let regex: RegExp | null = null;
+  if (options.pattern) {
+    try {
+      regex = new RegExp(options.pattern);
+    } catch {
+      throw new Error(`Invalid pattern /${options.pattern}/`);
+    }
+  }
+
+  const splitRows = dataset.data.map(row =>
+    (isMissingValue(row[column]) ? [] : splitValue(String(row[column]), options, regex)));
+  const partCount = Math.max(options.newColumns?.length || 0, ...splitRows.map(parts => parts.length));
+  if (partCount < 2 && !options.newColumns?.length) {
+    throw new Error(`Nothing to split: no value of ${column} contains the separator`);
+  }
+
+  const taken = new Set(dataset.columns.map(col => col.name).filter(name => name !== column || options.keepOriginal));
+  const partNames = Array.from({ length: partCount }, (_, i) =>
+    uniqueName(options.newColumns?.[i]?.trim() || `${column}_${i + 1}`, taken));
+
+  const data = dataset.data.map((row, r) => {
+    const next: RowObject = {};
+    Object.keys(row).forEach(key => {
+      if (key === column) {
+        if (options.keepOriginal) next[key] = row[key];
+        partNames.forEach((name, i) => { next[name] = splitRows[r][i] ?? null; });
+      } else {
+        next[key] = row[key];
+      }
+    });
+    return next;
+  });
+
+  // The parts take the split column's place
+  const columns = dataset.columns.flatMap(col => {
+    if (col.name !== column) return [col];
+    const parts = partNames.map(name => newColumn(name));
+    return options.keepOriginal ? [col, ...parts] : parts;
+  });
+  return deriveDataset(dataset, `${column} split`, data, columns);
+};
+
+/**
+ * Concatenate several columns into one
+ */
+export const mergeColumns = (dataset: Dataset, options: MergeColumnsOptions): Dataset => {
+  const { columns: sources, separator, keepOriginals, skipMissing } = options;
+  if (sources.length < 2) throw new Error('Choose at least two columns to merge');
+  assertColumns(dataset, sources);
+
+  const taken = new Set(dataset.columns.map(col => col.name).filter(name => keepOriginals || !sources.includes(name)));
+  const mergedName = uniqueName(options.newColumn.trim() || sources.join('_'), taken);
+
+  const data = dataset.data.map(row => {
+    const parts = sources
+      .map(name => row[name])
+      .filter(value => !skipMissing || !isMissingValue(value))
+      .map(value => (isMissingValue(value) ? '' : String(value)));
+    const next: RowObject = {};
+    let placed = false;
+    Object.keys(row).forEach(key => {
+      if (sources.includes(key)) {
+        if (!placed) {
+          next[mergedName] = parts.length > 0 ? parts.join(separator) : null;
+          placed = true;
+        }
+        if (keepOriginals) next[key] = row[key];
+      } else {
+        next[key] = row[key];
+      }
+    });
+    if (!placed) next[mergedName] = parts.length > 0 ? parts.join(separator) : null;
+    return next;
+  });
+
+  // The merged column takes the place of the first source column
+  const firstIndex = dataset.columns.findIndex(col => sources.includes(col.name));
+  const columns = dataset.columns.flatMap((col, i) => {
+    const merged = i === firstIndex ? [newColumn(mergedName)] : [];
+    return sources.includes(col.name) && !keepOriginals ? merged : [...merged, col];
+  });
+  return deriveDataset(dataset, `${sources.join(' + ')} merged`, data, columns);
+};
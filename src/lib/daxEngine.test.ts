@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeColumn } from './dataUtils';
+import {
+  addCalculatedColumn,
+  evaluateCalculatedColumn,
+  evaluateDAXFormula,
+  parseDAXFormula,
+  tokenizeDAX
+} from './daxEngine';
+import { Dataset, Relationship } from './types';
+
+const table = (id: string, name: string, data: Record<string, unknown>[]): Dataset => {
+  const columns = Object.keys(data[0]).map(column => analyzeColumn(column, data.map(row => row[column])));
+  return {
+    id,
+    name,
+    description: '',
+    columns,
+    rowCount: data.length,
+    dataTypes: Object.fromEntries(columns.map(col => [col.name, col.type])),
+    data
+  };
+};
+
+const sales = table('sales', 'Sales', [
+  { Region: 'West', Amount: 10, ProductId: 'p1' },
+  { Region: 'East', Amount: 20, ProductId: 'p2' },
+  { Region: 'West', Amount: 30, ProductId: 'p1' }
+]);
+
+const products = table('products', 'Products', [
+  { ProductId: 'p1', Category: 'Tools' },
+  { ProductId: 'p2', Category: 'Toys' }
+]);
+
+const relationships: Relationship[] = [
+  {
+    id: 'r1',
+    fromDataset: 'sales',
+    toDataset: 'products',
+    fromColumn: 'ProductId',
+    toColumn: 'ProductId',
+    type: 'one-to-many',
+    confidence: 1
+  }
+];
+
+const context = { dataset: sales, datasets: [sales, products], relationships };
+
+const evaluate = (formula: string) => evaluateDAXFormula(formula, context);
+
+describe('tokenizeDAX', () => {
+  it('reads table-qualified columns, strings and comments', () => {
+    const tokens = tokenizeDAX('SUM(Sales[Amount]) -- total\n+ "a""b"');
+    expect(tokens.map(token => token.type)).toEqual([
+      'identifier', 'lparen', 'identifier', 'column', 'rparen', 'operator', 'string', 'eof'
+    ]);
+    expect(tokens.find(token => token.type === 'string')?.value).toBe('a"b');
+  });
+
+  it('reports where an unterminated literal starts', () => {
+    expect(() => tokenizeDAX('SUM([Amount]) & "abc')).toThrow('Unterminated string literal (at character 17)');
+    expect(() => tokenizeDAX('SUM([Amount')).toThrow('Unterminated column reference (at character 5)');
+  });
+});
+
+describe('parseDAXFormula', () => {
+  it('returns the error and its 0-based position', () => {
+    expect(parseDAXFormula('1 +')).toMatchObject({ success: false, position: 3 });
+    expect(parseDAXFormula('SUM([Amount]) )')).toMatchObject({
+      success: false,
+      error: expect.stringContaining('after end of expression'),
+      position: 14
+    });
+    expect(parseDAXFormula('')).toMatchObject({ success: false });
+  });
+
+  it('reads unquoted and bracketed declarations', () => {
+    expect(parseDAXFormula('Total Sales = SUM(Sales[Amount])')).toMatchObject({ success: true, name: 'Total Sales' });
+    expect(parseDAXFormula('[Total Sales] = SUM([Amount])')).toMatchObject({ success: true, name: 'Total Sales' });
+  });
+
+  it('treats a leading source column as a comparison, not a declaration', () => {
+    const parsed = parseDAXFormula('[Region] = "West"', sales);
+    expect(parsed.success).toBe(true);
+    expect(parsed.name).toBeUndefined();
+  });
+});
+
+describe('evaluateDAXFormula', () => {
+  it('applies operator precedence', () => {
+    expect(evaluate('-2^2').value).toBe(-4);
+    expect(evaluate('1 + 2 * 3').value).toBe(7);
+    expect(evaluate('"a" & 1 + 1').value).toBe('a2');
+  });
+
+  it('aggregates columns with and without a table name', () => {
+    expect(evaluate('SUM(Sales[Amount])').value).toBe(60);
+    expect(evaluate('Total Sales = SUM(Sales[Amount])').value).toBe(60);
+    expect(evaluate('AVERAGE([Amount])').value).toBe(20);
+    expect(evaluate('COUNTROWS(Sales)').value).toBe(3);
+  });
+
+  it('narrows the filter context with CALCULATE', () => {
+    expect(evaluate('CALCULATE(SUM([Amount]), Sales[Region] = "West")').value).toBe(40);
+    expect(evaluate('CALCULATE(SUM(Sales[Amount]), Products[Category] = "Toys")').value).toBe(20);
+  });
+
+  it('ranks a value against a table with RANKX', () => {
+    expect(evaluate('RANKX(Sales, [Amount], 25)').value).toBe(2);
+    expect(evaluate('RANKX(Sales, [Amount], 25, ASC)').value).toBe(3);
+    expect(evaluate('RANKX(Sales, [Amount], , ASC)')).toMatchObject({ success: false });
+    expect(evaluate('RANKX(Sales, [Amount], 25, UP)').error).toContain('RANKX order must be ASC or DESC');
+  });
+
+  it('locates evaluation errors', () => {
+    const unknown = evaluate('1 + FOO(1)');
+    expect(unknown.success).toBe(false);
+    expect(unknown.error).toBe('Unknown function FOO (at character 5)');
+    expect(unknown.position).toBe(4);
+
+    const missing = evaluate('SUM([Price])');
+    expect(missing.error).toContain('Column "Price" not found in table "Sales"');
+    expect(missing.position).toBe(4);
+  });
+
+  it('divides safely with DIVIDE', () => {
+    expect(evaluate('DIVIDE(1, 0, -1)').value).toBe(-1);
+    expect(evaluate('DIVIDE(SUM([Amount]), 3)').value).toBe(20);
+  });
+});
+
+describe('evaluateCalculatedColumn', () => {
+  it('evaluates the formula once per row', () => {
+    expect(evaluateCalculatedColumn('[Amount] * 2', context).values).toEqual([20, 40, 60]);
+    expect(evaluateCalculatedColumn('[Region] = "West"', context).values).toEqual([true, false, true]);
+    expect(evaluateCalculatedColumn('RANKX(Sales, [Amount])', context).values).toEqual([3, 2, 1]);
+  });
+
+  it('reads the related row with RELATED', () => {
+    expect(evaluateCalculatedColumn('RELATED(Products[Category])', context).values).toEqual(['Tools', 'Toys', 'Tools']);
+  });
+
+  it('reports the failing row', () => {
+    const result = evaluateCalculatedColumn('Sales', context);
+    expect(result.success).toBe(false);
+    expect(result.row).toBe(1);
+    expect(result.error).toMatch(/^Row 1: /);
+  });
+});
+
+describe('addCalculatedColumn', () => {
+  it('stores the expression and the computed values', () => {
+    const result = addCalculatedColumn('Double', '[Amount] * 2', context);
+    expect(result.success).toBe(true);
+    expect(result.column).toMatchObject({ name: 'Double', expression: '[Amount] * 2', isCustom: true });
+    expect(result.dataset!.data.map(row => row.Double)).toEqual([20, 40, 60]);
+  });
+
+  it('refuses to replace a source column', () => {
+    expect(addCalculatedColumn('Amount', '[Amount] * 2', context)).toMatchObject({
+      success: false,
+      error: 'A source column named "Amount" already exists'
+    });
+  });
+});
@@ -0,0 +1,1582 @@
+// DAX Expression Engine - Tokenizer, parser and evaluator for custom calculations
+// Turns formulas such as DIVIDE(SUM(Sales[Amount]), COUNTROWS(Orders)) into an AST and
+// evaluates it against the loaded datasets, delegating the maths to kpiFormulaEngine
+
+import { Dataset, ColumnInfo, Relationship, DAXFilterContext } from './types';
+import { analyzeColumn } from './dataUtils';
+import { getRelationshipColumns } from './smartDataConnector';
+import { FilterEdge, ModelFilters, getFilterEdges, getFilteringTables, propagateFilters } from './crossFilter';
+import {
+  KPIFormula,
+  executeKPIFormula,
+  applyFilterContext,
+  calculateWithContext,
+  calculateTotalYTD,
+  calculateTotalQTD,
+  calculateTotalMTD,
+  calculateSamePeriodLastYear,
+  calculateYoYChange,
+  calculateQoQChange,
+  calculateMoMChange,
+  calculateRunningTotal,
+  calculateIF,
+  calculateSWITCH,
+  calculateRELATED,
+  calculateLOOKUPVALUE,
+  calculateRANKX
+} from './kpiFormulaEngine';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type DAXTokenType =
+  | 'number'
+  | 'string'
+  | 'identifier'
+  | 'column'
+  | 'operator'
+  | 'lparen'
+  | 'rparen'
+  | 'lbrace'
+  | 'rbrace'
+  | 'comma'
+  | 'eof';
+
+export interface DAXToken {
+  type: DAXTokenType;
+  value: string;
+  position: number;
+  quoted?: boolean; // 'Table Name' style identifiers
+}
+
+export type DAXBinaryOperator =
+  | '+' | '-' | '*' | '/' | '^' | '&'
+  | '=' | '==' | '<>' | '<' | '>' | '<=' | '>='
+  | '&&' | '||' | 'IN' | 'NOT IN';
+
+export type DAXNode =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'boolean'; value: boolean; position: number }
+  | { kind: 'blank'; position: number }
+  | { kind: 'column'; table?: string; column: string; position: number }
+  | { kind: 'table'; name: string; position: number }
+  | { kind: 'call'; name: string; args: DAXNode[]; position: number }
+  | { kind: 'unary'; operator: '-' | '+'; operand: DAXNode; position: number }
+  | { kind: 'binary'; operator: DAXBinaryOperator; left: DAXNode; right: DAXNode; position: number }
+  | { kind: 'list'; items: DAXNode[]; position: number };
+
+export interface DAXParseResult {
+  success: boolean;
+  ast?: DAXNode;
+  name?: string; // declared name in "Name = expression" formulas
+  error?: string;
+  position?: number; // 0-based character offset of the error
+}
+
+export interface DAXEvaluationContext {
+  dataset: Dataset; // the "current" table for unqualified column references
+  datasets?: Dataset[]; // every loaded table, for Table[Column] references
+  relationships?: Relationship[]; // used by RELATED
+  filters?: DAXFilterContext[]; // initial filter context on the current dataset
+  modelFilters?: ModelFilters; // slicer filters by dataset id, propagated through relationships
+}
+
+export interface DAXEvaluationResult {
+  success: boolean;
+  value: unknown;
+  error?: string;
+  position?: number;
+}
+
+export interface DAXColumnResult {
+  success: boolean;
+  values: unknown[];
+  error?: string;
+  position?: number;
+  row?: number; // 1-based row that failed to evaluate
+}
+
+export interface CalculatedColumnResult {
+  success: boolean;
+  dataset?: Dataset;
+  column?: ColumnInfo;
+  error?: string;
+  position?: number;
+}
+
+type DAXScalar = string | number | boolean | Date | null;
+
+interface DAXTableValue {
+  kind: 'table';
+  dataset: Dataset;
+  rows: Record<string, unknown>[];
+}
+
+interface ColumnReference {
+  dataset: Dataset;
+  column: string;
+}
+
+interface EvaluationScope {
+  context: DAXEvaluationContext;
+  datasets: Dataset[];
+  filters: Map<string, DAXFilterContext[]>;
+  row?: { dataset: Dataset; values: Record<string, unknown> };
+  cache: Map<string, unknown>;
+}
+
+type DAXFunction = (args: DAXNode[], scope: EvaluationScope, node: DAXNode) => unknown;
+
+// ============================================================
+// Errors
+// ============================================================
+
+/**
+ * Create an Error that carries the character offset it refers to
+ */
+const daxError = (message: string, position?: number): Error =>
+  Object.assign(new Error(position !== undefined ? `${message} (at character ${position + 1})` : message), {
+    position
+  });
+
+const positionOf = (error: unknown): number | undefined => {
+  const position = (error as { position?: unknown })?.position;
+  return typeof position === 'number' ? position : undefined;
+};
+
+// ============================================================
+// Tokenizer
+// ============================================================
+
+const TWO_CHAR_OPERATORS = ['&&', '||', '<=', '>=', '<>', '=='];
+const ONE_CHAR_OPERATORS = ['+', '-', '*', '/', '^', '&', '=', '<', '>'];
+
+/**
+ * Split a DAX formula into tokens. Throws with a position on invalid input.
+ */
+export const tokenizeDAX = (formula: string): DAXToken[] => {
+  const tokens: DAXToken[] = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const char = formula[i];
+
+    // Whitespace
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Comments: // line, -- line, /* block */
+    if ((char === '/' && formula[i + 1] === '/') || (char === '-' && formula[i + 1] === '-')) {
+      while (i < formula.length && formula[i] !== '\n') i++;
+      continue;
+    }
+    if (char === '/' && formula[i + 1] === '*') {
+      const end = formula.indexOf('*/', i + 2);
+      if (end === -1) throw daxError('Unterminated comment', i);
+      i = end + 2;
+      continue;
+    }
+
+    // Numbers: 12, 3.5, .5, 1e3
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(formula[i + 1] || ''))) {
+      const match = formula.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+      tokens.push({ type: 'number', value: match![0], position: i });
+      i += match![0].length;
+      continue;
+    }
+
+    // String literals: "text" with "" as an escaped quote
+    if (char === '"') {
+      const start = i;
+      let value = '';
+      i++;
+      while (true) {
+        if (i >= formula.length) throw daxError('Unterminated string literal', start);
+        if (formula[i] === '"') {
+          if (formula[i + 1] === '"') {
+            value += '"';
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += formula[i++];
+      }
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    // Quoted table names: 'Sales Table'
+    if (char === "'") {
+      const start = i;
+      const end = formula.indexOf("'", i + 1);
+      if (end === -1) throw daxError('Unterminated table name', start);
+      tokens.push({ type: 'identifier', value: formula.slice(i + 1, end), position: start, quoted: true });
+      i = end + 1;
+      continue;
+    }
+
+    // Column references: [Column Name] with ]] as an escaped bracket
+    if (char === '[') {
+      const start = i;
+      let value = '';
+      i++;
+      while (true) {
+        if (i >= formula.length) throw daxError('Unterminated column reference', start);
+        if (formula[i] === ']') {
+          if (formula[i + 1] === ']') {
+            value += ']';
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += formula[i++];
+      }
+      if (value.trim().length === 0) throw daxError('Empty column reference', start);
+      tokens.push({ type: 'column', value: value.trim(), position: start });
+      continue;
+    }
+
+    // Identifiers: function names, table names, TRUE/FALSE, STDEV.P
+    if (/[A-Za-z_]/.test(char)) {
+      const match = formula.slice(i).match(/^[A-Za-z_][A-Za-z0-9_.]*/);
+      tokens.push({ type: 'identifier', value: match![0], position: i });
+      i += match![0].length;
+      continue;
+    }
+
+    const pair = formula.slice(i, i + 2);
+    if (TWO_CHAR_OPERATORS.includes(pair)) {
+      tokens.push({ type: 'operator', value: pair, position: i });
+      i += 2;
+      continue;
+    }
+    if (ONE_CHAR_OPERATORS.includes(char)) {
+      tokens.push({ type: 'operator', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    switch (char) {
+      case '(': tokens.push({ type: 'lparen', value: char, position: i }); break;
+      case ')': tokens.push({ type: 'rparen', value: char, position: i }); break;
+      case '{': tokens.push({ type: 'lbrace', value: char, position: i }); break;
+      case '}': tokens.push({ type: 'rbrace', value: char, position: i }); break;
+      // Semicolons are the argument separator in several European locales
+      case ',':
+      case ';':
+        tokens.push({ type: 'comma', value: char, position: i });
+        break;
+      default:
+        throw daxError(`Unexpected character "${char}"`, i);
+    }
+    i++;
+  }
+
+  tokens.push({ type: 'eof', value: '', position: formula.length });
+  return tokens;
+};
+
+// ============================================================
+// Parser (precedence climbing)
+// ============================================================
+
+/**
+ * Parse tokens into an AST. Operator precedence follows DAX:
+ * || < && < comparison/IN < & < + - < * / < unary sign < ^
+ */
+const parseTokens = (tokens: DAXToken[]): DAXNode => {
+  let index = 0;
+
+  const peek = (offset = 0): DAXToken => tokens[Math.min(index + offset, tokens.length - 1)];
+  const next = (): DAXToken => tokens[index++];
+  const describe = (token: DAXToken) => (token.type === 'eof' ? 'end of formula' : `"${token.value}"`);
+
+  const expect = (type: DAXTokenType, label: string): DAXToken => {
+    const token = peek();
+    if (token.type !== type) {
+      throw daxError(`Expected ${label} but found ${describe(token)}`, token.position);
+    }
+    return next();
+  };
+
+  const isOperator = (value: string) => peek().type === 'operator' && peek().value === value;
+  const isKeyword = (value: string, offset = 0) =>
+    peek(offset).type === 'identifier' && !peek(offset).quoted && peek(offset).value.toUpperCase() === value;
+
+  const binary = (
+    operator: DAXBinaryOperator,
+    left: DAXNode,
+    right: DAXNode,
+    position: number
+  ): DAXNode => ({ kind: 'binary', operator, left, right, position });
+
+  const parseOr = (): DAXNode => {
+    let left = parseAnd();
+    while (isOperator('||')) {
+      const op = next();
+      left = binary('||', left, parseAnd(), op.position);
+    }
+    return left;
+  };
+
+  const parseAnd = (): DAXNode => {
+    let left = parseComparison();
+    while (isOperator('&&')) {
+      const op = next();
+      left = binary('&&', left, parseComparison(), op.position);
+    }
+    return left;
+  };
+
+  const parseComparison = (): DAXNode => {
+    let left = parseConcat();
+    while (true) {
+      const token = peek();
+      if (token.type === 'operator' && ['=', '==', '<>', '<', '>', '<=', '>='].includes(token.value)) {
+        next();
+        left = binary(token.value as DAXBinaryOperator, left, parseConcat(), token.position);
+      } else if (isKeyword('IN')) {
+        next();
+        left = binary('IN', left, parseConcat(), token.position);
+      } else if (isKeyword('NOT') && isKeyword('IN', 1)) {
+        next();
+        next();
+        left = binary('NOT IN', left, parseConcat(), token.position);
+      } else {
+        return left;
+      }
+    }
+  };
+
+  const parseConcat = (): DAXNode => {
+    let left = parseAdditive();
+    while (isOperator('&')) {
+      const op = next();
+      left = binary('&', left, parseAdditive(), op.position);
+    }
+    return left;
+  };
+
+  const parseAdditive = (): DAXNode => {
+    let left = parseMultiplicative();
+    while (isOperator('+') || isOperator('-')) {
+      const op = next();
+      left = binary(op.value as DAXBinaryOperator, left, parseMultiplicative(), op.position);
+    }
+    return left;
+  };
+
+  const parseMultiplicative = (): DAXNode => {
+    let left = parseUnary();
+    while (isOperator('*') || isOperator('/')) {
+      const op = next();
+      left = binary(op.value as DAXBinaryOperator, left, parseUnary(), op.position);
+    }
+    return left;
+  };
+
+  // A leading sign applies to the whole power: -2^2 is -(2^2)
+  const parseUnary = (): DAXNode => {
+    if (isOperator('-') || isOperator('+')) {
+      const op = next();
+      return { kind: 'unary', operator: op.value as '-' | '+', operand: parseUnary(), position: op.position };
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): DAXNode => {
+    let left = parsePrimary();
+    while (isOperator('^')) {
+      const op = next();
+      left = binary('^', left, parseExponent(), op.position);
+    }
+    return left;
+  };
+
+  // The exponent may carry its own sign (2^-1) without grouping further powers
+  const parseExponent = (): DAXNode => {
+    if (isOperator('-') || isOperator('+')) {
+      const op = next();
+      return { kind: 'unary', operator: op.value as '-' | '+', operand: parseExponent(), position: op.position };
+    }
+    return parsePrimary();
+  };
+
+  const parseArguments = (): DAXNode[] => {
+    const args: DAXNode[] = [];
+    expect('lparen', '"("');
+    if (peek().type === 'rparen') {
+      next();
+      return args;
+    }
+    while (true) {
+      // Skipped optional arguments, e.g. RANKX(Sales, [Amount], , ASC)
+      if (peek().type === 'comma' || peek().type === 'rparen') {
+        args.push({ kind: 'blank', position: peek().position });
+      } else {
+        args.push(parseOr());
+      }
+      if (peek().type === 'comma') {
+        next();
+        continue;
+      }
+      expect('rparen', '"," or ")"');
+      return args;
+    }
+  };
+
+  const parsePrimary = (): DAXNode => {
+    const token = peek();
+
+    switch (token.type) {
+      case 'number':
+        next();
+        return { kind: 'number', value: Number(token.value), position: token.position };
+
+      case 'string':
+        next();
+        return { kind: 'string', value: token.value, position: token.position };
+
+      case 'column':
+        next();
+        return { kind: 'column', column: token.value, position: token.position };
+
+      case 'lparen': {
+        next();
+        const inner = parseOr();
+        expect('rparen', '")"');
+        return inner;
+      }
+
+      case 'lbrace': {
+        next();
+        const items: DAXNode[] = [];
+        if (peek().type !== 'rbrace') {
+          items.push(parseOr());
+          while (peek().type === 'comma') {
+            next();
+            items.push(parseOr());
+          }
+        }
+        expect('rbrace', '"}"');
+        return { kind: 'list', items, position: token.position };
+      }
+
+      case 'identifier': {
+        next();
+        // Table[Column]
+        if (peek().type === 'column') {
+          const column = next();
+          return { kind: 'column', table: token.value, column: column.value, position: token.position };
+        }
+        // FUNCTION(args)
+        if (!token.quoted && peek().type === 'lparen') {
+          return { kind: 'call', name: token.value.toUpperCase(), args: parseArguments(), position: token.position };
+        }
+        const upper = token.value.toUpperCase();
+        if (!token.quoted && (upper === 'TRUE' || upper === 'FALSE')) {
+          return { kind: 'boolean', value: upper === 'TRUE', position: token.position };
+        }
+        return { kind: 'table', name: token.value, position: token.position };
+      }
+
+      default:
+        throw daxError(`Unexpected ${describe(token)}`, token.position);
+    }
+  };
+
+  const ast = parseOr();
+  const trailing = peek();
+  if (trailing.type !== 'eof') {
+    throw daxError(`Unexpected ${describe(trailing)} after end of expression`, trailing.position);
+  }
+  return ast;
+};
+
+/**
+ * A leading "Total Sales =" or "[Total Sales] =" declaration: its name and token count.
+ * A bracketed name that is a source column of the dataset starts a comparison instead,
+ * e.g. [Region] = "West".
+ */
+const readDeclaration = (tokens: DAXToken[], dataset?: Dataset): { name: string; length: number } | null => {
+  const isAssignment = (token: DAXToken) => token.type === 'operator' && token.value === '=';
+  if (tokens[0].type === 'column' && tokens.length > 3 && isAssignment(tokens[1])) {
+    const name = tokens[0].value;
+    const isSourceColumn = dataset?.columns.some(col => col.name === name && !col.expression);
+    return isSourceColumn ? null : { name, length: 2 };
+  }
+  let words = 0;
+  while (tokens[words].type === 'identifier' && !tokens[words].quoted) words++;
+  if (words > 0 && tokens.length > words + 2 && isAssignment(tokens[words])) {
+    return { name: tokens.slice(0, words).map(token => token.value).join(' '), length: words + 1 };
+  }
+  return null;
+};
+
+/**
+ * Parse a DAX formula. A leading "Name =" or "[Name] =" declaration is accepted and returned
+ * as the name; given the dataset, "[Column] = value" on one of its columns stays a comparison.
+ */
+export const parseDAXFormula = (formula: string, dataset?: Dataset): DAXParseResult => {
+  if (!formula || formula.trim().length === 0) {
+    return { success: false, error: 'Formula is empty', position: 0 };
+  }
+
+  try {
+    const tokens = tokenizeDAX(formula);
+    // Strip a "Measure Name =" declaration and report the declared name
+    const declaration = readDeclaration(tokens, dataset);
+    return {
+      success: true,
+      ast: parseTokens(declaration ? tokens.slice(declaration.length) : tokens),
+      name: declaration?.name
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Invalid DAX formula',
+      position: positionOf(error)
+    };
+  }
+};
+
+// ============================================================
+// Value helpers
+// ============================================================
+
+const isTable = (value: unknown): value is DAXTableValue =>
+  typeof value === 'object' && value !== null && (value as DAXTableValue).kind === 'table';
+
+const isBlank = (value: unknown): boolean => value === null || value === undefined || value === '';
+
+const toNumber = (value: unknown): number => {
+  if (isBlank(value)) return 0;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.getTime();
+  return Number(value);
+};
+
+const toBoolean = (value: unknown): boolean => {
+  if (isBlank(value)) return false;
+  if (typeof value === 'string') return !['false', '0', 'no'].includes(value.toLowerCase());
+  return Boolean(value);
+};
+
+const toDate = (value: unknown): Date | null => {
+  if (isBlank(value)) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const toText = (value: unknown): string => {
+  if (isBlank(value)) return '';
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  return String(value);
+};
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Wrap a plain list of values as a one-column dataset so kpiFormulaEngine can aggregate it
+ */
+const valuesAsDataset = (values: unknown[], base: Dataset): Dataset => ({
+  ...base,
+  columns: [{ name: 'value', type: 'number', sampleValues: [], nullCount: 0, uniqueCount: 0 }],
+  data: values.map(value => ({ value })),
+  rowCount: values.length
+});
+
+const normalizeName = (name: string): string =>
+  name.toLowerCase().replace(/\.(csv|tsv|xlsx|xls|json)$/i, '').replace(/[\s_-]+/g, '');
+
+const datasetHasColumn = (dataset: Dataset, column: string): boolean =>
+  dataset.columns.some(col => col.name === column) ||
+  (dataset.data.length > 0 && Object.prototype.hasOwnProperty.call(dataset.data[0], column));
+
+// ============================================================
+// Scope helpers
+// ============================================================
+
+const currentDataset = (scope: EvaluationScope): Dataset => scope.row?.dataset || scope.context.dataset;
+
+/**
+ * Resolve a table name to a dataset: exact name, name without extension,
+ * or the sheet part of "workbook.xlsx - Sheet1"
+ */
+const findDataset = (name: string, scope: EvaluationScope): Dataset | undefined => {
+  const target = normalizeName(name);
+  return (
+    scope.datasets.find(ds => ds.name === name) ||
+    scope.datasets.find(ds => normalizeName(ds.name) === target) ||
+    scope.datasets.find(ds => normalizeName(ds.name.split(' - ').pop() || '') === target)
+  );
+};
+
+const filtersFor = (dataset: Dataset, scope: EvaluationScope): DAXFilterContext[] =>
+  scope.filters.get(dataset.id) || [];
+
+/**
+ * Filter edges of the model's relationships (computed once per evaluation)
+ */
+const filterEdges = (scope: EvaluationScope): FilterEdge[] => {
+  let edges = scope.cache.get('filter-edges') as FilterEdge[] | undefined;
+  if (!edges) {
+    edges = getFilterEdges(scope.datasets, scope.context.relationships || []);
+    scope.cache.set('filter-edges', edges);
+  }
+  return edges;
+};
+
+const activeFilters = (scope: EvaluationScope): [string, DAXFilterContext[]][] =>
+  Array.from(scope.filters).filter(([, filters]) => filters.length > 0);
+
+const filteredRows = (dataset: Dataset, scope: EvaluationScope): Record<string, unknown>[] => {
+  const active = activeFilters(scope);
+  if (active.length === 0) return dataset.data;
+  const edges = filterEdges(scope);
+  if (edges.length === 0) {
+    const filters = filtersFor(dataset, scope);
+    return filters.length > 0 ? applyFilterContext(dataset.data, filters) : dataset.data;
+  }
+
+  // Filters on related tables reach this one through the relationships. Only the latest
+  // filter state is kept: row-context CALCULATE changes it on every row.
+  const key = JSON.stringify(active);
+  let cached = scope.cache.get('cross-filter') as { key: string; rows: Map<string, Record<string, unknown>[]> } | undefined;
+  if (!cached || cached.key !== key) {
+    cached = { key, rows: propagateFilters(scope.datasets, edges, Object.fromEntries(active)).rows };
+    scope.cache.set('cross-filter', cached);
+  }
+  return cached.rows.get(dataset.id) ?? dataset.data;
+};
+
+const filteredDataset = (dataset: Dataset, scope: EvaluationScope): Dataset => {
+  const rows = filteredRows(dataset, scope);
+  return rows === dataset.data ? dataset : { ...dataset, data: rows, rowCount: rows.length };
+};
+
+/**
+ * Resolve a node that names a column: Table[Column], [Column], or a bare
+ * identifier matching a column of the current table (legacy SUM(Amount) style)
+ */
+const resolveColumn = (node: DAXNode, scope: EvaluationScope): ColumnReference | null => {
+  if (node.kind === 'column') {
+    const current = currentDataset(scope);
+    if (node.table) {
+      const dataset = findDataset(node.table, scope);
+      if (dataset && datasetHasColumn(dataset, node.column)) return { dataset, column: node.column };
+      if (!dataset && datasetHasColumn(current, node.column)) return { dataset: current, column: node.column };
+      throw daxError(
+        dataset ? `Column "${node.column}" not found in table "${dataset.name}"` : `Table "${node.table}" not found`,
+        node.position
+      );
+    }
+    if (datasetHasColumn(current, node.column)) return { dataset: current, column: node.column };
+    throw daxError(`Column "${node.column}" not found in table "${current.name}"`, node.position);
+  }
+  if (node.kind === 'table' && !findDataset(node.name, scope)) {
+    const current = currentDataset(scope);
+    if (datasetHasColumn(current, node.name)) return { dataset: current, column: node.name };
+  }
+  return null;
+};
+
+const requireColumn = (node: DAXNode, scope: EvaluationScope, fn: string): ColumnReference => {
+  const ref = resolveColumn(node, scope);
+  if (!ref) throw daxError(`${fn} expects a column reference such as Table[Column]`, node.position);
+  return ref;
+};
+
+/**
+ * Resolve a table expression: a table name, FILTER(...), ALL(...)
+ */
+const resolveTable = (node: DAXNode, scope: EvaluationScope, fn: string): DAXTableValue => {
+  const value = evaluateNode(node, scope);
+  if (isTable(value)) return value;
+  throw daxError(`${fn} expects a table`, node.position);
+};
+
+const expectArgs = (node: DAXNode, args: DAXNode[], min: number, max: number = min): void => {
+  if (args.length < min || args.length > max) {
+    const name = node.kind === 'call' ? node.name : 'Function';
+    const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min}-${max}`;
+    throw daxError(`${name} expects ${expected} argument(s) but received ${args.length}`, node.position);
+  }
+};
+
+/**
+ * Extract the value column from a measure argument: SUM(Table[Col]) or Table[Col]
+ */
+const measureColumn = (node: DAXNode, scope: EvaluationScope, fn: string): ColumnReference => {
+  if (node.kind === 'call' && node.name === 'SUM' && node.args.length === 1) {
+    return requireColumn(node.args[0], scope, fn);
+  }
+  return requireColumn(node, scope, fn);
+};
+
+// ============================================================
+// Evaluation
+// ============================================================
+
+const compareValues = (left: unknown, right: unknown): number => {
+  const leftNumber = toNumber(left);
+  const rightNumber = toNumber(right);
+  if (!isNaN(leftNumber) && !isNaN(rightNumber)) return leftNumber - rightNumber;
+  return toText(left).toLowerCase().localeCompare(toText(right).toLowerCase());
+};
+
+const valuesEqual = (left: unknown, right: unknown): boolean => {
+  if (isBlank(left) || isBlank(right)) return isBlank(left) && isBlank(right);
+  if (typeof left === 'boolean' || typeof right === 'boolean') return toBoolean(left) === toBoolean(right);
+  return compareValues(left, right) === 0;
+};
+
+const assertScalar = (value: unknown, node: DAXNode): DAXScalar => {
+  if (Array.isArray(value) || isTable(value)) {
+    throw daxError(
+      'A column or table cannot be used as a single value here; wrap it in an aggregation such as SUM',
+      node.position
+    );
+  }
+  return value as DAXScalar;
+};
+
+const evaluateBinary = (node: Extract<DAXNode, { kind: 'binary' }>, scope: EvaluationScope): unknown => {
+  // Short-circuit logical operators
+  if (node.operator === '&&') {
+    return toBoolean(assertScalar(evaluateNode(node.left, scope), node.left)) &&
+      toBoolean(assertScalar(evaluateNode(node.right, scope), node.right));
+  }
+  if (node.operator === '||') {
+    return toBoolean(assertScalar(evaluateNode(node.left, scope), node.left)) ||
+      toBoolean(assertScalar(evaluateNode(node.right, scope), node.right));
+  }
+
+  const left = assertScalar(evaluateNode(node.left, scope), node.left);
+
+  if (node.operator === 'IN' || node.operator === 'NOT IN') {
+    const list = evaluateNode(node.right, scope);
+    const items = Array.isArray(list) ? list : isTable(list) ? list.rows.map(r => Object.values(r)[0]) : [list];
+    const found = items.some(item => valuesEqual(left, item));
+    return node.operator === 'IN' ? found : !found;
+  }
+
+  const right = assertScalar(evaluateNode(node.right, scope), node.right);
+
+  switch (node.operator) {
+    case '+': return toNumber(left) + toNumber(right);
+    case '-': return toNumber(left) - toNumber(right);
+    case '*': return toNumber(left) * toNumber(right);
+    case '/': return toNumber(right) === 0 ? null : toNumber(left) / toNumber(right);
+    case '^': return Math.pow(toNumber(left), toNumber(right));
+    case '&': return toText(left) + toText(right);
+    case '=':
+    case '==': return valuesEqual(left, right);
+    case '<>': return !valuesEqual(left, right);
+    case '<': return compareValues(left, right) < 0;
+    case '>': return compareValues(left, right) > 0;
+    case '<=': return compareValues(left, right) <= 0;
+    case '>=': return compareValues(left, right) >= 0;
+    default: throw daxError(`Unsupported operator "${node.operator}"`, node.position);
+  }
+};
+
+const evaluateNode = (node: DAXNode, scope: EvaluationScope): unknown => {
+  switch (node.kind) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value;
+
+    case 'blank':
+      return null;
+
+    case 'list':
+      return node.items.map(item => assertScalar(evaluateNode(item, scope), item));
+
+    case 'unary': {
+      const value = toNumber(assertScalar(evaluateNode(node.operand, scope), node.operand));
+      return node.operator === '-' ? -value : value;
+    }
+
+    case 'binary':
+      return evaluateBinary(node, scope);
+
+    case 'column': {
+      const ref = resolveColumn(node, scope)!;
+      // Row context: the value of this column in the current row
+      if (scope.row && scope.row.dataset.id === ref.dataset.id) return scope.row.values[ref.column];
+      if (scope.row) {
+        throw daxError(`Use RELATED to read "${ref.column}" from table "${ref.dataset.name}" in a row context`, node.position);
+      }
+      // No row context: the (filtered) column values
+      return filteredRows(ref.dataset, scope).map(row => row[ref.column]);
+    }
+
+    case 'table': {
+      const dataset = findDataset(node.name, scope);
+      if (dataset) return { kind: 'table', dataset, rows: filteredRows(dataset, scope) } as DAXTableValue;
+      const ref = resolveColumn(node, scope);
+      if (ref) return evaluateNode({ kind: 'column', column: ref.column, position: node.position }, scope);
+      // "Table" is the conventional placeholder for the current table, e.g. COUNTROWS(Table)
+      if (node.name.toUpperCase() === 'TABLE') {
+        const current = currentDataset(scope);
+        return { kind: 'table', dataset: current, rows: filteredRows(current, scope) } as DAXTableValue;
+      }
+      throw daxError(`Unknown table or column "${node.name}"`, node.position);
+    }
+
+    case 'call': {
+      const fn = DAX_FUNCTIONS[node.name];
+      if (!fn) throw daxError(`Unknown function ${node.name}`, node.position);
+      return fn(node.args, scope, node);
+    }
+  }
+};
+
+// ============================================================
+// Function library
+// ============================================================
+
+/**
+ * Aggregations run over filteredDataset so results honour the filter context, including
+ * filters that reach the table through relationships
+ */
+const aggregation = (formula: KPIFormula): DAXFunction => (args, scope, node) => {
+  // MIN/MAX with two scalars behave like DAX's two-argument form
+  if ((formula === 'MIN' || formula === 'MAX') && args.length === 2) {
+    const a = toNumber(assertScalar(evaluateNode(args[0], scope), args[0]));
+    const b = toNumber(assertScalar(evaluateNode(args[1], scope), args[1]));
+    return formula === 'MIN' ? Math.min(a, b) : Math.max(a, b);
+  }
+  expectArgs(node, args, 1);
+
+  const ref = resolveColumn(args[0], scope);
+  if (ref) {
+    // Calculated columns repeat the same aggregate for every row; compute it once per filter context
+    const active = activeFilters(scope);
+    const cacheKey = `agg:${formula}:${ref.dataset.id}:${ref.column}:${JSON.stringify(active)}`;
+    if (!scope.cache.has(cacheKey)) {
+      // Filters on the column's own table only: CALCULATE's own implementation applies them
+      const ownFiltersOnly = active.every(([datasetId]) => datasetId === ref.dataset.id);
+      scope.cache.set(cacheKey, ownFiltersOnly
+        ? calculateWithContext(ref.dataset, formula, ref.column, filtersFor(ref.dataset, scope))
+        : executeKPIFormula(filteredDataset(ref.dataset, scope), formula, ref.column));
+    }
+    return scope.cache.get(cacheKey);
+  }
+
+  // Aggregating a computed list, e.g. SUM(YEAR([OrderDate]))
+  const value = evaluateNode(args[0], scope);
+  const values = Array.isArray(value) ? value : [assertScalar(value, args[0])];
+  return executeKPIFormula(valuesAsDataset(values, currentDataset(scope)), formula, 'value');
+};
+
+/**
+ * Iterators (SUMX, AVERAGEX, ...) evaluate an expression once per row of a table
+ */
+const iterator = (formula: KPIFormula): DAXFunction => (args, scope, node) => {
+  expectArgs(node, args, 2);
+  const table = resolveTable(args[0], scope, node.kind === 'call' ? node.name : 'Iterator');
+  const values = table.rows.map(row =>
+    assertScalar(evaluateNode(args[1], { ...scope, row: { dataset: table.dataset, values: row } }), args[1])
+  );
+  return executeKPIFormula(valuesAsDataset(values, table.dataset), formula, 'value');
+};
+
+/**
+ * Scalar functions applied to a column outside row context are lifted over its values
+ */
+const scalarFunction = (fn: (value: unknown) => unknown): DAXFunction => (args, scope, node) => {
+  expectArgs(node, args, 1);
+  const value = evaluateNode(args[0], scope);
+  if (Array.isArray(value)) return value.map(fn);
+  return fn(assertScalar(value, args[0]));
+};
+
+const datePart = (part: (date: Date) => number) =>
+  scalarFunction(value => {
+    const date = toDate(value);
+    return date ? part(date) : null;
+  });
+
+/**
+ * Convert a CALCULATE filter argument into DAXFilterContext entries keyed by dataset id
+ */
+const collectFilters = (
+  node: DAXNode,
+  scope: EvaluationScope,
+  target: Map<string, DAXFilterContext[]>
+): void => {
+  if (node.kind === 'binary' && node.operator === '&&') {
+    collectFilters(node.left, scope, target);
+    collectFilters(node.right, scope, target);
+    return;
+  }
+
+  // ALL(Table) / ALL(Table[Column]) removes filters; ALL(Table) also removes the filters
+  // that reach the table through relationships
+  if (node.kind === 'call' && (node.name === 'ALL' || node.name === 'REMOVEFILTERS')) {
+    for (const arg of node.args) {
+      const ref = resolveColumn(arg, scope);
+      if (ref) {
+        target.set(ref.dataset.id, (target.get(ref.dataset.id) || []).filter(f => f.column !== ref.column));
+      } else {
+        const datasetId = resolveTable(arg, { ...scope, filters: new Map() }, node.name).dataset.id;
+        [datasetId, ...getFilteringTables(datasetId, filterEdges(scope))].forEach(id => target.set(id, []));
+      }
+    }
+    return;
+  }
+
+  if (node.kind === 'binary') {
+    const flipped: Record<string, DAXFilterContext['operator']> = { '<': '>', '>': '<', '<=': '>=', '>=': '<=' };
+    const operators: Record<string, DAXFilterContext['operator']> = {
+      '=': '=', '==': '=', '<>': '!=', '<': '<', '>': '>', '<=': '<=', '>=': '>=', 'IN': 'IN', 'NOT IN': 'NOT IN'
+    };
+    const leftRef = resolveColumn(node.left, { ...scope, row: undefined });
+    const rightRef = node.operator === 'IN' || node.operator === 'NOT IN'
+      ? null
+      : resolveColumn(node.right, { ...scope, row: undefined });
+    const ref = leftRef || rightRef;
+    const valueNode = leftRef ? node.right : node.left;
+
+    if (ref && operators[node.operator]) {
+      const operator = leftRef ? operators[node.operator] : flipped[node.operator] || operators[node.operator];
+      const rawValue = evaluateNode(valueNode, scope);
+      const value = operator === 'IN' || operator === 'NOT IN'
+        ? (Array.isArray(rawValue) ? rawValue : [rawValue]).map(v => toText(v))
+        : assertScalar(rawValue, valueNode);
+      // A new filter on a column replaces any existing filter on the same column
+      const existing = (target.get(ref.dataset.id) || []).filter(f => f.column !== ref.column);
+      target.set(ref.dataset.id, [...existing, { column: ref.column, operator, value }]);
+      return;
+    }
+  }
+
+  throw daxError('CALCULATE filters must compare a column with a value, e.g. Sales[Region] = "West"', node.position);
+};
+
+/**
+ * Find the relationship linking two datasets, oriented from -> to
+ */
+const findRelationship = (
+  from: Dataset,
+  to: Dataset,
+  scope: EvaluationScope
+): { fromColumns: string[]; toColumns: string[] } | null => {
+  for (const rel of scope.context.relationships || []) {
+    const { fromColumns, toColumns } = getRelationshipColumns(rel);
+    if (rel.fromDataset === from.id && rel.toDataset === to.id) {
+      return { fromColumns, toColumns };
+    }
+    if (rel.toDataset === from.id && rel.fromDataset === to.id) {
+      return { fromColumns: toColumns, toColumns: fromColumns };
+    }
+  }
+  return null;
+};
+
+/**
+ * Lookup key of a row for a (possibly composite) relationship key
+ */
+const relationshipKey = (values: Record<string, unknown>, columns: string[]): string =>
+  columns.map(column => String(values[column]).toLowerCase()).join('\u001f');
+
+const percentile = (values: number[], k: number): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.min(Math.max(k, 0), 1) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+const numericColumnValues = (ref: ColumnReference, scope: EvaluationScope): number[] =>
+  filteredRows(ref.dataset, scope)
+    .map(row => Number(row[ref.column]))
+    .filter(v => !isNaN(v));
+
+const timeIntelligence = (
+  calculate: (dataset: Dataset, valueColumn: string, dateColumn: string, extra?: DAXScalar) => unknown
+): DAXFunction => (args, scope, node) => {
+  expectArgs(node, args, 2, 3);
+  const fn = node.kind === 'call' ? node.name : 'Function';
+  const value = measureColumn(args[0], scope, fn);
+  const date = requireColumn(args[1], scope, fn);
+  if (value.dataset.id !== date.dataset.id) {
+    throw daxError(`${fn} needs the value and date columns from the same table`, args[1].position);
+  }
+  const extra = args[2] ? assertScalar(evaluateNode(args[2], scope), args[2]) : undefined;
+  return calculate(filteredDataset(value.dataset, scope), value.column, date.column, extra);
+};
+
+const periodKey = (date: Date, interval: string): string => {
+  switch (interval) {
+    case 'YEAR': return `${date.getFullYear()}`;
+    case 'QUARTER': return `${date.getFullYear()}-Q${Math.ceil((date.getMonth() + 1) / 3)}`;
+    case 'DAY': return date.toISOString().split('T')[0];
+    default: return `${date.getFullYear()}-${date.getMonth()}`;
+  }
+};
+
+const shiftDate = (date: Date, offset: number, interval: string): Date => {
+  const shifted = new Date(date);
+  switch (interval) {
+    case 'YEAR': shifted.setFullYear(shifted.getFullYear() + offset); break;
+    case 'QUARTER': shifted.setMonth(shifted.getMonth() + offset * 3); break;
+    case 'DAY': shifted.setDate(shifted.getDate() + offset); break;
+    default: shifted.setMonth(shifted.getMonth() + offset);
+  }
+  return shifted;
+};
+
+const intervalName = (node: DAXNode | undefined, scope: EvaluationScope): string => {
+  if (!node) return 'MONTH';
+  const raw = node.kind === 'table' ? node.name : toText(assertScalar(evaluateNode(node, scope), node));
+  const interval = raw.toUpperCase();
+  if (!['DAY', 'MONTH', 'QUARTER', 'YEAR'].includes(interval)) {
+    throw daxError(`Unknown interval "${raw}"; use DAY, MONTH, QUARTER or YEAR`, node.position);
+  }
+  return interval;
+};
+
+const DAX_FUNCTIONS: Record<string, DAXFunction> = {
+  // Aggregations
+  SUM: aggregation('SUM'),
+  AVERAGE: aggregation('AVERAGE'),
+  COUNT: aggregation('COUNT'),
+  COUNTA: aggregation('COUNT'),
+  DISTINCTCOUNT: aggregation('DISTINCTCOUNT'),
+  MIN: aggregation('MIN'),
+  MAX: aggregation('MAX'),
+  MEDIAN: aggregation('MEDIAN'),
+  STDDEV: aggregation('STDDEV'),
+  'STDEV.P': aggregation('STDDEV'),
+  PERCENTAGE: aggregation('PERCENTAGE'),
+
+  COUNTROWS: (args, scope, node) => {
+    expectArgs(node, args, 0, 1);
+    if (args.length === 0) {
+      const current = currentDataset(scope);
+      return executeKPIFormula(filteredDataset(current, scope), 'COUNTROWS', '');
+    }
+    return resolveTable(args[0], scope, 'COUNTROWS').rows.length;
+  },
+
+  RATIO: (args, scope, node) => {
+    expectArgs(node, args, 2);
+    const numerator = requireColumn(args[0], scope, 'RATIO');
+    const denominator = requireColumn(args[1], scope, 'RATIO');
+    if (numerator.dataset.id !== denominator.dataset.id) {
+      throw daxError('RATIO needs both columns from the same table; use DIVIDE(SUM(...), SUM(...)) instead', node.position);
+    }
+    return executeKPIFormula(filteredDataset(numerator.dataset, scope), 'RATIO', numerator.column, denominator.column);
+  },
+
+  VARIANCE: (args, scope, node) => {
+    expectArgs(node, args, 1);
+    const ref = requireColumn(args[0], scope, 'VARIANCE');
+    return Math.pow(executeKPIFormula(filteredDataset(ref.dataset, scope), 'STDDEV', ref.column), 2);
+  },
+
+  PERCENTILE: (args, scope, node) => {
+    expectArgs(node, args, 2);
+    const ref = requireColumn(args[0], scope, 'PERCENTILE');
+    let k = toNumber(assertScalar(evaluateNode(args[1], scope), args[1]));
+    if (k > 1) k = k / 100; // accept PERCENTILE([x], 90) as well as 0.9
+    return percentile(numericColumnValues(ref, scope), k);
+  },
+
+  CORRELATION: (args, scope, node) => {
+    expectArgs(node, args, 2);
+    const x = requireColumn(args[0], scope, 'CORRELATION');
+    const y = requireColumn(args[1], scope, 'CORRELATION');
+    if (x.dataset.id !== y.dataset.id) {
+      throw daxError('CORRELATION needs both columns from the same table', node.position);
+    }
+    const pairs = filteredRows(x.dataset, scope)
+      .map(row => [Number(row[x.column]), Number(row[y.column])])
+      .filter(([a, b]) => !isNaN(a) && !isNaN(b));
+    if (pairs.length < 2) return null;
+    const meanX = pairs.reduce((s, [a]) => s + a, 0) / pairs.length;
+    const meanY = pairs.reduce((s, [, b]) => s + b, 0) / pairs.length;
+    let covariance = 0, varX = 0, varY = 0;
+    for (const [a, b] of pairs) {
+      covariance += (a - meanX) * (b - meanY);
+      varX += (a - meanX) ** 2;
+      varY += (b - meanY) ** 2;
+    }
+    const denominator = Math.sqrt(varX * varY);
+    return denominator === 0 ? 0 : covariance / denominator;
+  },
+
+  // Iterators and table functions
+  SUMX: iterator('SUM'),
+  AVERAGEX: iterator('AVERAGE'),
+  MINX: iterator('MIN'),
+  MAXX: iterator('MAX'),
+  COUNTX: iterator('COUNT'),
+
+  FILTER: (args, scope, node) => {
+    expectArgs(node, args, 2);
+    const table = resolveTable(args[0], scope, 'FILTER');
+    const rows = table.rows.filter(row =>
+      toBoolean(assertScalar(evaluateNode(args[1], { ...scope, row: { dataset: table.dataset, values: row } }), args[1]))
+    );
+    return { kind: 'table', dataset: table.dataset, rows } as DAXTableValue;
+  },
+
+  ALL: (args, scope, node) => {
+    expectArgs(node, args, 1);
+    return resolveTable(args[0], { ...scope, filters: new Map() }, 'ALL');
+  },
+
+  VALUES: (args, scope, node) => {
+    expectArgs(node, args, 1);
+    const value = evaluateNode(args[0], scope);
+    const values = Array.isArray(value) ? value : [value];
+    const unique = Array.from(new Set(values.filter(v => !isBlank(v)).map(v => (v instanceof Date ? toText(v) : v))));
+    return unique.sort((a, b) => compareValues(a, b));
+  },
+
+  // Scope and context
+  CALCULATE: (args, scope, node) => {
+    expectArgs(node, args, 1, Infinity);
+    const filters = new Map(scope.filters);
+    args.slice(1).forEach(arg => collectFilters(arg, scope, filters));
+    return evaluateNode(args[0], { ...scope, filters });
+  },
+
+  // Time intelligence
+  TOTALYTD: timeIntelligence((ds, value, date, ref) =>
+    calculateTotalYTD(ds, value, date, ref !== undefined ? toDate(ref) || undefined : undefined)),
+  TOTALQTD: timeIntelligence((ds, value, date, ref) =>
+    calculateTotalQTD(ds, value, date, ref !== undefined ? toDate(ref) || undefined : undefined)),
+  TOTALMTD: timeIntelligence((ds, value, date, ref) =>
+    calculateTotalMTD(ds, value, date, ref !== undefined ? toDate(ref) || undefined : undefined)),
+  SAMEPERIODLASTYEAR: timeIntelligence((ds, value, date, period) => {
+    const periodType = String(period || 'year').toLowerCase();
+    return calculateSamePeriodLastYear(
+      ds, value, date,
+      periodType === 'quarter' || periodType === 'month' ? periodType : 'year'
+    );
+  }),
+  YOY_CHANGE: timeIntelligence((ds, value, date) => calculateYoYChange(ds, value, date).percentage),
+  QOQ_CHANGE: timeIntelligence((ds, value, date) => calculateQoQChange(ds, value, date).percentage),
+  MOM_CHANGE: timeIntelligence((ds, value, date) => calculateMoMChange(ds, value, date).percentage),
+
+  DATEADD: (args, scope, node) => {
+    // DATEADD(SUM(Sales[Amount]), Sales[Date], -1, MONTH): total for the period offset from today
+    expectArgs(node, args, 3, 4);
+    const value = measureColumn(args[0], scope, 'DATEADD');
+    const date = requireColumn(args[1], scope, 'DATEADD');
+    const offset = Math.trunc(toNumber(assertScalar(evaluateNode(args[2], scope), args[2])));
+    const interval = intervalName(args[3], scope);
+    const targetKey = periodKey(shiftDate(new Date(), offset, interval), interval);
+
+    let total = 0;
+    for (const row of filteredRows(value.dataset, scope)) {
+      const rowDate = toDate(row[date.column]);
+      if (!rowDate || periodKey(rowDate, interval) !== targetKey) continue;
+      const amount = Number(row[value.column]);
+      if (!isNaN(amount)) total += amount;
+    }
+    return round2(total);
+  },
+
+  RUNNING_TOTAL: (args, scope, node) => {
+    expectArgs(node, args, 1, 2);
+    const value = requireColumn(args[0], scope, 'RUNNING_TOTAL');
+    const date = args[1] ? requireColumn(args[1], scope, 'RUNNING_TOTAL') : null;
+    return calculateRunningTotal(filteredDataset(value.dataset, scope), value.column, date?.column);
+  },
+
+  // Conditional
+  IF: (args, scope, node) => {
+    expectArgs(node, args, 2, 3);
+    const condition = args[0];
+
+    // Column-level IF outside row context, e.g. IF([Age] > 40, "Senior", "Junior")
+    if (!scope.row && condition.kind === 'binary' && ['=', '==', '<>', '<', '>', '<=', '>='].includes(condition.operator)) {
+      const ref = resolveColumn(condition.left, scope);
+      const literalResults = args.slice(1).every(arg => ['number', 'string', 'boolean', 'blank'].includes(arg.kind));
+      if (ref && literalResults) {
+        const operator = condition.operator === '==' ? '=' : condition.operator === '<>' ? '!=' : condition.operator;
+        return calculateIF(
+          filteredDataset(ref.dataset, scope),
+          ref.column,
+          operator as '=' | '!=' | '>' | '<' | '>=' | '<=',
+          assertScalar(evaluateNode(condition.right, scope), condition.right),
+          evaluateNode(args[1], scope),
+          args[2] ? evaluateNode(args[2], scope) : null
+        );
+      }
+    }
+
+    const result = toBoolean(assertScalar(evaluateNode(condition, scope), condition));
+    if (result) return evaluateNode(args[1], scope);
+    return args[2] ? evaluateNode(args[2], scope) : null;
+  },
+
+  SWITCH: (args, scope, node) => {
+    expectArgs(node, args, 3, Infinity);
+    const pairs = args.slice(1);
+    const defaultNode = pairs.length % 2 === 1 ? pairs[pairs.length - 1] : null;
+    const caseNodes = defaultNode ? pairs.slice(0, -1) : pairs;
+
+    // Column-level SWITCH outside row context
+    const ref = !scope.row ? resolveColumn(args[0], scope) : null;
+    if (ref) {
+      const cases: { value: unknown; result: unknown }[] = [];
+      for (let i = 0; i < caseNodes.length; i += 2) {
+        cases.push({
+          value: assertScalar(evaluateNode(caseNodes[i], scope), caseNodes[i]),
+          result: assertScalar(evaluateNode(caseNodes[i + 1], scope), caseNodes[i + 1])
+        });
+      }
+      const fallback = defaultNode ? assertScalar(evaluateNode(defaultNode, scope), defaultNode) : null;
+      return calculateSWITCH(filteredDataset(ref.dataset, scope), ref.column, cases, fallback);
+    }
+
+    const subject = assertScalar(evaluateNode(args[0], scope), args[0]);
+    for (let i = 0; i < caseNodes.length; i += 2) {
+      if (valuesEqual(subject, assertScalar(evaluateNode(caseNodes[i], scope), caseNodes[i]))) {
+        return evaluateNode(caseNodes[i + 1], scope);
+      }
+    }
+    return defaultNode ? evaluateNode(defaultNode, scope) : null;
+  },
+
+  DIVIDE: (args, scope, node) => {
+    expectArgs(node, args, 2, 3);
+    const numerator = toNumber(assertScalar(evaluateNode(args[0], scope), args[0]));
+    const denominator = toNumber(assertScalar(evaluateNode(args[1], scope), args[1]));
+    if (denominator === 0 || isNaN(denominator)) {
+      return args[2] ? evaluateNode(args[2], scope) : null;
+    }
+    return numerator / denominator;
+  },
+
+  AND: (args, scope, node) => {
+    expectArgs(node, args, 2);
+    return toBoolean(assertScalar(evaluateNode(args[0], scope), args[0])) &&
+      toBoolean(assertScalar(evaluateNode(args[1], scope), args[1]));
+  },
+  OR: (args, scope, node) => {
+    expectArgs(node, args, 2);
+    return toBoolean(assertScalar(evaluateNode(args[0], scope), args[0])) ||
+      toBoolean(assertScalar(evaluateNode(args[1], scope), args[1]));
+  },
+  NOT: scalarFunction(value => !toBoolean(value)),
+  ISBLANK: scalarFunction(value => isBlank(value)),
+  BLANK: (args, scope, node) => { expectArgs(node, args, 0); return null; },
+  TRUE: (args, scope, node) => { expectArgs(node, args, 0); return true; },
+  FALSE: (args, scope, node) => { expectArgs(node, args, 0); return false; },
+
+  // Ranking
+  RANKX: (args, scope, node) => {
+    // RANKX(Table, Table[Column] [, value] [, ASC|DESC])
+    expectArgs(node, args, 2, 4);
+    const table = resolveTable(args[0], { ...scope, row: undefined }, 'RANKX');
+    const ref = requireColumn(args[1], { ...scope, row: { dataset: table.dataset, values: {} } }, 'RANKX');
+    const isOrder = (arg?: DAXNode) => arg?.kind === 'table' && ['ASC', 'DESC'].includes(arg.name.toUpperCase());
+    const valueNode = args[2] && args[2].kind !== 'blank' && !isOrder(args[2]) ? args[2] : undefined;
+    const orderNode = args[3] && args[3].kind !== 'blank' ? args[3] : isOrder(args[2]) ? args[2] : undefined;
+    if (orderNode && !isOrder(orderNode)) {
+      throw daxError('RANKX order must be ASC or DESC', orderNode.position);
+    }
+    const order = orderNode?.kind === 'table' && orderNode.name.toUpperCase() === 'ASC' ? 'ASC' : 'DESC';
+
+    // The value form: where the value would rank among the column's values (ties share a rank)
+    if (valueNode) {
+      const value = toNumber(assertScalar(evaluateNode(valueNode, scope), valueNode));
+      const ahead = table.rows.filter(row => {
+        const other = Number(row[ref.column]) || 0;
+        return order === 'DESC' ? other > value : other < value;
+      }).length;
+      return ahead + 1;
+    }
+
+    // Otherwise the current row's rank, in a row context of the same table
+    if (!scope.row || scope.row.dataset.id !== table.dataset.id) {
+      throw daxError(`RANKX needs a row of "${table.dataset.name}" or a value to rank`, node.position);
+    }
+    const ranks = calculateRANKX({ ...table.dataset, data: table.rows, rowCount: table.rows.length }, ref.column, order);
+    const index = table.rows.indexOf(scope.row.values);
+    return index >= 0 ? ranks[index] : null;
+  },
+
+  // Cross-table
+  RELATED: (args, scope, node) => {
+    expectArgs(node, args, 1);
+    const target = requireColumn(args[0], { ...scope, row: undefined }, 'RELATED');
+    const source = currentDataset(scope);
+    const rel = findRelationship(source, target.dataset, scope);
+    if (!rel) {
+      throw daxError(`No relationship exists between "${source.name}" and "${target.dataset.name}"`, node.position);
+    }
+
+    if (!scope.row && rel.fromColumns.length === 1) {
+      return calculateRELATED(source, target.dataset, rel.fromColumns[0], rel.toColumns[0], target.column);
+    }
+
+    // Build (and cache) a key lookup for the related table
+    const cacheKey = `related:${target.dataset.id}:${rel.toColumns.join(',')}:${target.column}`;
+    let lookup = scope.cache.get(cacheKey) as Map<string, unknown> | undefined;
+    if (!lookup) {
+      lookup = new Map();
+      for (const row of target.dataset.data) {
+        const key = relationshipKey(row, rel.toColumns);
+        if (!lookup.has(key)) lookup.set(key, row[target.column]);
+      }
+      scope.cache.set(cacheKey, lookup);
+    }
+    if (!scope.row) {
+      return source.data.map(row => lookup!.get(relationshipKey(row, rel.fromColumns)) ?? null);
+    }
+    return lookup.get(relationshipKey(scope.row.values, rel.fromColumns)) ?? null;
+  },
+
+  LOOKUPVALUE: (args, scope, node) => {
+    // LOOKUPVALUE(Result[Col], Search[Col], value [, Search2[Col], value2 ...])
+    expectArgs(node, args, 3, Infinity);
+    if (args.length % 2 === 0) {
+      throw daxError('LOOKUPVALUE expects search column / value pairs', node.position);
+    }
+    const result = requireColumn(args[0], { ...scope, row: undefined }, 'LOOKUPVALUE');
+    const criteria: { column: string; value: unknown }[] = [];
+    for (let i = 1; i < args.length; i += 2) {
+      const search = requireColumn(args[i], { ...scope, row: undefined }, 'LOOKUPVALUE');
+      if (search.dataset.id !== result.dataset.id) {
+        throw daxError('LOOKUPVALUE search columns must belong to the result table', args[i].position);
+      }
+      criteria.push({ column: search.column, value: assertScalar(evaluateNode(args[i + 1], scope), args[i + 1]) });
+    }
+
+    if (criteria.length === 1) {
+      return calculateLOOKUPVALUE(result.dataset, result.column, criteria[0].column, criteria[0].value);
+    }
+    const match = result.dataset.data.find(row => criteria.every(c => valuesEqual(row[c.column], c.value)));
+    return match ? match[result.column] : null;
+  },
+
+  // Date parts
+  YEAR: datePart(date => date.getFullYear()),
+  QUARTER: datePart(date => Math.ceil((date.getMonth() + 1) / 3)),
+  MONTH: datePart(date => date.getMonth() + 1),
+  DAY: datePart(date => date.getDate()),
+  WEEKDAY: datePart(date => date.getDay() + 1),
+  TODAY: (args, scope, node) => {
+    expectArgs(node, args, 0);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return today;
+  },
+
+  // Maths and text
+  ABS: scalarFunction(value => Math.abs(toNumber(value))),
+  ROUND: (args, scope, node) => {
+    expectArgs(node, args, 1, 2);
+    const digits = args[1] ? toNumber(assertScalar(evaluateNode(args[1], scope), args[1])) : 0;
+    const factor = Math.pow(10, digits);
+    return Math.round(toNumber(assertScalar(evaluateNode(args[0], scope), args[0])) * factor) / factor;
+  },
+  UPPER: scalarFunction(value => toText(value).toUpperCase()),
+  LOWER: scalarFunction(value => toText(value).toLowerCase()),
+  LEN: scalarFunction(value => toText(value).length),
+  CONCATENATE: (args, scope, node) => {
+    expectArgs(node, args, 2);
+    return toText(assertScalar(evaluateNode(args[0], scope), args[0])) +
+      toText(assertScalar(evaluateNode(args[1], scope), args[1]));
+  }
+};
+
+DAX_FUNCTIONS.CUMULATIVE_SUM = DAX_FUNCTIONS.RUNNING_TOTAL;
+DAX_FUNCTIONS.DISTINCT = DAX_FUNCTIONS.VALUES;
+DAX_FUNCTIONS['PERCENTILE.INC'] = DAX_FUNCTIONS.PERCENTILE;
+DAX_FUNCTIONS['VAR.P'] = DAX_FUNCTIONS.VARIANCE;
+
+/**
+ * Format a column reference for use in a formula, escaping closing brackets
+ */
+export const formatDAXColumn = (column: string, table?: string): string => {
+  const ref = `[${column.replace(/]/g, ']]')}]`;
+  if (!table) return ref;
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(table) ? `${table}${ref}` : `'${table.replace(/'/g, '')}'${ref}`;
+};
+
+/**
+ * Names of all functions the evaluator understands (for editor hints)
+ */
+export const SUPPORTED_DAX_FUNCTIONS: string[] = Object.keys(DAX_FUNCTIONS).sort();
+
+// ============================================================
+// Public API
+// ============================================================
+
+const createScope = (context: DAXEvaluationContext): EvaluationScope => {
+  // Model (slicer) filters first; explicit filters on the current dataset add to them
+  const filters = new Map(Object.entries(context.modelFilters || {}).filter(([, f]) => f.length > 0));
+  if (context.filters && context.filters.length > 0) {
+    filters.set(context.dataset.id, [...(filters.get(context.dataset.id) || []), ...context.filters]);
+  }
+  return {
+    context,
+    // The current dataset may be a joined/filtered copy of a loaded table; it takes precedence
+    datasets: [context.dataset, ...(context.datasets || []).filter(ds => ds.id !== context.dataset.id)],
+    filters,
+    cache: new Map()
+  };
+};
+
+const toCellValue = (value: unknown): unknown => {
+  if (typeof value === 'number' && !isFinite(value)) return null;
+  return value instanceof Date ? toText(value) : value;
+};
+
+/**
+ * Evaluate a DAX formula (or a pre-parsed AST) against a dataset
+ */
+export const evaluateDAXFormula = (
+  formula: string | DAXNode,
+  context: DAXEvaluationContext
+): DAXEvaluationResult => {
+  let ast: DAXNode;
+  if (typeof formula === 'string') {
+    const parsed = parseDAXFormula(formula, context.dataset);
+    if (!parsed.success) {
+      return { success: false, value: null, error: parsed.error, position: parsed.position };
+    }
+    ast = parsed.ast!;
+  } else {
+    ast = formula;
+  }
+
+  const scope = createScope(context);
+
+  try {
+    const value = evaluateNode(ast, scope);
+    if (isTable(value)) {
+      return { success: true, value: value.rows.length };
+    }
+    return { success: true, value: toCellValue(value) };
+  } catch (error) {
+    return {
+      success: false,
+      value: null,
+      error: error instanceof Error ? error.message : 'Failed to evaluate formula',
+      position: positionOf(error)
+    };
+  }
+};
+
+/**
+ * Evaluate a formula once per row of context.dataset (row context), e.g. [Revenue] - [Cost]
+ */
+export const evaluateCalculatedColumn = (
+  formula: string | DAXNode,
+  context: DAXEvaluationContext
+): DAXColumnResult => {
+  let ast: DAXNode;
+  if (typeof formula === 'string') {
+    const parsed = parseDAXFormula(formula, context.dataset);
+    if (!parsed.success) {
+      return { success: false, values: [], error: parsed.error, position: parsed.position };
+    }
+    ast = parsed.ast!;
+  } else {
+    ast = formula;
+  }
+
+  const scope = createScope(context);
+  const { dataset } = context;
+  const values: unknown[] = [];
+
+  for (let i = 0; i < dataset.data.length; i++) {
+    try {
+      const value = evaluateNode(ast, { ...scope, row: { dataset, values: dataset.data[i] } });
+      if (isTable(value) || Array.isArray(value)) {
+        throw daxError('A calculated column must return a single value per row', ast.position);
+      }
+      values.push(toCellValue(value));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to evaluate formula';
+      return { success: false, values: [], error: `Row ${i + 1}: ${message}`, position: positionOf(error), row: i + 1 };
+    }
+  }
+
+  return { success: true, values };
+};
+
+/**
+ * Add (or replace) a calculated column on a dataset. The expression is stored on the
+ * ColumnInfo so the column can be recalculated when rows change. Only calculated columns
+ * can be replaced; source columns keep their values.
+ */
+export const addCalculatedColumn = (
+  name: string,
+  formula: string,
+  context: DAXEvaluationContext
+): CalculatedColumnResult => {
+  const columnName = name.trim();
+  if (!columnName) {
+    return { success: false, error: 'Calculated column needs a name' };
+  }
+  const existing = context.dataset.columns.find(col => col.name === columnName);
+  if (existing && !existing.expression) {
+    return { success: false, error: `A source column named "${columnName}" already exists` };
+  }
+
+  const result = evaluateCalculatedColumn(formula, context);
+  if (!result.success) {
+    return { success: false, error: result.error, position: result.position };
+  }
+
+  const { dataset } = context;
+  const column: ColumnInfo = {
+    ...analyzeColumn(columnName, result.values),
+    isCustom: true,
+    expression: formula
+  };
+  const columns = existing
+    ? dataset.columns.map(col => (col.name === columnName ? column : col))
+    : [...dataset.columns, column];
+
+  const updated: Dataset = {
+    ...dataset,
+    columns,
+    data: dataset.data.map((row, i) => ({ ...row, [columnName]: result.values[i] })),
+    dataTypes: { ...dataset.dataTypes, [columnName]: column.type },
+    updatedAt: new Date()
+  };
+  return { success: true, dataset: updated, column };
+};
+
+/**
+ * Re-evaluate every calculated column (in definition order) after the underlying rows changed.
+ * Columns whose formula no longer evaluates keep their previous values.
+ */
+export const recalculateCalculatedColumns = (context: DAXEvaluationContext): Dataset => {
+  let dataset = context.dataset;
+  dataset.columns
+    .filter(col => col.expression)
+    .forEach(col => {
+      const result = addCalculatedColumn(col.name, col.expression!, { ...context, dataset });
+      if (result.success && result.dataset) {
+        dataset = result.dataset;
+      } else {
+        console.warn(`Could not recalculate column "${col.name}":`, result.error);
+      }
+    });
+  return dataset;
+};
@@ -0,0 +1,283 @@
+// Excel Import - Turns every usable worksheet into its own table
+// Finds header rows that don't start at A1, unfolds merged header cells and skips
+// sheets (and trailing rows) that only hold totals
+
+import type { WorkBook, WorkSheet, Range } from 'xlsx';
+import { assertExcelBufferIsSafe, assertWorkbookHasNoMacros } from './excelSecurity';
+import { normalizeCSVHeaders } from './csvReader';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface ExcelSheetTable {
+  sheetName: string;
+  headers: string[];
+  data: Record<string, unknown>[];
+  headerRowIndex: number; // 0-based row within the sheet's used range
+  headerRowCount: number; // 2 when merged group headers were combined with sub-headers
+  totalsRowsRemoved: number;
+}
+
+export interface SkippedSheet {
+  sheetName: string;
+  reason: string;
+}
+
+export interface ExcelImportResult {
+  sheets: ExcelSheetTable[];
+  skippedSheets: SkippedSheet[];
+}
+
+type Cell = unknown;
+type Grid = Cell[][];
+
+// ============================================================
+// Constants
+// ============================================================
+
+const HEADER_SCAN_ROWS = 20;
+// The label must be the whole cell ("Total", "Grand Total:"), not a name like "Total Energies"
+const TOTAL_LABEL_PATTERN = /^(?:(?:grand\s+)?(?:sub[\s-]?)?totals?|totaux?|sum|overall)\s*:?$/i;
+const SUMMARY_SHEET_PATTERN = /\b(totals?|summary|recap|r[ée]capitulatif|synth[eè]se|pivot)\b/i;
+const SMALL_SUMMARY_ROWS = 20;
+
+// ============================================================
+// Cell helpers
+// ============================================================
+
+const isEmptyCell = (value: Cell): boolean =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+const isTextCell = (value: Cell): boolean =>
+  typeof value === 'string' && value.trim() !== '' && isNaN(Number(value));
+
+const nonEmptyCount = (row: Cell[] = []): number => row.filter(cell => !isEmptyCell(cell)).length;
+
+const cellText = (value: Cell): string => (isEmptyCell(value) ? '' : String(value).trim());
+
+/**
+ * Dates read with cellDates become ISO dates (time dropped when it is midnight)
+ */
+const normalizeCell = (value: Cell): Cell => {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return '';
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+  return value === null || value === undefined ? '' : value;
+};
+
+// ============================================================
+// Merged cells
+// ============================================================
+
+/**
+ * Copy each merged range's top-left value into every cell it covers, so merged
+ * headers ("Sales" over Q1..Q4) and vertically merged labels repeat per column/row
+ */
+export const fillMergedCells = (grid: Grid, merges: Range[] = [], origin = { r: 0, c: 0 }): Grid => {
+  merges.forEach(merge => {
+    const top = merge.s.r - origin.r;
+    const left = merge.s.c - origin.c;
+    if (top < 0 || left < 0 || top >= grid.length) return;
+    const value = grid[top]?.[left];
+    if (isEmptyCell(value)) return;
+    for (let r = top; r <= merge.e.r - origin.r && r < grid.length; r++) {
+      if (!grid[r]) grid[r] = [];
+      for (let c = left; c <= merge.e.c - origin.c; c++) {
+        if (isEmptyCell(grid[r][c])) grid[r][c] = value;
+      }
+    }
+  });
+  return grid;
+};
+
+const hasHorizontalMergeOnRow = (merges: Range[], row: number, origin: { r: number; c: number }): boolean =>
+  merges.some(merge => merge.s.r - origin.r === row && merge.e.c > merge.s.c);
+
+// ============================================================
+// Header detection
+// ============================================================
+
+/**
+ * Find the header row: the first row (within the first 20) that spans at least half
+ * the sheet's width, is mostly text and is followed by a non-empty row. Title rows,
+ * report notes and blank rows above the table are skipped.
+ */
+export const detectHeaderRow = (grid: Grid): number => {
+  const width = Math.max(0, ...grid.slice(0, HEADER_SCAN_ROWS * 3).map(row => nonEmptyCount(row)));
+  const minCells = Math.max(2, Math.ceil(width * 0.5));
+
+  for (let i = 0; i < Math.min(grid.length, HEADER_SCAN_ROWS); i++) {
+    const row = grid[i] || [];
+    const filled = nonEmptyCount(row);
+    if (filled < Math.min(minCells, width)) continue;
+    const textCells = row.filter(isTextCell).length;
+    // A title merged across the table repeats one value; headers have distinct labels
+    const distinct = new Set(row.filter(cell => !isEmptyCell(cell)).map(cellText)).size;
+    if (distinct < 2) continue;
+    const nextFilled = grid.slice(i + 1, i + 4).some(next => nonEmptyCount(next) > 0);
+    if (textCells >= filled * 0.6 && nextFilled) return i;
+  }
+
+  // No text-like row: fall back to the first row wide enough to be a record
+  const firstWide = grid.findIndex(row => nonEmptyCount(row) >= Math.min(minCells, width) && nonEmptyCount(row) > 1);
+  return Math.max(0, firstWide);
+};
+
+/**
+ * Build column names from the header row (and the grid columns they come from,
+ * skipping empty margin columns). When the header row carries horizontally
+ * merged group labels and the row below is also text, the two rows are combined
+ * ("Sales Q1", "Sales Q2") and both are consumed.
+ */
+export const buildHeaders = (
+  grid: Grid,
+  headerRowIndex: number,
+  merges: Range[] = [],
+  origin = { r: 0, c: 0 }
+): { headers: string[]; columnIndexes: number[]; headerRowCount: number } => {
+  const top = grid[headerRowIndex] || [];
+  const below = grid[headerRowIndex + 1] || [];
+  const width = Math.max(top.length, ...grid.slice(headerRowIndex, headerRowIndex + 50).map(row => row?.length || 0));
+
+  const belowIsSubHeader =
+    hasHorizontalMergeOnRow(merges, headerRowIndex, origin) &&
+    nonEmptyCount(below) > 0 &&
+    below.filter(isTextCell).length >= nonEmptyCount(below) * 0.8;
+
+  const headerRowCount = belowIsSubHeader ? 2 : 1;
+  const raw: string[] = [];
+  const columnIndexes: number[] = [];
+  for (let c = 0; c < width; c++) {
+    const group = cellText(top[c]);
+    const sub = belowIsSubHeader ? cellText(below[c]) : '';
+    const label = !sub || sub === group ? group : group ? `${group} ${sub}` : sub;
+    // Columns with neither a header nor data (margins, spacing) are formatting noise
+    if (!label && grid.slice(headerRowIndex + headerRowCount).every(row => isEmptyCell(row?.[c]))) continue;
+    raw.push(label);
+    columnIndexes.push(c);
+  }
+
+  return { headers: normalizeCSVHeaders(raw), columnIndexes, headerRowCount };
+};
+
+// ============================================================
+// Totals detection
+// ============================================================
+
+const hasTotalsLabel = (row: Record<string, unknown>): boolean => {
+  const firstText = Object.values(row).find(value => typeof value === 'string' && value.trim() !== '');
+  return typeof firstText === 'string' && TOTAL_LABEL_PATTERN.test(firstText.trim());
+};
+
+const sumsMatch = (total: number, sum: number): boolean =>
+  Math.abs(total - sum) <= Math.max(1e-6, Math.abs(total) * 1e-9);
+
+/**
+ * A total line has a totals label and numeric cells that each equal the sum of the
+ * rows above it (earlier total lines excluded)
+ */
+const isTotalsRow = (row: Record<string, unknown>, above: Record<string, unknown>[]): boolean => {
+  if (!hasTotalsLabel(row)) return false;
+  const numericColumns = Object.keys(row).filter(key => typeof row[key] === 'number');
+  if (numericColumns.length === 0) return false;
+  const detail = above.filter(other => !hasTotalsLabel(other));
+  return numericColumns.every(key => {
+    const sum = detail.reduce<number>((acc, other) => acc + (typeof other[key] === 'number' ? (other[key] as number) : 0), 0);
+    return sumsMatch(row[key] as number, sum);
+  });
+};
+
+/**
+ * A sheet is "totals only" when every row is a total line, or it is a small sheet
+ * named like a summary that contains total lines
+ */
+export const isTotalsOnlySheet = (sheetName: string, data: Record<string, unknown>[]): boolean => {
+  if (data.length === 0) return false;
+  const totalRows = data.filter(hasTotalsLabel).length;
+  if (totalRows === data.length) return true;
+  return SUMMARY_SHEET_PATTERN.test(sheetName) && data.length <= SMALL_SUMMARY_ROWS && totalRows > 0;
+};
+
+// ============================================================
+// Sheet conversion
+// ============================================================
+
+/**
+ * Convert one worksheet into a table (null when it holds no data rows)
+ */
+export const readSheetTable = (
+  sheetName: string,
+  worksheet: WorkSheet,
+  utils: typeof import('xlsx').utils
+): ExcelSheetTable | null => {
+  if (!worksheet || !worksheet['!ref']) return null;
+  const origin = utils.decode_range(worksheet['!ref']).s;
+  const merges = worksheet['!merges'] || [];
+
+  const grid = utils.sheet_to_json<Cell[]>(worksheet, { header: 1, defval: null, blankrows: true, raw: true });
+  fillMergedCells(grid, merges, origin);
+  if (grid.every(row => nonEmptyCount(row) === 0)) return null;
+
+  const headerRowIndex = detectHeaderRow(grid);
+  const { headers, columnIndexes, headerRowCount } = buildHeaders(grid, headerRowIndex, merges, origin);
+  if (headers.length === 0) return null;
+
+  const data: Record<string, unknown>[] = [];
+  grid.slice(headerRowIndex + headerRowCount).forEach(row => {
+    if (nonEmptyCount(row) === 0) return;
+    const record: Record<string, unknown> = {};
+    headers.forEach((header, index) => {
+      record[header] = normalizeCell(row?.[columnIndexes[index]]);
+    });
+    data.push(record);
+  });
+
+  // Drop trailing "Total"/"Grand Total" lines so sums aren't double counted
+  let totalsRowsRemoved = 0;
+  while (data.length > 1 && isTotalsRow(data[data.length - 1], data.slice(0, -1))) {
+    data.pop();
+    totalsRowsRemoved++;
+  }
+
+  return { sheetName, headers, data, headerRowIndex, headerRowCount, totalsRowsRemoved };
+};
+
+/**
+ * Read every worksheet of a parsed workbook, skipping empty and totals-only sheets
+ */
+export const readWorkbookTables = (workbook: WorkBook, utils: typeof import('xlsx').utils): ExcelImportResult => {
+  const sheets: ExcelSheetTable[] = [];
+  const skippedSheets: SkippedSheet[] = [];
+
+  workbook.SheetNames.forEach(sheetName => {
+    const table = readSheetTable(sheetName, workbook.Sheets[sheetName], utils);
+    if (!table || table.data.length === 0) {
+      skippedSheets.push({ sheetName, reason: 'no data rows' });
+    } else if (isTotalsOnlySheet(sheetName, table.data)) {
+      skippedSheets.push({ sheetName, reason: 'only contains totals' });
+    } else {
+      sheets.push(table);
+    }
+  });
+
+  return { sheets, skippedSheets };
+};
+
+/**
+ * Load an Excel file (lazy-loading the XLSX library) and read all of its sheets
+ */
+export const importExcelWorkbook = async (file: File): Promise<ExcelImportResult> => {
+  const [buffer, XLSX] = await Promise.all([file.arrayBuffer(), import('xlsx')]);
+  assertExcelBufferIsSafe(file.name, buffer);
+  const workbook = XLSX.read(buffer, { type: 'array', cellDates: true, bookVBA: true });
+  assertWorkbookHasNoMacros(file.name, workbook);
+
+  const result = readWorkbookTables(workbook, XLSX.utils);
+  if (result.sheets.length === 0) {
+    throw new Error('Excel file contains no data in any sheet');
+  }
+  return result;
+};
@@ -0,0 +1,321 @@
+// File Parsers - Shared readers for the non-Excel upload formats
+// CSV, TSV, JSON, NDJSON (JSON Lines), XML and Parquet all produce plain row objects so
+// the existing column inference (analyzeColumn) and Dataset construction apply unchanged
+
+import { readCSVFile, CSVReadProgress } from './csvReader';
+import { flattenJSON, JSONFlattenOptions, JSONFlattenResult } from './jsonFlatten';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type UploadFileFormat = 'csv' | 'tsv' | 'excel' | 'json' | 'ndjson' | 'xml' | 'parquet';
+
+export interface TabularParseOptions {
+  onProgress?: (percent: number, message: string) => void;
+}
+
+type ParsedRow = Record<string, unknown>;
+
+// ============================================================
+// Format detection
+// ============================================================
+
+/**
+ * File extensions accepted by the upload inputs, mapped to their parser
+ */
+export const UPLOAD_FILE_EXTENSIONS: Record<string, UploadFileFormat> = {
+  csv: 'csv',
+  txt: 'csv',
+  tsv: 'tsv',
+  tab: 'tsv',
+  xlsx: 'excel',
+  xls: 'excel',
+  json: 'json',
+  ndjson: 'ndjson',
+  jsonl: 'ndjson',
+  xml: 'xml',
+  parquet: 'parquet'
+};
+
+/**
+ * Value for an <input type="file" accept=...> attribute
+ */
+export const UPLOAD_ACCEPT = Object.keys(UPLOAD_FILE_EXTENSIONS).map(ext => `.${ext}`).join(',');
+
+export const getFileExtension = (fileName: string): string =>
+  fileName.toLowerCase().split('.').pop() || '';
+
+/**
+ * Resolve the upload format from a file name (null when unsupported)
+ */
+export const detectUploadFormat = (fileName: string): UploadFileFormat | null =>
+  UPLOAD_FILE_EXTENSIONS[getFileExtension(fileName)] || null;
+
+// ============================================================
+// Value normalization
+// ============================================================
+
+/**
+ * Convert reader-specific values (BigInt, Date, byte arrays, nested objects) into
+ * the strings/numbers/booleans the rest of the app works with
+ */
+export const normalizeCellValue = (value: unknown): unknown => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'bigint') {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+      ? Number(value)
+      : value.toString();
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString();
+  }
+  if (value instanceof Uint8Array) {
+    return new TextDecoder().decode(value);
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v));
+  }
+  return value;
+};
+
+const normalizeRow = (row: ParsedRow): ParsedRow => {
+  const normalized: ParsedRow = {};
+  Object.entries(row).forEach(([key, value]) => {
+    normalized[key] = normalizeCellValue(value);
+  });
+  return normalized;
+};
+
+/**
+ * Give every row the same keys (union of all keys, first-seen order) so column
+ * inference sees sparse fields from NDJSON/XML records
+ */
+const alignRows = (rows: ParsedRow[]): ParsedRow[] => {
+  const keys: string[] = [];
+  const seen = new Set<string>();
+  rows.forEach(row => {
+    Object.keys(row).forEach(key => {
+      if (!seen.has(key)) {
+        seen.add(key);
+        keys.push(key);
+      }
+    });
+  });
+  return rows.map(row => {
+    const aligned: ParsedRow = {};
+    keys.forEach(key => {
+      aligned[key] = row[key] !== undefined ? row[key] : null;
+    });
+    return aligned;
+  });
+};
+
+// ============================================================
+// JSON / NDJSON
+// ============================================================
+
+/**
+ * Parse a JSON document and flatten it into a root table (plus child tables for
+ * exploded arrays). The record array is found anywhere in the object tree.
+ */
+export const parseJSONDocument = (jsonText: string, options: JSONFlattenOptions = {}): JSONFlattenResult => {
+  if (!jsonText || jsonText.trim().length === 0) {
+    throw new Error('JSON file is empty');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonText.charCodeAt(0) === 0xfeff ? jsonText.slice(1) : jsonText);
+  } catch (error) {
+    throw new Error(`Invalid JSON syntax: ${error instanceof Error ? error.message : 'syntax error'}`);
+  }
+  return flattenJSON(parsed, options);
+};
+
+/**
+ * Parse a JSON document into flat rows of its record array; nested objects become
+ * dot-path columns and child arrays are kept as JSON text
+ */
+export const parseJSONText = (jsonText: string, options: JSONFlattenOptions = {}): ParsedRow[] =>
+  parseJSONDocument(jsonText, { ...options, arrayMode: 'stringify' }).tables[0].rows;
+
+/**
+ * Parse newline-delimited JSON (one object per line) into flat dot-path rows.
+ * Blank lines are skipped; a malformed line reports its line number.
+ */
+export const parseNDJSONText = (text: string): ParsedRow[] => {
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  if (source.trim().length === 0) {
+    throw new Error('NDJSON file is empty');
+  }
+
+  const rows: ParsedRow[] = [];
+  const lines = source.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Invalid JSON on line ${i + 1}: ${error instanceof Error ? error.message : 'syntax error'}`);
+    }
+    if (parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      rows.push(parsed as ParsedRow);
+    } else {
+      rows.push({ value: normalizeCellValue(parsed) });
+    }
+  }
+
+  if (rows.length === 0) {
+    throw new Error('NDJSON file contains no records');
+  }
+  // Log lines nest objects too; flatten them the same way as JSON documents
+  return flattenJSON(rows, { arrayMode: 'stringify' }).tables[0].rows;
+};
+
+// ============================================================
+// XML
+// ============================================================
+
+const elementChildren = (element: Element): Element[] => Array.from(element.children);
+
+/**
+ * Find the repeating record element: the shallowest group of siblings sharing one tag
+ * (e.g. <orders><order/>...<order/></orders>), the largest group at that depth. Going level by
+ * level keeps repeated children of a record (its <item>s) from outnumbering the records.
+ */
+const findRecordElements = (root: Element): Element[] => {
+  let level = [root];
+  while (level.length > 0) {
+    let best: Element[] = [];
+    level.forEach(element => {
+      const groups = new Map<string, Element[]>();
+      elementChildren(element).forEach(child => {
+        const group = groups.get(child.tagName) || [];
+        group.push(child);
+        groups.set(child.tagName, group);
+      });
+      groups.forEach(group => {
+        if (group.length > 1 && group.length > best.length) best = group;
+      });
+    });
+    if (best.length > 0) return best;
+    level = level.flatMap(elementChildren);
+  }
+  // A document with a single record still has that one element as its row
+  return [root];
+};
+
+/**
+ * Flatten an XML record: attributes and leaf elements become fields, nested elements
+ * use dot paths (address.city), repeated leaves are joined with "; "
+ */
+const xmlRecordToRow = (record: Element): ParsedRow => {
+  const row: ParsedRow = {};
+  const setField = (key: string, value: string) => {
+    row[key] = row[key] !== undefined && row[key] !== '' ? `${row[key]}; ${value}` : value;
+  };
+  const walk = (element: Element, prefix: string) => {
+    Array.from(element.attributes).forEach(attr => {
+      setField(prefix ? `${prefix}.${attr.name}` : attr.name, attr.value.trim());
+    });
+    const children = elementChildren(element);
+    if (children.length === 0) {
+      const text = (element.textContent || '').trim();
+      if (prefix) setField(prefix, text);
+      else if (text) setField('value', text);
+      return;
+    }
+    children.forEach(child => walk(child, prefix ? `${prefix}.${child.tagName}` : child.tagName));
+  };
+  walk(record, '');
+  return row;
+};
+
+/**
+ * Parse an XML feed into rows, one per repeating record element
+ */
+export const parseXMLText = (text: string): ParsedRow[] => {
+  if (!text || text.trim().length === 0) {
+    throw new Error('XML file is empty');
+  }
+  if (typeof DOMParser === 'undefined') {
+    throw new Error('XML parsing is not available in this environment');
+  }
+
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const parserError = doc.getElementsByTagName('parsererror')[0];
+  if (parserError) {
+    throw new Error(`Invalid XML: ${(parserError.textContent || 'syntax error').trim().split('\n')[0]}`);
+  }
+  if (!doc.documentElement) {
+    throw new Error('XML file has no root element');
+  }
+
+  const rows = findRecordElements(doc.documentElement)
+    .map(xmlRecordToRow)
+    .filter(row => Object.keys(row).length > 0);
+  if (rows.length === 0) {
+    throw new Error('XML file contains no records');
+  }
+  return alignRows(rows);
+};
+
+// ============================================================
+// Parquet
+// ============================================================
+
+/**
+ * Read a Parquet file (lazy-loads the reader; snappy-compressed pages are supported)
+ */
+export const parseParquetBuffer = async (buffer: ArrayBuffer): Promise<ParsedRow[]> => {
+  const { parquetReadObjects } = await import('hyparquet');
+  let rows: ParsedRow[];
+  try {
+    rows = await parquetReadObjects({ file: buffer });
+  } catch (error) {
+    throw new Error(`Invalid Parquet file: ${error instanceof Error ? error.message : 'unreadable'}`);
+  }
+  if (rows.length === 0) {
+    throw new Error('Parquet file contains no rows');
+  }
+  return rows.map(normalizeRow);
+};
+
+// ============================================================
+// Public API
+// ============================================================
+
+/**
+ * Parse any non-Excel tabular upload into row objects. JSON documents are left to the
+ * callers' own JSON handling; Excel goes through the workbook readers.
+ */
+export const parseTabularFile = async (
+  file: File,
+  format: Exclude<UploadFileFormat, 'excel' | 'json'>,
+  options: TabularParseOptions = {}
+): Promise<ParsedRow[]> => {
+  const { onProgress } = options;
+  const csvProgress = (label: string) => ({ percent, rowsParsed }: CSVReadProgress) =>
+    onProgress?.(percent, `Parsing ${label} data... ${rowsParsed.toLocaleString()} rows read`);
+
+  switch (format) {
+    case 'csv':
+      return (await readCSVFile(file, { onProgress: csvProgress('CSV') })).data;
+    case 'tsv':
+      return (await readCSVFile(file, { dialect: { delimiter: '\t' }, onProgress: csvProgress('TSV') })).data;
+    case 'ndjson':
+      onProgress?.(0, 'Parsing NDJSON records...');
+      return parseNDJSONText(await file.text());
+    case 'xml':
+      onProgress?.(0, 'Parsing XML feed...');
+      return parseXMLText(await file.text());
+    case 'parquet':
+      onProgress?.(0, 'Reading Parquet file...');
+      return parseParquetBuffer(await file.arrayBuffer());
+    default:
+      throw new Error(`Unsupported file format: ${format}`);
+  }
+};
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeColumn } from './dataUtils';
+import {
+  FuzzyMatchConfig,
+  clusterId,
+  findDuplicateClusters,
+  jaroWinklerSimilarity,
+  levenshteinSimilarity,
+  mergeFuzzyDuplicates,
+  normalizeKeyValue
+} from './fuzzyDuplicates';
+import { Dataset } from './types';
+
+const data = [
+  { name: 'Kwame Mensah', phone: '+233 24 123 4567', city: null },
+  { name: 'Ama Owusu', phone: '020 555 1234', city: 'Kumasi' },
+  { name: 'Mr. Mensah, Kwame', phone: '024 123 4567', city: 'Accra' },
+  { name: 'Kwame Mensa', phone: '24-123-4567', city: null },
+  { name: 'Yaw Boateng', phone: '027 999 0000', city: 'Tema' }
+];
+
+const contacts: Dataset = {
+  id: 'contacts',
+  name: 'Contacts',
+  description: '',
+  columns: Object.keys(data[0]).map(column => analyzeColumn(column, data.map(row => row[column as keyof typeof row]))),
+  rowCount: data.length,
+  dataTypes: {},
+  data
+};
+
+const byNameAndPhone: FuzzyMatchConfig = {
+  keyColumns: [
+    { column: 'name', normalization: 'name', method: 'jaroWinkler' },
+    { column: 'phone', normalization: 'phone', method: 'exact' }
+  ],
+  threshold: 0.9
+};
+
+describe('normalizeKeyValue', () => {
+  it('reduces names to sorted tokens without titles', () => {
+    expect(normalizeKeyValue('Mr. Mensah, Kwame', 'name')).toBe('kwame mensah');
+    expect(normalizeKeyValue('  Kwame  MENSAH ', 'name')).toBe('kwame mensah');
+  });
+
+  it('compares the trailing digits of phone numbers', () => {
+    expect(normalizeKeyValue('+233 24 123 4567', 'phone')).toBe(normalizeKeyValue('024 123 4567', 'phone'));
+  });
+
+  it('treats missing values as empty', () => {
+    expect(normalizeKeyValue(null, 'text')).toBe('');
+    expect(normalizeKeyValue('', 'email')).toBe('');
+  });
+});
+
+describe('similarity', () => {
+  it('scores identical strings 1 and unrelated ones low', () => {
+    expect(jaroWinklerSimilarity('mensah', 'mensah')).toBe(1);
+    expect(levenshteinSimilarity('mensah', 'mensah')).toBe(1);
+    expect(jaroWinklerSimilarity('mensah', 'mensa')).toBeGreaterThan(0.9);
+    expect(levenshteinSimilarity('kumasi', 'tema')).toBeLessThan(0.5);
+    expect(jaroWinklerSimilarity('', 'tema')).toBe(0);
+  });
+});
+
+describe('findDuplicateClusters', () => {
+  it('links rows that match across name spellings and phone formats', () => {
+    const clusters = findDuplicateClusters(data, byNameAndPhone);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].rows).toEqual([0, 2, 3]);
+    expect(clusters[0].survivor).toBe(2); // the most complete row
+    expect(clusters[0].score).toBeGreaterThan(0.9);
+    expect(clusters[0].id).toBe(clusterId(data, [3, 0, 2]));
+  });
+
+  it('follows the survivor rule and the similarity method', () => {
+    expect(findDuplicateClusters(data, byNameAndPhone, 'first')[0].survivor).toBe(0);
+    expect(findDuplicateClusters(data, byNameAndPhone, 'last')[0].survivor).toBe(3);
+    const strict = { ...byNameAndPhone, keyColumns: [{ column: 'name', normalization: 'name' as const, method: 'exact' as const }] };
+    expect(findDuplicateClusters(data, strict).map(cluster => cluster.rows)).toEqual([[0, 2]]);
+  });
+});
+
+describe('mergeFuzzyDuplicates', () => {
+  it('keeps the survivor and fills its blanks from the other members', () => {
+    const result = mergeFuzzyDuplicates(contacts, { match: byNameAndPhone, survivorRule: 'first', fillMissing: true });
+    expect(result.rowsRemoved).toBe(2);
+    expect(result.dataset.data).toEqual([
+      { name: 'Kwame Mensah', phone: '+233 24 123 4567', city: 'Accra' },
+      data[1],
+      data[4]
+    ]);
+  });
+
+  it('applies reviewed decisions recognized by content', () => {
+    const [cluster] = findDuplicateClusters(data, byNameAndPhone);
+    const notDuplicates = mergeFuzzyDuplicates(contacts, {
+      match: byNameAndPhone,
+      survivorRule: 'first',
+      fillMissing: false,
+      reviewed: [{ clusterId: cluster.id, survivor: null }]
+    });
+    expect(notDuplicates.dataset.data).toHaveLength(5);
+
+    const keepLast = mergeFuzzyDuplicates(contacts, {
+      match: byNameAndPhone,
+      survivorRule: 'first',
+      fillMissing: false,
+      reviewed: [{ clusterId: cluster.id, survivor: JSON.stringify(data[3]) }]
+    });
+    expect(keepLast.dataset.data.map(row => row.name)).toEqual(['Ama Owusu', 'Kwame Mensa', 'Yaw Boateng']);
+  });
+
+  it('rejects key columns the dataset lacks', () => {
+    const match = { ...byNameAndPhone, keyColumns: [{ column: 'email', normalization: 'email' as const, method: 'exact' as const }] };
+    expect(() => mergeFuzzyDuplicates(contacts, { match, survivorRule: 'first', fillMissing: false }))
+      .toThrow('Column email not found');
+  });
+});
@@ -0,0 +1,394 @@
+// Fuzzy Duplicates - Record linkage for near-duplicate rows
+// Normalizes key columns (names, phones, emails), compares candidate pairs found by blocking
+// with Jaro-Winkler or Levenshtein similarity, and groups matches into clusters that can be
+// reviewed and merged into one survivor record each
+
+import { Dataset, ColumnInfo } from './types';
+import { CleaningResult } from './dataCleaningUtils';
+import { levenshteinDistance } from './smartDataConnector';
+import { isMissingValue } from './columnarStore';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type KeyNormalization = 'text' | 'name' | 'phone' | 'email' | 'none';
+export type SimilarityMethod = 'jaroWinkler' | 'levenshtein' | 'exact';
+export type SurvivorRule = 'first' | 'last' | 'mostComplete';
+
+export interface FuzzyKeyColumn {
+  column: string;
+  normalization: KeyNormalization;
+  method: SimilarityMethod;
+  weight?: number; // share of the pair score, default 1
+  threshold?: number; // minimum similarity on this column for a pair to match
+}
+
+export interface FuzzyMatchConfig {
+  keyColumns: FuzzyKeyColumn[];
+  threshold: number; // minimum weighted similarity (0-1) for a pair to match
+  maxBlockSize?: number; // blocks larger than this are too common to be useful and are skipped
+}
+
+export interface DuplicateCluster {
+  id: string; // stable across runs: built from the members' record fingerprints
+  rows: number[]; // row indices, ascending
+  score: number; // lowest similarity among the pairs that linked the cluster
+  survivor: number; // suggested row to keep
+}
+
+/**
+ * A cluster to merge: the survivor row is kept and the other rows are dropped
+ */
+export interface ClusterDecision {
+  rows: number[];
+  survivor: number;
+}
+
+/**
+ * Parameters of a fuzzy merge, as recorded in a cleaning recipe. Reviewed clusters are
+ * recognized by content (see clusterId), so the reviewer's choices carry over when the recipe
+ * is replayed on a file with the same records; other clusters follow survivorRule.
+ */
+export interface FuzzyMergeOptions {
+  match: FuzzyMatchConfig;
+  survivorRule: SurvivorRule;
+  fillMissing: boolean;
+  reviewed?: { clusterId: string; survivor: string | null }[]; // survivor fingerprint, null = not duplicates
+}
+
+// Honorifics dropped from names before comparison
+const NAME_TITLES = new Set(['mr', 'mrs', 'ms', 'miss', 'dr', 'prof', 'sir', 'madam', 'mme', 'hon', 'rev', 'alhaji', 'hajia']);
+
+// Trailing digits compared for phone numbers, so that country codes and trunk prefixes
+// (+233 24..., 024..., 24...) don't stop numbers from matching
+const PHONE_SIGNIFICANT_DIGITS = 9;
+
+const DEFAULT_MAX_BLOCK_SIZE = 500;
+const BLOCK_PREFIX_LENGTH = 3;
+
+// ============================================================
+// Normalization
+// ============================================================
+
+const stripAccents = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const toTokens = (value: string): string[] =>
+  stripAccents(value.toLowerCase()).replace(/[^a-z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+
+/**
+ * Normalize a key value for comparison. Names are reduced to their sorted tokens, so
+ * "Mensah, Kwame" and "kwame MENSAH" normalize alike.
+ */
+export const normalizeKeyValue = (value: unknown, normalization: KeyNormalization): string => {
+  if (isMissingValue(value)) return '';
+  const text = String(value).trim();
+  switch (normalization) {
+    case 'text':
+      return toTokens(text).join(' ');
+    case 'name':
+      return toTokens(text).filter(token => !NAME_TITLES.has(token)).sort().join(' ');
+    case 'phone':
+      return text.replace(/\D/g, '').slice(-PHONE_SIGNIFICANT_DIGITS);
+    case 'email':
+      return text.toLowerCase();
+    case 'none':
+      return text;
+  }
+};
+
+/**
+ * Suggest how to normalize a column from its name and semantic type
+ */
+export const suggestNormalization = (column: ColumnInfo): KeyNormalization => {
+  if (column.semantic?.type === 'phone' || /phone|mobile|tel/i.test(column.name)) return 'phone';
+  if (column.semantic?.type === 'email' || /e-?mail/i.test(column.name)) return 'email';
+  if (/name|customer|client|contact|person/i.test(column.name)) return 'name';
+  return column.type === 'string' ? 'text' : 'none';
+};
+
+// ============================================================
+// Similarity
+// ============================================================
+
+/**
+ * Jaro-Winkler similarity (0-1), which rewards a shared prefix
+ */
+export const jaroWinklerSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = start; j <= end; j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = true;
+        bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+/**
+ * Levenshtein distance scaled to a similarity (0-1) by the longer string's length
+ */
+export const levenshteinSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  const maxLength = Math.max(a.length, b.length);
+  return maxLength === 0 ? 1 : 1 - levenshteinDistance(a, b) / maxLength;
+};
+
+const similarity = (a: string, b: string, method: SimilarityMethod): number => {
+  switch (method) {
+    case 'jaroWinkler':
+      return jaroWinklerSimilarity(a, b);
+    case 'levenshtein':
+      return levenshteinSimilarity(a, b);
+    case 'exact':
+      return a === b ? 1 : 0;
+  }
+};
+
+/**
+ * Weighted similarity of two normalized records, or null when they can't match. Columns
+ * empty on either side don't count towards the score.
+ */
+const scorePair = (a: string[], b: string[], config: FuzzyMatchConfig): number | null => {
+  let weighted = 0;
+  let totalWeight = 0;
+  for (let c = 0; c < config.keyColumns.length; c++) {
+    if (!a[c] || !b[c]) continue;
+    const key = config.keyColumns[c];
+    const score = similarity(a[c], b[c], key.method);
+    if (key.threshold !== undefined && score < key.threshold) return null;
+    const weight = key.weight ?? 1;
+    weighted += score * weight;
+    totalWeight += weight;
+  }
+  if (totalWeight === 0) return null;
+  const score = weighted / totalWeight;
+  return score >= config.threshold ? score : null;
+};
+
+// ============================================================
+// Blocking and clustering
+// ============================================================
+
+/**
+ * Blocking keys of a record: only records sharing a key are compared. Text keys block on
+ * each token's prefix, so reordered or slightly misspelled names still meet.
+ */
+const blockingKeys = (record: string[], config: FuzzyMatchConfig): string[] => {
+  const keys: string[] = [];
+  config.keyColumns.forEach((key, c) => {
+    const value = record[c];
+    if (!value) return;
+    if (key.method === 'exact' || key.normalization === 'phone' || key.normalization === 'email') {
+      keys.push(`${c}:${value}`);
+    } else {
+      value.split(' ').forEach(token => keys.push(`${c}:${token.slice(0, BLOCK_PREFIX_LENGTH)}`));
+    }
+  });
+  return keys;
+};
+
+/**
+ * Fingerprint of a row's content, used to recognize reviewed records when a recipe is replayed
+ */
+export const recordFingerprint = (row: Record<string, unknown>): string => JSON.stringify(row);
+
+/**
+ * Identify a cluster by the content of its rows rather than their positions
+ */
+export const clusterId = (data: Record<string, unknown>[], rows: number[]): string =>
+  rows.map(index => recordFingerprint(data[index])).sort().join('\n');
+
+const countFilled = (row: Record<string, unknown>): number =>
+  Object.values(row).filter(value => !isMissingValue(value)).length;
+
+const pickSurvivor = (data: Record<string, unknown>[], rows: number[], rule: SurvivorRule): number => {
+  if (rule === 'first') return rows[0];
+  if (rule === 'last') return rows[rows.length - 1];
+  return rows.reduce((best, index) => (countFilled(data[index]) > countFilled(data[best]) ? index : best), rows[0]);
+};
+
+/**
+ * Find clusters of rows that refer to the same entity
+ */
+export const findDuplicateClusters = (
+  data: Record<string, unknown>[],
+  config: FuzzyMatchConfig,
+  survivorRule: SurvivorRule = 'mostComplete'
+): DuplicateCluster[] => {
+  if (config.keyColumns.length === 0) return [];
+  const maxBlockSize = config.maxBlockSize ?? DEFAULT_MAX_BLOCK_SIZE;
+
+  const records = data.map(row => config.keyColumns.map(key => normalizeKeyValue(row[key.column], key.normalization)));
+
+  const blocks = new Map<string, number[]>();
+  records.forEach((record, index) => {
+    new Set(blockingKeys(record, config)).forEach(key => {
+      const block = blocks.get(key);
+      if (block) block.push(index);
+      else blocks.set(key, [index]);
+    });
+  });
+
+  // Union-find over matched pairs
+  const parent = records.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const linkScores = new Map<number, number>(); // root -> lowest linking score
+
+  const compared = new Set<number>();
+  blocks.forEach(block => {
+    if (block.length < 2 || block.length > maxBlockSize) return;
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const a = block[i];
+        const b = block[j];
+        const pairKey = a * records.length + b;
+        if (compared.has(pairKey)) continue;
+        compared.add(pairKey);
+
+        const score = scorePair(records[a], records[b], config);
+        if (score === null) continue;
+        const rootA = find(a);
+        const rootB = find(b);
+        const lowest = Math.min(score, linkScores.get(rootA) ?? 1, linkScores.get(rootB) ?? 1);
+        if (rootA !== rootB) parent[rootB] = rootA;
+        linkScores.set(rootA, lowest);
+      }
+    }
+  });
+
+  const groups = new Map<number, number[]>();
+  records.forEach((_, index) => {
+    const root = find(index);
+    const group = groups.get(root);
+    if (group) group.push(index);
+    else groups.set(root, [index]);
+  });
+
+  const clusters: DuplicateCluster[] = [];
+  groups.forEach((rows, root) => {
+    if (rows.length < 2) return;
+    clusters.push({
+      id: clusterId(data, rows),
+      rows,
+      score: linkScores.get(root) ?? 1,
+      survivor: pickSurvivor(data, rows, survivorRule)
+    });
+  });
+  return clusters.sort((a, b) => a.rows[0] - b.rows[0]);
+};
+
+// ============================================================
+// Merging
+// ============================================================
+
+/**
+ * Keep one survivor row per cluster and drop the others. With fillMissing, the survivor's
+ * empty fields are filled from the other members (in row order).
+ */
+export const mergeDuplicateClusters = (
+  dataset: Dataset,
+  decisions: ClusterDecision[],
+  fillMissing: boolean
+): CleaningResult => {
+  const removed = new Set<number>();
+  const merged = new Map<number, Record<string, unknown>>();
+
+  decisions.forEach(({ rows, survivor }) => {
+    if (!rows.includes(survivor)) {
+      throw new Error(`Survivor row ${survivor + 1} is not part of its cluster`);
+    }
+    const others = rows.filter(index => index !== survivor);
+    others.forEach(index => removed.add(index));
+    if (!fillMissing) return;
+
+    const row = { ...dataset.data[survivor] };
+    dataset.columns.forEach(col => {
+      if (!isMissingValue(row[col.name])) return;
+      const donor = others.find(index => !isMissingValue(dataset.data[index][col.name]));
+      if (donor !== undefined) row[col.name] = dataset.data[donor][col.name];
+    });
+    merged.set(survivor, row);
+  });
+
+  const cleanedData = dataset.data
+    .map((row, index) => merged.get(index) ?? row)
+    .filter((_, index) => !removed.has(index));
+  const nullCount = dataset.columns.reduce((sum, col) => sum + col.nullCount, 0);
+
+  return {
+    dataset: {
+      ...dataset,
+      data: cleanedData,
+      rowCount: cleanedData.length,
+      updatedAt: new Date()
+    },
+    operationsPerformed: [`Merge Fuzzy Duplicates: ${decisions.length} clusters`],
+    rowsRemoved: removed.size,
+    rowsAdded: 0,
+    statistics: {
+      before: { rowCount: dataset.rowCount, nullCount, duplicateCount: removed.size },
+      after: { rowCount: cleanedData.length, nullCount, duplicateCount: 0 }
+    }
+  };
+};
+
+/**
+ * Find clusters and merge them, applying the reviewed decisions where they exist
+ */
+export const mergeFuzzyDuplicates = (dataset: Dataset, options: FuzzyMergeOptions): CleaningResult => {
+  const missing = options.match.keyColumns
+    .map(key => key.column)
+    .filter(name => !dataset.columns.some(col => col.name === name));
+  if (missing.length > 0) {
+    throw new Error(`Column ${missing.join(', ')} not found`);
+  }
+
+  const reviewed = new Map((options.reviewed || []).map(entry => [entry.clusterId, entry.survivor]));
+  const decisions: ClusterDecision[] = [];
+  findDuplicateClusters(dataset.data, options.match, options.survivorRule).forEach(cluster => {
+    if (!reviewed.has(cluster.id)) {
+      decisions.push({ rows: cluster.rows, survivor: cluster.survivor });
+      return;
+    }
+    const survivorFingerprint = reviewed.get(cluster.id);
+    if (survivorFingerprint === null) return;
+    const survivor = cluster.rows.find(index => recordFingerprint(dataset.data[index]) === survivorFingerprint);
+    decisions.push({ rows: cluster.rows, survivor: survivor ?? cluster.survivor });
+  });
+
+  return mergeDuplicateClusters(dataset, decisions, options.fillMissing);
+};
@@ -0,0 +1,183 @@
+// Business Glossary - Workspace dictionary of business terms and value aliases
+// Terms ("revenue", "turnover", "customer type") name columns whose raw names don't say so
+// (amt_ghs, cust_seg_cd); value aliases ("GH" → "Ghana") name values. Natural-language
+// questions are read through it, and query suggestions and KPI titles use its terms.
+
+// ============================================================
+// Types
+// ============================================================
+
+export const GLOSSARY_FORMAT = 'dataafrik-glossary';
+export const GLOSSARY_VERSION = 1;
+
+export interface GlossaryTerm {
+  id: string;
+  term: string; // business name, also used as the column's label ("Revenue")
+  synonyms: string[]; // other ways to say it ("turnover", "sales")
+  column: string; // column it stands for, in whichever dataset has it
+  description?: string;
+}
+
+export interface ValueAlias {
+  id: string;
+  alias: string; // "GH"
+  value: string; // "Ghana"
+  column?: string; // only for this column; any column otherwise
+}
+
+export interface Glossary {
+  terms: GlossaryTerm[];
+  valueAliases: ValueAlias[];
+}
+
+interface GlossaryFile extends Glossary {
+  format: typeof GLOSSARY_FORMAT;
+  version: number;
+  exportedAt: string;
+}
+
+export const emptyGlossary = (): Glossary => ({ terms: [], valueAliases: [] });
+
+export const createGlossaryId = (prefix: 'term' | 'alias'): string =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+// ============================================================
+// Lookup
+// ============================================================
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words or phrases only: "revenue" must not match inside "revenue_usd". Value aliases
+// are codes ("US", "GH") and match case-sensitively, so "show us revenue" keeps its "us".
+const phrasePattern = (phrase: string, caseSensitive: boolean): RegExp =>
+  new RegExp(
+    `(?<![\\p{L}\\p{N}_])${escapeRegex(phrase.trim()).replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}_])`,
+    caseSensitive ? 'gu' : 'giu'
+  );
+
+/**
+ * Business name of a column, if the glossary has one
+ */
+export const glossaryLabel = (glossary: Glossary | undefined, column: string): string | undefined =>
+  glossary?.terms.find(term => term.column === column && term.term.trim())?.term.trim();
+
+/**
+ * Rewrite a question in the data's own names: business terms and synonyms become the column
+ * names they stand for, value aliases become the values. Terms for columns that none of
+ * `columns` has are left alone.
+ */
+export const applyGlossary = (question: string, glossary: Glossary | undefined, columns: string[]): string => {
+  if (!glossary) return question;
+  const available = new Set(columns);
+
+  const replacements: { phrase: string; replacement: string; caseSensitive: boolean }[] = [
+    ...glossary.terms
+      .filter(term => available.has(term.column))
+      .flatMap(term => [term.term, ...term.synonyms].map(phrase => ({ phrase, replacement: term.column, caseSensitive: false }))),
+    ...glossary.valueAliases
+      .filter(alias => alias.value.trim() && (!alias.column || available.has(alias.column)))
+      .map(alias => ({ phrase: alias.alias, replacement: alias.value.trim(), caseSensitive: true }))
+  ].filter(({ phrase }) => phrase.trim().length > 0);
+
+  // Longest phrases first, so "customer type" wins over "customer"; each part of the
+  // question is rewritten once
+  replacements.sort((a, b) => b.phrase.length - a.phrase.length);
+  const parts: { text: string; rewritten: boolean }[] = [{ text: question, rewritten: false }];
+  replacements.forEach(({ phrase, replacement, caseSensitive }) => {
+    const pattern = phrasePattern(phrase, caseSensitive);
+    for (let i = parts.length - 1; i >= 0; i--) {
+      const part = parts[i];
+      if (part.rewritten || !pattern.test(part.text)) continue;
+      pattern.lastIndex = 0;
+      const pieces = part.text.split(pattern);
+      const next = pieces.flatMap((text, j) => (j === 0
+        ? [{ text, rewritten: false }]
+        : [{ text: replacement, rewritten: true }, { text, rewritten: false }]));
+      parts.splice(i, 1, ...next);
+    }
+  });
+  return parts.map(part => part.text).join('');
+};
+
+// ============================================================
+// Import / export
+// ============================================================
+
+/**
+ * Read a glossary from JSON text, checking its format and every entry
+ */
+export const parseGlossary = (text: string): Glossary => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error('Glossary file is not valid JSON');
+  }
+  const file = value as Partial<GlossaryFile> | null;
+  if (!file || file.format !== GLOSSARY_FORMAT || !Array.isArray(file.terms) || !Array.isArray(file.valueAliases)) {
+    throw new Error('Not a DataAfrik glossary');
+  }
+  if (typeof file.version !== 'number' || file.version > GLOSSARY_VERSION) {
+    throw new Error(`Glossary version ${file.version} is newer than this app supports (${GLOSSARY_VERSION})`);
+  }
+  file.terms.forEach((term, index) => {
+    if (!term || typeof term.term !== 'string' || typeof term.column !== 'string' || !Array.isArray(term.synonyms)) {
+      throw new Error(`Term ${index + 1} is missing its name, column or synonyms`);
+    }
+  });
+  file.valueAliases.forEach((alias, index) => {
+    if (!alias || typeof alias.alias !== 'string' || typeof alias.value !== 'string') {
+      throw new Error(`Value alias ${index + 1} is missing its alias or value`);
+    }
+  });
+  return {
+    terms: file.terms.map(term => ({
+      id: term.id || createGlossaryId('term'),
+      term: term.term,
+      synonyms: term.synonyms.filter((synonym): synonym is string => typeof synonym === 'string'),
+      column: term.column,
+      ...(term.description ? { description: term.description } : {})
+    })),
+    valueAliases: file.valueAliases.map(alias => ({
+      id: alias.id || createGlossaryId('alias'),
+      alias: alias.alias,
+      value: alias.value,
+      ...(alias.column ? { column: alias.column } : {})
+    }))
+  };
+};
+
+/**
+ * Add imported entries, replacing terms and aliases with the same name
+ */
+export const mergeGlossaries = (current: Glossary, imported: Glossary): Glossary => {
+  const key = (text: string) => text.trim().toLowerCase();
+  const termNames = new Set(imported.terms.map(term => key(term.term)));
+  const aliasNames = new Set(imported.valueAliases.map(alias => `${key(alias.alias)}|${alias.column ?? ''}`));
+  return {
+    terms: [...current.terms.filter(term => !termNames.has(key(term.term))), ...imported.terms],
+    valueAliases: [
+      ...current.valueAliases.filter(alias => !aliasNames.has(`${key(alias.alias)}|${alias.column ?? ''}`)),
+      ...imported.valueAliases
+    ]
+  };
+};
+
+/**
+ * Trigger a browser download of the glossary as JSON
+ */
+export const downloadGlossary = (glossary: Glossary, name = 'glossary') => {
+  const file: GlossaryFile = {
+    format: GLOSSARY_FORMAT,
+    version: GLOSSARY_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...glossary
+  };
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${name.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'glossary'}.glossary.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
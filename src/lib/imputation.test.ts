@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeColumn } from './dataUtils';
+import { imputeColumn, imputeMissingValues } from './imputation';
+import { Dataset } from './types';
+
+const series = [
+  { day: 3, sensor: 'a', reading: null },
+  { day: 1, sensor: 'a', reading: 10 },
+  { day: 2, sensor: 'a', reading: null },
+  { day: 4, sensor: 'a', reading: 40 },
+  { day: 1, sensor: 'b', reading: 100 },
+  { day: 2, sensor: 'b', reading: null }
+];
+
+describe('imputeColumn', () => {
+  it('fills forward along the order column, each group on its own', () => {
+    const { values, report } = imputeColumn(series, 'reading', 'forward_fill', { orderBy: 'day', groupBy: 'sensor' });
+    expect(values).toEqual([10, 10, 10, 40, 100, 100]);
+    expect(report).toMatchObject({ imputedCells: 3, remainingMissing: 0 });
+    // The day-3 reading is two steps from its source, so it is trusted less
+    expect(report.confidence).toBeGreaterThan(0.8);
+    expect(report.confidence).toBeLessThan(1);
+  });
+
+  it('fills backward and reports cells with nothing to fill from', () => {
+    const { values, report } = imputeColumn(series, 'reading', 'backward_fill', { orderBy: 'day', groupBy: 'sensor' });
+    expect(values).toEqual([40, 10, 40, 40, 100, null]);
+    expect(report).toMatchObject({ imputedCells: 2, remainingMissing: 1 });
+    expect(report.detail).toBe(`Filled 2 of 3 missing cells with ${Math.round(report.confidence * 100)}% average confidence; 1 had nothing to fill from`);
+  });
+
+  it('interpolates between the neighbouring observations', () => {
+    const { values } = imputeColumn(series, 'reading', 'linear_interpolation', { orderBy: 'day', groupBy: 'sensor' });
+    expect(values.slice(0, 4)).toEqual([30, 10, 20, 40]);
+  });
+
+  it('learns from predictor columns with KNN and regression', () => {
+    const rows = Array.from({ length: 20 }, (_, i) => ({ size: i, price: i === 7 ? null : 3 * i + 5 }));
+    const regression = imputeColumn(rows, 'price', 'regression', { predictors: ['size'] });
+    expect(regression.values[7]).toBeCloseTo(26, 6);
+    const knn = imputeColumn(rows, 'price', 'knn', { predictors: ['size'], k: 2 });
+    expect(knn.values[7]).toBeCloseTo(26, 6);
+    expect(knn.values.filter((_, i) => i !== 7)).toEqual(rows.filter((_, i) => i !== 7).map(row => row.price));
+  });
+
+  it('leaves a complete column alone', () => {
+    const { values, report } = imputeColumn([{ x: 1 }, { x: 2 }], 'x', 'knn');
+    expect(values).toEqual([1, 2]);
+    expect(report.imputedCells).toBe(0);
+  });
+});
+
+describe('imputeMissingValues', () => {
+  const dataset: Dataset = {
+    id: 'readings',
+    name: 'Readings',
+    description: '',
+    columns: Object.keys(series[0]).map(column => analyzeColumn(column, series.map(row => row[column as keyof typeof row]))),
+    rowCount: series.length,
+    dataTypes: {},
+    data: series
+  };
+
+  it('replaces only the rows it filled', () => {
+    const result = imputeMissingValues(dataset, 'reading', 'forward_fill', { orderBy: 'day', groupBy: 'sensor' });
+    expect(result.dataset.data[1]).toBe(series[1]);
+    expect(result.dataset.data[2]).toEqual({ day: 2, sensor: 'a', reading: 10 });
+    expect(result.imputation?.imputedCells).toBe(3);
+  });
+
+  it('rejects columns the dataset lacks', () => {
+    expect(() => imputeMissingValues(dataset, 'reading', 'forward_fill', { orderBy: 'timestamp' }))
+      .toThrow('Column timestamp not found');
+  });
+});
@@ -0,0 +1,403 @@
+// Imputation - Fill missing values from the surrounding data
+// Forward/backward fill and linear interpolation along a date (or other) ordering, and KNN and
+// regression imputation from other columns. Every method reports how many cells it filled and
+// how confident it is in them. Used by the Data Cleaning panel and ML preprocessing.
+
+import { Dataset } from './types';
+import { CleaningResult } from './dataCleaningUtils';
+import { multipleRegression } from './advancedStatistics';
+import { getNumberColumn, getNumericValues, isMissingValue } from './columnarStore';
+
+// ============================================================
+// Types
+// ============================================================
+
+type RowObject = Record<string, unknown>;
+
+export type ImputationMethod =
+  | 'forward_fill'
+  | 'backward_fill'
+  | 'linear_interpolation'
+  | 'knn'
+  | 'regression';
+
+export interface ImputationOptions {
+  orderBy?: string; // column the series is ordered by (fill and interpolation); row order if unset
+  groupBy?: string; // fill each group (e.g. each sensor) as its own series
+  predictors?: string[]; // columns KNN and regression learn from; other numeric columns if unset
+  k?: number; // neighbours for KNN
+}
+
+export interface ImputationReport {
+  column: string;
+  method: ImputationMethod;
+  imputedCells: number;
+  remainingMissing: number; // cells the method had nothing to fill from
+  confidence: number; // mean confidence (0-1) of the filled cells
+  detail: string;
+}
+
+export const IMPUTATION_METHOD_LABELS: Record<ImputationMethod, string> = {
+  forward_fill: 'Forward fill',
+  backward_fill: 'Backward fill',
+  linear_interpolation: 'Linear interpolation',
+  knn: 'KNN',
+  regression: 'Regression'
+};
+
+// Confidence in a filled value drops by this factor for every step it is away from the
+// observation it was taken from
+const STEP_CONFIDENCE_DECAY = 0.9;
+const DEFAULT_K = 5;
+const MAX_KNN_DONORS = 5000; // donor rows KNN compares against (evenly sampled beyond this)
+const NUMERIC_SHARE = 0.85; // share of values that must be numbers for a column to count as numeric
+
+// ============================================================
+// Helpers
+// ============================================================
+
+const isNumericColumn = (rows: RowObject[], column: string): boolean => {
+  const present = rows.length - getNumberColumn(rows, column).missingCount;
+  return present > 0 && getNumericValues(rows, column).length >= present * NUMERIC_SHARE;
+};
+
+const average = (values: ArrayLike<number>): number => {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i];
+  return values.length > 0 ? sum / values.length : 0;
+};
+
+const standardDeviation = (values: ArrayLike<number>): number => {
+  const mean = average(values);
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += (values[i] - mean) ** 2;
+  return values.length > 0 ? Math.sqrt(sum / values.length) : 0;
+};
+
+const isNumberValue = (value: unknown): boolean => !isMissingValue(value) && !isNaN(Number(value));
+
+/**
+ * Sort key of an ordering value: numbers as they are, anything else parsed as a date
+ */
+const orderKey = (value: unknown): number => {
+  if (isMissingValue(value)) return NaN;
+  if (value instanceof Date) return value.getTime();
+  const number = Number(value);
+  return isNaN(number) ? new Date(String(value)).getTime() : number;
+};
+
+/**
+ * Row indices of each series in order. Rows without an ordering value go last.
+ */
+const orderedSeries = (rows: RowObject[], options: ImputationOptions): number[][] => {
+  const groups = new Map<string, number[]>();
+  rows.forEach((row, index) => {
+    const key = options.groupBy ? String(row[options.groupBy] ?? '') : '';
+    const group = groups.get(key);
+    if (group) group.push(index);
+    else groups.set(key, [index]);
+  });
+  if (!options.orderBy) return [...groups.values()];
+
+  const keys = rows.map(row => orderKey(row[options.orderBy as string]));
+  const sortKey = (index: number) => (isNaN(keys[index]) ? Infinity : keys[index]);
+  return [...groups.values()].map(indices => [...indices].sort((a, b) => sortKey(a) - sortKey(b)));
+};
+
+const defaultPredictors = (rows: RowObject[], column: string, options: ImputationOptions): string[] => {
+  if (options.predictors) return options.predictors.filter(name => name !== column);
+  const names = rows.length > 0 ? Object.keys(rows[0]) : [];
+  return names.filter(name => name !== column && name !== options.groupBy && isNumericColumn(rows, name));
+};
+
+interface FilledColumn {
+  values: unknown[];
+  confidences: (number | null)[]; // per row; null where nothing was imputed
+}
+
+const emptyFill = (rows: RowObject[], column: string): FilledColumn => ({
+  values: rows.map(row => row[column]),
+  confidences: rows.map(() => null)
+});
+
+// ============================================================
+// Series methods
+// ============================================================
+
+const fillAlongSeries = (rows: RowObject[], column: string, options: ImputationOptions, backward: boolean): FilledColumn => {
+  const result = emptyFill(rows, column);
+  orderedSeries(rows, options).forEach(series => {
+    const sequence = backward ? [...series].reverse() : series;
+    let lastValue: unknown;
+    let lastPosition = -1;
+    sequence.forEach((index, position) => {
+      if (!isMissingValue(rows[index][column])) {
+        lastValue = rows[index][column];
+        lastPosition = position;
+      } else if (lastPosition >= 0) {
+        result.values[index] = lastValue;
+        result.confidences[index] = Math.pow(STEP_CONFIDENCE_DECAY, position - lastPosition);
+      }
+    });
+  });
+  return result;
+};
+
+const interpolateAlongSeries = (rows: RowObject[], column: string, options: ImputationOptions): FilledColumn => {
+  if (!isNumericColumn(rows, column)) {
+    throw new Error(`Interpolation needs a numeric column; ${column} is not numeric`);
+  }
+  const result = emptyFill(rows, column);
+  orderedSeries(rows, options).forEach(allRows => {
+    // Position along the series is the ordering value (rows without one can't be placed)
+    // or, with no ordering column, the row's step in the series
+    const series = options.orderBy
+      ? allRows.filter(index => !isNaN(orderKey(rows[index][options.orderBy as string])))
+      : allRows;
+    const xs = series.map((index, position) =>
+      (options.orderBy ? orderKey(rows[index][options.orderBy]) : position));
+    const observed = series
+      .map((index, position) => ({ position, value: rows[index][column] }))
+      .filter(point => isNumberValue(point.value));
+
+    for (let p = 0; p < observed.length - 1; p++) {
+      const start = observed[p];
+      const end = observed[p + 1];
+      const y0 = Number(start.value);
+      const y1 = Number(end.value);
+      const x0 = xs[start.position];
+      const x1 = xs[end.position];
+      for (let position = start.position + 1; position < end.position; position++) {
+        const index = series[position];
+        if (!isMissingValue(rows[index][column])) continue;
+        const t = x1 === x0 ? 0 : (xs[position] - x0) / (x1 - x0);
+        result.values[index] = y0 + (y1 - y0) * t;
+        const steps = Math.min(position - start.position, end.position - position);
+        result.confidences[index] = Math.pow(STEP_CONFIDENCE_DECAY, steps);
+      }
+    }
+  });
+  return result;
+};
+
+// ============================================================
+// Model-based methods
+// ============================================================
+
+const knnImpute = (rows: RowObject[], column: string, options: ImputationOptions): FilledColumn => {
+  const predictors = defaultPredictors(rows, column, options);
+  if (predictors.length === 0) {
+    throw new Error('KNN imputation needs at least one numeric column to compare rows on');
+  }
+  const result = emptyFill(rows, column);
+  const k = Math.max(1, options.k ?? DEFAULT_K);
+  const numericTarget = isNumericColumn(rows, column);
+
+  // Standardize predictors so each contributes on the same scale
+  const scaled = predictors.map(name => {
+    const { values, missing } = getNumberColumn(rows, name);
+    const present = getNumericValues(rows, name);
+    const mean = average(present);
+    const std = standardDeviation(present) || 1;
+    const standardized = new Float64Array(rows.length);
+    for (let i = 0; i < rows.length; i++) {
+      standardized[i] = missing[i] || isNaN(values[i]) ? NaN : (values[i] - mean) / std;
+    }
+    return standardized;
+  });
+
+  const donorRows = rows.map((_, index) => index).filter(index => !isMissingValue(rows[index][column]));
+  const stride = Math.max(1, Math.ceil(donorRows.length / MAX_KNN_DONORS));
+  const donors = donorRows.filter((_, i) => i % stride === 0);
+  const targetStd = numericTarget ? standardDeviation(getNumericValues(rows, column)) : 0;
+
+  rows.forEach((row, index) => {
+    if (!isMissingValue(row[column])) return;
+
+    // Keep the k nearest donors, comparing on the predictors both rows have
+    const nearest: { index: number; distance: number }[] = [];
+    donors.forEach(donor => {
+      let sum = 0;
+      let shared = 0;
+      for (const values of scaled) {
+        const a = values[index];
+        const b = values[donor];
+        if (isNaN(a) || isNaN(b)) continue;
+        sum += (a - b) ** 2;
+        shared++;
+      }
+      if (shared === 0) return;
+      const distance = Math.sqrt(sum / shared);
+      if (nearest.length === k && distance >= nearest[k - 1].distance) return;
+      nearest.push({ index: donor, distance });
+      nearest.sort((a, b) => a.distance - b.distance);
+      if (nearest.length > k) nearest.pop();
+    });
+    if (nearest.length === 0) return;
+
+    const neighbourValues = nearest.map(n => rows[n.index][column]);
+    if (numericTarget) {
+      const numbers = neighbourValues.map(Number).filter(v => !isNaN(v));
+      if (numbers.length === 0) return;
+      const spread = standardDeviation(numbers);
+      result.values[index] = average(numbers);
+      // Neighbours that agree closely (relative to the column's spread) give high confidence
+      result.confidences[index] = targetStd > 0 ? Math.max(0, 1 - spread / targetStd) : 1;
+    } else {
+      const votes = new Map<string, { value: unknown; count: number }>();
+      neighbourValues.forEach(value => {
+        const key = String(value);
+        const vote = votes.get(key);
+        if (vote) vote.count++;
+        else votes.set(key, { value, count: 1 });
+      });
+      const winner = [...votes.values()].sort((a, b) => b.count - a.count)[0];
+      result.values[index] = winner.value;
+      result.confidences[index] = winner.count / neighbourValues.length;
+    }
+  });
+  return result;
+};
+
+const regressionImpute = (rows: RowObject[], column: string, options: ImputationOptions): FilledColumn => {
+  if (!isNumericColumn(rows, column)) {
+    throw new Error(`Regression imputation needs a numeric column; ${column} is not numeric`);
+  }
+  const predictors = defaultPredictors(rows, column, options);
+  if (predictors.length === 0) {
+    throw new Error('Regression imputation needs at least one numeric predictor column');
+  }
+
+  // Fit on rows where the target and every predictor are present
+  const training = rows.filter(row => isNumberValue(row[column]) && predictors.every(name => isNumberValue(row[name])));
+  if (training.length < predictors.length + 2) {
+    throw new Error(`Not enough complete rows to fit a regression for ${column}`);
+  }
+  const fit = multipleRegression({ data: training } as Dataset, column, predictors);
+  const predictorMeans = predictors.map(name => average(getNumericValues(rows, name)));
+  const observed = getNumericValues(rows, column);
+  const min = observed.reduce((lowest, value) => Math.min(lowest, value), Infinity);
+  const max = observed.reduce((highest, value) => Math.max(highest, value), -Infinity);
+
+  const result = emptyFill(rows, column);
+  // Collinear or constant predictors leave the normal equations without a usable solution;
+  // the column mean is then the best guess there is, with no confidence from the fit
+  const usable = Number.isFinite(fit.intercept) &&
+    predictors.every(name => Number.isFinite(fit.coefficients[name]));
+  if (!usable) {
+    const mean = average(observed);
+    rows.forEach((row, index) => {
+      if (!isMissingValue(row[column])) return;
+      result.values[index] = mean;
+      result.confidences[index] = 0;
+    });
+    return result;
+  }
+
+  const fitConfidence = Math.max(0, Math.min(1, fit.rSquared));
+  rows.forEach((row, index) => {
+    if (!isMissingValue(row[column])) return;
+    let prediction = fit.intercept || 0;
+    let present = 0;
+    predictors.forEach((name, p) => {
+      // A missing predictor is taken at its mean, which costs confidence
+      const value = isNumberValue(row[name]) ? Number(row[name]) : predictorMeans[p];
+      if (isNumberValue(row[name])) present++;
+      prediction += (fit.coefficients[name] || 0) * value;
+    });
+    // Predictors far outside the training range extrapolate; keep fills within what was observed
+    result.values[index] = Math.min(max, Math.max(min, prediction));
+    result.confidences[index] = fitConfidence * (present / predictors.length);
+  });
+  return result;
+};
+
+// ============================================================
+// Public API
+// ============================================================
+
+/**
+ * Impute the missing values of one column. Returns the whole column (observed values
+ * unchanged) and a report of what was filled.
+ */
+export const imputeColumn = (
+  rows: RowObject[],
+  column: string,
+  method: ImputationMethod,
+  options: ImputationOptions = {}
+): { values: unknown[]; report: ImputationReport } => {
+  const missingBefore = getNumberColumn(rows, column).missingCount;
+  let filled: FilledColumn;
+  if (missingBefore === 0) {
+    filled = emptyFill(rows, column);
+  } else {
+    switch (method) {
+      case 'forward_fill':
+        filled = fillAlongSeries(rows, column, options, false);
+        break;
+      case 'backward_fill':
+        filled = fillAlongSeries(rows, column, options, true);
+        break;
+      case 'linear_interpolation':
+        filled = interpolateAlongSeries(rows, column, options);
+        break;
+      case 'knn':
+        filled = knnImpute(rows, column, options);
+        break;
+      case 'regression':
+        filled = regressionImpute(rows, column, options);
+        break;
+    }
+  }
+
+  const confidences = filled.confidences.filter((c): c is number => c !== null);
+  const imputedCells = confidences.length;
+  const confidence = imputedCells > 0 ? confidences.reduce((sum, c) => sum + c, 0) / imputedCells : 0;
+  const remainingMissing = missingBefore - imputedCells;
+  const detail = `Filled ${imputedCells} of ${missingBefore} missing cells` +
+    (imputedCells > 0 ? ` with ${Math.round(confidence * 100)}% average confidence` : '') +
+    (remainingMissing > 0 ? `; ${remainingMissing} had nothing to fill from` : '');
+
+  return {
+    values: filled.values,
+    report: { column, method, imputedCells, remainingMissing, confidence, detail }
+  };
+};
+
+/**
+ * Cleaning operation: impute a column's missing values with one of the methods above
+ */
+export const imputeMissingValues = (
+  dataset: Dataset,
+  column: string,
+  method: ImputationMethod,
+  options: ImputationOptions = {}
+): CleaningResult => {
+  const referenced = [column, options.orderBy, options.groupBy, ...(options.predictors || [])]
+    .filter((name): name is string => !!name);
+  const missing = referenced.filter(name => !dataset.columns.some(col => col.name === name));
+  if (missing.length > 0) {
+    throw new Error(`Column ${missing.join(', ')} not found`);
+  }
+
+  const { values, report } = imputeColumn(dataset.data, column, method, options);
+  const cleanedData = dataset.data.map((row, index) =>
+    values[index] === row[column] ? row : { ...row, [column]: values[index] });
+  const nullCount = dataset.columns.reduce((sum, col) => sum + col.nullCount, 0);
+
+  return {
+    dataset: {
+      ...dataset,
+      data: cleanedData,
+      updatedAt: new Date()
+    },
+    operationsPerformed: [`${IMPUTATION_METHOD_LABELS[method]} ${column}: ${report.detail}`],
+    imputation: report,
+    rowsRemoved: 0,
+    rowsAdded: 0,
+    statistics: {
+      before: { rowCount: dataset.rowCount, nullCount, duplicateCount: 0 },
+      after: { rowCount: dataset.rowCount, nullCount: nullCount - report.imputedCells, duplicateCount: 0 }
+    }
+  };
+};
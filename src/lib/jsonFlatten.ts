@@ -0,0 +1,306 @@
+// JSON Flattening - Turns nested API exports into flat tables
+// Nested objects become dot-path columns (customer.region); arrays of objects can be
+// exploded into child tables linked back to their parent rows by a key column
+
+import { Dataset, Relationship } from './types';
+import { analyzeColumn, applySemanticTypes } from './dataUtils';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type JSONArrayMode = 'explode' | 'stringify';
+
+export interface JSONFlattenOptions {
+  separator?: string; // joins nested keys, default "."
+  maxDepth?: number; // deeper objects are kept as JSON text
+  arrayMode?: JSONArrayMode; // arrays of objects: child tables or JSON text
+  recordPath?: string; // path of the record array, auto-detected when omitted
+}
+
+export interface FlattenedTable {
+  path: string; // "" for the root records, otherwise the array path (e.g. "items")
+  rows: Record<string, unknown>[];
+  keyColumn?: string; // unique per row; referenced by child tables
+  parentPath?: string;
+  parentKeyColumn?: string; // column in this table holding the parent's key
+}
+
+export interface FlattenedLink {
+  childPath: string;
+  childColumn: string;
+  parentPath: string;
+  parentColumn: string;
+}
+
+export interface JSONFlattenResult {
+  recordPath: string; // where the root records were found ("" for a top-level array)
+  tables: FlattenedTable[]; // root table first
+  links: FlattenedLink[];
+}
+
+type JSONObject = Record<string, unknown>;
+
+const DEFAULT_OPTIONS: Required<Omit<JSONFlattenOptions, 'recordPath'>> = {
+  separator: '.',
+  maxDepth: 5,
+  arrayMode: 'explode'
+};
+
+export const ROW_KEY_COLUMN = '_row_id';
+export const PARENT_KEY_PREFIX = '_parent';
+
+// ============================================================
+// Helpers
+// ============================================================
+
+const isPlainObject = (value: unknown): value is JSONObject =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isObjectArray = (value: unknown): value is JSONObject[] =>
+  Array.isArray(value) && value.length > 0 && value.some(isPlainObject);
+
+const joinPath = (prefix: string, key: string, separator: string): string =>
+  prefix ? `${prefix}${separator}${key}` : key;
+
+const getAtPath = (value: unknown, path: string, separator: string): unknown => {
+  if (!path) return value;
+  return path.split(separator).reduce<unknown>(
+    (current, key) => (isPlainObject(current) ? current[key] : undefined),
+    value
+  );
+};
+
+/**
+ * Find the record array in a JSON document: the largest array of objects reachable
+ * through nested objects (so { meta: {...}, data: [...] } picks "data")
+ */
+export const findRecordArray = (
+  document: unknown,
+  separator: string = DEFAULT_OPTIONS.separator
+): { path: string; records: JSONObject[] } | null => {
+  if (isObjectArray(document)) {
+    return { path: '', records: document.filter(isPlainObject) };
+  }
+  let best: { path: string; records: JSONObject[] } | null = null;
+  const visit = (value: JSONObject, prefix: string, depth: number) => {
+    if (depth > DEFAULT_OPTIONS.maxDepth) return;
+    Object.entries(value).forEach(([key, child]) => {
+      const path = joinPath(prefix, key, separator);
+      if (isObjectArray(child)) {
+        if (!best || child.length > best.records.length) {
+          best = { path, records: child.filter(isPlainObject) };
+        }
+      } else if (isPlainObject(child)) {
+        visit(child, path, depth + 1);
+      }
+    });
+  };
+  if (isPlainObject(document)) visit(document, '', 0);
+  return best;
+};
+
+/**
+ * Pick a parent key: an existing unique, non-empty scalar id column if there is one,
+ * otherwise a generated row number column
+ */
+const chooseKeyColumn = (rows: JSONObject[]): string | null => {
+  if (rows.length === 0) return null;
+  const candidates = Object.keys(rows[0]).filter(column => {
+    const name = column.toLowerCase();
+    return name === 'id' || name.endsWith('_id') || name.endsWith('.id');
+  });
+  for (const column of candidates) {
+    const values = rows.map(row => row[column]);
+    if (values.some(v => v === null || v === undefined || v === '' || typeof v === 'object')) continue;
+    if (new Set(values.map(String)).size === rows.length) return column;
+  }
+  return null;
+};
+
+// ============================================================
+// Flattening
+// ============================================================
+
+interface PendingChild {
+  path: string;
+  records: { parentIndex: number; record: JSONObject }[];
+}
+
+/**
+ * Flatten one record into dot-path columns. Arrays of objects are either collected
+ * for explosion or stringified; arrays of scalars are joined with "; ".
+ */
+const flattenRecord = (
+  record: JSONObject,
+  options: Required<Omit<JSONFlattenOptions, 'recordPath'>>,
+  onChildArray: (path: string, records: JSONObject[]) => void
+): JSONObject => {
+  const row: JSONObject = {};
+  const walk = (value: JSONObject, prefix: string, depth: number) => {
+    Object.entries(value).forEach(([key, child]) => {
+      const column = joinPath(prefix, key, options.separator);
+      if (isPlainObject(child)) {
+        if (depth >= options.maxDepth) row[column] = JSON.stringify(child);
+        else walk(child, column, depth + 1);
+      } else if (Array.isArray(child)) {
+        if (isObjectArray(child)) {
+          if (options.arrayMode === 'explode') onChildArray(column, child.filter(isPlainObject));
+          else row[column] = JSON.stringify(child);
+        } else {
+          row[column] = child.every(item => item === null || typeof item !== 'object')
+            ? child.filter(item => item !== null && item !== undefined).join('; ')
+            : JSON.stringify(child);
+        }
+      } else {
+        row[column] = child === undefined ? null : child;
+      }
+    });
+  };
+  walk(record, '', 1);
+  return row;
+};
+
+/**
+ * Give every row the same columns in first-seen order (missing values become null)
+ */
+const alignColumns = (rows: JSONObject[]): JSONObject[] => {
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(column => {
+    if (!seen.has(column)) {
+      seen.add(column);
+      columns.push(column);
+    }
+  }));
+  return rows.map(row => Object.fromEntries(columns.map(column => [column, row[column] ?? null])));
+};
+
+/**
+ * Flatten a parsed JSON document into a root table plus (in explode mode) one child
+ * table per nested array path, with links from each child to its parent
+ */
+export const flattenJSON = (document: unknown, userOptions: JSONFlattenOptions = {}): JSONFlattenResult => {
+  const options = { ...DEFAULT_OPTIONS, ...userOptions };
+
+  let recordPath = '';
+  let records: JSONObject[];
+  if (userOptions.recordPath !== undefined) {
+    const value = getAtPath(document, userOptions.recordPath, options.separator);
+    if (!Array.isArray(value)) {
+      throw new Error(`No array found at "${userOptions.recordPath}"`);
+    }
+    recordPath = userOptions.recordPath;
+    records = value.map(item => (isPlainObject(item) ? item : { value: item }));
+  } else {
+    const found = findRecordArray(document, options.separator);
+    if (found) {
+      recordPath = found.path;
+      records = found.records;
+    } else if (isPlainObject(document)) {
+      records = [document]; // a single object is one row
+    } else if (Array.isArray(document)) {
+      throw new Error(document.length === 0 ? 'JSON array is empty' : 'JSON array must contain objects, not primitive values');
+    } else {
+      throw new Error('JSON must be an object or an array of objects');
+    }
+  }
+  if (records.length === 0) {
+    throw new Error(recordPath ? `JSON array "${recordPath}" is empty` : 'JSON array is empty');
+  }
+
+  const tables: FlattenedTable[] = [];
+  const links: FlattenedLink[] = [];
+
+  const buildTable = (
+    path: string,
+    items: { parentIndex?: number; record: JSONObject }[],
+    parent?: FlattenedTable
+  ) => {
+    const children = new Map<string, PendingChild>();
+    const rows = items.map(({ record }, index) =>
+      flattenRecord(record, options, (childPath, childRecords) => {
+        const fullPath = joinPath(path, childPath, options.separator);
+        const pending = children.get(fullPath) || { path: fullPath, records: [] };
+        childRecords.forEach(child => pending.records.push({ parentIndex: index, record: child }));
+        children.set(fullPath, pending);
+      })
+    );
+
+    const table: FlattenedTable = { path, rows: alignColumns(rows) };
+    if (parent && parent.keyColumn) {
+      const parentKeyColumn = `${PARENT_KEY_PREFIX}${parent.keyColumn.startsWith('_') ? '' : '_'}${parent.keyColumn}`;
+      // The link comes first and wins over a child field that happens to share its name
+      table.rows = table.rows.map((row, i) => {
+        const { [parentKeyColumn]: _shadowed, ...fields } = row;
+        return { [parentKeyColumn]: parent.rows[items[i].parentIndex!][parent.keyColumn!], ...fields };
+      });
+      table.parentPath = parent.path;
+      table.parentKeyColumn = parentKeyColumn;
+      links.push({ childPath: path, childColumn: parentKeyColumn, parentPath: parent.path, parentColumn: parent.keyColumn });
+    }
+    tables.push(table);
+
+    if (children.size > 0) {
+      // Children need a parent key; reuse a unique id column or number the rows
+      table.keyColumn = chooseKeyColumn(table.rows) || ROW_KEY_COLUMN;
+      if (table.keyColumn === ROW_KEY_COLUMN) {
+        table.rows = table.rows.map((row, i) => ({ [ROW_KEY_COLUMN]: i + 1, ...row }));
+      }
+      children.forEach(child => buildTable(child.path, child.records, table));
+    }
+  };
+
+  buildTable('', records.map(record => ({ record })));
+  return { recordPath, tables, links };
+};
+
+// ============================================================
+// Datasets
+// ============================================================
+
+/**
+ * Turn flattened tables into Datasets named like Excel sheets ("orders.json - items")
+ * and Relationship records from each child table to its parent
+ */
+export const flattenedTablesToDatasets = (
+  result: JSONFlattenResult,
+  fileName: string,
+  file?: File
+): { datasets: Dataset[]; relationships: Relationship[] } => {
+  const stamp = Date.now();
+  const datasets = result.tables.map((table, index): Dataset => {
+    const headers = Object.keys(table.rows[0] || {});
+    const { data, columns } = applySemanticTypes(
+      table.rows,
+      headers.map(header => analyzeColumn(header, table.rows.map(row => row[header])))
+    );
+    return {
+      id: `dataset-${stamp}-${index}`,
+      name: table.path ? `${fileName} - ${table.path}` : fileName,
+      file,
+      description: table.path
+        ? `Nested array "${table.path}" (linked by ${table.parentKeyColumn})`
+        : result.recordPath ? `Records at "${result.recordPath}"` : '',
+      columns,
+      rowCount: table.rows.length,
+      dataTypes: Object.fromEntries(columns.map(col => [col.name, col.type])),
+      data,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+  });
+
+  const idByPath = new Map(result.tables.map((table, index) => [table.path, datasets[index].id]));
+  const relationships = result.links.map((link, index): Relationship => ({
+    id: `json-rel-${stamp}-${index}`,
+    fromDataset: idByPath.get(link.childPath)!,
+    toDataset: idByPath.get(link.parentPath)!,
+    fromColumn: link.childColumn,
+    toColumn: link.parentColumn,
+    type: 'one-to-many',
+    confidence: 1 // structural: taken from the document nesting, not inferred
+  }));
+
+  return { datasets, relationships };
+};
@@ -2,6 +2,8 @@
 // Enhanced with Time Intelligence, CALCULATE, conditional, cross-table, and ranking functions
 import React from 'react';
 import { Dataset, ColumnInfo, Relationship, DAXFilterContext } from './types';
+import { isMeasureColumn } from './semanticTypes';
+import { Glossary, glossaryLabel } from './glossary';
 
 export type KPIFormula = 
   | 'SUM' 
@@ -23,6 +25,7 @@ export interface KPIDefinition {
   columnName?: string;
   columnName2?: string; // For RATIO calculations
   format?: 'number' | 'currency' | 'percentage' | 'decimal';
+  currencyCode?: string; // ISO 4217 code for 'currency' format (defaults to USD)
   icon?: string;
   color?: string;
   description?: string;
@@ -154,7 +157,8 @@ export const executeKPIFormula = (
 export const formatKPIValue = (
   value: number,
   format: 'number' | 'currency' | 'percentage' | 'decimal' = 'number',
-  decimals: number = 2
+  decimals: number = 2,
+  currencyCode: string = 'USD'
 ): string => {
   if (isNaN(value) || value === null || value === undefined) return '-';
 
@@ -162,7 +166,7 @@ export const formatKPIValue = (
     case 'currency':
       return new Intl.NumberFormat('en-US', {
         style: 'currency',
-        currency: 'USD',
+        currency: currencyCode,
         minimumFractionDigits: decimals,
         maximumFractionDigits: decimals
       }).format(value);
@@ -244,17 +248,22 @@ export const getKPIColor = (index: number): string => {
   return colors[index % colors.length];
 };
 
+// "total_revenue" -> "Total Revenue", unless the glossary has a business name for the column
+const kpiColumnLabel = (colName: string, glossary?: Glossary): string =>
+  glossaryLabel(glossary, colName) ?? colName.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+
 /**
  * Generate KPIs automatically from dataset (Power BI-like)
  */
-export const generateKPIs = (dataset: Dataset | null): KPIDefinition[] => {
+export const generateKPIs = (dataset: Dataset | null, glossary?: Glossary): KPIDefinition[] => {
   if (!dataset || !dataset.columns || dataset.columns.length === 0) {
     return [];
   }
 
   const kpis: KPIDefinition[] = [];
-  const numericColumns = dataset.columns.filter(col => col.type === 'number');
-  const stringColumns = dataset.columns.filter(col => col.type === 'string');
+  // IDs, postal codes and coordinates are numbers but not quantities; free text has no categories
+  const numericColumns = dataset.columns.filter(isMeasureColumn);
+  const stringColumns = dataset.columns.filter(col => col.type === 'string' && col.semantic?.type !== 'free_text');
   const dateColumns = dataset.columns.filter(col => col.type === 'date');
 
   // Always add Total Records
@@ -270,18 +279,25 @@ export const generateKPIs = (dataset: Dataset | null): KPIDefinition[] => {
   // For each numeric column, create Sum, Average, and potentially other aggregations
   numericColumns.forEach((col, index) => {
     const colName = col.name;
-    const cleanName = colName.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
-
-    // Sum
-    kpis.push({
-      id: `kpi-sum-${colName}`,
-      title: `Sum of ${cleanName}`,
-      formula: 'SUM',
-      columnName: colName,
-      format: 'number',
-      icon: getKPIIcon('SUM', colName),
-      color: getKPIColor(kpis.length)
-    });
+    const cleanName = kpiColumnLabel(colName, glossary);
+    const isPercent = col.semantic?.type === 'percent';
+    const currency = col.semantic?.type === 'currency'
+      ? { format: 'currency' as const, currencyCode: col.semantic.currencyCode }
+      : null;
+
+    // Sum (percentages don't add up)
+    if (!isPercent) {
+      kpis.push({
+        id: `kpi-sum-${colName}`,
+        title: `Sum of ${cleanName}`,
+        formula: 'SUM',
+        columnName: colName,
+        format: 'number',
+        ...currency,
+        icon: getKPIIcon('SUM', colName),
+        color: getKPIColor(kpis.length)
+      });
+    }
 
     // Average
     kpis.push({
@@ -291,7 +307,8 @@ export const generateKPIs = (dataset: Dataset | null): KPIDefinition[] => {
         : `Average ${cleanName}`,
       formula: 'AVERAGE',
       columnName: colName,
-      format: 'decimal',
+      format: isPercent ? 'percentage' : 'decimal',
+      ...currency,
       icon: getKPIIcon('AVERAGE', colName),
       color: getKPIColor(kpis.length)
     });
@@ -300,7 +317,7 @@ export const generateKPIs = (dataset: Dataset | null): KPIDefinition[] => {
   // For string columns that look like categories, add Distinct Count
   stringColumns.slice(0, 2).forEach(col => {
     const colName = col.name;
-    const cleanName = colName.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+    const cleanName = kpiColumnLabel(colName, glossary);
     
     // Only add if unique count is reasonable (not too high)
     if (col.uniqueCount < dataset.rowCount * 0.5 && col.uniqueCount > 1) {
@@ -321,7 +338,7 @@ export const generateKPIs = (dataset: Dataset | null): KPIDefinition[] => {
     const colName = col.name.toLowerCase();
     if ((colName.includes('rate') || colName.includes('follow') || colName.includes('success')) 
         && col.uniqueCount <= 5) {
-      const fullName = col.name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+      const fullName = kpiColumnLabel(col.name, glossary);
       kpis.push({
         id: `kpi-percent-${col.name}`,
         title: fullName.includes('Rate') ? fullName : `${fullName} Rate`,
@@ -349,7 +366,7 @@ export const renderKPICard = (
   if (!dataset) return null;
 
   const value = executeKPIFormula(dataset, kpiDef.formula, kpiDef.columnName, kpiDef.columnName2);
-  const formattedValue = formatKPIValue(value, kpiDef.format, kpiDef.format === 'percentage' ? 2 : 2);
+  const formattedValue = formatKPIValue(value, kpiDef.format, kpiDef.format === 'percentage' ? 2 : 2, kpiDef.currencyCode);
   const iconKey = kpiDef.icon || 'bar-chart-2';
   const icon = icons[iconKey] || icons['bar-chart-2'] || null;
 
@@ -643,16 +660,10 @@ export const calculateRunningTotal = (
 // ============================================================
 
 /**
- * CALCULATE: Execute a formula with filter context (Power BI CALCULATE equivalent)
+ * Apply a DAX filter context to a set of rows (shared by CALCULATE and the DAX evaluator)
  */
-export const calculateWithContext = (
-  dataset: Dataset,
-  formula: KPIFormula,
-  column: string,
-  filters: DAXFilterContext[]
-): number => {
-  // Apply all filters to create a filtered dataset
-  let filteredData = [...dataset.data];
+export const applyFilterContext = (data: Record<string, unknown>[], filters: DAXFilterContext[]): Record<string, unknown>[] => {
+  let filteredData = [...data];
 
   for (const filter of filters) {
     filteredData = filteredData.filter(row => {
@@ -672,6 +683,21 @@ export const calculateWithContext = (
     });
   }
 
+  return filteredData;
+};
+
+/**
+ * CALCULATE: Execute a formula with filter context (Power BI CALCULATE equivalent)
+ */
+export const calculateWithContext = (
+  dataset: Dataset,
+  formula: KPIFormula,
+  column: string,
+  filters: DAXFilterContext[]
+): number => {
+  // Apply all filters to create a filtered dataset
+  const filteredData = applyFilterContext(dataset.data, filters);
+
   // Create a temporary filtered dataset
   const filteredDataset: Dataset = {
     ...dataset,
@@ -818,13 +844,14 @@ export const calculateRANKX = (
 /**
  * Generate enhanced KPIs including time intelligence when date columns are present
  */
-export const generateEnhancedKPIs = (dataset: Dataset | null): KPIDefinition[] => {
+export const generateEnhancedKPIs = (dataset: Dataset | null, glossary?: Glossary): KPIDefinition[] => {
   // Start with base KPIs
-  const baseKPIs = generateKPIs(dataset);
+  const baseKPIs = generateKPIs(dataset, glossary);
   if (!dataset) return baseKPIs;
 
   const dateColumns = dataset.columns.filter(col => col.type === 'date');
-  const numericColumns = dataset.columns.filter(col => col.type === 'number');
+  // Year-to-date totals only make sense for quantities that add up
+  const numericColumns = dataset.columns.filter(col => isMeasureColumn(col) && col.semantic?.type !== 'percent');
 
   if (dateColumns.length === 0 || numericColumns.length === 0) {
     return baseKPIs;
@@ -832,7 +859,7 @@ export const generateEnhancedKPIs = (dataset: Dataset | null): KPIDefinition[] =
 
   const dateCol = dateColumns[0];
   const primaryNumCol = numericColumns[0];
-  const cleanName = primaryNumCol.name.replace(/_/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase());
+  const cleanName = kpiColumnLabel(primaryNumCol.name, glossary);
 
   // Add time intelligence KPIs
   const timeKPIs: KPIDefinition[] = [];
@@ -844,7 +871,8 @@ export const generateEnhancedKPIs = (dataset: Dataset | null): KPIDefinition[] =
     formula: 'SUM', // Will be overridden by enhanced execution
     columnName: primaryNumCol.name,
     columnName2: dateCol.name,
-    format: 'number',
+    format: primaryNumCol.semantic?.type === 'currency' ? 'currency' : 'number',
+    currencyCode: primaryNumCol.semantic?.currencyCode,
     icon: 'calendar',
     color: 'text-indigo-500',
     description: `Year-to-date total of ${cleanName}`
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { analyzeColumn } from './dataUtils';
+import { configureLanguageModel, polishNarrative, summarizeDataset, translateQuestion } from './languageModel';
+import { Dataset } from './types';
+
+const REGIONS = ['North', 'South', 'East'];
+
+const rows = Array.from({ length: 60 }, (_, i) => ({
+  customer_id: 5001 + i,
+  phone: `+233 24 555 ${String(1000 + i)}`,
+  email: `customer${i}@example.com`,
+  city: `Town ${i}`,
+  region: REGIONS[i % 3],
+  amount: 20 + (i % 7) * 5
+}));
+
+const customers: Dataset = {
+  id: 'customers',
+  name: 'Customers',
+  description: '',
+  columns: Object.keys(rows[0]).map(column => analyzeColumn(column, rows.map(row => row[column as keyof typeof row]))),
+  rowCount: rows.length,
+  dataTypes: {},
+  data: rows
+};
+
+const reply = (content: string) =>
+  new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 });
+
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', fetchMock);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  configureLanguageModel({ endpoint: 'http://localhost:11434/v1', model: 'test' });
+});
+
+afterEach(() => {
+  configureLanguageModel(undefined);
+  fetchMock.mockReset();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('translateQuestion', () => {
+  it('reads the plan out of a fenced reply', async () => {
+    fetchMock.mockResolvedValue(reply(
+      'Here you go:\n```json\n{"plan": {"measures": [{"aggregation": "sum", "column": "amount"}], "groupBy": ["region"], "filters": []}}\n```'
+    ));
+    const plan = await translateQuestion('total amount by region', customers);
+    expect(plan).toMatchObject({ measures: [{ aggregation: 'sum', column: 'amount' }], groupBy: ['region'], filters: [] });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(JSON.parse(String(init?.body)).model).toBe('test');
+  });
+
+  it('resolves to null when the model says there is no plan', async () => {
+    fetchMock.mockResolvedValue(reply('{"plan": null}'));
+    await expect(translateQuestion('why is the sky blue', customers)).resolves.toBeNull();
+  });
+
+  it('rejects a malformed plan or a failing endpoint', async () => {
+    fetchMock.mockResolvedValue(reply('{"plan": {"measures": [{"aggregation": "everything", "column": "amount"}]}}'));
+    await expect(translateQuestion('total amount', customers)).rejects.toThrow('Unknown aggregation "everything"');
+    fetchMock.mockResolvedValue(new Response('', { status: 500 }));
+    await expect(translateQuestion('total amount', customers)).rejects.toThrow('Language model endpoint failed (500)');
+  });
+});
+
+describe('polishNarrative', () => {
+  const draft = 'Revenue grew 12.5% to 4,200 in March, led by the North region.';
+
+  it('keeps a reply that only rewords', async () => {
+    const polished = 'In March, revenue rose 12.5% to 4,200, with the North region in front.';
+    fetchMock.mockResolvedValue(reply(polished));
+    await expect(polishNarrative(draft, 'summary')).resolves.toBe(polished);
+  });
+
+  it('discards a reply that changes, drops or adds a figure', async () => {
+    fetchMock.mockResolvedValueOnce(reply('Revenue grew 12% to 4,200 in March, led by the North region.'));
+    await expect(polishNarrative(draft, 'summary')).resolves.toBe(draft);
+    fetchMock.mockResolvedValueOnce(reply('Revenue grew strongly in March, led by the North region.'));
+    await expect(polishNarrative(draft, 'summary')).resolves.toBe(draft);
+    fetchMock.mockResolvedValueOnce(reply('Revenue grew 12.5% to 4,200 in March, led by the North region at 1,900.'));
+    await expect(polishNarrative(draft, 'summary')).resolves.toBe(draft);
+  });
+
+  it('falls back to the draft when the endpoint times out', async () => {
+    configureLanguageModel({ endpoint: 'http://localhost:11434/v1', model: 'test', timeoutMs: 10 });
+    fetchMock.mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }));
+    await expect(polishNarrative(draft, 'summary')).resolves.toBe(draft);
+  });
+
+  it('does not call out without an endpoint', async () => {
+    configureLanguageModel(null);
+    await expect(polishNarrative(draft, 'summary')).resolves.toBe(draft);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('summarizeDataset', () => {
+  it('never sends row values of identifier, phone or high-cardinality columns', () => {
+    const summary = summarizeDataset(customers);
+    const byName = Object.fromEntries(summary.columns.map(column => [column.name, column]));
+
+    expect(byName.customer_id).toMatchObject({ semanticType: 'identifier' });
+    expect(byName.customer_id.min).toBeUndefined();
+    expect(byName.customer_id.max).toBeUndefined();
+    expect(byName.customer_id.mean).toBeUndefined();
+    expect(byName.phone.categories).toBeUndefined();
+    expect(byName.email.categories).toBeUndefined();
+    expect(byName.city.categories).toBeUndefined();
+    expect(byName.region.categories).toEqual(['North', 'South', 'East']);
+
+    const sent = JSON.stringify(summary);
+    rows.forEach(row => {
+      [row.phone, row.email, row.city].forEach(value => expect(sent).not.toContain(value));
+    });
+  });
+});
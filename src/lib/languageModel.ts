@@ -0,0 +1,258 @@
+// Language Model Adapter - Optional model endpoint for reading questions and wording narratives
+// Talks to any OpenAI-compatible chat completions API (a locally hosted model, a hosted one or
+// a mock server). Without an endpoint every feature keeps using the rule engine and the
+// template narratives. Only the schema and aggregates are sent: column names, types, counts,
+// ranges and category labels, never rows. Requests carry no credentials, as anything in the
+// bundle is public: the endpoint is a local server or a proxy that authenticates server side.
+
+import { Dataset } from './types';
+import { QueryPlan, PLAN_AGGREGATIONS, PLAN_OPERATOR_LABELS, readPlan } from './queryPlan';
+import { Glossary, glossaryLabel } from './glossary';
+import { isMissingValue } from './columnarStore';
+import { isCategoryColumn, isIdentifierColumn } from './semanticTypes';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface LanguageModelConfig {
+  endpoint: string; // base URL such as http://localhost:11434/v1, or the full /chat/completions URL
+  model: string;
+  timeoutMs?: number;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/** What a model is told about a column: its description and aggregates, no values from rows */
+export interface ColumnSummary {
+  name: string;
+  businessName?: string; // from the glossary
+  type: string;
+  semanticType?: string;
+  missing: number;
+  distinct: number;
+  min?: number | string;
+  max?: number | string;
+  mean?: number;
+  categories?: string[]; // labels of a low-cardinality column, for filters such as "in Ghana"
+}
+
+export interface DatasetSummary {
+  name: string;
+  rowCount: number;
+  columns: ColumnSummary[];
+}
+
+const DEFAULT_TIMEOUT_MS = 20000;
+const MAX_CATEGORIES = 30;
+
+// ============================================================
+// Configuration
+// ============================================================
+
+const envConfig = (): LanguageModelConfig | null => {
+  const endpoint = String(import.meta.env.VITE_LLM_ENDPOINT || '').trim();
+  if (!endpoint) return null;
+  return {
+    endpoint,
+    model: String(import.meta.env.VITE_LLM_MODEL || '').trim() || 'default'
+  };
+};
+
+let configOverride: LanguageModelConfig | null | undefined;
+
+/**
+ * Use another endpoint than the VITE_LLM_* settings (e.g. a mock server); null turns the
+ * model off and undefined goes back to the settings
+ */
+export const configureLanguageModel = (config: LanguageModelConfig | null | undefined) => {
+  configOverride = config;
+};
+
+export const getLanguageModelConfig = (): LanguageModelConfig | null =>
+  configOverride !== undefined ? configOverride : envConfig();
+
+export const isLanguageModelConfigured = (): boolean => Boolean(getLanguageModelConfig()?.endpoint);
+
+// ============================================================
+// Requests
+// ============================================================
+
+const completionsUrl = (endpoint: string): string => {
+  const base = endpoint.trim().replace(/\/+$/, '');
+  return /\/chat\/completions$/.test(base) ? base : `${base}/chat/completions`;
+};
+
+/**
+ * Send a chat to the configured endpoint and return the reply text
+ */
+export const completeChat = async (messages: ChatMessage[], temperature = 0): Promise<string> => {
+  const config = getLanguageModelConfig();
+  if (!config?.endpoint) throw new Error('No language model endpoint is configured');
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), config.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  try {
+    const response = await fetch(completionsUrl(config.endpoint), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: config.model, messages, temperature }),
+      signal: controller.signal
+    });
+    if (!response.ok) throw new Error(`Language model endpoint failed (${response.status})`);
+
+    const payload = (await response.json().catch(() => null)) as {
+      choices?: { message?: { content?: unknown } }[];
+    } | null;
+    const content = payload?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string' || !content.trim()) throw new Error('Language model returned no message');
+    return content.trim();
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Models often wrap JSON in a code fence or a sentence
+const readJSON = (reply: string): unknown => {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+  if (start < 0 || end < start) throw new Error('Language model reply is not JSON');
+  return JSON.parse(reply.slice(start, end + 1));
+};
+
+// ============================================================
+// Context
+// ============================================================
+
+const formatBound = (value: unknown): number | string | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value.toISOString().slice(0, 10);
+  return undefined;
+};
+
+// Labels are sent only for category columns whose values are shared by several rows on
+// average; emails, phone numbers, keys and any column small enough to name single rows stay out
+const isSharedLabelColumn = (dataset: Dataset, column: Dataset['columns'][number]): boolean =>
+  isCategoryColumn(column) &&
+  column.uniqueCount <= MAX_CATEGORIES &&
+  column.uniqueCount * 2 <= dataset.rowCount - column.nullCount;
+
+const summarizeColumn = (dataset: Dataset, column: Dataset['columns'][number], glossary?: Glossary): ColumnSummary => {
+  const summary: ColumnSummary = {
+    name: column.name,
+    type: column.type,
+    missing: column.nullCount,
+    distinct: column.uniqueCount
+  };
+  const businessName = glossaryLabel(glossary, column.name);
+  if (businessName) summary.businessName = businessName;
+  if (column.semantic?.type) summary.semanticType = column.semantic.type;
+
+  // Keys and phone numbers: even their range and mean give away values from rows
+  if (column.type === 'number' && !isIdentifierColumn(column)) {
+    summary.min = formatBound(column.min);
+    summary.max = formatBound(column.max);
+    summary.mean = formatBound(column.mean) as number | undefined;
+  } else if (column.type === 'date') {
+    // The date range, so relative windows ("last quarter") can be read
+    let earliest: Date | null = null;
+    let latest: Date | null = null;
+    dataset.data.forEach(row => {
+      const value = row[column.name];
+      if (isMissingValue(value)) return;
+      const date = value instanceof Date ? value : new Date(String(value));
+      if (isNaN(date.getTime())) return;
+      if (!earliest || date < earliest) earliest = date;
+      if (!latest || date > latest) latest = date;
+    });
+    summary.min = formatBound(earliest);
+    summary.max = formatBound(latest);
+  } else if (isSharedLabelColumn(dataset, column)) {
+    const labels = new Set<string>();
+    dataset.data.forEach(row => {
+      const value = row[column.name];
+      if (!isMissingValue(value)) labels.add(String(value));
+    });
+    summary.categories = Array.from(labels).slice(0, MAX_CATEGORIES);
+  }
+  return summary;
+};
+
+/**
+ * Describe a dataset for a model: schema and per-column aggregates only
+ */
+export const summarizeDataset = (dataset: Dataset, glossary?: Glossary): DatasetSummary => ({
+  name: dataset.name,
+  rowCount: dataset.rowCount,
+  columns: dataset.columns.map(column => summarizeColumn(dataset, column, glossary))
+});
+
+// ============================================================
+// Questions
+// ============================================================
+
+const PLAN_INSTRUCTIONS = `You translate questions about a dataset into a query plan. Reply with JSON only: {"plan": QueryPlan} or {"plan": null} when the question cannot be answered by filtering, grouping and aggregating.
+QueryPlan = {
+  "measures": [{"aggregation": ${PLAN_AGGREGATIONS.map(a => `"${a}"`).join(' | ')}, "column": string}], // none lists matching records; "count" with column "" counts rows
+  "groupBy": [column],
+  "groupPeriods": {column: "day" | "week" | "month" | "quarter" | "year"}, // optional, buckets a date grouping
+  "filters": [{"column": column, "operator": ${Object.keys(PLAN_OPERATOR_LABELS).map(op => `"${op}"`).join(' | ')}, "value": string | number | [values]}], // a pair for "between", a list for "in"
+  "timeWindow": {"column": date column, "kind": "last", "count": number, "period": period} | {"column", "kind": "this", "period"} | {"column", "kind": "calendar", "year": number, "quarter"?: 1-4, "month"?: 1-12}, // optional
+  "sort": {"by": a groupBy column or a measure label such as "Total amount", "direction": "asc" | "desc"}, // optional
+  "limit": number // optional
+}
+Use only the column names given in the schema (a column's businessName is what users may call it) and category labels exactly as listed.`;
+
+/**
+ * Ask the model to read a question into a query plan. Resolves to null when the model says
+ * the question is not a plan-style question; rejects when the endpoint or its reply fails.
+ */
+export const translateQuestion = async (
+  question: string,
+  dataset: Dataset,
+  glossary?: Glossary
+): Promise<QueryPlan | null> => {
+  const reply = await completeChat([
+    { role: 'system', content: PLAN_INSTRUCTIONS },
+    { role: 'user', content: JSON.stringify({ schema: summarizeDataset(dataset, glossary), question }) }
+  ]);
+  const { plan } = readJSON(reply) as { plan?: unknown };
+  return plan ? readPlan(plan) : null;
+};
+
+// ============================================================
+// Narratives
+// ============================================================
+
+// Every figure of the draft has to survive the rewording; a comma after a figure is punctuation
+const figures = (text: string): string[] => text.match(/\d+(?:,\d{3})*(?:\.\d+)?/g) ?? [];
+
+/**
+ * Reword a template narrative for readability. The model only sees the draft, which is built
+ * from aggregates; a reply that drops, changes or adds a figure is discarded. Resolves to the draft
+ * when no endpoint is configured or anything goes wrong.
+ */
+export const polishNarrative = async (draft: string, kind: string): Promise<string> => {
+  if (!isLanguageModelConfigured() || !draft.trim()) return draft;
+  try {
+    const polished = await completeChat([
+      {
+        role: 'system',
+        content: `You edit a ${kind} for business readers. Improve wording and flow only: keep every number exactly as written, keep the paragraph structure, and add no facts. Reply with the edited text only.`
+      },
+      { role: 'user', content: draft }
+    ], 0.2);
+    const drafted = new Set(figures(draft));
+    const kept = new Set(figures(polished));
+    const changed = Array.from(drafted).some(figure => !kept.has(figure)) ||
+      Array.from(kept).some(figure => !drafted.has(figure));
+    if (changed || polished.length > draft.length * 2) return draft;
+    return polished;
+  } catch (error) {
+    console.warn('Language model could not polish the narrative:', error);
+    return draft;
+  }
+};
@@ -3,6 +3,9 @@
 
 import { Dataset } from './types';
 import { multipleRegression, kMeansClustering } from './advancedStatistics';
+import { getNumberColumn, getNumericValues, isMissingValue } from './columnarStore';
+import { imputeColumn, ImputationMethod } from './imputation';
+import { isFeatureColumn } from './semanticTypes';
 
 // ============================================================
 // Types
@@ -21,6 +24,11 @@ export type PreprocessingStrategy =
   | 'mean_imputation'
   | 'median_imputation'
   | 'mode_imputation'
+  | 'forward_fill'
+  | 'backward_fill'
+  | 'linear_interpolation'
+  | 'knn_imputation'
+  | 'regression_imputation'
   | 'drop_rows';
 
 export type ScalingMethod = 'none' | 'min_max' | 'z_score';
@@ -49,6 +57,8 @@ export interface ColumnPreprocessingInfo {
   missingBefore: number;
   missingAfter: number;
   strategy: PreprocessingStrategy | 'none';
+  confidence?: number; // mean confidence (0-1) of cells filled by a model or series method
+  fallbackCells?: number; // cells that method couldn't fill, filled with the mean or mode instead
 }
 
 export interface PreprocessingReport {
@@ -268,7 +278,8 @@ const sigmoid = (z: number): number => 1 / (1 + Math.exp(-Math.max(-500, Math.mi
 export const detectMLProblem = (dataset: Dataset): MLProblemDetection => {
   try {
     const rows = dataset.data;
-    const columns = dataset.columns;
+    // IDs, phone numbers, emails, URLs and free text are neither targets nor features
+    const columns = dataset.columns.filter(isFeatureColumn);
     const n = rows.length;
 
     if (n < 5 || columns.length < 2) {
@@ -384,6 +395,15 @@ export const detectMLProblem = (dataset: Dataset): MLProblemDetection => {
 // B. Preprocessing
 // ============================================================
 
+// Strategies handled by the imputation module (the rest are simple fills below)
+const IMPUTATION_STRATEGY_METHODS: Partial<Record<PreprocessingStrategy, ImputationMethod>> = {
+  forward_fill: 'forward_fill',
+  backward_fill: 'backward_fill',
+  linear_interpolation: 'linear_interpolation',
+  knn_imputation: 'knn',
+  regression_imputation: 'regression'
+};
+
 export const preprocessDataset = (
   dataset: Dataset,
   targetColumn: string,
@@ -392,6 +412,7 @@ export const preprocessDataset = (
     imputeStrategy: PreprocessingStrategy;
     scalingMethod: ScalingMethod;
     trainTestSplit: number;
+    orderBy?: string; // series order for forward/backward fill and interpolation
   }
 ): { processedDataset: ProcessedDataset; report: PreprocessingReport } => {
   const MAX_ROWS = 10000;
@@ -411,35 +432,62 @@ export const preprocessDataset = (
   let imputedCells = 0;
   let outlierCount = 0;
 
-  // Step 1: Count missing per column
+  // Step 1: Count missing per column (columns are read once into typed arrays and reused below)
   const missingCounts: Record<string, number> = {};
   for (const col of allCols) {
-    missingCounts[col] = rows.filter(r => r[col] === null || r[col] === undefined || r[col] === '').length;
+    missingCounts[col] = getNumberColumn(rows, col).missingCount;
   }
 
   // Step 2: Drop columns with >80% missing (only from features)
   const validFeatures = featureColumns.filter(col => missingCounts[col] / rows.length <= 0.8);
 
-  // Step 3: For each column, impute missing values
+  // Step 3: Impute missing feature values. The target is never imputed: a filled-in label
+  // would be trained on and scored as if it were observed, so rows missing it are dropped in step 4
   const cleanRows: Record<string, unknown>[] = rows.map(r => ({ ...r }));
 
-  for (const col of [targetColumn, ...validFeatures]) {
-    const nonMissing = rows
-      .map(r => r[col])
-      .filter(v => v !== null && v !== undefined && v !== '');
+  const isNumericCol = (col: string) =>
+    getNumericValues(rows, col).length >= (rows.length - missingCounts[col]) * 0.85;
+  const numericFeatures = validFeatures.filter(isNumericCol);
+  const seriesOrModelMethod = IMPUTATION_STRATEGY_METHODS[options.imputeStrategy];
 
-    const numericVals = nonMissing.map(v => Number(v)).filter(v => !isNaN(v));
-    const isNumeric = numericVals.length >= nonMissing.length * 0.85;
+  columnStats.push({ column: targetColumn, missingBefore: missingCounts[targetColumn], missingAfter: 0, strategy: 'none' });
+  for (const col of validFeatures) {
+    const nonMissingCount = rows.length - missingCounts[col];
+    const numericVals = Array.from(getNumericValues(rows, col));
+    const isNumeric = numericVals.length >= nonMissingCount * 0.85;
 
     const missingBefore = missingCounts[col];
     let strategy: PreprocessingStrategy | 'none' = 'none';
+    let confidence: number | undefined;
+    let fallbackCells: number | undefined;
+
+    if (missingBefore > 0 && seriesOrModelMethod) {
+      try {
+        // cleanRows is edited in place column by column, so read it through a fresh array
+        // (columnar caches are keyed by the rows array)
+        const { values, report } = imputeColumn(cleanRows.slice(), col, seriesOrModelMethod, {
+          orderBy: options.orderBy,
+          predictors: numericFeatures.filter(f => f !== col && f !== targetColumn)
+        });
+        cleanRows.forEach((row, i) => { row[col] = values[i]; });
+        imputedCells += report.imputedCells;
+        strategy = options.imputeStrategy;
+        confidence = report.confidence;
+        fallbackCells = report.remainingMissing;
+      } catch {
+        // Method doesn't suit this column (e.g. interpolating text): mean/mode below
+      }
+    }
 
-    if (missingBefore > 0) {
+    const stillMissing = cleanRows.some(row => isMissingValue(row[col]));
+    if (missingBefore > 0 && stillMissing) {
       if (isNumeric) {
         const fillValue = options.imputeStrategy === 'median_imputation'
           ? median(numericVals)
           : mean(numericVals);
-        strategy = options.imputeStrategy === 'median_imputation' ? 'median_imputation' : 'mean_imputation';
+        if (strategy === 'none') {
+          strategy = options.imputeStrategy === 'median_imputation' ? 'median_imputation' : 'mean_imputation';
+        }
         for (const row of cleanRows) {
           if (row[col] === null || row[col] === undefined || row[col] === '') {
             row[col] = fillValue;
@@ -447,8 +495,9 @@ export const preprocessDataset = (
           }
         }
       } else {
+        const nonMissing = rows.map(r => r[col]).filter(v => !isMissingValue(v));
         const fillValue = mode(nonMissing as string[]);
-        strategy = 'mode_imputation';
+        if (strategy === 'none') strategy = 'mode_imputation';
         for (const row of cleanRows) {
           if (row[col] === null || row[col] === undefined || row[col] === '') {
             row[col] = fillValue;
@@ -458,10 +507,10 @@ export const preprocessDataset = (
       }
     }
 
-    columnStats.push({ column: col, missingBefore, missingAfter: 0, strategy });
+    columnStats.push({ column: col, missingBefore, missingAfter: 0, strategy, confidence, fallbackCells });
   }
 
-  // Step 4: Drop rows that still have missing target value
+  // Step 4: Drop rows missing the target value
   const preDropLength = cleanRows.length;
   const nonMissingTargetRows = cleanRows.filter(r => {
     const v = r[targetColumn];
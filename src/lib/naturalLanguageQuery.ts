@@ -5,6 +5,11 @@ import { Dataset, ColumnInfo, Visualization, Relationship } from './types';
 import { forecast as timeSeriesForecast, aggregateByDatePeriod, calculateGrowthRates, detectDateColumns } from './timeSeriesEngine';
 import { calculateTotalYTD, calculateYoYChange, calculateQoQChange, calculateMoMChange } from './kpiFormulaEngine';
 import { tTest, kMeansClustering, multipleRegression } from './advancedStatistics';
+import {
+  Clarification, ParsedQuestion, QueryPlan, describePlan, executePlan, groupLabel, measureLabel, parseQuestion
+} from './queryPlan';
+import { JoinStep, describeJoinPath, joinForQuestion } from './queryJoin';
+import { Glossary, applyGlossary, glossaryLabel } from './glossary';
 
 export interface QueryResult {
   success: boolean;
@@ -16,6 +21,18 @@ export interface QueryResult {
   explanation: string;
   confidence: number;
   alternativeQueries?: string[];
+  plan?: QueryPlan; // the plan behind the answer, editable and re-runnable
+  clarifications?: Clarification[]; // ambiguous terms to resolve before the plan can run
+  notes?: string[]; // parts of the question left out of the plan
+  joinPath?: JoinStep[]; // related datasets joined to answer the question
+  readByModel?: boolean; // the plan came from the configured language model
+}
+
+/** The loaded datasets and their relationships, for questions that span several datasets */
+export interface QueryModel {
+  datasets: Dataset[];
+  relationships: Relationship[];
+  glossary?: Glossary; // business terms and value aliases the question may use
 }
 
 export interface QuerySuggestion {
@@ -24,61 +41,26 @@ export interface QuerySuggestion {
   icon: string;
 }
 
-// Common query patterns
-const QUERY_PATTERNS = {
-  // Aggregation patterns
-  sum: /(?:what is the |what's the |find the |calculate the |show me the )?(?:total|sum|combined|aggregate)(?: of| for)?\s+(.+)/i,
-  average: /(?:what is the |what's the |find the |calculate the |show me the )?(?:average|mean|avg)(?: of| for)?\s+(.+)/i,
-  count: /(?:how many|count|number of|total count of)\s+(.+)/i,
-  max: /(?:what is the |what's the |find the )?(?:highest|maximum|max|largest|biggest|top)(?: value)?(?: of| for| in)?\s+(.+)/i,
-  min: /(?:what is the |what's the |find the )?(?:lowest|minimum|min|smallest|bottom)(?: value)?(?: of| for| in)?\s+(.+)/i,
-  
-  // Comparison patterns
-  compare: /compare\s+(.+?)\s+(?:and|vs|versus|with|to)\s+(.+)/i,
-  difference: /(?:what is the )?difference\s+(?:between\s+)?(.+?)\s+(?:and|vs)\s+(.+)/i,
-  
-  // Filter patterns
-  filter: /(?:show|find|get|filter|display)\s+(?:me\s+)?(?:all\s+)?(?:rows|records|data|items)?\s*(?:where|with|having|when|if)\s+(.+)/i,
-  topN: /(?:show|find|get|list)\s+(?:me\s+)?(?:the\s+)?(?:top|first|best)\s+(\d+)\s+(.+?)(?:\s+by\s+(.+))?$/i,
-  bottomN: /(?:show|find|get|list)\s+(?:me\s+)?(?:the\s+)?(?:bottom|last|worst)\s+(\d+)\s+(.+?)(?:\s+by\s+(.+))?$/i,
-  
-  // Trend patterns
-  trend: /(?:what is the |show me the |is there a )?trend\s+(?:of|for|in)\s+(.+)/i,
-  growth: /(?:what is the |show me the )?(?:growth|increase|change|progression)\s+(?:of|for|in)\s+(.+)/i,
-  
+// Analyses that go beyond a query plan (distributions, statistics, forecasts, what-if) are
+// recognized by intent; everything else is parsed into a QueryPlan (see queryPlan.ts)
+const ANALYSIS_PATTERNS = {
   // Distribution patterns
   distribution: /(?:show|what is the )?distribution\s+(?:of|for)\s+(.+)/i,
-  breakdown: /(?:show|give me a )?breakdown\s+(?:of|for|by)\s+(.+)/i,
-  
+
   // Relationship patterns
   correlation: /(?:is there a |what is the )?(?:correlation|relationship|connection)\s+(?:between\s+)?(.+?)\s+(?:and|with)\s+(.+)/i,
-  
-  // Simple questions
-  what: /what\s+(?:is|are)\s+(?:the\s+)?(.+)/i,
-  howMuch: /how much\s+(?:is|are|does)\s+(.+)/i,
-  
-  // Group by patterns
-  groupBy: /(?:group|summarize|aggregate)\s+(?:by|on)\s+(.+)/i,
-  perCategory: /(.+)\s+(?:per|by|for each|for every)\s+(.+)/i,
 
   // Time intelligence patterns (Phase B7)
-  salesLastPeriod: /(.+?)(?:\s+in|\s+for|\s+during)?\s+(?:last|previous|prior)\s+(month|quarter|year|week)/i,
   ytd: /(?:year to date|ytd)\s+(?:of|for)?\s*(.+)/i,
   yoyChange: /(?:year over year|yoy|year-over-year)\s+(?:change|growth|difference)?\s*(?:of|for|in)?\s*(.+)/i,
   qoqChange: /(?:quarter over quarter|qoq|quarter-over-quarter)\s+(?:change|growth|difference)?\s*(?:of|for|in)?\s*(.+)/i,
   momChange: /(?:month over month|mom|month-over-month)\s+(?:change|growth|difference)?\s*(?:of|for|in)?\s*(.+)/i,
-  compareQuarters: /compare\s+(?:q(\d)|quarter\s*(\d))\s+(?:and|vs|versus|with|to)\s+(?:q(\d)|quarter\s*(\d))/i,
   forecastQuery: /(?:forecast|predict|project|estimate)\s+(?:next\s+)?(\d+)?\s*(?:months?|quarters?|periods?|weeks?|days?)?\s*(?:of|for)?\s*(.+)/i,
   trendOverTime: /(?:trend|show|plot)\s+(?:of\s+)?(.+?)\s+(?:over|across|during)\s+(?:the\s+)?(?:last\s+)?(?:(\d+)\s+)?(?:months?|years?|quarters?|weeks?|time)/i,
 
-  // Compound condition patterns (Phase B7)
-  compoundAnd: /(?:show|find|get|filter|display)\s+(?:me\s+)?(?:all\s+)?(?:rows|records|data)?\s*(?:where|with|having)\s+(.+?)\s+(?:and|&)\s+(.+)/i,
-  compoundOr: /(?:show|find|get|filter|display)\s+(?:me\s+)?(?:all\s+)?(?:rows|records|data)?\s*(?:where|with|having)\s+(.+?)\s+(?:or|\|)\s+(.+)/i,
-  topNWhere: /(?:top|first|best)\s+(\d+)\s+(.+?)\s+(?:where|with|having|when|if)\s+(.+)/i,
-
-  // Statistical query patterns (Phase B7)
+  // Statistical query patterns (Phase B7); "group by" and "by segment" belong to query plans, not clustering
   significantDiff: /(?:is there a |are there )?(?:significant|statistical)\s+(?:difference|differences?)\s+(?:between|in)\s+(.+?)\s+(?:and|vs|versus|by)\s+(.+)/i,
-  clusterQuery: /(?:cluster|segment|group)\s+(?:the\s+)?(?:data|customers?|users?|records?)?\s*(?:by|using|on|based on)?\s*(.+)/i,
+  clusterQuery: /(?<!\bby\s)(?:cluster|segment)\s+(?:the\s+)?(?:data|customers?|users?|records?)?\s*(?:by|using|on|based on)?\s*(.+)/i,
   predictQuery: /(?:what\s+)?(?:predict|predicts?|drives?|explains?|determines?)\s+(.+)/i,
 
   // What-if patterns (Phase B7)
@@ -115,96 +97,124 @@ const findMatchingColumn = (term: string, columns: ColumnInfo[]): ColumnInfo | n
   return null;
 };
 
+const MAX_LISTED_ROWS = 100;
+
 /**
- * Parse a filter condition from natural language
+ * Run a query plan and describe its result. `parsed` carries the confidence and notes
+ * of the question the plan came from; an edited plan runs without them.
  */
-const parseFilterCondition = (condition: string, columns: ColumnInfo[]): {
-  column: string;
-  operator: string;
-  value: any;
-} | null => {
-  // Pattern: column operator value
-  const patterns = [
-    /(.+?)\s+(?:is|equals?|=|==)\s+['"]?(.+?)['"]?$/i,
-    /(.+?)\s+(?:is not|isn't|!=|<>)\s+['"]?(.+?)['"]?$/i,
-    /(.+?)\s+(?:greater than|>|more than|above|over)\s+(\d+(?:\.\d+)?)/i,
-    /(.+?)\s+(?:less than|<|below|under)\s+(\d+(?:\.\d+)?)/i,
-    /(.+?)\s+(?:contains?|includes?|has)\s+['"]?(.+?)['"]?$/i,
-    /(.+?)\s+(?:starts? with|begins? with)\s+['"]?(.+?)['"]?$/i,
-    /(.+?)\s+(?:ends? with)\s+['"]?(.+?)['"]?$/i,
-    /(.+?)\s+(?:between)\s+(\d+(?:\.\d+)?)\s+(?:and)\s+(\d+(?:\.\d+)?)/i
-  ];
-  
-  for (const pattern of patterns) {
-    const match = condition.match(pattern);
-    if (match) {
-      const col = findMatchingColumn(match[1].trim(), columns);
-      if (col) {
-        let operator = '=';
-        if (pattern.source.includes('not|isn')) operator = '!=';
-        else if (pattern.source.includes('greater')) operator = '>';
-        else if (pattern.source.includes('less')) operator = '<';
-        else if (pattern.source.includes('contain')) operator = 'contains';
-        else if (pattern.source.includes('starts')) operator = 'startsWith';
-        else if (pattern.source.includes('ends')) operator = 'endsWith';
-        else if (pattern.source.includes('between')) operator = 'between';
-        
-        return {
-          column: col.name,
-          operator,
-          value: operator === 'between' ? [match[2], match[3]] : match[2]
-        };
-      }
-    }
+export const runQueryPlan = (
+  plan: QueryPlan,
+  dataset: Dataset,
+  query: string,
+  parsed?: Pick<ParsedQuestion, 'confidence' | 'notes'>
+): QueryResult => {
+  const interpretation = describePlan(plan);
+  const notes = parsed?.notes ?? [];
+  const base = { query, interpretation, plan, notes, confidence: parsed?.confidence ?? 0.95 };
+
+  let execution: ReturnType<typeof executePlan>;
+  try {
+    execution = executePlan(plan, dataset);
+  } catch (error) {
+    return {
+      ...base,
+      success: false,
+      result: null,
+      resultType: 'text',
+      explanation: error instanceof Error ? error.message : 'The query plan could not be run.',
+      confidence: 0
+    };
   }
-  
-  return null;
+
+  const { rows, matchedRows, window } = execution;
+  const scope = window
+    ? ` between ${window.start.toLocaleDateString()} and ${new Date(window.end.getTime() - 1).toLocaleDateString()}`
+    : '';
+  const leftOut = notes.length > 0 ? ` Not used: ${notes.join('; ')}.` : '';
+
+  // A single figure
+  if (plan.measures.length === 1 && plan.groupBy.length === 0) {
+    const label = measureLabel(plan.measures[0]);
+    const value = rows[0]?.[label] ?? null;
+    return {
+      ...base,
+      success: true,
+      result: value,
+      resultType: 'number',
+      explanation: `${label} is ${typeof value === 'number' ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : 'not available'} across ${matchedRows.toLocaleString()} records${scope}.${leftOut}`,
+      suggestedVisualization: { type: 'gauge', title: label }
+    };
+  }
+
+  // Matching rows
+  if (plan.measures.length === 0) {
+    return {
+      ...base,
+      success: true,
+      result: rows.slice(0, MAX_LISTED_ROWS),
+      resultType: 'table',
+      explanation: `Found ${matchedRows.toLocaleString()} matching records${scope}.${rows.length > MAX_LISTED_ROWS ? ` Showing first ${MAX_LISTED_ROWS}.` : ''}${leftOut}`
+    };
+  }
+
+  // Aggregated table; one grouping and one measure chart as bars
+  const firstLabel = measureLabel(plan.measures[0]);
+  const chartable = plan.groupBy.length === 1 && rows.length > 1;
+  return {
+    ...base,
+    success: true,
+    result: rows,
+    resultType: 'table',
+    explanation: plan.groupBy.length > 0
+      ? `Calculated ${plan.measures.map(measureLabel).join(', ')} for ${rows.length.toLocaleString()} groups of ${plan.groupBy.map(column => groupLabel(plan, column)).join(', ')} from ${matchedRows.toLocaleString()} records${scope}.${leftOut}`
+      : `Calculated ${plan.measures.map(measureLabel).join(', ')} across ${matchedRows.toLocaleString()} records${scope}.${leftOut}`,
+    suggestedVisualization: chartable
+      ? {
+          type: 'bar',
+          title: interpretation,
+          data: rows.slice(0, 10).map(row => ({ category: String(row[plan.groupBy[0]] ?? 'Unknown'), value: Number(row[firstLabel]) || 0 }))
+        }
+      : undefined
+  };
 };
 
 /**
- * Apply a filter condition to a single data row
+ * Columns a glossary term may stand for: those of the dataset and of every dataset it can join
  */
-const applyCondition = (row: Record<string, any>, condition: { column: string; operator: string; value: any }): boolean => {
-  const cellValue = row[condition.column];
-  const strValue = String(cellValue || '').toLowerCase();
-  const condValue = String(condition.value || '').toLowerCase();
-
-  switch (condition.operator) {
-    case '=':
-      return strValue === condValue;
-    case '!=':
-      return strValue !== condValue;
-    case '>':
-      return Number(cellValue) > Number(condition.value);
-    case '<':
-      return Number(cellValue) < Number(condition.value);
-    case '>=':
-      return Number(cellValue) >= Number(condition.value);
-    case '<=':
-      return Number(cellValue) <= Number(condition.value);
-    case 'contains':
-      return strValue.includes(condValue);
-    case 'startsWith':
-      return strValue.startsWith(condValue);
-    case 'endsWith':
-      return strValue.endsWith(condValue);
-    case 'between':
-      if (Array.isArray(condition.value)) {
-        const num = Number(cellValue);
-        return num >= Number(condition.value[0]) && num <= Number(condition.value[1]);
-      }
-      return false;
-    default:
-      return false;
-  }
-};
+export const glossaryColumns = (dataset: Dataset, model?: QueryModel): string[] =>
+  [dataset, ...(model?.datasets ?? [])].flatMap(ds => ds.columns.map(col => col.name));
 
 /**
- * Execute a natural language query on a dataset
+ * Mark a result as computed on joined datasets and say which join path was used
  */
-export const executeQuery = (query: string, dataset: Dataset): QueryResult => {
+export const withJoinPath = (result: QueryResult, steps: JoinStep[], datasets: Dataset[]): QueryResult => ({
+  ...result,
+  joinPath: steps,
+  interpretation: `${result.interpretation || 'Answer'} (joined ${describeJoinPath(steps, datasets)})`
+});
+
+/**
+ * Execute a natural language query on a dataset. With a model, columns the dataset lacks
+ * are looked up in related datasets, which are joined along the relationships.
+ */
+export const executeQuery = (query: string, dataset: Dataset, model?: QueryModel): QueryResult => {
   const originalQuery = query;
-  query = query.trim();
+  // Business terms and value aliases are read as the column names and values they stand for
+  query = applyGlossary(query, model?.glossary, glossaryColumns(dataset, model)).trim();
+
+  if (model) {
+    let joined: ReturnType<typeof joinForQuestion> = null;
+    try {
+      joined = joinForQuestion(query, dataset, model.datasets, model.relationships);
+    } catch {
+      // A relationship that no longer fits the data: answer from the dataset alone
+    }
+    if (joined) {
+      const result = { ...executeQuery(joined.question, joined.dataset), query: originalQuery };
+      return withJoinPath(result, joined.steps, model.datasets);
+    }
+  }
   
   // Default result
   const defaultResult: QueryResult = {
@@ -215,285 +225,12 @@ export const executeQuery = (query: string, dataset: Dataset): QueryResult => {
     resultType: 'text',
     explanation: "I couldn't understand that query. Try asking something like 'What is the total sales?' or 'Show me the average price by category'.",
     confidence: 0,
-    alternativeQueries: generateSuggestions(dataset).map(s => s.text).slice(0, 3)
+    alternativeQueries: generateSuggestions(dataset, model?.glossary).map(s => s.text).slice(0, 3)
   };
   
   try {
-    // Check for SUM/TOTAL pattern
-    let match = query.match(QUERY_PATTERNS.sum);
-    if (match) {
-      const column = findMatchingColumn(match[1].trim(), dataset.columns);
-      if (column && column.type === 'number') {
-        const values = dataset.data.map(r => Number(r[column.name])).filter(v => !isNaN(v));
-        const sum = values.reduce((a, b) => a + b, 0);
-        return {
-          success: true,
-          query: originalQuery,
-          interpretation: `Calculate the sum of ${column.name}`,
-          result: sum,
-          resultType: 'number',
-          explanation: `The total sum of ${column.name} across ${values.length} records is ${sum.toLocaleString()}.`,
-          confidence: 0.95,
-          suggestedVisualization: {
-            type: 'gauge',
-            title: `Total ${column.name}`
-          }
-        };
-      }
-    }
-    
-    // Check for AVERAGE pattern
-    match = query.match(QUERY_PATTERNS.average);
-    if (match) {
-      const column = findMatchingColumn(match[1].trim(), dataset.columns);
-      if (column && column.type === 'number') {
-        const values = dataset.data.map(r => Number(r[column.name])).filter(v => !isNaN(v));
-        const avg = values.reduce((a, b) => a + b, 0) / values.length;
-        return {
-          success: true,
-          query: originalQuery,
-          interpretation: `Calculate the average of ${column.name}`,
-          result: Math.round(avg * 100) / 100,
-          resultType: 'number',
-          explanation: `The average ${column.name} is ${avg.toLocaleString(undefined, { maximumFractionDigits: 2 })} based on ${values.length} records.`,
-          confidence: 0.95
-        };
-      }
-    }
-    
-    // Check for COUNT pattern
-    match = query.match(QUERY_PATTERNS.count);
-    if (match) {
-      const term = match[1].trim().toLowerCase();
-      
-      // Count all rows
-      if (term.includes('row') || term.includes('record') || term.includes('item') || term === 'all') {
-        return {
-          success: true,
-          query: originalQuery,
-          interpretation: 'Count all records',
-          result: dataset.rowCount,
-          resultType: 'number',
-          explanation: `There are ${dataset.rowCount.toLocaleString()} records in the dataset.`,
-          confidence: 0.95
-        };
-      }
-      
-      // Count by category
-      const column = findMatchingColumn(term.replace(/unique |distinct /i, ''), dataset.columns);
-      if (column) {
-        if (term.includes('unique') || term.includes('distinct')) {
-          return {
-            success: true,
-            query: originalQuery,
-            interpretation: `Count unique values in ${column.name}`,
-            result: column.uniqueCount,
-            resultType: 'number',
-            explanation: `There are ${column.uniqueCount.toLocaleString()} unique values in ${column.name}.`,
-            confidence: 0.9
-          };
-        }
-        
-        // Count by category
-        const counts: Record<string, number> = {};
-        dataset.data.forEach(row => {
-          const val = String(row[column.name] || 'Unknown');
-          counts[val] = (counts[val] || 0) + 1;
-        });
-        
-        const tableData = Object.entries(counts)
-          .sort((a, b) => b[1] - a[1])
-          .map(([category, count]) => ({ [column.name]: category, Count: count }));
-        
-        return {
-          success: true,
-          query: originalQuery,
-          interpretation: `Count records by ${column.name}`,
-          result: tableData,
-          resultType: 'table',
-          explanation: `Counted ${dataset.rowCount} records grouped by ${column.name}. Found ${Object.keys(counts).length} categories.`,
-          confidence: 0.85,
-          suggestedVisualization: {
-            type: 'bar',
-            title: `Count by ${column.name}`,
-            data: tableData.slice(0, 10).map(r => ({ category: r[column.name], value: r.Count }))
-          }
-        };
-      }
-    }
-    
-    // Check for MAX pattern
-    match = query.match(QUERY_PATTERNS.max);
-    if (match) {
-      const column = findMatchingColumn(match[1].trim(), dataset.columns);
-      if (column && column.type === 'number') {
-        return {
-          success: true,
-          query: originalQuery,
-          interpretation: `Find maximum ${column.name}`,
-          result: column.max,
-          resultType: 'number',
-          explanation: `The maximum value of ${column.name} is ${column.max?.toLocaleString()}.`,
-          confidence: 0.95
-        };
-      }
-    }
-    
-    // Check for MIN pattern
-    match = query.match(QUERY_PATTERNS.min);
-    if (match) {
-      const column = findMatchingColumn(match[1].trim(), dataset.columns);
-      if (column && column.type === 'number') {
-        return {
-          success: true,
-          query: originalQuery,
-          interpretation: `Find minimum ${column.name}`,
-          result: column.min,
-          resultType: 'number',
-          explanation: `The minimum value of ${column.name} is ${column.min?.toLocaleString()}.`,
-          confidence: 0.95
-        };
-      }
-    }
-    
-    // Check for TOP N pattern
-    match = query.match(QUERY_PATTERNS.topN);
-    if (match) {
-      const n = parseInt(match[1]);
-      const targetTerm = match[2].trim();
-      const sortByTerm = match[3]?.trim();
-      
-      let sortColumn: ColumnInfo | null = null;
-      if (sortByTerm) {
-        sortColumn = findMatchingColumn(sortByTerm, dataset.columns);
-      }
-      if (!sortColumn) {
-        sortColumn = dataset.columns.find(c => c.type === 'number') || null;
-      }
-      
-      if (sortColumn) {
-        const sorted = [...dataset.data]
-          .sort((a, b) => Number(b[sortColumn!.name]) - Number(a[sortColumn!.name]))
-          .slice(0, n);
-        
-        return {
-          success: true,
-          query: originalQuery,
-          interpretation: `Get top ${n} records by ${sortColumn.name}`,
-          result: sorted,
-          resultType: 'table',
-          explanation: `Here are the top ${n} records sorted by ${sortColumn.name} (highest first).`,
-          confidence: 0.85,
-          suggestedVisualization: {
-            type: 'bar',
-            title: `Top ${n} by ${sortColumn.name}`
-          }
-        };
-      }
-    }
-    
-    // Check for FILTER pattern
-    match = query.match(QUERY_PATTERNS.filter);
-    if (match) {
-      const condition = parseFilterCondition(match[1], dataset.columns);
-      if (condition) {
-        let filtered = dataset.data;
-        
-        switch (condition.operator) {
-          case '=':
-            filtered = dataset.data.filter(r => 
-              String(r[condition.column]).toLowerCase() === String(condition.value).toLowerCase()
-            );
-            break;
-          case '!=':
-            filtered = dataset.data.filter(r => 
-              String(r[condition.column]).toLowerCase() !== String(condition.value).toLowerCase()
-            );
-            break;
-          case '>':
-            filtered = dataset.data.filter(r => 
-              Number(r[condition.column]) > Number(condition.value)
-            );
-            break;
-          case '<':
-            filtered = dataset.data.filter(r => 
-              Number(r[condition.column]) < Number(condition.value)
-            );
-            break;
-          case 'contains':
-            filtered = dataset.data.filter(r => 
-              String(r[condition.column]).toLowerCase().includes(String(condition.value).toLowerCase())
-            );
-            break;
-        }
-        
-        return {
-          success: true,
-          query: originalQuery,
-          interpretation: `Filter where ${condition.column} ${condition.operator} ${condition.value}`,
-          result: filtered.slice(0, 100),
-          resultType: 'table',
-          explanation: `Found ${filtered.length} records where ${condition.column} ${condition.operator} "${condition.value}".${filtered.length > 100 ? ' Showing first 100.' : ''}`,
-          confidence: 0.8
-        };
-      }
-    }
-    
-    // Check for BREAKDOWN/PER CATEGORY pattern
-    match = query.match(QUERY_PATTERNS.perCategory);
-    if (match) {
-      const metricTerm = match[1].trim();
-      const groupTerm = match[2].trim();
-      
-      const metricCol = findMatchingColumn(metricTerm.replace(/total |sum of |average |mean /i, ''), dataset.columns);
-      const groupCol = findMatchingColumn(groupTerm, dataset.columns);
-      
-      if (metricCol && groupCol && metricCol.type === 'number') {
-        const isSum = /total|sum/i.test(metricTerm);
-        const isAvg = /average|mean|avg/i.test(metricTerm);
-        
-        const grouped: Record<string, number[]> = {};
-        dataset.data.forEach(row => {
-          const category = String(row[groupCol.name] || 'Unknown');
-          const value = Number(row[metricCol.name]);
-          if (!isNaN(value)) {
-            if (!grouped[category]) grouped[category] = [];
-            grouped[category].push(value);
-          }
-        });
-        
-        const result = Object.entries(grouped).map(([category, values]) => ({
-          [groupCol.name]: category,
-          [isAvg ? `Avg ${metricCol.name}` : `Total ${metricCol.name}`]: isAvg 
-            ? Math.round(values.reduce((a, b) => a + b, 0) / values.length * 100) / 100
-            : values.reduce((a, b) => a + b, 0)
-        })).sort((a, b) => {
-          const key = Object.keys(a)[1];
-          return (b[key] as number) - (a[key] as number);
-        });
-        
-        return {
-          success: true,
-          query: originalQuery,
-          interpretation: `${isAvg ? 'Average' : 'Total'} ${metricCol.name} by ${groupCol.name}`,
-          result,
-          resultType: 'table',
-          explanation: `Calculated ${isAvg ? 'average' : 'total'} ${metricCol.name} for each ${groupCol.name}. Found ${result.length} categories.`,
-          confidence: 0.9,
-          suggestedVisualization: {
-            type: 'bar',
-            title: `${isAvg ? 'Average' : 'Total'} ${metricCol.name} by ${groupCol.name}`,
-            data: result.slice(0, 10).map(r => ({ 
-              category: r[groupCol.name] as string, 
-              value: r[Object.keys(r)[1]] as number 
-            }))
-          }
-        };
-      }
-    }
-    
     // Check for DISTRIBUTION pattern
-    match = query.match(QUERY_PATTERNS.distribution);
+    let match = query.match(ANALYSIS_PATTERNS.distribution);
     if (match) {
       const column = findMatchingColumn(match[1].trim(), dataset.columns);
       if (column) {
@@ -564,7 +301,7 @@ export const executeQuery = (query: string, dataset: Dataset): QueryResult => {
     }
     
     // Check for CORRELATION pattern
-    match = query.match(QUERY_PATTERNS.correlation);
+    match = query.match(ANALYSIS_PATTERNS.correlation);
     if (match) {
       const col1 = findMatchingColumn(match[1].trim(), dataset.columns);
       const col2 = findMatchingColumn(match[2].trim(), dataset.columns);
@@ -614,7 +351,7 @@ export const executeQuery = (query: string, dataset: Dataset): QueryResult => {
     // ============================================================
 
     // Year-to-Date query
-    match = query.match(QUERY_PATTERNS.ytd);
+    match = query.match(ANALYSIS_PATTERNS.ytd);
     if (match) {
       const column = findMatchingColumn(match[1].trim(), dataset.columns);
       const dateCol = dataset.columns.find(c => c.type === 'date');
@@ -634,7 +371,7 @@ export const executeQuery = (query: string, dataset: Dataset): QueryResult => {
     }
 
     // Year-over-Year change
-    match = query.match(QUERY_PATTERNS.yoyChange);
+    match = query.match(ANALYSIS_PATTERNS.yoyChange);
     if (match) {
       const column = findMatchingColumn(match[1].trim(), dataset.columns);
       const dateCol = dataset.columns.find(c => c.type === 'date');
@@ -654,7 +391,7 @@ export const executeQuery = (query: string, dataset: Dataset): QueryResult => {
     }
 
     // Quarter-over-Quarter change
-    match = query.match(QUERY_PATTERNS.qoqChange);
+    match = query.match(ANALYSIS_PATTERNS.qoqChange);
     if (match) {
       const column = findMatchingColumn(match[1].trim(), dataset.columns);
       const dateCol = dataset.columns.find(c => c.type === 'date');
@@ -674,7 +411,7 @@ export const executeQuery = (query: string, dataset: Dataset): QueryResult => {
     }
 
     // Month-over-Month change
-    match = query.match(QUERY_PATTERNS.momChange);
+    match = query.match(ANALYSIS_PATTERNS.momChange);
     if (match) {
       const column = findMatchingColumn(match[1].trim(), dataset.columns);
       const dateCol = dataset.columns.find(c => c.type === 'date');
@@ -693,60 +430,8 @@ export const executeQuery = (query: string, dataset: Dataset): QueryResult => {
       }
     }
 
-    // Values in last period (last month, last quarter, last year)
-    match = query.match(QUERY_PATTERNS.salesLastPeriod);
-    if (match) {
-      const columnTerm = match[1].trim();
-      const period = match[2].toLowerCase();
-      const column = findMatchingColumn(columnTerm, dataset.columns);
-      const dateCol = dataset.columns.find(c => c.type === 'date');
-
-      if (column && column.type === 'number' && dateCol) {
-        const now = new Date();
-        let startDate: Date;
-        let endDate: Date;
-
-        if (period === 'month') {
-          startDate = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-          endDate = new Date(now.getFullYear(), now.getMonth(), 0);
-        } else if (period === 'quarter') {
-          const currentQ = Math.floor(now.getMonth() / 3);
-          startDate = new Date(now.getFullYear(), (currentQ - 1) * 3, 1);
-          endDate = new Date(now.getFullYear(), currentQ * 3, 0);
-        } else if (period === 'year') {
-          startDate = new Date(now.getFullYear() - 1, 0, 1);
-          endDate = new Date(now.getFullYear() - 1, 11, 31);
-        } else {
-          // week
-          const dayOfWeek = now.getDay();
-          startDate = new Date(now);
-          startDate.setDate(now.getDate() - dayOfWeek - 7);
-          endDate = new Date(startDate);
-          endDate.setDate(startDate.getDate() + 6);
-        }
-
-        const filtered = dataset.data.filter(row => {
-          const d = new Date(row[dateCol.name]);
-          return d >= startDate && d <= endDate;
-        });
-
-        const values = filtered.map(r => Number(r[column.name])).filter(v => !isNaN(v));
-        const total = values.reduce((a, b) => a + b, 0);
-
-        return {
-          success: true,
-          query: originalQuery,
-          interpretation: `Total ${column.name} for last ${period}`,
-          result: total,
-          resultType: 'number',
-          explanation: `The total ${column.name} for last ${period} (${startDate.toLocaleDateString()} to ${endDate.toLocaleDateString()}) is ${total.toLocaleString(undefined, { maximumFractionDigits: 2 })} across ${values.length} records.`,
-          confidence: 0.85
-        };
-      }
-    }
-
     // Forecast query
-    match = query.match(QUERY_PATTERNS.forecastQuery);
+    match = query.match(ANALYSIS_PATTERNS.forecastQuery);
     if (match) {
       const periods = parseInt(match[1]) || 3;
       const columnTerm = match[2]?.trim();
@@ -790,7 +475,7 @@ export const executeQuery = (query: string, dataset: Dataset): QueryResult => {
     }
 
     // Trend over time query
-    match = query.match(QUERY_PATTERNS.trendOverTime);
+    match = query.match(ANALYSIS_PATTERNS.trendOverTime);
     if (match) {
       const columnTerm = match[1].trim();
       const column = findMatchingColumn(columnTerm, dataset.columns);
@@ -822,95 +507,12 @@ export const executeQuery = (query: string, dataset: Dataset): QueryResult => {
       }
     }
 
-    // ============================================================
-    // Phase B7: Compound Condition Queries
-    // ============================================================
-
-    // Compound AND filter
-    match = query.match(QUERY_PATTERNS.compoundAnd);
-    if (match) {
-      const cond1 = parseFilterCondition(match[1].trim(), dataset.columns);
-      const cond2 = parseFilterCondition(match[2].trim(), dataset.columns);
-
-      if (cond1 && cond2) {
-        const filtered = dataset.data.filter(row => {
-          const pass1 = applyCondition(row, cond1);
-          const pass2 = applyCondition(row, cond2);
-          return pass1 && pass2;
-        });
-
-        return {
-          success: true,
-          query: originalQuery,
-          interpretation: `Filter where ${cond1.column} ${cond1.operator} ${cond1.value} AND ${cond2.column} ${cond2.operator} ${cond2.value}`,
-          result: filtered.slice(0, 100),
-          resultType: 'table',
-          explanation: `Found ${filtered.length} records matching both conditions.${filtered.length > 100 ? ' Showing first 100.' : ''}`,
-          confidence: 0.8
-        };
-      }
-    }
-
-    // Compound OR filter
-    match = query.match(QUERY_PATTERNS.compoundOr);
-    if (match) {
-      const cond1 = parseFilterCondition(match[1].trim(), dataset.columns);
-      const cond2 = parseFilterCondition(match[2].trim(), dataset.columns);
-
-      if (cond1 && cond2) {
-        const filtered = dataset.data.filter(row => {
-          const pass1 = applyCondition(row, cond1);
-          const pass2 = applyCondition(row, cond2);
-          return pass1 || pass2;
-        });
-
-        return {
-          success: true,
-          query: originalQuery,
-          interpretation: `Filter where ${cond1.column} ${cond1.operator} ${cond1.value} OR ${cond2.column} ${cond2.operator} ${cond2.value}`,
-          result: filtered.slice(0, 100),
-          resultType: 'table',
-          explanation: `Found ${filtered.length} records matching either condition.${filtered.length > 100 ? ' Showing first 100.' : ''}`,
-          confidence: 0.8
-        };
-      }
-    }
-
-    // Top N with WHERE clause
-    match = query.match(QUERY_PATTERNS.topNWhere);
-    if (match) {
-      const n = parseInt(match[1]);
-      const targetTerm = match[2].trim();
-      const conditionStr = match[3].trim();
-
-      const sortColumn = findMatchingColumn(targetTerm, dataset.columns) || dataset.columns.find(c => c.type === 'number');
-      const condition = parseFilterCondition(conditionStr, dataset.columns);
-
-      if (sortColumn && sortColumn.type === 'number' && condition) {
-        const filtered = dataset.data.filter(row => applyCondition(row, condition));
-        const sorted = [...filtered]
-          .sort((a, b) => Number(b[sortColumn.name]) - Number(a[sortColumn.name]))
-          .slice(0, n);
-
-        return {
-          success: true,
-          query: originalQuery,
-          interpretation: `Top ${n} by ${sortColumn.name} where ${condition.column} ${condition.operator} ${condition.value}`,
-          result: sorted,
-          resultType: 'table',
-          explanation: `Top ${n} records by ${sortColumn.name} from ${filtered.length} records matching the condition.`,
-          confidence: 0.8,
-          suggestedVisualization: { type: 'bar', title: `Top ${n} ${sortColumn.name} (filtered)` }
-        };
-      }
-    }
-
     // ============================================================
     // Phase B7: Statistical Queries
     // ============================================================
 
     // Significant difference test
-    match = query.match(QUERY_PATTERNS.significantDiff);
+    match = query.match(ANALYSIS_PATTERNS.significantDiff);
     if (match) {
       const term1 = match[1].trim();
       const term2 = match[2].trim();
@@ -970,7 +572,7 @@ export const executeQuery = (query: string, dataset: Dataset): QueryResult => {
     }
 
     // Cluster/segment query
-    match = query.match(QUERY_PATTERNS.clusterQuery);
+    match = query.match(ANALYSIS_PATTERNS.clusterQuery);
     if (match) {
       const columnTerms = match[1].trim();
       const numericCols = dataset.columns.filter(c => c.type === 'number');
@@ -996,7 +598,7 @@ export const executeQuery = (query: string, dataset: Dataset): QueryResult => {
     }
 
     // Predict/regression query
-    match = query.match(QUERY_PATTERNS.predictQuery);
+    match = query.match(ANALYSIS_PATTERNS.predictQuery);
     if (match) {
       const targetTerm = match[1].trim();
       const targetCol = findMatchingColumn(targetTerm, dataset.columns);
@@ -1033,7 +635,7 @@ export const executeQuery = (query: string, dataset: Dataset): QueryResult => {
     // ============================================================
 
     // What if increase
-    match = query.match(QUERY_PATTERNS.whatIfIncrease);
+    match = query.match(ANALYSIS_PATTERNS.whatIfIncrease);
     if (match) {
       const columnTerm = match[1].trim();
       const amount = parseFloat(match[2]);
@@ -1096,7 +698,7 @@ export const executeQuery = (query: string, dataset: Dataset): QueryResult => {
     }
 
     // What if decrease
-    match = query.match(QUERY_PATTERNS.whatIfDecrease);
+    match = query.match(ANALYSIS_PATTERNS.whatIfDecrease);
     if (match) {
       const columnTerm = match[1].trim();
       const amount = parseFloat(match[2]);
@@ -1134,7 +736,7 @@ export const executeQuery = (query: string, dataset: Dataset): QueryResult => {
     }
 
     // What if remove outliers
-    match = query.match(QUERY_PATTERNS.whatIfRemoveOutliers);
+    match = query.match(ANALYSIS_PATTERNS.whatIfRemoveOutliers);
     if (match) {
       const columnTerm = match[1]?.trim();
       const targetCols = columnTerm
@@ -1189,6 +791,26 @@ export const executeQuery = (query: string, dataset: Dataset): QueryResult => {
       }
     }
 
+    // Everything else is read into a query plan; ambiguous terms are asked about, not guessed
+    const parsed = parseQuestion(query, dataset);
+    if (parsed && parsed.clarifications.length > 0) {
+      return {
+        success: false,
+        query: originalQuery,
+        interpretation: describePlan(parsed.plan),
+        result: null,
+        resultType: 'text',
+        explanation: `Some terms match more than one column: ${parsed.clarifications.map(c => `"${c.term}" could be ${c.options.join(' or ')}`).join('; ')}. Pick one to continue.`,
+        confidence: parsed.confidence,
+        plan: parsed.plan,
+        clarifications: parsed.clarifications,
+        notes: parsed.notes
+      };
+    }
+    if (parsed) {
+      return runQueryPlan(parsed.plan, dataset, originalQuery, parsed);
+    }
+
     // If no pattern matched, try to understand the intent
     const numericColumns = dataset.columns.filter(c => c.type === 'number');
     const categoricalColumns = dataset.columns.filter(c => c.type === 'string');
@@ -1264,8 +886,10 @@ export const executeQuery = (query: string, dataset: Dataset): QueryResult => {
 /**
  * Generate smart query suggestions based on dataset
  */
-export const generateSuggestions = (dataset: Dataset): QuerySuggestion[] => {
+export const generateSuggestions = (dataset: Dataset, glossary?: Glossary): QuerySuggestion[] => {
   const suggestions: QuerySuggestion[] = [];
+  // Business terms read better than raw column names, and questions are read through the glossary
+  const label = (column: ColumnInfo) => glossaryLabel(glossary, column.name) ?? column.name;
   
   const numericColumns = dataset.columns.filter(c => c.type === 'number');
   const categoricalColumns = dataset.columns.filter(c => c.type === 'string');
@@ -1275,12 +899,12 @@ export const generateSuggestions = (dataset: Dataset): QuerySuggestion[] => {
   if (numericColumns.length > 0) {
     const numCol = numericColumns[0];
     suggestions.push({
-      text: `What is the total ${numCol.name}?`,
+      text: `What is the total ${label(numCol)}?`,
       category: 'aggregation',
       icon: '📊'
     });
     suggestions.push({
-      text: `What is the average ${numCol.name}?`,
+      text: `What is the average ${label(numCol)}?`,
       category: 'aggregation',
       icon: '📈'
     });
@@ -1291,12 +915,12 @@ export const generateSuggestions = (dataset: Dataset): QuerySuggestion[] => {
     const numCol = numericColumns[0];
     const catCol = categoricalColumns[0];
     suggestions.push({
-      text: `Show ${numCol.name} by ${catCol.name}`,
+      text: `Show ${label(numCol)} by ${label(catCol)}`,
       category: 'comparison',
       icon: '📉'
     });
     suggestions.push({
-      text: `Top 10 ${catCol.name} by ${numCol.name}`,
+      text: `Top 10 ${label(catCol)} by ${label(numCol)}`,
       category: 'comparison',
       icon: '🏆'
     });
@@ -1305,7 +929,7 @@ export const generateSuggestions = (dataset: Dataset): QuerySuggestion[] => {
   // Distribution suggestions
   if (categoricalColumns.length > 0) {
     suggestions.push({
-      text: `Show distribution of ${categoricalColumns[0].name}`,
+      text: `Show distribution of ${label(categoricalColumns[0])}`,
       category: 'comparison',
       icon: '🥧'
     });
@@ -1314,7 +938,7 @@ export const generateSuggestions = (dataset: Dataset): QuerySuggestion[] => {
   // Correlation suggestions
   if (numericColumns.length >= 2) {
     suggestions.push({
-      text: `Is there a correlation between ${numericColumns[0].name} and ${numericColumns[1].name}?`,
+      text: `Is there a correlation between ${label(numericColumns[0])} and ${label(numericColumns[1])}?`,
       category: 'relationship',
       icon: '🔗'
     });
@@ -1323,7 +947,7 @@ export const generateSuggestions = (dataset: Dataset): QuerySuggestion[] => {
   // Trend suggestions
   if (dateColumns.length > 0 && numericColumns.length > 0) {
     suggestions.push({
-      text: `Show trend of ${numericColumns[0].name}`,
+      text: `Show trend of ${label(numericColumns[0])}`,
       category: 'trend',
       icon: '📈'
     });
@@ -1335,7 +959,7 @@ export const generateSuggestions = (dataset: Dataset): QuerySuggestion[] => {
     const sampleValue = col.sampleValues[0];
     if (sampleValue) {
       suggestions.push({
-        text: `Show all records where ${col.name} is ${sampleValue}`,
+        text: `Show all records where ${label(col)} is ${sampleValue}`,
         category: 'filter',
         icon: '🔍'
       });
@@ -1353,27 +977,27 @@ export const generateSuggestions = (dataset: Dataset): QuerySuggestion[] => {
   if (dateColumns.length > 0 && numericColumns.length > 0) {
     const numCol = numericColumns[0];
     suggestions.push({
-      text: `YTD ${numCol.name}`,
+      text: `YTD ${label(numCol)}`,
       category: 'time_intelligence',
       icon: '📅'
     });
     suggestions.push({
-      text: `Year over year change of ${numCol.name}`,
+      text: `Year over year change of ${label(numCol)}`,
       category: 'time_intelligence',
       icon: '📊'
     });
     suggestions.push({
-      text: `Forecast next 6 periods of ${numCol.name}`,
+      text: `Forecast next 6 periods of ${label(numCol)}`,
       category: 'time_intelligence',
       icon: '🔮'
     });
     suggestions.push({
-      text: `Trend of ${numCol.name} over time`,
+      text: `Trend of ${label(numCol)} over time`,
       category: 'time_intelligence',
       icon: '📈'
     });
     suggestions.push({
-      text: `${numCol.name} last quarter`,
+      text: `${label(numCol)} last quarter`,
       category: 'time_intelligence',
       icon: '⏰'
     });
@@ -1387,14 +1011,14 @@ export const generateSuggestions = (dataset: Dataset): QuerySuggestion[] => {
       icon: '🎯'
     });
     suggestions.push({
-      text: `What predicts ${numericColumns[0].name}?`,
+      text: `What predicts ${label(numericColumns[0])}?`,
       category: 'statistical',
       icon: '🧪'
     });
   }
   if (numericColumns.length > 0 && categoricalColumns.length > 0) {
     suggestions.push({
-      text: `Is there a significant difference in ${numericColumns[0].name} by ${categoricalColumns[0].name}?`,
+      text: `Is there a significant difference in ${label(numericColumns[0])} by ${label(categoricalColumns[0])}?`,
       category: 'statistical',
       icon: '📐'
     });
@@ -1404,12 +1028,12 @@ export const generateSuggestions = (dataset: Dataset): QuerySuggestion[] => {
   if (numericColumns.length > 0) {
     const numCol = numericColumns[0];
     suggestions.push({
-      text: `What if ${numCol.name} increases by 10%?`,
+      text: `What if ${label(numCol)} increases by 10%?`,
       category: 'what_if',
       icon: '💡'
     });
     suggestions.push({
-      text: `What if we remove outliers from ${numCol.name}?`,
+      text: `What if we remove outliers from ${label(numCol)}?`,
       category: 'what_if',
       icon: '🧹'
     });
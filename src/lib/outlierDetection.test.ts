@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { describeOutlierFlag, detectOutliers, outlierSeverity } from './outlierDetection';
+
+const column = (values: unknown[]) => values.map(amount => ({ amount }));
+
+const amounts = column([10, 12, 11, 13, 12, 10, 11, 12, 13, 11, 95]);
+
+describe('detectOutliers', () => {
+  it('flags values outside the IQR fences', () => {
+    const detection = detectOutliers(amounts, 'amount', 'iqr');
+    expect(detection.threshold).toBe(1.5);
+    expect(detection.checked).toBe(11);
+    expect(detection.flags.map(flag => flag.rowIndex)).toEqual([10]);
+  });
+
+  it('scores robust MAD and modified z-score alike, with different default cutoffs', () => {
+    const mad = detectOutliers(amounts, 'amount', 'mad');
+    const modified = detectOutliers(amounts, 'amount', 'modified_zscore');
+    expect(mad.threshold).toBe(3);
+    expect(modified.threshold).toBe(3.5);
+    expect(mad.flags.map(flag => flag.score)).toEqual(modified.flags.map(flag => flag.score));
+    expect(detectOutliers(amounts, 'amount', 'mad', { threshold: 3.5 }).flags)
+      .toEqual(modified.flags);
+  });
+
+  it('ignores missing and non-numeric cells', () => {
+    const detection = detectOutliers(column([10, null, '', 'n/a', 11, 12, 10, 11]), 'amount', 'zscore');
+    expect(detection.checked).toBe(5);
+    expect(detection.flags).toEqual([]);
+  });
+
+  it('explains when there are too few values', () => {
+    const detection = detectOutliers(column([1, 2, 3]), 'amount', 'iqr');
+    expect(detection.flags).toEqual([]);
+    expect(detection.message).toBe('At least 5 numeric values are needed');
+  });
+
+  it('does not flag a repeating seasonal peak, only a break in the pattern', () => {
+    const series = Array.from({ length: 48 }, (_, i) => 100 + i + ((i * 7) % 5) + (i % 12 === 11 ? 50 : 0));
+    series[30] += 80;
+    const detection = detectOutliers(column(series), 'amount', 'seasonal', { period: 12 });
+    const flagged = detection.flags.map(flag => flag.rowIndex);
+    expect(flagged).toContain(30);
+    expect(flagged.filter(row => row % 12 === 11)).toEqual([]);
+  });
+
+  it('finds a row that is unusual across columns with the isolation forest', () => {
+    const rows = Array.from({ length: 60 }, (_, i) => ({ amount: 100 + (i % 10), units: 10 + (i % 10) }));
+    rows.push({ amount: 105, units: 200 });
+    const detection = detectOutliers(rows, 'amount', 'isolation_forest');
+    expect(detection.flags.map(flag => flag.rowIndex)).toContain(60);
+  });
+
+  it('rejects an unknown method', () => {
+    expect(() => detectOutliers(amounts, 'amount', 'nope' as never)).toThrow('Unknown outlier method nope');
+  });
+});
+
+describe('outlierSeverity and describeOutlierFlag', () => {
+  it('grades a flag by how far past the threshold it is and says why', () => {
+    const detection = detectOutliers(amounts, 'amount', 'zscore', { threshold: 2 });
+    const [flag] = detection.flags;
+    expect(flag.rowIndex).toBe(10);
+    expect(outlierSeverity({ ...flag, strength: 2.5 })).toBe('critical');
+    expect(outlierSeverity({ ...flag, strength: 1.1 })).toBe('low');
+    expect(describeOutlierFlag(detection, flag)).toMatch(/^Value 95 in amount \(row 11\) is [\d.]+ standard deviations from the mean/);
+  });
+});
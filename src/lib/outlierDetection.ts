@@ -0,0 +1,440 @@
+// Outlier Detection - Pluggable outlier detectors selectable per column
+// IQR fences and z-scores for roughly symmetric data, MAD and modified z-scores for skewed
+// amounts, seasonal-residual outliers for time series and a multivariate Isolation Forest.
+// Every detector reports each flagged row with the range it was expected to fall in.
+
+import { detectSeasonality, decompose } from './timeSeriesEngine';
+import { isMissingValue } from './columnarStore';
+import { detectSemanticType, isIdentifierColumn } from './semanticTypes';
+
+// ============================================================
+// Types
+// ============================================================
+
+type RowObject = Record<string, unknown>;
+
+export type OutlierMethod = 'iqr' | 'zscore' | 'mad' | 'modified_zscore' | 'seasonal' | 'isolation_forest';
+
+export type OutlierSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export interface OutlierOptions {
+  threshold?: number; // method-specific cutoff; each detector has its own default
+  dateColumn?: string; // seasonal: orders the series (row order otherwise)
+  period?: number; // seasonal: season length; detected from the data when omitted
+  features?: string[]; // isolation forest: columns the trees split on; numeric non-identifier columns by default
+}
+
+export interface OutlierFlag {
+  rowIndex: number;
+  value: number;
+  score: number; // the method's own statistic (fence distance, z, anomaly score, ...)
+  strength: number; // score relative to the threshold; 1 is just past it
+  expectedRange: { min: number; max: number };
+  expectedValue?: number; // seasonal: trend + season at this point
+}
+
+export interface OutlierDetection {
+  column: string;
+  method: OutlierMethod;
+  threshold: number;
+  checked: number; // rows with a numeric value
+  flags: OutlierFlag[];
+  message?: string; // why nothing could be checked
+}
+
+export interface OutlierDetector {
+  label: string;
+  description: string;
+  defaultThreshold: number;
+  thresholdLabel: string;
+  detect: (rows: RowObject[], column: string, threshold: number, options: OutlierOptions) => Omit<OutlierDetection, 'column' | 'method' | 'threshold'>;
+}
+
+const MIN_VALUES = 5;
+const MAD_SCALE = 1.4826; // MAD * 1.4826 estimates the standard deviation of normal data
+const MEAN_AD_SCALE = 1.2533; // the same for the mean absolute deviation, when the MAD is 0
+
+// ============================================================
+// Helpers
+// ============================================================
+
+interface IndexedValue {
+  rowIndex: number;
+  value: number;
+}
+
+const numericValues = (rows: RowObject[], column: string): IndexedValue[] => {
+  const values: IndexedValue[] = [];
+  rows.forEach((row, rowIndex) => {
+    const raw = row[column];
+    if (isMissingValue(raw)) return;
+    const value = Number(raw);
+    if (!isNaN(value)) values.push({ rowIndex, value });
+  });
+  return values;
+};
+
+const median = (sorted: number[]): number => {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+/**
+ * Median and a robust spread around it. Falls back to the mean absolute deviation when more
+ * than half the values are identical (MAD 0), as in Iglewicz and Hoaglin.
+ */
+const robustCenter = (values: number[]): { center: number; spread: number } => {
+  const center = median([...values].sort((a, b) => a - b));
+  const deviations = values.map(value => Math.abs(value - center)).sort((a, b) => a - b);
+  const mad = median(deviations);
+  if (mad > 0) return { center, spread: mad * MAD_SCALE };
+  const meanAbsolute = deviations.reduce((sum, d) => sum + d, 0) / deviations.length;
+  return { center, spread: meanAbsolute * MEAN_AD_SCALE };
+};
+
+const notEnoughValues = (checked: number) => ({
+  checked,
+  flags: [],
+  message: `At least ${MIN_VALUES} numeric values are needed`
+});
+
+/**
+ * Flag the values outside center ± threshold × spread
+ */
+const flagOutsideBand = (values: IndexedValue[], center: number, spread: number, threshold: number): OutlierFlag[] => {
+  if (spread === 0) return [];
+  const expectedRange = { min: center - threshold * spread, max: center + threshold * spread };
+  return values
+    .map(({ rowIndex, value }) => ({ rowIndex, value, score: (value - center) / spread }))
+    .filter(({ score }) => Math.abs(score) > threshold)
+    .map(flag => ({ ...flag, strength: Math.abs(flag.score) / threshold, expectedRange }));
+};
+
+const orderKey = (value: unknown): number => {
+  if (isMissingValue(value)) return NaN;
+  if (value instanceof Date) return value.getTime();
+  const number = Number(value);
+  return isNaN(number) ? new Date(String(value)).getTime() : number;
+};
+
+// ============================================================
+// Univariate detectors
+// ============================================================
+
+const detectIQR: OutlierDetector['detect'] = (rows, column, threshold) => {
+  const values = numericValues(rows, column);
+  if (values.length < MIN_VALUES) return notEnoughValues(values.length);
+  const sorted = values.map(v => v.value).sort((a, b) => a - b);
+  const q1 = sorted[Math.floor(sorted.length * 0.25)];
+  const q3 = sorted[Math.floor(sorted.length * 0.75)];
+  const iqr = q3 - q1;
+  const expectedRange = { min: q1 - threshold * iqr, max: q3 + threshold * iqr };
+  // When the middle half is a single value there are no fences to be outside of
+  const flags = iqr === 0 ? [] : values
+    .filter(({ value }) => value < expectedRange.min || value > expectedRange.max)
+    .map(({ rowIndex, value }) => {
+      // Distance past the quartile in IQRs, so strength 1 sits on the fence
+      const score = value < q1 ? (q1 - value) / iqr : (value - q3) / iqr;
+      return { rowIndex, value, score, strength: score / threshold, expectedRange };
+    });
+  return { checked: values.length, flags };
+};
+
+const detectZScore: OutlierDetector['detect'] = (rows, column, threshold) => {
+  const values = numericValues(rows, column);
+  if (values.length < MIN_VALUES) return notEnoughValues(values.length);
+  const mean = values.reduce((sum, v) => sum + v.value, 0) / values.length;
+  const std = Math.sqrt(values.reduce((sum, v) => sum + (v.value - mean) ** 2, 0) / values.length);
+  return { checked: values.length, flags: flagOutsideBand(values, mean, std, threshold) };
+};
+
+// Robust MAD and the modified z-score measure the same thing, (x - median) / (1.4826 × MAD);
+// they differ in the conventional cutoff (3 vs Iglewicz and Hoaglin's 3.5)
+const detectRobust: OutlierDetector['detect'] = (rows, column, threshold) => {
+  const values = numericValues(rows, column);
+  if (values.length < MIN_VALUES) return notEnoughValues(values.length);
+  const { center, spread } = robustCenter(values.map(v => v.value));
+  return { checked: values.length, flags: flagOutsideBand(values, center, spread, threshold) };
+};
+
+/**
+ * Decompose the series into trend + season + residual and flag the points whose residual
+ * is far from the typical residual. A December spike that happens every year isn't flagged;
+ * one that breaks the pattern is.
+ */
+const detectSeasonal: OutlierDetector['detect'] = (rows, column, threshold, options) => {
+  let values = numericValues(rows, column);
+  if (options.dateColumn) {
+    const keyed = values
+      .map(v => ({ ...v, key: orderKey(rows[v.rowIndex][options.dateColumn as string]) }))
+      .filter(v => !isNaN(v.key))
+      .sort((a, b) => a.key - b.key);
+    values = keyed;
+  }
+  const series = values.map(v => v.value);
+  const period = options.period ?? detectSeasonality(series, Math.min(52, Math.floor(series.length / 2))).period;
+  if (period < 2 || series.length < period * 2) {
+    return {
+      checked: values.length,
+      flags: [],
+      message: period < 2
+        ? 'No seasonal pattern found; choose a period or use another method'
+        : `At least two seasons (${period * 2} values) are needed`
+    };
+  }
+
+  const { trend, seasonal, residual } = decompose(series, period);
+  // The centered moving average has no trend for the first and last half season, where
+  // decompose's residual is just the negated season; those points can't be judged
+  const edge = Math.floor(period / 2);
+  const judged = (i: number) => i >= edge && i < series.length - edge;
+  const { center, spread } = robustCenter(residual.filter((_, i) => judged(i)));
+  if (spread === 0) return { checked: values.length, flags: [] };
+
+  const flags: OutlierFlag[] = [];
+  values.forEach(({ rowIndex, value }, i) => {
+    if (!judged(i)) return;
+    const score = (residual[i] - center) / spread;
+    if (Math.abs(score) <= threshold) return;
+    const expectedValue = trend[i] + seasonal[i] + center;
+    flags.push({
+      rowIndex,
+      value,
+      score,
+      strength: Math.abs(score) / threshold,
+      expectedRange: { min: expectedValue - threshold * spread, max: expectedValue + threshold * spread },
+      expectedValue
+    });
+  });
+  return { checked: values.length, flags };
+};
+
+// ============================================================
+// Isolation Forest
+// ============================================================
+
+const FOREST_TREES = 100;
+const FOREST_SAMPLE = 256;
+
+// Seeded generator so the same data flags the same rows every time (recipes replay exactly)
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Average path length of an unsuccessful search in a binary search tree of n points
+const averagePath = (n: number): number =>
+  (n <= 1 ? 0 : n === 2 ? 1 : 2 * (Math.log(n - 1) + 0.5772156649) - (2 * (n - 1)) / n);
+
+type IsolationNode =
+  | { size: number }
+  | { feature: number; split: number; left: IsolationNode; right: IsolationNode };
+
+const buildTree = (points: number[][], depth: number, maxDepth: number, random: () => number): IsolationNode => {
+  if (depth >= maxDepth || points.length <= 1) return { size: points.length };
+  const features = points[0].length;
+  // Try a few features in case the first has no spread in this node
+  for (let attempt = 0; attempt < features; attempt++) {
+    const feature = Math.floor(random() * features);
+    let min = Infinity;
+    let max = -Infinity;
+    points.forEach(point => {
+      min = Math.min(min, point[feature]);
+      max = Math.max(max, point[feature]);
+    });
+    if (min === max) continue;
+    const split = min + random() * (max - min);
+    return {
+      feature,
+      split,
+      left: buildTree(points.filter(point => point[feature] < split), depth + 1, maxDepth, random),
+      right: buildTree(points.filter(point => point[feature] >= split), depth + 1, maxDepth, random)
+    };
+  }
+  return { size: points.length };
+};
+
+const pathLength = (node: IsolationNode, point: number[], depth = 0): number => {
+  if ('size' in node) return depth + averagePath(node.size);
+  return pathLength(point[node.feature] < node.split ? node.left : node.right, point, depth + 1);
+};
+
+/**
+ * Isolation Forest anomaly score (0-1) of every point: outliers are isolated by few random
+ * splits, so their average path is short and the score is high. Around 0.5 is ordinary.
+ */
+export const isolationForestScores = (points: number[][], seed = 42): number[] => {
+  if (points.length === 0) return [];
+  const random = createRandom(seed);
+  const sampleSize = Math.min(FOREST_SAMPLE, points.length);
+  const maxDepth = Math.ceil(Math.log2(Math.max(sampleSize, 2)));
+  const trees: IsolationNode[] = [];
+  for (let t = 0; t < FOREST_TREES; t++) {
+    const sample: number[][] = [];
+    for (let i = 0; i < sampleSize; i++) sample.push(points[Math.floor(random() * points.length)]);
+    trees.push(buildTree(sample, 0, maxDepth, random));
+  }
+  const normalizer = averagePath(sampleSize);
+  return points.map(point => {
+    const meanPath = trees.reduce((sum, tree) => sum + pathLength(tree, point), 0) / trees.length;
+    return normalizer > 0 ? 2 ** (-meanPath / normalizer) : 0.5;
+  });
+};
+
+const isNumericColumn = (rows: RowObject[], column: string): boolean => {
+  let numbers = 0;
+  let present = 0;
+  for (const row of rows) {
+    if (isMissingValue(row[column])) continue;
+    present++;
+    if (!isNaN(Number(row[column]))) numbers++;
+  }
+  return present > 0 && numbers / present >= 0.9;
+};
+
+// Keys, row numbers and phone numbers would isolate rows for being different records, not
+// unusual ones
+const isIdentifierFeature = (rows: RowObject[], column: string): boolean =>
+  isIdentifierColumn({ semantic: detectSemanticType(column, rows.map(row => row[column]), 'number') });
+
+/**
+ * Rows are scored on all their features together, so a row can be flagged for an unusual
+ * combination even when each value is ordinary. Features are scaled robustly; a missing
+ * feature takes the column median.
+ */
+const detectIsolationForest: OutlierDetector['detect'] = (rows, column, threshold, options) => {
+  const values = numericValues(rows, column);
+  if (values.length < MIN_VALUES) return notEnoughValues(values.length);
+  const candidates = options.features ??
+    Object.keys(rows[0] || {}).filter(name => isNumericColumn(rows, name) && !isIdentifierFeature(rows, name));
+  const features = [...new Set([column, ...candidates])].filter(name => isNumericColumn(rows, name));
+
+  const scales = features.map(name => {
+    const { center, spread } = robustCenter(numericValues(rows, name).map(v => v.value));
+    return { name, center, spread: spread || 1 };
+  });
+  const points = values.map(({ rowIndex }) => scales.map(({ name, center, spread }) => {
+    const raw = rows[rowIndex][name];
+    const value = isMissingValue(raw) ? NaN : Number(raw);
+    return isNaN(value) ? 0 : (value - center) / spread;
+  }));
+  const scores = isolationForestScores(points);
+
+  const flagged = new Set<number>();
+  scores.forEach((score, i) => { if (score > threshold) flagged.add(i); });
+  // Rows not flagged show what this column normally holds
+  const inliers = values.filter((_, i) => !flagged.has(i));
+  const expectedRange = (inliers.length > 0 ? inliers : values).reduce(
+    (range, { value }) => ({ min: Math.min(range.min, value), max: Math.max(range.max, value) }),
+    { min: Infinity, max: -Infinity }
+  );
+
+  const flags = [...flagged].map(i => ({
+    rowIndex: values[i].rowIndex,
+    value: values[i].value,
+    score: scores[i],
+    // 0.5 is an ordinary point, so measure strength from there
+    strength: (scores[i] - 0.5) / Math.max(threshold - 0.5, 0.01),
+    expectedRange
+  }));
+  return { checked: values.length, flags };
+};
+
+// ============================================================
+// Registry
+// ============================================================
+
+export const OUTLIER_DETECTORS: Record<OutlierMethod, OutlierDetector> = {
+  iqr: {
+    label: 'IQR fences',
+    description: 'Outside Q1/Q3 ± k × IQR. Good for roughly symmetric data.',
+    defaultThreshold: 1.5,
+    thresholdLabel: 'k (× IQR)',
+    detect: detectIQR
+  },
+  zscore: {
+    label: 'Z-score',
+    description: 'More than k standard deviations from the mean. Sensitive to the outliers themselves.',
+    defaultThreshold: 3,
+    thresholdLabel: 'k (standard deviations)',
+    detect: detectZScore
+  },
+  mad: {
+    label: 'Robust MAD',
+    description: 'More than k scaled median absolute deviations (1.4826 × MAD) from the median. Robust for skewed amounts.',
+    defaultThreshold: 3,
+    thresholdLabel: 'k (scaled MADs)',
+    detect: detectRobust
+  },
+  modified_zscore: {
+    label: 'Modified z-score',
+    description: 'The same score as Robust MAD, with the stricter Iglewicz-Hoaglin cutoff of 3.5 instead of 3.',
+    defaultThreshold: 3.5,
+    thresholdLabel: '|M| above',
+    detect: detectRobust
+  },
+  seasonal: {
+    label: 'Seasonal residual',
+    description: 'Points that break the trend and seasonal pattern of a time series.',
+    defaultThreshold: 3.5,
+    thresholdLabel: 'k (robust residual z)',
+    detect: detectSeasonal
+  },
+  isolation_forest: {
+    label: 'Isolation Forest',
+    description: 'Rows that are unusual across several numeric columns at once.',
+    defaultThreshold: 0.62,
+    thresholdLabel: 'Anomaly score above',
+    detect: detectIsolationForest
+  }
+};
+
+/**
+ * Run one detector on a column
+ */
+export const detectOutliers = (
+  rows: RowObject[],
+  column: string,
+  method: OutlierMethod,
+  options: OutlierOptions = {}
+): OutlierDetection => {
+  const detector = OUTLIER_DETECTORS[method];
+  if (!detector) throw new Error(`Unknown outlier method ${method}`);
+  const threshold = options.threshold ?? detector.defaultThreshold;
+  return { column, method, threshold, ...detector.detect(rows, column, threshold, options) };
+};
+
+/**
+ * Severity of a flag from how far past the threshold it is
+ */
+export const outlierSeverity = (flag: OutlierFlag): OutlierSeverity => {
+  if (flag.strength >= 2) return 'critical';
+  if (flag.strength >= 1.5) return 'high';
+  if (flag.strength >= 1.2) return 'medium';
+  return 'low';
+};
+
+/**
+ * One-line reason a row was flagged
+ */
+export const describeOutlierFlag = (detection: OutlierDetection, flag: OutlierFlag): string => {
+  const { column, method } = detection;
+  const range = `${flag.expectedRange.min.toFixed(2)} to ${flag.expectedRange.max.toFixed(2)}`;
+  const where = `Value ${flag.value} in ${column} (row ${flag.rowIndex + 1})`;
+  switch (method) {
+    case 'iqr':
+      return `${where} is ${flag.score.toFixed(1)} IQRs past the quartiles. Expected range: ${range}`;
+    case 'zscore':
+      return `${where} is ${Math.abs(flag.score).toFixed(1)} standard deviations from the mean. Expected range: ${range}`;
+    case 'mad':
+      return `${where} is ${Math.abs(flag.score).toFixed(1)} robust deviations from the median. Expected range: ${range}`;
+    case 'modified_zscore':
+      return `${where} has a modified z-score of ${flag.score.toFixed(1)}. Expected range: ${range}`;
+    case 'seasonal':
+      return `${where} breaks the seasonal pattern; about ${flag.expectedValue?.toFixed(2)} was expected (${range})`;
+    case 'isolation_forest':
+      return `${where} is in an unusual row (isolation score ${flag.score.toFixed(2)}). Typical ${column}: ${range}`;
+  }
+};
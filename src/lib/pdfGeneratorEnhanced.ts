@@ -6,6 +6,7 @@ import autoTable from 'jspdf-autotable';
 import html2canvas from 'html2canvas';
 import { Visualization, Dataset, AIInsightSummary } from './types';
 import { RENDERING_LIMITS } from './dataOptimization';
+import { polishNarrative } from './languageModel';
 
 export interface EnhancedPDFExportData {
   datasets: Array<{
@@ -820,7 +821,7 @@ export const generateEnhancedPDF = async (
 
       // Generate and add AI insights
       const dataset = data.datasetsFull?.find(ds => ds.id === viz.datasetId);
-      const insight = generateVisualizationInsight(viz, dataset);
+      const insight = await polishNarrative(generateVisualizationInsight(viz, dataset), 'chart insight in a PDF report');
       
       if (insight) {
         doc.setFontSize(10);
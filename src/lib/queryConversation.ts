@@ -0,0 +1,423 @@
+// Query Conversation - Follow-up questions that refine the previous answer
+// A session is a list of turns. A follow-up such as "now only for Ghana", "break that down
+// by month", "show the average instead" or "undo" is read against the plan of the turn it
+// follows; any other question starts afresh. Every turn keeps the plan (and join path) its
+// result came from, so it can be reproduced, and suggests follow-ups from its own context.
+
+import { Dataset } from './types';
+import { QueryModel, QueryResult, executeQuery, glossaryColumns, runQueryPlan, withJoinPath } from './naturalLanguageQuery';
+import { applyGlossary } from './glossary';
+import { applyJoinPath } from './queryJoin';
+import { isLanguageModelConfigured, translateQuestion } from './languageModel';
+import {
+  PlanFilter, PlanOperator, QueryPlan, getPlanOutputColumns, measureLabel, parseQuestion, readAggregation
+} from './queryPlan';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type RefinementKind = 'filter' | 'exclude' | 'time' | 'groupBy' | 'measure' | 'order' | 'edit' | 'undo';
+
+export interface ConversationTurn {
+  id: string;
+  question: string;
+  result: QueryResult; // with the plan and join path it was computed from
+  parentId?: string; // the turn this one refines
+  refinement?: RefinementKind[];
+  askedAt: Date;
+}
+
+export interface Refinement {
+  plan: QueryPlan;
+  kinds: RefinementKind[];
+  notes: string[];
+}
+
+export const REFINEMENT_LABELS: Record<RefinementKind, string> = {
+  filter: 'Filter',
+  exclude: 'Exclusion',
+  time: 'Time period',
+  groupBy: 'Grouping',
+  measure: 'Measure',
+  order: 'Ranking',
+  edit: 'Edited plan',
+  undo: 'Undo'
+};
+
+const MAX_FOLLOW_UPS = 4;
+const MAX_SUGGESTED_VALUES = 50; // columns with more distinct values aren't offered as filters
+
+// ============================================================
+// Recognizing follow-ups
+// ============================================================
+
+const UNDO = /^(?:undo|go back|back|revert|take (?:that|it) back)(?:\s+(?:that|it|the last (?:one|step|change|refinement)|please))*$/i;
+const CONNECTIVES = /^(?:(?:ok(?:ay)?|and|but|so|then|now|also|please|can you|could you)[\s,]+)+/i;
+const TRAILERS = /(?:[\s,]+(?:instead|as well|too|please|then))+$/i;
+const FOLLOW_UP = new RegExp([
+  '^(?:ok(?:ay)?|and|but|so|then|now|also|only|just|instead|plus)\\b',
+  '^(?:what|how) about\\b',
+  '^(?:break|split|drill|group|show|see)\\s+(?:that|it|this|these|them)\\b',
+  '^(?:break|drill)\\s+down\\b',
+  '^(?:by|per)\\s',
+  '^(?:for|in|during|where|since|last|this)\\s',
+  '^(?:exclude|excluding|without|except|remove|drop|leave out)\\b',
+  '^(?:switch|change|make it)\\b',
+  '^(?:top|bottom)\\s+\\d+$',
+  '^overall$',
+  '\\b(?:instead|as well)$'
+].join('|'), 'i');
+
+const EXCLUDE = /^(?:exclude|excluding|without|except(?:\s+for)?|remove|drop|leave out|but not|not)\s+(.+)$/i;
+const BREAK_DOWN = /^(?:(?:break|split|drill)\s+(?:(?:that|it|this|these|them)\s+)?(?:down\s+)?|(?:group|show|see)\s+(?:that|it|this|these|them)\s+)(?:by|per|into|across)\s+(.+)$/i;
+const REGROUP = /^(?:by|per)\s+(.+)$/i;
+const UNGROUP = /^(?:overall|in total|all together|without (?:the )?grouping|ungrouped)$/i;
+const RANK = /^(?:only\s+)?(?:the\s+|show\s+(?:the\s+)?)?(top|bottom|first|highest|lowest)\s+(\d+)$/i;
+const VERB = /^(?:show(?:\s+me)?|use|give me|switch to|change (?:it |that |the measure )?to|make it|what about|how about|only|just)\s+/i;
+
+const clean = (question: string) => question.trim().replace(/[?!.]+$/, '');
+
+/** "undo", "go back", "take that back" */
+export const isUndo = (question: string): boolean => UNDO.test(clean(question));
+
+/** Whether a question refines the previous answer rather than asking something new */
+export const isFollowUp = (question: string): boolean => isUndo(question) || FOLLOW_UP.test(clean(question));
+
+// ============================================================
+// Refining a plan
+// ============================================================
+
+const NEGATED: Partial<Record<PlanOperator, PlanOperator>> = {
+  '=': '!=', '!=': '=', '>': '<=', '>=': '<', '<': '>=', '<=': '>'
+};
+
+// "exclude West": each condition turned around; "is one of" becomes one exclusion per value
+const negateFilter = (filter: PlanFilter): PlanFilter[] => {
+  if (filter.operator === 'in' && Array.isArray(filter.value)) {
+    return filter.value.map(value => ({ column: filter.column, operator: '!=' as const, value }));
+  }
+  const operator = NEGATED[filter.operator];
+  return operator ? [{ ...filter, operator }] : [];
+};
+
+// A filter replaces earlier ones on the same column that it contradicts
+const mergeFilters = (current: PlanFilter[], added: PlanFilter[]): PlanFilter[] => {
+  const isEquality = (filter: PlanFilter) => filter.operator === '=' || filter.operator === 'in';
+  return added.reduce((filters, filter) => [
+    ...filters.filter(existing => existing.column !== filter.column || (
+      filter.operator === '!='
+        ? !(isEquality(existing) && existing.value === filter.value)
+        : isEquality(filter) ? !isEquality(existing) && existing.operator !== '!=' : existing.operator !== filter.operator
+    )),
+    filter
+  ], current);
+};
+
+// Measures changed under a sort by their label: follow the measure at the same position
+const keepSort = (previous: QueryPlan, plan: QueryPlan, dataset: Dataset): QueryPlan => {
+  if (!plan.sort || getPlanOutputColumns(plan, dataset).includes(plan.sort.by)) return plan;
+  const index = previous.measures.findIndex(measure => measureLabel(measure) === plan.sort!.by);
+  const measure = index >= 0 ? plan.measures[index] ?? plan.measures[0] : undefined;
+  return measure
+    ? { ...plan, sort: { ...plan.sort, by: measureLabel(measure) } }
+    : { ...plan, sort: undefined };
+};
+
+/**
+ * Read a follow-up against the previous plan. Returns null when it changes nothing,
+ * in which case it is better asked as a new question.
+ */
+export const refinePlan = (question: string, previous: QueryPlan, dataset: Dataset): Refinement | null => {
+  const text = clean(question);
+  const adding = /^(?:and|also|plus)\b/i.test(text) || /\b(?:as well|too)$/i.test(text);
+  const core = text.replace(CONNECTIVES, '').replace(TRAILERS, '').trim();
+  if (!core) return null;
+
+  let plan: QueryPlan = { ...previous };
+  const kinds: RefinementKind[] = [];
+  const notes: string[] = [];
+
+  const setGroups = (rest: string, append: boolean): boolean => {
+    const parsed = parseQuestion(`by ${rest}`, dataset);
+    const groupBy = parsed?.plan.groupBy.filter(Boolean) ?? [];
+    if (groupBy.length === 0) return false;
+    const periods = { ...(append ? plan.groupPeriods : {}), ...parsed!.plan.groupPeriods };
+    plan.groupBy = append ? [...plan.groupBy.filter(column => !groupBy.includes(column)), ...groupBy] : groupBy;
+    plan.groupPeriods = Object.keys(periods).length > 0 ? periods : undefined;
+    // Rows grouped without a measure are counted
+    if (plan.measures.length === 0) plan.measures = [{ aggregation: 'count', column: '' }];
+    notes.push(...parsed!.notes);
+    kinds.push('groupBy');
+    return true;
+  };
+
+  const exclude = core.match(EXCLUDE);
+  const breakDown = core.match(BREAK_DOWN);
+  const regroup = core.match(REGROUP);
+  const rank = core.match(RANK);
+  const phrase = core.replace(VERB, '');
+  const aggregation = readAggregation(phrase);
+
+  if (UNGROUP.test(core)) {
+    if (plan.groupBy.length === 0) return null;
+    plan = { ...plan, groupBy: [], groupPeriods: undefined, sort: undefined, limit: undefined };
+    kinds.push('groupBy');
+  } else if (breakDown) {
+    if (!setGroups(breakDown[1], !/\binstead\b/i.test(text))) return null;
+  } else if (regroup) {
+    if (!setGroups(regroup[1], adding)) return null;
+  } else if (rank) {
+    if (plan.measures.length === 0 && plan.groupBy.length === 0 && !plan.sort) return null;
+    const direction = ['bottom', 'lowest'].includes(rank[1].toLowerCase()) ? 'asc' : 'desc';
+    const by = plan.sort?.by ?? (plan.measures[0] ? measureLabel(plan.measures[0]) : undefined);
+    plan.sort = by ? { by, direction } : undefined;
+    plan.limit = Number(rank[2]);
+    kinds.push('order');
+  } else if (aggregation) {
+    // "the average instead": same columns, another aggregation
+    if (plan.measures.length === 0) return null;
+    plan.measures = plan.measures.map(measure =>
+      measure.column || aggregation === 'count' ? { ...measure, aggregation } : measure
+    );
+    kinds.push('measure');
+  } else {
+    // "exclude product B" reads like "for product B"
+    const excluded = exclude && !/^(?:where|with|whose)\b/i.test(exclude[1]) ? `for ${exclude[1]}` : exclude?.[1];
+    const parsed = parseQuestion(excluded ?? phrase, dataset);
+    if (!parsed) return null;
+    const { plan: read } = parsed;
+    const filters = read.filters.filter(filter => filter.column);
+    if (parsed.clarifications.length > 0) notes.push('Ambiguous terms were left out; ask the question in full to choose between columns');
+    notes.push(...parsed.notes);
+
+    if (exclude) {
+      const exclusions = filters.flatMap(negateFilter);
+      if (exclusions.length === 0) return null;
+      plan.filters = mergeFilters(plan.filters, exclusions);
+      kinds.push('exclude');
+    } else {
+      if (filters.length > 0) {
+        plan.filters = mergeFilters(plan.filters, filters);
+        kinds.push('filter');
+      }
+      if (read.timeWindow) {
+        plan.timeWindow = read.timeWindow;
+        kinds.push('time');
+      }
+      // A follow-up naming a measure switches to it, or adds it with "also"
+      const measures = read.measures.filter(measure => measure.column);
+      const namesMeasure = measures.length > 0 && read.groupBy.length === 0;
+      if (namesMeasure) {
+        plan.measures = adding ? [...plan.measures, ...measures] : measures;
+        kinds.push('measure');
+      }
+      if (read.groupBy.length > 0 && read.groupBy.every(Boolean) && (namesMeasure || filters.length === 0)) {
+        plan.groupBy = read.groupBy;
+        plan.groupPeriods = read.groupPeriods;
+        if (namesMeasure) plan.measures = read.measures.filter(measure => measure.column || measure.aggregation === 'count');
+        kinds.push('groupBy');
+      }
+      if (read.sort && (read.limit !== undefined || kinds.length === 0)) {
+        plan.sort = read.sort;
+        plan.limit = read.limit;
+        kinds.push('order');
+      }
+    }
+  }
+
+  if (kinds.length === 0) return null;
+  return { plan: keepSort(previous, plan, dataset), kinds, notes };
+};
+
+// ============================================================
+// Suggestions
+// ============================================================
+
+const mostFrequentValues = (dataset: Dataset, column: string): string[] => {
+  const counts = new Map<string, number>();
+  for (const row of dataset.data) {
+    const value = row[column];
+    if (value === null || value === undefined || value === '') continue;
+    const key = String(value);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+    if (counts.size > MAX_SUGGESTED_VALUES) return [];
+  }
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([value]) => value);
+};
+
+/**
+ * Follow-ups that make sense after a plan: narrow it to a value, break it down by time
+ * or another category, switch the aggregation, rank it, or undo the last refinement
+ */
+export const suggestFollowUps = (plan: QueryPlan, dataset: Dataset, canUndo = false): string[] => {
+  const suggestions: string[] = [];
+  const dateColumn = dataset.columns.find(col => col.type === 'date');
+  const categories = dataset.columns.filter(col => col.type === 'string' && !plan.groupBy.includes(col.name));
+
+  // Narrow to the most common value of a category, or compare with another one
+  for (const column of categories) {
+    const values = mostFrequentValues(dataset, column.name);
+    if (values.length < 2) continue;
+    const current = plan.filters.find(filter => filter.column === column.name && filter.operator === '=');
+    if (current) {
+      const other = values.find(value => value.toLowerCase() !== String(current.value).toLowerCase());
+      if (other) suggestions.push(`what about ${other}`);
+    } else {
+      suggestions.push(`now only for ${values[0]}`);
+    }
+    break;
+  }
+
+  if (dateColumn && !plan.groupPeriods?.[dateColumn.name]) {
+    suggestions.push('break that down by month');
+  } else {
+    const category = categories.find(col => mostFrequentValues(dataset, col.name).length > 1);
+    if (category) suggestions.push(`break that down by ${category.name}`);
+  }
+
+  const first = plan.measures[0];
+  if (first?.column && first.aggregation === 'sum') suggestions.push('show the average instead');
+  else if (first?.column && first.aggregation !== 'sum') suggestions.push('show the total instead');
+
+  if (plan.groupBy.length > 0 && plan.limit === undefined) suggestions.push('only the top 5');
+  if (canUndo) suggestions.push('undo');
+
+  return suggestions.slice(0, MAX_FOLLOW_UPS);
+};
+
+// ============================================================
+// Session
+// ============================================================
+
+const newTurnId = () => `turn-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+/** Rows a turn's plan runs on: the dataset, or its join with related datasets */
+const turnDataset = (result: QueryResult, dataset: Dataset, model?: QueryModel): Dataset =>
+  result.joinPath && model ? applyJoinPath(dataset, model.datasets, result.joinPath) : dataset;
+
+// Run a plan on the same rows as the result it came from
+const runOnResult = (
+  plan: QueryPlan,
+  from: QueryResult,
+  query: string,
+  dataset: Dataset,
+  model?: QueryModel,
+  notes: string[] = []
+): QueryResult => {
+  const result = runQueryPlan(plan, turnDataset(from, dataset, model), query, {
+    confidence: Math.max(0.5, 0.9 - notes.length * 0.1),
+    notes
+  });
+  return from.joinPath && model ? withJoinPath(result, from.joinPath, model.datasets) : result;
+};
+
+// Follow-ups are suggested from the turn's own context; failures keep their alternatives
+const withFollowUps = (turn: ConversationTurn, dataset: Dataset, model?: QueryModel): ConversationTurn => {
+  const { result } = turn;
+  if (!result.success || !result.plan) return turn;
+  const rows = turnDataset(result, dataset, model);
+  return { ...turn, result: { ...result, alternativeQueries: suggestFollowUps(result.plan, rows, !!turn.parentId) } };
+};
+
+/**
+ * Start a turn from a result computed outside the conversation (an edited or clarified plan)
+ */
+export const createTurn = (
+  result: QueryResult,
+  dataset: Dataset,
+  model?: QueryModel,
+  parent?: ConversationTurn,
+  refinement?: RefinementKind[]
+): ConversationTurn => withFollowUps({
+  id: newTurnId(),
+  question: result.query,
+  result,
+  parentId: parent?.id,
+  refinement,
+  askedAt: new Date()
+}, dataset, model);
+
+/**
+ * Answer a question in the context of the current turn: undo it, refine its plan, or ask afresh
+ */
+export const askQuestion = (
+  question: string,
+  turns: ConversationTurn[],
+  current: ConversationTurn | null,
+  dataset: Dataset,
+  model?: QueryModel
+): ConversationTurn => {
+  const query = question.trim();
+
+  if (isUndo(query)) {
+    const parent = current?.parentId ? turns.find(turn => turn.id === current.parentId) : undefined;
+    if (!parent) {
+      return createTurn({
+        success: false,
+        query,
+        interpretation: 'Undo',
+        result: null,
+        resultType: 'text',
+        explanation: 'There is no refinement to undo: the current answer is not a follow-up.',
+        confidence: 1
+      }, dataset, model);
+    }
+    const result = { ...replayTurn(parent, dataset, model), query };
+    const grandparent = parent.parentId ? turns.find(turn => turn.id === parent.parentId) : undefined;
+    return createTurn(result, dataset, model, grandparent, ['undo']);
+  }
+
+  const previous = current?.result.success ? current.result : null;
+  if (current && previous?.plan && isFollowUp(query)) {
+    const refined = applyGlossary(query, model?.glossary, glossaryColumns(dataset, model));
+    const refinement = refinePlan(refined, previous.plan, turnDataset(previous, dataset, model));
+    if (refinement) {
+      const result = runOnResult(refinement.plan, previous, query, dataset, model, refinement.notes);
+      return createTurn(result, dataset, model, current, refinement.kinds);
+    }
+  }
+
+  return createTurn(executeQuery(query, dataset, model), dataset, model);
+};
+
+/**
+ * askQuestion with a configured language model reading new questions into plans. Follow-ups,
+ * undo and questions answered across joined datasets stay with the rules, as does any question
+ * the model declines, gets wrong or can't be reached for.
+ */
+export const askQuestionWithLanguageModel = async (
+  question: string,
+  turns: ConversationTurn[],
+  current: ConversationTurn | null,
+  dataset: Dataset,
+  model?: QueryModel
+): Promise<ConversationTurn> => {
+  const ruled = askQuestion(question, turns, current, dataset, model);
+  if (!isLanguageModelConfigured() || ruled.refinement || ruled.result.joinPath || isUndo(question.trim())) return ruled;
+
+  try {
+    const plan = await translateQuestion(question.trim(), dataset, model?.glossary);
+    if (!plan) return ruled;
+    const result = runQueryPlan(plan, dataset, question.trim(), { confidence: 0.85, notes: [] });
+    return result.success ? createTurn({ ...result, readByModel: true }, dataset, model) : ruled;
+  } catch (error) {
+    console.warn('Language model could not read the question, using the rules:', error);
+    return ruled;
+  }
+};
+
+/**
+ * Compute a turn's result again from its plan (or its question, for analyses without one)
+ */
+export const replayTurn = (turn: ConversationTurn, dataset: Dataset, model?: QueryModel): QueryResult => {
+  const { result } = turn;
+  if (!result.plan || (result.clarifications?.length ?? 0) > 0) return executeQuery(turn.question, dataset, model);
+  const replayed = runOnResult(result.plan, result, turn.question, dataset, model, result.notes ?? []);
+  return {
+    ...replayed,
+    confidence: result.confidence,
+    alternativeQueries: result.alternativeQueries,
+    ...(result.readByModel ? { readByModel: true } : {})
+  };
+};
@@ -0,0 +1,255 @@
+// Query Join - Answer questions that span related datasets
+// When a question names columns that live in other loaded datasets, the active dataset is
+// joined to them along the shortest relationship path (mergeDatasets) and the question is
+// read against the joined rows. The join path is kept so the result can explain it and
+// edited plans can be re-run on the same rows.
+
+import { Dataset, Relationship } from './types';
+import { getRelationshipColumns, isUniqueKey, mergeDatasets } from './smartDataConnector';
+import { ParsedQuestion, QueryPlan, parseQuestion } from './queryPlan';
+
+// ============================================================
+// Types
+// ============================================================
+
+/** One join of the path: `toDataset` is added on `toColumns` = `fromColumns` of a dataset already joined */
+export interface JoinStep {
+  relationshipId: string;
+  fromDataset: string;
+  toDataset: string;
+  fromColumns: string[];
+  toColumns: string[];
+  joinType: 'left' | 'right';
+}
+
+export interface JoinedQuestion {
+  question: string; // "customer segment" style references rewritten to the joined column names
+  dataset: Dataset;
+  steps: JoinStep[];
+  parsed: ParsedQuestion;
+}
+
+interface JoinState {
+  dataset: Dataset;
+  steps: JoinStep[];
+  // Name each joined dataset's columns ended up with (mergeDatasets prefixes clashing names)
+  columnNames: Record<string, Record<string, string>>;
+}
+
+// ============================================================
+// Join path
+// ============================================================
+
+/**
+ * Shortest chain of relationships from any of the joined datasets to `targetId`,
+ * as steps oriented away from the joined side
+ */
+const findJoinPath = (
+  joinedIds: string[],
+  targetId: string,
+  relationships: Relationship[]
+): Omit<JoinStep, 'joinType'>[] | null => {
+  const previous = new Map<string, Omit<JoinStep, 'joinType'> | null>(joinedIds.map(id => [id, null]));
+  const queue = [...joinedIds];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === targetId) break;
+    for (const rel of relationships) {
+      const { fromColumns, toColumns } = getRelationshipColumns(rel);
+      const step = rel.fromDataset === current
+        ? { relationshipId: rel.id, fromDataset: current, toDataset: rel.toDataset, fromColumns, toColumns }
+        : rel.toDataset === current
+          ? { relationshipId: rel.id, fromDataset: current, toDataset: rel.fromDataset, fromColumns: toColumns, toColumns: fromColumns }
+          : null;
+      if (!step || previous.has(step.toDataset)) continue;
+      previous.set(step.toDataset, step);
+      queue.push(step.toDataset);
+    }
+  }
+
+  if (!previous.has(targetId) || joinedIds.includes(targetId)) return null;
+  const path: Omit<JoinStep, 'joinType'>[] = [];
+  for (let step = previous.get(targetId); step; step = previous.get(step.fromDataset)) {
+    path.unshift(step);
+  }
+  return path;
+};
+
+/**
+ * Join one more dataset. A lookup table (unique key) is left-joined so every row of the
+ * joined data is kept; otherwise the new dataset is the "many" side and all its rows are kept.
+ */
+const joinStep = (state: JoinState, step: Omit<JoinStep, 'joinType'> | JoinStep, datasets: Dataset[]): JoinState => {
+  const next = datasets.find(ds => ds.id === step.toDataset);
+  const names = state.columnNames[step.fromDataset];
+  if (!next || !names) throw new Error('The relationship path refers to a dataset that is no longer loaded');
+
+  const currentKeys = step.fromColumns.map(column => names[column] ?? column);
+  const joinType = 'joinType' in step ? step.joinType : isUniqueKey(next, step.toColumns) ? 'left' : 'right';
+  const { data, columns } = mergeDatasets(state.dataset, next, currentKeys, step.toColumns, joinType);
+
+  // Mirrors mergeDatasets: non-key columns clashing with joined names get the dataset prefix
+  const prefix = next.name.split('.')[0].substring(0, 3).toLowerCase() + '_';
+  const nextNames = Object.fromEntries(next.columns.map(col => [
+    col.name,
+    !step.toColumns.includes(col.name) && state.dataset.columns.some(c => c.name === col.name)
+      ? `${prefix}${col.name}`
+      : col.name
+  ]));
+
+  return {
+    dataset: {
+      ...state.dataset,
+      id: `${state.dataset.id}+${next.id}`,
+      name: `${state.dataset.name} + ${next.name}`,
+      description: `Join of ${state.dataset.name} and ${next.name}`,
+      columns,
+      data,
+      rowCount: data.length,
+      dataTypes: Object.fromEntries(columns.map(col => [col.name, col.type]))
+    },
+    steps: [...state.steps, { ...step, joinType }],
+    columnNames: { ...state.columnNames, [next.id]: nextNames }
+  };
+};
+
+const startState = (dataset: Dataset): JoinState => ({
+  dataset,
+  steps: [],
+  columnNames: { [dataset.id]: Object.fromEntries(dataset.columns.map(col => [col.name, col.name])) }
+});
+
+/**
+ * Rebuild the joined rows a result was computed on
+ */
+export const applyJoinPath = (dataset: Dataset, datasets: Dataset[], steps: JoinStep[]): Dataset =>
+  steps.reduce((state, step) => joinStep(state, step, datasets), startState(dataset)).dataset;
+
+/**
+ * "Sales → Customers on customer_id = id"
+ */
+export const describeJoinPath = (steps: JoinStep[], datasets: Dataset[]): string => {
+  const name = (id: string) => datasets.find(ds => ds.id === id)?.name.split('.')[0] ?? id;
+  return steps.map(step => {
+    const keys = step.fromColumns.map((column, i) =>
+      column === step.toColumns[i] ? column : `${column} = ${step.toColumns[i]}`
+    ).join(', ');
+    return `${name(step.fromDataset)} → ${name(step.toDataset)} on ${keys}`;
+  }).join(', ');
+};
+
+// ============================================================
+// Question resolution
+// ============================================================
+
+const nameWords = (name: string): string[] =>
+  name.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+const words = (text: string): string[] =>
+  nameWords(text).filter(word => word.length > 2).map(word => word.replace(/s$/, ''));
+
+const keyColumns = (dataset: Dataset, relationships: Relationship[]): Set<string> =>
+  new Set(relationships.flatMap(rel => {
+    const { fromColumns, toColumns } = getRelationshipColumns(rel);
+    return [
+      ...(rel.fromDataset === dataset.id ? fromColumns : []),
+      ...(rel.toDataset === dataset.id ? toColumns : [])
+    ];
+  }));
+
+// Only datasets whose name or non-key columns share a word with the question are worth joining
+const isMentioned = (question: Set<string>, dataset: Dataset, relationships: Relationship[]): boolean => {
+  const keys = keyColumns(dataset, relationships);
+  const names = [dataset.name.split('.')[0], ...dataset.columns.filter(col => !keys.has(col.name)).map(col => col.name)];
+  return names.some(name => words(name).some(word => question.has(word)));
+};
+
+// "customer segment", "customers' segment": a column named together with its dataset
+const qualifiedPattern = (dataset: Dataset, column: string): RegExp => {
+  const table = nameWords(dataset.name.split('.')[0]).join('[\\s_-]+').replace(/s$/, '');
+  return new RegExp(`\\b${table}(?:s|'s|s')?\\s+${nameWords(column).join('[\\s_-]+')}\\b`, 'giu');
+};
+
+const qualifiedColumns = (question: string, dataset: Dataset, relationships: Relationship[]): string[] => {
+  const keys = keyColumns(dataset, relationships);
+  return dataset.columns
+    .filter(col => !keys.has(col.name) && qualifiedPattern(dataset, col.name).test(question))
+    .map(col => col.name);
+};
+
+/**
+ * Rewrite qualified references to the joined datasets' columns with the names the columns
+ * have after the join, so they resolve exactly instead of by a shared word
+ */
+const qualifyQuestion = (question: string, state: JoinState, datasets: Dataset[], relationships: Relationship[]): string =>
+  Object.entries(state.columnNames).reduce((text, [id, names]) => {
+    const dataset = datasets.find(ds => ds.id === id);
+    if (!dataset) return text;
+    return qualifiedColumns(text, dataset, relationships)
+      .reduce((current, column) => current.replace(qualifiedPattern(dataset, column), names[column]), text);
+  }, question);
+
+const planColumns = (plan: QueryPlan): string[] => [
+  ...plan.measures.map(measure => measure.column),
+  ...plan.groupBy,
+  ...plan.filters.map(filter => filter.column),
+  ...(plan.timeWindow ? [plan.timeWindow.column] : [])
+];
+
+// Terms left unread; a join has to lower this to be worth it
+const unresolved = (parsed: ParsedQuestion | null): number => (parsed ? parsed.notes.length : Infinity);
+
+/**
+ * Join the datasets a question needs beyond the active one. Returns null when the active
+ * dataset answers it on its own or no related dataset improves how the question is read.
+ */
+export const joinForQuestion = (
+  question: string,
+  dataset: Dataset,
+  datasets: Dataset[],
+  relationships: Relationship[]
+): JoinedQuestion | null => {
+  const others = datasets.filter(ds => ds.id !== dataset.id);
+  if (others.length === 0 || relationships.length === 0) return null;
+
+  // A dataset named with one of its columns is joined even when the active one has a near match
+  const qualified = new Set(others
+    .filter(ds => qualifiedColumns(question, ds, relationships).length > 0)
+    .map(ds => ds.id));
+  const base = parseQuestion(question, dataset);
+  if (base && base.notes.length === 0 && qualified.size === 0) return null;
+
+  const questionWords = new Set(words(question));
+  let best: { state: JoinState; question: string; parsed: ParsedQuestion | null } =
+    { state: startState(dataset), question, parsed: base };
+
+  // Greedily add the related dataset that resolves the most terms, until none helps.
+  // Unresolved terms may be values rather than columns, so then every related dataset is tried.
+  for (;;) {
+    let improved: typeof best | null = null;
+    const joinedIds = Object.keys(best.state.columnNames);
+    for (const candidate of others) {
+      if (joinedIds.includes(candidate.id)) continue;
+      const named = qualified.has(candidate.id);
+      if (!named && !isMentioned(questionWords, candidate, relationships) && unresolved(best.parsed) === 0) continue;
+      const path = findJoinPath(joinedIds, candidate.id, relationships);
+      if (!path) continue;
+
+      const state = path.reduce((current, step) => joinStep(current, step, datasets), best.state);
+      const rewritten = qualifyQuestion(question, state, datasets, relationships);
+      const parsed = parseQuestion(rewritten, state.dataset);
+      const addedColumns = new Set(state.dataset.columns.map(col => col.name));
+      best.state.dataset.columns.forEach(col => addedColumns.delete(col.name));
+      const usesJoin = parsed && planColumns(parsed.plan).some(column => addedColumns.has(column));
+      const current = unresolved(improved ? improved.parsed : best.parsed);
+      if (usesJoin && (unresolved(parsed) < current || (named && unresolved(parsed) <= current))) {
+        improved = { state, question: rewritten, parsed };
+      }
+    }
+    if (!improved) break;
+    best = improved;
+  }
+
+  if (best.state.steps.length === 0 || !best.parsed) return null;
+  return { question: best.question, dataset: best.state.dataset, steps: best.state.steps, parsed: best.parsed };
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeColumn } from './dataUtils';
+import { applyClarification, executePlan, parseQuestion } from './queryPlan';
+import { Dataset } from './types';
+
+const REGIONS = ['North', 'South', 'East', 'West'];
+
+const rows = Array.from({ length: 60 }, (_, i) => ({
+  order_id: 1001 + i,
+  region: REGIONS[i % 4],
+  revenue: 100 + (i * 37) % 90,
+  year: 2023 + (i % 2),
+  date: `${2023 + (i % 2)}-${String(1 + (i % 12)).padStart(2, '0')}-${String(1 + (i % 28)).padStart(2, '0')}`
+}));
+
+const orders: Dataset = {
+  id: 'orders',
+  name: 'Orders',
+  description: '',
+  columns: Object.keys(rows[0]).map(column => analyzeColumn(column, rows.map(row => row[column as keyof typeof row]))),
+  rowCount: rows.length,
+  dataTypes: {},
+  data: rows
+};
+
+const parse = (question: string) => {
+  const parsed = parseQuestion(question, orders);
+  expect(parsed).not.toBeNull();
+  return parsed!;
+};
+
+describe('parseQuestion', () => {
+  it('reads measures, groupings and sorting', () => {
+    const { plan, clarifications } = parse('total revenue by region sorted by revenue descending');
+    expect(plan.measures).toEqual([{ aggregation: 'sum', column: 'revenue' }]);
+    expect(plan.groupBy).toEqual(['region']);
+    expect(plan.sort?.direction).toBe('desc');
+    expect(clarifications).toEqual([]);
+  });
+
+  it('buckets a date column by a period word', () => {
+    const { plan } = parse('average revenue by month');
+    expect(plan.groupBy).toEqual(['date']);
+    expect(plan.groupPeriods).toEqual({ date: 'month' });
+  });
+
+  it('folds equality filters on one column into "is one of"', () => {
+    const { plan } = parse('revenue for North and South');
+    expect(plan.filters).toEqual([{ column: 'region', operator: 'in', value: ['North', 'South'] }]);
+  });
+
+  it('reads comparisons in a where clause', () => {
+    const { plan } = parse('count where revenue > 150');
+    expect(plan.filters).toEqual([{ column: 'revenue', operator: '>', value: 150 }]);
+    expect(plan.measures).toEqual([{ aggregation: 'count', column: '' }]);
+  });
+
+  it('returns null when nothing maps onto the data', () => {
+    expect(parseQuestion('hello there', orders)).toBeNull();
+  });
+});
+
+describe('key and period columns', () => {
+  it('lists rows for an entity named by its key instead of totalling the key', () => {
+    const { plan } = parse('list orders where revenue > 150');
+    expect(plan.measures).toEqual([]);
+    expect(plan.groupBy).toEqual([]);
+    expect(executePlan(plan, orders).rows.every(row => (row.revenue as number) > 150)).toBe(true);
+  });
+
+  it('ranks the rows of "top N <entity>" by a measure', () => {
+    const { plan } = parse('top 5 orders');
+    expect(plan.measures).toEqual([]);
+    expect(plan.sort).toEqual({ by: 'revenue', direction: 'desc' });
+    expect(executePlan(plan, orders).rows).toHaveLength(5);
+  });
+
+  it('offers only measure columns when the measure is left out', () => {
+    const { plan, clarifications } = parse('total by month');
+    expect(clarifications).toEqual([{ term: 'sum', slot: 'measure', index: 0, options: ['revenue'] }]);
+    const chosen = applyClarification(plan, clarifications[0], 'revenue');
+    expect(chosen.measures).toEqual([{ aggregation: 'sum', column: 'revenue' }]);
+  });
+
+  it('counts distinct keys per group', () => {
+    const { plan } = parse('orders by region');
+    expect(plan.measures).toEqual([{ aggregation: 'count_distinct', column: 'order_id' }]);
+  });
+});
+
+describe('executePlan', () => {
+  it('groups, sorts and limits', () => {
+    const { plan } = parse('top 2 regions by total revenue');
+    const { rows: result, matchedRows } = executePlan(plan, orders);
+    expect(matchedRows).toBe(60);
+    expect(result).toHaveLength(2);
+    const totals = result.map(row => row['Total revenue'] as number);
+    expect(totals[0]).toBeGreaterThanOrEqual(totals[1]);
+  });
+
+  it('refuses a plan with an unchosen column', () => {
+    const { plan } = parse('total by month');
+    expect(() => executePlan(plan, orders)).toThrow('Choose a column for every part of the plan');
+  });
+});
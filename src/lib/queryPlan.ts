@@ -0,0 +1,1444 @@
+// Query Plan - Grammar-based reading of plain-English questions into an executable plan
+// A question is tokenized and parsed clause by clause (measures, "by" groupings, "where"
+// conditions, ordering, "top N" limits and time windows) into a QueryPlan that can be shown,
+// edited and run by executePlan. Terms matching several columns become clarifications
+// instead of a guess.
+
+import { ColumnInfo, Dataset } from './types';
+import { GROUP_AGGREGATION_LABELS, GroupAggregation, groupByDataset } from './datasetTransforms';
+import { isMissingValue } from './columnarStore';
+import { isIdentifierColumn, isMeasureColumn } from './semanticTypes';
+
+type RowObject = Record<string, unknown>;
+
+// ============================================================
+// Types
+// ============================================================
+
+export type PlanAggregation = Exclude<GroupAggregation, 'percentile'>;
+
+export interface PlanMeasure {
+  aggregation: PlanAggregation;
+  column: string; // empty with count: counts rows
+}
+
+export type PlanOperator =
+  | '=' | '!=' | '>' | '>=' | '<' | '<='
+  | 'contains' | 'startsWith' | 'endsWith' | 'between' | 'in';
+
+export type PlanValue = string | number;
+
+export interface PlanFilter {
+  column: string;
+  operator: PlanOperator;
+  value: PlanValue | PlanValue[]; // a pair for between, a list for in
+}
+
+export type TimePeriod = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+// Relative windows are anchored at the latest date in the column (or today, if earlier)
+export type TimeWindow = { column: string } & (
+  | { kind: 'last'; count: number; period: TimePeriod } // the N complete periods before the current one
+  | { kind: 'this'; period: TimePeriod }
+  | { kind: 'calendar'; year: number; quarter?: number; month?: number } // month is 1-12
+);
+
+export interface PlanSort {
+  by: string; // an output column: a grouping column, a measure label or (row lists) a data column
+  direction: 'asc' | 'desc';
+}
+
+export interface QueryPlan {
+  measures: PlanMeasure[]; // none: matching rows are listed
+  groupBy: string[];
+  groupPeriods?: Record<string, TimePeriod>; // date groupings bucketed by period, e.g. order_date by month
+  filters: PlanFilter[];
+  timeWindow?: TimeWindow;
+  sort?: PlanSort;
+  limit?: number;
+}
+
+/** A term that matched several columns; the plan leaves that column empty until one is chosen */
+export interface Clarification {
+  term: string;
+  slot: 'measure' | 'groupBy' | 'filter' | 'sort';
+  index: number; // position in the plan's measures, groupBy or filters (0 for sort)
+  options: string[];
+}
+
+export interface ParsedQuestion {
+  plan: QueryPlan;
+  clarifications: Clarification[];
+  notes: string[]; // parts of the question that were left out of the plan
+  confidence: number;
+}
+
+export interface PlanExecution {
+  rows: RowObject[];
+  matchedRows: number; // rows passing the filters and the time window
+  window?: { start: Date; end: Date };
+}
+
+export const PLAN_AGGREGATIONS: PlanAggregation[] = [
+  'sum', 'avg', 'count', 'count_distinct', 'min', 'max', 'median', 'std', 'first', 'last'
+];
+
+export const PLAN_AGGREGATION_LABELS = GROUP_AGGREGATION_LABELS as Record<PlanAggregation, string>;
+
+export const PLAN_OPERATOR_LABELS: Record<PlanOperator, string> = {
+  '=': 'is',
+  '!=': 'is not',
+  '>': 'greater than',
+  '>=': 'at least',
+  '<': 'less than',
+  '<=': 'at most',
+  contains: 'contains',
+  startsWith: 'starts with',
+  endsWith: 'ends with',
+  between: 'between',
+  in: 'is one of'
+};
+
+const MEASURE_PREFIX: Record<PlanAggregation, string> = {
+  sum: 'Total',
+  avg: 'Average',
+  count: 'Count of',
+  count_distinct: 'Distinct',
+  min: 'Minimum',
+  max: 'Maximum',
+  median: 'Median',
+  std: 'Std dev of',
+  first: 'First',
+  last: 'Last'
+};
+
+const NUMERIC_AGGREGATIONS: PlanAggregation[] = ['sum', 'avg', 'min', 'max', 'median', 'std'];
+const MAX_VALUE_LOOKUP = 5000; // distinct values indexed per column for value filters
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// ============================================================
+// Tokenizer
+// ============================================================
+
+interface Token {
+  text: string; // lowercased for words
+  kind: 'word' | 'number' | 'string' | 'operator' | 'punct';
+}
+
+const TOKEN_PATTERN = new RegExp([
+  '"([^"]*)"', // double-quoted value
+  "(?<![\\p{L}\\p{N}])'([^']*)'", // single-quoted value
+  '(>=|<=|!=|<>|=|>|<)',
+  '(\\d{4}-\\d{2}-\\d{2}|\\d{1,2}/\\d{1,2}/\\d{2,4})', // dates stay words
+  '[$€£]?(\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?)%?',
+  '([\\p{L}\\p{N}_](?:[\\p{L}\\p{N}_&\\-\']|\\.(?=[\\p{L}\\p{N}]))*)',
+  '([,()])'
+].join('|'), 'gu');
+
+const tokenize = (question: string): Token[] => {
+  const text = question
+    .replace(/\b(what|that|it|who|where|there)'s\b/gi, '$1 is')
+    .replace(/n't\b/gi, ' not');
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const [, double, single, operator, date, number, word, punct] = match;
+    if (double !== undefined || single !== undefined) tokens.push({ text: double ?? single, kind: 'string' });
+    else if (operator) tokens.push({ text: operator === '<>' ? '!=' : operator, kind: 'operator' });
+    else if (date) tokens.push({ text: date, kind: 'word' });
+    else if (number) tokens.push({ text: number.replace(/,/g, ''), kind: 'number' });
+    else if (word) tokens.push({ text: word.toLowerCase(), kind: 'word' });
+    else if (punct) tokens.push({ text: punct, kind: 'punct' });
+  }
+  return tokens;
+};
+
+// ============================================================
+// Grammar
+// ============================================================
+
+interface Cursor {
+  tokens: Token[];
+  pos: number;
+}
+
+type PhraseTable<T> = [string[], T][];
+
+const byLength = <T>(table: PhraseTable<T>): PhraseTable<T> =>
+  [...table].sort((a, b) => b[0].length - a[0].length);
+
+const AGGREGATION_PHRASES = byLength<PlanAggregation>([
+  [['how', 'many', 'unique'], 'count_distinct'], [['how', 'many', 'distinct'], 'count_distinct'],
+  [['number', 'of', 'unique'], 'count_distinct'], [['number', 'of', 'distinct'], 'count_distinct'],
+  [['count', 'of', 'unique'], 'count_distinct'], [['count', 'of', 'distinct'], 'count_distinct'],
+  [['distinct', 'count', 'of'], 'count_distinct'], [['unique'], 'count_distinct'], [['distinct'], 'count_distinct'],
+  [['how', 'many'], 'count'], [['number', 'of'], 'count'], [['count', 'of'], 'count'], [['count'], 'count'],
+  [['how', 'much'], 'sum'], [['total'], 'sum'], [['sum', 'of'], 'sum'], [['sum'], 'sum'], [['combined'], 'sum'],
+  [['average'], 'avg'], [['avg'], 'avg'], [['mean'], 'avg'],
+  [['median'], 'median'],
+  [['standard', 'deviation', 'of'], 'std'], [['standard', 'deviation'], 'std'],
+  [['maximum'], 'max'], [['max'], 'max'], [['highest'], 'max'], [['largest'], 'max'], [['biggest'], 'max'],
+  [['minimum'], 'min'], [['min'], 'min'], [['lowest'], 'min'], [['smallest'], 'min']
+]);
+
+const COMPARATOR_PHRASES = byLength<PlanOperator>([
+  [['is', 'greater', 'than', 'or', 'equal', 'to'], '>='], [['greater', 'than', 'or', 'equal', 'to'], '>='],
+  [['is', 'at', 'least'], '>='], [['at', 'least'], '>='], [['no', 'less', 'than'], '>='], [['>='], '>='],
+  [['is', 'less', 'than', 'or', 'equal', 'to'], '<='], [['less', 'than', 'or', 'equal', 'to'], '<='],
+  [['is', 'at', 'most'], '<='], [['at', 'most'], '<='], [['no', 'more', 'than'], '<='], [['<='], '<='],
+  [['is', 'greater', 'than'], '>'], [['greater', 'than'], '>'], [['is', 'more', 'than'], '>'], [['more', 'than'], '>'],
+  [['is', 'above'], '>'], [['above'], '>'], [['is', 'over'], '>'], [['over'], '>'], [['exceeds'], '>'],
+  [['is', 'after'], '>'], [['after'], '>'], [['>'], '>'],
+  [['is', 'less', 'than'], '<'], [['less', 'than'], '<'], [['fewer', 'than'], '<'], [['is', 'below'], '<'],
+  [['below'], '<'], [['is', 'under'], '<'], [['under'], '<'], [['is', 'before'], '<'], [['before'], '<'], [['<'], '<'],
+  [['is', 'between'], 'between'], [['between'], 'between'],
+  [['is', 'one', 'of'], 'in'], [['is', 'in'], 'in'], [['in'], 'in'],
+  [['is', 'not'], '!='], [['not', 'equal', 'to'], '!='], [['does', 'not', 'equal'], '!='], [['!='], '!='],
+  [['contains'], 'contains'], [['containing'], 'contains'], [['includes'], 'contains'], [['is', 'like'], 'contains'], [['like'], 'contains'],
+  [['starts', 'with'], 'startsWith'], [['begins', 'with'], 'startsWith'], [['ends', 'with'], 'endsWith'],
+  [['is', 'equal', 'to'], '='], [['equal', 'to'], '='], [['equals'], '='], [['is'], '='], [['are'], '='], [['was'], '='], [['='], '=']
+]);
+
+const GROUP_PHRASES: string[][] = [
+  ['grouped', 'by'], ['group', 'by'], ['broken', 'down', 'by'], ['split', 'by'], ['for', 'each'], ['for', 'every'],
+  ['by'], ['per'], ['across']
+];
+const ORDER_PHRASES: string[][] = [
+  ['sorted', 'by'], ['sort', 'by'], ['ordered', 'by'], ['order', 'by'], ['ranked', 'by'], ['rank', 'by']
+];
+const WHERE_PHRASES: string[][] = [
+  ['that', 'have'], ['which', 'have'], ['where'], ['whose'], ['with'], ['having'], ['when'], ['if']
+];
+const DIRECTION_PHRASES = byLength<'asc' | 'desc'>([
+  [['in', 'descending', 'order'], 'desc'], [['in', 'ascending', 'order'], 'asc'],
+  [['descending'], 'desc'], [['desc'], 'desc'], [['ascending'], 'asc'], [['asc'], 'asc'],
+  [['highest', 'first'], 'desc'], [['largest', 'first'], 'desc'], [['high', 'to', 'low'], 'desc'],
+  [['lowest', 'first'], 'asc'], [['smallest', 'first'], 'asc'], [['low', 'to', 'high'], 'asc']
+]);
+const RANK_WORDS: Record<string, 'asc' | 'desc' | undefined> = {
+  top: 'desc', highest: 'desc', best: 'desc', bottom: 'asc', lowest: 'asc', worst: 'asc', first: undefined, limit: undefined
+};
+const SUPERLATIVES: Record<string, 'asc' | 'desc'> = {
+  highest: 'desc', most: 'desc', largest: 'desc', biggest: 'desc', best: 'desc',
+  lowest: 'asc', least: 'asc', smallest: 'asc', fewest: 'asc', worst: 'asc'
+};
+const PERIOD_WORDS: Record<string, TimePeriod> = {
+  day: 'day', days: 'day', week: 'week', weeks: 'week', month: 'month', months: 'month',
+  quarter: 'quarter', quarters: 'quarter', year: 'year', years: 'year'
+};
+const PERIOD_ADJECTIVES: Record<string, TimePeriod> = {
+  daily: 'day', weekly: 'week', monthly: 'month', quarterly: 'quarter', yearly: 'year', annual: 'year'
+};
+
+// Words that end a column term
+const STOP_WORDS = new Set([
+  'by', 'per', 'across', 'where', 'whose', 'with', 'having', 'when', 'if', 'that', 'which', 'and', 'or', 'of',
+  'in', 'for', 'during', 'within', 'from', 'since', 'before', 'after', 'between', 'sorted', 'sort', 'ordered',
+  'order', 'ranked', 'rank', 'grouped', 'group', 'broken', 'split', 'top', 'bottom', 'first', 'limit', 'last',
+  'past', 'previous', 'prior', 'this', 'current', 'is', 'are', 'was', 'equals', 'equal', 'greater', 'more', 'less',
+  'fewer', 'above', 'below', 'over', 'under', 'exceeds', 'not', 'does', 'contains', 'containing', 'includes',
+  'like', 'starts', 'begins', 'ends', 'than', 'at', 'no', 'ascending', 'descending', 'asc', 'desc', 'highest',
+  'lowest', 'then', 'has', 'have', 'had'
+]);
+
+// Words carrying no meaning for the plan
+const FILLER_WORDS = new Set([
+  'what', 'is', 'are', 'was', 'were', 'the', 'a', 'an', 'me', 'show', 'give', 'list', 'display', 'find', 'get',
+  'tell', 'please', 'can', 'could', 'you', 'i', 'we', 'want', 'to', 'see', 'calculate', 'compute', 'all', 'do',
+  'does', 'did', 'our', 'my', 'then', 'just', 'only'
+]);
+
+// Subjects that stand for the rows themselves
+const ROW_WORDS = new Set(['rows', 'row', 'records', 'record', 'entries', 'entry', 'items', 'data', 'everything', 'results']);
+
+const peekToken = (c: Cursor, offset = 0): Token | undefined => c.tokens[c.pos + offset];
+
+const isWord = (token: Token | undefined, text?: string): boolean =>
+  !!token && (token.kind === 'word' || token.kind === 'operator' || token.kind === 'punct') &&
+  (text === undefined || token.text === text);
+
+const matchesPhrase = (c: Cursor, phrase: string[]): boolean =>
+  phrase.every((word, i) => isWord(peekToken(c, i), word));
+
+const acceptsPhrase = (c: Cursor, phrases: string[][]): boolean => phrases.some(p => matchesPhrase(c, p));
+
+const acceptPhrase = (c: Cursor, phrases: string[][]): boolean => {
+  const phrase = phrases.find(p => matchesPhrase(c, p));
+  if (phrase) c.pos += phrase.length;
+  return !!phrase;
+};
+
+const acceptFrom = <T>(c: Cursor, table: PhraseTable<T>): T | undefined => {
+  const entry = table.find(([phrase]) => matchesPhrase(c, phrase));
+  if (!entry) return undefined;
+  c.pos += entry[0].length;
+  return entry[1];
+};
+
+const skipWords = (c: Cursor, words: Set<string> | string[]) => {
+  const set = words instanceof Set ? words : new Set(words);
+  while (peekToken(c)?.kind === 'word' && set.has(peekToken(c)!.text)) c.pos++;
+};
+
+/** Consecutive words up to a stop word ("the" inside a term is dropped) */
+const readTerm = (c: Cursor): string[] => {
+  const words: string[] = [];
+  while (peekToken(c)?.kind === 'word' && !STOP_WORDS.has(peekToken(c)!.text) &&
+    !acceptsPhrase(c, DIRECTION_PHRASES.map(([phrase]) => phrase))) {
+    const word = peekToken(c)!.text;
+    if (word !== 'the') words.push(word);
+    c.pos++;
+  }
+  return words;
+};
+
+interface TermDraft {
+  aggregation?: PlanAggregation;
+  words: string[];
+}
+
+interface ConditionDraft {
+  words: string[];
+  operator: PlanOperator;
+  value: PlanValue | PlanValue[];
+  join: 'and' | 'or'; // how it connects to the previous condition
+}
+
+type TimeDraft =
+  | { kind: 'last'; count: number; period: TimePeriod }
+  | { kind: 'this'; period: TimePeriod }
+  | { kind: 'calendar'; year?: number; quarter?: number; month?: number };
+
+interface Draft {
+  subjects: TermDraft[];
+  groups: TermDraft[];
+  conditions: ConditionDraft[];
+  valueTerms: string[][]; // phrases to look up among column values ("for West")
+  time?: TimeDraft;
+  order?: { term?: TermDraft; direction?: 'asc' | 'desc' };
+  rank?: { direction?: 'asc' | 'desc'; count: number };
+  rankBy?: TermDraft; // "which region has the most orders": what the groups are ranked on
+  ignored: string[][];
+}
+
+const readValueToken = (c: Cursor): PlanValue | undefined => {
+  const token = peekToken(c);
+  if (!token) return undefined;
+  if (token.kind === 'number') {
+    c.pos++;
+    return Number(token.text);
+  }
+  if (token.kind === 'string') {
+    c.pos++;
+    return token.text;
+  }
+  return undefined;
+};
+
+// Clause starters that end a free-text value
+const VALUE_STOPS = [...GROUP_PHRASES, ...ORDER_PHRASES, ['where'], ['top'], ['bottom'], ['limit'], ['in'], ['during'], [',']];
+
+/** A value: a number, a quoted string or words up to the next clause, condition or "or" */
+const readValue = (c: Cursor, stopAtAnd = true): PlanValue | undefined => {
+  const literal = readValueToken(c);
+  if (literal !== undefined) return literal;
+
+  const words: string[] = [];
+  while (peekToken(c) && peekToken(c)!.kind !== 'punct' && !acceptsPhrase(c, VALUE_STOPS)) {
+    const token = peekToken(c)!;
+    if (token.text === 'or') break; // alternatives: "east or west"
+    if (token.text === 'and') {
+      if (stopAtAnd) break;
+      // "Research and Development" keeps going; "... and amount > 5" starts a new condition
+      const lookahead: Cursor = { tokens: c.tokens, pos: c.pos + 1 };
+      if (parseCondition(lookahead, 'and') || startsClause(lookahead)) break;
+    }
+    words.push(token.text);
+    c.pos++;
+  }
+  return words.length > 0 ? words.join(' ') : undefined;
+};
+
+const readValueList = (c: Cursor): PlanValue[] => {
+  const values: PlanValue[] = [];
+  acceptPhrase(c, [['(']]);
+  for (;;) {
+    const value = readValue(c);
+    if (value === undefined) break;
+    values.push(value);
+    if (!acceptPhrase(c, [[','], ['or'], ['and']])) break;
+  }
+  acceptPhrase(c, [[')']]);
+  return values;
+};
+
+const parseCondition = (c: Cursor, join: 'and' | 'or'): ConditionDraft | null => {
+  const start = c.pos;
+  skipWords(c, ['the']);
+  const words = readTerm(c);
+  const operator = words.length > 0 ? acceptFrom(c, COMPARATOR_PHRASES) : undefined;
+  if (!operator) {
+    c.pos = start;
+    return null;
+  }
+
+  let value: PlanValue | PlanValue[] | undefined;
+  if (operator === 'between') {
+    const low = readValue(c);
+    const high = acceptPhrase(c, [['and']]) ? readValue(c) : undefined;
+    value = low !== undefined && high !== undefined ? [low, high] : undefined;
+  } else if (operator === 'in') {
+    const values = readValueList(c);
+    value = values.length > 0 ? values : undefined;
+  } else {
+    value = readValue(c, false);
+  }
+  if (value === undefined) {
+    c.pos = start;
+    return null;
+  }
+  return { words, operator, value, join };
+};
+
+const parseTime = (c: Cursor, draft: Draft): boolean => {
+  const start = c.pos;
+  acceptPhrase(c, [['in'], ['during'], ['for'], ['over'], ['within'], ['from']]);
+  skipWords(c, ['the']);
+
+  let time: TimeDraft | undefined;
+  const token = peekToken(c);
+  const next = peekToken(c, 1);
+  if (isWord(token) && ['last', 'past', 'previous', 'prior'].includes(token!.text)) {
+    const count = next?.kind === 'number' ? Number(next.text) : 1;
+    const periodToken = peekToken(c, next?.kind === 'number' ? 2 : 1);
+    const period = periodToken && PERIOD_WORDS[periodToken.text];
+    if (period && count >= 1) {
+      c.pos += next?.kind === 'number' ? 3 : 2;
+      time = { kind: 'last', count: Math.floor(count), period };
+    }
+  } else if (isWord(token) && ['this', 'current'].includes(token!.text) && next && PERIOD_WORDS[next.text]) {
+    c.pos += 2;
+    time = { kind: 'this', period: PERIOD_WORDS[next.text] };
+  } else if (isWord(token) && /^q[1-4]$/.test(token!.text)) {
+    c.pos++;
+    time = { kind: 'calendar', quarter: Number(token!.text[1]), year: readYear(c) };
+  } else if (isWord(token, 'quarter') && next?.kind === 'number' && Number(next.text) >= 1 && Number(next.text) <= 4) {
+    c.pos += 2;
+    time = { kind: 'calendar', quarter: Number(next.text), year: readYear(c) };
+  } else if (isWord(token) && MONTHS.includes(token!.text)) {
+    c.pos++;
+    time = { kind: 'calendar', month: MONTHS.indexOf(token!.text) + 1, year: readYear(c) };
+  } else if (c.pos > start || isWord(token, 'year')) {
+    // A bare year needs a preposition ("in 2024") or "year 2024"
+    if (isWord(token, 'year')) c.pos++;
+    const year = readYear(c);
+    if (year !== undefined) time = { kind: 'calendar', year };
+  }
+
+  if (!time) {
+    c.pos = start;
+    return false;
+  }
+  draft.time = time;
+  return true;
+};
+
+const readYear = (c: Cursor): number | undefined => {
+  const token = peekToken(c);
+  if (token?.kind !== 'number' || !/^\d{4}$/.test(token.text)) return undefined;
+  const year = Number(token.text);
+  if (year < 1900 || year > 2100) return undefined;
+  c.pos++;
+  return year;
+};
+
+const parseRank = (c: Cursor, draft: Draft): boolean => {
+  const token = peekToken(c);
+  if (!isWord(token) || !(token!.text in RANK_WORDS) || peekToken(c, 1)?.kind !== 'number') return false;
+  draft.rank = { direction: RANK_WORDS[token!.text], count: Math.max(1, Math.floor(Number(peekToken(c, 1)!.text))) };
+  c.pos += 2;
+  return true;
+};
+
+const parseOrder = (c: Cursor, draft: Draft): boolean => {
+  if (acceptPhrase(c, ORDER_PHRASES)) {
+    skipWords(c, ['the']);
+    const aggregation = acceptFrom(c, AGGREGATION_PHRASES);
+    skipWords(c, ['of', 'the']);
+    const words = readTerm(c);
+    draft.order = { ...draft.order, term: { aggregation, words } };
+    const direction = acceptFrom(c, DIRECTION_PHRASES);
+    if (direction) draft.order.direction = direction;
+    return true;
+  }
+  const direction = acceptFrom(c, DIRECTION_PHRASES);
+  if (!direction) return false;
+  draft.order = { ...draft.order, direction };
+  return true;
+};
+
+const parseGroup = (c: Cursor, draft: Draft): boolean => {
+  if (!acceptPhrase(c, GROUP_PHRASES)) return false;
+  for (;;) {
+    skipWords(c, ['the']);
+    const aggregation = acceptFrom(c, AGGREGATION_PHRASES);
+    skipWords(c, ['of', 'the']);
+    const words = readTerm(c);
+    if (words.length === 0) break;
+    draft.groups.push({ aggregation, words });
+    const start = c.pos;
+    if (!acceptPhrase(c, [[','], ['and']])) break;
+    if (startsClause(c) || !isWord(peekToken(c))) {
+      c.pos = start;
+      break;
+    }
+  }
+  return true;
+};
+
+const parseWhere = (c: Cursor, draft: Draft): boolean => {
+  if (!acceptPhrase(c, WHERE_PHRASES)) return false;
+  let join: 'and' | 'or' = 'and';
+  for (;;) {
+    const condition = parseCondition(c, join);
+    const previous = draft.conditions[draft.conditions.length - 1];
+    if (condition) {
+      draft.conditions.push(condition);
+    } else if (join === 'or' && previous && previous.operator === '=') {
+      // "region is east or west": another value of the same column
+      const value = readValue(c);
+      if (value === undefined) break;
+      draft.conditions.push({ ...previous, value, join });
+    } else {
+      // "where West": a bare value
+      const words = readTerm(c);
+      if (words.length === 0) break;
+      draft.valueTerms.push(words);
+    }
+    const start = c.pos;
+    const connector = acceptFrom(c, [[['and'], 'and'], [['or'], 'or'], [[','], 'and']] as PhraseTable<'and' | 'or'>);
+    if (!connector) break;
+    if (startsClause(c)) {
+      c.pos = start;
+      break;
+    }
+    join = connector;
+  }
+  return true;
+};
+
+/** "for West", "in the East region": values looked up in the data */
+const parseValueFilter = (c: Cursor, draft: Draft): boolean => {
+  const start = c.pos;
+  if (!acceptPhrase(c, [['for'], ['in'], ['from'], ['at']])) return false;
+  skipWords(c, ['the']);
+  const value = readValueToken(c);
+  const words = value !== undefined ? [String(value)] : readTerm(c);
+  if (words.length === 0) {
+    c.pos = start;
+    return false;
+  }
+  draft.valueTerms.push(words);
+  return true;
+};
+
+const startsClause = (c: Cursor): boolean => {
+  const probe: Draft = { subjects: [], groups: [], conditions: [], valueTerms: [], ignored: [] };
+  const start = c.pos;
+  const starts = parseRank({ ...c }, probe) || parseTime({ ...c }, probe) ||
+    acceptsPhrase(c, [...ORDER_PHRASES, ...GROUP_PHRASES, ...WHERE_PHRASES]) ||
+    DIRECTION_PHRASES.some(([phrase]) => matchesPhrase(c, phrase));
+  c.pos = start;
+  return starts;
+};
+
+/** "which region has the highest revenue": a group ranked by a measure */
+const parseWhich = (c: Cursor, draft: Draft): boolean => {
+  const start = c.pos;
+  if (!acceptPhrase(c, [['which'], ['what']])) return false;
+  const words = readTerm(c);
+  if (words.length === 0 || !acceptPhrase(c, [['has'], ['have'], ['had'], ['with'], ['is'], ['sells'], ['sold']])) {
+    c.pos = start;
+    return false;
+  }
+  skipWords(c, ['the']);
+  const superlative = peekToken(c) && SUPERLATIVES[peekToken(c)!.text];
+  if (!superlative) {
+    c.pos = start;
+    return false;
+  }
+  c.pos++;
+  const aggregation = acceptFrom(c, AGGREGATION_PHRASES);
+  skipWords(c, ['of', 'the']);
+  const measureWords = readTerm(c);
+  draft.subjects.push({ words });
+  draft.rankBy = { aggregation, words: measureWords };
+  draft.rank = { direction: superlative, count: 1 };
+  return true;
+};
+
+const parseSubjects = (c: Cursor, draft: Draft) => {
+  for (;;) {
+    skipWords(c, FILLER_WORDS);
+    const aggregation = acceptFrom(c, AGGREGATION_PHRASES);
+    skipWords(c, ['of', 'the', 'all']);
+    const words = readTerm(c);
+    if (!aggregation && words.length === 0) return;
+    draft.subjects.push({ aggregation, words });
+
+    const start = c.pos;
+    if (!acceptPhrase(c, [[','], ['and']])) return;
+    if (startsClause(c) || !isWord(peekToken(c)) || (STOP_WORDS.has(peekToken(c)!.text) &&
+      !acceptsPhrase(c, AGGREGATION_PHRASES.map(([phrase]) => phrase)))) {
+      c.pos = start;
+      return;
+    }
+  }
+};
+
+const parseDraft = (tokens: Token[]): Draft => {
+  const c: Cursor = { tokens, pos: 0 };
+  const draft: Draft = { subjects: [], groups: [], conditions: [], valueTerms: [], ignored: [] };
+
+  skipWords(c, FILLER_WORDS);
+  if (!parseWhich(c, draft)) {
+    parseRank(c, draft);
+    parseSubjects(c, draft);
+  }
+
+  let lastIgnored = -1;
+  while (c.pos < tokens.length) {
+    if (acceptPhrase(c, [[','], ['and'], ['or'], ['then']])) continue;
+    if (parseRank(c, draft) || parseTime(c, draft) || parseOrder(c, draft) || parseGroup(c, draft) ||
+      parseWhere(c, draft) || parseValueFilter(c, draft)) continue;
+
+    const token = tokens[c.pos];
+    if (!(token.kind === 'word' && FILLER_WORDS.has(token.text)) && token.kind !== 'punct') {
+      if (lastIgnored === c.pos - 1 && draft.ignored.length > 0) draft.ignored[draft.ignored.length - 1].push(token.text);
+      else draft.ignored.push([token.text]);
+      lastIgnored = c.pos;
+    }
+    c.pos++;
+  }
+  return draft;
+};
+
+// ============================================================
+// Resolution
+// ============================================================
+
+const normalize = (text: string): string => text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+const singular = (word: string): string => {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+const nameWords = (name: string): string[] =>
+  name.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean).map(singular);
+
+/** How well a term names a column: 1 exact, down to 0.4 for a shared word */
+const scoreColumn = (words: string[], column: ColumnInfo): number => {
+  const name = normalize(column.name);
+  const term = normalize(words.join(''));
+  if (term === name) return 1;
+  const singularWords = words.map(singular);
+  if (normalize(singularWords.join('')) === normalize(nameWords(column.name).join(''))) return 0.95;
+  const columnWords = nameWords(column.name);
+  if (singularWords.every(word => columnWords.includes(word))) return 0.8;
+  if (term.length > 2 && name.includes(normalize(singularWords.join('')))) return 0.6;
+  if (singularWords.some(word => word.length > 2 && columnWords.includes(word))) return 0.4;
+  return 0;
+};
+
+type Resolution = { column: ColumnInfo } | { options: string[] } | null;
+
+/**
+ * Find the column a term names. Ties at the best score are returned as options;
+ * `prefer` narrows the candidates when any of them qualify (e.g. numeric columns for a sum).
+ */
+const resolveColumn = (
+  words: string[],
+  columns: ColumnInfo[],
+  prefer?: (column: ColumnInfo) => boolean
+): Resolution => {
+  if (words.length === 0) return null;
+  let candidates = columns
+    .map(column => ({ column, score: scoreColumn(words, column) }))
+    .filter(candidate => candidate.score > 0);
+  if (prefer && candidates.some(candidate => prefer(candidate.column))) {
+    candidates = candidates.filter(candidate => prefer(candidate.column));
+  }
+  if (candidates.length === 0) return null;
+  const best = Math.max(...candidates.map(candidate => candidate.score));
+  const top = candidates.filter(candidate => candidate.score === best);
+  return top.length === 1 ? { column: top[0].column } : { options: top.map(candidate => candidate.column.name) };
+};
+
+const isNumeric = (column: ColumnInfo) => column.type === 'number';
+
+/** A quantity worth totalling: not a key, a coordinate or a period number such as "year" */
+const isMeasure = (column: ColumnInfo) => isMeasureColumn(column) && !PERIOD_WORDS[normalize(column.name)];
+
+/** A key column, which stands for the rows it identifies ("orders" for order_id) */
+const isKey = (resolution: Resolution) => !!resolution && 'column' in resolution && isIdentifierColumn(resolution.column);
+
+/** Distinct values of text columns, normalized, for matching phrases like "for West" */
+const buildValueIndex = (dataset: Dataset): Map<string, Map<string, string>> => {
+  const index = new Map<string, Map<string, string>>();
+  dataset.columns
+    .filter(column => (column.type === 'string' || column.type === 'boolean') && column.uniqueCount <= MAX_VALUE_LOOKUP)
+    .forEach(column => {
+      const values = new Map<string, string>();
+      for (const row of dataset.data) {
+        const value = row[column.name];
+        if (!isMissingValue(value)) values.set(normalize(String(value)), String(value));
+        if (values.size > MAX_VALUE_LOOKUP) break;
+      }
+      index.set(column.name, values);
+    });
+  return index;
+};
+
+const buildPlan = (draft: Draft, dataset: Dataset): ParsedQuestion | null => {
+  const plan: QueryPlan = { measures: [], groupBy: [], filters: [] };
+  const clarifications: Clarification[] = [];
+  const notes: string[] = [];
+  const { columns } = dataset;
+  let valueIndex: Map<string, Map<string, string>> | null = null;
+
+  const findValue = (words: string[]): { column: string; value: string }[] => {
+    valueIndex = valueIndex ?? buildValueIndex(dataset);
+    const lookup = (text: string, only?: string) => Array.from(valueIndex!.entries())
+      .filter(([column, values]) => (!only || column === only) && values.has(normalize(text)))
+      .map(([column, values]) => ({ column, value: values.get(normalize(text))! }));
+
+    const whole = lookup(words.join(' '));
+    if (whole.length > 0 || words.length < 2) return whole;
+    // "East region": the value followed (or preceded) by its column
+    const last = resolveColumn(words.slice(-1), columns);
+    if (last && 'column' in last) return lookup(words.slice(0, -1).join(' '), last.column.name);
+    const first = resolveColumn(words.slice(0, 1), columns);
+    if (first && 'column' in first) return lookup(words.slice(1).join(' '), first.column.name);
+    return [];
+  };
+
+  // A row holds one value per column, so equality filters on the same column ("for North
+  // and South", "region is North or region is South") fold into one "is one of" filter
+  const equalityValues = (filter: PlanFilter): PlanValue[] | null => {
+    if (filter.operator === '=' && !Array.isArray(filter.value)) return [filter.value];
+    if (filter.operator === 'in' && Array.isArray(filter.value)) return filter.value;
+    return null;
+  };
+  const addFilter = (filter: PlanFilter): number => {
+    const incoming = filter.column ? equalityValues(filter) : null;
+    const index = incoming
+      ? plan.filters.findIndex(existing => existing.column === filter.column && equalityValues(existing))
+      : -1;
+    if (index < 0) {
+      plan.filters.push(filter);
+      return plan.filters.length - 1;
+    }
+    const values = Array.from(new Set([...equalityValues(plan.filters[index])!, ...incoming!]));
+    plan.filters[index] = values.length === 1
+      ? { column: filter.column, operator: '=', value: values[0] }
+      : { column: filter.column, operator: 'in', value: values };
+    return index;
+  };
+
+  const addValueFilter = (words: string[]): boolean => {
+    const matches = findValue(words);
+    if (matches.length === 0) return false;
+    const values = Array.from(new Set(matches.map(match => match.value)));
+    const index = addFilter({ column: matches.length === 1 ? matches[0].column : '', operator: '=', value: values[0] });
+    if (matches.length > 1) {
+      clarifications.push({
+        term: words.join(' '),
+        slot: 'filter',
+        index,
+        options: matches.map(match => match.column)
+      });
+    }
+    return true;
+  };
+
+  // Time window
+  const dateColumn = columns.find(column => column.type === 'date');
+  const setTimeWindow = (time: TimeDraft) => {
+    if (!dateColumn) {
+      notes.push('The time period was left out: this dataset has no date column');
+      return;
+    }
+    if (time.kind === 'calendar') {
+      const year = time.year ?? latestYear(dataset, dateColumn.name);
+      if (year === undefined) return;
+      plan.timeWindow = { column: dateColumn.name, kind: 'calendar', year, quarter: time.quarter, month: time.month };
+    } else {
+      plan.timeWindow = { column: dateColumn.name, ...time };
+    }
+  };
+  if (draft.time) setTimeWindow(draft.time);
+
+  // Conditions
+  let orColumn: string | null = null;
+  draft.conditions.forEach(condition => {
+    const resolution = resolveColumn(condition.words, columns);
+    const term = condition.words.join(' ');
+    if (!resolution) {
+      // "year is 2024" without a year column reads as a time window
+      if (['year', 'years'].includes(term) && condition.operator === '=' && /^\d{4}$/.test(String(condition.value))) {
+        setTimeWindow({ kind: 'calendar', year: Number(condition.value) });
+      } else {
+        notes.push(`No column matches "${term}"`);
+      }
+      orColumn = null;
+      return;
+    }
+
+    const column = 'column' in resolution ? resolution.column.name : '';
+    const isEquality = condition.operator === '=' && !Array.isArray(condition.value);
+    if (condition.join === 'or') {
+      // Alternatives on the same column fold into "is one of"; across columns they can't be planned
+      if (column && isEquality && orColumn === column) {
+        addFilter({ column, operator: '=', value: condition.value });
+        return;
+      }
+      notes.push(`"or ${term} ${PLAN_OPERATOR_LABELS[condition.operator]} ${formatValue(condition.value)}" was left out: only values of the same column can be combined with "or"`);
+      return;
+    }
+
+    const index = addFilter({ column, operator: condition.operator, value: condition.value });
+    if (!column) {
+      clarifications.push({ term, slot: 'filter', index, options: (resolution as { options: string[] }).options });
+    }
+    orColumn = isEquality ? column : null;
+  });
+
+  draft.valueTerms.forEach(words => {
+    if (!addValueFilter(words)) notes.push(`"${words.join(' ')}" doesn't match any column or value`);
+  });
+
+  // Measures and groupings
+  const addMeasure = (aggregation: PlanAggregation, words: string[], term: string): PlanMeasure | null => {
+    const counting = aggregation === 'count' || aggregation === 'count_distinct';
+    if (words.length === 0) {
+      if (counting) {
+        const measure: PlanMeasure = { aggregation: 'count', column: '' };
+        plan.measures.push(measure);
+        return measure;
+      }
+      const options = columns.filter(isMeasure).map(column => column.name);
+      plan.measures.push({ aggregation, column: '' });
+      clarifications.push({ term, slot: 'measure', index: plan.measures.length - 1, options });
+      return plan.measures[plan.measures.length - 1];
+    }
+
+    const resolution = resolveColumn(
+      words,
+      counting ? columns.filter(column => column.type !== 'date') : columns,
+      counting ? undefined : isMeasure
+    );
+    if (!resolution) {
+      if (!counting) {
+        notes.push(`No column matches "${words.join(' ')}"`);
+        return null;
+      }
+      // "how many orders": the rows themselves
+      const measure: PlanMeasure = { aggregation: 'count', column: '' };
+      plan.measures.push(measure);
+      return measure;
+    }
+    if ('options' in resolution) {
+      plan.measures.push({ aggregation, column: '' });
+      clarifications.push({ term: words.join(' '), slot: 'measure', index: plan.measures.length - 1, options: resolution.options });
+      return plan.measures[plan.measures.length - 1];
+    }
+    const { column } = resolution;
+    const measure: PlanMeasure = {
+      aggregation: counting && !isMeasure(column) ? 'count_distinct' : aggregation,
+      column: column.name
+    };
+    if (NUMERIC_AGGREGATIONS.includes(aggregation) && !isNumeric(column)) {
+      notes.push(`${column.name} is not numeric, so its ${PLAN_AGGREGATION_LABELS[aggregation].toLowerCase()} may be empty`);
+    }
+    plan.measures.push(measure);
+    return measure;
+  };
+
+  const addGroup = (words: string[]) => {
+    const resolution = resolveColumn(words, columns);
+    // "by month": the date column bucketed by month, unless a column is named exactly that
+    const period = words.length === 1 ? PERIOD_WORDS[words[0]] ?? PERIOD_ADJECTIVES[words[0]] : undefined;
+    const exact = resolution && 'column' in resolution && normalize(resolution.column.name) === normalize(words[0]);
+    if (period && !exact && dateColumn) {
+      plan.groupBy.push(dateColumn.name);
+      plan.groupPeriods = { ...plan.groupPeriods, [dateColumn.name]: period };
+      return;
+    }
+    if (!resolution) {
+      notes.push(`No column matches "${words.join(' ')}"`);
+      return;
+    }
+    plan.groupBy.push('column' in resolution ? resolution.column.name : '');
+    if ('options' in resolution) {
+      clarifications.push({ term: words.join(' '), slot: 'groupBy', index: plan.groupBy.length - 1, options: resolution.options });
+    }
+  };
+
+  // With "top N", a trailing numeric "by" term ranks instead of grouping
+  const groups = [...draft.groups];
+  let rankTerm = draft.rankBy;
+  if (!rankTerm && draft.rank && !draft.order?.term && groups.length > 0) {
+    const last = groups[groups.length - 1];
+    const resolution = resolveColumn(last.words, columns, isMeasure);
+    if (last.aggregation || (resolution && 'column' in resolution && isMeasure(resolution.column))) {
+      rankTerm = groups.pop();
+    }
+  }
+
+  const dimensions: string[][] = [];
+  let listsRows = false;
+  let entity: string | undefined;
+  draft.subjects.forEach(subject => {
+    // "monthly revenue": revenue by month
+    if (subject.words.length > 1 && PERIOD_ADJECTIVES[subject.words[0]]) {
+      groups.push({ words: subject.words.slice(0, 1) });
+      subject = { ...subject, words: subject.words.slice(1) };
+    }
+    if (subject.aggregation) {
+      addMeasure(subject.aggregation, subject.words, PLAN_AGGREGATION_LABELS[subject.aggregation].toLowerCase());
+      return;
+    }
+    if (subject.words.length === 0) return;
+    if (subject.words.every(word => ROW_WORDS.has(word))) {
+      listsRows = true;
+      return;
+    }
+    const resolution = resolveColumn(subject.words, columns);
+    if (resolution && 'column' in resolution && isMeasure(resolution.column)) {
+      addMeasure('sum', subject.words, subject.words.join(' '));
+    } else if (resolution) {
+      dimensions.push(subject.words);
+    } else if (!addValueFilter(subject.words)) {
+      // An entity such as "orders" with no matching column stands for the rows themselves,
+      // which only means something next to other clauses ("orders in 2024")
+      entity = subject.words.join(' ');
+    }
+  });
+
+  // "list orders", "top 5 orders": a key on its own lists the rows it identifies
+  if (!rankTerm && plan.measures.length === 0 && groups.length === 0 && dimensions.length > 0 &&
+    dimensions.every(words => isKey(resolveColumn(words, columns)))) {
+    dimensions.length = 0;
+    listsRows = true;
+  }
+
+  // "top 5 customers by revenue", "region" alone: the subject is the grouping;
+  // "customers by region": how many distinct customers in each region
+  const dimensionsGroup = !!rankTerm || plan.measures.length > 0 || groups.length === 0;
+  if (dimensionsGroup) dimensions.forEach(words => addGroup(words));
+  groups.forEach(group => addGroup(group.words));
+  if (!dimensionsGroup) dimensions.forEach(words => addMeasure('count_distinct', words, words.join(' ')));
+
+  if (rankTerm) {
+    const direction = draft.rank!.direction ?? 'desc';
+    if (plan.groupBy.length > 0 || plan.measures.length > 0) {
+      // Without an aggregation, a numeric term is totalled and anything else counted ("the most orders")
+      const numeric = resolveColumn(rankTerm.words, columns, isMeasure);
+      const aggregation = rankTerm.aggregation ??
+        (numeric && 'column' in numeric && isMeasure(numeric.column) ? 'sum' : 'count');
+      const measure = addMeasure(aggregation, rankTerm.words, rankTerm.words.join(' '));
+      if (measure && (measure.column || measure.aggregation === 'count')) plan.sort = { by: measureLabel(measure), direction };
+    } else {
+      const resolution = resolveColumn(rankTerm.words, columns, isMeasure);
+      if (resolution && 'column' in resolution) plan.sort = { by: resolution.column.name, direction };
+    }
+  } else if (plan.groupBy.length > 0 && plan.measures.length === 0) {
+    addMeasure('count', [], 'count');
+  }
+
+  // Explicit ordering
+  if (draft.order) {
+    const { term, direction } = draft.order;
+    if (term && term.words.length > 0) {
+      const resolution = resolveColumn(term.words, columns);
+      if (resolution && 'options' in resolution) {
+        plan.sort = { by: '', direction: direction ?? 'desc' };
+        clarifications.push({ term: term.words.join(' '), slot: 'sort', index: 0, options: resolution.options });
+      } else if (resolution && 'column' in resolution) {
+        const name = resolution.column.name;
+        const existing = plan.measures.find(measure => measure.column === name &&
+          (!term.aggregation || measure.aggregation === term.aggregation));
+        if (plan.groupBy.includes(name) || plan.measures.length === 0) {
+          plan.sort = { by: name, direction: direction ?? (isNumeric(resolution.column) ? 'desc' : 'asc') };
+        } else {
+          const measure = existing ?? addMeasure(term.aggregation ?? 'sum', term.words, term.words.join(' '));
+          if (measure) plan.sort = { by: measureLabel(measure), direction: direction ?? 'desc' };
+        }
+      } else {
+        notes.push(`No column matches "${term.words.join(' ')}" to sort by`);
+      }
+    } else if (direction) {
+      const first = plan.measures[0];
+      const by = first ? measureLabel(first) : plan.groupBy[0];
+      if (by) plan.sort = { by, direction };
+    }
+  }
+
+  if (draft.rank) {
+    plan.limit = draft.rank.count;
+    if (!plan.sort && draft.rank.direction) {
+      // "top 5" with nothing to rank by: the first measure, else the first measure column
+      const first = plan.measures[0];
+      const numeric = columns.find(isMeasure);
+      const by = first ? measureLabel(first) : numeric?.name;
+      if (by && (first || plan.groupBy.length === 0)) plan.sort = { by, direction: draft.rank.direction };
+    }
+  }
+
+  draft.ignored.forEach(words => {
+    if (!addValueFilter(words)) notes.push(`"${words.join(' ')}" was not understood`);
+  });
+
+  const isEmpty = plan.measures.length === 0 && plan.groupBy.length === 0 && plan.filters.length === 0 &&
+    !plan.timeWindow && !plan.sort && plan.limit === undefined;
+  if (isEmpty && !listsRows && clarifications.length === 0) return null;
+  if (entity && plan.measures.length === 0 && plan.groupBy.length === 0 && !listsRows && plan.filters.length === 0 &&
+    !plan.timeWindow && !plan.sort) {
+    notes.push(`"${entity}" doesn't match any column`);
+  }
+
+  return {
+    plan,
+    clarifications,
+    notes,
+    confidence: Math.max(0.5, 0.95 - notes.length * 0.1)
+  };
+};
+
+/**
+ * Parse a question about a dataset into a query plan. Returns null when nothing in the
+ * question maps onto the data (no measure, grouping, filter, ordering or time window).
+ */
+export const parseQuestion = (question: string, dataset: Dataset): ParsedQuestion | null => {
+  const tokens = tokenize(question.trim().replace(/[?!.]+$/, ''));
+  if (tokens.length === 0) return null;
+  return buildPlan(parseDraft(tokens), dataset);
+};
+
+/**
+ * The aggregation a phrase names on its own ("the average", "maximum values"), if that is all it says
+ */
+export const readAggregation = (phrase: string): PlanAggregation | undefined => {
+  const c: Cursor = { tokens: tokenize(phrase.trim().replace(/[?!.]+$/, '')), pos: 0 };
+  skipWords(c, ['the', 'a', 'an']);
+  const aggregation = acceptFrom(c, AGGREGATION_PHRASES);
+  skipWords(c, ['value', 'values', 'one', 'ones', 'instead']);
+  return c.pos === c.tokens.length ? aggregation : undefined;
+};
+
+/**
+ * Fill the column a clarification asked about
+ */
+export const applyClarification = (plan: QueryPlan, clarification: Clarification, column: string): QueryPlan => {
+  const { slot, index } = clarification;
+  switch (slot) {
+    case 'measure':
+      return { ...plan, measures: plan.measures.map((m, i) => (i === index ? { ...m, column } : m)) };
+    case 'groupBy':
+      return { ...plan, groupBy: plan.groupBy.map((g, i) => (i === index ? column : g)) };
+    case 'filter':
+      return { ...plan, filters: plan.filters.map((f, i) => (i === index ? { ...f, column } : f)) };
+    case 'sort': {
+      // A sort on a data column of a grouped plan means sorting by its total
+      if (!plan.sort) return plan;
+      if (plan.measures.length === 0 || plan.groupBy.includes(column)) return { ...plan, sort: { by: column, direction: plan.sort.direction } };
+      const existing = plan.measures.find(m => m.column === column);
+      const measure = existing ?? { aggregation: 'sum' as PlanAggregation, column };
+      return {
+        ...plan,
+        measures: existing ? plan.measures : [...plan.measures, measure],
+        sort: { by: measureLabel(measure), direction: plan.sort.direction }
+      };
+    }
+  }
+};
+
+// ============================================================
+// Description
+// ============================================================
+
+/** Output column name of a measure, e.g. "Total revenue" */
+export const measureLabel = (measure: PlanMeasure): string =>
+  measure.aggregation === 'count' && !measure.column
+    ? 'Count'
+    : `${MEASURE_PREFIX[measure.aggregation]} ${measure.column || '?'}`;
+
+const formatValue = (value: PlanValue | PlanValue[]): string =>
+  Array.isArray(value) ? value.join(', ') : String(value);
+
+export const describeFilter = (filter: PlanFilter): string => {
+  if (filter.operator === 'between' && Array.isArray(filter.value)) {
+    return `${filter.column} between ${filter.value[0]} and ${filter.value[1]}`;
+  }
+  return `${filter.column} ${PLAN_OPERATOR_LABELS[filter.operator]} ${formatValue(filter.value)}`;
+};
+
+export const describeTimeWindow = (window: TimeWindow): string => {
+  switch (window.kind) {
+    case 'last':
+      return `${window.column} in the last ${window.count > 1 ? `${window.count} ${window.period}s` : window.period}`;
+    case 'this':
+      return `${window.column} in this ${window.period}`;
+    case 'calendar': {
+      const month = window.month ? MONTHS[window.month - 1] : '';
+      const prefix = window.quarter ? `Q${window.quarter} ` : month ? `${month[0].toUpperCase()}${month.slice(1)} ` : '';
+      return `${window.column} in ${prefix}${window.year}`;
+    }
+  }
+};
+
+/**
+ * A grouping as read: "region", or "month of order_date" for a bucketed date
+ */
+export const groupLabel = (plan: QueryPlan, column: string): string => {
+  const period = plan.groupPeriods?.[column];
+  return period ? `${period} of ${column}` : column || '?';
+};
+
+/**
+ * One-line reading of a plan, e.g. "Average revenue by region where year is 2024, top 5"
+ */
+export const describePlan = (plan: QueryPlan): string => {
+  const parts: string[] = [];
+  parts.push(plan.measures.length > 0 ? plan.measures.map(measureLabel).join(', ') : 'Records');
+  if (plan.groupBy.length > 0) parts.push(`by ${plan.groupBy.map(column => groupLabel(plan, column)).join(', ')}`);
+  const conditions = [
+    ...plan.filters.map(describeFilter),
+    ...(plan.timeWindow ? [describeTimeWindow(plan.timeWindow)] : [])
+  ];
+  if (conditions.length > 0) parts.push(`where ${conditions.join(' and ')}`);
+  let description = parts.join(' ');
+  if (plan.sort) description += `, sorted by ${plan.sort.by} (${plan.sort.direction === 'desc' ? 'highest first' : 'lowest first'})`;
+  if (plan.limit !== undefined) description += `, ${plan.sort ? (plan.sort.direction === 'desc' ? 'top' : 'bottom') : 'first'} ${plan.limit}`;
+  return description;
+};
+
+/**
+ * Output columns of a plan, i.e. what it can be sorted by
+ */
+export const getPlanOutputColumns = (plan: QueryPlan, dataset: Dataset): string[] =>
+  plan.measures.length > 0
+    ? [...plan.groupBy, ...plan.measures.map(measureLabel)]
+    : dataset.columns.map(column => column.name);
+
+/**
+ * Read a filter value typed in the plan editor (comma-separated for between and "is one of")
+ */
+export const parseFilterValue = (text: string, operator: PlanOperator): PlanValue | PlanValue[] => {
+  const toValue = (part: string): PlanValue => {
+    const trimmed = part.trim();
+    return trimmed !== '' && !isNaN(Number(trimmed)) ? Number(trimmed) : trimmed;
+  };
+  if (operator === 'between' || operator === 'in') {
+    const parts = text.split(',').map(toValue).filter(value => value !== '');
+    return operator === 'between' ? parts.slice(0, 2) : parts;
+  }
+  return toValue(text);
+};
+
+export const formatFilterValue = formatValue;
+
+const TIME_PERIODS: TimePeriod[] = ['day', 'week', 'month', 'quarter', 'year'];
+
+/**
+ * Check a plan that came from outside the parser (e.g. a language model) and keep only
+ * what executePlan understands. Throws when the shape is wrong; column names are checked
+ * when the plan runs.
+ */
+export const readPlan = (value: unknown): QueryPlan => {
+  const source = value as Partial<Record<keyof QueryPlan, unknown>> | null;
+  if (!source || typeof source !== 'object') throw new Error('Not a query plan');
+  const list = (field: unknown): unknown[] => (Array.isArray(field) ? field : []);
+  const name = (field: unknown, what: string): string => {
+    if (typeof field !== 'string') throw new Error(`The plan has a ${what} without a column`);
+    return field;
+  };
+  const planValue = (field: unknown): PlanValue => {
+    if (typeof field !== 'string' && typeof field !== 'number') throw new Error('The plan has a filter without a value');
+    return field;
+  };
+
+  const measures = list(source.measures).map((item): PlanMeasure => {
+    const measure = item as Partial<PlanMeasure>;
+    if (!PLAN_AGGREGATIONS.includes(measure?.aggregation as PlanAggregation)) {
+      throw new Error(`Unknown aggregation "${String(measure?.aggregation)}"`);
+    }
+    return {
+      aggregation: measure.aggregation as PlanAggregation,
+      column: measure.aggregation === 'count' && !measure.column ? '' : name(measure.column, 'measure')
+    };
+  });
+  const groupBy = list(source.groupBy).map(column => name(column, 'grouping'));
+
+  const filters = list(source.filters).map((item): PlanFilter => {
+    const filter = item as Partial<PlanFilter>;
+    if (!filter || !(filter.operator in PLAN_OPERATOR_LABELS)) throw new Error(`Unknown operator "${String(filter?.operator)}"`);
+    const multiple = filter.operator === 'between' || filter.operator === 'in';
+    return {
+      column: name(filter.column, 'filter'),
+      operator: filter.operator,
+      value: multiple ? list(filter.value).map(planValue) : planValue(filter.value)
+    };
+  });
+
+  const plan: QueryPlan = { measures, groupBy, filters };
+
+  const periods = Object.entries((source.groupPeriods ?? {}) as Record<string, unknown>)
+    .filter(([column, period]) => groupBy.includes(column) && TIME_PERIODS.includes(period as TimePeriod));
+  if (periods.length > 0) plan.groupPeriods = Object.fromEntries(periods) as Record<string, TimePeriod>;
+
+  const window = source.timeWindow as Partial<Record<string, unknown>> | undefined;
+  if (window) {
+    const column = name(window.column, 'time window');
+    const period = TIME_PERIODS.includes(window.period as TimePeriod) ? window.period as TimePeriod : null;
+    const whole = (field: unknown) => (Number.isInteger(field) ? field as number : undefined);
+    if (window.kind === 'last' && period && (whole(window.count) ?? 0) > 0) {
+      plan.timeWindow = { column, kind: 'last', count: whole(window.count)!, period };
+    } else if (window.kind === 'this' && period) {
+      plan.timeWindow = { column, kind: 'this', period };
+    } else if (window.kind === 'calendar' && whole(window.year) !== undefined) {
+      const quarter = whole(window.quarter);
+      const month = whole(window.month);
+      plan.timeWindow = {
+        column,
+        kind: 'calendar',
+        year: whole(window.year)!,
+        ...(quarter >= 1 && quarter <= 4 ? { quarter } : {}),
+        ...(month >= 1 && month <= 12 ? { month } : {})
+      };
+    } else {
+      throw new Error('The plan has a time window it does not describe');
+    }
+  }
+
+  const sort = source.sort as Partial<PlanSort> | undefined;
+  if (sort && typeof sort.by === 'string') {
+    plan.sort = { by: sort.by, direction: sort.direction === 'asc' ? 'asc' : 'desc' };
+  }
+  const limit = Number(source.limit);
+  if (Number.isInteger(limit) && limit > 0) plan.limit = limit;
+  return plan;
+};
+
+// ============================================================
+// Execution
+// ============================================================
+
+const toDate = (value: unknown): Date | null => {
+  if (isMissingValue(value)) return null;
+  const date = value instanceof Date ? value : new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const latestYear = (dataset: Dataset, column: string): number | undefined => {
+  let latest: number | undefined;
+  dataset.data.forEach(row => {
+    const date = toDate(row[column]);
+    if (date && (latest === undefined || date.getFullYear() > latest)) latest = date.getFullYear();
+  });
+  return latest;
+};
+
+const periodStart = (date: Date, period: TimePeriod): Date => {
+  switch (period) {
+    case 'day': return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    case 'week': return new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay());
+    case 'month': return new Date(date.getFullYear(), date.getMonth(), 1);
+    case 'quarter': return new Date(date.getFullYear(), Math.floor(date.getMonth() / 3) * 3, 1);
+    case 'year': return new Date(date.getFullYear(), 0, 1);
+  }
+};
+
+// Sortable labels: 2024-03-05 (day and week start), 2024-03, 2024 Q1, 2024
+const periodLabel = (date: Date, period: TimePeriod): string => {
+  const start = periodStart(date, period);
+  const year = start.getFullYear();
+  const month = String(start.getMonth() + 1).padStart(2, '0');
+  switch (period) {
+    case 'day':
+    case 'week': return `${year}-${month}-${String(start.getDate()).padStart(2, '0')}`;
+    case 'month': return `${year}-${month}`;
+    case 'quarter': return `${year} Q${Math.floor(start.getMonth() / 3) + 1}`;
+    case 'year': return String(year);
+  }
+};
+
+const shiftPeriod = (date: Date, period: TimePeriod, count: number): Date => {
+  switch (period) {
+    case 'day': return new Date(date.getFullYear(), date.getMonth(), date.getDate() + count);
+    case 'week': return new Date(date.getFullYear(), date.getMonth(), date.getDate() + count * 7);
+    case 'month': return new Date(date.getFullYear(), date.getMonth() + count, 1);
+    case 'quarter': return new Date(date.getFullYear(), date.getMonth() + count * 3, 1);
+    case 'year': return new Date(date.getFullYear() + count, 0, 1);
+  }
+};
+
+/**
+ * Date range [start, end) of a time window over the given rows
+ */
+export const resolveTimeWindow = (window: TimeWindow, rows: RowObject[]): { start: Date; end: Date } => {
+  if (window.kind === 'calendar') {
+    if (window.month) {
+      return { start: new Date(window.year, window.month - 1, 1), end: new Date(window.year, window.month, 1) };
+    }
+    if (window.quarter) {
+      return { start: new Date(window.year, (window.quarter - 1) * 3, 1), end: new Date(window.year, window.quarter * 3, 1) };
+    }
+    return { start: new Date(window.year, 0, 1), end: new Date(window.year + 1, 0, 1) };
+  }
+
+  // Anchor at the latest date in the data so historical datasets still answer "last quarter"
+  let anchor = new Date();
+  let latest: Date | null = null;
+  rows.forEach(row => {
+    const date = toDate(row[window.column]);
+    if (date && (!latest || date > latest)) latest = date;
+  });
+  if (latest && latest < anchor) anchor = latest;
+
+  const current = periodStart(anchor, window.period);
+  return window.kind === 'this'
+    ? { start: current, end: shiftPeriod(current, window.period, 1) }
+    : { start: shiftPeriod(current, window.period, -window.count), end: current };
+};
+
+const compareValues = (left: unknown, right: PlanValue, type: ColumnInfo['type']): number | null => {
+  if (type === 'date') {
+    const a = toDate(left);
+    const b = toDate(right);
+    return a && b ? a.getTime() - b.getTime() : null;
+  }
+  const a = Number(left);
+  const b = Number(right);
+  if (typeof right === 'number' || (String(right).trim() !== '' && !isNaN(b))) {
+    return isNaN(a) ? null : a - b;
+  }
+  return String(left).toLowerCase().localeCompare(String(right).toLowerCase());
+};
+
+const matchesFilter = (row: RowObject, filter: PlanFilter, type: ColumnInfo['type']): boolean => {
+  const cell = row[filter.column];
+  if (isMissingValue(cell)) return filter.operator === '!=';
+  const text = String(cell).toLowerCase();
+  const value = filter.value;
+  const equals = (target: PlanValue) => compareValues(cell, target, type) === 0 || text === String(target).toLowerCase();
+
+  switch (filter.operator) {
+    case '=': return !Array.isArray(value) && equals(value);
+    case '!=': return !Array.isArray(value) && !equals(value);
+    case 'in': return (Array.isArray(value) ? value : [value]).some(equals);
+    case 'contains': return text.includes(formatValue(value).toLowerCase());
+    case 'startsWith': return text.startsWith(formatValue(value).toLowerCase());
+    case 'endsWith': return text.endsWith(formatValue(value).toLowerCase());
+    case 'between': {
+      if (!Array.isArray(value) || value.length < 2) return false;
+      const low = compareValues(cell, value[0], type);
+      const high = compareValues(cell, value[1], type);
+      return low !== null && high !== null && low >= 0 && high <= 0;
+    }
+    default: {
+      if (Array.isArray(value)) return false;
+      const order = compareValues(cell, value, type);
+      if (order === null) return false;
+      if (filter.operator === '>') return order > 0;
+      if (filter.operator === '>=') return order >= 0;
+      if (filter.operator === '<') return order < 0;
+      return order <= 0;
+    }
+  }
+};
+
+const sortRows = (rows: RowObject[], sort: PlanSort): RowObject[] => {
+  const sign = sort.direction === 'desc' ? -1 : 1;
+  return [...rows].sort((a, b) => {
+    const x = a[sort.by];
+    const y = b[sort.by];
+    if (isMissingValue(x)) return isMissingValue(y) ? 0 : 1;
+    if (isMissingValue(y)) return -1;
+    const order = typeof x === 'number' && typeof y === 'number'
+      ? x - y
+      : String(x).localeCompare(String(y), undefined, { numeric: true });
+    return order * sign;
+  });
+};
+
+/**
+ * Run a plan: filter and window the rows, then either aggregate the measures per group
+ * or list the matching rows; sort and limit the output last
+ */
+export const executePlan = (plan: QueryPlan, dataset: Dataset): PlanExecution => {
+  const referenced = [
+    ...plan.measures.map(measure => measure.column).filter(Boolean),
+    ...plan.groupBy,
+    ...plan.filters.map(filter => filter.column),
+    ...(plan.timeWindow ? [plan.timeWindow.column] : [])
+  ];
+  if (referenced.some(name => !name) || plan.measures.some(m => !m.column && m.aggregation !== 'count')) {
+    throw new Error('Choose a column for every part of the plan');
+  }
+  const missing = referenced.filter(name => !dataset.columns.some(column => column.name === name));
+  if (missing.length > 0) {
+    throw new Error(`Column ${Array.from(new Set(missing)).join(', ')} not found`);
+  }
+
+  const typeOf = (name: string) => dataset.columns.find(column => column.name === name)!.type;
+  let rows: RowObject[] = dataset.data.filter(row =>
+    plan.filters.every(filter => matchesFilter(row, filter, typeOf(filter.column)))
+  );
+
+  let window: PlanExecution['window'];
+  if (plan.timeWindow) {
+    window = resolveTimeWindow(plan.timeWindow, dataset.data);
+    const { column } = plan.timeWindow;
+    rows = rows.filter(row => {
+      const date = toDate(row[column]);
+      return !!date && date >= window!.start && date < window!.end;
+    });
+  }
+  const matchedRows = rows.length;
+
+  let output: RowObject[];
+  if (plan.measures.length === 0) {
+    output = rows;
+  } else if (rows.length === 0 && plan.groupBy.length === 0) {
+    output = [Object.fromEntries(plan.measures.map(m => [measureLabel(m), m.aggregation === 'count' || m.aggregation === 'count_distinct' ? 0 : null]))];
+  } else {
+    // Bucketed dates group by their period label
+    const periods = Object.entries(plan.groupPeriods ?? {}).filter(([column]) => plan.groupBy.includes(column));
+    const grouped = periods.length === 0 ? rows : rows.map(row => {
+      const bucketed = { ...row };
+      periods.forEach(([column, period]) => {
+        const date = toDate(row[column]);
+        bucketed[column] = date ? periodLabel(date, period) : null;
+      });
+      return bucketed;
+    });
+    output = groupByDataset({ ...dataset, data: grouped, rowCount: grouped.length }, {
+      keys: plan.groupBy,
+      aggregations: plan.measures.map(measure => ({ ...measure, alias: measureLabel(measure) }))
+    }).data;
+    if (periods.length > 0 && !plan.sort) output = sortRows(output, { by: periods[0][0], direction: 'asc' });
+  }
+
+  if (plan.sort) {
+    const available = getPlanOutputColumns(plan, dataset);
+    if (!available.includes(plan.sort.by)) {
+      throw new Error(`Cannot sort by ${plan.sort.by || 'an unchosen column'}: it is not in the result`);
+    }
+    output = sortRows(output, plan.sort);
+  }
+  if (plan.limit !== undefined) output = output.slice(0, Math.max(0, plan.limit));
+
+  return { rows: output, matchedRows, window };
+};
@@ -0,0 +1,317 @@
+// Semantic Types - What a column means, beyond string/number/date/boolean
+// Recognizes currency (with ISO code), percent, email, URL, phone, coordinates, identifiers,
+// categories and free text, and parses locale-formatted numbers such as "GHS 1,200.50" or "1.234,56"
+
+import { ColumnInfo, DataType, SemanticTypeInfo } from './types';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type DecimalSeparator = '.' | ',';
+
+// ============================================================
+// Patterns
+// ============================================================
+
+const SAMPLE_SIZE = 500;
+const MATCH_THRESHOLD = 0.8;
+const MIN_SEQUENCE_LENGTH = 50; // values in a gapless run before it counts as row numbers
+const MIN_KEY_COVERAGE = 0.95; // share of rows a key column has to fill
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i;
+const URL_PATTERN = /^(https?:\/\/|www\.)[^\s]+\.[^\s]{2,}$/i;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Codes like INV-00123, CUST_0042, A1B2-77
+const CODE_PATTERN = /^[a-z]{1,6}[-_/#]?\d{2,}[a-z0-9-]*$/i;
+const PHONE_PATTERN = /^\+?[\d\s\-().]{7,20}$/;
+
+const ISO_CURRENCY_CODES = [
+  'GHS', 'NGN', 'KES', 'ZAR', 'EGP', 'MAD', 'XOF', 'XAF', 'TZS', 'UGX', 'RWF', 'ETB', 'ZMW',
+  'BWP', 'MUR', 'NAD', 'MWK', 'DZD', 'TND', 'SLL', 'GMD', 'LRD',
+  'USD', 'EUR', 'GBP', 'JPY', 'CNY', 'INR', 'CAD', 'AUD', 'CHF', 'BRL'
+];
+
+// Longest symbols first so "GH₵" wins over "₵"
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ['GH₵', 'GHS'], ['GH¢', 'GHS'], ['KSh', 'KES'], ['FCFA', 'XOF'], ['CFA', 'XOF'], ['E£', 'EGP'],
+  ['US$', 'USD'], ['₵', 'GHS'], ['₦', 'NGN'], ['$', 'USD'], ['€', 'EUR'], ['£', 'GBP'],
+  ['¥', 'JPY'], ['₹', 'INR']
+];
+
+const NAME_HINTS = {
+  identifier: /(^|[\s_.#-])(id|no|key|uuid|guid|sku|code|zip|zipcode|postcode|ref)$|^(id|index|row ?id)$|postal|zip ?code|post ?code/i,
+  camelIdentifier: /[a-z](Id|ID)$/, // customerId, orderID
+  phone: /phone|mobile|tel(ephone)?$|msisdn|cell/i,
+  latitude: /^(lat|latitude)$|[\s_.-]lat(itude)?$|^lat[\s_.-]/i,
+  longitude: /^(lon|lng|long|longitude)$|[\s_.-](lon|lng|long|longitude)$|^(lon|lng)[\s_.-]/i,
+  percent: /percent|pct|%|share|margin|ratio/i,
+  measure: /amount|price|cost|revenue|sales|profit|total|salary|income|balance|value|fee|spend|quantity|qty/i
+};
+
+// ============================================================
+// Number parsing
+// ============================================================
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Currency marker in a value: an ISO code or symbol before or after the amount
+ */
+export const detectCurrencyCode = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  const code = text.match(/^([A-Z]{3})\s?[-+(]?\d|\d\)?\s?([A-Z]{3})$/);
+  const iso = code ? (code[1] || code[2]) : null;
+  if (iso && ISO_CURRENCY_CODES.includes(iso)) return iso;
+  const symbol = CURRENCY_SYMBOLS.find(([sign]) => text.startsWith(sign) || text.endsWith(sign) ||
+    text.startsWith(`-${sign}`) || text.startsWith(`(${sign}`));
+  return symbol ? symbol[1] : null;
+};
+
+const stripCurrency = (text: string): string => {
+  let result = text.replace(new RegExp(`^(${ISO_CURRENCY_CODES.join('|')})\\s*|\\s*(${ISO_CURRENCY_CODES.join('|')})$`), '');
+  for (const [sign] of CURRENCY_SYMBOLS) {
+    result = result.replace(new RegExp(`^(-?\\(?)${escapeRegExp(sign)}\\s*|\\s*${escapeRegExp(sign)}$`), '$1');
+  }
+  return result.trim();
+};
+
+const numberPatterns: Record<DecimalSeparator, RegExp> = {
+  '.': /^\d{1,3}([,\s'’]\d{3})+(\.\d+)?$|^\d+(\.\d+)?$|^\.\d+$/,
+  ',': /^\d{1,3}([.\s'’]\d{3})+(,\d+)?$|^\d+(,\d+)?$|^,\d+$/
+};
+
+/**
+ * Parse a number written with thousands separators, a currency marker, a percent sign
+ * or accounting-style parentheses. Returns null when the text isn't a number.
+ */
+export const parseLocaleNumber = (value: unknown, decimalSeparator: DecimalSeparator = '.'): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  let text = stripCurrency(value.trim()).replace(/\s*%$/, '');
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1).trim();
+  }
+  if (/^[-+]/.test(text)) {
+    negative = negative !== text.startsWith('-');
+    text = text.slice(1).trim();
+  }
+  text = stripCurrency(text);
+  if (!numberPatterns[decimalSeparator].test(text)) return null;
+
+  const normalized = decimalSeparator === ','
+    ? text.replace(/[.\s'’]/g, '').replace(',', '.')
+    : text.replace(/[,\s'’]/g, '');
+  const parsed = Number(normalized);
+  if (!Number.isFinite(parsed)) return null;
+  return negative ? -parsed : parsed;
+};
+
+/**
+ * Decide whether a column writes decimals with a point or a comma, from the values
+ * whose form gives it away ("1.234,56", "12,5" vs "1,234.56", "12.5")
+ */
+export const detectDecimalSeparator = (values: unknown[]): DecimalSeparator => {
+  let point = 0;
+  let comma = 0;
+  for (const value of values) {
+    if (typeof value !== 'string') continue;
+    const text = stripCurrency(value.trim()).replace(/\s*%$/, '').replace(/^[-+(]+|\)$/g, '');
+    if (/^\d{1,3}(\.\d{3})+,\d+$/.test(text) || /^\d+,\d{1,2}$/.test(text) || /^\d{1,3}(\.\d{3}){2,}$/.test(text)) comma++;
+    else if (/^\d{1,3}(,\d{3})+\.\d+$/.test(text) || /^\d+\.\d{1,2}$/.test(text) || /^\d{1,3}(,\d{3}){2,}$/.test(text)) point++;
+  }
+  return comma > point ? ',' : '.';
+};
+
+// ============================================================
+// Detection
+// ============================================================
+
+const sampleValues = (values: unknown[]): unknown[] => {
+  const present = values.filter(v => v !== null && v !== undefined && v !== '');
+  if (present.length <= SAMPLE_SIZE) return present;
+  const step = present.length / SAMPLE_SIZE;
+  return Array.from({ length: SAMPLE_SIZE }, (_, i) => present[Math.floor(i * step)]);
+};
+
+const shareOf = (values: unknown[], test: (value: unknown) => boolean): number =>
+  values.length === 0 ? 0 : values.filter(test).length / values.length;
+
+const countDigits = (text: string) => (text.match(/\d/g) || []).length;
+
+const isPhoneNumber = (value: unknown): boolean => {
+  const text = String(value).trim();
+  const digits = countDigits(text);
+  return PHONE_PATTERN.test(text) && digits >= 7 && digits <= 15;
+};
+
+const isIdentifierName = (name: string): boolean =>
+  NAME_HINTS.identifier.test(name) || NAME_HINTS.camelIdentifier.test(name);
+
+/**
+ * Row numbers and surrogate keys: (nearly) every row holds its own whole number and together
+ * they run without gaps (1..N, 1001..1000+N). Checked on the whole column, as a sample of a long
+ * run has gaps; shorter runs are as likely to be years or ages as row numbers.
+ */
+const isSequentialIntegers = (values: unknown[]): boolean => {
+  const present = values.filter(v => v !== null && v !== undefined && v !== '');
+  if (present.length < MIN_SEQUENCE_LENGTH || present.length < values.length * MIN_KEY_COVERAGE) return false;
+  const seen = new Set<number>();
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of present) {
+    const number = Number(value);
+    if (!Number.isInteger(number) || seen.has(number)) return false;
+    seen.add(number);
+    min = Math.min(min, number);
+    max = Math.max(max, number);
+  }
+  return max - min + 1 === seen.size;
+};
+
+const result = (type: SemanticTypeInfo['type'], confidence: number, currencyCode?: string): SemanticTypeInfo => ({
+  type,
+  confidence: Math.round(confidence * 100) / 100,
+  ...(currencyCode ? { currencyCode } : {})
+});
+
+/**
+ * Work out what a column holds from its name and values. Returns undefined for plain
+ * measures and anything else without a more specific meaning.
+ */
+export const detectSemanticType = (
+  columnName: string,
+  values: unknown[],
+  dataType: DataType
+): SemanticTypeInfo | undefined => {
+  const sample = sampleValues(values);
+  if (sample.length === 0 || dataType === 'date' || dataType === 'boolean') return undefined;
+  const name = columnName.trim();
+  const texts = sample.map(v => String(v).trim());
+  const uniqueRatio = new Set(texts).size / texts.length;
+
+  // Text formats
+  const emailShare = shareOf(texts, t => EMAIL_PATTERN.test(t as string));
+  if (emailShare >= MATCH_THRESHOLD) return result('email', emailShare);
+  const urlShare = shareOf(texts, t => URL_PATTERN.test(t as string));
+  if (urlShare >= MATCH_THRESHOLD) return result('url', urlShare);
+
+  // Amounts carrying a currency marker, or a numeric column named after a currency ("Amount (GHS)")
+  const codes = sample.map(detectCurrencyCode);
+  const currencyShare = shareOf(codes, code => code !== null);
+  if (currencyShare >= MATCH_THRESHOLD) {
+    const counts = new Map<string, number>();
+    codes.forEach(code => {
+      if (code) counts.set(code, (counts.get(code) || 0) + 1);
+    });
+    const [topCode] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+    return result('currency', currencyShare, topCode);
+  }
+  const nameCode = name.match(/(?:^|[\s_([-])([A-Za-z]{3})[)\]]?$/)?.[1]?.toUpperCase();
+  if (dataType === 'number' && nameCode && ISO_CURRENCY_CODES.includes(nameCode)) {
+    return result('currency', 1, nameCode);
+  }
+
+  const percentShare = shareOf(texts, t => /^[-+(]?\d[\d.,\s]*\)?\s*%$/.test(t as string));
+  if (percentShare >= MATCH_THRESHOLD) return result('percent', percentShare);
+
+  if (NAME_HINTS.phone.test(name)) {
+    const phoneShare = shareOf(texts, isPhoneNumber);
+    if (phoneShare >= MATCH_THRESHOLD) return result('phone', phoneShare);
+  }
+  const internationalShare = shareOf(texts, t => (t as string).startsWith('+') && isPhoneNumber(t));
+  if (internationalShare >= MATCH_THRESHOLD) return result('phone', internationalShare);
+
+  if (dataType === 'number') {
+    const numbers = sample.map(Number).filter(v => !isNaN(v));
+    const inRange = (limit: number) => numbers.length > 0 && numbers.every(v => Math.abs(v) <= limit);
+    if (NAME_HINTS.latitude.test(name) && inRange(90)) return result('latitude', 1);
+    if (NAME_HINTS.longitude.test(name) && inRange(180)) return result('longitude', 1);
+    if (NAME_HINTS.percent.test(name) && !NAME_HINTS.measure.test(name) && numbers.every(v => v >= 0 && v <= 100)) {
+      return result('percent', 0.6);
+    }
+    // Keys, postal codes and row numbers are numbers nobody should add up
+    if (isIdentifierName(name) && numbers.every(Number.isInteger)) return result('identifier', 0.9);
+    // Revenue of 100..149 or quantities of 1..50 can also run without gaps
+    if (!NAME_HINTS.measure.test(name) && isSequentialIntegers(values)) return result('identifier', 0.8);
+    return undefined;
+  }
+
+  // Identifier-like text
+  const uuidShare = shareOf(texts, t => UUID_PATTERN.test(t as string));
+  if (uuidShare >= MATCH_THRESHOLD) return result('identifier', uuidShare);
+  const tokenShare = shareOf(texts, t => !/\s/.test(t as string) && (t as string).length <= 40);
+  if (isIdentifierName(name) && tokenShare >= MATCH_THRESHOLD) return result('identifier', tokenShare);
+  const codeShare = shareOf(texts, t => CODE_PATTERN.test(t as string));
+  if (codeShare >= MATCH_THRESHOLD && uniqueRatio >= 0.9) return result('identifier', codeShare);
+
+  // Repeating labels vs prose
+  const averageLength = texts.reduce((sum, t) => sum + t.length, 0) / texts.length;
+  const averageWords = texts.reduce((sum, t) => sum + t.split(/\s+/).length, 0) / texts.length;
+  if ((averageLength >= 40 || averageWords >= 6) && uniqueRatio >= 0.5) {
+    return result('free_text', Math.min(1, uniqueRatio));
+  }
+  const uniqueCount = new Set(texts).size;
+  if (uniqueCount <= 50 && uniqueRatio <= 0.5) return result('category', 1 - uniqueRatio);
+  return undefined;
+};
+
+/**
+ * Text values that are numbers once their locale formatting is understood
+ * ("1.234,56", "1 200", "GHS 45.00", "12%"), with the decimal separator they use
+ */
+export const detectNumericText = (values: unknown[]): { decimalSeparator: DecimalSeparator } | null => {
+  const sample = sampleValues(values);
+  if (sample.length === 0) return null;
+  const decimalSeparator = detectDecimalSeparator(sample);
+  const share = shareOf(sample, v => parseLocaleNumber(v, decimalSeparator) !== null);
+  return share >= 0.9 ? { decimalSeparator } : null;
+};
+
+// ============================================================
+// Column roles
+// ============================================================
+
+const NON_MEASURE_TYPES = new Set(['identifier', 'phone', 'latitude', 'longitude']);
+const NON_CATEGORY_TYPES = new Set(['identifier', 'phone', 'email', 'url', 'free_text']);
+
+/**
+ * Keys, phone numbers, postal codes and row numbers: never summed, averaged or used as features
+ */
+export const isIdentifierColumn = (column: Pick<ColumnInfo, 'semantic'>): boolean =>
+  column.semantic?.type === 'identifier' || column.semantic?.type === 'phone';
+
+/**
+ * A numeric column whose values are quantities worth aggregating
+ */
+export const isMeasureColumn = (column: Pick<ColumnInfo, 'type' | 'semantic'>): boolean =>
+  column.type === 'number' && !NON_MEASURE_TYPES.has(column.semantic?.type ?? '');
+
+/**
+ * A text column whose values are labels worth grouping by
+ */
+export const isCategoryColumn = (column: Pick<ColumnInfo, 'type' | 'semantic'>): boolean =>
+  column.type === 'string' && !NON_CATEGORY_TYPES.has(column.semantic?.type ?? '');
+
+/**
+ * Whether a column can carry signal for a model: keys, contact details and prose can't
+ */
+export const isFeatureColumn = (column: Pick<ColumnInfo, 'semantic'>): boolean =>
+  !NON_CATEGORY_TYPES.has(column.semantic?.type ?? '');
+
+export const SEMANTIC_TYPE_LABELS: Record<SemanticTypeInfo['type'], string> = {
+  currency: 'Currency',
+  percent: 'Percent',
+  email: 'Email',
+  url: 'URL',
+  phone: 'Phone',
+  latitude: 'Latitude',
+  longitude: 'Longitude',
+  identifier: 'Identifier',
+  category: 'Category',
+  free_text: 'Free text'
+};
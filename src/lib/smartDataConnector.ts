@@ -3,6 +3,7 @@
 
 import { Dataset, ColumnInfo, Relationship, TableClassification, SchemaDetectionResult, SchemaType, DateTableInfo, IntegrityReport } from './types';
 import { detectDateColumns } from './timeSeriesEngine';
+import { isMissingValue } from './columnarStore';
 
 export interface AutoDetectedRelationship extends Omit<Relationship, 'id'> {
   matchScore: number;
@@ -34,6 +35,62 @@ export interface DataStreamConnection {
   config?: Record<string, any>;
 }
 
+/** One join column, or the ordered columns of a composite key */
+export type JoinKey = string | string[];
+
+const MAX_COMPOSITE_KEY_COLUMNS = 3;
+const MAX_COMPOSITE_KEY_CANDIDATES = 6;
+const KEY_SEPARATOR = '\u001f';
+
+const toKeyColumns = (key: JoinKey): string[] => (Array.isArray(key) ? key : [key]);
+
+/**
+ * Key columns on each side of a relationship, falling back to the single-column pair
+ */
+export const getRelationshipColumns = (
+  rel: Pick<Relationship, 'fromColumn' | 'toColumn' | 'fromColumns' | 'toColumns'>
+): { fromColumns: string[]; toColumns: string[] } => ({
+  fromColumns: rel.fromColumns?.length ? rel.fromColumns : [rel.fromColumn],
+  toColumns: rel.toColumns?.length ? rel.toColumns : [rel.toColumn]
+});
+
+/**
+ * Display label for a join key, e.g. "product_id + region"
+ */
+export const formatJoinKey = (key: JoinKey): string => toKeyColumns(key).join(' + ');
+
+/**
+ * Normalized key value of a row. Composite keys with any blank part return ''
+ * so partially filled keys are treated like missing values.
+ */
+export const buildKeyValue = (row: Record<string, unknown>, key: JoinKey): string => {
+  const parts: string[] = [];
+  for (const column of toKeyColumns(key)) {
+    const value = row[column];
+    // 0 and false are key values; only missing or blank parts make the key blank
+    const part = isMissingValue(value) ? '' : String(value).toLowerCase().trim();
+    if (part === '') return '';
+    parts.push(part);
+  }
+  return parts.join(KEY_SEPARATOR);
+};
+
+/**
+ * Whether two relationships link the same key columns, in either direction
+ */
+export const isSameRelationship = (
+  a: Pick<Relationship, 'fromDataset' | 'toDataset' | 'fromColumn' | 'toColumn' | 'fromColumns' | 'toColumns'>,
+  b: Pick<Relationship, 'fromDataset' | 'toDataset' | 'fromColumn' | 'toColumn' | 'fromColumns' | 'toColumns'>
+): boolean => {
+  const keysA = getRelationshipColumns(a);
+  const keysB = getRelationshipColumns(b);
+  const same = (x: string[], y: string[]) => x.length === y.length && x.every((c, i) => c === y[i]);
+  return (a.fromDataset === b.fromDataset && a.toDataset === b.toDataset &&
+      same(keysA.fromColumns, keysB.fromColumns) && same(keysA.toColumns, keysB.toColumns)) ||
+    (a.fromDataset === b.toDataset && a.toDataset === b.fromDataset &&
+      same(keysA.fromColumns, keysB.toColumns) && same(keysA.toColumns, keysB.fromColumns));
+};
+
 /**
  * Calculate similarity score between two column names
  */
@@ -71,7 +128,7 @@ const calculateNameSimilarity = (name1: string, name2: string): number => {
 /**
  * Levenshtein distance calculation
  */
-const levenshteinDistance = (str1: string, str2: string): number => {
+export const levenshteinDistance = (str1: string, str2: string): number => {
   const m = str1.length;
   const n = str2.length;
   const dp: number[][] = Array.from({ length: m + 1 }, () => Array(n + 1).fill(0));
@@ -97,12 +154,12 @@ const levenshteinDistance = (str1: string, str2: string): number => {
  */
 const calculateValueOverlap = (
   dataset1: Dataset,
-  col1: string,
+  col1: JoinKey,
   dataset2: Dataset,
-  col2: string
+  col2: JoinKey
 ): { matchCount: number; totalUnique: number; overlapRatio: number } => {
-  const values1 = new Set(dataset1.data.map(r => String(r[col1] || '').toLowerCase().trim()));
-  const values2 = new Set(dataset2.data.map(r => String(r[col2] || '').toLowerCase().trim()));
+  const values1 = new Set(dataset1.data.map(r => buildKeyValue(r, col1)));
+  const values2 = new Set(dataset2.data.map(r => buildKeyValue(r, col2)));
   
   // Remove empty values
   values1.delete('');
@@ -119,6 +176,106 @@ const calculateValueOverlap = (
   return { matchCount, totalUnique, overlapRatio };
 };
 
+/**
+ * Whether a key identifies at most one row (blank keys are ignored)
+ */
+export const isUniqueKey = (dataset: Dataset, key: JoinKey): boolean => {
+  const seen = new Set<string>();
+  for (const row of dataset.data) {
+    const value = buildKeyValue(row, key);
+    if (value === '') continue;
+    if (seen.has(value)) return false;
+    seen.add(value);
+  }
+  return seen.size > 0;
+};
+
+/**
+ * Combinations of `size` items, preserving input order
+ */
+const combinations = <T>(items: T[], size: number): T[][] => {
+  if (size === 0) return [[]];
+  const result: T[][] = [];
+  items.forEach((item, index) => {
+    combinations(items.slice(index + 1), size - 1).forEach(rest => result.push([item, ...rest]));
+  });
+  return result;
+};
+
+interface KeyCandidate {
+  col1: string;
+  col2: string;
+  nameSimilarity: number;
+  overlapRatio: number;
+}
+
+/**
+ * Detect composite keys between two datasets: combinations of matching columns that
+ * together identify rows on one side although none of them does on its own
+ * (e.g. a price list keyed by product, region and month).
+ */
+const detectCompositeRelationships = (
+  ds1: Dataset,
+  ds2: Dataset,
+  candidates: KeyCandidate[]
+): AutoDetectedRelationship[] => {
+  // Strongest column pairs first, each column used at most once per side
+  const pairs: KeyCandidate[] = [];
+  [...candidates]
+    .filter(c => c.nameSimilarity >= 0.5 && c.overlapRatio >= 0.5)
+    .sort((a, b) => (b.nameSimilarity + b.overlapRatio) - (a.nameSimilarity + a.overlapRatio))
+    .forEach(c => {
+      if (pairs.length < MAX_COMPOSITE_KEY_CANDIDATES &&
+          !pairs.some(p => p.col1 === c.col1 || p.col2 === c.col2)) {
+        pairs.push(c);
+      }
+    });
+  if (pairs.length < 2) return [];
+
+  const unique1 = new Map(pairs.map(p => [p.col1, isUniqueKey(ds1, p.col1)]));
+  const unique2 = new Map(pairs.map(p => [p.col2, isUniqueKey(ds2, p.col2)]));
+  const found: KeyCandidate[][] = [];
+  const relationships: AutoDetectedRelationship[] = [];
+
+  for (let size = 2; size <= Math.min(MAX_COMPOSITE_KEY_COLUMNS, pairs.length); size++) {
+    for (const combo of combinations(pairs, size)) {
+      // Keep keys minimal: skip supersets of a composite key already found
+      if (found.some(key => key.every(p => combo.includes(p)))) continue;
+
+      const keys1 = combo.map(p => p.col1);
+      const keys2 = combo.map(p => p.col2);
+      const isUnique1 = !combo.some(p => unique1.get(p.col1)) && isUniqueKey(ds1, keys1);
+      const isUnique2 = !combo.some(p => unique2.get(p.col2)) && isUniqueKey(ds2, keys2);
+      if (!isUnique1 && !isUnique2) continue;
+
+      const { matchCount, totalUnique, overlapRatio } = calculateValueOverlap(ds1, keys1, ds2, keys2);
+      if (matchCount === 0 || overlapRatio < 0.5) continue;
+
+      const nameSimilarity = combo.reduce((sum, p) => sum + p.nameSimilarity, 0) / combo.length;
+      const matchScore = nameSimilarity * 0.4 + overlapRatio * 0.6;
+      found.push(combo);
+      relationships.push({
+        fromDataset: ds1.id,
+        toDataset: ds2.id,
+        fromColumn: keys1[0],
+        toColumn: keys2[0],
+        fromColumns: keys1,
+        toColumns: keys2,
+        type: isUnique1 && isUnique2 ? 'one-to-one' : 'one-to-many',
+        confidence: matchScore,
+        matchScore,
+        matchingValues: matchCount,
+        totalValues: totalUnique,
+        suggestion: `Composite key join: (${formatJoinKey(keys1)}) ↔ (${formatJoinKey(keys2)}) (${(overlapRatio * 100).toFixed(0)}% value match)`,
+        autoJoinRecommended: matchScore > 0.6 && overlapRatio > 0.5,
+        schemaType: undefined
+      });
+    }
+  }
+
+  return relationships;
+};
+
 /**
  * Auto-detect relationships between datasets
  */
@@ -132,6 +289,8 @@ export const autoDetectRelationships = (datasets: Dataset[]): AutoDetectedRelati
     for (let j = i + 1; j < datasets.length; j++) {
       const ds1 = datasets[i];
       const ds2 = datasets[j];
+      const pairRelationships: AutoDetectedRelationship[] = [];
+      const keyCandidates: KeyCandidate[] = [];
       
       // Compare each column pair
       for (const col1 of ds1.columns) {
@@ -150,6 +309,8 @@ export const autoDetectRelationships = (datasets: Dataset[]): AutoDetectedRelati
           const matchScore = nameSimilarity * 0.4 + overlapRatio * 0.6;
           
           if (matchScore > 0.3 && matchCount > 0) {
+            keyCandidates.push({ col1: col1.name, col2: col2.name, nameSimilarity, overlapRatio });
+
             // Determine relationship type
             const uniqueIn1 = col1.uniqueCount;
             const uniqueIn2 = col2.uniqueCount;
@@ -173,7 +334,7 @@ export const autoDetectRelationships = (datasets: Dataset[]): AutoDetectedRelati
               suggestion = `Possible relationship detected. Review values before joining.`;
             }
             
-            relationships.push({
+            pairRelationships.push({
               fromDataset: ds1.id,
               toDataset: ds2.id,
               fromColumn: col1.name,
@@ -190,20 +351,26 @@ export const autoDetectRelationships = (datasets: Dataset[]): AutoDetectedRelati
           }
         }
       }
+
+      // A composite key replaces the many-to-many links of its own columns,
+      // which would otherwise multiply rows when joined
+      const compositeRelationships = detectCompositeRelationships(ds1, ds2, keyCandidates);
+      const compositePairs = new Set(compositeRelationships.flatMap(rel =>
+        rel.fromColumns!.map((col, k) => `${col}${KEY_SEPARATOR}${rel.toColumns![k]}`)
+      ));
+      relationships.push(
+        ...compositeRelationships,
+        ...pairRelationships.filter(rel =>
+          rel.type !== 'many-to-many' || !compositePairs.has(`${rel.fromColumn}${KEY_SEPARATOR}${rel.toColumn}`)
+        )
+      );
     }
   }
   
   // Sort by match score and deduplicate
   return relationships
     .sort((a, b) => b.matchScore - a.matchScore)
-    .filter((rel, index, self) => 
-      index === self.findIndex(r => 
-        (r.fromDataset === rel.fromDataset && r.toDataset === rel.toDataset && 
-         r.fromColumn === rel.fromColumn && r.toColumn === rel.toColumn) ||
-        (r.fromDataset === rel.toDataset && r.toDataset === rel.fromDataset && 
-         r.fromColumn === rel.toColumn && r.toColumn === rel.fromColumn)
-      )
-    );
+    .filter((rel, index, self) => index === self.findIndex(r => isSameRelationship(r, rel)));
 };
 
 /**
@@ -232,14 +399,21 @@ export const suggestJoinKey = (
 export const mergeDatasets = (
   dataset1: Dataset,
   dataset2: Dataset,
-  joinColumn1: string,
-  joinColumn2: string,
+  joinColumn1: JoinKey,
+  joinColumn2: JoinKey,
   joinType: 'inner' | 'left' | 'right' | 'full' = 'left'
 ): { data: any[]; columns: ColumnInfo[] } => {
-  // Create lookup map for dataset2
+  const keys1 = toKeyColumns(joinColumn1);
+  const keys2 = toKeyColumns(joinColumn2);
+  if (keys1.length === 0 || keys1.length !== keys2.length) {
+    throw new Error('Join keys must have the same number of columns on both sides');
+  }
+
+  // Create lookup map for dataset2. Blank keys match nothing, not each other
   const lookup = new Map<string, any[]>();
   dataset2.data.forEach(row => {
-    const key = String(row[joinColumn2] || '').toLowerCase().trim();
+    const key = buildKeyValue(row, keys2);
+    if (key === '') return;
     if (!lookup.has(key)) {
       lookup.set(key, []);
     }
@@ -253,7 +427,7 @@ export const mergeDatasets = (
   // Rename conflicting columns
   const ds2Columns = dataset2.columns.map(col => ({
     ...col,
-    name: dataset1.columns.some(c => c.name === col.name) && col.name !== joinColumn2
+    name: dataset1.columns.some(c => c.name === col.name) && !keys2.includes(col.name)
       ? `${ds2Prefix}${col.name}`
       : col.name
   }));
@@ -263,9 +437,10 @@ export const mergeDatasets = (
   
   // Process dataset1
   dataset1.data.forEach(row1 => {
-    const key = String(row1[joinColumn1] || '').toLowerCase().trim();
+    const key = buildKeyValue(row1, keys1);
     const matchingRows = lookup.get(key) || [];
-    matchedKeys.add(key);
+    // A blank key matched nothing, so dataset2's blank-key rows stay unmatched
+    if (key !== '') matchedKeys.add(key);
     
     if (matchingRows.length > 0) {
       matchingRows.forEach(row2 => {
@@ -281,7 +456,7 @@ export const mergeDatasets = (
     } else if (joinType === 'left' || joinType === 'full') {
       const mergedRow: any = { ...row1 };
       ds2Columns.forEach(col => {
-        if (col.name !== joinColumn2) {
+        if (!keys2.includes(col.name)) {
           mergedRow[col.name] = null;
         }
       });
@@ -292,11 +467,12 @@ export const mergeDatasets = (
   // For right and full joins, add unmatched rows from dataset2
   if (joinType === 'right' || joinType === 'full') {
     dataset2.data.forEach(row2 => {
-      const key = String(row2[joinColumn2] || '').toLowerCase().trim();
+      const key = buildKeyValue(row2, keys2);
       if (!matchedKeys.has(key)) {
         const mergedRow: any = {};
         dataset1.columns.forEach(col => {
-          mergedRow[col.name] = col.name === joinColumn1 ? row2[joinColumn2] : null;
+          const keyIndex = keys1.indexOf(col.name);
+          mergedRow[col.name] = keyIndex >= 0 ? row2[keys2[keyIndex]] : null;
         });
         ds2Columns.forEach(col => {
           const originalName = col.name.startsWith(ds2Prefix) 
@@ -312,7 +488,10 @@ export const mergeDatasets = (
   // Combine columns
   const allColumns = [
     ...dataset1.columns,
-    ...ds2Columns.filter(c => c.name !== joinColumn2 || joinColumn1 !== joinColumn2)
+    ...ds2Columns.filter(c => {
+      const keyIndex = keys2.indexOf(c.name);
+      return keyIndex < 0 || keys1[keyIndex] !== c.name;
+    })
   ];
   
   return { data: mergedData, columns: allColumns };
@@ -351,6 +530,7 @@ export const createCompositeView = (
   
   // Iteratively join datasets based on relationships
   for (const rel of relationships) {
+    const { fromColumns, toColumns } = getRelationshipColumns(rel);
     const fromInCurrent = usedDatasets.has(rel.fromDataset);
     const toInCurrent = usedDatasets.has(rel.toDataset);
     
@@ -360,8 +540,8 @@ export const createCompositeView = (
         const result = mergeDatasets(
           { ...datasets[0], data: currentData, columns: currentColumns } as Dataset,
           toDataset,
-          rel.fromColumn,
-          rel.toColumn,
+          fromColumns,
+          toColumns,
           joinType
         );
         currentData = result.data;
@@ -374,8 +554,8 @@ export const createCompositeView = (
         const result = mergeDatasets(
           fromDataset,
           { ...datasets[0], data: currentData, columns: currentColumns } as Dataset,
-          rel.fromColumn,
-          rel.toColumn,
+          fromColumns,
+          toColumns,
           joinType
         );
         currentData = result.data;
@@ -496,8 +676,8 @@ export const generateJoinSuggestions = (datasets: Dataset[]): {
 export const validateRelationship = (
   dataset1: Dataset,
   dataset2: Dataset,
-  column1: string,
-  column2: string
+  column1: JoinKey,
+  column2: JoinKey
 ): {
   isValid: boolean;
   matchRate: number;
@@ -509,8 +689,8 @@ export const validateRelationship = (
   const warnings: string[] = [];
   const recommendations: string[] = [];
   
-  const values1 = dataset1.data.map(r => String(r[column1] || '').toLowerCase().trim());
-  const values2 = dataset2.data.map(r => String(r[column2] || '').toLowerCase().trim());
+  const values1 = dataset1.data.map(r => buildKeyValue(r, column1));
+  const values2 = dataset2.data.map(r => buildKeyValue(r, column2));
   
   const set1 = new Set(values1.filter(v => v !== ''));
   const set2 = new Set(values2.filter(v => v !== ''));
@@ -542,7 +722,7 @@ export const validateRelationship = (
   }
   
   if (orphans1 > set1.size * 0.3) {
-    warnings.push(`${orphans1} values in ${column1} have no match in ${column2}.`);
+    warnings.push(`${orphans1} values in ${formatJoinKey(column1)} have no match in ${formatJoinKey(column2)}.`);
   }
   
   if (duplicates1 > 0 || duplicates2 > 0) {
@@ -1045,13 +1225,13 @@ export const calculateSemanticSimilarity = (
  */
 export const detectCardinality = (
   dataset1: Dataset,
-  col1: string,
+  col1: JoinKey,
   dataset2: Dataset,
-  col2: string
+  col2: JoinKey
 ): Relationship['type'] => {
   // Get actual values
-  const values1 = dataset1.data.map(r => String(r[col1] || '').toLowerCase().trim()).filter(v => v !== '');
-  const values2 = dataset2.data.map(r => String(r[col2] || '').toLowerCase().trim()).filter(v => v !== '');
+  const values1 = dataset1.data.map(r => buildKeyValue(r, col1)).filter(v => v !== '');
+  const values2 = dataset2.data.map(r => buildKeyValue(r, col2)).filter(v => v !== '');
 
   const unique1 = new Set(values1);
   const unique2 = new Set(values2);
@@ -1133,22 +1313,26 @@ export const hasCircularDependency = (
 };
 
 /**
- * Validate referential integrity between two datasets via a relationship
+ * Validate referential integrity between two datasets via a relationship.
+ * Composite keys match on every column; child rows with a partial key count as blank.
  */
 export const validateReferentialIntegrity = (
   parentDataset: Dataset,
   childDataset: Dataset,
-  parentColumn: string,
-  childColumn: string
+  parentColumn: JoinKey,
+  childColumn: JoinKey
 ): IntegrityReport => {
-  const parentValues = new Set(
-    parentDataset.data
-      .map(r => String(r[parentColumn] || '').toLowerCase().trim())
-      .filter(v => v !== '')
-  );
+  if (toKeyColumns(parentColumn).length !== toKeyColumns(childColumn).length) {
+    throw new Error('Parent and child keys must have the same number of columns');
+  }
+
+  const parentKeys = parentDataset.data
+    .map(r => buildKeyValue(r, parentColumn))
+    .filter(v => v !== '');
+  const parentValues = new Set(parentKeys);
 
   const childValues = childDataset.data
-    .map(r => String(r[childColumn] || '').toLowerCase().trim())
+    .map(r => buildKeyValue(r, childColumn))
     .filter(v => v !== '');
 
   const childValueSet = new Set(childValues);
@@ -1178,6 +1362,10 @@ export const validateReferentialIntegrity = (
   if (unusedParentPercentage > 50) {
     issues.push(`${unusedParentCount} parent records (${unusedParentPercentage.toFixed(1)}%) are never referenced.`);
   }
+  const duplicateParentCount = parentKeys.length - parentValues.size;
+  if (duplicateParentCount > 0) {
+    issues.push(`${duplicateParentCount} parent records repeat a ${formatJoinKey(parentColumn)} key, so matching child rows will be duplicated.`);
+  }
 
   // Score: 100 = perfect integrity, 0 = no matches
   const integrityScore = Math.round(Math.max(0, Math.min(100,
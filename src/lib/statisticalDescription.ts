@@ -1,5 +1,6 @@
 // Statistical Description Utilities (similar to pandas .describe())
 import { Dataset, ColumnInfo } from './types';
+import { NumberColumn, getNumberColumn, getNumericValues, getValueFrequencies } from './columnarStore';
 
 export interface ColumnStatistics {
   columnName: string;
@@ -49,20 +50,13 @@ const calculateStdDev = (values: number[], mean: number): number => {
 };
 
 /**
- * Get most frequent value and its frequency
+ * Get most frequent value and its frequency from value counts (first-seen order wins ties)
  */
-const getMostFrequent = (values: any[]): { value: any; frequency: number } => {
-  const frequencyMap = new Map<any, number>();
-  
-  values.forEach(val => {
-    const key = String(val);
-    frequencyMap.set(key, (frequencyMap.get(key) || 0) + 1);
-  });
-  
+const getMostFrequent = (frequencies: Map<string, number>): { value: any; frequency: number } => {
   let maxFreq = 0;
   let mostFrequent: any = null;
   
-  frequencyMap.forEach((freq, value) => {
+  frequencies.forEach((freq, value) => {
     if (freq > maxFreq) {
       maxFreq = freq;
       mostFrequent = value;
@@ -77,18 +71,13 @@ const getMostFrequent = (values: any[]): { value: any; frequency: number } => {
  */
 const calculateNumericStatistics = (
   columnName: string,
-  values: any[],
+  column: NumberColumn,
+  numericValues: number[],
   type: 'number' | 'string' | 'date' | 'boolean'
 ): ColumnStatistics => {
-  const nonNullValues = values.filter(v => v !== null && v !== undefined && v !== '');
-  const numericValues = nonNullValues
-    .map(v => Number(v))
-    .filter(v => !isNaN(v))
-    .sort((a, b) => a - b);
-  
-  const count = values.length;
-  const nonNullCount = nonNullValues.length;
-  const nullCount = count - nonNullCount;
+  const count = column.length;
+  const nonNullCount = count - column.missingCount;
+  const nullCount = column.missingCount;
   
   if (numericValues.length === 0) {
     return {
@@ -129,20 +118,21 @@ const calculateNumericStatistics = (
  */
 const calculateCategoricalStatistics = (
   columnName: string,
-  values: any[],
+  count: number,
+  frequencies: Map<string, number>,
   type: 'number' | 'string' | 'date' | 'boolean'
 ): ColumnStatistics => {
-  const nonNullValues = values.filter(v => v !== null && v !== undefined && v !== '');
-  const uniqueValues = new Set(nonNullValues.map(v => String(v)));
-  const { value: top, frequency: freq } = getMostFrequent(nonNullValues);
+  let nonNullCount = 0;
+  frequencies.forEach(freq => { nonNullCount += freq; });
+  const { value: top, frequency: freq } = getMostFrequent(frequencies);
   
   return {
     columnName,
     type,
-    count: values.length,
-    nonNullCount: nonNullValues.length,
-    nullCount: values.length - nonNullValues.length,
-    unique: uniqueValues.size,
+    count,
+    nonNullCount,
+    nullCount: count - nonNullCount,
+    unique: frequencies.size,
     top,
     freq
   };
@@ -153,14 +143,17 @@ const calculateCategoricalStatistics = (
  * Similar to pandas DataFrame.describe()
  */
 export const describeDataset = (dataset: Dataset): ColumnStatistics[] => {
+  // Columns are read through the columnar store: numbers as typed arrays, text as value counts
   return dataset.columns.map(column => {
-    const values = dataset.data.map(row => row[column.name]);
     const columnType = column.type;
     
     if (columnType === 'number') {
-      return calculateNumericStatistics(column.name, values, columnType);
+      const numberColumn = getNumberColumn(dataset.data, column.name);
+      const numericValues = Array.from(getNumericValues(dataset.data, column.name).sort());
+      return calculateNumericStatistics(column.name, numberColumn, numericValues, columnType);
     } else {
-      return calculateCategoricalStatistics(column.name, values, columnType);
+      const frequencies = getValueFrequencies(dataset.data, column.name);
+      return calculateCategoricalStatistics(column.name, dataset.data.length, frequencies, columnType);
     }
   });
 };
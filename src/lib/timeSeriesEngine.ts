@@ -11,6 +11,7 @@ import {
   GrowthRate,
   AggregatedTimeSeries
 } from './types';
+import { getDictionaryColumn, getNumberColumn } from './columnarStore';
 
 // ============================================================
 // Date Detection & Classification
@@ -442,9 +443,14 @@ export const aggregateByDatePeriod = (
 ): AggregatedTimeSeries[] => {
   const buckets: Record<string, number[]> = {};
 
-  for (const row of data) {
-    const date = tryParseDate(row[dateColumn]);
-    const value = Number(row[valueColumn]);
+  // Read both columns once: dates are parsed per distinct value, amounts from a typed array
+  const dates = getDictionaryColumn(data, dateColumn);
+  const parsedDates = dates.dictionary.map(tryParseDate);
+  const amounts = getNumberColumn(data, valueColumn).values;
+
+  for (let i = 0; i < data.length; i++) {
+    const date = parsedDates[dates.codes[i]];
+    const value = amounts[i];
     if (!date || isNaN(value)) continue;
 
     let key: string;
@@ -1,8 +1,29 @@
 // Shared types for the analytics platform
 // This file centralizes all data-related types to avoid duplication
 
+import type { CleaningStep } from './dataCleaningUtils';
+
 export type DataType = 'string' | 'number' | 'date' | 'boolean';
 
+// What a column's values mean, on top of their storage type (see semanticTypes.ts)
+export type SemanticType =
+  | 'currency'
+  | 'percent'
+  | 'email'
+  | 'url'
+  | 'phone'
+  | 'latitude'
+  | 'longitude'
+  | 'identifier'
+  | 'category'
+  | 'free_text';
+
+export interface SemanticTypeInfo {
+  type: SemanticType;
+  confidence: number; // share of sampled values that matched, 0-1
+  currencyCode?: string; // ISO 4217, for currency columns
+}
+
 export interface ColumnInfo {
   name: string;
   type: DataType;
@@ -20,10 +41,28 @@ export interface ColumnInfo {
     min?: number;
     max?: number;
     pattern?: string;
+    allowedValues?: (string | number | boolean)[];
+    unique?: boolean;
     custom?: (value: any) => boolean;
   };
+  // Calculated column: DAX expression evaluated in row context
+  expression?: string;
+  semantic?: SemanticTypeInfo;
 }
 
+// Declarative data quality rules, checked against a whole dataset (see dataValidation.ts)
+export type ComparisonOperator = '<' | '<=' | '=' | '!=' | '>=' | '>';
+
+export type ValidationRule = { id: string; description?: string } & (
+  | { kind: 'not_null'; column: string }
+  | { kind: 'unique'; columns: string[] } // more than one column: unique as a combination
+  | { kind: 'allowed_values'; column: string; values: (string | number | boolean)[]; caseSensitive?: boolean }
+  | { kind: 'regex'; column: string; pattern: string; flags?: string }
+  | { kind: 'range'; column: string; min?: number | string; max?: number | string } // strings are dates
+  | { kind: 'compare'; left: string; operator: ComparisonOperator; right: string } // e.g. end_date >= start_date
+  | { kind: 'reference'; column: string; datasetId: string; referenceColumn: string } // value must exist there
+);
+
 export interface Dataset {
   id: string;
   name: string;
@@ -38,6 +77,15 @@ export interface Dataset {
   // Metadata
   tags?: string[];
   category?: string;
+  validationRules?: ValidationRule[]; // dataset-level rules, on top of those implied by columns
+  cleaningHistory?: CleaningHistory; // in memory only, like file: how the rows were cleaned
+}
+
+/** The undo history of the cleaning steps behind a dataset's rows */
+export interface CleaningHistory {
+  original: Dataset; // the dataset before any step; later states are rebuilt by replaying steps
+  steps: CleaningStep[];
+  data: Dataset['data']; // the rows the steps produced, to tell whether they have been replaced since
 }
 
 export interface Observation {
@@ -75,13 +123,20 @@ export interface Relationship {
   toDataset: string;
   fromColumn: string;
   toColumn: string;
+  // Composite keys: every key column in pair order (fromColumn/toColumn hold the first pair)
+  fromColumns?: string[];
+  toColumns?: string[];
   type: 'one-to-one' | 'one-to-many' | 'many-to-many';
   confidence: number;
   schemaType?: 'star' | 'snowflake';
   isFactTable?: boolean;
   isDimensionTable?: boolean;
+  crossFilterDirection?: CrossFilterDirection; // defaults to 'single'
 }
 
+// 'single': filters flow from the "one" (dimension) side to the "many" side; 'both': either way
+export type CrossFilterDirection = 'single' | 'both';
+
 export type SchemaType = 'none' | 'star' | 'snowflake' | 'flat';
 
 // Schema detection types
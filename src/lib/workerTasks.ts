@@ -0,0 +1,213 @@
+// Worker Tasks - Heavy analytics engines that run off the main thread
+// Shared by the worker entry (analyticsWorker.ts) and the main-thread runner
+// (analyticsRunner.ts): the task registry, typed messages and the columnar packing
+// that lets dataset rows travel to the worker as transferable typed arrays
+
+import { Dataset, Relationship, SchemaDetectionResult, TimeSeriesResult } from './types';
+import { detectSchema } from './smartDataConnector';
+import { autoDetectTimeSeries } from './timeSeriesEngine';
+import { autoAdvancedAnalysis } from './advancedStatistics';
+import { runEnhancedAIAnalysis } from './aiInsightEngine';
+import { trainAllModels, MLProblemType, ModelComparisonResult, ProcessedDataset } from './mlEngine';
+
+// ============================================================
+// Task registry
+// ============================================================
+
+export type TaskProgressHandler = (progress: number, message: string) => void;
+
+/**
+ * Arguments and result of every task the worker can run
+ */
+export interface AnalyticsTaskMap {
+  detectSchema: {
+    args: [datasets: Dataset[]];
+    result: SchemaDetectionResult;
+  };
+  autoDetectTimeSeries: {
+    args: [dataset: Dataset];
+    result: TimeSeriesResult[];
+  };
+  autoAdvancedAnalysis: {
+    args: [dataset: Dataset];
+    result: ReturnType<typeof autoAdvancedAnalysis>;
+  };
+  runEnhancedAIAnalysis: {
+    args: [dataset: Dataset, allDatasets?: Dataset[], relationships?: Relationship[]];
+    result: Awaited<ReturnType<typeof runEnhancedAIAnalysis>>;
+  };
+  trainAllModels: {
+    args: [processedDataset: ProcessedDataset, problemType: MLProblemType, trainTestSplit: number];
+    result: ModelComparisonResult;
+  };
+}
+
+export type AnalyticsTaskName = keyof AnalyticsTaskMap;
+export type AnalyticsTaskArgs<K extends AnalyticsTaskName> = AnalyticsTaskMap[K]['args'];
+export type AnalyticsTaskResult<K extends AnalyticsTaskName> = AnalyticsTaskMap[K]['result'];
+
+export const ANALYTICS_TASKS: {
+  [K in AnalyticsTaskName]: (
+    args: AnalyticsTaskArgs<K>,
+    onProgress: TaskProgressHandler
+  ) => AnalyticsTaskResult<K> | Promise<AnalyticsTaskResult<K>>;
+} = {
+  detectSchema: ([datasets]) => detectSchema(datasets),
+  autoDetectTimeSeries: ([dataset]) => autoDetectTimeSeries(dataset),
+  autoAdvancedAnalysis: ([dataset]) => autoAdvancedAnalysis(dataset),
+  runEnhancedAIAnalysis: ([dataset, allDatasets, relationships], onProgress) =>
+    runEnhancedAIAnalysis(dataset, allDatasets, relationships, onProgress),
+  trainAllModels: ([processedDataset, problemType, trainTestSplit], onProgress) =>
+    trainAllModels(processedDataset, problemType, trainTestSplit, onProgress)
+};
+
+// ============================================================
+// Messages
+// ============================================================
+
+export interface WorkerRunRequest {
+  type: 'run';
+  id: number;
+  task: AnalyticsTaskName;
+  args: unknown[]; // packed with packTaskArgs
+}
+
+export type WorkerResponse =
+  | { type: 'progress'; id: number; progress: number; message: string }
+  | { type: 'result'; id: number; result: unknown }
+  | { type: 'error'; id: number; error: string };
+
+// ============================================================
+// Columnar packing
+// ============================================================
+
+// Missing-value markers for packed number columns
+const PRESENT = 0;
+const NULL_VALUE = 1;
+const ABSENT = 2; // the row has no such key
+
+type PackedColumn =
+  | { name: string; kind: 'number'; values: Float64Array; missing: Uint8Array }
+  | { name: string; kind: 'any'; values: unknown[] };
+
+export interface PackedRows {
+  __packedRows: true;
+  length: number;
+  columns: PackedColumn[];
+}
+
+type RowObject = Record<string, unknown>;
+
+const isRowArray = (value: unknown): value is RowObject[] =>
+  Array.isArray(value) && value.length > 0 && value[0] !== null && typeof value[0] === 'object' && !Array.isArray(value[0]);
+
+const isPackedRows = (value: unknown): value is PackedRows =>
+  value !== null && typeof value === 'object' && (value as PackedRows).__packedRows === true;
+
+/**
+ * Store rows column by column. All-number columns become Float64Arrays whose buffers
+ * are transferred (moved, not copied) to the worker; other columns stay plain arrays.
+ */
+export const packRows = (rows: RowObject[], transfer: Transferable[]): PackedRows => {
+  const names: string[] = [];
+  const seen = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(key => {
+    if (!seen.has(key)) {
+      seen.add(key);
+      names.push(key);
+    }
+  }));
+
+  const columns = names.map((name): PackedColumn => {
+    const numeric = rows.every(row => {
+      const value = row[name];
+      return value === null || value === undefined || typeof value === 'number';
+    });
+    if (!numeric) {
+      return { name, kind: 'any', values: rows.map(row => row[name]) };
+    }
+    const values = new Float64Array(rows.length);
+    const missing = new Uint8Array(rows.length);
+    rows.forEach((row, i) => {
+      const value = row[name];
+      if (typeof value === 'number') values[i] = value;
+      else missing[i] = name in row ? NULL_VALUE : ABSENT;
+    });
+    transfer.push(values.buffer, missing.buffer);
+    return { name, kind: 'number', values, missing };
+  });
+
+  return { __packedRows: true, length: rows.length, columns };
+};
+
+export const unpackRows = (packed: PackedRows): RowObject[] => {
+  const rows: RowObject[] = new Array(packed.length);
+  for (let i = 0; i < packed.length; i++) rows[i] = {};
+  packed.columns.forEach(column => {
+    if (column.kind === 'any') {
+      column.values.forEach((value, i) => {
+        if (value !== undefined) rows[i][column.name] = value;
+      });
+      return;
+    }
+    for (let i = 0; i < packed.length; i++) {
+      const flag = column.missing[i];
+      if (flag === PRESENT) rows[i][column.name] = column.values[i];
+      else if (flag === NULL_VALUE) rows[i][column.name] = null;
+    }
+  });
+  return rows;
+};
+
+/**
+ * Prepare a dataset-like object ({ data: rows, ... }) for postMessage: rows are packed,
+ * the File handle and cleaning history are dropped and column validators (functions) are removed
+ */
+const packDatasetLike = (value: Record<string, unknown>, transfer: Transferable[]): Record<string, unknown> => {
+  const { file: _file, cleaningHistory: _history, ...rest } = value;
+  const packed: Record<string, unknown> = { ...rest, data: packRows(value.data as RowObject[], transfer) };
+  if (Array.isArray(value.columns)) {
+    packed.columns = value.columns.map(col =>
+      col && typeof col === 'object' && col.validation?.custom
+        ? { ...col, validation: { ...col.validation, custom: undefined } }
+        : col
+    );
+  }
+  return packed;
+};
+
+// The same dataset often appears twice (primary dataset + all datasets). Packing it once
+// keeps one copy in the message, since structured cloning preserves shared references.
+const packValue = (value: unknown, transfer: Transferable[], cache: Map<object, unknown>): unknown => {
+  if (Array.isArray(value)) return value.map(item => packValue(item, transfer, cache));
+  if (value !== null && typeof value === 'object' && isRowArray((value as Record<string, unknown>).data)) {
+    if (!cache.has(value)) cache.set(value, packDatasetLike(value as Record<string, unknown>, transfer));
+    return cache.get(value);
+  }
+  return value;
+};
+
+const unpackValue = (value: unknown, cache: Map<object, unknown>): unknown => {
+  if (Array.isArray(value)) return value.map(item => unpackValue(item, cache));
+  if (value !== null && typeof value === 'object' && isPackedRows((value as Record<string, unknown>).data)) {
+    if (!cache.has(value)) {
+      cache.set(value, { ...(value as Record<string, unknown>), data: unpackRows((value as { data: PackedRows }).data) });
+    }
+    return cache.get(value);
+  }
+  return value;
+};
+
+/**
+ * Pack task arguments for the worker; returns the buffers to transfer with them
+ */
+export const packTaskArgs = (args: unknown[]): { args: unknown[]; transfer: Transferable[] } => {
+  const transfer: Transferable[] = [];
+  const cache = new Map<object, unknown>();
+  return { args: args.map(arg => packValue(arg, transfer, cache)), transfer };
+};
+
+export const unpackTaskArgs = (args: unknown[]): unknown[] => {
+  const cache = new Map<object, unknown>();
+  return args.map(arg => unpackValue(arg, cache));
+};
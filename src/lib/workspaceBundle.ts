@@ -0,0 +1,268 @@
+// Workspace Bundle - Portable .dataafrik export/import of a full analysis
+// One gzip-compressed, versioned JSON document with datasets (rows stored by column),
+// relationships, visualizations, DAX measures, KPI definitions and trained ML models
+
+import { Dataset } from './types';
+import { WorkspaceState, emptyWorkspaceState, encodeRows, decodeRows, toStorable } from './workspaceStore';
+import { KPIDefinition, generateKPIs } from './kpiFormulaEngine';
+import type { MLPipelineState, PreprocessingStrategy, ScalingMethod } from './mlEngine';
+
+// ============================================================
+// Types
+// ============================================================
+
+export const BUNDLE_FORMAT = 'dataafrik-bundle';
+export const BUNDLE_SCHEMA_VERSION = 1;
+export const BUNDLE_EXTENSION = '.dataafrik';
+
+/**
+ * ML Engine state worth sharing: the trained models and everything needed to
+ * predict with them (the preprocessed dataset carries scaling and label mappings)
+ */
+export interface MLBundleSection {
+  datasetId: string;
+  userConfig: {
+    targetColumn: string;
+    selectedFeatures: string[];
+    trainTestSplit: number;
+    imputeStrategy: PreprocessingStrategy;
+    imputeOrderBy?: string; // absent in bundles written before series imputation
+    scalingMethod: ScalingMethod;
+  };
+  pipeline: Omit<MLPipelineState, 'isRunning' | 'progress' | 'progressMessage'>;
+}
+
+export interface WorkspaceBundle {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  name: string;
+  workspace: WorkspaceState;
+  kpiDefinitions: Record<string, KPIDefinition[]>; // by dataset id
+  ml?: MLBundleSection;
+}
+
+interface EncodedDataset extends Omit<Dataset, 'data' | 'file'> {
+  rows: ReturnType<typeof encodeRows>;
+}
+
+interface EncodedBundle extends Omit<WorkspaceBundle, 'workspace'> {
+  workspace: Omit<WorkspaceState, 'datasets'> & { datasets: EncodedDataset[] };
+}
+
+// gzip streams start with these two bytes
+const GZIP_MAGIC = [0x1f, 0x8b];
+// JSON has no NaN/Infinity; model metrics and rows can contain them
+const NON_FINITE_KEY = '$nonFinite';
+
+// ============================================================
+// Encoding
+// ============================================================
+
+const jsonReplacer = (_key: string, value: unknown) =>
+  typeof value === 'number' && !Number.isFinite(value) ? { [NON_FINITE_KEY]: String(value) } : value;
+
+const jsonReviver = (_key: string, value: unknown) => {
+  if (value && typeof value === 'object' && NON_FINITE_KEY in value && Object.keys(value).length === 1) {
+    return Number((value as Record<string, string>)[NON_FINITE_KEY]);
+  }
+  return value;
+};
+
+const encodeDataset = (dataset: Dataset): EncodedDataset => {
+  const { data: _data, file: _file, cleaningHistory: _history, ...rest } = dataset;
+  return {
+    // Custom column validators are functions and can't travel in a file; other rules do
+    ...toStorable(rest),
+    rows: encodeRows(dataset)
+  };
+};
+
+const decodeDataset = ({ rows, ...rest }: EncodedDataset): Dataset => {
+  const data = decodeRows(rows);
+  return {
+    ...rest,
+    data,
+    rowCount: data.length,
+    createdAt: rest.createdAt ? new Date(rest.createdAt) : undefined,
+    updatedAt: rest.updatedAt ? new Date(rest.updatedAt) : undefined
+  };
+};
+
+const gzip = async (text: string): Promise<Blob> => {
+  const source = new Blob([text], { type: 'application/json' });
+  if (typeof CompressionStream === 'undefined') return source;
+  const stream = source.stream().pipeThrough(new CompressionStream('gzip'));
+  return new Response(stream).blob();
+};
+
+const gunzip = async (file: Blob): Promise<string> => {
+  const head = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  const compressed = head[0] === GZIP_MAGIC[0] && head[1] === GZIP_MAGIC[1];
+  if (!compressed) return file.text();
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot open compressed bundles. Please update your browser.');
+  }
+  try {
+    return await new Response(file.stream().pipeThrough(new DecompressionStream('gzip'))).text();
+  } catch {
+    throw new Error('Bundle file is damaged (could not decompress)');
+  }
+};
+
+// ============================================================
+// Validation
+// ============================================================
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Check a parsed bundle's format, schema version and internal references before
+ * anything is loaded into the page
+ */
+export const validateBundle = (value: unknown): EncodedBundle => {
+  if (!isObject(value) || value.format !== BUNDLE_FORMAT) {
+    throw new Error('Not a DataAfrik bundle');
+  }
+  const version = value.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Bundle has no valid schema version');
+  }
+  if (version > BUNDLE_SCHEMA_VERSION) {
+    throw new Error(
+      `Bundle uses schema version ${version}, but this app reads up to version ${BUNDLE_SCHEMA_VERSION}. ` +
+      'Please update the app to open it.'
+    );
+  }
+
+  const workspace = value.workspace;
+  if (!isObject(workspace) || !Array.isArray(workspace.datasets)) {
+    throw new Error('Bundle is missing its workspace datasets');
+  }
+  const datasetIds = new Set<string>();
+  workspace.datasets.forEach((ds: unknown, index: number) => {
+    if (!isObject(ds) || typeof ds.id !== 'string' || typeof ds.name !== 'string' || !Array.isArray(ds.columns)) {
+      throw new Error(`Dataset ${index + 1} in the bundle is malformed`);
+    }
+    const rows = ds.rows;
+    if (
+      !isObject(rows) || !Array.isArray(rows.columns) || !Array.isArray(rows.values) ||
+      typeof rows.rowCount !== 'number' || rows.values.length !== rows.columns.length ||
+      rows.values.some(column => !Array.isArray(column) || column.length !== rows.rowCount)
+    ) {
+      throw new Error(`Rows of dataset "${ds.name}" are corrupted`);
+    }
+    datasetIds.add(ds.id);
+  });
+
+  ['relationships', 'visualizations', 'daxCalculations', 'customDAXCalculations'].forEach(key => {
+    if (workspace[key] !== undefined && !Array.isArray(workspace[key])) {
+      throw new Error(`Bundle field "${key}" must be a list`);
+    }
+  });
+  const relationships = (workspace.relationships || []) as Record<string, unknown>[];
+  const broken = relationships.find(rel =>
+    !datasetIds.has(rel.fromDataset as string) || !datasetIds.has(rel.toDataset as string)
+  );
+  if (broken) {
+    throw new Error(`Relationship ${broken.fromColumn} → ${broken.toColumn} points to a dataset missing from the bundle`);
+  }
+
+  if (value.ml !== undefined) {
+    if (!isObject(value.ml) || !isObject(value.ml.pipeline) || !datasetIds.has(value.ml.datasetId as string)) {
+      throw new Error('Bundle ML section does not match its datasets');
+    }
+  }
+  return value as unknown as EncodedBundle;
+};
+
+// ============================================================
+// Public API
+// ============================================================
+
+/**
+ * Pack a workspace (and optionally ML Engine results) into a compressed bundle file
+ */
+export const createWorkspaceBundle = async (
+  name: string,
+  state: WorkspaceState,
+  options: { ml?: MLBundleSection } = {}
+): Promise<Blob> => {
+  // Resolve KPI cards now so the recipient sees the same ones, whatever their app version
+  const kpiDefinitions = Object.fromEntries(state.datasets.map(ds => [
+    ds.id,
+    state.kpiDefinitions?.[ds.id] ?? generateKPIs(ds, state.glossary)
+  ]));
+  const bundle: EncodedBundle = {
+    format: BUNDLE_FORMAT,
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    name,
+    workspace: { ...state, datasets: state.datasets.map(encodeDataset) },
+    kpiDefinitions,
+    ...(options.ml ? { ml: options.ml } : {})
+  };
+  return gzip(JSON.stringify(bundle, jsonReplacer));
+};
+
+/**
+ * Read, decompress and validate a .dataafrik file back into page state
+ */
+export const readWorkspaceBundle = async (file: Blob): Promise<WorkspaceBundle> => {
+  const text = await gunzip(file);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text, jsonReviver);
+  } catch {
+    throw new Error('Bundle file is damaged or not a DataAfrik bundle');
+  }
+  const bundle = validateBundle(parsed);
+
+  const workspace: WorkspaceState = {
+    ...emptyWorkspaceState(),
+    ...bundle.workspace,
+    datasets: bundle.workspace.datasets.map(decodeDataset),
+    kpiDefinitions: bundle.kpiDefinitions || {}
+  };
+
+  let ml = bundle.ml;
+  if (ml?.pipeline.modelComparison) {
+    // Keep the selected/best model as the same object as its row in the results
+    const { results, bestModel } = ml.pipeline.modelComparison;
+    const find = (algorithm?: string) => results.find(model => model.algorithm === algorithm);
+    ml = {
+      ...ml,
+      pipeline: {
+        ...ml.pipeline,
+        modelComparison: { ...ml.pipeline.modelComparison, bestModel: find(bestModel?.algorithm) || bestModel },
+        selectedModel: find(ml.pipeline.selectedModel?.algorithm) || ml.pipeline.selectedModel
+      }
+    };
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    schemaVersion: bundle.schemaVersion,
+    exportedAt: bundle.exportedAt,
+    name: bundle.name || 'Imported workspace',
+    workspace,
+    kpiDefinitions: workspace.kpiDefinitions,
+    ...(ml ? { ml } : {})
+  };
+};
+
+export const bundleFileName = (name: string): string =>
+  `${(name || 'workspace').replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'workspace'}${BUNDLE_EXTENSION}`;
+
+/**
+ * Trigger a browser download of a bundle
+ */
+export const downloadBundle = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = bundleFileName(name);
+  a.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,542 @@
+// Workspace Store - Saves Analyze-page workspaces (projects) in IndexedDB
+// Dataset rows are stored column by column in their own records so autosave only rewrites
+// the datasets that changed; snapshots keep numbered copies that can be restored later
+
+import {
+  Dataset, Relationship, DAXCalculation, Visualization,
+  SchemaDetectionResult, TimeSeriesResult, DateTableInfo
+} from './types';
+import type { AIInsightSummary } from './aiInsightEngine';
+import type { autoAdvancedAnalysis } from './advancedStatistics';
+import type { KPIDefinition } from './kpiFormulaEngine';
+import { Glossary, emptyGlossary } from './glossary';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface WorkspaceMeta {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  datasetCount: number;
+  rowCount: number;
+  snapshotCount: number;
+}
+
+/**
+ * Everything the Analyze page needs to come back exactly as it was left
+ */
+export interface WorkspaceState {
+  datasets: Dataset[];
+  activeDatasetId: string | null;
+  visualizations: Visualization[];
+  relationships: Relationship[];
+  daxCalculations: DAXCalculation[];
+  customDAXCalculations: DAXCalculation[];
+  selectedColorScheme: string;
+  schemaType: 'star' | 'snowflake' | 'none';
+  interpretation: string;
+  aiInsights: AIInsightSummary | null;
+  autoDetectedSchema: SchemaDetectionResult | null;
+  timeSeriesResults: TimeSeriesResult[];
+  advancedStatsResults: ReturnType<typeof autoAdvancedAnalysis> | null;
+  dateTableInfos: DateTableInfo[];
+  kpiDefinitions: Record<string, KPIDefinition[]>; // KPI cards pinned per dataset id (e.g. from a bundle)
+  glossary: Glossary; // business terms and value aliases for questions and KPI titles
+}
+
+export interface WorkspaceSnapshotMeta {
+  id: string;
+  workspaceId: string;
+  version: number;
+  label: string;
+  createdAt: string;
+  datasetCount: number;
+  rowCount: number;
+}
+
+/**
+ * Dataset rows in columnar form: one value array per column instead of one object
+ * per row, so column names aren't repeated for every row
+ */
+interface StoredRows {
+  columns: string[];
+  values: unknown[][];
+  rowCount: number;
+}
+
+interface StoredDatasetRows extends StoredRows {
+  workspaceId: string;
+  datasetId: string;
+}
+
+interface StoredState {
+  workspaceId: string;
+  state: WorkspaceState; // datasets carry no rows here
+}
+
+interface StoredSnapshot extends WorkspaceSnapshotMeta {
+  state: WorkspaceState;
+  rows: Record<string, StoredRows>; // by dataset id
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+const DB_NAME = 'dataafrik_workspaces';
+const DB_VERSION = 1;
+const STORE_WORKSPACES = 'workspaces';
+const STORE_STATE = 'workspace_state';
+const STORE_ROWS = 'dataset_rows';
+const STORE_SNAPSHOTS = 'snapshots';
+const LAST_WORKSPACE_KEY = 'dataafrik_last_workspace_v1';
+
+export const MAX_SNAPSHOTS_PER_WORKSPACE = 20;
+
+// ============================================================
+// IndexedDB helpers
+// ============================================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isWorkspaceStorageAvailable = (): boolean =>
+  typeof indexedDB !== 'undefined';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  if (!isWorkspaceStorageAvailable()) {
+    return Promise.reject(new Error('Workspace storage is not available in this browser'));
+  }
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_WORKSPACES)) {
+        db.createObjectStore(STORE_WORKSPACES, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORE_STATE)) {
+        db.createObjectStore(STORE_STATE, { keyPath: 'workspaceId' });
+      }
+      if (!db.objectStoreNames.contains(STORE_ROWS)) {
+        const rows = db.createObjectStore(STORE_ROWS, { keyPath: ['workspaceId', 'datasetId'] });
+        rows.createIndex('workspaceId', 'workspaceId');
+      }
+      if (!db.objectStoreNames.contains(STORE_SNAPSHOTS)) {
+        const snapshots = db.createObjectStore(STORE_SNAPSHOTS, { keyPath: 'id' });
+        snapshots.createIndex('workspaceId', 'workspaceId');
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgrading the schema: let it, and reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error('Could not open workspace storage'));
+    };
+    request.onblocked = () => {
+      dbPromise = null;
+      reject(new Error('Workspace storage is blocked by another open tab'));
+    };
+  });
+  return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Run work inside one transaction and resolve once it has committed
+ */
+const withTransaction = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Workspace transaction was aborted'));
+  });
+  // Rejections after a failed work() are reported through the catch below instead
+  done.catch(() => undefined);
+  try {
+    const result = await work(tx);
+    await done;
+    return result;
+  } catch (error) {
+    try { tx.abort(); } catch { /* already finished */ }
+    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+      throw new Error('Not enough browser storage to save this workspace');
+    }
+    throw error;
+  }
+};
+
+const deleteByIndex = (store: IDBObjectStore, indexName: string, key: IDBValidKey): Promise<void> =>
+  promisifyRequest(store.index(indexName).getAllKeys(key)).then(keys => {
+    keys.forEach(primaryKey => store.delete(primaryKey));
+  });
+
+// ============================================================
+// Serialization
+// ============================================================
+
+/**
+ * Copy state so it survives structured cloning: functions (column validators) are
+ * dropped, Dates and plain values are kept
+ */
+export const toStorable = <T>(value: T): T => {
+  if (typeof value === 'function') return undefined as T;
+  if (value === null || typeof value !== 'object' || value instanceof Date) return value;
+  if (Array.isArray(value)) return value.map(item => toStorable(item)) as T;
+  const copy: Record<string, unknown> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([key, item]) => {
+    if (typeof item !== 'function') copy[key] = toStorable(item);
+  });
+  return copy as T;
+};
+
+/**
+ * Strip rows (stored separately), the uploaded File handle and the in-memory cleaning
+ * history from a dataset
+ */
+const datasetShell = (dataset: Dataset): Dataset => {
+  const { file: _file, data: _data, cleaningHistory: _history, ...rest } = dataset;
+  return { ...toStorable(rest), data: [] };
+};
+
+export const encodeRows = (dataset: Dataset): StoredRows => {
+  const columns = dataset.columns.map(col => col.name);
+  const known = new Set(columns);
+  // Keep fields that were never analyzed as columns (e.g. row ids) too, wherever they
+  // first appear; the scan costs no more than encoding the values below
+  dataset.data.forEach(row => {
+    for (const key in row) {
+      if (!known.has(key)) {
+        known.add(key);
+        columns.push(key);
+      }
+    }
+  });
+  const values = columns.map(column => dataset.data.map(row => {
+    const value = row?.[column];
+    return value === undefined || typeof value === 'function' ? null : value;
+  }));
+  return { columns, values, rowCount: dataset.data.length };
+};
+
+export const decodeRows = (stored: StoredRows): Record<string, unknown>[] => {
+  const rows: Record<string, unknown>[] = new Array(stored.rowCount);
+  for (let i = 0; i < stored.rowCount; i++) {
+    const row: Record<string, unknown> = {};
+    stored.columns.forEach((column, c) => {
+      row[column] = stored.values[c][i];
+    });
+    rows[i] = row;
+  }
+  return rows;
+};
+
+const countRows = (datasets: Dataset[]): number =>
+  datasets.reduce((sum, ds) => sum + (ds.data?.length || ds.rowCount || 0), 0);
+
+const generateId = (prefix: string): string =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Row arrays already written, per workspace and dataset. React state never mutates rows in
+// place, so an unchanged array reference means the stored copy is still current. Datasets
+// sharing one array each have their own rows record, hence the dataset id in the key.
+const savedRows = new WeakMap<object, Set<string>>();
+
+const savedRowsKey = (workspaceId: string, datasetId: string) => `${workspaceId}\u0000${datasetId}`;
+
+const isRowsSaved = (data: object, workspaceId: string, datasetId: string): boolean =>
+  savedRows.get(data)?.has(savedRowsKey(workspaceId, datasetId)) ?? false;
+
+const markRowsSaved = (data: object, workspaceId: string, datasetId: string) => {
+  const saved = savedRows.get(data) || new Set<string>();
+  saved.add(savedRowsKey(workspaceId, datasetId));
+  savedRows.set(data, saved);
+};
+
+// ============================================================
+// Workspaces
+// ============================================================
+
+/**
+ * List saved workspaces, most recently updated first
+ */
+export const listWorkspaces = async (): Promise<WorkspaceMeta[]> => {
+  const workspaces = await withTransaction([STORE_WORKSPACES], 'readonly', tx =>
+    promisifyRequest(tx.objectStore(STORE_WORKSPACES).getAll() as IDBRequest<WorkspaceMeta[]>)
+  );
+  return workspaces.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const createWorkspace = async (name: string): Promise<WorkspaceMeta> => {
+  const now = new Date().toISOString();
+  const meta: WorkspaceMeta = {
+    id: generateId('ws'),
+    name: name.trim() || 'Untitled workspace',
+    createdAt: now,
+    updatedAt: now,
+    datasetCount: 0,
+    rowCount: 0,
+    snapshotCount: 0
+  };
+  await withTransaction([STORE_WORKSPACES], 'readwrite', tx => {
+    tx.objectStore(STORE_WORKSPACES).put(meta);
+  });
+  return meta;
+};
+
+/**
+ * Save the current state into a workspace. Only datasets whose rows changed since
+ * the last save are rewritten; rows of removed datasets are deleted.
+ */
+export const saveWorkspace = async (workspaceId: string, state: WorkspaceState): Promise<WorkspaceMeta> => {
+  const { meta, written } = await withTransaction([STORE_WORKSPACES, STORE_STATE, STORE_ROWS], 'readwrite', async tx => {
+    const workspaces = tx.objectStore(STORE_WORKSPACES);
+    const existing = await promisifyRequest(workspaces.get(workspaceId) as IDBRequest<WorkspaceMeta | undefined>);
+    if (!existing) {
+      throw new Error('Workspace not found. It may have been deleted in another tab.');
+    }
+
+    const rowsStore = tx.objectStore(STORE_ROWS);
+    const storedKeys = await promisifyRequest(rowsStore.index('workspaceId').getAllKeys(workspaceId));
+    const currentIds = new Set(state.datasets.map(ds => ds.id));
+    storedKeys.forEach(key => {
+      const [, datasetId] = key as [string, string];
+      if (!currentIds.has(datasetId)) rowsStore.delete(key);
+    });
+
+    const written: Dataset[] = [];
+    state.datasets.forEach(dataset => {
+      if (isRowsSaved(dataset.data, workspaceId, dataset.id)) return;
+      const record: StoredDatasetRows = { workspaceId, datasetId: dataset.id, ...encodeRows(dataset) };
+      rowsStore.put(record);
+      written.push(dataset);
+    });
+
+    const stored: StoredState = {
+      workspaceId,
+      state: { ...toStorable({ ...state, datasets: [] }), datasets: state.datasets.map(datasetShell) }
+    };
+    tx.objectStore(STORE_STATE).put(stored);
+
+    const meta: WorkspaceMeta = {
+      ...existing,
+      updatedAt: new Date().toISOString(),
+      datasetCount: state.datasets.length,
+      rowCount: countRows(state.datasets)
+    };
+    workspaces.put(meta);
+    return { meta, written };
+  });
+  // Remember row arrays only once the transaction has committed: one aborted at commit
+  // (e.g. QuotaExceededError) wrote nothing
+  written.forEach(dataset => markRowsSaved(dataset.data, workspaceId, dataset.id));
+  return meta;
+};
+
+/**
+ * Load a workspace with all dataset rows restored
+ */
+export const loadWorkspace = async (workspaceId: string): Promise<{ meta: WorkspaceMeta; state: WorkspaceState }> => {
+  const { meta, stored, rows } = await withTransaction([STORE_WORKSPACES, STORE_STATE, STORE_ROWS], 'readonly', async tx => ({
+    meta: await promisifyRequest(tx.objectStore(STORE_WORKSPACES).get(workspaceId) as IDBRequest<WorkspaceMeta | undefined>),
+    stored: await promisifyRequest(tx.objectStore(STORE_STATE).get(workspaceId) as IDBRequest<StoredState | undefined>),
+    rows: await promisifyRequest(
+      tx.objectStore(STORE_ROWS).index('workspaceId').getAll(workspaceId) as IDBRequest<StoredDatasetRows[]>
+    )
+  }));
+  if (!meta) {
+    throw new Error('Workspace not found');
+  }
+  if (!stored) {
+    // Created but never saved
+    return { meta, state: emptyWorkspaceState() };
+  }
+
+  const rowsById = new Map(rows.map(record => [record.datasetId, record]));
+  const datasets = stored.state.datasets.map(dataset => {
+    const record = rowsById.get(dataset.id);
+    const data = record ? decodeRows(record) : [];
+    markRowsSaved(data, workspaceId, dataset.id);
+    return { ...dataset, data, rowCount: data.length };
+  });
+  // Fields added in later versions fall back to their defaults
+  return { meta, state: { ...emptyWorkspaceState(), ...stored.state, datasets } };
+};
+
+export const renameWorkspace = async (workspaceId: string, name: string): Promise<WorkspaceMeta> =>
+  withTransaction([STORE_WORKSPACES], 'readwrite', async tx => {
+    const store = tx.objectStore(STORE_WORKSPACES);
+    const existing = await promisifyRequest(store.get(workspaceId) as IDBRequest<WorkspaceMeta | undefined>);
+    if (!existing) throw new Error('Workspace not found');
+    const meta = { ...existing, name: name.trim() || existing.name };
+    store.put(meta);
+    return meta;
+  });
+
+/**
+ * Delete a workspace with its rows and snapshots
+ */
+export const deleteWorkspace = async (workspaceId: string): Promise<void> => {
+  await withTransaction([STORE_WORKSPACES, STORE_STATE, STORE_ROWS, STORE_SNAPSHOTS], 'readwrite', async tx => {
+    tx.objectStore(STORE_WORKSPACES).delete(workspaceId);
+    tx.objectStore(STORE_STATE).delete(workspaceId);
+    await deleteByIndex(tx.objectStore(STORE_ROWS), 'workspaceId', workspaceId);
+    await deleteByIndex(tx.objectStore(STORE_SNAPSHOTS), 'workspaceId', workspaceId);
+  });
+  if (getLastWorkspaceId() === workspaceId) setLastWorkspaceId(null);
+};
+
+export const emptyWorkspaceState = (): WorkspaceState => ({
+  datasets: [],
+  activeDatasetId: null,
+  visualizations: [],
+  relationships: [],
+  daxCalculations: [],
+  customDAXCalculations: [],
+  selectedColorScheme: 'professional',
+  schemaType: 'none',
+  interpretation: '',
+  aiInsights: null,
+  autoDetectedSchema: null,
+  timeSeriesResults: [],
+  advancedStatsResults: null,
+  dateTableInfos: [],
+  kpiDefinitions: {},
+  glossary: emptyGlossary()
+});
+
+// ============================================================
+// Snapshots
+// ============================================================
+
+const toSnapshotMeta = ({ state: _state, rows: _rows, ...meta }: StoredSnapshot): WorkspaceSnapshotMeta => meta;
+
+/**
+ * List a workspace's snapshots, newest version first
+ */
+export const listSnapshots = async (workspaceId: string): Promise<WorkspaceSnapshotMeta[]> => {
+  const snapshots = await withTransaction([STORE_SNAPSHOTS], 'readonly', tx =>
+    promisifyRequest(tx.objectStore(STORE_SNAPSHOTS).index('workspaceId').getAll(workspaceId) as IDBRequest<StoredSnapshot[]>)
+  );
+  return snapshots.map(toSnapshotMeta).sort((a, b) => b.version - a.version);
+};
+
+/**
+ * Store a numbered, self-contained copy of the state. The oldest snapshots are
+ * pruned beyond MAX_SNAPSHOTS_PER_WORKSPACE.
+ */
+export const createSnapshot = async (
+  workspaceId: string,
+  state: WorkspaceState,
+  label?: string
+): Promise<WorkspaceSnapshotMeta> =>
+  withTransaction([STORE_WORKSPACES, STORE_SNAPSHOTS], 'readwrite', async tx => {
+    const workspaces = tx.objectStore(STORE_WORKSPACES);
+    const existing = await promisifyRequest(workspaces.get(workspaceId) as IDBRequest<WorkspaceMeta | undefined>);
+    if (!existing) throw new Error('Workspace not found');
+
+    const store = tx.objectStore(STORE_SNAPSHOTS);
+    const previous = await promisifyRequest(store.index('workspaceId').getAll(workspaceId) as IDBRequest<StoredSnapshot[]>);
+    const version = previous.reduce((max, snap) => Math.max(max, snap.version), 0) + 1;
+
+    const snapshot: StoredSnapshot = {
+      id: generateId('snap'),
+      workspaceId,
+      version,
+      label: label?.trim() || `Version ${version}`,
+      createdAt: new Date().toISOString(),
+      datasetCount: state.datasets.length,
+      rowCount: countRows(state.datasets),
+      state: { ...toStorable({ ...state, datasets: [] }), datasets: state.datasets.map(datasetShell) },
+      rows: Object.fromEntries(state.datasets.map(ds => [ds.id, encodeRows(ds)]))
+    };
+    store.put(snapshot);
+
+    const ordered = [...previous].sort((a, b) => a.version - b.version);
+    const excess = ordered.length + 1 - MAX_SNAPSHOTS_PER_WORKSPACE;
+    ordered.slice(0, Math.max(0, excess)).forEach(old => store.delete(old.id));
+
+    workspaces.put({ ...existing, snapshotCount: Math.min(ordered.length + 1, MAX_SNAPSHOTS_PER_WORKSPACE) });
+    return toSnapshotMeta(snapshot);
+  });
+
+/**
+ * Read a snapshot's state (rows included) without touching the workspace
+ */
+export const loadSnapshot = async (snapshotId: string): Promise<WorkspaceState> => {
+  const snapshot = await withTransaction([STORE_SNAPSHOTS], 'readonly', tx =>
+    promisifyRequest(tx.objectStore(STORE_SNAPSHOTS).get(snapshotId) as IDBRequest<StoredSnapshot | undefined>)
+  );
+  if (!snapshot) throw new Error('Snapshot not found');
+  const datasets = snapshot.state.datasets.map(dataset => {
+    const rows = snapshot.rows[dataset.id];
+    const data = rows ? decodeRows(rows) : [];
+    return { ...dataset, data, rowCount: data.length };
+  });
+  return { ...emptyWorkspaceState(), ...snapshot.state, datasets };
+};
+
+/**
+ * Restore a snapshot as the workspace's current state and return it
+ */
+export const restoreSnapshot = async (workspaceId: string, snapshotId: string): Promise<WorkspaceState> => {
+  const state = await loadSnapshot(snapshotId);
+  await saveWorkspace(workspaceId, state);
+  return state;
+};
+
+export const deleteSnapshot = async (workspaceId: string, snapshotId: string): Promise<void> => {
+  await withTransaction([STORE_WORKSPACES, STORE_SNAPSHOTS], 'readwrite', async tx => {
+    const store = tx.objectStore(STORE_SNAPSHOTS);
+    store.delete(snapshotId);
+    const workspaces = tx.objectStore(STORE_WORKSPACES);
+    const existing = await promisifyRequest(workspaces.get(workspaceId) as IDBRequest<WorkspaceMeta | undefined>);
+    const remaining = await promisifyRequest(store.index('workspaceId').count(workspaceId));
+    if (existing) workspaces.put({ ...existing, snapshotCount: remaining });
+  });
+};
+
+// ============================================================
+// Last opened workspace
+// ============================================================
+
+/**
+ * The id of the workspace to reopen after a refresh (a small pointer, so localStorage is fine)
+ */
+export const getLastWorkspaceId = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_WORKSPACE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setLastWorkspaceId = (workspaceId: string | null) => {
+  try {
+    if (workspaceId) localStorage.setItem(LAST_WORKSPACE_KEY, workspaceId);
+    else localStorage.removeItem(LAST_WORKSPACE_KEY);
+  } catch {
+    // Private mode / storage disabled: reopening is a convenience only
+  }
+};